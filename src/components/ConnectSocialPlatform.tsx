@@ -1,6 +1,6 @@
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Facebook, Instagram, Linkedin, Twitter } from 'lucide-react';
+import { AlertTriangle, Facebook, Instagram, Linkedin, Loader2, Twitter } from 'lucide-react';
 
 const platforms = [
   { id: 'facebook', name: 'Facebook', icon: Facebook, color: 'bg-[#1877F2]' },
@@ -12,34 +12,65 @@ const platforms = [
 interface ConnectSocialPlatformProps {
   onConnect: (platform: string) => void;
   connectedPlatforms?: string[];
+  /** Connected platforms whose token stopped working; they can be connected again */
+  reconnectPlatforms?: string[];
+  /** Connected account per platform, shown under its button */
+  accountNames?: Record<string, string | null>;
+  /** Platform whose authorization is being started */
+  pendingPlatform?: string | null;
 }
 
-export function ConnectSocialPlatform({ onConnect, connectedPlatforms = [] }: ConnectSocialPlatformProps) {
+export function SocialPlatformButtons({
+  onConnect,
+  connectedPlatforms = [],
+  reconnectPlatforms = [],
+  accountNames = {},
+  pendingPlatform = null,
+}: ConnectSocialPlatformProps) {
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      {platforms.map((platform) => {
+        const Icon = platform.icon;
+        const needsReconnect = reconnectPlatforms.includes(platform.id);
+        const isConnected = connectedPlatforms.includes(platform.id) && !needsReconnect;
+        const isPending = pendingPlatform === platform.id;
+
+        return (
+          <Button
+            key={platform.id}
+            variant={isConnected ? 'secondary' : 'outline'}
+            className={`h-auto py-3 flex flex-col gap-2 ${needsReconnect ? 'border-destructive text-destructive' : ''}`}
+            onClick={() => onConnect(platform.id)}
+            disabled={isConnected || !!pendingPlatform}
+          >
+            {isPending ? (
+              <Loader2 className="h-5 w-5 animate-spin" />
+            ) : needsReconnect ? (
+              <AlertTriangle className="h-5 w-5" />
+            ) : (
+              <Icon className="h-5 w-5" />
+            )}
+            <span className="text-xs">
+              {needsReconnect ? `Reconnect ${platform.name}` : isConnected ? 'Connected' : `Connect ${platform.name}`}
+            </span>
+            {(isConnected || needsReconnect) && accountNames[platform.id] && (
+              <span className="text-[10px] text-muted-foreground truncate max-w-full">{accountNames[platform.id]}</span>
+            )}
+          </Button>
+        );
+      })}
+    </div>
+  );
+}
+
+export function ConnectSocialPlatform(props: ConnectSocialPlatformProps) {
   return (
     <Card>
       <CardHeader>
         <CardTitle className="text-lg">Connect Platforms</CardTitle>
       </CardHeader>
-      <CardContent className="grid grid-cols-2 gap-3">
-        {platforms.map((platform) => {
-          const Icon = platform.icon;
-          const isConnected = connectedPlatforms.includes(platform.id);
-
-          return (
-            <Button
-              key={platform.id}
-              variant={isConnected ? 'secondary' : 'outline'}
-              className="h-auto py-3 flex flex-col gap-2"
-              onClick={() => onConnect(platform.id)}
-              disabled={isConnected}
-            >
-              <Icon className="h-5 w-5" />
-              <span className="text-xs">
-                {isConnected ? 'Connected' : `Connect ${platform.name}`}
-              </span>
-            </Button>
-          );
-        })}
+      <CardContent>
+        <SocialPlatformButtons {...props} />
       </CardContent>
     </Card>
   );
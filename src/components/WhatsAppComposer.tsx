@@ -1,16 +1,65 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Send, Loader2 } from 'lucide-react';
 import { useWhatsApp } from '@/hooks/useWhatsApp';
+import { useDebounce } from '@/hooks/useDebounce';
+import { useSessionWindow } from '@/hooks/useSessionWindow';
+import { useClient } from '@/contexts/ClientContext';
+import { supabase } from '@/integrations/supabase/client';
+import { getLastInboundAt } from '@/utils/whatsapp';
+import { SessionWindowBadge } from '@/components/client/whatsapp/SessionWindowBadge';
 import { toast } from 'sonner';
 
+interface ApprovedTemplate {
+  id: string;
+  name: string;
+  components: { type: string; text?: string }[] | null;
+}
+
 export function WhatsAppComposer() {
+  const { client } = useClient();
   const [phoneNumber, setPhoneNumber] = useState('');
   const [message, setMessage] = useState('');
+  const [lastInboundAt, setLastInboundAt] = useState<string | null>(null);
+  const [checkedPhone, setCheckedPhone] = useState('');
+  const [templates, setTemplates] = useState<ApprovedTemplate[]>([]);
+  const [templateName, setTemplateName] = useState('');
+  const [templateVariables, setTemplateVariables] = useState<string[]>([]);
   const { sendMessage, isSending } = useWhatsApp();
 
+  const debouncedPhone = useDebounce(phoneNumber, 400);
+  const session = useSessionWindow(lastInboundAt);
+  const cleanedPhone = debouncedPhone.replace(/[^0-9]/g, '');
+  // Free-form stays available until the lookup for the typed number says otherwise
+  const templateOnly = cleanedPhone.length >= 11 && checkedPhone === debouncedPhone && !session.open;
+
+  const selectedTemplate = templates.find((t) => t.name === templateName);
+  const templateBody = selectedTemplate?.components?.find((c) => c.type === 'BODY')?.text || '';
+  const variableCount = new Set(templateBody.match(/{{(\d+)}}/g) || []).size;
+
+  useEffect(() => {
+    if (!client) return;
+    supabase
+      .from('whatsapp_templates')
+      .select('id, name, components')
+      .eq('client_id', client.id)
+      .in('status', ['approved', 'ready'])
+      .order('name')
+      .then(({ data }) => setTemplates((data || []) as unknown as ApprovedTemplate[]));
+  }, [client]);
+
+  // Look up the session window once a full number has been typed
+  useEffect(() => {
+    setLastInboundAt(null);
+    if (!client || cleanedPhone.length < 11) return;
+    getLastInboundAt(client.id, debouncedPhone)
+      .then((at) => { setLastInboundAt(at); setCheckedPhone(debouncedPhone); })
+      .catch((err) => console.error('Failed to load session window:', err));
+  }, [client, debouncedPhone, cleanedPhone.length]);
+
   const handleSend = async () => {
     const cleaned = phoneNumber.replace(/[^0-9]/g, '');
     if (cleaned.length < 11) {
@@ -22,15 +71,27 @@ export function WhatsAppComposer() {
       return;
     }
 
-    if (!phoneNumber || !message) {
-      toast.error('Phone number and message are required');
+    if (templateOnly ? !selectedTemplate : !phoneNumber || !message) {
+      toast.error(templateOnly ? 'Choose an approved template' : 'Phone number and message are required');
       return;
     }
 
     try {
-      await sendMessage({ to: phoneNumber, message, type: 'text' });
+      if (!templateOnly) {
+        await sendMessage({ to: phoneNumber, message, type: 'text' });
+      } else {
+        await sendMessage({
+          to: phoneNumber,
+          message: templateBody,
+          type: 'template',
+          templateName: selectedTemplate!.name,
+          templateVariables: Array.from({ length: variableCount }, (_, i) => templateVariables[i] || ''),
+        });
+      }
       toast.success('Message sent successfully!');
       setMessage('');
+      setTemplateName('');
+      setTemplateVariables([]);
     } catch (error: any) {
       toast.error('Failed to send message', { description: error.message });
     }
@@ -43,22 +104,50 @@ export function WhatsAppComposer() {
         value={phoneNumber}
         onChange={(e) => setPhoneNumber(e.target.value)}
       />
-      <div className="relative">
-        <Textarea
-          placeholder="Type your message..."
-          value={message}
-          onChange={(e) => setMessage(e.target.value)}
-          rows={4}
-          maxLength={4096}
-        />
-      </div>
+      {cleanedPhone.length >= 11 && checkedPhone === debouncedPhone && (
+        <SessionWindowBadge lastInboundAt={lastInboundAt} />
+      )}
+      {!templateOnly ? (
+        <div className="relative">
+          <Textarea
+            placeholder="Type your message..."
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            rows={4}
+            maxLength={4096}
+          />
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            This number has not messaged you in the last 24 hours, so WhatsApp only accepts an approved template.
+          </p>
+          <Select value={templateName} onValueChange={(val) => { setTemplateName(val); setTemplateVariables([]); }}>
+            <SelectTrigger>
+              <SelectValue placeholder={templates.length ? 'Choose an approved template' : 'No approved templates'} />
+            </SelectTrigger>
+            <SelectContent>
+              {templates.map((t) => <SelectItem key={t.id} value={t.name}>{t.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          {Array.from({ length: variableCount }, (_, i) => (
+            <Input
+              key={i}
+              placeholder={`Value for {{${i + 1}}}`}
+              value={templateVariables[i] || ''}
+              onChange={(e) => setTemplateVariables((prev) => { const next = [...prev]; next[i] = e.target.value; return next; })}
+            />
+          ))}
+          {templateBody && <p className="text-sm whitespace-pre-wrap rounded-md bg-muted p-3">{templateBody}</p>}
+        </div>
+      )}
       <div className="flex justify-between items-center">
         <span className="text-sm text-muted-foreground">
-          {message.length} / 4096 characters
+          {templateOnly ? 'Template message' : `${message.length} / 4096 characters`}
         </span>
         <Button
           onClick={handleSend}
-          disabled={isSending || !phoneNumber || !message}
+          disabled={isSending || !phoneNumber || (templateOnly ? !selectedTemplate : !message)}
         >
           {isSending ? (
             <Loader2 className="h-4 w-4 animate-spin mr-2" />
@@ -0,0 +1,115 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Landmark } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  GST_STATE_CODES, TAX_TREATMENT_LABELS, fetchAdminTaxSettings, fetchClientTaxDetails, isValidGstin,
+  resolveTaxTreatment, updateClientTaxDetails, type ClientTaxDetails,
+} from "@/lib/tax";
+
+interface ClientTaxDetailsCardProps {
+  clientId: string;
+  adminId: string;
+}
+
+const EMPTY_DETAILS: ClientTaxDetails = {
+  tax_id: null,
+  billing_country_code: "IN",
+  billing_state_code: null,
+  billing_address: null,
+};
+
+/** The client's tax ID and billing location, which decide how their invoices are taxed. */
+export function ClientTaxDetailsCard({ clientId, adminId }: ClientTaxDetailsCardProps) {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<ClientTaxDetails>(EMPTY_DETAILS);
+
+  const { data: details, isLoading } = useQuery({
+    queryKey: ["client-tax-details", clientId],
+    queryFn: () => fetchClientTaxDetails(clientId),
+  });
+  const { data: taxSettings } = useQuery({
+    queryKey: ["admin-tax-settings", adminId],
+    queryFn: () => fetchAdminTaxSettings(adminId),
+  });
+
+  useEffect(() => {
+    if (details) setForm(details);
+  }, [details]);
+
+  const domestic = (form.billing_country_code || "IN") === "IN";
+  const gstinError = domestic && form.tax_id?.trim() && !isValidGstin(form.tax_id, form.billing_state_code)
+    ? "Not a valid GSTIN for the selected state"
+    : null;
+  const treatment = resolveTaxTreatment(taxSettings ?? null, form);
+
+  const save = useMutation({
+    mutationFn: () => updateClientTaxDetails(clientId, form),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["client-tax-details", clientId] });
+      toast.success("Tax details saved");
+    },
+    onError: (err: Error) => toast.error(err.message || "Failed to save tax details"),
+  });
+
+  if (isLoading) return <Card><CardContent className="p-6"><Skeleton className="h-24 w-full" /></CardContent></Card>;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><Landmark className="h-5 w-5" /> Tax Details</CardTitle>
+        <CardDescription>New invoice lines: {TAX_TREATMENT_LABELS[treatment]}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label>Country Code</Label>
+            <Input
+              value={form.billing_country_code}
+              maxLength={2}
+              onChange={(e) => setForm((f) => ({ ...f, billing_country_code: e.target.value.toUpperCase() }))}
+            />
+          </div>
+          {domestic && (
+            <div className="space-y-2">
+              <Label>State</Label>
+              <Select value={form.billing_state_code ?? ""} onValueChange={(v) => setForm((f) => ({ ...f, billing_state_code: v }))}>
+                <SelectTrigger><SelectValue placeholder="Select state" /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(GST_STATE_CODES).map(([code, name]) => (
+                    <SelectItem key={code} value={code}>{code} - {name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>{domestic ? "GSTIN" : "VAT / Tax ID"}</Label>
+            <Input value={form.tax_id ?? ""} onChange={(e) => setForm((f) => ({ ...f, tax_id: e.target.value.toUpperCase() }))} placeholder="Optional" />
+            {gstinError && <p className="text-xs text-destructive">{gstinError}</p>}
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>Billing Address</Label>
+          <Textarea
+            value={form.billing_address ?? ""}
+            onChange={(e) => setForm((f) => ({ ...f, billing_address: e.target.value }))}
+            rows={2}
+          />
+        </div>
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={() => save.mutate()} disabled={save.isPending || !!gstinError}>
+            {save.isPending ? "Saving..." : "Save Tax Details"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
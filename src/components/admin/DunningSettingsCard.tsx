@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertTriangle, BellRing } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  DEFAULT_DUNNING_SETTINGS, DUNNING_STEP_LABELS, dunningSchedule, fetchDunningSettings, fetchDunningSteps,
+  fetchOpenSuspension, parseReminderOffsets, updateDunningSettings,
+} from "@/lib/dunning";
+
+interface DunningSettingsCardProps {
+  clientId: string;
+}
+
+/** Overdue reminder schedule, grace period and suspension for one client, with recent dunning activity. */
+export function DunningSettingsCard({ clientId }: DunningSettingsCardProps) {
+  const queryClient = useQueryClient();
+  const [enabled, setEnabled] = useState(DEFAULT_DUNNING_SETTINGS.enabled);
+  const [offsets, setOffsets] = useState(DEFAULT_DUNNING_SETTINGS.reminder_offsets.join(", "));
+  const [graceDays, setGraceDays] = useState(String(DEFAULT_DUNNING_SETTINGS.grace_days));
+  const [suspend, setSuspend] = useState(DEFAULT_DUNNING_SETTINGS.suspend_services);
+  const [emailReminders, setEmailReminders] = useState(DEFAULT_DUNNING_SETTINGS.email_reminders);
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ["dunning-settings", clientId],
+    queryFn: () => fetchDunningSettings(clientId),
+  });
+  const { data: steps = [] } = useQuery({
+    queryKey: ["dunning-steps", clientId],
+    queryFn: () => fetchDunningSteps(clientId),
+  });
+  const { data: suspension } = useQuery({
+    queryKey: ["dunning-suspension", clientId],
+    queryFn: () => fetchOpenSuspension(clientId),
+  });
+
+  useEffect(() => {
+    if (!settings) return;
+    setEnabled(settings.enabled);
+    setOffsets(settings.reminder_offsets.join(", "));
+    setGraceDays(String(settings.grace_days));
+    setSuspend(settings.suspend_services);
+    setEmailReminders(settings.email_reminders);
+  }, [settings]);
+
+  const parsedOffsets = parseReminderOffsets(offsets);
+  const grace = Number(graceDays);
+  const graceValid = /^\d+$/.test(graceDays);
+
+  const preview = parsedOffsets && graceValid
+    ? dunningSchedule(new Date(), {
+        enabled, reminder_offsets: parsedOffsets, grace_days: grace, suspend_services: suspend, email_reminders: emailReminders,
+      })
+    : [];
+
+  const save = useMutation({
+    mutationFn: () =>
+      updateDunningSettings(clientId, {
+        enabled,
+        reminder_offsets: parsedOffsets ?? [],
+        grace_days: grace,
+        suspend_services: suspend,
+        email_reminders: emailReminders,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["dunning-settings", clientId] });
+      queryClient.invalidateQueries({ queryKey: ["dunning-suspension", clientId] });
+      queryClient.invalidateQueries({ queryKey: ["dunning-steps", clientId] });
+      toast.success("Dunning schedule saved");
+    },
+    onError: (err: Error) => toast.error(err.message || "Failed to save dunning schedule"),
+  });
+
+  if (isLoading) return <Card><CardContent className="p-6"><Skeleton className="h-32 w-full" /></CardContent></Card>;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2"><BellRing className="h-5 w-5" /> Overdue Invoices</CardTitle>
+          <CardDescription>Reminders and suspension when this client's invoices go unpaid</CardDescription>
+        </div>
+        <Switch checked={enabled} onCheckedChange={setEnabled} aria-label="Dunning enabled" />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {suspension && (
+          <div className="flex items-center gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            Services suspended since {format(new Date(suspension.suspended_at), "MMM d, yyyy")}. They are restored when the invoice is paid, or when you turn suspension off.
+          </div>
+        )}
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Reminders (days after due date)</Label>
+            <Input value={offsets} onChange={(e) => setOffsets(e.target.value)} placeholder="3, 7, 14" disabled={!enabled} />
+            {!parsedOffsets && <p className="text-xs text-destructive">Use whole numbers of days, e.g. 3, 7, 14</p>}
+          </div>
+          <div className="space-y-2">
+            <Label>Grace Period (days after due date)</Label>
+            <Input type="number" min={0} value={graceDays} onChange={(e) => setGraceDays(e.target.value)} disabled={!enabled || !suspend} />
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-6">
+          <label className="flex items-center gap-2 text-sm">
+            <Switch checked={suspend} onCheckedChange={setSuspend} disabled={!enabled} />
+            Suspend services and pause campaigns after the grace period
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <Switch checked={emailReminders} onCheckedChange={setEmailReminders} disabled={!enabled} />
+            Email the client at each step
+          </label>
+        </div>
+        {preview.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            For an invoice due today: {preview.map((m) => `${format(m.date, "MMM d")} ${m.label.toLowerCase()}`).join(" · ")}
+          </p>
+        )}
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={() => save.mutate()} disabled={save.isPending || !parsedOffsets || !graceValid}>
+            {save.isPending ? "Saving..." : "Save Schedule"}
+          </Button>
+        </div>
+        {steps.length > 0 && (
+          <div className="space-y-2 border-t pt-4">
+            <p className="text-sm font-medium text-foreground">Recent activity</p>
+            {steps.slice(0, 8).map((s) => (
+              <div key={s.id} className="flex items-center justify-between text-sm">
+                <span>
+                  {DUNNING_STEP_LABELS[s.step]}
+                  {s.step === "reminder" && ` (+${s.offset_days}d)`}
+                </span>
+                <span className="flex items-center gap-2 text-muted-foreground">
+                  {s.email_status === "failed" && <Badge variant="destructive" className="text-[10px]">Email failed</Badge>}
+                  {format(new Date(s.created_at), "MMM d, yyyy")}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  PLAN_CHANGE_ROLE_LABELS, changeServicePlan, fetchActivePlans, fetchPlanChanges, fetchSelfServePlanChanges,
+  planChangeDirection, setSelfServePlanChanges,
+} from "@/lib/plan-changes";
+
+interface PlanChangeService {
+  id: string;
+  service_id: string;
+  service_name: string;
+  plan_id: string | null;
+  is_active: boolean;
+}
+
+interface PlanChangeHistoryCardProps {
+  clientId: string;
+  services: PlanChangeService[];
+  onChanged: () => void;
+}
+
+const STATUS_VARIANTS = { scheduled: "outline", applied: "default", cancelled: "secondary" } as const;
+
+/** Plan upgrades and downgrades for one client, whether they may make them themselves, and an admin change action. */
+export function PlanChangeHistoryCard({ clientId, services, onChanged }: PlanChangeHistoryCardProps) {
+  const queryClient = useQueryClient();
+  const [clientServiceId, setClientServiceId] = useState("");
+  const [planId, setPlanId] = useState("");
+
+  const activeServices = services.filter((s) => s.is_active);
+  const serviceIds = activeServices.map((s) => s.service_id);
+
+  const { data: changes = [], isLoading } = useQuery({
+    queryKey: ["plan-changes", clientId],
+    queryFn: () => fetchPlanChanges(clientId),
+  });
+  const { data: selfServe = true } = useQuery({
+    queryKey: ["plan-changes-self-serve", clientId],
+    queryFn: () => fetchSelfServePlanChanges(clientId),
+  });
+  const { data: plans = [] } = useQuery({
+    queryKey: ["active-plans", serviceIds],
+    queryFn: () => fetchActivePlans(serviceIds),
+    enabled: serviceIds.length > 0,
+  });
+
+  const selectedService = activeServices.find((s) => s.id === clientServiceId);
+  const servicePlans = plans.filter((p) => p.service_id === selectedService?.service_id);
+  const currentPlan = plans.find((p) => p.id === selectedService?.plan_id);
+  const targetPlan = plans.find((p) => p.id === planId);
+
+  const toggleSelfServe = useMutation({
+    mutationFn: (enabled: boolean) => setSelfServePlanChanges(clientId, enabled),
+    onSuccess: (_, enabled) => {
+      queryClient.invalidateQueries({ queryKey: ["plan-changes-self-serve", clientId] });
+      toast.success(enabled ? "Client can now change their own plans" : "Plan changes are now admin-only");
+    },
+    onError: (err: Error) => toast.error(err.message || "Failed to update setting"),
+  });
+
+  const change = useMutation({
+    mutationFn: () => changeServicePlan(clientServiceId, planId),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["plan-changes", clientId] });
+      if (result.status === "applied") toast.success("Plan upgraded");
+      else if (result.status === "scheduled") toast.success(`Downgrade scheduled for ${format(new Date(result.effective_at!), "MMM d, yyyy")}`);
+      else toast.success("Pending plan change cancelled");
+      setPlanId("");
+      onChanged();
+    },
+    onError: (err: Error) => toast.error(err.message || "Failed to change plan"),
+  });
+
+  if (isLoading) return <Card><CardContent className="p-6"><Skeleton className="h-24 w-full" /></CardContent></Card>;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base"><ArrowUpDown className="h-5 w-5" /> Plan Changes</CardTitle>
+        <CardDescription>
+          Upgrades apply immediately with a prorated charge; downgrades apply when the usage period ends with a prorated credit
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between rounded-lg border p-3">
+          <div>
+            <Label htmlFor="self-serve-plan-changes">Client can change plans</Label>
+            <p className="text-xs text-muted-foreground">When off, only you can upgrade or downgrade this client</p>
+          </div>
+          <Switch
+            id="self-serve-plan-changes"
+            checked={selfServe}
+            disabled={toggleSelfServe.isPending}
+            onCheckedChange={(v) => toggleSelfServe.mutate(v)}
+          />
+        </div>
+
+        {activeServices.length > 0 && (
+          <div className="grid gap-3 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+            <div className="space-y-1.5">
+              <Label>Service</Label>
+              <Select value={clientServiceId} onValueChange={(v) => { setClientServiceId(v); setPlanId(""); }}>
+                <SelectTrigger><SelectValue placeholder="Select service" /></SelectTrigger>
+                <SelectContent>
+                  {activeServices.map((s) => <SelectItem key={s.id} value={s.id}>{s.service_name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label>New plan</Label>
+              <Select value={planId} onValueChange={setPlanId} disabled={!selectedService}>
+                <SelectTrigger><SelectValue placeholder="Select plan" /></SelectTrigger>
+                <SelectContent>
+                  {servicePlans.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.plan_name}{p.monthly_price != null ? ` — ₹${p.monthly_price.toLocaleString()}/mo` : ""}
+                      {p.id === selectedService?.plan_id ? " (current)" : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button disabled={!targetPlan || change.isPending} onClick={() => change.mutate()}>
+              {targetPlan && targetPlan.id === selectedService?.plan_id
+                ? "Keep Plan"
+                : targetPlan && planChangeDirection(currentPlan?.monthly_price, targetPlan.monthly_price, !!selectedService?.plan_id) === "downgrade"
+                  ? "Schedule Downgrade"
+                  : "Upgrade Now"}
+            </Button>
+          </div>
+        )}
+
+        {changes.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No plan changes yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Service</TableHead>
+                <TableHead>Change</TableHead>
+                <TableHead>Effective</TableHead>
+                <TableHead>By</TableHead>
+                <TableHead className="text-right">Proration</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {changes.map((c) => (
+                <TableRow key={c.id}>
+                  <TableCell className="font-medium">{c.service_name}</TableCell>
+                  <TableCell>
+                    <span className="flex items-center gap-1 text-sm">
+                      {c.direction === "upgrade"
+                        ? <ArrowUp className="h-3 w-3 text-emerald-500" />
+                        : <ArrowDown className="h-3 w-3 text-amber-500" />}
+                      {c.from_plan_name ?? "No plan"} → {c.to_plan_name}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-sm">{format(new Date(c.applied_at ?? c.effective_at), "MMM d, yyyy")}</TableCell>
+                  <TableCell className="text-sm">{PLAN_CHANGE_ROLE_LABELS[c.requested_by_role]}</TableCell>
+                  <TableCell className={`text-right text-sm ${c.proration_amount < 0 ? "text-green-600" : ""}`}>
+                    {c.proration_amount !== 0 ? `₹${c.proration_amount.toLocaleString()}` : "—"}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[c.status]} className="text-xs capitalize">{c.status}</Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
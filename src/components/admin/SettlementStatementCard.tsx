@@ -0,0 +1,125 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { addMonths, format, parseISO, startOfMonth } from "date-fns";
+import { Download, FileText, Scale } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import {
+  Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow,
+} from "@/components/ui/table";
+import { closedBillingPeriods } from "@/lib/billing";
+import {
+  exportStatementCsv, exportStatementPdf, fetchSettlementStatement, statementTotals,
+} from "@/lib/settlement";
+
+const inr = (n: number) => `₹${Number(n).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+interface SettlementStatementCardProps {
+  adminId: string;
+  adminName: string;
+}
+
+/** An admin's settlement with the platform: billed to clients vs owed at wholesale. */
+export function SettlementStatementCard({ adminId, adminName }: SettlementStatementCardProps) {
+  const periods = useMemo(() => {
+    const current = startOfMonth(new Date());
+    return [
+      { value: format(current, "yyyy-MM-dd"), label: `${format(current, "MMMM yyyy")} (to date)` },
+      ...closedBillingPeriods(new Date(), 5),
+    ];
+  }, []);
+  const [period, setPeriod] = useState(periods[0].value);
+  const periodLabel = periods.find((p) => p.value === period)?.label ?? period;
+
+  const { data: lines = [], isLoading } = useQuery({
+    queryKey: ["admin-settlement-statement", adminId, period],
+    queryFn: () => {
+      const from = parseISO(period);
+      return fetchSettlementStatement(adminId, from, addMonths(from, 1));
+    },
+  });
+
+  const totals = statementTotals(lines);
+
+  const handleExport = async (kind: "csv" | "pdf") => {
+    try {
+      const statement = { adminName, periodLabel, lines };
+      if (kind === "csv") exportStatementCsv(statement);
+      else await exportStatementPdf(statement);
+    } catch {
+      toast.error("Export failed");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2"><Scale className="h-5 w-5" /> Platform Settlement</CardTitle>
+          <CardDescription>Usage billed to your clients and what you owe the platform for it</CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Select value={period} onValueChange={setPeriod}>
+            <SelectTrigger className="w-[200px]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {periods.map((p) => <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" disabled={!lines.length} onClick={() => handleExport("csv")}>
+            <Download className="mr-2 h-4 w-4" /> CSV
+          </Button>
+          <Button variant="outline" size="sm" disabled={!lines.length} onClick={() => handleExport("pdf")}>
+            <FileText className="mr-2 h-4 w-4" /> PDF
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        {isLoading ? (
+          <div className="p-6"><Skeleton className="h-24 w-full" /></div>
+        ) : lines.length === 0 ? (
+          <p className="px-6 pb-6 text-sm text-muted-foreground">No billable usage in this period.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Service</TableHead>
+                <TableHead className="text-right">Units</TableHead>
+                <TableHead className="text-right">Billed to Clients</TableHead>
+                <TableHead className="text-right">Owed to Platform</TableHead>
+                <TableHead className="text-right">Margin</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines.map((l) => (
+                <TableRow key={l.service_id ?? l.service_name}>
+                  <TableCell className="font-medium">{l.service_name}</TableCell>
+                  <TableCell className="text-right">
+                    {Number(l.quantity).toLocaleString("en-IN")}
+                    {l.overage_units > 0 && <span className="text-xs text-muted-foreground"> ({l.overage_units} overage)</span>}
+                  </TableCell>
+                  <TableCell className="text-right">{inr(l.retail_amount)}</TableCell>
+                  <TableCell className="text-right">{inr(l.wholesale_amount)}</TableCell>
+                  <TableCell className="text-right">{inr(l.retail_amount - l.wholesale_amount)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell>Total</TableCell>
+                <TableCell className="text-right">{totals.quantity.toLocaleString("en-IN")}</TableCell>
+                <TableCell className="text-right">{inr(totals.retail)}</TableCell>
+                <TableCell className="text-right">{inr(totals.wholesale)}</TableCell>
+                <TableCell className="text-right">{inr(totals.margin)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,177 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Receipt } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DEFAULT_TAX_SETTINGS, GST_STATE_CODES, fetchAdminTaxSettings, isValidGstin, saveAdminTaxSettings,
+  type AdminTaxSettings, type ServiceCategory, type TaxRegime,
+} from "@/lib/tax";
+
+interface TaxSettingsCardProps {
+  adminId: string;
+}
+
+const CATEGORY_LABELS: Record<ServiceCategory, string> = {
+  voice: "Voice",
+  messaging: "Messaging",
+  social_media: "Social Media",
+};
+
+/** The admin's tax registration, rates per service category and invoice numbering. */
+export function TaxSettingsCard({ adminId }: TaxSettingsCardProps) {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<AdminTaxSettings>(DEFAULT_TAX_SETTINGS);
+  const [categoryRates, setCategoryRates] = useState<Record<ServiceCategory, string>>({ voice: "", messaging: "", social_media: "" });
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ["admin-tax-settings", adminId],
+    queryFn: () => fetchAdminTaxSettings(adminId),
+  });
+
+  useEffect(() => {
+    if (!settings) return;
+    setForm(settings);
+    setCategoryRates({
+      voice: settings.category_rates.voice?.toString() ?? "",
+      messaging: settings.category_rates.messaging?.toString() ?? "",
+      social_media: settings.category_rates.social_media?.toString() ?? "",
+    });
+  }, [settings]);
+
+  const set = <K extends keyof AdminTaxSettings>(key: K, value: AdminTaxSettings[K]) =>
+    setForm((prev) => ({ ...prev, [key]: value }));
+
+  const isGst = form.tax_regime === "gst";
+  const gstinError = isGst && form.tax_id?.trim() && !isValidGstin(form.tax_id, form.state_code)
+    ? form.state_code ? `Not a valid GSTIN for state ${form.state_code}` : "Not a valid GSTIN"
+    : null;
+
+  const save = useMutation({
+    mutationFn: () => {
+      const rates: AdminTaxSettings["category_rates"] = {};
+      for (const [category, value] of Object.entries(categoryRates) as [ServiceCategory, string][]) {
+        if (value.trim() !== "") rates[category] = Number(value);
+      }
+      return saveAdminTaxSettings(adminId, { ...form, country_code: isGst ? "IN" : form.country_code, category_rates: rates });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-tax-settings", adminId] });
+      toast.success("Tax settings saved");
+    },
+    onError: (err: Error) => toast.error(err.message || "Failed to save tax settings"),
+  });
+
+  if (isLoading) return <Card><CardContent className="p-6"><Skeleton className="h-32 w-full" /></CardContent></Card>;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2"><Receipt className="h-5 w-5" /> Tax & Invoicing</CardTitle>
+        <CardDescription>
+          Your tax registration decides how GST or VAT is charged on client invoices. Sent invoices are numbered from your own sequence.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Tax Regime</Label>
+            <Select value={form.tax_regime} onValueChange={(v) => set("tax_regime", v as TaxRegime)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="gst">GST (India)</SelectItem>
+                <SelectItem value="vat">VAT</SelectItem>
+                <SelectItem value="none">Not registered</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Legal Name</Label>
+            <Input value={form.legal_name ?? ""} onChange={(e) => set("legal_name", e.target.value)} placeholder="As registered for tax" />
+          </div>
+          <div className="space-y-2">
+            <Label>{isGst ? "GSTIN" : "VAT Number"}</Label>
+            <Input
+              value={form.tax_id ?? ""}
+              onChange={(e) => set("tax_id", e.target.value.toUpperCase())}
+              placeholder={isGst ? "27AAPFU0939F1ZV" : "DE123456789"}
+              disabled={form.tax_regime === "none"}
+            />
+            {gstinError && <p className="text-xs text-destructive">{gstinError}</p>}
+          </div>
+          {isGst ? (
+            <div className="space-y-2">
+              <Label>Home State</Label>
+              <Select value={form.state_code ?? ""} onValueChange={(v) => set("state_code", v)}>
+                <SelectTrigger><SelectValue placeholder="Select state" /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(GST_STATE_CODES).map(([code, name]) => (
+                    <SelectItem key={code} value={code}>{code} - {name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label>Country Code</Label>
+              <Input value={form.country_code} maxLength={2} onChange={(e) => set("country_code", e.target.value.toUpperCase())} placeholder="IN" />
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Registered Address</Label>
+          <Textarea value={form.address ?? ""} onChange={(e) => set("address", e.target.value)} rows={2} />
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-4">
+          <div className="space-y-2">
+            <Label>Default Rate (%)</Label>
+            <Input type="number" min={0} step={0.01} value={form.default_tax_rate} onChange={(e) => set("default_tax_rate", parseFloat(e.target.value) || 0)} />
+          </div>
+          {(Object.keys(CATEGORY_LABELS) as ServiceCategory[]).map((category) => (
+            <div key={category} className="space-y-2">
+              <Label>{CATEGORY_LABELS[category]} (%)</Label>
+              <Input
+                type="number"
+                min={0}
+                step={0.01}
+                value={categoryRates[category]}
+                onChange={(e) => setCategoryRates((prev) => ({ ...prev, [category]: e.target.value }))}
+                placeholder={String(form.default_tax_rate)}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label>Default SAC Code</Label>
+            <Input value={form.default_sac_code} onChange={(e) => set("default_sac_code", e.target.value)} />
+            <p className="text-xs text-muted-foreground">Used when a service has no HSN/SAC code of its own</p>
+          </div>
+          <div className="space-y-2">
+            <Label>Invoice Prefix</Label>
+            <Input value={form.invoice_prefix} onChange={(e) => set("invoice_prefix", e.target.value.toUpperCase())} />
+          </div>
+          <div className="space-y-2">
+            <Label>Next Invoice Number</Label>
+            <Input value={`${form.invoice_prefix}-${String(form.next_invoice_sequence).padStart(5, "0")}`} disabled />
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={() => save.mutate()} disabled={save.isPending || !!gstinError}>
+            {save.isPending ? "Saving..." : "Save Tax Settings"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,7 +7,9 @@ import {
   Bot, 
   Sparkles,
   Minimize2,
-  Paperclip
+  Paperclip,
+  Loader2,
+  Headset
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -15,6 +17,15 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
 import { supabase } from "@/integrations/supabase/client";
 
+// "waiting" while the session sits in the agent queue, "connected" once an agent has joined
+type HandoffState = "waiting" | "connected" | null;
+
+interface ChatCitation {
+  index: number;
+  title: string;
+  source_url: string | null;
+}
+
 // Basic styling matches Pixora brand: sleek, modern, glassmorphic
 export default function FloatingChatWidget() {
   const [isOpen, setIsOpen] = useState(false);
@@ -31,6 +42,7 @@ export default function FloatingChatWidget() {
   const [isLoading, setIsLoading] = useState(false);
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [chatbotId, setChatbotId] = useState<string | null>(null);
+  const [handoff, setHandoff] = useState<HandoffState>(null);
   
   const scrollRef = useRef<HTMLDivElement>(null);
 
@@ -90,6 +102,11 @@ export default function FloatingChatWidget() {
     const channel = supabase.channel(`widget-msgs-${sessionId}`)
       .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'ai_chat_messages', filter: `session_id=eq.${sessionId}` }, (payload) => {
          const dbMsg = payload.new;
+
+         // The agent's join notice (or first reply) ends the wait
+         if (dbMsg.role === 'assistant') {
+           setHandoff(prev => prev === 'waiting' && dbMsg.user_id ? 'connected' : prev);
+         }
          
          setChatMessages(prev => {
            // Prevent optimistic UI duplication
@@ -148,6 +165,7 @@ export default function FloatingChatWidget() {
             setChatMessages(prev => [...prev, errorMsg]);
         } else if (data) {
             if (data.sessionId) setSessionId(data.sessionId);
+            setHandoff(data.handoff ? (data.handoff.status === 'claimed' ? 'connected' : 'waiting') : null);
             
             if (data.message) {
               const aiMsg = { 
@@ -155,7 +173,8 @@ export default function FloatingChatWidget() {
                   sender: "ai", 
                   text: data.message, 
                   time: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }), 
-                  isAI: true 
+                  isAI: true,
+                  citations: data.citations || []
               };
               setChatMessages(prev => [...prev, aiMsg]);
             }
@@ -266,6 +285,21 @@ export default function FloatingChatWidget() {
                       )}>
                         {msg.text}
                       </div>
+                      {msg.citations?.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1.5 px-1">
+                          {msg.citations.map((c: ChatCitation) => (
+                            c.source_url ? (
+                              <a key={c.index} href={c.source_url} target="_blank" rel="noopener noreferrer" className="text-[9px] font-medium text-primary bg-primary/5 border border-primary/10 rounded-full px-2 py-0.5 hover:underline">
+                                [{c.index}] {c.title}
+                              </a>
+                            ) : (
+                              <span key={c.index} className="text-[9px] font-medium text-slate-500 bg-white border border-slate-100 rounded-full px-2 py-0.5">
+                                [{c.index}] {c.title}
+                              </span>
+                            )
+                          ))}
+                        </div>
+                      )}
                       <span className="text-[9px] font-medium text-slate-400 mt-1.5 px-1">{msg.time}</span>
                     </motion.div>
                   ))}
@@ -289,6 +323,25 @@ export default function FloatingChatWidget() {
               </div>
             </ScrollArea>
 
+            {handoff && (
+              <div className={cn(
+                "px-4 py-2 flex items-center gap-2 text-[11px] font-bold border-t",
+                handoff === "waiting" ? "bg-amber-50 text-amber-700 border-amber-100" : "bg-green-50 text-green-700 border-green-100"
+              )}>
+                {handoff === "waiting" ? (
+                  <>
+                    <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                    Connecting you to an agent...
+                  </>
+                ) : (
+                  <>
+                    <Headset className="w-3.5 h-3.5" />
+                    You're chatting with a team member
+                  </>
+                )}
+              </div>
+            )}
+
             {/* Input Area */}
             <div className="p-3 bg-white border-t border-slate-100">
               <div className="relative flex items-center bg-slate-50 border border-slate-100 rounded-2xl p-1 shadow-inner focus-within:ring-2 focus-within:ring-primary/20 focus-within:border-primary/50 transition-all">
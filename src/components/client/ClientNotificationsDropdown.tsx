@@ -12,6 +12,7 @@ import {
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { motion, AnimatePresence } from "framer-motion";
+import { fetchReconnectNeeded, type SocialConnection } from "@/lib/social-connections";
 
 interface Notification {
   id: string;
@@ -40,6 +41,7 @@ export default function ClientNotificationsDropdown() {
   const [open, setOpen] = useState(false);
   const [filter, setFilter] = useState<"all" | "unread">("all");
   const [bellShake, setBellShake] = useState(false);
+  const [reconnects, setReconnects] = useState<SocialConnection[]>([]);
 
   const fetchNotifications = useCallback(async () => {
     if (!user) return;
@@ -70,7 +72,15 @@ export default function ClientNotificationsDropdown() {
     setUnreadCount(count ?? 0);
   }, [user]);
 
+  // Social accounts stay flagged until reconnected, even after their notification is read
+  const fetchReconnects = useCallback(async () => {
+    if (!user) return;
+    setReconnects(await fetchReconnectNeeded().catch(() => []));
+  }, [user]);
+
   useEffect(() => { fetchUnreadCount(); }, [fetchUnreadCount]);
+  useEffect(() => { fetchReconnects(); }, [fetchReconnects]);
+  useEffect(() => { if (open) fetchReconnects(); }, [open, fetchReconnects]);
   useEffect(() => { if (open) fetchNotifications(); }, [open, fetchNotifications, filter]);
 
   // Realtime
@@ -87,6 +97,7 @@ export default function ClientNotificationsDropdown() {
         const n = payload.new as Notification;
         setNotifications((prev) => [n, ...prev].slice(0, 20));
         setUnreadCount((prev) => prev + 1);
+        if (n.type === "warning") fetchReconnects();
         setBellShake(true);
         setTimeout(() => setBellShake(false), 1000);
         toast({ 
@@ -97,7 +108,7 @@ export default function ClientNotificationsDropdown() {
       })
       .subscribe();
     return () => { supabase.removeChannel(channel); };
-  }, [user, toast]);
+  }, [user, toast, fetchReconnects]);
 
   const markAsRead = async (id: string, actionUrl: string | null) => {
     await supabase.from("notifications").update({ is_read: true, read_at: new Date().toISOString() }).eq("id", id);
@@ -131,6 +142,9 @@ export default function ClientNotificationsDropdown() {
           >
             <Bell className="h-5 w-5 md:h-6 md:w-6" />
           </motion.div>
+          {reconnects.length > 0 && unreadCount === 0 && (
+            <span className="absolute top-1 right-1 h-2.5 w-2.5 rounded-full bg-amber-400 border-2 border-slate-950" />
+          )}
           {unreadCount > 0 && (
             <Badge className="absolute -top-0.5 -right-0.5 h-5 min-w-5 px-1 text-[10px] bg-primary text-white border-2 border-slate-950 flex items-center justify-center font-black">
               {unreadCount > 99 ? "99+" : unreadCount}
@@ -163,6 +177,24 @@ export default function ClientNotificationsDropdown() {
           ))}
         </div>
 
+        {/* Social accounts to reconnect */}
+        {reconnects.length > 0 && (
+          <button
+            onClick={() => { setOpen(false); navigate("/client/social-media?view=brands"); }}
+            className="flex w-full items-start gap-3 px-5 py-3 text-left bg-amber-500/10 border-b border-amber-500/20 hover:bg-amber-500/15 transition-all"
+          >
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-amber-400" />
+            <div className="min-w-0">
+              <p className="text-xs font-bold text-amber-300">
+                {reconnects.length === 1 ? "1 social account needs reconnecting" : `${reconnects.length} social accounts need reconnecting`}
+              </p>
+              <p className="text-[11px] text-slate-400 truncate">
+                {reconnects.map((c) => `${c.social_media_brands?.name ?? "Brand"} · ${c.account_name ?? c.platform}`).join(", ")}
+              </p>
+            </div>
+          </button>
+        )}
+
         {/* List */}
         <ScrollArea className="max-h-[460px] custom-scrollbar">
           <AnimatePresence mode="popLayout">
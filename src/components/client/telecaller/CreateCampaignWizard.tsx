@@ -25,11 +25,14 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   ArrowLeft, ArrowRight, Upload, FileText, CheckCircle2, XCircle,
   ChevronDown, Plus, Trash2, X, Rocket, Save, Eye, Pencil,
-  Phone, Users, Settings, AlertTriangle, Loader2,
+  Phone, Users, Settings, AlertTriangle, Loader2, Ban,
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import Papa from "papaparse";
+import { CAMPAIGN_TIMEZONES, isValidTimeZone } from "@/lib/calling-window";
+import { findSuppressedPhones } from "@/lib/suppression";
+import { CampaignCostEstimate } from "@/components/usage/CampaignCostEstimate";
 
 const STORAGE_KEY = "telecaller-campaign-draft";
 const GOALS = ["Lead Generation", "Sales", "Survey", "Follow-up", "Appointment Booking", "Other"];
@@ -77,6 +80,8 @@ interface WizardData {
   fromHour: string;
   toHour: string;
   activeDays: string[];
+  timezone: string;
+  holidays: string[];
   maxCallsPerDay: string;
   retryEnabled: boolean;
   maxRetries: number;
@@ -110,6 +115,8 @@ const defaultData: WizardData = {
   fromHour: "9:00",
   toHour: "18:00",
   activeDays: ["Mon", "Tue", "Wed", "Thu", "Fri"],
+  timezone: "Asia/Kolkata",
+  holidays: [],
   maxCallsPerDay: "",
   retryEnabled: false,
   maxRetries: 2,
@@ -154,10 +161,12 @@ interface Props {
   usageConsumed: number;
   clientId: string;
   userId: string;
+  /** The telecaller service, for the cost estimate on the review step */
+  serviceId?: string;
 }
 
 export default function CreateCampaignWizard({
-  open, onOpenChange, primaryColor, usageLimit, usageConsumed, clientId, userId,
+  open, onOpenChange, primaryColor, usageLimit, usageConsumed, clientId, userId, serviceId,
 }: Props) {
   const [step, setStep] = useState(1);
   const [data, setData] = useState<WizardData>(() => {
@@ -173,6 +182,8 @@ export default function CreateCampaignWizard({
   const [launchStep, setLaunchStep] = useState(0);
   const [confirmCalls, setConfirmCalls] = useState(false);
   const [confirmCosts, setConfirmCosts] = useState(false);
+  const [suppressedPhones, setSuppressedPhones] = useState<Set<string>>(new Set());
+  const [suppressionCheckFailed, setSuppressionCheckFailed] = useState(false);
 
   // Auto-save
   useEffect(() => {
@@ -183,15 +194,41 @@ export default function CreateCampaignWizard({
     setData(prev => ({ ...prev, [key]: val }));
   }, []);
 
-  const validContacts = data.contacts.filter(c => isValidPhone(c.phone));
+  // Flag numbers on a Do-Not-Contact list so they are never uploaded. The
+  // list cannot be launched until the check has gone through.
+  useEffect(() => {
+    if (!open || !clientId) return;
+    const phones = data.contacts.map(c => c.phone).filter(isValidPhone);
+    if (phones.length === 0) {
+      setSuppressedPhones(new Set());
+      setSuppressionCheckFailed(false);
+      return;
+    }
+    let cancelled = false;
+    findSuppressedPhones(clientId, phones, "voice")
+      .then(found => {
+        if (cancelled) return;
+        setSuppressedPhones(found);
+        setSuppressionCheckFailed(false);
+      })
+      .catch(err => {
+        console.error("Suppression check failed:", err);
+        if (!cancelled) setSuppressionCheckFailed(true);
+      });
+    return () => { cancelled = true; };
+  }, [data.contacts, clientId, open]);
+
+  const validContacts = data.contacts.filter(c => isValidPhone(c.phone) && !suppressedPhones.has(c.phone));
   const invalidContacts = data.contacts.filter(c => !isValidPhone(c.phone));
+  const suppressedContacts = data.contacts.filter(c => isValidPhone(c.phone) && suppressedPhones.has(c.phone));
   const remaining = usageLimit - usageConsumed;
   const exceedsLimit = validContacts.length > remaining;
 
   const step1Valid = data.campaignName.trim().length >= 3 &&
-    (data.scheduleType === "immediate" || data.scheduledAt);
-  const step2Valid = validContacts.length > 0 && !exceedsLimit;
-  const reviewValid = confirmCalls && confirmCosts && !exceedsLimit;
+    (data.scheduleType === "immediate" || data.scheduledAt) &&
+    data.fromHour !== data.toHour;
+  const step2Valid = validContacts.length > 0 && !exceedsLimit && !suppressionCheckFailed;
+  const reviewValid = confirmCalls && confirmCosts && !exceedsLimit && !suppressionCheckFailed;
 
   function handleCsvFile(file: File) {
     if (file.size > 10 * 1024 * 1024) {
@@ -224,6 +261,7 @@ export default function CreateCampaignWizard({
         const nameCol = headers.find(h => /^(name|full_name|full name|contact_name)$/i.test(h.trim()));
         const emailCol = headers.find(h => /^(email|email_address)$/i.test(h.trim()));
         const companyCol = headers.find(h => /^(company|company_name|organization)$/i.test(h.trim()));
+        const timezoneCol = headers.find(h => /^(timezone|time_zone|tz)$/i.test(h.trim()));
 
         if (!phoneCol) {
           setCsvErrors(["CSV must contain a 'phone' column"]);
@@ -235,8 +273,17 @@ export default function CreateCampaignWizard({
           name: nameCol ? row[nameCol]?.trim() : undefined,
           email: emailCol ? row[emailCol]?.trim() : undefined,
           company: companyCol ? row[companyCol]?.trim() : undefined,
+          timezone: timezoneCol ? row[timezoneCol]?.trim() || undefined : undefined,
         }));
 
+        const badTimezones = contacts.filter(c => c.timezone && !isValidTimeZone(c.timezone)).length;
+        if (badTimezones > 0) {
+          errors.push(`${badTimezones} row(s) have an unknown timezone; they will use the phone number's country instead`);
+          contacts.forEach(c => {
+            if (c.timezone && !isValidTimeZone(c.timezone)) c.timezone = undefined;
+          });
+        }
+
         if (contacts.length === 0) {
           setCsvErrors(["No valid rows found"]);
           return;
@@ -310,112 +357,100 @@ export default function CreateCampaignWizard({
     setLaunching(true);
     setLaunchStep(1);
 
+    let campaignId: string | null = null;
     try {
-      // Step 1: Create Contact List
-      const { data: list, error: listError } = await (supabase as any)
-        .from("outbound_contact_lists")
+      // Step 1: Create the campaign as a draft; the dialer only picks it up once started
+      const { data: campaign, error: campaignError } = await (supabase as any)
+        .from("voice_campaigns")
         .insert({
-          owner_user_id: userId,
-          name: data.campaignName,
-          description: data.script || null,
+          client_id: clientId,
+          campaign_name: data.campaignName,
+          campaign_type: "telecaller",
+          script: data.script || null,
+          status: "draft",
+          total_contacts: validContacts.length,
+          agent_settings: {
+            goal: data.goal,
+            voice: data.voice,
+            language: data.language,
+            speaking_speed: data.speakingSpeed,
+            lead_qualification: data.leadQualification,
+            qualifying_questions: data.qualifyingQuestions,
+            call_recording: data.callRecording,
+            voicemail_detection: data.voicemailDetection,
+            voicemail_action: data.voicemailAction,
+            voicemail_script: data.voicemailScript,
+            max_calls_per_day: data.maxCallsPerDay || null,
+          },
         })
         .select("id")
         .single();
 
-      if (listError || !list) throw listError || new Error("Failed to create contact list");
+      if (campaignError || !campaign) throw campaignError || new Error("Failed to create campaign");
+      campaignId = campaign.id;
       setLaunchStep(2);
 
-      // Step 2: Insert contacts to custom contacts table
+      // Step 2: Queue the contacts; the dialer checks Do-Not-Call lists again before each call
       const BATCH = 500;
       for (let i = 0; i < validContacts.length; i += BATCH) {
         const batch = validContacts.slice(i, i + BATCH).map(c => ({
-          list_id: list.id,
+          campaign_id: campaign.id,
           phone_number: c.phone,
-          name: c.name || "Unknown",
-          email: c.email || null,
-          extra_data: { company: c.company },
+          contact_name: c.name || null,
+          contact_data: { email: c.email, company: c.company, timezone: c.timezone },
         }));
-        const { error: contactErr } = await (supabase as any)
-          .from("outbound_contacts")
+        const { error: contactErr } = await supabase
+          .from("campaign_contacts")
           .insert(batch);
         if (contactErr) throw contactErr;
       }
       setLaunchStep(3);
 
-      const schedAt = data.scheduleType === "later" && data.scheduledAt
-        ? new Date(data.scheduledAt).toISOString()
-        : new Date().toISOString();
-
-      // Step 3: Create Schedule/Run record so it appears in UI
-      const { error: schedError } = await (supabase as any)
-        .from("outbound_scheduled_calls")
-        .insert({
-          list_id: list.id,
-          owner_user_id: userId,
-          status: data.scheduleType === "later" ? "scheduled" : "running",
-          scheduled_at: schedAt
-        });
-
-      if (schedError) throw schedError;
-      setLaunchStep(4);
-
-      // Trigger workflow (best-effort)
-      try {
-        const webhookUrl = import.meta.env.VITE_N8N_OUTBOUND_LIST_IMMEDIATE_CALLS_WEBHOOK;
-        if (webhookUrl) {
-          await fetch(webhookUrl, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-              campaign_id: list.id,
-              agent_id: userId,
-              client_id: clientId,
-              list_id: list.id,
-              campaign_name: data.campaignName,
-              goal: data.goal,
-              schedule_type: data.scheduleType,
-              scheduled_at: schedAt,
-              from_hour: data.fromHour,
-              to_hour: data.toHour,
-              active_days: data.activeDays,
-              max_calls_per_day: data.maxCallsPerDay,
-              retry_enabled: data.retryEnabled,
-              max_retries: data.maxRetries,
-              retry_after: data.retryAfter,
-              retry_unit: data.retryUnit,
-              script: data.script,
-              voice: data.voice,
-              language: data.language,
-              speaking_speed: data.speakingSpeed,
-              lead_qualification: data.leadQualification,
-              qualifying_questions: data.qualifyingQuestions,
-              call_recording: data.callRecording,
-              voicemail_detection: data.voicemailDetection,
-              voicemail_action: data.voicemailAction,
-              voicemail_script: data.voicemailScript,
-            }),
-          });
-        } else {
-          await supabase.functions.invoke("trigger-telecaller-campaign", {
-            body: { campaign_id: list.id, client_id: clientId },
-          });
-        }
-      } catch (err) {
-        console.error("Webhook trigger failed", err);
-        // Non-fatal: workflow may not be set up yet
+      // Step 3: Start (or schedule) it with its calling window and retry policy
+      const { data: result, error: startError } = await supabase.functions.invoke("trigger-telecaller-campaign", {
+        body: {
+          campaign_id: campaign.id,
+          client_id: clientId,
+          action: "start",
+          dialer_settings: {
+            calling_hours_start: data.fromHour,
+            calling_hours_end: data.toHour,
+            calling_days: data.activeDays,
+            holidays: data.holidays,
+            default_timezone: data.timezone,
+            max_attempts: data.retryEnabled ? data.maxRetries + 1 : 1,
+            retry_backoff_minutes: data.retryAfter * (data.retryUnit === "days" ? 1440 : 60),
+            retry_backoff_multiplier: 1,
+            scheduled_at: data.scheduleType === "later" && data.scheduledAt
+              ? new Date(data.scheduledAt).toISOString()
+              : null,
+          },
+        },
+      });
+      if (startError) {
+        const context = (startError as { context?: Response }).context;
+        const detail = context ? await context.json().catch(() => null) : null;
+        throw new Error(detail?.error ?? startError.message);
       }
+      if (!result?.success) throw new Error(result?.error || "Failed to start campaign");
+      campaignId = null;
+      setLaunchStep(4);
 
       // Clean up
       localStorage.removeItem(STORAGE_KEY);
-      toast.success(`Campaign "${data.campaignName}" launched! 🚀`);
+      toast.success(result.status === "scheduled"
+        ? `Campaign "${data.campaignName}" scheduled`
+        : `Campaign "${data.campaignName}" launched! 🚀`);
       setData(defaultData);
       setStep(1);
       setConfirmCalls(false);
       setConfirmCosts(false);
       onOpenChange(false);
     } catch (err: any) {
+      // Never leave a half-uploaded draft behind
+      if (campaignId) {
+        await (supabase as any).from("voice_campaigns").delete().eq("id", campaignId).eq("status", "draft");
+      }
       toast.error("Launch failed: " + (err.message || "Unknown error"));
     } finally {
       setLaunching(false);
@@ -462,6 +497,7 @@ export default function CreateCampaignWizard({
             <Step2
               data={data} update={update} primaryColor={primaryColor}
               validContacts={validContacts} invalidContacts={invalidContacts}
+              suppressedContacts={suppressedContacts} suppressionCheckFailed={suppressionCheckFailed}
               csvErrors={csvErrors} setCsvErrors={setCsvErrors}
               dragOver={dragOver} setDragOver={setDragOver}
               handleDrop={handleDrop} handleCsvFile={handleCsvFile}
@@ -479,6 +515,7 @@ export default function CreateCampaignWizard({
               confirmCalls={confirmCalls} setConfirmCalls={setConfirmCalls}
               confirmCosts={confirmCosts} setConfirmCosts={setConfirmCosts}
               goToStep={setStep}
+              serviceId={serviceId} userId={userId}
             />
           )}
         </div>
@@ -628,6 +665,11 @@ function Step1({
             <SelectContent>{HOURS.map(h => <SelectItem key={h.value} value={h.value}>{h.label}</SelectItem>)}</SelectContent>
           </Select>
         </div>
+        {data.fromHour === data.toHour ? (
+          <p className="text-[11px] text-destructive">Start and end times must differ</p>
+        ) : parseInt(data.toHour) < parseInt(data.fromHour) && (
+          <p className="text-[11px] text-muted-foreground">Runs past midnight into the next day</p>
+        )}
         <div className="flex flex-wrap gap-2">
           {DAYS.map(day => (
             <label key={day} className="flex items-center gap-1.5 text-sm cursor-pointer">
@@ -643,7 +685,47 @@ function Step1({
             </label>
           ))}
         </div>
-        <p className="text-[11px] text-muted-foreground">Calls outside these hours will be skipped</p>
+        <p className="text-[11px] text-muted-foreground">
+          Hours apply in each contact's local time, taken from a timezone column or the phone number's country code.
+          Calls outside these hours are deferred to the next allowed slot.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Default timezone</Label>
+          <Select value={data.timezone} onValueChange={v => update("timezone", v)}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {CAMPAIGN_TIMEZONES.map(tz => <SelectItem key={tz.value} value={tz.value}>{tz.label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <p className="text-[11px] text-muted-foreground">Used when a contact's timezone can't be detected</p>
+        </div>
+        <div className="space-y-2">
+          <Label>Holidays (no calls)</Label>
+          <Input
+            type="date"
+            min={today.slice(0, 10)}
+            value=""
+            onChange={e => {
+              const day = e.target.value;
+              if (day && !data.holidays.includes(day)) update("holidays", [...data.holidays, day].sort());
+            }}
+          />
+          {data.holidays.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {data.holidays.map(day => (
+                <Badge key={day} variant="secondary" className="gap-1 text-[11px]">
+                  {day}
+                  <button onClick={() => update("holidays", data.holidays.filter(d => d !== day))}>
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
       </div>
 
       <div className="space-y-2">
@@ -714,7 +796,7 @@ function Step1({
 /* ─── Step 2 ─── */
 
 function Step2({
-  data, update, primaryColor, validContacts, invalidContacts,
+  data, update, primaryColor, validContacts, invalidContacts, suppressedContacts, suppressionCheckFailed,
   csvErrors, setCsvErrors, dragOver, setDragOver, handleDrop, handleCsvFile,
   fileRef, addManualContact, removeContact, downloadSampleCsv,
   remaining, exceedsLimit,
@@ -724,6 +806,8 @@ function Step2({
   primaryColor: string;
   validContacts: Contact[];
   invalidContacts: Contact[];
+  suppressedContacts: Contact[];
+  suppressionCheckFailed: boolean;
   csvErrors: string[];
   setCsvErrors: (v: string[]) => void;
   dragOver: boolean;
@@ -760,7 +844,7 @@ function Step2({
           <div className="rounded-lg bg-muted/50 p-3 text-xs space-y-1">
             <p className="font-medium text-foreground">CSV Requirements</p>
             <p><span className="font-medium">Required:</span> phone</p>
-            <p><span className="font-medium">Optional:</span> name, email, company</p>
+            <p><span className="font-medium">Optional:</span> name, email, company, timezone</p>
             <button onClick={downloadSampleCsv} className="underline" style={{ color: primaryColor }}>
               Download sample CSV
             </button>
@@ -837,7 +921,9 @@ function Step2({
                     {data.contacts.slice(0, 5).map((c, i) => (
                       <TableRow key={i}>
                         <TableCell>
-                          {isValidPhone(c.phone) ? (
+                          {suppressedContacts.includes(c) ? (
+                            <Ban className="h-3.5 w-3.5 text-amber-600" />
+                          ) : isValidPhone(c.phone) ? (
                             <CheckCircle2 className="h-3.5 w-3.5 text-green-500" />
                           ) : (
                             <XCircle className="h-3.5 w-3.5 text-destructive" />
@@ -905,7 +991,9 @@ function Step2({
             <div className="space-y-1.5 max-h-48 overflow-y-auto">
               {data.contacts.map((c, i) => (
                 <div key={i} className="flex items-center gap-2 text-xs p-2 rounded border bg-muted/30">
-                  {isValidPhone(c.phone) ? (
+                  {suppressedContacts.includes(c) ? (
+                    <Ban className="h-3.5 w-3.5 text-amber-600 shrink-0" />
+                  ) : isValidPhone(c.phone) ? (
                     <CheckCircle2 className="h-3.5 w-3.5 text-green-500 shrink-0" />
                   ) : (
                     <XCircle className="h-3.5 w-3.5 text-destructive shrink-0" />
@@ -941,9 +1029,21 @@ function Step2({
                 <span className="font-medium text-destructive">{invalidContacts.length}</span>
               </>
             )}
+            {suppressedContacts.length > 0 && (
+              <>
+                <span className="text-muted-foreground">Do not contact (skipped):</span>
+                <span className="font-medium text-amber-600">{suppressedContacts.length}</span>
+              </>
+            )}
             <span className="text-muted-foreground">Remaining quota:</span>
             <span className="font-medium">{remaining}</span>
           </div>
+          {suppressionCheckFailed && (
+            <div className="flex items-center gap-2 text-xs text-destructive bg-destructive/10 rounded p-2 mt-1">
+              <XCircle className="h-3.5 w-3.5 shrink-0" />
+              Could not check the Do-Not-Contact list. Try again before launching.
+            </div>
+          )}
           {exceedsLimit ? (
             <div className="flex items-center gap-2 text-xs text-destructive bg-destructive/10 rounded p-2 mt-1">
               <XCircle className="h-3.5 w-3.5 shrink-0" />
@@ -968,7 +1068,7 @@ function Step3Review({
   usageLimit, usageConsumed, exceedsLimit,
   confirmCalls, setConfirmCalls,
   confirmCosts, setConfirmCosts,
-  goToStep,
+  goToStep, serviceId, userId,
 }: {
   data: WizardData;
   primaryColor: string;
@@ -981,6 +1081,8 @@ function Step3Review({
   confirmCosts: boolean;
   setConfirmCosts: (v: boolean) => void;
   goToStep: (s: number) => void;
+  serviceId?: string;
+  userId: string;
 }) {
   const afterUsage = usageConsumed + validContacts.length;
   const afterPct = usageLimit > 0 ? Math.round((afterUsage / usageLimit) * 100) : 0;
@@ -1007,7 +1109,9 @@ function Step3Review({
           <Row label="Name" value={data.campaignName} />
           {data.goal && <Row label="Goal" value={data.goal} />}
           <Row label="Schedule" value={data.scheduleType === "immediate" ? "Start immediately" : `Scheduled: ${data.scheduledAt}`} />
-          <Row label="Calling Hours" value={`${data.fromHour} - ${data.toHour}, ${data.activeDays.join(", ")}`} />
+          <Row label="Calling Hours" value={`${data.fromHour} - ${data.toHour}, ${data.activeDays.join(", ")} (contact local time)`} />
+          <Row label="Default Timezone" value={data.timezone} />
+          {data.holidays.length > 0 && <Row label="Holidays" value={data.holidays.join(", ")} />}
           <Row label="Max Calls/Day" value={data.maxCallsPerDay || "Unlimited"} />
           {data.retryEnabled && (
             <Row label="Retries" value={`${data.maxRetries} retries after ${data.retryAfter} ${data.retryUnit}`} />
@@ -1031,7 +1135,14 @@ function Step3Review({
         </CardContent>
       </Card>
 
-
+      {serviceId && (
+        <CampaignCostEstimate
+          serviceId={serviceId}
+          contacts={validContacts.length}
+          retries={data.retryEnabled ? data.maxRetries : 0}
+          userId={userId}
+        />
+      )}
 
       {/* Usage Impact */}
       <Card className={exceedsLimit ? "border-destructive" : ""}>
@@ -0,0 +1,33 @@
+import { Clock, Lock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatSessionRemaining } from "@/lib/whatsapp-session";
+import { useSessionWindow } from "@/hooks/useSessionWindow";
+
+interface SessionWindowBadgeProps {
+  lastInboundAt: string | null | undefined;
+  className?: string;
+}
+
+/** Time left in the 24-hour WhatsApp session window, or "template only" once it closes. */
+export function SessionWindowBadge({ lastInboundAt, className }: SessionWindowBadgeProps) {
+  const session = useSessionWindow(lastInboundAt);
+  const closingSoon = session.open && session.remainingMs <= 60 * 60 * 1000;
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-[10px] font-semibold",
+        !session.open
+          ? "bg-red-500/10 text-red-500 border-red-500/20"
+          : closingSoon
+            ? "bg-amber-500/10 text-amber-500 border-amber-500/20"
+            : "bg-green-500/10 text-green-500 border-green-500/20",
+        className
+      )}
+      title={session.expiresAt ? `Session window ends ${session.expiresAt.toLocaleString()}` : "Customer has not messaged yet"}
+    >
+      {session.open ? <Clock className="h-3 w-3" /> : <Lock className="h-3 w-3" />}
+      {session.open ? `${formatSessionRemaining(session.remainingMs)} left to reply` : "Template only"}
+    </span>
+  );
+}
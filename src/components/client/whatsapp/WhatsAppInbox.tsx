@@ -2,13 +2,14 @@ import { useState, useMemo, useEffect, useCallback } from "react";
 import { 
   Search, Paperclip, Smile, Send, 
   MessageSquare, Phone, CheckCheck, 
-  ChevronDown, Zap, MoreHorizontal, Bot, X, Loader2
+  ChevronDown, Zap, MoreHorizontal, Bot, X, Loader2, FileText
 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { cn } from "@/lib/utils";
 import { motion, AnimatePresence } from "framer-motion";
 import { supabase } from "@/integrations/supabase/client";
@@ -16,13 +17,50 @@ import { useClient } from "@/contexts/ClientContext";
 import { format, formatDistanceToNow } from "date-fns";
 import { sendWhatsAppMessage } from "@/utils/whatsapp";
 import { useToast } from "@/hooks/use-toast";
+import { useSessionWindow } from "@/hooks/useSessionWindow";
+import { SessionWindowBadge } from "./SessionWindowBadge";
 
 const FILTERS = ["All", "Closed Deal", "Demo", "Demo Pending", "Follow-UP", "Junk Leads", "New Lead"];
 
+interface InboxMessageRow {
+  application_id: string | null;
+  phone_number: string;
+  sender_name: string | null;
+  message_content: string;
+  sent_at: string;
+  status: string | null;
+  direction: string | null;
+}
+
+interface InboxChat {
+  id: string;
+  application_id: string | null;
+  phone_number: string;
+  contact_name: string;
+  last_message_snippet: string;
+  last_message_at: string;
+  /** Start of the 24-hour session window */
+  last_inbound_at: string | null;
+  status: string;
+}
+
+interface ApprovedTemplate {
+  id: string;
+  application_id: string | null;
+  name: string;
+  language: string | null;
+  components: { type: string; text?: string }[] | null;
+}
+
+interface InboxBot {
+  id: string;
+  api_config: { phone_id?: string } | null;
+}
+
 export default function WhatsAppInbox() {
   const { client } = useClient();
   const { toast } = useToast();
-  const [chats, setChats] = useState<any[]>([]);
+  const [chats, setChats] = useState<InboxChat[]>([]);
   const [activeChatId, setActiveChatId] = useState<string | null>(null);
   const [messages, setMessages] = useState<any[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
@@ -32,6 +70,10 @@ export default function WhatsAppInbox() {
   const [isLoadingChats, setIsLoadingChats] = useState(true);
   const [isLoadingMessages, setIsLoadingMessages] = useState(false);
   const [isSending, setIsSending] = useState(false);
+  const [templates, setTemplates] = useState<ApprovedTemplate[]>([]);
+  const [bots, setBots] = useState<InboxBot[]>([]);
+  const [templateName, setTemplateName] = useState("");
+  const [templateParams, setTemplateParams] = useState<string[]>([]);
 
   // Fetch Chats (Generated from Messages)
   const fetchChats = useCallback(async () => {
@@ -40,23 +82,28 @@ export default function WhatsAppInbox() {
     
     const { data, error } = await supabase
       .from('whatsapp_messages')
-      .select('phone_number, sender_name, message_content, sent_at, status, direction')
+      .select('application_id, phone_number, sender_name, message_content, sent_at, status, direction')
       .eq('client_id', client.id)
       .order('sent_at', { ascending: false });
     
     if (!error && data) {
-      const chatMap = new Map();
-      data.forEach(msg => {
+      const chatMap = new Map<string, InboxChat>();
+      (data as InboxMessageRow[]).forEach(msg => {
         if (!chatMap.has(msg.phone_number)) {
           chatMap.set(msg.phone_number, {
             id: msg.phone_number,
+            application_id: msg.application_id,
             phone_number: msg.phone_number,
             contact_name: msg.sender_name || msg.phone_number,
             last_message_snippet: msg.message_content,
             last_message_at: msg.sent_at,
+            last_inbound_at: null,
             status: 'New Lead'
           });
         }
+        // Newest first, so the first inbound message opens the session window
+        const chat = chatMap.get(msg.phone_number)!;
+        if (msg.direction === 'inbound' && !chat.last_inbound_at) chat.last_inbound_at = msg.sent_at;
       });
       
       const chatList = Array.from(chatMap.values());
@@ -88,6 +135,26 @@ export default function WhatsAppInbox() {
     if (client) fetchChats();
   }, [client]);
 
+  // Approved templates are the only way to reach a number outside its session window
+  useEffect(() => {
+    if (!client) return;
+    (async () => {
+      const [templatesRes, botsRes] = await Promise.all([
+        supabase
+          .from('whatsapp_templates')
+          .select('id, application_id, name, language, components')
+          .eq('client_id', client.id)
+          .in('status', ['approved', 'ready'])
+          .order('name'),
+        (supabase.from('whatsapp_applications' as any) as any)
+          .select('id, api_config')
+          .eq('client_id', client.id),
+      ]);
+      setTemplates((templatesRes.data || []) as ApprovedTemplate[]);
+      setBots((botsRes.data || []) as InboxBot[]);
+    })();
+  }, [client]);
+
   useEffect(() => {
     if (activeChatId) fetchMessages(activeChatId);
     else setMessages([]);
@@ -115,6 +182,20 @@ export default function WhatsAppInbox() {
     chats.find(c => c.id === activeChatId), 
   [chats, activeChatId]);
 
+  const session = useSessionWindow(activeChat?.last_inbound_at);
+  const chatTemplates = useMemo(() =>
+    templates.filter(t => !activeChat?.application_id || !t.application_id || t.application_id === activeChat.application_id),
+  [templates, activeChat]);
+  const selectedTemplate = chatTemplates.find(t => t.name === templateName);
+  const templateBody = selectedTemplate?.components?.find(c => c.type === 'BODY')?.text || "";
+  const templateVariableCount = new Set(templateBody.match(/{{(\d+)}}/g) || []).size;
+  const templatePreview = templateBody.replace(/{{(\d+)}}/g, (match, n) => templateParams[Number(n) - 1] || match);
+
+  useEffect(() => {
+    setTemplateName("");
+    setTemplateParams([]);
+  }, [activeChatId]);
+
   const filteredChats = useMemo(() => {
     return chats.filter(chat => {
       const matchesSearch = (chat.contact_name || "").toLowerCase().includes(searchQuery.toLowerCase()) || 
@@ -125,17 +206,39 @@ export default function WhatsAppInbox() {
   }, [chats, searchQuery, activeFilter]);
 
   const handleSendMessage = async () => {
-    if (!messageInput.trim() || !activeChat || isSending) return;
+    if (!activeChat || isSending) return;
+    if (session.open ? !messageInput.trim() : !selectedTemplate) return;
     setIsSending(true);
     try {
-      const result = await sendWhatsAppMessage({
-        to: activeChat.phone_number,
-        body: messageInput,
-        client_id: client?.id,
-        type: "text",
-        phoneNoId,
-      });
-      if (result.success) setMessageInput("");
+      const applicationId = activeChat.application_id || bots[0]?.id || "";
+      const phoneNoId = bots.find(b => b.id === applicationId)?.api_config?.phone_id;
+      const result = await sendWhatsAppMessage(session.open
+        ? {
+            to: activeChat.phone_number,
+            body: messageInput,
+            client_id: client?.id,
+            application_id: applicationId,
+            type: "text",
+            phoneNoId,
+          }
+        : {
+            to: activeChat.phone_number,
+            body: templatePreview,
+            client_id: client?.id,
+            application_id: applicationId,
+            type: "template",
+            name: selectedTemplate!.name,
+            language: selectedTemplate!.language || "en_US",
+            bodyParams: Array.from({ length: templateVariableCount }, (_, i) => templateParams[i] || ""),
+            phoneNoId,
+          });
+      if (result.success) {
+        setMessageInput("");
+        setTemplateName("");
+        setTemplateParams([]);
+      } else {
+        toast({ title: "Message not sent", description: result.message, variant: "destructive" });
+      }
     } catch (err) {
       console.error(err);
     } finally {
@@ -236,7 +339,10 @@ export default function WhatsAppInbox() {
                 </Avatar>
                 <div>
                   <h3 className="font-bold text-white text-sm md:text-base">{activeChat.contact_name}</h3>
-                  <p className="text-[10px] text-white/40">{activeChat.phone_number}</p>
+                  <div className="flex items-center gap-2">
+                    <p className="text-[10px] text-white/40">{activeChat.phone_number}</p>
+                    <SessionWindowBadge lastInboundAt={activeChat.last_inbound_at} />
+                  </div>
                 </div>
               </div>
               <div className="flex items-center gap-2">
@@ -266,6 +372,7 @@ export default function WhatsAppInbox() {
             </ScrollArea>
 
             <div className="p-4 border-t border-white/5 bg-black/20 flex-shrink-0">
+              {session.open ? (
               <div className="max-w-4xl mx-auto flex items-center gap-2 bg-white/5 rounded-2xl p-2 pr-3">
                 <Button variant="ghost" size="icon" className="text-white/40 hover:text-white h-8 w-8"><Smile className="h-4 w-4" /></Button>
                 <Button variant="ghost" size="icon" className="text-white/40 hover:text-white h-8 w-8"><Paperclip className="h-4 w-4" /></Button>
@@ -286,6 +393,42 @@ export default function WhatsAppInbox() {
                   <Send className="h-4 w-4" />
                 </Button>
               </div>
+              ) : (
+              <div className="max-w-4xl mx-auto space-y-2 bg-white/5 rounded-2xl p-3">
+                <p className="text-[11px] text-white/50">
+                  More than 24 hours have passed since this customer last wrote in. WhatsApp only allows an approved template until they reply.
+                </p>
+                <div className="flex items-center gap-2">
+                  <FileText className="h-4 w-4 text-white/40 shrink-0" />
+                  <Select value={templateName} onValueChange={(val) => { setTemplateName(val); setTemplateParams([]); }}>
+                    <SelectTrigger className="h-8 bg-white/5 border-white/10 text-white text-xs">
+                      <SelectValue placeholder={chatTemplates.length ? "Choose an approved template" : "No approved templates"} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {chatTemplates.map(t => <SelectItem key={t.id} value={t.name}>{t.name}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="icon"
+                    className={cn("h-8 w-8 rounded-xl shrink-0", selectedTemplate ? "bg-blue-600" : "bg-white/10")}
+                    onClick={handleSendMessage}
+                    disabled={!selectedTemplate || isSending}
+                  >
+                    <Send className="h-4 w-4" />
+                  </Button>
+                </div>
+                {Array.from({ length: templateVariableCount }, (_, i) => (
+                  <Input
+                    key={i}
+                    className="h-8 bg-white/5 border-white/10 text-xs"
+                    placeholder={`Value for {{${i + 1}}}`}
+                    value={templateParams[i] || ""}
+                    onChange={(e) => setTemplateParams(prev => { const next = [...prev]; next[i] = e.target.value; return next; })}
+                  />
+                ))}
+                {templatePreview && <p className="text-xs text-white/70 whitespace-pre-wrap">{templatePreview}</p>}
+              </div>
+              )}
             </div>
           </>
         ) : (
@@ -22,6 +22,8 @@ interface CSVUploadWizardProps {
   onCancel?: () => void;
   validationRules: ValidationRule[];
   templateFields?: Array<{ name: string; example: string }>;
+  /** Returns the phone numbers that are on a Do-Not-Contact list; those rows are flagged during validation */
+  suppressionCheck?: (phones: string[]) => Promise<Set<string>>;
 }
 
 export function CSVUploadWizard({
@@ -29,6 +31,7 @@ export function CSVUploadWizard({
   onCancel,
   validationRules,
   templateFields,
+  suppressionCheck,
 }: CSVUploadWizardProps) {
   const [currentStep, setCurrentStep] = useState<Step>("upload");
   const [rawData, setRawData] = useState<Record<string, string>[]>([]);
@@ -125,6 +128,7 @@ export function CSVUploadWizard({
             <CSVValidationStep
               data={rawData}
               validationRules={validationRules}
+              suppressionCheck={suppressionCheck}
               onValidated={(valid, invalidCt) => {
                 setValidData(valid);
                 setInvalidCount(invalidCt);
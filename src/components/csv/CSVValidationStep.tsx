@@ -8,6 +8,7 @@ import {
   Loader2,
   AlertTriangle,
   Wand2,
+  Ban,
 } from "lucide-react";
 import type { ValidationRule } from "@/lib/csv-parser";
 
@@ -27,6 +28,7 @@ interface InvalidItem {
 interface CSVValidationStepProps {
   data: Record<string, string>[];
   validationRules: ValidationRule[];
+  suppressionCheck?: (phones: string[]) => Promise<Set<string>>;
   onValidated: (validData: Record<string, string>[], invalidCount: number) => void;
   onBack: () => void;
 }
@@ -34,6 +36,7 @@ interface CSVValidationStepProps {
 export function CSVValidationStep({
   data,
   validationRules,
+  suppressionCheck,
   onValidated,
   onBack,
 }: CSVValidationStepProps) {
@@ -41,6 +44,7 @@ export function CSVValidationStep({
   const [validData, setValidData] = useState<Record<string, string>[]>([]);
   const [fixableItems, setFixableItems] = useState<InvalidItem[]>([]);
   const [unfixableItems, setUnfixableItems] = useState<InvalidItem[]>([]);
+  const [suppressedItems, setSuppressedItems] = useState<InvalidItem[]>([]);
 
   useEffect(() => {
     runValidation();
@@ -118,8 +122,8 @@ export function CSVValidationStep({
     setValidating(true);
 
     // Use setTimeout to avoid blocking UI
-    setTimeout(() => {
-      const valid: Record<string, string>[] = [];
+    setTimeout(async () => {
+      let valid: Record<string, string>[] = [];
       const fixable: InvalidItem[] = [];
       const unfixable: InvalidItem[] = [];
 
@@ -134,9 +138,38 @@ export function CSVValidationStep({
         }
       });
 
+      // Flag rows whose number is on a Do-Not-Contact list instead of importing them
+      const suppressed: InvalidItem[] = [];
+      if (suppressionCheck && valid.length > 0) {
+        try {
+          const blocked = await suppressionCheck(valid.map((row) => row.phone_number));
+          if (blocked.size > 0) {
+            valid = valid.filter((row) => {
+              if (!blocked.has(row.phone_number)) return true;
+              suppressed.push({
+                index: data.indexOf(row) + 1,
+                row,
+                errors: [{ field: "phone_number", message: "On Do-Not-Contact list", fixable: false }],
+              });
+              return false;
+            });
+          }
+        } catch (err) {
+          // Without a working check nothing may be imported as contactable
+          console.error("Suppression check failed:", err);
+          suppressed.push(...valid.map((row) => ({
+            index: data.indexOf(row) + 1,
+            row,
+            errors: [{ field: "phone_number", message: "Could not check the Do-Not-Contact list", fixable: false }],
+          })));
+          valid = [];
+        }
+      }
+
       setValidData(valid);
       setFixableItems(fixable);
       setUnfixableItems(unfixable);
+      setSuppressedItems(suppressed);
       setValidating(false);
     }, 100);
   };
@@ -196,7 +229,7 @@ export function CSVValidationStep({
     );
   }
 
-  const totalInvalid = fixableItems.length + unfixableItems.length;
+  const totalInvalid = fixableItems.length + unfixableItems.length + suppressedItems.length;
 
   return (
     <div className="space-y-5">
@@ -220,6 +253,14 @@ export function CSVValidationStep({
             <span className="font-bold">{unfixableItems.length}</span> invalid
           </div>
         </div>
+        {suppressedItems.length > 0 && (
+          <div className="flex items-center gap-2 rounded-lg border bg-destructive/5 px-4 py-2">
+            <Ban className="h-5 w-5 text-destructive" />
+            <div className="text-sm">
+              <span className="font-bold">{suppressedItems.length}</span> do not contact
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Fixable errors */}
@@ -285,6 +326,34 @@ export function CSVValidationStep({
         </Alert>
       )}
 
+      {/* Suppressed numbers */}
+      {suppressedItems.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-semibold text-sm">
+            Do-Not-Contact ({suppressedItems.length})
+          </h4>
+          <p className="text-xs text-muted-foreground">
+            These numbers are on a Do-Not-Contact list and will not be imported.
+          </p>
+          <div className="space-y-1 max-h-[150px] overflow-y-auto">
+            {suppressedItems.map((item) => (
+              <div
+                key={item.index}
+                className="flex items-center gap-2 rounded border px-3 py-1.5 text-xs"
+              >
+                <Badge variant="outline" className="text-xs">
+                  Row {item.index}
+                </Badge>
+                <span className="font-mono">{item.row.phone_number}</span>
+                {item.row.name && (
+                  <span className="text-muted-foreground">{item.row.name}</span>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Navigation */}
       <div className="flex justify-between pt-2">
         <Button variant="outline" onClick={onBack}>
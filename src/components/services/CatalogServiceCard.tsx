@@ -3,7 +3,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import {
-  Lock, ArrowRight, Sparkles, Send, Clock, Check, Eye,
+  Lock, ArrowRight, Sparkles, Send, Clock, Check, Eye, ArrowUpDown,
 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { cn } from "@/lib/utils";
@@ -17,10 +17,12 @@ interface CatalogServiceCardProps {
   primaryColor: string;
   onViewDetails: (service: CatalogService) => void;
   onRequestAccess: (service: CatalogService) => void;
+  /** Omitted when the client's admin handles plan changes */
+  onChangePlan?: (service: CatalogService) => void;
 }
 
 export function CatalogServiceCard({
-  service, primaryColor, onViewDetails, onRequestAccess,
+  service, primaryColor, onViewDetails, onRequestAccess, onChangePlan,
 }: CatalogServiceCardProps) {
   const navigate = useNavigate();
   const features = getServiceFeatures(getRouteSlug(service.slug));
@@ -160,15 +162,28 @@ export function CatalogServiceCard({
         {/* Action buttons */}
         <div className="flex gap-2 pt-1">
           {isUnlocked ? (
-            <Button
-              size="sm"
-              className="flex-1 text-white"
-              style={{ backgroundColor: primaryColor }}
-              onClick={handleOpen}
-            >
-              Open Dashboard
-              <ArrowRight className="ml-1 h-3 w-3" />
-            </Button>
+            <>
+              {onChangePlan && service.client_service_id && service.available_plans.length > 1 && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="text-xs"
+                  onClick={() => onChangePlan(service)}
+                >
+                  <ArrowUpDown className="mr-1 h-3 w-3" />
+                  Change Plan
+                </Button>
+              )}
+              <Button
+                size="sm"
+                className="flex-1 text-white"
+                style={{ backgroundColor: primaryColor }}
+                onClick={handleOpen}
+              >
+                Open Dashboard
+                <ArrowRight className="ml-1 h-3 w-3" />
+              </Button>
+            </>
           ) : isPending ? (
             <>
               <Button
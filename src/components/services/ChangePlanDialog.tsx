@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowDown, ArrowUp, Check, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { useClient } from "@/contexts/ClientContext";
+import type { CatalogService } from "@/hooks/useServiceCatalog";
+import { changeServicePlan, fetchPlanChanges, planChangeDirection, prorateMonthlyFee } from "@/lib/plan-changes";
+
+interface ChangePlanDialogProps {
+  service: CatalogService | null;
+  open: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  primaryColor: string;
+}
+
+const formatDate = (d: string) =>
+  new Date(d).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+export function ChangePlanDialog({ service, open, onClose, onSuccess, primaryColor }: ChangePlanDialogProps) {
+  const { client } = useClient();
+  const queryClient = useQueryClient();
+  const [planId, setPlanId] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const { data: changes = [] } = useQuery({
+    queryKey: ["plan-changes", client?.id],
+    queryFn: () => fetchPlanChanges(client!.id),
+    enabled: open && !!client,
+  });
+
+  if (!service || !client || !service.client_service_id) return null;
+
+  const currentPlan = service.available_plans.find((p) => p.id === service.plan_id);
+  const selected = service.available_plans.find((p) => p.id === planId);
+  const scheduled = changes.find((c) => c.client_service_id === service.client_service_id && c.status === "scheduled");
+  const direction = selected
+    ? planChangeDirection(currentPlan?.monthly_price, selected.monthly_price, !!service.plan_id)
+    : null;
+  const proration = selected && direction === "upgrade"
+    ? prorateMonthlyFee(currentPlan?.monthly_price, selected.monthly_price)
+    : 0;
+
+  const close = () => {
+    setPlanId(null);
+    onClose();
+  };
+
+  const submit = async (targetPlanId: string) => {
+    setSubmitting(true);
+    try {
+      const result = await changeServicePlan(service.client_service_id!, targetPlanId);
+      if (result.status === "unchanged") {
+        toast.success("You'll stay on your current plan");
+      } else if (result.status === "applied") {
+        toast.success("Plan upgraded", {
+          description: result.proration_amount
+            ? `₹${result.proration_amount.toLocaleString()} for the rest of this month will be added to your next invoice.`
+            : undefined,
+        });
+      } else {
+        toast.success(`Plan changes on ${formatDate(result.effective_at!)}`);
+      }
+      queryClient.invalidateQueries({ queryKey: ["plan-changes", client.id] });
+      onSuccess();
+      close();
+    } catch (err) {
+      toast.error((err as { message?: string })?.message || "Failed to change plan");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const priceLabel = (p: CatalogService["available_plans"][number]) =>
+    p.monthly_price != null
+      ? `₹${p.monthly_price.toLocaleString()}/mo`
+      : p.price_per_unit != null
+        ? `₹${p.price_per_unit}/unit`
+        : "Contact for pricing";
+
+  return (
+    <Dialog open={open} onOpenChange={(v) => !v && close()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Change Plan — {service.name}</DialogTitle>
+          <DialogDescription>
+            Upgrades start right away. Downgrades start when your current usage period ends.
+          </DialogDescription>
+        </DialogHeader>
+
+        {scheduled && (
+          <div className="flex items-center justify-between gap-3 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs dark:border-amber-800 dark:bg-amber-950/30">
+            <span>
+              Changing to <span className="font-medium">{scheduled.to_plan_name}</span> on {formatDate(scheduled.effective_at)}
+            </span>
+            {service.plan_id && (
+              <Button size="sm" variant="outline" className="h-7 text-xs" disabled={submitting} onClick={() => submit(service.plan_id!)}>
+                Keep current plan
+              </Button>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {service.available_plans.map((p) => {
+            const isCurrent = p.id === service.plan_id;
+            return (
+              <button
+                key={p.id}
+                type="button"
+                disabled={isCurrent}
+                onClick={() => setPlanId(p.id)}
+                className={cn(
+                  "flex w-full items-center justify-between rounded-lg border px-3 py-2.5 text-left transition-colors",
+                  isCurrent ? "cursor-default bg-muted/50" : "hover:bg-muted/50",
+                  planId === p.id && "ring-2",
+                )}
+                style={planId === p.id ? { borderColor: primaryColor } : undefined}
+              >
+                <div>
+                  <p className="text-sm font-medium">{p.plan_name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {p.usage_limit ? `${p.usage_limit.toLocaleString()} units per period` : "Unlimited usage"}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-semibold">{priceLabel(p)}</span>
+                  {isCurrent && (
+                    <Badge variant="secondary" className="text-[10px]">
+                      <Check className="mr-1 h-3 w-3" />
+                      Current
+                    </Badge>
+                  )}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
+        {selected && direction && (
+          <div className="rounded-lg bg-muted/50 px-3 py-2 text-xs space-y-1">
+            <p className="flex items-center gap-1 font-medium">
+              {direction === "upgrade" ? <ArrowUp className="h-3 w-3 text-emerald-500" /> : <ArrowDown className="h-3 w-3 text-amber-500" />}
+              {direction === "upgrade" ? "Upgrade — starts now" : "Downgrade — starts at the end of your current period"}
+            </p>
+            {direction === "upgrade" && proration > 0 && (
+              <p className="text-muted-foreground">
+                About ₹{proration.toLocaleString()} for the rest of this month is added to your next invoice.
+              </p>
+            )}
+            {direction === "downgrade" && (
+              <p className="text-muted-foreground">
+                You keep {currentPlan?.plan_name ?? "your current plan"} and its limit until then, and the unused fee is credited.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>Cancel</Button>
+          <Button
+            className="text-white"
+            style={{ backgroundColor: primaryColor }}
+            disabled={!selected || submitting}
+            onClick={() => selected && submit(selected.id)}
+          >
+            {submitting && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+            Confirm Change
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,197 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  RETRY_STATUS_LABELS,
+  fetchExecution,
+  fetchExecutionAttempts,
+  nodeTimingBars,
+  replayExecution,
+  type WorkflowExecution,
+} from "@/lib/workflow-executions";
+
+interface ExecutionInspectorSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  executionId: string | null;
+  workflowName?: string;
+  /** Called with the new execution's id after a replay */
+  onReplayed: (executionId: string) => void;
+}
+
+const execStatusColor: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  success: "default",
+  running: "secondary",
+  waiting: "outline",
+  error: "destructive",
+  cancelled: "destructive",
+};
+
+const formatDuration = (ms: number | null) => (ms != null ? `${(ms / 1000).toFixed(1)}s` : "—");
+
+const isEmpty = (value: unknown) =>
+  value == null || (typeof value === "object" && Object.keys(value as object).length === 0);
+
+function JsonBlock({ label, value }: { label: string; value: unknown }) {
+  return (
+    <div>
+      <p className="font-medium text-muted-foreground mb-1">{label}</p>
+      {isEmpty(value) ? (
+        <p className="text-muted-foreground">None recorded</p>
+      ) : (
+        <pre className="bg-muted rounded-md p-3 text-xs font-mono max-h-[240px] overflow-auto whitespace-pre-wrap break-all">
+          {JSON.stringify(value, null, 2)}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+/** One workflow run: its input, output, error, node timings and retry chain. */
+export default function ExecutionInspectorSheet({
+  open,
+  onOpenChange,
+  executionId,
+  workflowName,
+  onReplayed,
+}: ExecutionInspectorSheetProps) {
+  const queryClient = useQueryClient();
+
+  const { data: execution, isLoading } = useQuery({
+    queryKey: ["workflow-execution", executionId],
+    queryFn: () => fetchExecution(executionId!),
+    enabled: open && !!executionId,
+  });
+  const { data: attempts = [] } = useQuery({
+    queryKey: ["workflow-execution-attempts", execution?.retry_of ?? execution?.id],
+    queryFn: () => fetchExecutionAttempts(execution as WorkflowExecution),
+    enabled: open && !!execution,
+  });
+
+  const replay = useMutation({
+    mutationFn: () => replayExecution(executionId!),
+    onSuccess: (newId: string) => {
+      toast.success("Replay sent to the workflow");
+      queryClient.invalidateQueries({ queryKey: ["workflow-execution-attempts"] });
+      onReplayed(newId);
+    },
+    onError: (err: Error) => toast.error(err.message),
+  });
+
+  const bars = nodeTimingBars(execution?.node_timings);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{workflowName ?? "Workflow Run"}</SheetTitle>
+          <SheetDescription>
+            {execution
+              ? `Attempt ${execution.attempt} · ${format(new Date(execution.executed_at), "MMM d, yyyy HH:mm:ss")}`
+              : "Execution details"}
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading || !execution ? (
+          <Skeleton className="mt-6 h-40 w-full" />
+        ) : (
+          <div className="mt-6 space-y-5 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant={execStatusColor[execution.status] ?? "outline"}>{execution.status}</Badge>
+              <span className="text-muted-foreground">{execution.execution_mode ?? "—"}</span>
+              <span className="text-muted-foreground">· {formatDuration(execution.duration_ms)}</span>
+              {execution.replayed_by && <Badge variant="outline">Replay</Badge>}
+              {execution.n8n_execution_id && (
+                <span className="font-mono text-xs text-muted-foreground">n8n #{execution.n8n_execution_id}</span>
+              )}
+            </div>
+
+            {execution.retry_status && (
+              <p className="text-muted-foreground">
+                {RETRY_STATUS_LABELS[execution.retry_status]}
+                {execution.retry_status === "scheduled" && execution.next_retry_at &&
+                  ` ${formatDistanceToNow(new Date(execution.next_retry_at), { addSuffix: true })}`}
+              </p>
+            )}
+
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => replay.mutate()}
+              disabled={replay.isPending || isEmpty(execution.input_data)}
+            >
+              {replay.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+              Replay with Same Input
+            </Button>
+
+            {execution.error_message && (
+              <div>
+                <p className="font-medium text-destructive mb-1">Error</p>
+                <p className="text-destructive">{execution.error_message}</p>
+                {execution.error_stack && (
+                  <pre className="bg-muted rounded-md p-3 mt-2 text-xs font-mono max-h-[200px] overflow-auto whitespace-pre-wrap">
+                    {execution.error_stack}
+                  </pre>
+                )}
+              </div>
+            )}
+
+            <JsonBlock label="Input" value={execution.input_data} />
+            <JsonBlock label="Output" value={execution.output_data} />
+
+            <div>
+              <p className="font-medium text-muted-foreground mb-2">Node Timings</p>
+              {bars.length === 0 ? (
+                <p className="text-muted-foreground">None recorded</p>
+              ) : (
+                <div className="space-y-1.5">
+                  {bars.map((bar, i) => (
+                    <div key={`${bar.name}-${i}`} className="grid grid-cols-[140px_1fr_56px] items-center gap-2 text-xs">
+                      <span className="truncate" title={bar.error ?? bar.name}>{bar.name}</span>
+                      <div className="relative h-2 rounded bg-muted">
+                        <div
+                          className={`absolute h-2 rounded ${bar.status === "error" ? "bg-destructive" : "bg-primary"}`}
+                          style={{ left: `${bar.offset * 100}%`, width: `${Math.max(bar.width * 100, 1)}%` }}
+                        />
+                      </div>
+                      <span className="text-right text-muted-foreground">{formatDuration(bar.duration_ms)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {attempts.length > 1 && (
+              <>
+                <Separator />
+                <div className="space-y-2">
+                  <p className="font-medium text-muted-foreground">Attempts</p>
+                  {attempts.map((a) => (
+                    <div key={a.id} className="flex items-center justify-between text-xs">
+                      <span className={a.id === execution.id ? "font-medium" : undefined}>
+                        Attempt {a.attempt} · {format(new Date(a.executed_at), "MMM d, HH:mm:ss")}
+                      </span>
+                      <Badge variant={execStatusColor[a.status] ?? "outline"}>{a.status}</Badge>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -57,6 +57,7 @@ export default function ServiceFormModal({ open, onClose, onSaved, editService }
   const [category, setCategory] = useState<string>("");
   const [pricingModel, setPricingModel] = useState<string>("");
   const [basePrice, setBasePrice] = useState("");
+  const [hsnSacCode, setHsnSacCode] = useState("");
   const [setupInstructions, setSetupInstructions] = useState("");
   const [features, setFeatures] = useState<Feature[]>([{ name: "", description: "" }]);
   const [iconUrl, setIconUrl] = useState<string | null>(null);
@@ -76,6 +77,7 @@ export default function ServiceFormModal({ open, onClose, onSaved, editService }
       setCategory(editService.category);
       setPricingModel(editService.base_pricing_model);
       setBasePrice(String(editService.base_price));
+      setHsnSacCode((editService as Service & { hsn_sac_code?: string | null }).hsn_sac_code ?? "");
       setSetupInstructions(editService.setup_instructions ?? "");
       setIconUrl(editService.icon_url);
       setIconPreview(editService.icon_url);
@@ -97,6 +99,7 @@ export default function ServiceFormModal({ open, onClose, onSaved, editService }
     setCategory("");
     setPricingModel("");
     setBasePrice("");
+    setHsnSacCode("");
     setSetupInstructions("");
     setFeatures([{ name: "", description: "" }]);
     setIconUrl(null);
@@ -190,6 +193,7 @@ export default function ServiceFormModal({ open, onClose, onSaved, editService }
         category: category as "voice" | "messaging" | "social_media",
         base_pricing_model: pricingModel as "per_minute" | "per_call" | "per_message" | "monthly",
         base_price: parseFloat(basePrice),
+        hsn_sac_code: hsnSacCode.trim() || null,
         features: JSON.parse(JSON.stringify(validFeatures)) as Json,
         setup_instructions: setupInstructions.trim() || null,
         icon_url: uploadedIconUrl,
@@ -315,6 +319,18 @@ export default function ServiceFormModal({ open, onClose, onSaved, editService }
             {errors.basePrice && <p className="text-xs text-destructive">{errors.basePrice}</p>}
           </div>
 
+          {/* HSN/SAC */}
+          <div className="space-y-1.5">
+            <Label htmlFor="hsn">HSN/SAC Code</Label>
+            <Input
+              id="hsn"
+              placeholder="e.g. 998319"
+              value={hsnSacCode}
+              onChange={(e) => setHsnSacCode(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Printed on tax invoices; admins' default SAC code is used when empty</p>
+          </div>
+
           {/* Icon Upload */}
           <div className="space-y-1.5">
             <Label>Service Icon</Label>
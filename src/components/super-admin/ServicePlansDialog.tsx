@@ -21,6 +21,7 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import type { Tables } from "@/integrations/supabase/types";
+import { OVERAGE_POLICY_DESCRIPTIONS, OVERAGE_POLICY_LABELS, type OveragePolicy } from "@/lib/usage-limits";
 
 interface ServicePlansDialogProps {
   open: boolean;
@@ -37,6 +38,8 @@ interface PlanRow {
   usage_limit: number | null;
   price_per_unit: number | null;
   monthly_price: number | null;
+  overage_policy?: OveragePolicy;
+  overage_price_per_unit?: number | null;
   features_included: any;
   is_active: boolean;
   created_at: string;
@@ -60,6 +63,8 @@ const emptyForm = {
   price_per_unit: "",
   monthly_price: "",
   usage_limit: "",
+  overage_policy: "block" as OveragePolicy,
+  overage_price_per_unit: "",
   features: [] as string[],
   is_active: true,
 };
@@ -139,6 +144,8 @@ export default function ServicePlansDialog({ open, onOpenChange, serviceId, serv
       price_per_unit: plan.price_per_unit ? String(plan.price_per_unit) : "",
       monthly_price: plan.monthly_price ? String(plan.monthly_price) : "",
       usage_limit: plan.usage_limit ? String(plan.usage_limit) : "",
+      overage_policy: plan.overage_policy ?? "block",
+      overage_price_per_unit: plan.overage_price_per_unit ? String(plan.overage_price_per_unit) : "",
       features,
       is_active: plan.is_active,
     });
@@ -172,6 +179,8 @@ export default function ServicePlansDialog({ open, onOpenChange, serviceId, serv
       price_per_unit: form.pricing_type === "usage" && form.price_per_unit ? Number(form.price_per_unit) : null,
       monthly_price: form.pricing_type === "monthly" && form.monthly_price ? Number(form.monthly_price) : null,
       usage_limit: form.usage_limit ? Number(form.usage_limit) : null,
+      overage_policy: form.overage_policy,
+      overage_price_per_unit: form.overage_policy === "overage" && form.overage_price_per_unit ? Number(form.overage_price_per_unit) : null,
       features_included: form.features.map((name) => ({ name })),
       is_active: form.is_active,
     };
@@ -264,6 +273,15 @@ export default function ServicePlansDialog({ open, onOpenChange, serviceId, serv
                         <p className="text-sm text-muted-foreground">{plan.usage_limit.toLocaleString()} {unit}s/month</p>
                       )}
 
+                      {plan.usage_limit && (
+                        <p className="text-xs text-muted-foreground">
+                          At limit: {OVERAGE_POLICY_LABELS[plan.overage_policy ?? "block"]}
+                          {plan.overage_policy === "overage" && plan.overage_price_per_unit
+                            ? ` (₹${Number(plan.overage_price_per_unit).toFixed(2)} per extra ${unit})`
+                            : ""}
+                        </p>
+                      )}
+
                       {features.length > 0 && (
                         <ul className="space-y-1.5">
                           {features.map((f, i) => (
@@ -352,6 +370,27 @@ export default function ServicePlansDialog({ open, onOpenChange, serviceId, serv
               <Input type="number" min="0" step="1" placeholder={`e.g., 500 ${unit}s`} value={form.usage_limit} onChange={(e) => setForm((f) => ({ ...f, usage_limit: e.target.value }))} />
             </div>
 
+            <div>
+              <Label>When the limit is reached</Label>
+              <Select value={form.overage_policy} onValueChange={(v) => setForm((f) => ({ ...f, overage_policy: v as OveragePolicy }))}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(OVERAGE_POLICY_LABELS) as OveragePolicy[]).map((p) => (
+                    <SelectItem key={p} value={p}>{OVERAGE_POLICY_LABELS[p]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="mt-1 text-xs text-muted-foreground">{OVERAGE_POLICY_DESCRIPTIONS[form.overage_policy]}</p>
+            </div>
+
+            {form.overage_policy === "overage" && (
+              <div>
+                <Label>Overage price per {unit} (₹)</Label>
+                <Input type="number" min="0" step="0.01" placeholder={form.price_per_unit || "0.00"} value={form.overage_price_per_unit} onChange={(e) => setForm((f) => ({ ...f, overage_price_per_unit: e.target.value }))} />
+                <p className="mt-1 text-xs text-muted-foreground">Leave empty to bill overage at the plan's regular unit price.</p>
+              </div>
+            )}
+
             <div>
               <Label>Features Included</Label>
               <div className="mt-2 space-y-2">
@@ -7,6 +7,7 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import type { Tables } from "@/integrations/supabase/types";
+import TemplateVersionHistory from "@/components/super-admin/TemplateVersionHistory";
 
 type WorkflowTemplate = Tables<"workflow_templates">;
 
@@ -58,7 +59,7 @@ export default function TemplateDetailDialog({
             </div>
             <div>
               <p className="font-medium text-muted-foreground">Version</p>
-              <p>{template.version ?? "1.0"}</p>
+              <p>{template.version ?? "1.0.0"}</p>
             </div>
           </div>
 
@@ -114,6 +115,17 @@ export default function TemplateDetailDialog({
                 </div>
               </>
             )}
+
+          <Separator />
+          <div>
+            <p className="font-medium text-muted-foreground mb-2">
+              Version History
+            </p>
+            <TemplateVersionHistory
+              templateId={template.id}
+              currentVersion={template.version ?? "1.0.0"}
+            />
+          </div>
         </div>
       </DialogContent>
     </Dialog>
@@ -20,6 +20,14 @@ import {
 } from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import { parseWorkflowJson } from "@shared/n8n";
+import { bumpVersion, compareSemver, isValidSemver } from "@/lib/workflow-versions";
+import {
+  DEFAULT_RETRY_POLICY,
+  normalizeRetryPolicy,
+  retrySchedule,
+  type RetryPolicy,
+} from "@/lib/workflow-executions";
 import type { Tables } from "@/integrations/supabase/types";
 
 type WorkflowTemplate = Tables<"workflow_templates">;
@@ -51,10 +59,13 @@ export default function TemplateFormModal({
   const [masterPrompt, setMasterPrompt] = useState("");
   const [serviceId, setServiceId] = useState("");
   const [category, setCategory] = useState("");
-  const [version, setVersion] = useState("1.0");
+  const [version, setVersion] = useState("1.0.0");
+  const [changelog, setChangelog] = useState("");
   const [requiredCredentials, setRequiredCredentials] = useState("");
   const [defaultConfig, setDefaultConfig] = useState("{}");
   const [n8nWorkflowId, setN8nWorkflowId] = useState("");
+  const [workflowJson, setWorkflowJson] = useState("");
+  const [retryPolicy, setRetryPolicy] = useState<RetryPolicy>(DEFAULT_RETRY_POLICY);
   const [isActive, setIsActive] = useState(true);
 
   useEffect(() => {
@@ -72,10 +83,11 @@ export default function TemplateFormModal({
     if (template) {
       setTemplateName(template.template_name);
       setDescription(template.template_description ?? "");
-      setMasterPrompt((template as any).master_prompt ?? "");
+      setMasterPrompt(template.master_prompt ?? "");
       setServiceId(template.service_id);
-      setCategory((template as any).category ?? "");
-      setVersion(template.version ?? "1.0");
+      setCategory(template.category ?? "");
+      setVersion(template.version ?? "1.0.0");
+      setChangelog("");
       setRequiredCredentials(
         (template.required_credentials ?? []).join(", ")
       );
@@ -85,6 +97,12 @@ export default function TemplateFormModal({
           : "{}"
       );
       setN8nWorkflowId(template.n8n_template_workflow_id ?? "");
+      setWorkflowJson(
+        template.workflow_json
+          ? JSON.stringify(template.workflow_json, null, 2)
+          : ""
+      );
+      setRetryPolicy(normalizeRetryPolicy(template.retry_policy));
       setIsActive(template.is_active ?? true);
     } else {
       setTemplateName("");
@@ -92,10 +110,13 @@ export default function TemplateFormModal({
       setMasterPrompt("");
       setServiceId("");
       setCategory("");
-      setVersion("1.0");
+      setVersion("1.0.0");
+      setChangelog("");
       setRequiredCredentials("");
       setDefaultConfig("{}");
       setN8nWorkflowId("");
+      setWorkflowJson("");
+      setRetryPolicy(DEFAULT_RETRY_POLICY);
       setIsActive(true);
     }
   }, [template, open]);
@@ -114,6 +135,16 @@ export default function TemplateFormModal({
       return;
     }
 
+    const nextVersion = version.trim();
+    if (!isValidSemver(nextVersion)) {
+      toast.error("Version must look like 1.2.0 (major.minor.patch)");
+      return;
+    }
+    if (template && compareSemver(nextVersion, template.version) < 0) {
+      toast.error(`Version can't go below the current ${template.version}`);
+      return;
+    }
+
     let parsedConfig: Record<string, unknown>;
     try {
       parsedConfig = JSON.parse(defaultConfig);
@@ -122,6 +153,17 @@ export default function TemplateFormModal({
       return;
     }
 
+    let parsedWorkflow: unknown = null;
+    if (workflowJson.trim()) {
+      try {
+        parseWorkflowJson(workflowJson);
+        parsedWorkflow = JSON.parse(workflowJson);
+      } catch (err) {
+        toast.error((err as Error).message);
+        return;
+      }
+    }
+
     setSaving(true);
 
     const payload: Record<string, unknown> = {
@@ -130,13 +172,19 @@ export default function TemplateFormModal({
       master_prompt: masterPrompt.trim() || null,
       service_id: serviceId,
       category: category || null,
-      version: version.trim() || "1.0",
+      version: nextVersion,
+      // The changelog belongs to the version it was written for
+      changelog: template && nextVersion === template.version
+        ? template.changelog ?? null
+        : changelog.trim() || null,
       required_credentials: requiredCredentials
         .split(",")
         .map((s) => s.trim())
         .filter(Boolean),
       default_config: parsedConfig,
       n8n_template_workflow_id: n8nWorkflowId.trim() || null,
+      workflow_json: parsedWorkflow,
+      retry_policy: normalizeRetryPolicy(retryPolicy),
       is_active: isActive,
     };
 
@@ -184,12 +232,27 @@ export default function TemplateFormModal({
             </div>
             <div className="space-y-2">
               <Label htmlFor="tpl-version">Version</Label>
-              <Input
-                id="tpl-version"
-                value={version}
-                onChange={(e) => setVersion(e.target.value)}
-                placeholder="1.0"
-              />
+              <div className="flex gap-1">
+                <Input
+                  id="tpl-version"
+                  value={version}
+                  onChange={(e) => setVersion(e.target.value)}
+                  placeholder="1.0.0"
+                />
+                {template &&
+                  (["patch", "minor", "major"] as const).map((part) => (
+                    <Button
+                      key={part}
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="h-10 px-2 text-xs capitalize"
+                      onClick={() => setVersion(bumpVersion(template.version, part))}
+                    >
+                      {part}
+                    </Button>
+                  ))}
+              </div>
             </div>
           </div>
 
@@ -269,6 +332,64 @@ export default function TemplateFormModal({
             />
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="tpl-workflow-json">Workflow JSON</Label>
+            <Textarea
+              id="tpl-workflow-json"
+              value={workflowJson}
+              onChange={(e) => setWorkflowJson(e.target.value)}
+              placeholder="Exported n8n workflow; used instead of the template workflow ID"
+              className="min-h-[140px] font-mono text-xs"
+            />
+            <p className="text-xs text-muted-foreground">
+              {"Placeholders: {{pixora.client_id}}, {{pixora.workflow_instance_id}}, {{pixora.master_prompt}}, {{pixora.callback_url}}, {{pixora.execution_callback_url}}, {{pixora.callback_secret}}, {{pixora.config.<key>}}"}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Retry Policy</Label>
+            <div className="grid grid-cols-4 gap-3">
+              {([
+                ["max_attempts", "Max attempts"],
+                ["initial_delay_seconds", "First delay (s)"],
+                ["backoff_multiplier", "Multiplier"],
+                ["max_delay_seconds", "Max delay (s)"],
+              ] as [keyof RetryPolicy, string][]).map(([key, label]) => (
+                <div key={key} className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">{label}</Label>
+                  <Input
+                    type="number"
+                    min={key === "max_attempts" || key === "backoff_multiplier" ? 1 : 0}
+                    step={key === "backoff_multiplier" ? 0.5 : 1}
+                    value={retryPolicy[key]}
+                    onChange={(e) => setRetryPolicy((prev) => ({ ...prev, [key]: Number(e.target.value) }))}
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {retryPolicy.max_attempts > 1
+                ? `Failed runs are retried with the same input after ${retrySchedule(normalizeRetryPolicy(retryPolicy)).map((s) => `${s}s`).join(", ")}.`
+                : "Failed runs are not retried."}
+            </p>
+          </div>
+
+          {template && version.trim() !== template.version && (
+            <div className="space-y-2">
+              <Label htmlFor="tpl-changelog">What changed in {version.trim()}</Label>
+              <Textarea
+                id="tpl-changelog"
+                value={changelog}
+                onChange={(e) => setChangelog(e.target.value)}
+                placeholder="Shown in the version history and when rolling out to clients"
+                className="min-h-[70px] text-sm"
+              />
+              <p className="text-xs text-muted-foreground">
+                Client workflows stay on {template.version} until you roll the new version out from Manage Workflows.
+              </p>
+            </div>
+          )}
+
           <div className="flex items-center gap-3">
             <Switch checked={isActive} onCheckedChange={setIsActive} />
             <Label>Active</Label>
@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { diffTemplateVersions, fetchTemplateVersions } from "@/lib/workflow-versions";
+
+interface TemplateVersionHistoryProps {
+  templateId: string;
+  currentVersion: string;
+}
+
+const lineClass = {
+  same: "text-muted-foreground",
+  added: "bg-green-500/10 text-green-700 dark:text-green-400",
+  removed: "bg-red-500/10 text-red-700 dark:text-red-400",
+} as const;
+
+const linePrefix = { same: " ", added: "+", removed: "-" } as const;
+
+/** A template's versions with their changelogs, and a diff between any two. */
+export default function TemplateVersionHistory({
+  templateId,
+  currentVersion,
+}: TemplateVersionHistoryProps) {
+  const { data: versions = [], isLoading } = useQuery({
+    queryKey: ["workflow-template-versions", templateId],
+    queryFn: () => fetchTemplateVersions(templateId),
+  });
+  const [fromVersion, setFromVersion] = useState("");
+  const [toVersion, setToVersion] = useState("");
+
+  // Compare the latest version with the one before it by default
+  useEffect(() => {
+    setToVersion(versions[0]?.version ?? "");
+    setFromVersion(versions[1]?.version ?? "");
+  }, [versions]);
+
+  if (isLoading) return <Skeleton className="h-24 w-full" />;
+  if (versions.length === 0) {
+    return <p className="text-muted-foreground">No versions recorded yet.</p>;
+  }
+
+  const from = versions.find((v) => v.version === fromVersion);
+  const to = versions.find((v) => v.version === toVersion);
+  const sections = from && to ? diffTemplateVersions(from, to) : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {versions.map((v) => (
+          <div key={v.id} className="flex items-start gap-3">
+            <Badge variant={v.version === currentVersion ? "default" : "outline"} className="font-mono">
+              {v.version}
+            </Badge>
+            <div className="min-w-0 flex-1">
+              <p className="text-xs text-muted-foreground">
+                {format(new Date(v.created_at), "MMM d, yyyy")}
+              </p>
+              <p className="whitespace-pre-wrap">{v.changelog || "No changelog"}</p>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {versions.length > 1 && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label className="text-xs">From</Label>
+              <Select value={fromVersion} onValueChange={setFromVersion}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Version" />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((v) => (
+                    <SelectItem key={v.id} value={v.version}>
+                      {v.version}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">To</Label>
+              <Select value={toVersion} onValueChange={setToVersion}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Version" />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((v) => (
+                    <SelectItem key={v.id} value={v.version}>
+                      {v.version}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {from && to && sections.length === 0 && (
+            <p className="text-muted-foreground">No differences between {from.version} and {to.version}.</p>
+          )}
+          {sections.map((section) => (
+            <div key={section.label}>
+              <p className="font-medium text-muted-foreground mb-1">{section.label}</p>
+              <pre className="bg-muted rounded-md text-xs font-mono max-h-[300px] overflow-auto py-2">
+                {section.lines.map((line, i) => (
+                  <div key={i} className={`px-3 ${lineClass[line.type]}`}>
+                    {linePrefix[line.type]} {line.text}
+                  </div>
+                ))}
+              </pre>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Loader2, RefreshCw, Rocket, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  DEFAULT_ROLLOUT_OPTIONS,
+  ROLLOUT_STATUS_LABELS,
+  advanceRollout,
+  compareSemver,
+  fetchTemplateInstances,
+  fetchTemplateRollouts,
+  rollbackRollout,
+  startRollout,
+  type RolloutOptions,
+  type WorkflowRollout,
+} from "@/lib/workflow-versions";
+
+interface WorkflowRolloutDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  templateId: string;
+  templateName: string;
+  latestVersion: string;
+  /** Selected first, so it becomes the canary */
+  preselectedInstanceId?: string;
+  onChanged: () => void;
+}
+
+const statusVariant: Record<WorkflowRollout["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  canary: "outline",
+  monitoring: "outline",
+  completed: "default",
+  rolled_back: "destructive",
+};
+
+/** Rolls a template's latest version out to selected client workflows, canaries first. */
+export default function WorkflowRolloutDialog({
+  open,
+  onOpenChange,
+  templateId,
+  templateName,
+  latestVersion,
+  preselectedInstanceId,
+  onChanged,
+}: WorkflowRolloutDialogProps) {
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<string[]>([]);
+  const [options, setOptions] = useState<RolloutOptions>(DEFAULT_ROLLOUT_OPTIONS);
+
+  const { data: instances = [], isLoading: loadingInstances } = useQuery({
+    queryKey: ["workflow-template-instances", templateId],
+    queryFn: () => fetchTemplateInstances(templateId),
+    enabled: open && !!templateId,
+  });
+  const { data: rollouts = [], isLoading: loadingRollouts } = useQuery({
+    queryKey: ["workflow-rollouts", templateId],
+    queryFn: () => fetchTemplateRollouts(templateId),
+    enabled: open && !!templateId,
+  });
+
+  const outdated = instances.filter(
+    (i) => i.template_version && compareSemver(i.template_version, latestVersion) < 0
+  );
+  const active = rollouts.find((r) => r.status === "canary" || r.status === "monitoring");
+
+  useEffect(() => {
+    if (open) {
+      setSelected(preselectedInstanceId ? [preselectedInstanceId] : []);
+      setOptions(DEFAULT_ROLLOUT_OPTIONS);
+    }
+  }, [open, preselectedInstanceId]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["workflow-template-instances", templateId] });
+    queryClient.invalidateQueries({ queryKey: ["workflow-rollouts", templateId] });
+    onChanged();
+  };
+
+  const onError = (err: Error) => toast.error(err.message);
+
+  const start = useMutation({
+    mutationFn: () => startRollout(templateId, selected, options),
+    onSuccess: (data: { canaries: number; total: number }) => {
+      toast.success(`Canary upgraded: ${data.canaries} of ${data.total} workflows`);
+      refresh();
+    },
+    onError,
+  });
+  const advance = useMutation({
+    mutationFn: (rolloutId: string) => advanceRollout(rolloutId),
+    onSuccess: refresh,
+    onError,
+  });
+  const rollback = useMutation({
+    mutationFn: (rolloutId: string) => rollbackRollout(rolloutId),
+    onSuccess: () => {
+      toast.success("Rollout rolled back");
+      refresh();
+    },
+    onError,
+  });
+
+  const toggle = (id: string, checked: boolean) =>
+    setSelected((prev) => (checked ? [...prev, id] : prev.filter((s) => s !== id)));
+
+  const setOption = (key: keyof RolloutOptions, value: string) =>
+    setOptions((prev) => ({ ...prev, [key]: Number(value) }));
+
+  const canaryCount = Math.min(Math.max(options.canary_count, 1), Math.max(selected.length, 1));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Roll Out {templateName} {latestVersion}</DialogTitle>
+          <DialogDescription>
+            The first selected workflows are upgraded as canaries. If their error rate stays normal for the
+            observation window, the rest follow; a spike rolls everything back. Each client's configuration is kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loadingInstances || loadingRollouts ? (
+          <Skeleton className="h-40 w-full" />
+        ) : active ? (
+          <div className="space-y-3 rounded-md border p-4 text-sm">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">Version {active.to_version}</span>
+                <Badge variant={statusVariant[active.status]}>{ROLLOUT_STATUS_LABELS[active.status]}</Badge>
+              </div>
+              <span className="text-xs text-muted-foreground">
+                Phase started {formatDistanceToNow(new Date(active.phase_started_at), { addSuffix: true })}
+              </span>
+            </div>
+            <p className="text-muted-foreground">
+              {active.instances.filter((i) => i.status === "upgraded").length} of {active.instances.length} upgraded ·
+              watching {active.observation_minutes} min for an error rate above{" "}
+              {Math.round(active.max_error_rate * 100)}%
+            </p>
+            <div className="space-y-1">
+              {active.instances.map((i) => (
+                <div key={i.workflow_instance_id} className="flex items-center justify-between text-xs">
+                  <span>
+                    {i.company_name} — {i.workflow_name}
+                    {i.is_canary && <Badge variant="outline" className="ml-2 text-[10px]">Canary</Badge>}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {i.status === "upgraded" ? active.to_version : `${i.from_version} (${i.status})`}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => advance.mutate(active.id)} disabled={advance.isPending}>
+                {advance.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+                Check Now
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="text-destructive"
+                onClick={() => rollback.mutate(active.id)}
+                disabled={rollback.isPending}
+              >
+                {rollback.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Undo2 className="mr-2 h-4 w-4" />}
+                Roll Back
+              </Button>
+            </div>
+          </div>
+        ) : outdated.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            Every workflow built from this template runs {latestVersion}.
+          </p>
+        ) : (
+          <div className="space-y-4 text-sm">
+            <div className="space-y-2">
+              <Label>Workflows to upgrade</Label>
+              {outdated.map((i) => {
+                // Canaries are the first workflows ticked
+                const position = selected.indexOf(i.id);
+                return (
+                  <label key={i.id} className="flex items-center gap-3 rounded-md border p-2">
+                    <Checkbox checked={position >= 0} onCheckedChange={(c) => toggle(i.id, c === true)} />
+                    <span className="flex-1">
+                      {i.company_name} — {i.workflow_name}
+                    </span>
+                    {position >= 0 && position < canaryCount && (
+                      <Badge variant="outline" className="text-[10px]">Canary</Badge>
+                    )}
+                    <span className="font-mono text-xs text-muted-foreground">{i.template_version}</span>
+                  </label>
+                );
+              })}
+              <Button
+                variant="link"
+                size="sm"
+                className="h-auto p-0"
+                onClick={() =>
+                  setSelected((prev) => [...prev, ...outdated.map((i) => i.id).filter((id) => !prev.includes(id))])
+                }
+              >
+                Select all {outdated.length}
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-4 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs">Canaries</Label>
+                <Input type="number" min={1} value={options.canary_count} onChange={(e) => setOption("canary_count", e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Watch (min)</Label>
+                <Input type="number" min={1} value={options.observation_minutes} onChange={(e) => setOption("observation_minutes", e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Max error %</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={Math.round(options.max_error_rate * 100)}
+                  onChange={(e) => setOptions((prev) => ({ ...prev, max_error_rate: Number(e.target.value) / 100 }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Min executions</Label>
+                <Input type="number" min={1} value={options.min_executions} onChange={(e) => setOption("min_executions", e.target.value)} />
+              </div>
+            </div>
+
+            <Button onClick={() => start.mutate()} disabled={selected.length === 0 || start.isPending}>
+              {start.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Rocket className="mr-2 h-4 w-4" />}
+              Start Rollout ({selected.length})
+            </Button>
+          </div>
+        )}
+
+        {rollouts.some((r) => r !== active) && (
+          <>
+            <Separator />
+            <div className="space-y-2 text-sm">
+              <p className="font-medium text-muted-foreground">Recent Rollouts</p>
+              {rollouts
+                .filter((r) => r !== active)
+                .map((r) => (
+                  <div key={r.id} className="flex items-start justify-between gap-4 text-xs">
+                    <div>
+                      <span className="font-medium">{r.to_version}</span> · {r.instances.length} workflows ·{" "}
+                      {format(new Date(r.created_at), "MMM d, yyyy HH:mm")}
+                      {r.status_reason && <p className="text-muted-foreground">{r.status_reason}</p>}
+                    </div>
+                    <Badge variant={statusVariant[r.status]}>{ROLLOUT_STATUS_LABELS[r.status]}</Badge>
+                  </div>
+                ))}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
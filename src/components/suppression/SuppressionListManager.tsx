@@ -0,0 +1,285 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Ban, Plus, Trash2, Upload, Search } from "lucide-react";
+import { format } from "date-fns";
+import { CSVUploadWizard } from "@/components/csv/CSVUploadWizard";
+import { suppressionCSVRules, suppressionCSVTemplate } from "@/lib/validation/suppression-csv-rules";
+import type { SuppressionChannel } from "@/lib/suppression";
+
+interface SuppressionEntry {
+  id: string;
+  phone_number: string;
+  channel: SuppressionChannel;
+  reason: string | null;
+  source: string;
+  created_at: string;
+}
+
+interface Props {
+  scope: "global" | "admin" | "client";
+  /** admins.id for admin scope, clients.id for client scope */
+  ownerId?: string;
+}
+
+const SCOPE_COPY: Record<Props["scope"], string> = {
+  global: "Numbers on this list are never called or messaged by any client on the platform.",
+  admin: "Numbers on this list are never called or messaged by any of your clients.",
+  client: "Numbers on this list are never called or messaged by your campaigns, instant calls or WhatsApp.",
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  manual: "Manual",
+  csv_import: "CSV import",
+  whatsapp_stop: "Replied STOP",
+};
+
+const IMPORT_BATCH = 500;
+
+export function SuppressionListManager({ scope, ownerId }: Props) {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<SuppressionEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [newPhone, setNewPhone] = useState("");
+  const [newChannel, setNewChannel] = useState<SuppressionChannel>("all");
+  const [newReason, setNewReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+
+  const ownerColumns = useCallback(() => ({
+    scope,
+    admin_id: scope === "admin" ? ownerId : null,
+    client_id: scope === "client" ? ownerId : null,
+  }), [scope, ownerId]);
+
+  const fetchEntries = useCallback(async () => {
+    if (scope !== "global" && !ownerId) return;
+    setLoading(true);
+
+    let query = supabase
+      .from("suppression_list")
+      .select("id, phone_number, channel, reason, source, created_at")
+      .eq("scope", scope)
+      .order("created_at", { ascending: false })
+      .limit(500);
+
+    if (scope === "admin") query = query.eq("admin_id", ownerId);
+    if (scope === "client") query = query.eq("client_id", ownerId);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error("Failed to load suppression list:", error);
+      toast.error("Failed to load Do-Not-Contact list");
+    }
+    setEntries((data ?? []) as SuppressionEntry[]);
+    setLoading(false);
+  }, [scope, ownerId]);
+
+  useEffect(() => { fetchEntries(); }, [fetchEntries]);
+
+  const addEntry = async () => {
+    const phone = newPhone.trim();
+    if (!/^\+\d{7,15}$/.test(phone.replace(/[\s\-()]/g, ""))) {
+      toast.error("Enter the number with + and country code (e.g., +919876543210)");
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.from("suppression_list").insert({
+      ...ownerColumns(),
+      phone_number: phone,
+      channel: newChannel,
+      reason: newReason.trim() || null,
+      source: "manual",
+      added_by: user?.id,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast.error(error.code === "23505" ? "This number is already on the list" : error.message);
+      return;
+    }
+
+    toast.success("Number added to Do-Not-Contact list");
+    setNewPhone("");
+    setNewReason("");
+    fetchEntries();
+  };
+
+  const removeEntry = async (id: string) => {
+    const { error } = await supabase.from("suppression_list").delete().eq("id", id);
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    setEntries(prev => prev.filter(e => e.id !== id));
+    toast.success("Number removed");
+  };
+
+  const importRows = async (rows: Record<string, string>[]) => {
+    const records = rows.map(row => ({
+      ...ownerColumns(),
+      phone_number: row.phone_number.trim(),
+      channel: (row.channel?.trim().toLowerCase() || "all") as SuppressionChannel,
+      reason: row.reason?.trim() || null,
+      source: "csv_import",
+      added_by: user?.id,
+    }));
+
+    try {
+      for (let i = 0; i < records.length; i += IMPORT_BATCH) {
+        const { error } = await supabase
+          .from("suppression_list")
+          .upsert(records.slice(i, i + IMPORT_BATCH), {
+            onConflict: "scope,admin_id,client_id,phone_number,channel",
+            ignoreDuplicates: true,
+          });
+        if (error) throw error;
+      }
+      toast.success(`Imported ${records.length} numbers`);
+      setImportOpen(false);
+      fetchEntries();
+    } catch (err) {
+      toast.error("Import failed: " + ((err as Error).message || "Unknown error"));
+    }
+  };
+
+  const filtered = entries.filter(e =>
+    !search || e.phone_number.includes(search.trim()) || e.reason?.toLowerCase().includes(search.toLowerCase())
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Ban className="h-5 w-5" /> Do-Not-Contact List
+            </CardTitle>
+            <CardDescription>{SCOPE_COPY[scope]}</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setImportOpen(true)}>
+            <Upload className="h-4 w-4 mr-1" /> Import CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input
+            placeholder="+919876543210"
+            value={newPhone}
+            onChange={e => setNewPhone(e.target.value)}
+            className="sm:w-48"
+          />
+          <Select value={newChannel} onValueChange={v => setNewChannel(v as SuppressionChannel)}>
+            <SelectTrigger className="sm:w-36"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All channels</SelectItem>
+              <SelectItem value="voice">Calls only</SelectItem>
+              <SelectItem value="whatsapp">WhatsApp only</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Reason (optional)"
+            value={newReason}
+            onChange={e => setNewReason(e.target.value)}
+            className="flex-1"
+          />
+          <Button onClick={addEntry} disabled={saving || !newPhone.trim()}>
+            <Plus className="h-4 w-4 mr-1" /> Add
+          </Button>
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search numbers or reasons..."
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            className="pl-8"
+          />
+        </div>
+
+        {loading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map(i => <Skeleton key={i} className="h-10 w-full" />)}
+          </div>
+        ) : filtered.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            {entries.length === 0 ? "No numbers on this list yet." : "No numbers match your search."}
+          </p>
+        ) : (
+          <div className="rounded-md border max-h-[400px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Number</TableHead>
+                  <TableHead>Channel</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Added</TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filtered.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="font-mono text-xs">{entry.phone_number}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="text-[10px] capitalize">{entry.channel}</Badge>
+                    </TableCell>
+                    <TableCell className="text-xs">{SOURCE_LABELS[entry.source] || entry.source}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground max-w-[200px] truncate">
+                      {entry.reason || "—"}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {format(new Date(entry.created_at), "MMM dd, yyyy")}
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => removeEntry(entry.id)}>
+                        <Trash2 className="h-3.5 w-3.5 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={importOpen} onOpenChange={setImportOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Import Do-Not-Contact Numbers</DialogTitle>
+            <DialogDescription>
+              Upload a CSV with a phone_number column. Optional columns: channel (all, voice, whatsapp) and reason.
+            </DialogDescription>
+          </DialogHeader>
+          <CSVUploadWizard
+            validationRules={suppressionCSVRules}
+            templateFields={suppressionCSVTemplate}
+            onComplete={importRows}
+            onCancel={() => setImportOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
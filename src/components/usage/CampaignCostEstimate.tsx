@@ -0,0 +1,99 @@
+import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle, IndianRupee } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  DEFAULT_CALL_STATS, campaignUnits, estimateCampaignCost, fetchCallHistoryStats, fetchClientServicePricing,
+} from "@/lib/cost-estimate";
+
+interface CampaignCostEstimateProps {
+  serviceId: string;
+  contacts: number;
+  /** Extra attempts for unanswered calls */
+  retries?: number;
+  /** Whose call history sets the answer rate and call length; omit for messaging */
+  userId?: string;
+}
+
+const rupees = (n: number) => `₹${n.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+/** Min / expected / max cost of a campaign and what it leaves of the plan's quota. */
+export function CampaignCostEstimate({ serviceId, contacts, retries = 0, userId }: CampaignCostEstimateProps) {
+  const { data: pricing, isLoading, isError } = useQuery({
+    queryKey: ["client-service-pricing", serviceId],
+    queryFn: () => fetchClientServicePricing(serviceId),
+    enabled: !!serviceId,
+  });
+  const { data: stats = DEFAULT_CALL_STATS } = useQuery({
+    queryKey: ["call-history-stats", userId],
+    queryFn: () => fetchCallHistoryStats(userId!),
+    enabled: !!userId,
+  });
+
+  if (isLoading) return <Skeleton className="h-28 w-full" />;
+  if (isError || !pricing) {
+    return <p className="text-xs text-muted-foreground">The cost estimate is unavailable right now.</p>;
+  }
+
+  const estimate = estimateCampaignCost(pricing, campaignUnits(pricing.pricing_model, { contacts, retries }, stats));
+  const unit = estimate.unit_label;
+  const isCalls = pricing.pricing_model === "per_minute" || pricing.pricing_model === "per_call";
+
+  return (
+    <Card>
+      <CardHeader className="p-4 pb-2">
+        <CardTitle className="text-sm flex items-center gap-2">
+          <IndianRupee className="h-4 w-4" /> Estimated Cost
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 pt-0 space-y-3 text-xs">
+        <div className="grid grid-cols-3 gap-2 text-center">
+          {(["min", "expected", "max"] as const).map((k) => (
+            <div key={k} className={k === "expected" ? "rounded bg-muted/60 py-2" : "py-2"}>
+              <p className="text-[10px] uppercase text-muted-foreground">{k === "expected" ? "Expected" : k === "min" ? "Low" : "High"}</p>
+              <p className={k === "expected" ? "text-base font-bold" : "text-sm font-semibold"}>{rupees(estimate.cost[k])}</p>
+              <p className="text-[10px] text-muted-foreground">{estimate.units[k].toLocaleString()} {unit}s</p>
+            </div>
+          ))}
+        </div>
+        <div className="space-y-1">
+          <div className="flex justify-between gap-4">
+            <span className="text-muted-foreground">Price per {unit}:</span>
+            <span className="font-medium">
+              {rupees(pricing.unit_price)}
+              {pricing.overage_policy === "overage" && pricing.overage_unit_price !== pricing.unit_price &&
+                ` (${rupees(pricing.overage_unit_price)} past your limit)`}
+            </span>
+          </div>
+          <div className="flex justify-between gap-4">
+            <span className="text-muted-foreground">Plan quota left:</span>
+            <span className="font-medium">
+              {estimate.quota_remaining == null ? "Unlimited" : `${estimate.quota_remaining.toLocaleString()} ${unit}s`}
+              {pricing.plan_name && ` · ${pricing.plan_name}`}
+            </span>
+          </div>
+          {isCalls && (
+            <p className="text-[10px] text-muted-foreground">
+              {stats.sample_size > 0
+                ? `Based on your last ${stats.sample_size} calls: ${Math.round(stats.answer_rate * 100)}% answered, ${Math.round(stats.avg_duration_seconds)}s average.`
+                : `Based on typical campaigns: ${Math.round(stats.answer_rate * 100)}% answered, ${Math.round(stats.avg_duration_seconds)}s average.`}
+            </p>
+          )}
+        </div>
+        {estimate.overage_units > 0 && (
+          <div className="flex items-center gap-2 rounded bg-amber-500/10 p-2 text-amber-700 dark:text-amber-400">
+            <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+            About {estimate.overage_units.toLocaleString()} {unit}s go past your limit
+            {pricing.overage_policy === "overage" ? " and are billed at the overage rate." : "; your admin will be notified."}
+          </div>
+        )}
+        {estimate.blocked_units > 0 && (
+          <div className="flex items-center gap-2 rounded bg-destructive/10 p-2 text-destructive">
+            <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+            Up to {estimate.blocked_units.toLocaleString()} {unit}s may be refused once your limit is reached.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
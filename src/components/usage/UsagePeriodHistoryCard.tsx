@@ -0,0 +1,61 @@
+import { useQuery } from "@tanstack/react-query";
+import { History } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { RESET_PERIOD_LABELS, fetchUsagePeriodHistory, formatUsagePeriod } from "@/lib/usage-periods";
+
+interface UsagePeriodHistoryCardProps {
+  clientId: string;
+}
+
+/** Usage in each closed period per service, newest first. */
+export function UsagePeriodHistoryCard({ clientId }: UsagePeriodHistoryCardProps) {
+  const { data: periods = [], isLoading } = useQuery({
+    queryKey: ["usage-period-history", clientId],
+    queryFn: () => fetchUsagePeriodHistory(clientId),
+  });
+
+  if (isLoading) return <Card><CardContent className="p-6"><Skeleton className="h-24 w-full" /></CardContent></Card>;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base"><History className="h-5 w-5" /> Past Usage Periods</CardTitle>
+        <CardDescription>Usage is recorded here each time a service's limit resets</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {periods.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No periods have closed yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Service</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead className="text-right">Used</TableHead>
+                <TableHead className="text-right">Limit</TableHead>
+                <TableHead className="text-right">Overage</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {periods.map((p) => (
+                <TableRow key={p.id}>
+                  <TableCell className="font-medium">{p.service_name}</TableCell>
+                  <TableCell>
+                    {formatUsagePeriod(p.period_start, p.period_end)}
+                    <Badge variant="outline" className="ml-2 text-[10px]">{RESET_PERIOD_LABELS[p.reset_period]}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{p.usage_consumed.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{p.usage_limit > 0 ? p.usage_limit.toLocaleString() : "—"}</TableCell>
+                  <TableCell className="text-right">{p.overage_consumed > 0 ? p.overage_consumed.toLocaleString() : "—"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
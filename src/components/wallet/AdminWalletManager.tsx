@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Plus, Wallet } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  ZERO_BALANCE_POLICY_LABELS, fetchWallet, formatWalletAmount, fetchWalletTransactions, grantWalletCredit, updateWalletSettings,
+  type BillingMode, type ZeroBalancePolicy,
+} from "@/lib/wallet";
+import { WalletTransactionsTable } from "./WalletTransactionsTable";
+
+interface AdminWalletManagerProps {
+  clientId: string;
+}
+
+/** Billing mode, low-balance settings and manual credits for one client. */
+export function AdminWalletManager({ clientId }: AdminWalletManagerProps) {
+  const queryClient = useQueryClient();
+  const [creditOpen, setCreditOpen] = useState(false);
+  const [creditAmount, setCreditAmount] = useState("");
+  const [creditNote, setCreditNote] = useState("");
+  const [mode, setMode] = useState<BillingMode>("postpaid");
+  const [threshold, setThreshold] = useState("500");
+  const [policy, setPolicy] = useState<ZeroBalancePolicy>("pause");
+
+  const { data: wallet, isLoading } = useQuery({
+    queryKey: ["client-wallet", clientId],
+    queryFn: () => fetchWallet(clientId),
+  });
+  const { data: transactions = [] } = useQuery({
+    queryKey: ["client-wallet-transactions", clientId],
+    queryFn: () => fetchWalletTransactions(clientId, 50),
+  });
+
+  useEffect(() => {
+    if (!wallet) return;
+    setMode(wallet.billing_mode);
+    setThreshold(String(wallet.low_balance_threshold));
+    setPolicy(wallet.zero_balance_policy);
+  }, [wallet]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["client-wallet", clientId] });
+    queryClient.invalidateQueries({ queryKey: ["client-wallet-transactions", clientId] });
+  };
+
+  const saveSettings = useMutation({
+    mutationFn: () =>
+      updateWalletSettings(clientId, {
+        billing_mode: mode,
+        low_balance_threshold: Number(threshold) || 0,
+        zero_balance_policy: policy,
+      }),
+    onSuccess: () => {
+      invalidate();
+      toast.success("Billing settings saved");
+    },
+    onError: (err: Error) => toast.error(err.message || "Failed to save billing settings"),
+  });
+
+  const grantCredit = useMutation({
+    mutationFn: () => grantWalletCredit(clientId, Number(creditAmount), creditNote.trim()),
+    onSuccess: () => {
+      invalidate();
+      setCreditOpen(false);
+      setCreditAmount("");
+      setCreditNote("");
+      toast.success(Number(creditAmount) > 0 ? "Credit added" : "Balance adjusted");
+    },
+    onError: (err: Error) => toast.error(err.message || "Failed to adjust balance"),
+  });
+
+  if (isLoading) return <Card><CardContent className="p-6"><Skeleton className="h-32 w-full" /></CardContent></Card>;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2"><Wallet className="h-5 w-5" /> Prepaid Wallet</CardTitle>
+          <CardDescription>
+            Balance {formatWalletAmount(wallet?.balance ?? 0)}
+            {wallet?.paused_at && " · usage paused at zero balance"}
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setCreditOpen(true)}><Plus className="mr-2 h-4 w-4" /> Add Credit</Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label>Billing Mode</Label>
+            <Select value={mode} onValueChange={(v) => setMode(v as BillingMode)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="postpaid">Postpaid (monthly invoices)</SelectItem>
+                <SelectItem value="prepaid">Prepaid (wallet)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Low Balance Alert (₹)</Label>
+            <Input type="number" min={0} value={threshold} onChange={(e) => setThreshold(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>At Zero Balance</Label>
+            <Select value={policy} onValueChange={(v) => setPolicy(v as ZeroBalancePolicy)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ZERO_BALANCE_POLICY_LABELS) as ZeroBalancePolicy[]).map((p) => (
+                  <SelectItem key={p} value={p}>{ZERO_BALANCE_POLICY_LABELS[p]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={() => saveSettings.mutate()} disabled={saveSettings.isPending}>
+            {saveSettings.isPending ? "Saving..." : "Save Settings"}
+          </Button>
+        </div>
+      </CardContent>
+      <CardContent className="p-0">
+        <WalletTransactionsTable transactions={transactions} />
+      </CardContent>
+
+      <Dialog open={creditOpen} onOpenChange={setCreditOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Credit</DialogTitle>
+            <DialogDescription>
+              Adds to the client's wallet. Use a negative amount to correct a balance. Every adjustment is logged with your note.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Amount (₹)</Label>
+              <Input type="number" value={creditAmount} onChange={(e) => setCreditAmount(e.target.value)} placeholder="1000" />
+            </div>
+            <div className="space-y-2">
+              <Label>Note</Label>
+              <Textarea value={creditNote} onChange={(e) => setCreditNote(e.target.value)} placeholder="e.g. Bank transfer received 12 Oct" rows={2} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreditOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => grantCredit.mutate()}
+              disabled={grantCredit.isPending || !Number(creditAmount) || !creditNote.trim()}
+            >
+              {grantCredit.isPending ? "Saving..." : "Add Credit"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { AlertTriangle, Plus, Wallet } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle,
+} from "@/components/ui/dialog";
+import { requestPaymentLink } from "@/lib/billing";
+import {
+  createWalletTopUp, fetchWallet, fetchWalletTransactions, forecastWallet, formatWalletAmount,
+} from "@/lib/wallet";
+import { WalletTransactionsTable } from "./WalletTransactionsTable";
+
+interface ClientWalletCardProps {
+  clientId: string;
+}
+
+/** Prepaid balance, burn-rate forecast, top-ups and wallet history; renders nothing for postpaid clients. */
+export function ClientWalletCard({ clientId }: ClientWalletCardProps) {
+  const [topUpOpen, setTopUpOpen] = useState(false);
+  const [topUpAmount, setTopUpAmount] = useState("");
+  const { data: wallet, isLoading } = useQuery({
+    queryKey: ["client-wallet", clientId],
+    queryFn: () => fetchWallet(clientId),
+  });
+  const { data: transactions = [] } = useQuery({
+    queryKey: ["client-wallet-transactions", clientId],
+    queryFn: () => fetchWalletTransactions(clientId),
+    enabled: wallet?.billing_mode === "prepaid",
+  });
+
+  // The wallet is credited by the payment webhook once the checkout completes
+  const topUp = useMutation({
+    mutationFn: async () => requestPaymentLink(await createWalletTopUp(Number(topUpAmount))),
+    onSuccess: (url) => {
+      window.location.href = url;
+    },
+    onError: (err: Error) => toast.error(err.message || "Failed to start the top-up"),
+  });
+
+  if (isLoading) return <Card><CardContent className="p-6"><Skeleton className="h-24 w-full" /></CardContent></Card>;
+  if (!wallet || wallet.billing_mode !== "prepaid") return null;
+
+  const forecast = forecastWallet(Number(wallet.balance), transactions);
+  const low = Number(wallet.balance) <= Number(wallet.low_balance_threshold);
+  const topUps = transactions.filter((t) => t.amount > 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2"><Wallet className="h-5 w-5" /> Prepaid Wallet</CardTitle>
+          <CardDescription>Usage is charged to your balance as it happens</CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setTopUpOpen(true)}><Plus className="mr-2 h-4 w-4" /> Top Up</Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {wallet.paused_at && (
+          <div className="flex items-center gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            Your balance is used up. Outbound campaigns and WhatsApp sends are paused until you top up.
+          </div>
+        )}
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div>
+            <p className="text-xs text-muted-foreground">Balance</p>
+            <p className={`text-2xl font-bold ${low ? "text-destructive" : "text-foreground"}`}>{formatWalletAmount(wallet.balance)}</p>
+            <p className="text-xs text-muted-foreground">Alert below {formatWalletAmount(wallet.low_balance_threshold)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Average daily spend (14 days)</p>
+            <p className="text-2xl font-bold text-foreground">{formatWalletAmount(forecast.dailyBurn)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Estimated to last</p>
+            <p className="text-2xl font-bold text-foreground">
+              {forecast.daysRemaining === null ? "—" : `${forecast.daysRemaining} day${forecast.daysRemaining === 1 ? "" : "s"}`}
+            </p>
+            {forecast.depletesOn && (
+              <p className="text-xs text-muted-foreground">Runs out around {format(forecast.depletesOn, "MMM d, yyyy")}</p>
+            )}
+          </div>
+        </div>
+      </CardContent>
+      <CardContent className="p-0">
+        <p className="px-6 pb-2 text-sm font-medium text-foreground">Top-ups & credits</p>
+        <WalletTransactionsTable transactions={topUps.slice(0, 10)} emptyMessage="No top-ups yet." />
+        <p className="px-6 pb-2 pt-4 text-sm font-medium text-foreground">Recent activity</p>
+        <WalletTransactionsTable transactions={transactions.slice(0, 20)} />
+      </CardContent>
+
+      <Dialog open={topUpOpen} onOpenChange={setTopUpOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Top Up Wallet</DialogTitle>
+            <DialogDescription>
+              You'll be taken to the payment page. The amount is added to your balance as soon as the payment
+              goes through; applicable tax is charged on top.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Amount (₹)</Label>
+            <Input type="number" min={1} value={topUpAmount} onChange={(e) => setTopUpAmount(e.target.value)} placeholder="1000" />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTopUpOpen(false)}>Cancel</Button>
+            <Button onClick={() => topUp.mutate()} disabled={topUp.isPending || !(Number(topUpAmount) >= 1)}>
+              {topUp.isPending ? "Opening checkout..." : "Continue to Payment"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,46 @@
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table, TableBody, TableCell, TableHead, TableHeader, TableRow,
+} from "@/components/ui/table";
+import { WALLET_TRANSACTION_LABELS, formatWalletAmount, type WalletTransaction } from "@/lib/wallet";
+
+interface WalletTransactionsTableProps {
+  transactions: WalletTransaction[];
+  emptyMessage?: string;
+}
+
+export function WalletTransactionsTable({ transactions, emptyMessage = "No wallet activity yet." }: WalletTransactionsTableProps) {
+  if (transactions.length === 0) {
+    return <p className="px-6 pb-6 text-sm text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Date</TableHead>
+          <TableHead>Type</TableHead>
+          <TableHead>Details</TableHead>
+          <TableHead className="text-right">Amount</TableHead>
+          <TableHead className="text-right">Balance</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {transactions.map((t) => (
+          <TableRow key={t.id}>
+            <TableCell className="whitespace-nowrap text-muted-foreground">{format(new Date(t.created_at), "MMM d, yyyy HH:mm")}</TableCell>
+            <TableCell>
+              <Badge variant={t.amount >= 0 ? "default" : "secondary"}>{WALLET_TRANSACTION_LABELS[t.transaction_type]}</Badge>
+            </TableCell>
+            <TableCell className="max-w-[280px] truncate text-sm">{t.note || t.reference || "—"}</TableCell>
+            <TableCell className={`text-right font-medium ${t.amount >= 0 ? "text-green-600" : ""}`}>
+              {t.amount >= 0 ? "+" : "−"}{formatWalletAmount(Math.abs(t.amount))}
+            </TableCell>
+            <TableCell className="text-right">{formatWalletAmount(t.balance_after)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
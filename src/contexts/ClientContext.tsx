@@ -26,6 +26,7 @@ interface ClientProfile {
   admin_id: string;
   onboarded_at: string | null;
   allow_admin_raw_access: boolean | null;
+  self_serve_plan_changes?: boolean;
 }
 
 interface AdminBranding {
@@ -34,12 +34,14 @@ export interface CatalogService {
   request_status?: "pending" | "approved" | "rejected" | null;
   request_id?: string;
   // If unlocked, client service info
+  client_service_id?: string;
+  plan_id?: string | null;
   plan_name?: string;
   price_per_unit?: number | null;
   usage_limit?: number;
   usage_consumed?: number;
   reset_period?: string | null;
-  // Available plans (for locked services)
+  // Available plans (to request a locked service or change an unlocked one's plan)
   available_plans: ServicePlan[];
 }
 
@@ -59,7 +61,7 @@ export function useServiceCatalog() {
       { data: requests },
     ] = await Promise.all([
       supabase.from("services").select("id, name, slug, icon_url, description, category, features").eq("is_active", true).neq("slug", "ai-voice-receptionist").neq("slug", "voice-receptionist").order("name"),
-      supabase.from("client_services").select("service_id, is_active, usage_limit, usage_consumed, reset_period, plan_id").eq("client_id", client.id),
+      supabase.from("client_services").select("id, service_id, is_active, usage_limit, usage_consumed, reset_period, plan_id").eq("client_id", client.id),
       supabase.from("service_plans").select("id, plan_name, plan_tier, price_per_unit, monthly_price, usage_limit, features_included, is_active, service_id").eq("is_active", true),
       supabase.from("service_purchase_requests").select("id, service_id, status, created_at").eq("client_id", client.id).in("status", ["pending"]),
     ]);
@@ -103,6 +105,8 @@ export function useServiceCatalog() {
           lock_reason,
           request_status: request?.status as CatalogService["request_status"] ?? null,
           request_id: request?.id,
+          client_service_id: cs?.id,
+          plan_id: cs?.plan_id,
           plan_name: cs?.plan_id ? planNameMap.get(cs.plan_id) : undefined,
           price_per_unit: null,
           usage_limit: cs?.usage_limit,
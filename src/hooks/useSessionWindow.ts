@@ -0,0 +1,14 @@
+import { useEffect, useState } from "react";
+import { getSessionWindow, type SessionWindow } from "@/lib/whatsapp-session";
+
+/** WhatsApp session window that re-evaluates every 30 seconds, so the UI flips to templates when it closes. */
+export function useSessionWindow(lastInboundAt: string | null | undefined): SessionWindow {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  return getSessionWindow(lastInboundAt, now);
+}
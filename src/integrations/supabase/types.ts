@@ -104,6 +104,80 @@ export type Database = {
           },
         ]
       }
+      admin_tax_rates: {
+        Row: {
+          admin_id: string
+          category: Database["public"]["Enums"]["service_category"]
+          rate: number
+        }
+        Insert: {
+          admin_id: string
+          category: Database["public"]["Enums"]["service_category"]
+          rate: number
+        }
+        Update: {
+          admin_id?: string
+          category?: Database["public"]["Enums"]["service_category"]
+          rate?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "admin_tax_rates_admin_id_fkey"
+            columns: ["admin_id"]
+            isOneToOne: false
+            referencedRelation: "admin_tax_settings"
+            referencedColumns: ["admin_id"]
+          },
+        ]
+      }
+      admin_tax_settings: {
+        Row: {
+          address: string | null
+          admin_id: string
+          country_code: string
+          created_at: string
+          default_sac_code: string
+          default_tax_rate: number
+          invoice_prefix: string
+          legal_name: string | null
+          next_invoice_sequence: number
+          state_code: string | null
+          tax_id: string | null
+          tax_regime: string
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          admin_id: string
+          country_code?: string
+          created_at?: string
+          default_sac_code?: string
+          default_tax_rate?: number
+          invoice_prefix?: string
+          legal_name?: string | null
+          next_invoice_sequence?: number
+          state_code?: string | null
+          tax_id?: string | null
+          tax_regime?: string
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          admin_id?: string
+          country_code?: string
+          created_at?: string
+          default_sac_code?: string
+          default_tax_rate?: number
+          invoice_prefix?: string
+          legal_name?: string | null
+          next_invoice_sequence?: number
+          state_code?: string | null
+          tax_id?: string | null
+          tax_regime?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       admins: {
         Row: {
           commission_rate: number | null
@@ -158,6 +232,215 @@ export type Database = {
         }
         Relationships: []
       }
+      ai_chat_messages: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          role: string
+          session_id: string
+          user_id: string | null
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          id?: string
+          role: string
+          session_id: string
+          user_id?: string | null
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          role?: string
+          session_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_chat_messages_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "ai_chat_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ai_chat_sessions: {
+        Row: {
+          chatbot_id: string | null
+          created_at: string
+          id: string
+          status: string
+          visitor_id: string | null
+        }
+        Insert: {
+          chatbot_id?: string | null
+          created_at?: string
+          id?: string
+          status?: string
+          visitor_id?: string | null
+        }
+        Update: {
+          chatbot_id?: string | null
+          created_at?: string
+          id?: string
+          status?: string
+          visitor_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_chat_sessions_chatbot_id_fkey"
+            columns: ["chatbot_id"]
+            isOneToOne: false
+            referencedRelation: "ai_chatbots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ai_chatbots: {
+        Row: {
+          client_id: string | null
+          created_at: string | null
+          id: string
+          is_active: boolean | null
+          name: string
+          system_prompt: string | null
+          temperature: number | null
+          updated_at: string | null
+        }
+        Insert: {
+          client_id?: string | null
+          created_at?: string | null
+          id?: string
+          is_active?: boolean | null
+          name: string
+          system_prompt?: string | null
+          temperature?: number | null
+          updated_at?: string | null
+        }
+        Update: {
+          client_id?: string | null
+          created_at?: string | null
+          id?: string
+          is_active?: boolean | null
+          name?: string
+          system_prompt?: string | null
+          temperature?: number | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_chatbots_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: true
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ai_knowledge: {
+        Row: {
+          chatbot_id: string
+          chunk_count: number
+          content: string | null
+          created_at: string
+          file_path: string | null
+          id: string
+          index_error: string | null
+          index_status: string
+          indexed_at: string | null
+          source_type: string
+          source_url: string | null
+          title: string | null
+        }
+        Insert: {
+          chatbot_id: string
+          chunk_count?: number
+          content?: string | null
+          created_at?: string
+          file_path?: string | null
+          id?: string
+          index_error?: string | null
+          index_status?: string
+          indexed_at?: string | null
+          source_type?: string
+          source_url?: string | null
+          title?: string | null
+        }
+        Update: {
+          chatbot_id?: string
+          chunk_count?: number
+          content?: string | null
+          created_at?: string
+          file_path?: string | null
+          id?: string
+          index_error?: string | null
+          index_status?: string
+          indexed_at?: string | null
+          source_type?: string
+          source_url?: string | null
+          title?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_knowledge_chatbot_id_fkey"
+            columns: ["chatbot_id"]
+            isOneToOne: false
+            referencedRelation: "ai_chatbots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ai_knowledge_chunks: {
+        Row: {
+          chatbot_id: string
+          chunk_index: number
+          content: string
+          created_at: string
+          embedding: string | null
+          id: string
+          knowledge_id: string
+          search_vector: unknown
+        }
+        Insert: {
+          chatbot_id: string
+          chunk_index: number
+          content: string
+          created_at?: string
+          embedding?: string | null
+          id?: string
+          knowledge_id: string
+          search_vector?: never
+        }
+        Update: {
+          chatbot_id?: string
+          chunk_index?: number
+          content?: string
+          created_at?: string
+          embedding?: string | null
+          id?: string
+          knowledge_id?: string
+          search_vector?: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_knowledge_chunks_chatbot_id_fkey"
+            columns: ["chatbot_id"]
+            isOneToOne: false
+            referencedRelation: "ai_chatbots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_knowledge_chunks_knowledge_id_fkey"
+            columns: ["knowledge_id"]
+            isOneToOne: false
+            referencedRelation: "ai_knowledge"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       audit_logs: {
         Row: {
           action: string
@@ -210,6 +493,7 @@ export type Database = {
           id: string
           metadata: Json | null
           phone_number: string
+          provider_call_id: string | null
           recording_url: string | null
           service_id: string | null
           status: Database["public"]["Enums"]["call_status"] | null
@@ -228,6 +512,7 @@ export type Database = {
           id?: string
           metadata?: Json | null
           phone_number: string
+          provider_call_id?: string | null
           recording_url?: string | null
           service_id?: string | null
           status?: Database["public"]["Enums"]["call_status"] | null
@@ -246,6 +531,7 @@ export type Database = {
           id?: string
           metadata?: Json | null
           phone_number?: string
+          provider_call_id?: string | null
           recording_url?: string | null
           service_id?: string | null
           status?: Database["public"]["Enums"]["call_status"] | null
@@ -278,6 +564,7 @@ export type Database = {
       }
       campaign_contacts: {
         Row: {
+          attempt_count: number
           call_log_id: string | null
           call_status: Database["public"]["Enums"]["contact_call_status"] | null
           campaign_id: string
@@ -285,9 +572,16 @@ export type Database = {
           contact_name: string | null
           created_at: string
           id: string
+          last_attempt_at: string | null
+          last_error: string | null
+          last_outcome: string | null
+          next_attempt_at: string | null
           phone_number: string
+          skip_reason: string | null
+          timezone: string | null
         }
         Insert: {
+          attempt_count?: number
           call_log_id?: string | null
           call_status?:
             | Database["public"]["Enums"]["contact_call_status"]
@@ -297,9 +591,16 @@ export type Database = {
           contact_name?: string | null
           created_at?: string
           id?: string
+          last_attempt_at?: string | null
+          last_error?: string | null
+          last_outcome?: string | null
+          next_attempt_at?: string | null
           phone_number: string
+          skip_reason?: string | null
+          timezone?: string | null
         }
         Update: {
+          attempt_count?: number
           call_log_id?: string | null
           call_status?:
             | Database["public"]["Enums"]["contact_call_status"]
@@ -309,7 +610,13 @@ export type Database = {
           contact_name?: string | null
           created_at?: string
           id?: string
+          last_attempt_at?: string | null
+          last_error?: string | null
+          last_outcome?: string | null
+          next_attempt_at?: string | null
           phone_number?: string
+          skip_reason?: string | null
+          timezone?: string | null
         }
         Relationships: [
           {
@@ -335,54 +642,185 @@ export type Database = {
           },
         ]
       }
+      chat_handoff_settings: {
+        Row: {
+          chatbot_id: string
+          enabled: boolean
+          explicit_request: boolean
+          first_response_sla_minutes: number
+          keywords: string[]
+          max_unknown_answers: number
+          negative_sentiment: boolean
+          resolution_sla_minutes: number
+          sentiment_threshold: number
+          updated_at: string
+        }
+        Insert: {
+          chatbot_id: string
+          enabled?: boolean
+          explicit_request?: boolean
+          first_response_sla_minutes?: number
+          keywords?: string[]
+          max_unknown_answers?: number
+          negative_sentiment?: boolean
+          resolution_sla_minutes?: number
+          sentiment_threshold?: number
+          updated_at?: string
+        }
+        Update: {
+          chatbot_id?: string
+          enabled?: boolean
+          explicit_request?: boolean
+          first_response_sla_minutes?: number
+          keywords?: string[]
+          max_unknown_answers?: number
+          negative_sentiment?: boolean
+          resolution_sla_minutes?: number
+          sentiment_threshold?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_handoff_settings_chatbot_id_fkey"
+            columns: ["chatbot_id"]
+            isOneToOne: true
+            referencedRelation: "ai_chatbots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_handoffs: {
+        Row: {
+          assigned_to: string | null
+          chatbot_id: string
+          claimed_at: string | null
+          created_at: string
+          first_response_at: string | null
+          first_response_due_at: string
+          id: string
+          reason: string
+          resolution_due_at: string
+          resolved_at: string | null
+          resolved_by: string | null
+          session_id: string
+          status: string
+          transfer_count: number
+          trigger_detail: string | null
+          updated_at: string
+        }
+        Insert: {
+          assigned_to?: string | null
+          chatbot_id: string
+          claimed_at?: string | null
+          created_at?: string
+          first_response_at?: string | null
+          first_response_due_at: string
+          id?: string
+          reason: string
+          resolution_due_at: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          session_id: string
+          status?: string
+          transfer_count?: number
+          trigger_detail?: string | null
+          updated_at?: string
+        }
+        Update: {
+          assigned_to?: string | null
+          chatbot_id?: string
+          claimed_at?: string | null
+          created_at?: string
+          first_response_at?: string | null
+          first_response_due_at?: string
+          id?: string
+          reason?: string
+          resolution_due_at?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          session_id?: string
+          status?: string
+          transfer_count?: number
+          trigger_detail?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_handoffs_chatbot_id_fkey"
+            columns: ["chatbot_id"]
+            isOneToOne: false
+            referencedRelation: "ai_chatbots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_handoffs_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "ai_chat_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       client_services: {
         Row: {
           assigned_at: string | null
           assigned_by: string | null
           client_id: string
           created_at: string
+          current_period_end: string | null
+          current_period_start: string | null
           expires_at: string | null
           id: string
           is_active: boolean | null
           last_reset_at: string | null
+          overage_consumed: number
           plan_id: string | null
           reset_period: Database["public"]["Enums"]["reset_period"] | null
           service_id: string
           updated_at: string
           usage_consumed: number | null
           usage_limit: number
+          usage_reserved: number
         }
         Insert: {
           assigned_at?: string | null
           assigned_by?: string | null
           client_id: string
           created_at?: string
+          current_period_end?: string | null
+          current_period_start?: string | null
           expires_at?: string | null
           id?: string
           is_active?: boolean | null
           last_reset_at?: string | null
+          overage_consumed?: number
           plan_id?: string | null
           reset_period?: Database["public"]["Enums"]["reset_period"] | null
           service_id: string
           updated_at?: string
           usage_consumed?: number | null
           usage_limit?: number
+          usage_reserved?: number
         }
         Update: {
           assigned_at?: string | null
           assigned_by?: string | null
           client_id?: string
           created_at?: string
+          current_period_end?: string | null
+          current_period_start?: string | null
           expires_at?: string | null
           id?: string
           is_active?: boolean | null
           last_reset_at?: string | null
+          overage_consumed?: number
           plan_id?: string | null
           reset_period?: Database["public"]["Enums"]["reset_period"] | null
           service_id?: string
           updated_at?: string
           usage_consumed?: number | null
           usage_limit?: number
+          usage_reserved?: number
         }
         Relationships: [
           {
@@ -415,76 +853,175 @@ export type Database = {
           },
         ]
       }
-      client_workflow_credentials: {
+      client_telephony_accounts: {
         Row: {
-          client_workflow_instance_id: string
-          configured_at: string | null
+          account_sid: string
+          answer_url: string | null
+          api_key: string
+          api_secret: string | null
+          client_id: string
           created_at: string
-          credential_name: string
-          credential_status:
-            | Database["public"]["Enums"]["credential_status"]
-            | null
-          credential_type: string
-          expires_at: string | null
+          from_number: string
           id: string
-          last_validated_at: string | null
-          n8n_credential_id: string | null
+          is_active: boolean
+          provider: string
           updated_at: string
+          webhook_secret: string
         }
         Insert: {
-          client_workflow_instance_id: string
-          configured_at?: string | null
+          account_sid: string
+          answer_url?: string | null
+          api_key: string
+          api_secret?: string | null
+          client_id: string
           created_at?: string
-          credential_name: string
-          credential_status?:
-            | Database["public"]["Enums"]["credential_status"]
-            | null
-          credential_type: string
-          expires_at?: string | null
+          from_number: string
           id?: string
-          last_validated_at?: string | null
-          n8n_credential_id?: string | null
+          is_active?: boolean
+          provider: string
           updated_at?: string
+          webhook_secret: string
         }
         Update: {
-          client_workflow_instance_id?: string
-          configured_at?: string | null
+          account_sid?: string
+          answer_url?: string | null
+          api_key?: string
+          api_secret?: string | null
+          client_id?: string
           created_at?: string
-          credential_name?: string
-          credential_status?:
-            | Database["public"]["Enums"]["credential_status"]
-            | null
-          credential_type?: string
-          expires_at?: string | null
+          from_number?: string
           id?: string
-          last_validated_at?: string | null
-          n8n_credential_id?: string | null
+          is_active?: boolean
+          provider?: string
           updated_at?: string
+          webhook_secret?: string
         }
         Relationships: [
           {
-            foreignKeyName: "client_workflow_credentials_client_workflow_instance_id_fkey"
-            columns: ["client_workflow_instance_id"]
+            foreignKeyName: "client_telephony_accounts_client_id_fkey"
+            columns: ["client_id"]
             isOneToOne: false
-            referencedRelation: "client_workflow_instances"
+            referencedRelation: "clients"
             referencedColumns: ["id"]
           },
         ]
       }
-      client_workflow_instances: {
+      client_wallets: {
         Row: {
+          balance: number
+          billing_mode: string
           client_id: string
           created_at: string
-          created_by: string | null
-          custom_config: Json | null
-          error_message: string | null
-          execution_count: number | null
-          id: string
-          is_active: boolean | null
+          low_balance_notified_at: string | null
+          low_balance_threshold: number
+          paused_at: string | null
+          updated_at: string
+          zero_balance_policy: string
+        }
+        Insert: {
+          balance?: number
+          billing_mode?: string
+          client_id: string
+          created_at?: string
+          low_balance_notified_at?: string | null
+          low_balance_threshold?: number
+          paused_at?: string | null
+          updated_at?: string
+          zero_balance_policy?: string
+        }
+        Update: {
+          balance?: number
+          billing_mode?: string
+          client_id?: string
+          created_at?: string
+          low_balance_notified_at?: string | null
+          low_balance_threshold?: number
+          paused_at?: string | null
+          updated_at?: string
+          zero_balance_policy?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_wallets_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: true
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      client_workflow_credentials: {
+        Row: {
+          client_workflow_instance_id: string
+          configured_at: string | null
+          created_at: string
+          credential_name: string
+          credential_status:
+            | Database["public"]["Enums"]["credential_status"]
+            | null
+          credential_type: string
+          expires_at: string | null
+          id: string
+          last_validated_at: string | null
+          n8n_credential_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          client_workflow_instance_id: string
+          configured_at?: string | null
+          created_at?: string
+          credential_name: string
+          credential_status?:
+            | Database["public"]["Enums"]["credential_status"]
+            | null
+          credential_type: string
+          expires_at?: string | null
+          id?: string
+          last_validated_at?: string | null
+          n8n_credential_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          client_workflow_instance_id?: string
+          configured_at?: string | null
+          created_at?: string
+          credential_name?: string
+          credential_status?:
+            | Database["public"]["Enums"]["credential_status"]
+            | null
+          credential_type?: string
+          expires_at?: string | null
+          id?: string
+          last_validated_at?: string | null
+          n8n_credential_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_workflow_credentials_client_workflow_instance_id_fkey"
+            columns: ["client_workflow_instance_id"]
+            isOneToOne: false
+            referencedRelation: "client_workflow_instances"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      client_workflow_instances: {
+        Row: {
+          client_id: string
+          created_at: string
+          created_by: string | null
+          custom_config: Json | null
+          error_message: string | null
+          execution_count: number | null
+          id: string
+          is_active: boolean | null
           last_executed_at: string | null
           n8n_workflow_id: string
+          provisioned_at: string | null
           service_id: string
           status: Database["public"]["Enums"]["workflow_status"] | null
+          template_version: string | null
           test_webhook_url: string | null
           updated_at: string
           webhook_url: string | null
@@ -502,8 +1039,10 @@ export type Database = {
           is_active?: boolean | null
           last_executed_at?: string | null
           n8n_workflow_id: string
+          provisioned_at?: string | null
           service_id: string
           status?: Database["public"]["Enums"]["workflow_status"] | null
+          template_version?: string | null
           test_webhook_url?: string | null
           updated_at?: string
           webhook_url?: string | null
@@ -521,8 +1060,10 @@ export type Database = {
           is_active?: boolean | null
           last_executed_at?: string | null
           n8n_workflow_id?: string
+          provisioned_at?: string | null
           service_id?: string
           status?: Database["public"]["Enums"]["workflow_status"] | null
+          template_version?: string | null
           test_webhook_url?: string | null
           updated_at?: string
           webhook_url?: string | null
@@ -557,6 +1098,9 @@ export type Database = {
         Row: {
           admin_id: string
           allow_admin_raw_access: boolean | null
+          billing_address: string | null
+          billing_country_code: string
+          billing_state_code: string | null
           company_name: string
           company_size: Database["public"]["Enums"]["company_size"] | null
           created_at: string
@@ -565,6 +1109,8 @@ export type Database = {
           is_active: boolean
           notification_preferences: Json | null
           onboarded_at: string | null
+          self_serve_plan_changes: boolean
+          tax_id: string | null
           updated_at: string
           user_id: string
           website: string | null
@@ -572,6 +1118,9 @@ export type Database = {
         Insert: {
           admin_id: string
           allow_admin_raw_access?: boolean | null
+          billing_address?: string | null
+          billing_country_code?: string
+          billing_state_code?: string | null
           company_name: string
           company_size?: Database["public"]["Enums"]["company_size"] | null
           created_at?: string
@@ -580,6 +1129,8 @@ export type Database = {
           is_active?: boolean
           notification_preferences?: Json | null
           onboarded_at?: string | null
+          self_serve_plan_changes?: boolean
+          tax_id?: string | null
           updated_at?: string
           user_id: string
           website?: string | null
@@ -587,6 +1138,9 @@ export type Database = {
         Update: {
           admin_id?: string
           allow_admin_raw_access?: boolean | null
+          billing_address?: string | null
+          billing_country_code?: string
+          billing_state_code?: string | null
           company_name?: string
           company_size?: Database["public"]["Enums"]["company_size"] | null
           created_at?: string
@@ -595,6 +1149,8 @@ export type Database = {
           is_active?: boolean
           notification_preferences?: Json | null
           onboarded_at?: string | null
+          self_serve_plan_changes?: boolean
+          tax_id?: string | null
           updated_at?: string
           user_id?: string
           website?: string | null
@@ -648,6 +1204,95 @@ export type Database = {
           },
         ]
       }
+      dunning_settings: {
+        Row: {
+          client_id: string
+          created_at: string
+          email_reminders: boolean
+          enabled: boolean
+          grace_days: number
+          reminder_offsets: number[]
+          suspend_services: boolean
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          client_id: string
+          created_at?: string
+          email_reminders?: boolean
+          enabled?: boolean
+          grace_days?: number
+          reminder_offsets?: number[]
+          suspend_services?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          client_id?: string
+          created_at?: string
+          email_reminders?: boolean
+          enabled?: boolean
+          grace_days?: number
+          reminder_offsets?: number[]
+          suspend_services?: boolean
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dunning_settings_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: true
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      dunning_suspensions: {
+        Row: {
+          campaign_ids: string[]
+          client_id: string
+          client_service_ids: string[]
+          id: string
+          invoice_id: string | null
+          restored_at: string | null
+          suspended_at: string
+        }
+        Insert: {
+          campaign_ids?: string[]
+          client_id: string
+          client_service_ids?: string[]
+          id?: string
+          invoice_id?: string | null
+          restored_at?: string | null
+          suspended_at?: string
+        }
+        Update: {
+          campaign_ids?: string[]
+          client_id?: string
+          client_service_ids?: string[]
+          id?: string
+          invoice_id?: string | null
+          restored_at?: string | null
+          suspended_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dunning_suspensions_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dunning_suspensions_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       error_logs: {
         Row: {
           created_at: string | null
@@ -684,36 +1329,269 @@ export type Database = {
         }
         Relationships: []
       }
+      inbound_agents: {
+        Row: {
+          created_at: string | null
+          greeting_message: string | null
+          id: string
+          metadata: Json | null
+          model: string | null
+          name: string
+          number_id: string
+          owner_user_id: string
+          system_prompt: string | null
+          tone: string | null
+          updated_at: string | null
+          voice_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          greeting_message?: string | null
+          id?: string
+          metadata?: Json | null
+          model?: string | null
+          name: string
+          number_id: string
+          owner_user_id: string
+          system_prompt?: string | null
+          tone?: string | null
+          updated_at?: string | null
+          voice_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          greeting_message?: string | null
+          id?: string
+          metadata?: Json | null
+          model?: string | null
+          name?: string
+          number_id?: string
+          owner_user_id?: string
+          system_prompt?: string | null
+          tone?: string | null
+          updated_at?: string | null
+          voice_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inbound_agents_number_id_fkey"
+            columns: ["number_id"]
+            isOneToOne: true
+            referencedRelation: "inbound_numbers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inbound_call_logs: {
+        Row: {
+          agent_id: string | null
+          call_status: string | null
+          caller_number: string | null
+          created_at: string | null
+          duration: number | null
+          id: string
+          is_lead: boolean | null
+          number_id: string
+          owner_user_id: string
+          recording_url: string | null
+          summary: string | null
+          transcript: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          agent_id?: string | null
+          call_status?: string | null
+          caller_number?: string | null
+          created_at?: string | null
+          duration?: number | null
+          id?: string
+          is_lead?: boolean | null
+          number_id: string
+          owner_user_id: string
+          recording_url?: string | null
+          summary?: string | null
+          transcript?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          agent_id?: string | null
+          call_status?: string | null
+          caller_number?: string | null
+          created_at?: string | null
+          duration?: number | null
+          id?: string
+          is_lead?: boolean | null
+          number_id?: string
+          owner_user_id?: string
+          recording_url?: string | null
+          summary?: string | null
+          transcript?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inbound_call_logs_agent_id_fkey"
+            columns: ["agent_id"]
+            isOneToOne: false
+            referencedRelation: "inbound_agents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inbound_call_logs_number_id_fkey"
+            columns: ["number_id"]
+            isOneToOne: false
+            referencedRelation: "inbound_numbers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inbound_numbers: {
+        Row: {
+          assigned_user_id: string | null
+          country_code: string | null
+          created_at: string | null
+          id: string
+          label: string | null
+          metadata: Json | null
+          phone_number: string
+          provider: string | null
+          status: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          assigned_user_id?: string | null
+          country_code?: string | null
+          created_at?: string | null
+          id?: string
+          label?: string | null
+          metadata?: Json | null
+          phone_number: string
+          provider?: string | null
+          status?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          assigned_user_id?: string | null
+          country_code?: string | null
+          created_at?: string | null
+          id?: string
+          label?: string | null
+          metadata?: Json | null
+          phone_number?: string
+          provider?: string | null
+          status?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      invoice_dunning_steps: {
+        Row: {
+          client_id: string
+          created_at: string
+          email_error: string | null
+          email_status: string
+          emailed_at: string | null
+          id: string
+          invoice_id: string
+          offset_days: number
+          step: string
+        }
+        Insert: {
+          client_id: string
+          created_at?: string
+          email_error?: string | null
+          email_status?: string
+          emailed_at?: string | null
+          id?: string
+          invoice_id: string
+          offset_days?: number
+          step: string
+        }
+        Update: {
+          client_id?: string
+          created_at?: string
+          email_error?: string | null
+          email_status?: string
+          emailed_at?: string | null
+          id?: string
+          invoice_id?: string
+          offset_days?: number
+          step?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_dunning_steps_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_dunning_steps_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       invoice_items: {
         Row: {
+          cgst_amount: number
           created_at: string
           description: string
+          hsn_sac_code: string | null
           id: string
+          igst_amount: number
           invoice_id: string
+          line_type: string | null
           quantity: number | null
           service_id: string | null
+          sgst_amount: number
+          tax_amount: number
+          tax_rate: number
+          tax_treatment: string | null
           total_price: number
           unit_price: number
+          vat_amount: number
         }
         Insert: {
+          cgst_amount?: number
           created_at?: string
           description: string
+          hsn_sac_code?: string | null
           id?: string
+          igst_amount?: number
           invoice_id: string
+          line_type?: string | null
           quantity?: number | null
           service_id?: string | null
+          sgst_amount?: number
+          tax_amount?: number
+          tax_rate?: number
+          tax_treatment?: string | null
           total_price: number
           unit_price: number
+          vat_amount?: number
         }
         Update: {
+          cgst_amount?: number
           created_at?: string
           description?: string
+          hsn_sac_code?: string | null
           id?: string
+          igst_amount?: number
           invoice_id?: string
+          line_type?: string | null
           quantity?: number | null
           service_id?: string | null
+          sgst_amount?: number
+          tax_amount?: number
+          tax_rate?: number
+          tax_treatment?: string | null
           total_price?: number
           unit_price?: number
+          vat_amount?: number
         }
         Relationships: [
           {
@@ -732,54 +1610,164 @@ export type Database = {
           },
         ]
       }
-      invoices: {
+      invoice_payments: {
         Row: {
-          admin_id: string | null
+          amount: number
+          created_at: string
+          currency: string | null
+          id: string
+          invoice_id: string
+          kind: string
+          payment_id: string | null
+          provider: string
+          transaction_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          currency?: string | null
+          id?: string
+          invoice_id: string
+          kind: string
+          payment_id?: string | null
+          provider: string
+          transaction_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          currency?: string | null
+          id?: string
+          invoice_id?: string
+          kind?: string
+          payment_id?: string | null
+          provider?: string
+          transaction_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_payments_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          admin_id: string | null
+          amount_paid: number
+          amount_refunded: number
+          billing_period_end: string | null
+          billing_period_start: string | null
           client_id: string | null
           created_at: string
+          customer_address: string | null
+          customer_tax_id: string | null
+          discount_amount: number
           due_date: string | null
           id: string
           invoice_date: string
           invoice_number: string
+          invoice_sequence: number | null
+          is_auto_generated: boolean
           notes: string | null
           paid_at: string | null
+          payment_link_amount: number | null
+          payment_link_expires_at: string | null
+          payment_link_reference: string | null
+          payment_link_url: string | null
           payment_method: string | null
+          payment_provider: string | null
+          place_of_supply: string | null
+          reverse_charge: boolean
           status: Database["public"]["Enums"]["invoice_status"] | null
           subtotal: number
+          supplier_address: string | null
+          supplier_legal_name: string | null
+          supplier_state_code: string | null
+          supplier_tax_id: string | null
           tax_amount: number | null
+          tax_treatment: string | null
           total_amount: number
+          wallet_top_up: boolean
         }
         Insert: {
           admin_id?: string | null
+          amount_paid?: number
+          amount_refunded?: number
+          billing_period_end?: string | null
+          billing_period_start?: string | null
           client_id?: string | null
           created_at?: string
+          customer_address?: string | null
+          customer_tax_id?: string | null
+          discount_amount?: number
           due_date?: string | null
           id?: string
           invoice_date?: string
           invoice_number: string
+          invoice_sequence?: number | null
+          is_auto_generated?: boolean
           notes?: string | null
           paid_at?: string | null
+          payment_link_amount?: number | null
+          payment_link_expires_at?: string | null
+          payment_link_reference?: string | null
+          payment_link_url?: string | null
           payment_method?: string | null
+          payment_provider?: string | null
+          place_of_supply?: string | null
+          reverse_charge?: boolean
           status?: Database["public"]["Enums"]["invoice_status"] | null
           subtotal?: number
+          supplier_address?: string | null
+          supplier_legal_name?: string | null
+          supplier_state_code?: string | null
+          supplier_tax_id?: string | null
           tax_amount?: number | null
+          tax_treatment?: string | null
           total_amount?: number
+          wallet_top_up?: boolean
         }
         Update: {
           admin_id?: string | null
+          amount_paid?: number
+          amount_refunded?: number
+          billing_period_end?: string | null
+          billing_period_start?: string | null
           client_id?: string | null
           created_at?: string
+          customer_address?: string | null
+          customer_tax_id?: string | null
+          discount_amount?: number
           due_date?: string | null
           id?: string
           invoice_date?: string
           invoice_number?: string
+          invoice_sequence?: number | null
+          is_auto_generated?: boolean
           notes?: string | null
           paid_at?: string | null
+          payment_link_amount?: number | null
+          payment_link_expires_at?: string | null
+          payment_link_reference?: string | null
+          payment_link_url?: string | null
           payment_method?: string | null
+          payment_provider?: string | null
+          place_of_supply?: string | null
+          reverse_charge?: boolean
           status?: Database["public"]["Enums"]["invoice_status"] | null
           subtotal?: number
+          supplier_address?: string | null
+          supplier_legal_name?: string | null
+          supplier_state_code?: string | null
+          supplier_tax_id?: string | null
           tax_amount?: number | null
+          tax_treatment?: string | null
           total_amount?: number
+          wallet_top_up?: boolean
         }
         Relationships: [
           {
@@ -982,6 +1970,248 @@ export type Database = {
         }
         Relationships: []
       }
+      outbound_call_logs: {
+        Row: {
+          agent: string | null
+          bot_id: string | null
+          call_status: string | null
+          call_type: string | null
+          call_url: string | null
+          contact_id: string | null
+          created_at: string | null
+          duration: number | null
+          end_reason: string | null
+          ended_at: string | null
+          id: string
+          is_lead: boolean | null
+          list_id: string | null
+          name: string | null
+          owner_user_id: string
+          phone: string
+          scheduled_call_id: string | null
+          scheduled_list_id: string | null
+          started_at: string | null
+          transcript: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          agent?: string | null
+          bot_id?: string | null
+          call_status?: string | null
+          call_type?: string | null
+          call_url?: string | null
+          contact_id?: string | null
+          created_at?: string | null
+          duration?: number | null
+          end_reason?: string | null
+          ended_at?: string | null
+          id?: string
+          is_lead?: boolean | null
+          list_id?: string | null
+          name?: string | null
+          owner_user_id: string
+          phone: string
+          scheduled_call_id?: string | null
+          scheduled_list_id?: string | null
+          started_at?: string | null
+          transcript?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          agent?: string | null
+          bot_id?: string | null
+          call_status?: string | null
+          call_type?: string | null
+          call_url?: string | null
+          contact_id?: string | null
+          created_at?: string | null
+          duration?: number | null
+          end_reason?: string | null
+          ended_at?: string | null
+          id?: string
+          is_lead?: boolean | null
+          list_id?: string | null
+          name?: string | null
+          owner_user_id?: string
+          phone?: string
+          scheduled_call_id?: string | null
+          scheduled_list_id?: string | null
+          started_at?: string | null
+          transcript?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "outbound_call_logs_bot_id_fkey"
+            columns: ["bot_id"]
+            isOneToOne: false
+            referencedRelation: "outboundagents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "outbound_call_logs_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "outbound_contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "outbound_call_logs_list_id_fkey"
+            columns: ["list_id"]
+            isOneToOne: false
+            referencedRelation: "outbound_contact_lists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "outbound_call_logs_scheduled_call_id_fkey"
+            columns: ["scheduled_call_id"]
+            isOneToOne: false
+            referencedRelation: "outbound_scheduled_calls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "outbound_call_logs_scheduled_list_id_fkey"
+            columns: ["scheduled_list_id"]
+            isOneToOne: false
+            referencedRelation: "outbound_scheduled_calls"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      outbound_contact_lists: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          owner_user_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          owner_user_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          owner_user_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      outbound_contacts: {
+        Row: {
+          created_at: string
+          email: string | null
+          extra_data: Json
+          id: string
+          list_id: string
+          name: string
+          phone_number: string
+          suppressed_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          extra_data?: Json
+          id?: string
+          list_id: string
+          name: string
+          phone_number: string
+          suppressed_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          extra_data?: Json
+          id?: string
+          list_id?: string
+          name?: string
+          phone_number?: string
+          suppressed_at?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "outbound_contacts_list_id_fkey"
+            columns: ["list_id"]
+            isOneToOne: false
+            referencedRelation: "outbound_contact_lists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      outbound_scheduled_calls: {
+        Row: {
+          bot_id: string | null
+          created_at: string | null
+          id: string
+          list_id: string | null
+          owner_user_id: string
+          scheduled_at: string
+          status: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          bot_id?: string | null
+          created_at?: string | null
+          id?: string
+          list_id?: string | null
+          owner_user_id: string
+          scheduled_at: string
+          status?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          bot_id?: string | null
+          created_at?: string | null
+          id?: string
+          list_id?: string | null
+          owner_user_id?: string
+          scheduled_at?: string
+          status?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "outbound_scheduled_calls_bot_id_fkey"
+            columns: ["bot_id"]
+            isOneToOne: false
+            referencedRelation: "outboundagents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "outbound_scheduled_calls_list_id_fkey"
+            columns: ["list_id"]
+            isOneToOne: false
+            referencedRelation: "outbound_contact_lists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      phone_timezone_prefixes: {
+        Row: {
+          prefix: string
+          timezone: string
+        }
+        Insert: {
+          prefix: string
+          timezone: string
+        }
+        Update: {
+          prefix?: string
+          timezone?: string
+        }
+        Relationships: []
+      }
       platform_settings: {
         Row: {
           id: string
@@ -1042,6 +2272,103 @@ export type Database = {
         }
         Relationships: []
       }
+      service_plan_changes: {
+        Row: {
+          applied_at: string | null
+          client_id: string
+          client_service_id: string
+          created_at: string
+          direction: string
+          effective_at: string
+          from_plan_id: string | null
+          id: string
+          invoice_item_id: string | null
+          proration_amount: number
+          requested_by: string | null
+          requested_by_role: string
+          service_id: string
+          status: string
+          to_plan_id: string
+        }
+        Insert: {
+          applied_at?: string | null
+          client_id: string
+          client_service_id: string
+          created_at?: string
+          direction: string
+          effective_at: string
+          from_plan_id?: string | null
+          id?: string
+          invoice_item_id?: string | null
+          proration_amount?: number
+          requested_by?: string | null
+          requested_by_role: string
+          service_id: string
+          status?: string
+          to_plan_id: string
+        }
+        Update: {
+          applied_at?: string | null
+          client_id?: string
+          client_service_id?: string
+          created_at?: string
+          direction?: string
+          effective_at?: string
+          from_plan_id?: string | null
+          id?: string
+          invoice_item_id?: string | null
+          proration_amount?: number
+          requested_by?: string | null
+          requested_by_role?: string
+          service_id?: string
+          status?: string
+          to_plan_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "service_plan_changes_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "service_plan_changes_client_service_id_fkey"
+            columns: ["client_service_id"]
+            isOneToOne: false
+            referencedRelation: "client_services"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "service_plan_changes_from_plan_id_fkey"
+            columns: ["from_plan_id"]
+            isOneToOne: false
+            referencedRelation: "service_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "service_plan_changes_invoice_item_id_fkey"
+            columns: ["invoice_item_id"]
+            isOneToOne: false
+            referencedRelation: "invoice_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "service_plan_changes_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "service_plan_changes_to_plan_id_fkey"
+            columns: ["to_plan_id"]
+            isOneToOne: false
+            referencedRelation: "service_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       service_plans: {
         Row: {
           created_at: string
@@ -1049,6 +2376,8 @@ export type Database = {
           id: string
           is_active: boolean
           monthly_price: number | null
+          overage_policy: Database["public"]["Enums"]["overage_policy"]
+          overage_price_per_unit: number | null
           plan_name: string
           plan_tier: Database["public"]["Enums"]["plan_tier"] | null
           price_per_unit: number | null
@@ -1061,6 +2390,8 @@ export type Database = {
           id?: string
           is_active?: boolean
           monthly_price?: number | null
+          overage_policy?: Database["public"]["Enums"]["overage_policy"]
+          overage_price_per_unit?: number | null
           plan_name: string
           plan_tier?: Database["public"]["Enums"]["plan_tier"] | null
           price_per_unit?: number | null
@@ -1073,6 +2404,8 @@ export type Database = {
           id?: string
           is_active?: boolean
           monthly_price?: number | null
+          overage_policy?: Database["public"]["Enums"]["overage_policy"]
+          overage_price_per_unit?: number | null
           plan_name?: string
           plan_tier?: Database["public"]["Enums"]["plan_tier"] | null
           price_per_unit?: number | null
@@ -1169,6 +2502,7 @@ export type Database = {
           created_by: string | null
           description: string | null
           features: Json | null
+          hsn_sac_code: string | null
           icon_url: string | null
           id: string
           is_active: boolean
@@ -1185,6 +2519,7 @@ export type Database = {
           created_by?: string | null
           description?: string | null
           features?: Json | null
+          hsn_sac_code?: string | null
           icon_url?: string | null
           id?: string
           is_active?: boolean
@@ -1201,6 +2536,7 @@ export type Database = {
           created_by?: string | null
           description?: string | null
           features?: Json | null
+          hsn_sac_code?: string | null
           icon_url?: string | null
           id?: string
           is_active?: boolean
@@ -1211,52 +2547,210 @@ export type Database = {
         }
         Relationships: []
       }
-      social_media_posts: {
+      settlement_ledger_entries: {
         Row: {
+          admin_id: string | null
+          amount: number
           client_id: string
-          content: string
           created_at: string
-          engagement_stats: Json | null
-          error_message: string | null
-          hashtags: string[] | null
+          entry_type: string
           id: string
-          media_urls: string[] | null
-          platform: Database["public"]["Enums"]["social_platform"]
-          platform_post_ids: Json | null
-          post_type: Database["public"]["Enums"]["social_post_type"] | null
-          posted_at: string | null
-          scheduled_at: string | null
-          status: Database["public"]["Enums"]["social_post_status"] | null
-          updated_at: string
-          workflow_instance_id: string | null
+          occurred_at: string
+          overage_units: number
+          quantity: number
+          service_id: string | null
+          unit_price: number
+          usage_tracking_id: string
         }
         Insert: {
+          admin_id?: string | null
+          amount: number
           client_id: string
-          content: string
           created_at?: string
-          engagement_stats?: Json | null
-          error_message?: string | null
-          hashtags?: string[] | null
+          entry_type: string
           id?: string
-          media_urls?: string[] | null
-          platform: Database["public"]["Enums"]["social_platform"]
-          platform_post_ids?: Json | null
-          post_type?: Database["public"]["Enums"]["social_post_type"] | null
-          posted_at?: string | null
-          scheduled_at?: string | null
-          status?: Database["public"]["Enums"]["social_post_status"] | null
-          updated_at?: string
-          workflow_instance_id?: string | null
+          occurred_at: string
+          overage_units?: number
+          quantity: number
+          service_id?: string | null
+          unit_price: number
+          usage_tracking_id: string
         }
         Update: {
+          admin_id?: string | null
+          amount?: number
           client_id?: string
-          content?: string
           created_at?: string
-          engagement_stats?: Json | null
-          error_message?: string | null
-          hashtags?: string[] | null
+          entry_type?: string
           id?: string
+          occurred_at?: string
+          overage_units?: number
+          quantity?: number
+          service_id?: string | null
+          unit_price?: number
+          usage_tracking_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "settlement_ledger_entries_admin_id_fkey"
+            columns: ["admin_id"]
+            isOneToOne: false
+            referencedRelation: "admins"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "settlement_ledger_entries_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "settlement_ledger_entries_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "settlement_ledger_entries_usage_tracking_id_fkey"
+            columns: ["usage_tracking_id"]
+            isOneToOne: false
+            referencedRelation: "usage_tracking"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      social_connection_tokens: {
+        Row: {
+          access_token_sealed: string
+          connection_id: string
+          refresh_token_expires_at: string | null
+          refresh_token_sealed: string | null
+          updated_at: string
+        }
+        Insert: {
+          access_token_sealed: string
+          connection_id: string
+          refresh_token_expires_at?: string | null
+          refresh_token_sealed?: string | null
+          updated_at?: string
+        }
+        Update: {
+          access_token_sealed?: string
+          connection_id?: string
+          refresh_token_expires_at?: string | null
+          refresh_token_sealed?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "social_connection_tokens_connection_id_fkey"
+            columns: ["connection_id"]
+            isOneToOne: true
+            referencedRelation: "social_platform_connections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      social_media_brands: {
+        Row: {
+          client_id: string
+          created_at: string | null
+          description: string | null
+          id: string
+          logo_url: string | null
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          client_id: string
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          logo_url?: string | null
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          client_id?: string
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          logo_url?: string | null
+          name?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "social_media_brands_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      social_media_posts: {
+        Row: {
+          attempt_count: number
+          brand_id: string | null
+          client_id: string
+          content: string
+          created_at: string
+          engagement_stats: Json | null
+          error_message: string | null
+          hashtags: string[] | null
+          id: string
+          last_attempt_at: string | null
+          media_urls: string[] | null
+          next_attempt_at: string | null
+          platform: Database["public"]["Enums"]["social_platform"]
+          platform_post_ids: Json | null
+          post_type: Database["public"]["Enums"]["social_post_type"] | null
+          posted_at: string | null
+          scheduled_at: string | null
+          status: Database["public"]["Enums"]["social_post_status"] | null
+          updated_at: string
+          usage_reservation_id: string | null
+          workflow_instance_id: string | null
+        }
+        Insert: {
+          attempt_count?: number
+          brand_id?: string | null
+          client_id: string
+          content: string
+          created_at?: string
+          engagement_stats?: Json | null
+          error_message?: string | null
+          hashtags?: string[] | null
+          id?: string
+          last_attempt_at?: string | null
+          media_urls?: string[] | null
+          next_attempt_at?: string | null
+          platform: Database["public"]["Enums"]["social_platform"]
+          platform_post_ids?: Json | null
+          post_type?: Database["public"]["Enums"]["social_post_type"] | null
+          posted_at?: string | null
+          scheduled_at?: string | null
+          status?: Database["public"]["Enums"]["social_post_status"] | null
+          updated_at?: string
+          usage_reservation_id?: string | null
+          workflow_instance_id?: string | null
+        }
+        Update: {
+          attempt_count?: number
+          brand_id?: string | null
+          client_id?: string
+          content?: string
+          created_at?: string
+          engagement_stats?: Json | null
+          error_message?: string | null
+          hashtags?: string[] | null
+          id?: string
+          last_attempt_at?: string | null
           media_urls?: string[] | null
+          next_attempt_at?: string | null
           platform?: Database["public"]["Enums"]["social_platform"]
           platform_post_ids?: Json | null
           post_type?: Database["public"]["Enums"]["social_post_type"] | null
@@ -1264,9 +2758,17 @@ export type Database = {
           scheduled_at?: string | null
           status?: Database["public"]["Enums"]["social_post_status"] | null
           updated_at?: string
+          usage_reservation_id?: string | null
           workflow_instance_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "social_media_posts_brand_id_fkey"
+            columns: ["brand_id"]
+            isOneToOne: false
+            referencedRelation: "social_media_brands"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "social_media_posts_client_id_fkey"
             columns: ["client_id"]
@@ -1274,6 +2776,13 @@ export type Database = {
             referencedRelation: "clients"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "social_media_posts_usage_reservation_id_fkey"
+            columns: ["usage_reservation_id"]
+            isOneToOne: false
+            referencedRelation: "usage_reservations"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "social_media_posts_workflow_instance_id_fkey"
             columns: ["workflow_instance_id"]
@@ -1283,6 +2792,414 @@ export type Database = {
           },
         ]
       }
+      social_oauth_states: {
+        Row: {
+          brand_id: string
+          client_id: string
+          code_verifier: string | null
+          created_at: string
+          expires_at: string
+          platform: Database["public"]["Enums"]["social_platform"]
+          state: string
+          user_id: string
+        }
+        Insert: {
+          brand_id: string
+          client_id: string
+          code_verifier?: string | null
+          created_at?: string
+          expires_at?: string
+          platform: Database["public"]["Enums"]["social_platform"]
+          state: string
+          user_id: string
+        }
+        Update: {
+          brand_id?: string
+          client_id?: string
+          code_verifier?: string | null
+          created_at?: string
+          expires_at?: string
+          platform?: Database["public"]["Enums"]["social_platform"]
+          state?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "social_oauth_states_brand_id_fkey"
+            columns: ["brand_id"]
+            isOneToOne: false
+            referencedRelation: "social_media_brands"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "social_oauth_states_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      social_platform_connections: {
+        Row: {
+          account_id: string
+          account_name: string | null
+          brand_id: string
+          client_id: string
+          connected_at: string
+          connected_by: string | null
+          id: string
+          last_error: string | null
+          last_refreshed_at: string | null
+          platform: Database["public"]["Enums"]["social_platform"]
+          scopes: string[]
+          status: string
+          token_expires_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          account_id: string
+          account_name?: string | null
+          brand_id: string
+          client_id: string
+          connected_at?: string
+          connected_by?: string | null
+          id?: string
+          last_error?: string | null
+          last_refreshed_at?: string | null
+          platform: Database["public"]["Enums"]["social_platform"]
+          scopes?: string[]
+          status?: string
+          token_expires_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          account_id?: string
+          account_name?: string | null
+          brand_id?: string
+          client_id?: string
+          connected_at?: string
+          connected_by?: string | null
+          id?: string
+          last_error?: string | null
+          last_refreshed_at?: string | null
+          platform?: Database["public"]["Enums"]["social_platform"]
+          scopes?: string[]
+          status?: string
+          token_expires_at?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "social_platform_connections_brand_id_fkey"
+            columns: ["brand_id"]
+            isOneToOne: false
+            referencedRelation: "social_media_brands"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "social_platform_connections_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      suppression_list: {
+        Row: {
+          added_by: string | null
+          admin_id: string | null
+          channel: string
+          client_id: string | null
+          created_at: string
+          id: string
+          phone_number: string
+          reason: string | null
+          scope: Database["public"]["Enums"]["suppression_scope"]
+          source: string
+        }
+        Insert: {
+          added_by?: string | null
+          admin_id?: string | null
+          channel?: string
+          client_id?: string | null
+          created_at?: string
+          id?: string
+          phone_number: string
+          reason?: string | null
+          scope: Database["public"]["Enums"]["suppression_scope"]
+          source?: string
+        }
+        Update: {
+          added_by?: string | null
+          admin_id?: string | null
+          channel?: string
+          client_id?: string | null
+          created_at?: string
+          id?: string
+          phone_number?: string
+          reason?: string | null
+          scope?: Database["public"]["Enums"]["suppression_scope"]
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "suppression_list_admin_id_fkey"
+            columns: ["admin_id"]
+            isOneToOne: false
+            referencedRelation: "admins"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "suppression_list_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      telephony_provider_attempts: {
+        Row: {
+          client_id: string | null
+          created_at: string
+          destination: string
+          error_message: string | null
+          id: string
+          latency_ms: number | null
+          provider: string
+          success: boolean
+        }
+        Insert: {
+          client_id?: string | null
+          created_at?: string
+          destination: string
+          error_message?: string | null
+          id?: string
+          latency_ms?: number | null
+          provider: string
+          success: boolean
+        }
+        Update: {
+          client_id?: string | null
+          created_at?: string
+          destination?: string
+          error_message?: string | null
+          id?: string
+          latency_ms?: number | null
+          provider?: string
+          success?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "telephony_provider_attempts_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      telephony_rates: {
+        Row: {
+          currency: string
+          id: string
+          prefix: string
+          provider: string
+          rate_per_minute: number
+          updated_at: string
+        }
+        Insert: {
+          currency?: string
+          id?: string
+          prefix: string
+          provider: string
+          rate_per_minute: number
+          updated_at?: string
+        }
+        Update: {
+          currency?: string
+          id?: string
+          prefix?: string
+          provider?: string
+          rate_per_minute?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      telephony_routes: {
+        Row: {
+          client_id: string | null
+          country_prefix: string | null
+          created_at: string
+          id: string
+          providers: string[]
+          strategy: string
+          updated_at: string
+        }
+        Insert: {
+          client_id?: string | null
+          country_prefix?: string | null
+          created_at?: string
+          id?: string
+          providers: string[]
+          strategy?: string
+          updated_at?: string
+        }
+        Update: {
+          client_id?: string | null
+          country_prefix?: string | null
+          created_at?: string
+          id?: string
+          providers?: string[]
+          strategy?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "telephony_routes_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      usage_period_history: {
+        Row: {
+          client_id: string
+          client_service_id: string
+          closed_at: string
+          id: string
+          overage_consumed: number
+          period_end: string
+          period_start: string
+          reset_period: Database["public"]["Enums"]["reset_period"]
+          service_id: string
+          usage_consumed: number
+          usage_limit: number
+        }
+        Insert: {
+          client_id: string
+          client_service_id: string
+          closed_at?: string
+          id?: string
+          overage_consumed?: number
+          period_end: string
+          period_start: string
+          reset_period: Database["public"]["Enums"]["reset_period"]
+          service_id: string
+          usage_consumed?: number
+          usage_limit?: number
+        }
+        Update: {
+          client_id?: string
+          client_service_id?: string
+          closed_at?: string
+          id?: string
+          overage_consumed?: number
+          period_end?: string
+          period_start?: string
+          reset_period?: Database["public"]["Enums"]["reset_period"]
+          service_id?: string
+          usage_consumed?: number
+          usage_limit?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "usage_period_history_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "usage_period_history_client_service_id_fkey"
+            columns: ["client_service_id"]
+            isOneToOne: false
+            referencedRelation: "client_services"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "usage_period_history_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      usage_reservations: {
+        Row: {
+          amount: number
+          client_id: string
+          client_service_id: string
+          consumed: number | null
+          created_at: string
+          expires_at: string
+          id: string
+          overage_units: number
+          reference_id: string | null
+          service_id: string
+          settled_at: string | null
+          source: string | null
+          status: string
+        }
+        Insert: {
+          amount: number
+          client_id: string
+          client_service_id: string
+          consumed?: number | null
+          created_at?: string
+          expires_at: string
+          id?: string
+          overage_units?: number
+          reference_id?: string | null
+          service_id: string
+          settled_at?: string | null
+          source?: string | null
+          status?: string
+        }
+        Update: {
+          amount?: number
+          client_id?: string
+          client_service_id?: string
+          consumed?: number | null
+          created_at?: string
+          expires_at?: string
+          id?: string
+          overage_units?: number
+          reference_id?: string | null
+          service_id?: string
+          settled_at?: string | null
+          source?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "usage_reservations_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "usage_reservations_client_service_id_fkey"
+            columns: ["client_service_id"]
+            isOneToOne: false
+            referencedRelation: "client_services"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "usage_reservations_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       usage_tracking: {
         Row: {
           client_id: string
@@ -1354,6 +3271,12 @@ export type Database = {
       }
       voice_campaigns: {
         Row: {
+          agent_settings: Json
+          call_timeout_minutes: number
+          calling_days: string[]
+          calling_hours_end: string
+          calling_hours_start: string
+          calls_per_minute: number
           campaign_name: string
           campaign_type: Database["public"]["Enums"]["campaign_type"] | null
           client_id: string
@@ -1361,7 +3284,15 @@ export type Database = {
           contacts_answered: number | null
           contacts_called: number | null
           created_at: string
+          default_timezone: string
+          holidays: string[]
           id: string
+          max_attempts: number
+          max_concurrent_calls: number
+          paused_at: string | null
+          retry_backoff_minutes: number
+          retry_backoff_multiplier: number
+          retry_on_statuses: string[]
           scheduled_at: string | null
           script: string | null
           started_at: string | null
@@ -1370,6 +3301,12 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          agent_settings?: Json
+          call_timeout_minutes?: number
+          calling_days?: string[]
+          calling_hours_end?: string
+          calling_hours_start?: string
+          calls_per_minute?: number
           campaign_name: string
           campaign_type?: Database["public"]["Enums"]["campaign_type"] | null
           client_id: string
@@ -1377,7 +3314,15 @@ export type Database = {
           contacts_answered?: number | null
           contacts_called?: number | null
           created_at?: string
+          default_timezone?: string
+          holidays?: string[]
           id?: string
+          max_attempts?: number
+          max_concurrent_calls?: number
+          paused_at?: string | null
+          retry_backoff_minutes?: number
+          retry_backoff_multiplier?: number
+          retry_on_statuses?: string[]
           scheduled_at?: string | null
           script?: string | null
           started_at?: string | null
@@ -1386,6 +3331,12 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          agent_settings?: Json
+          call_timeout_minutes?: number
+          calling_days?: string[]
+          calling_hours_end?: string
+          calling_hours_start?: string
+          calls_per_minute?: number
           campaign_name?: string
           campaign_type?: Database["public"]["Enums"]["campaign_type"] | null
           client_id?: string
@@ -1393,26 +3344,122 @@ export type Database = {
           contacts_answered?: number | null
           contacts_called?: number | null
           created_at?: string
+          default_timezone?: string
+          holidays?: string[]
+          id?: string
+          max_attempts?: number
+          max_concurrent_calls?: number
+          paused_at?: string | null
+          retry_backoff_minutes?: number
+          retry_backoff_multiplier?: number
+          retry_on_statuses?: string[]
+          scheduled_at?: string | null
+          script?: string | null
+          started_at?: string | null
+          status?: Database["public"]["Enums"]["campaign_status"] | null
+          total_contacts?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "voice_campaigns_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wallet_transactions: {
+        Row: {
+          amount: number
+          balance_after: number
+          client_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          note: string | null
+          reference: string | null
+          transaction_type: string
+          usage_tracking_id: string | null
+        }
+        Insert: {
+          amount: number
+          balance_after: number
+          client_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          note?: string | null
+          reference?: string | null
+          transaction_type: string
+          usage_tracking_id?: string | null
+        }
+        Update: {
+          amount?: number
+          balance_after?: number
+          client_id?: string
+          created_at?: string
+          created_by?: string | null
           id?: string
-          scheduled_at?: string | null
-          script?: string | null
-          started_at?: string | null
-          status?: Database["public"]["Enums"]["campaign_status"] | null
-          total_contacts?: number | null
-          updated_at?: string
+          note?: string | null
+          reference?: string | null
+          transaction_type?: string
+          usage_tracking_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "voice_campaigns_client_id_fkey"
+            foreignKeyName: "wallet_transactions_client_id_fkey"
             columns: ["client_id"]
             isOneToOne: false
-            referencedRelation: "clients"
+            referencedRelation: "client_wallets"
+            referencedColumns: ["client_id"]
+          },
+          {
+            foreignKeyName: "wallet_transactions_usage_tracking_id_fkey"
+            columns: ["usage_tracking_id"]
+            isOneToOne: true
+            referencedRelation: "usage_tracking"
             referencedColumns: ["id"]
           },
         ]
       }
+      webhook_rejections: {
+        Row: {
+          created_at: string
+          endpoint: string
+          headers: Json | null
+          id: string
+          payload: Json | null
+          reason: string
+          source_ip: string | null
+          workflow_instance_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          endpoint: string
+          headers?: Json | null
+          id?: string
+          payload?: Json | null
+          reason: string
+          source_ip?: string | null
+          workflow_instance_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          endpoint?: string
+          headers?: Json | null
+          id?: string
+          payload?: Json | null
+          reason?: string
+          source_ip?: string | null
+          workflow_instance_id?: string | null
+        }
+        Relationships: []
+      }
       whatsapp_campaigns: {
         Row: {
+          application_id: string | null
           campaign_name: string
           client_id: string
           completed_at: string | null
@@ -1420,12 +3467,18 @@ export type Database = {
           id: string
           message_template: string
           messages_delivered: number | null
+          messages_failed: number
+          messages_read: number
           messages_sent: number | null
           scheduled_at: string | null
           status: Database["public"]["Enums"]["wa_campaign_status"] | null
+          template_language: string | null
+          template_name: string | null
           total_contacts: number | null
+          updated_at: string
         }
         Insert: {
+          application_id?: string | null
           campaign_name: string
           client_id: string
           completed_at?: string | null
@@ -1433,12 +3486,18 @@ export type Database = {
           id?: string
           message_template: string
           messages_delivered?: number | null
+          messages_failed?: number
+          messages_read?: number
           messages_sent?: number | null
           scheduled_at?: string | null
           status?: Database["public"]["Enums"]["wa_campaign_status"] | null
+          template_language?: string | null
+          template_name?: string | null
           total_contacts?: number | null
+          updated_at?: string
         }
         Update: {
+          application_id?: string | null
           campaign_name?: string
           client_id?: string
           completed_at?: string | null
@@ -1446,12 +3505,24 @@ export type Database = {
           id?: string
           message_template?: string
           messages_delivered?: number | null
+          messages_failed?: number
+          messages_read?: number
           messages_sent?: number | null
           scheduled_at?: string | null
           status?: Database["public"]["Enums"]["wa_campaign_status"] | null
+          template_language?: string | null
+          template_name?: string | null
           total_contacts?: number | null
+          updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "whatsapp_campaigns_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "whatsapp_applications"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "whatsapp_campaigns_client_id_fkey"
             columns: ["client_id"]
@@ -1461,62 +3532,159 @@ export type Database = {
           },
         ]
       }
+      whatsapp_chats: {
+        Row: {
+          application_id: string | null
+          client_id: string | null
+          contact_name: string | null
+          created_at: string | null
+          id: string
+          last_inbound_at: string | null
+          last_message: string | null
+          last_message_at: string | null
+          metadata: Json | null
+          phone_number: string
+          status: string | null
+          unread_count: number | null
+          updated_at: string | null
+        }
+        Insert: {
+          application_id?: string | null
+          client_id?: string | null
+          contact_name?: string | null
+          created_at?: string | null
+          id?: string
+          last_inbound_at?: string | null
+          last_message?: string | null
+          last_message_at?: string | null
+          metadata?: Json | null
+          phone_number: string
+          status?: string | null
+          unread_count?: number | null
+          updated_at?: string | null
+        }
+        Update: {
+          application_id?: string | null
+          client_id?: string | null
+          contact_name?: string | null
+          created_at?: string | null
+          id?: string
+          last_inbound_at?: string | null
+          last_message?: string | null
+          last_message_at?: string | null
+          metadata?: Json | null
+          phone_number?: string
+          status?: string | null
+          unread_count?: number | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "whatsapp_chats_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "whatsapp_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "whatsapp_chats_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       whatsapp_messages: {
         Row: {
+          application_id: string | null
+          attempt_count: number
           campaign_id: string | null
           client_id: string
           cost: number | null
           delivered_at: string | null
+          direction: string | null
           error_message: string | null
+          external_id: string | null
           id: string
+          last_attempt_at: string | null
           media_url: string | null
           message_content: string
           message_type: Database["public"]["Enums"]["wa_message_type"] | null
           metadata: Json | null
+          next_attempt_at: string | null
           phone_number: string
           read_at: string | null
+          sender_name: string | null
           sent_at: string | null
           status: Database["public"]["Enums"]["wa_message_status"] | null
           template_name: string | null
+          template_params: Json | null
+          wamid: string | null
           workflow_instance_id: string | null
         }
         Insert: {
+          application_id?: string | null
+          attempt_count?: number
           campaign_id?: string | null
           client_id: string
           cost?: number | null
           delivered_at?: string | null
+          direction?: string | null
           error_message?: string | null
+          external_id?: string | null
           id?: string
+          last_attempt_at?: string | null
           media_url?: string | null
           message_content: string
           message_type?: Database["public"]["Enums"]["wa_message_type"] | null
           metadata?: Json | null
+          next_attempt_at?: string | null
           phone_number: string
           read_at?: string | null
+          sender_name?: string | null
           sent_at?: string | null
           status?: Database["public"]["Enums"]["wa_message_status"] | null
           template_name?: string | null
+          template_params?: Json | null
+          wamid?: string | null
           workflow_instance_id?: string | null
         }
         Update: {
+          application_id?: string | null
+          attempt_count?: number
           campaign_id?: string | null
           client_id?: string
           cost?: number | null
           delivered_at?: string | null
+          direction?: string | null
           error_message?: string | null
+          external_id?: string | null
           id?: string
+          last_attempt_at?: string | null
           media_url?: string | null
           message_content?: string
           message_type?: Database["public"]["Enums"]["wa_message_type"] | null
           metadata?: Json | null
+          next_attempt_at?: string | null
           phone_number?: string
           read_at?: string | null
+          sender_name?: string | null
           sent_at?: string | null
           status?: Database["public"]["Enums"]["wa_message_status"] | null
           template_name?: string | null
+          template_params?: Json | null
+          wamid?: string | null
           workflow_instance_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "whatsapp_messages_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "whatsapp_applications"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "whatsapp_messages_client_id_fkey"
             columns: ["client_id"]
@@ -1533,8 +3701,98 @@ export type Database = {
           },
         ]
       }
+      whatsapp_templates: {
+        Row: {
+          application_id: string | null
+          category: string | null
+          client_id: string | null
+          components: Json | null
+          created_at: string | null
+          created_by: string | null
+          id: string
+          language: string | null
+          name: string
+          status: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          application_id?: string | null
+          category?: string | null
+          client_id?: string | null
+          components?: Json | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          language?: string | null
+          name: string
+          status?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          application_id?: string | null
+          category?: string | null
+          client_id?: string | null
+          components?: Json | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          language?: string | null
+          name?: string
+          status?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "whatsapp_templates_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "whatsapp_applications"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "whatsapp_templates_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      whatsapp_user_access: {
+        Row: {
+          application_id: string | null
+          granted_at: string | null
+          granted_by: string | null
+          id: string
+          user_id: string | null
+        }
+        Insert: {
+          application_id?: string | null
+          granted_at?: string | null
+          granted_by?: string | null
+          id?: string
+          user_id?: string | null
+        }
+        Update: {
+          application_id?: string | null
+          granted_at?: string | null
+          granted_by?: string | null
+          id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "whatsapp_user_access_application_id_fkey"
+            columns: ["application_id"]
+            isOneToOne: false
+            referencedRelation: "whatsapp_applications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       workflow_executions: {
         Row: {
+          attempt: number
           client_id: string | null
           completed_at: string | null
           duration_ms: number | null
@@ -1545,12 +3803,40 @@ export type Database = {
           id: string
           input_data: Json | null
           n8n_execution_id: string | null
+          next_retry_at: string | null
+          node_timings: Json
           output_data: Json | null
+          replayed_by: string | null
+          retry_of: string | null
+          retry_status: string | null
           service_id: string | null
           status: Database["public"]["Enums"]["execution_status"] | null
           workflow_instance_id: string
         }
         Insert: {
+          attempt?: number
+          client_id?: string | null
+          completed_at?: string | null
+          duration_ms?: number | null
+          error_message?: string | null
+          error_stack?: string | null
+          executed_at?: string | null
+          execution_mode?: Database["public"]["Enums"]["execution_mode"] | null
+          id?: string
+          input_data?: Json | null
+          n8n_execution_id?: string | null
+          next_retry_at?: string | null
+          node_timings?: Json
+          output_data?: Json | null
+          replayed_by?: string | null
+          retry_of?: string | null
+          retry_status?: string | null
+          service_id?: string | null
+          status?: Database["public"]["Enums"]["execution_status"] | null
+          workflow_instance_id: string
+        }
+        Update: {
+          attempt?: number
           client_id?: string | null
           completed_at?: string | null
           duration_ms?: number | null
@@ -1561,47 +3847,203 @@ export type Database = {
           id?: string
           input_data?: Json | null
           n8n_execution_id?: string | null
+          next_retry_at?: string | null
+          node_timings?: Json
           output_data?: Json | null
+          replayed_by?: string | null
+          retry_of?: string | null
+          retry_status?: string | null
           service_id?: string | null
           status?: Database["public"]["Enums"]["execution_status"] | null
+          workflow_instance_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_executions_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_executions_retry_of_fkey"
+            columns: ["retry_of"]
+            isOneToOne: false
+            referencedRelation: "workflow_executions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_executions_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_executions_workflow_instance_id_fkey"
+            columns: ["workflow_instance_id"]
+            isOneToOne: false
+            referencedRelation: "client_workflow_instances"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workflow_rollout_instances: {
+        Row: {
+          error_message: string | null
+          from_version: string
+          is_canary: boolean
+          rollout_id: string
+          status: string
+          upgraded_at: string | null
+          workflow_instance_id: string
+        }
+        Insert: {
+          error_message?: string | null
+          from_version: string
+          is_canary?: boolean
+          rollout_id: string
+          status?: string
+          upgraded_at?: string | null
           workflow_instance_id: string
         }
         Update: {
-          client_id?: string | null
-          completed_at?: string | null
-          duration_ms?: number | null
-          error_message?: string | null
-          error_stack?: string | null
-          executed_at?: string | null
-          execution_mode?: Database["public"]["Enums"]["execution_mode"] | null
+          error_message?: string | null
+          from_version?: string
+          is_canary?: boolean
+          rollout_id?: string
+          status?: string
+          upgraded_at?: string | null
+          workflow_instance_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_rollout_instances_rollout_id_fkey"
+            columns: ["rollout_id"]
+            isOneToOne: false
+            referencedRelation: "workflow_rollouts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_rollout_instances_workflow_instance_id_fkey"
+            columns: ["workflow_instance_id"]
+            isOneToOne: false
+            referencedRelation: "client_workflow_instances"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workflow_rollouts: {
+        Row: {
+          baseline_errors: number
+          baseline_executions: number
+          canary_count: number
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          max_error_rate: number
+          min_executions: number
+          observation_minutes: number
+          phase_started_at: string
+          status: string
+          status_reason: string | null
+          template_id: string
+          to_version: string
+        }
+        Insert: {
+          baseline_errors?: number
+          baseline_executions?: number
+          canary_count?: number
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          max_error_rate?: number
+          min_executions?: number
+          observation_minutes?: number
+          phase_started_at?: string
+          status?: string
+          status_reason?: string | null
+          template_id: string
+          to_version: string
+        }
+        Update: {
+          baseline_errors?: number
+          baseline_executions?: number
+          canary_count?: number
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          max_error_rate?: number
+          min_executions?: number
+          observation_minutes?: number
+          phase_started_at?: string
+          status?: string
+          status_reason?: string | null
+          template_id?: string
+          to_version?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_rollouts_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "workflow_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workflow_template_versions: {
+        Row: {
+          changelog: string | null
+          created_at: string
+          created_by: string | null
+          default_config: Json | null
+          id: string
+          master_prompt: string | null
+          n8n_template_workflow_id: string | null
+          required_credentials: string[] | null
+          template_id: string
+          updated_at: string
+          version: string
+          workflow_json: Json | null
+        }
+        Insert: {
+          changelog?: string | null
+          created_at?: string
+          created_by?: string | null
+          default_config?: Json | null
+          id?: string
+          master_prompt?: string | null
+          n8n_template_workflow_id?: string | null
+          required_credentials?: string[] | null
+          template_id: string
+          updated_at?: string
+          version: string
+          workflow_json?: Json | null
+        }
+        Update: {
+          changelog?: string | null
+          created_at?: string
+          created_by?: string | null
+          default_config?: Json | null
           id?: string
-          input_data?: Json | null
-          n8n_execution_id?: string | null
-          output_data?: Json | null
-          service_id?: string | null
-          status?: Database["public"]["Enums"]["execution_status"] | null
-          workflow_instance_id?: string
+          master_prompt?: string | null
+          n8n_template_workflow_id?: string | null
+          required_credentials?: string[] | null
+          template_id?: string
+          updated_at?: string
+          version?: string
+          workflow_json?: Json | null
         }
         Relationships: [
           {
-            foreignKeyName: "workflow_executions_client_id_fkey"
-            columns: ["client_id"]
-            isOneToOne: false
-            referencedRelation: "clients"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "workflow_executions_service_id_fkey"
-            columns: ["service_id"]
-            isOneToOne: false
-            referencedRelation: "services"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "workflow_executions_workflow_instance_id_fkey"
-            columns: ["workflow_instance_id"]
+            foreignKeyName: "workflow_template_versions_template_id_fkey"
+            columns: ["template_id"]
             isOneToOne: false
-            referencedRelation: "client_workflow_instances"
+            referencedRelation: "workflow_templates"
             referencedColumns: ["id"]
           },
         ]
@@ -1609,6 +4051,7 @@ export type Database = {
       workflow_templates: {
         Row: {
           category: string | null
+          changelog: string | null
           created_at: string
           created_by: string | null
           credential_instructions: Json | null
@@ -1618,14 +4061,17 @@ export type Database = {
           master_prompt: string | null
           n8n_template_workflow_id: string | null
           required_credentials: string[] | null
+          retry_policy: Json
           service_id: string
           template_description: string | null
           template_name: string
           updated_at: string
-          version: string | null
+          version: string
+          workflow_json: Json | null
         }
         Insert: {
           category?: string | null
+          changelog?: string | null
           created_at?: string
           created_by?: string | null
           credential_instructions?: Json | null
@@ -1635,14 +4081,17 @@ export type Database = {
           master_prompt?: string | null
           n8n_template_workflow_id?: string | null
           required_credentials?: string[] | null
+          retry_policy?: Json
           service_id: string
           template_description?: string | null
           template_name: string
           updated_at?: string
-          version?: string | null
+          version?: string
+          workflow_json?: Json | null
         }
         Update: {
           category?: string | null
+          changelog?: string | null
           created_at?: string
           created_by?: string | null
           credential_instructions?: Json | null
@@ -1652,11 +4101,13 @@ export type Database = {
           master_prompt?: string | null
           n8n_template_workflow_id?: string | null
           required_credentials?: string[] | null
+          retry_policy?: Json
           service_id?: string
           template_description?: string | null
           template_name?: string
           updated_at?: string
-          version?: string | null
+          version?: string
+          workflow_json?: Json | null
         }
         Relationships: [
           {
@@ -1668,6 +4119,32 @@ export type Database = {
           },
         ]
       }
+      workflow_webhook_secrets: {
+        Row: {
+          rotated_at: string
+          secret: string
+          workflow_instance_id: string
+        }
+        Insert: {
+          rotated_at?: string
+          secret?: string
+          workflow_instance_id: string
+        }
+        Update: {
+          rotated_at?: string
+          secret?: string
+          workflow_instance_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_webhook_secrets_workflow_instance_id_fkey"
+            columns: ["workflow_instance_id"]
+            isOneToOne: true
+            referencedRelation: "client_workflow_instances"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       campaign_stats: {
@@ -1700,9 +4177,283 @@ export type Database = {
       }
     }
     Functions: {
+      add_proration_line: {
+        Args: {
+          p_amount: number
+          p_at: string
+          p_client_id: string
+          p_description: string
+          p_service_id: string
+        }
+        Returns: string
+      }
+      apply_service_plan_change: {
+        Args: { p_at?: string; p_change_id: string }
+        Returns: undefined
+      }
+      apply_usage: {
+        Args: { p_amount: number; p_client_service_id: string }
+        Returns: number
+      }
+      call_usage_units: {
+        Args: { p_duration_seconds: number; p_service_id: string }
+        Returns: number
+      }
+      calling_window_block_reason: {
+        Args: {
+          p_at: string
+          p_days: string[]
+          p_end: string
+          p_holidays: string[]
+          p_start: string
+          p_timezone: string
+        }
+        Returns: string
+      }
+      can_manage_chatbot: { Args: { p_chatbot_id: string }; Returns: boolean }
+      can_manage_client_billing: {
+        Args: { p_client_id: string }
+        Returns: boolean
+      }
+      change_service_plan: {
+        Args: { p_client_service_id: string; p_plan_id: string }
+        Returns: Json
+      }
+      claim_campaign_contacts: {
+        Args: { p_campaign_id: string }
+        Returns: {
+          attempt_count: number
+          call_log_id: string | null
+          call_status: Database["public"]["Enums"]["contact_call_status"] | null
+          campaign_id: string
+          contact_data: Json | null
+          contact_name: string | null
+          created_at: string
+          id: string
+          last_attempt_at: string | null
+          last_error: string | null
+          last_outcome: string | null
+          next_attempt_at: string | null
+          phone_number: string
+          skip_reason: string | null
+          timezone: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "campaign_contacts"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      claim_chat_handoff: {
+        Args: { p_session_id: string }
+        Returns: {
+          assigned_to: string | null
+          chatbot_id: string
+          claimed_at: string | null
+          created_at: string
+          first_response_at: string | null
+          first_response_due_at: string
+          id: string
+          reason: string
+          resolution_due_at: string
+          resolved_at: string | null
+          resolved_by: string | null
+          session_id: string
+          status: string
+          transfer_count: number
+          trigger_detail: string | null
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "chat_handoffs"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      claim_social_posts: {
+        Args: { p_limit?: number }
+        Returns: {
+          attempt_count: number
+          brand_id: string | null
+          client_id: string
+          content: string
+          created_at: string
+          engagement_stats: Json | null
+          error_message: string | null
+          hashtags: string[] | null
+          id: string
+          last_attempt_at: string | null
+          media_urls: string[] | null
+          next_attempt_at: string | null
+          platform: Database["public"]["Enums"]["social_platform"]
+          platform_post_ids: Json | null
+          post_type: Database["public"]["Enums"]["social_post_type"] | null
+          posted_at: string | null
+          scheduled_at: string | null
+          status: Database["public"]["Enums"]["social_post_status"] | null
+          updated_at: string
+          usage_reservation_id: string | null
+          workflow_instance_id: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "social_media_posts"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      claim_whatsapp_messages: {
+        Args: { p_application_id: string; p_limit?: number }
+        Returns: {
+          application_id: string | null
+          attempt_count: number
+          campaign_id: string | null
+          client_id: string
+          cost: number | null
+          delivered_at: string | null
+          direction: string | null
+          error_message: string | null
+          external_id: string | null
+          id: string
+          last_attempt_at: string | null
+          media_url: string | null
+          message_content: string
+          message_type: Database["public"]["Enums"]["wa_message_type"] | null
+          metadata: Json | null
+          next_attempt_at: string | null
+          phone_number: string
+          read_at: string | null
+          sender_name: string | null
+          sent_at: string | null
+          status: Database["public"]["Enums"]["wa_message_status"] | null
+          template_name: string | null
+          template_params: Json | null
+          wamid: string | null
+          workflow_instance_id: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "whatsapp_messages"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      claim_workflow_retries: {
+        Args: { p_limit?: number }
+        Returns: {
+          attempt: number
+          execution_id: string
+          input_data: Json
+          retry_of: string
+          webhook_url: string
+          workflow_instance_id: string
+        }[]
+      }
       cleanup_old_notifications: { Args: never; Returns: undefined }
+      client_service_plan_at: {
+        Args: { p_at: string; p_client_service_id: string }
+        Returns: string
+      }
+      client_unit_price: {
+        Args: { p_client_id: string; p_service_id: string }
+        Returns: number
+      }
+      commit_usage: {
+        Args: { p_amount?: number; p_reservation_id: string }
+        Returns: boolean
+      }
+      compare_semver: { Args: { a: string; b: string }; Returns: number }
+      create_wallet_top_up: { Args: { p_amount: number }; Returns: string }
+      discard_whatsapp_campaign_draft: {
+        Args: { p_campaign_id: string }
+        Returns: undefined
+      }
+      escalate_chat_session: {
+        Args: { p_detail?: string; p_reason: string; p_session_id: string }
+        Returns: {
+          assigned_to: string | null
+          chatbot_id: string
+          claimed_at: string | null
+          created_at: string
+          first_response_at: string | null
+          first_response_due_at: string
+          id: string
+          reason: string
+          resolution_due_at: string
+          resolved_at: string | null
+          resolved_by: string | null
+          session_id: string
+          status: string
+          transfer_count: number
+          trigger_detail: string | null
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "chat_handoffs"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      generate_period_invoices: {
+        Args: { p_period_start?: string }
+        Returns: number
+      }
       get_admin_id_for_user: { Args: never; Returns: string }
+      get_chat_agents: {
+        Args: { p_chatbot_id: string }
+        Returns: { email: string; full_name: string; user_id: string }[]
+      }
       get_client_admin_id: { Args: never; Returns: string }
+      get_client_service_pricing: {
+        Args: { p_service_id: string }
+        Returns: Json
+      }
+      get_platform_receivables: {
+        Args: { p_from: string; p_to: string }
+        Returns: {
+          admin_id: string
+          company_name: string
+          receivable_amount: number
+          retail_amount: number
+          usage_events: number
+          wholesale_amount: number
+        }[]
+      }
+      get_settlement_statement: {
+        Args: { p_admin_id: string; p_from: string; p_to: string }
+        Returns: {
+          overage_units: number
+          quantity: number
+          retail_amount: number
+          service_id: string
+          service_name: string
+          wholesale_amount: number
+        }[]
+      }
+      get_suppressed_phones: {
+        Args: { p_channel?: string; p_client_id: string; p_phones: string[] }
+        Returns: string[]
+      }
+      get_telephony_provider_health: {
+        Args: { p_from: string; p_to: string }
+        Returns: {
+          answer_rate: number
+          answered: number
+          calls: number
+          dispatch_attempts: number
+          dispatch_errors: number
+          error_rate: number
+          failed: number
+          provider: string
+        }[]
+      }
+      grant_wallet_credit: {
+        Args: { p_amount: number; p_client_id: string; p_note: string }
+        Returns: string
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -1714,8 +4465,320 @@ export type Database = {
         Args: { p_amount: number; p_client_id: string; p_service_slug: string }
         Returns: undefined
       }
+      ingest_call_status: {
+        Args: {
+          p_ai_summary?: string
+          p_call_status: string
+          p_campaign_id: string
+          p_client_id: string
+          p_contact_id?: string
+          p_duration_seconds?: number
+          p_is_lead?: boolean
+          p_lead_score?: number
+          p_phone_number: string
+          p_provider_call_id: string
+          p_recording_url?: string
+          p_transcript?: string
+          p_workflow_instance_id?: string
+        }
+        Returns: Json
+      }
+      invoice_tax_treatment: {
+        Args: {
+          p_customer_country: string
+          p_customer_state: string
+          p_customer_tax_id: string
+          p_regime: string
+          p_supplier_country: string
+          p_supplier_state: string
+        }
+        Returns: string
+      }
+      invoke_scheduled_function: {
+        Args: { p_body?: Json; p_function: string }
+        Returns: number
+      }
+      is_outbound_contact_suppressed: {
+        Args: { p_list_id: string; p_phone: string }
+        Returns: boolean
+      }
+      is_phone_suppressed: {
+        Args: { p_channel?: string; p_client_id: string; p_phone: string }
+        Returns: boolean
+      }
       is_super_admin: { Args: never; Returns: boolean }
-      reset_usage_if_needed: { Args: never; Returns: undefined }
+      is_valid_timezone: { Args: { p_timezone: string }; Returns: boolean }
+      log_dunning_step: {
+        Args: {
+          p_client_id: string
+          p_details?: Json
+          p_email: boolean
+          p_invoice_id: string
+          p_offset_days: number
+          p_step: string
+        }
+        Returns: string
+      }
+      mark_social_connection_reconnect: {
+        Args: { p_connection_id: string; p_error: string }
+        Returns: boolean
+      }
+      match_knowledge_chunks: {
+        Args: {
+          p_chatbot_id: string
+          p_match_count?: number
+          p_min_similarity?: number
+          p_query_embedding?: string
+          p_query_text: string
+        }
+        Returns: {
+          chunk_id: string
+          content: string
+          knowledge_id: string
+          similarity: number
+          source_type: string
+          source_url: string
+          title: string
+        }[]
+      }
+      next_calling_slot: {
+        Args: {
+          p_at: string
+          p_days: string[]
+          p_end: string
+          p_holidays: string[]
+          p_start: string
+          p_timezone: string
+        }
+        Returns: string
+      }
+      normalize_phone: {
+        Args: { p_default_country_code?: string; p_phone: string }
+        Returns: string
+      }
+      notification_enabled: { Args: { p_key: string }; Returns: boolean }
+      post_usage_to_ledger: {
+        Args: { p_usage_tracking_id: string }
+        Returns: undefined
+      }
+      post_wallet_transaction: {
+        Args: {
+          p_amount: number
+          p_client_id: string
+          p_created_by?: string
+          p_note?: string
+          p_reference?: string
+          p_type: string
+          p_usage_tracking_id?: string
+        }
+        Returns: string
+      }
+      prorate_monthly_fee: {
+        Args: { p_at: string; p_new_price: number; p_old_price: number }
+        Returns: number
+      }
+      record_campaign_contact_result: {
+        Args: {
+          p_call_log_id?: string
+          p_call_status: string
+          p_contact_id: string
+        }
+        Returns: string
+      }
+      record_invoice_payment: {
+        Args: {
+          p_amount: number
+          p_currency?: string
+          p_invoice_id: string
+          p_kind: string
+          p_payment_id: string
+          p_provider: string
+          p_transaction_id: string
+        }
+        Returns: Json
+      }
+      record_provider_call_event: {
+        Args: {
+          p_call_status?: string
+          p_campaign_id?: string
+          p_client_id: string
+          p_contact_id?: string
+          p_duration_seconds?: number
+          p_phone_number: string
+          p_price?: number
+          p_provider: string
+          p_provider_call_id: string
+          p_recording_url?: string
+        }
+        Returns: Json
+      }
+      record_whatsapp_message_status: {
+        Args: {
+          p_error?: string
+          p_occurred_at?: string
+          p_status: string
+          p_wamid: string
+        }
+        Returns: string
+      }
+      record_workflow_execution: {
+        Args: {
+          p_event: string
+          p_payload: Json
+          p_workflow_instance_id: string
+        }
+        Returns: Json
+      }
+      release_usage: { Args: { p_reservation_id: string }; Returns: boolean }
+      replay_workflow_execution: {
+        Args: { p_execution_id: string; p_user_id: string }
+        Returns: Json
+      }
+      reserve_usage: {
+        Args: {
+          p_amount?: number
+          p_client_id: string
+          p_hold_seconds?: number
+          p_reference_id?: string
+          p_service_slug: string
+          p_source?: string
+        }
+        Returns: Json
+      }
+      reset_usage_if_needed: { Args: never; Returns: number }
+      resolve_chat_handoff: {
+        Args: { p_handoff_id: string }
+        Returns: {
+          assigned_to: string | null
+          chatbot_id: string
+          claimed_at: string | null
+          created_at: string
+          first_response_at: string | null
+          first_response_due_at: string
+          id: string
+          reason: string
+          resolution_due_at: string
+          resolved_at: string | null
+          resolved_by: string | null
+          session_id: string
+          status: string
+          transfer_count: number
+          trigger_detail: string | null
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "chat_handoffs"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      resolve_phone_timezone: { Args: { p_phone: string }; Returns: string }
+      restore_dunning_suspension: {
+        Args: { p_client_id: string; p_reason?: string }
+        Returns: boolean
+      }
+      rotate_workflow_webhook_secret: {
+        Args: { p_workflow_instance_id: string }
+        Returns: string
+      }
+      run_dunning: { Args: { p_today?: string }; Returns: Json }
+      save_admin_tax_settings: {
+        Args: {
+          p_address: string
+          p_admin_id: string
+          p_category_rates?: Json
+          p_country_code: string
+          p_default_sac_code: string
+          p_default_tax_rate: number
+          p_invoice_prefix: string
+          p_legal_name: string
+          p_state_code: string
+          p_tax_id: string
+          p_tax_regime: string
+        }
+        Returns: undefined
+      }
+      settle_usage_reservation: {
+        Args: {
+          p_amount: number
+          p_record_event: boolean
+          p_reservation_id: string
+        }
+        Returns: boolean
+      }
+      tax_supplier_id: { Args: { p_admin_id: string }; Returns: string }
+      transfer_chat_handoff: {
+        Args: { p_handoff_id: string; p_to_user_id?: string }
+        Returns: {
+          assigned_to: string | null
+          chatbot_id: string
+          claimed_at: string | null
+          created_at: string
+          first_response_at: string | null
+          first_response_due_at: string
+          id: string
+          reason: string
+          resolution_due_at: string
+          resolved_at: string | null
+          resolved_by: string | null
+          session_id: string
+          status: string
+          transfer_count: number
+          trigger_detail: string | null
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "chat_handoffs"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      update_dunning_settings: {
+        Args: {
+          p_client_id: string
+          p_email_reminders: boolean
+          p_enabled: boolean
+          p_grace_days: number
+          p_reminder_offsets: number[]
+          p_suspend_services: boolean
+        }
+        Returns: undefined
+      }
+      update_wallet_settings: {
+        Args: {
+          p_billing_mode: string
+          p_client_id: string
+          p_low_balance_threshold: number
+          p_zero_balance_policy: string
+        }
+        Returns: undefined
+      }
+      usage_period_bounds: {
+        Args: {
+          p_anchor: string
+          p_at?: string
+          p_period: Database["public"]["Enums"]["reset_period"]
+        }
+        Returns: { period_end: string; period_start: string }[]
+      }
+      whatsapp_session_open: {
+        Args: {
+          p_application_id?: string
+          p_client_id: string
+          p_phone_number: string
+        }
+        Returns: boolean
+      }
+      workflow_execution_stats: {
+        Args: { p_instance_ids: string[]; p_since: string; p_until?: string }
+        Returns: Json
+      }
+      workflow_retry_delay: {
+        Args: { p_attempt: number; p_policy: Json }
+        Returns: number
+      }
     }
     Enums: {
       app_role: "super_admin" | "admin" | "client"
@@ -1744,6 +4807,8 @@ export type Database = {
         | "busy"
         | "failed"
         | "completed"
+        | "no_answer"
+        | "suppressed"
       credential_status: "pending" | "configured" | "expired" | "invalid"
       execution_mode: "manual" | "webhook" | "scheduled" | "trigger"
       execution_status:
@@ -1757,6 +4822,7 @@ export type Database = {
       lead_status: "new" | "contacted" | "qualified" | "converted" | "lost"
       message_type: "text" | "file" | "system"
       notification_type: "info" | "success" | "warning" | "error"
+      overage_policy: "block" | "overage" | "soft_cap"
       plan_tier: "basic" | "standard" | "premium" | "enterprise"
       pricing_model: "per_minute" | "per_call" | "per_message" | "monthly"
       reset_period: "daily" | "weekly" | "monthly" | "never"
@@ -1768,14 +4834,22 @@ export type Database = {
         | "publishing"
         | "posted"
         | "failed"
+        | "partial"
       social_post_type: "text" | "image" | "video" | "carousel" | "story"
+      suppression_scope: "global" | "admin" | "client"
       wa_campaign_status:
         | "draft"
         | "scheduled"
         | "sending"
         | "completed"
         | "cancelled"
-      wa_message_status: "queued" | "sent" | "delivered" | "read" | "failed"
+      wa_message_status:
+        | "queued"
+        | "sent"
+        | "delivered"
+        | "read"
+        | "failed"
+        | "sending"
       wa_message_type:
         | "text"
         | "template"
@@ -1944,6 +5018,8 @@ export const Constants = {
         "busy",
         "failed",
         "completed",
+        "no_answer",
+        "suppressed",
       ],
       credential_status: ["pending", "configured", "expired", "invalid"],
       execution_mode: ["manual", "webhook", "scheduled", "trigger"],
@@ -1953,6 +5029,7 @@ export const Constants = {
       lead_status: ["new", "contacted", "qualified", "converted", "lost"],
       message_type: ["text", "file", "system"],
       notification_type: ["info", "success", "warning", "error"],
+      overage_policy: ["block", "overage", "soft_cap"],
       plan_tier: ["basic", "standard", "premium", "enterprise"],
       pricing_model: ["per_minute", "per_call", "per_message", "monthly"],
       reset_period: ["daily", "weekly", "monthly", "never"],
@@ -1964,8 +5041,10 @@ export const Constants = {
         "publishing",
         "posted",
         "failed",
+        "partial",
       ],
       social_post_type: ["text", "image", "video", "carousel", "story"],
+      suppression_scope: ["global", "admin", "client"],
       wa_campaign_status: [
         "draft",
         "scheduled",
@@ -1973,7 +5052,14 @@ export const Constants = {
         "completed",
         "cancelled",
       ],
-      wa_message_status: ["queued", "sent", "delivered", "read", "failed"],
+      wa_message_status: [
+        "queued",
+        "sent",
+        "delivered",
+        "read",
+        "failed",
+        "sending",
+      ],
       wa_message_type: [
         "text",
         "template",
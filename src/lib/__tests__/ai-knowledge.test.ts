@@ -0,0 +1,227 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  assertPublicUrl,
+  buildKnowledgePrompt,
+  chunkText,
+  extractCitations,
+  extractSourceText,
+  isPrivateAddress,
+  readTextCapped,
+  retrieveKnowledge,
+  stripCitationMarkers,
+  validateKnowledgeFile,
+  type KnowledgeMatch,
+  type SearchFn,
+} from "@/lib/ai-knowledge";
+import { ValidationError } from "@/lib/error-handler";
+
+// Stub embedding: bag of words hashed into a small vector
+const VOCAB_SIZE = 64;
+const stubEmbed = async (text: string) => {
+  const vector = new Array(VOCAB_SIZE).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+    let hash = 0;
+    for (const ch of word) hash = (hash * 31 + ch.charCodeAt(0)) % VOCAB_SIZE;
+    vector[hash] += 1;
+  }
+  return vector;
+};
+
+const cosine = (a: number[], b: number[]) => {
+  const dot = a.reduce((sum, v, i) => sum + v * b[i], 0);
+  const norm = (v: number[]) => Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
+  return dot / (norm(a) * norm(b) || 1);
+};
+
+async function inMemoryIndex(items: { id: string; title: string; content: string }[]): Promise<SearchFn> {
+  const chunks = await Promise.all(
+    items.flatMap((item) =>
+      chunkText(item.content, 200, 0).map(async (content) => ({ item, content, embedding: await stubEmbed(content) })),
+    ),
+  );
+
+  return async ({ embedding }, matchCount) =>
+    chunks
+      .map((c): KnowledgeMatch => ({
+        knowledgeId: c.item.id,
+        title: c.item.title,
+        content: c.content,
+        sourceType: "text",
+        similarity: embedding ? cosine(embedding, c.embedding) : 0,
+      }))
+      .filter((m) => m.similarity > 0.2)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, matchCount);
+}
+
+describe("chunkText", () => {
+  it("packs sentences up to the chunk size with overlap", () => {
+    const text = Array.from({ length: 30 }, (_, i) => `Sentence number ${i} is here.`).join(" ");
+    const chunks = chunkText(text, 120, 30);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((c) => c.length <= 120)).toBe(true);
+    expect(chunks[0]).toMatch(/^Sentence number 0/);
+    // The end of one chunk is repeated at the start of the next
+    expect(chunks[1]).toContain(chunks[0].split(" ").slice(-3).join(" "));
+  });
+
+  it("hard-splits text without sentence breaks and ignores blank input", () => {
+    expect(chunkText("x".repeat(250), 100, 0)).toEqual(["x".repeat(100), "x".repeat(100), "x".repeat(50)]);
+    expect(chunkText("  \n\n ")).toEqual([]);
+  });
+});
+
+describe("retrieval with a stub LLM", () => {
+  const items = [
+    { id: "k1", title: "FAQ: Free trial", content: "Q: Do you offer a free trial?\nA: Yes, every plan has a 14 day free trial." },
+    { id: "k2", title: "Refund policy", content: "Refunds are issued within 7 business days of a cancellation request." },
+    { id: "k3", title: "Office hours", content: "Our support team works Monday to Friday, 9am to 6pm IST." },
+  ];
+
+  it("injects the best matches into the prompt and returns the cited sources", async () => {
+    const search = await inMemoryIndex(items);
+    const matches = await retrieveKnowledge("How long is the free trial?", stubEmbed, search, 2);
+
+    expect(matches[0].knowledgeId).toBe("k1");
+
+    const systemPrompt = buildKnowledgePrompt("You are a helpful assistant.", matches);
+    expect(systemPrompt).toContain("[1] FAQ: Free trial");
+
+    // Stub LLM: answers from the first numbered source and cites it
+    const complete = vi.fn(async (messages: { role: string; content: string }[]) => {
+      const source = messages[0].content.match(/\[1\] [^\n]+\n([^\n]+\n?[^\n]*)/)?.[1] ?? "";
+      return source.includes("14 day") ? "Every plan includes a 14 day free trial [1]." : "I don't know.";
+    });
+
+    const answer = await complete([
+      { role: "system", content: systemPrompt },
+      { role: "user", content: "How long is the free trial?" },
+    ]);
+
+    expect(answer).toBe("Every plan includes a 14 day free trial [1].");
+    expect(extractCitations(answer, matches)).toEqual([
+      { index: 1, knowledgeId: "k1", title: "FAQ: Free trial", sourceUrl: null },
+    ]);
+    expect(stripCitationMarkers(answer)).toBe("Every plan includes a 14 day free trial.");
+  });
+
+  it("leaves the prompt untouched when nothing matches", async () => {
+    const search = await inMemoryIndex(items);
+    const matches = await retrieveKnowledge("zebra", stubEmbed, search);
+
+    expect(matches).toEqual([]);
+    expect(buildKnowledgePrompt("Base prompt", matches)).toBe("Base prompt");
+  });
+
+  it("falls back to keyword search when no embedding model is configured", async () => {
+    const search = vi.fn<SearchFn>(async () => []);
+    await retrieveKnowledge("  refund timing ", async () => null, search);
+
+    expect(search).toHaveBeenCalledWith({ text: "refund timing", embedding: null }, 4);
+  });
+});
+
+describe("validateKnowledgeFile", () => {
+  it("accepts PDF and text documents within the size limit", () => {
+    expect(validateKnowledgeFile({ name: "guide.pdf", type: "application/pdf", size: 1024 })).toBe("pdf");
+    expect(validateKnowledgeFile({ name: "notes.md", type: "", size: 10 })).toBe("text");
+    expect(() => validateKnowledgeFile({ name: "deck.pptx", type: "application/vnd.ms-powerpoint", size: 10 })).toThrow(
+      ValidationError,
+    );
+    expect(() => validateKnowledgeFile({ name: "big.pdf", type: "application/pdf", size: 20 * 1024 * 1024 })).toThrow(
+      ValidationError,
+    );
+  });
+});
+
+describe("isPrivateAddress", () => {
+  it("flags loopback, private, link-local and mapped addresses", () => {
+    for (const ip of ["127.0.0.1", "10.1.2.3", "172.16.0.1", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0", "::1", "fd00::1", "fe80::1", "::ffff:7f00:1"]) {
+      expect(isPrivateAddress(ip), ip).toBe(true);
+    }
+    for (const ip of ["93.184.216.34", "172.32.0.1", "2606:4700::1111", "::ffff:5db8:d822"]) {
+      expect(isPrivateAddress(ip), ip).toBe(false);
+    }
+  });
+});
+
+describe("assertPublicUrl", () => {
+  const resolveTo = (addresses: string[]) => vi.fn(async () => addresses);
+
+  it("accepts public http(s) hosts", async () => {
+    const url = await assertPublicUrl("https://example.com/faq", resolveTo(["93.184.216.34"]));
+    expect(url.hostname).toBe("example.com");
+  });
+
+  it("rejects other schemes, credentials, ports and internal hosts", async () => {
+    const resolve = resolveTo(["93.184.216.34"]);
+    await expect(assertPublicUrl("file:///etc/passwd", resolve)).rejects.toThrow("http or https");
+    await expect(assertPublicUrl("https://user:pw@example.com", resolve)).rejects.toThrow("credentials");
+    await expect(assertPublicUrl("http://example.com:5432", resolve)).rejects.toThrow("port");
+    await expect(assertPublicUrl("http://localhost/admin", resolve)).rejects.toThrow("not a public host");
+    await expect(assertPublicUrl("http://0x7f000001/", resolve)).rejects.toThrow("private network");
+    await expect(assertPublicUrl("http://[::1]/", resolve)).rejects.toThrow("private network");
+  });
+
+  it("rejects names that resolve to private addresses", async () => {
+    await expect(assertPublicUrl("http://metadata.example/", resolveTo(["169.254.169.254"]))).rejects.toThrow(
+      "private network",
+    );
+    await expect(assertPublicUrl("http://nowhere.example/", resolveTo([]))).rejects.toThrow("could not be resolved");
+  });
+});
+
+describe("readTextCapped", () => {
+  it("stops reading the body once the cap is reached", async () => {
+    let pulls = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulls++;
+        controller.enqueue(new TextEncoder().encode("a".repeat(1000)));
+      },
+    });
+
+    const text = await readTextCapped(new Response(body), 2500);
+    expect(text).toHaveLength(2500);
+    expect(pulls).toBeLessThan(10);
+  });
+});
+
+describe("extractSourceText", () => {
+  const readers = {
+    clientId: "client-a",
+    // jsdom's Blob has no text(), so take the runtime's
+    download: vi.fn(async () => new Response("Refunds take 7 days.").blob()),
+    resolveHost: vi.fn(async () => ["93.184.216.34"]),
+    extractPdfText: vi.fn(async () => "pdf text"),
+  };
+
+  it("reads documents from the owning client's folder only", async () => {
+    const text = await extractSourceText({ source_type: "text", file_path: "client-a/1-faq.txt" }, readers);
+    expect(text).toBe("Refunds take 7 days.");
+
+    for (const path of ["client-b/1-faq.txt", "client-a/../client-b/1-faq.txt", "faq.txt"]) {
+      await expect(extractSourceText({ source_type: "text", file_path: path }, readers)).rejects.toThrow(
+        "not in this client's folder",
+      );
+    }
+    expect(readers.download).toHaveBeenCalledTimes(1);
+  });
+
+  it("fetches public pages as text and refuses redirects into the private network", async () => {
+    const fetchImpl = vi.fn(async (url: RequestInfo | URL) =>
+      String(url).includes("/moved")
+        ? new Response(null, { status: 302, headers: { location: "http://127.0.0.1/secret" } })
+        : new Response("<p>Open <b>9 to 6</b></p><script>x()</script>", { headers: { "content-type": "text/html" } }),
+    ) as unknown as typeof fetch;
+
+    const text = await extractSourceText({ source_type: "url", source_url: "https://example.com/hours" }, { ...readers, fetchImpl });
+    expect(text.replace(/\s+/g, " ").trim()).toBe("Open 9 to 6");
+
+    await expect(
+      extractSourceText({ source_type: "url", source_url: "https://example.com/moved" }, { ...readers, fetchImpl }),
+    ).rejects.toThrow("private network");
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+});
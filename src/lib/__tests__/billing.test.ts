@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { closedBillingPeriods, invoiceBalance, resolveUnitPrice } from "@/lib/billing";
+
+describe("resolveUnitPrice", () => {
+  it("applies the admin markup on top of the base price", () => {
+    expect(resolveUnitPrice(2, { markup_percentage: 25, custom_price_per_unit: null, is_custom_pricing: false })).toBe(2.5);
+    expect(resolveUnitPrice(1.5, null)).toBe(1.5);
+  });
+
+  it("uses the custom per-unit price when custom pricing is on", () => {
+    expect(resolveUnitPrice(2, { markup_percentage: 25, custom_price_per_unit: 3.2, is_custom_pricing: true })).toBe(3.2);
+    expect(resolveUnitPrice(2, { markup_percentage: 25, custom_price_per_unit: 0, is_custom_pricing: true })).toBe(0);
+    expect(resolveUnitPrice(2, { markup_percentage: 10, custom_price_per_unit: 3.2, is_custom_pricing: false })).toBe(2.2);
+  });
+});
+
+describe("closedBillingPeriods", () => {
+  it("lists the months that have already ended", () => {
+    expect(closedBillingPeriods(new Date(2026, 0, 15), 2)).toEqual([
+      { value: "2025-12-01", label: "December 2025" },
+      { value: "2025-11-01", label: "November 2025" },
+    ]);
+  });
+});
+
+describe("invoiceBalance", () => {
+  it("nets refunds against payments", () => {
+    expect(invoiceBalance(1000)).toEqual({ netPaid: 0, outstanding: 1000, isPartiallyPaid: false });
+    expect(invoiceBalance(1000, 400)).toEqual({ netPaid: 400, outstanding: 600, isPartiallyPaid: true });
+    expect(invoiceBalance(1000, 1000, 250.5)).toEqual({ netPaid: 749.5, outstanding: 250.5, isPartiallyPaid: true });
+    expect(invoiceBalance(1000, 1200)).toEqual({ netPaid: 1200, outstanding: 0, isPartiallyPaid: false });
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { formatCallingWindow, isValidTimeZone, localTimeIn } from "@/lib/calling-window";
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA names", () => {
+    expect(isValidTimeZone("Asia/Kolkata")).toBe(true);
+    expect(isValidTimeZone("America/New_York")).toBe(true);
+  });
+
+  it("rejects unknown or empty values", () => {
+    expect(isValidTimeZone("Mars/Olympus")).toBe(false);
+    expect(isValidTimeZone("")).toBe(false);
+  });
+});
+
+describe("formatCallingWindow", () => {
+  it("collapses weekdays and pads hours", () => {
+    expect(formatCallingWindow("9:00", "18:00:00", ["Mon", "Tue", "Wed", "Thu", "Fri"], "Asia/Kolkata"))
+      .toBe("09:00 – 18:00, Mon–Fri (Asia/Kolkata)");
+  });
+
+  it("lists custom days", () => {
+    expect(formatCallingWindow("10:00", "16:00", ["Sat", "Sun"])).toBe("10:00 – 16:00, Sat, Sun");
+  });
+});
+
+describe("localTimeIn", () => {
+  it("converts to the contact's wall clock", () => {
+    const at = new Date("2026-01-15T12:00:00Z");
+    expect(localTimeIn("Asia/Kolkata", at)).toBe("17:30");
+    expect(localTimeIn("America/New_York", at)).toBe("07:00");
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_HANDOFF_RULES,
+  countTrailingUnknownAnswers,
+  detectMessageTrigger,
+  detectReplyTrigger,
+  scoreSentiment,
+  slaMinutesRemaining,
+} from "@shared/chat-handoff";
+
+const rules = { ...DEFAULT_HANDOFF_RULES, keywords: ["refund", "legal notice"] };
+
+describe("detectMessageTrigger", () => {
+  it("escalates explicit requests for a human", () => {
+    expect(detectMessageTrigger("Can I talk to a human please?", rules)?.reason).toBe("explicit_request");
+    expect(detectMessageTrigger("connect me with a real person", rules)?.reason).toBe("explicit_request");
+  });
+
+  it("matches configured keywords case-insensitively", () => {
+    expect(detectMessageTrigger("I want a REFUND for last month", rules)).toEqual({ reason: "keyword", detail: "refund" });
+  });
+
+  it("escalates clearly negative messages only", () => {
+    expect(detectMessageTrigger("This is the worst, totally useless service!!", rules)?.reason).toBe("negative_sentiment");
+    expect(detectMessageTrigger("What are your prices?", rules)).toBeNull();
+    expect(detectMessageTrigger("Thanks, that was helpful", rules)).toBeNull();
+  });
+
+  it("does nothing when handoff is disabled", () => {
+    expect(detectMessageTrigger("talk to a human", { ...rules, enabled: false })).toBeNull();
+  });
+});
+
+describe("detectReplyTrigger", () => {
+  it("escalates after consecutive unknown answers", () => {
+    const replies = ["Our plans start at ₹999.", "I'm not sure about that.", "I don't know, sorry."];
+    expect(countTrailingUnknownAnswers(replies)).toBe(2);
+    expect(detectReplyTrigger(replies, rules)?.reason).toBe("unknown_answers");
+    expect(detectReplyTrigger(replies.slice(0, 2), rules)).toBeNull();
+    expect(detectReplyTrigger(replies, { ...rules, maxUnknownAnswers: 0 })).toBeNull();
+  });
+});
+
+describe("scoreSentiment / slaMinutesRemaining", () => {
+  it("scores between -1 and 1", () => {
+    expect(scoreSentiment("great, thanks")).toBe(1);
+    expect(scoreSentiment("WHY IS THIS NOT WORKING")).toBe(-1);
+    expect(scoreSentiment("hello")).toBe(0);
+  });
+
+  it("goes negative once the SLA is breached", () => {
+    const now = new Date("2026-10-19T10:00:00Z");
+    expect(slaMinutesRemaining("2026-10-19T10:05:30Z", now)).toBe(5);
+    expect(slaMinutesRemaining("2026-10-19T09:58:00Z", now)).toBe(-2);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_CALL_STATS, campaignUnits, estimateCampaignCost, summarizeCallHistory, type ClientServicePricing,
+} from "@/lib/cost-estimate";
+
+const stats = { answer_rate: 0.5, avg_duration_seconds: 120, avg_billed_minutes: 2, sample_size: 100 };
+
+const pricing = (over: Partial<ClientServicePricing> = {}): ClientServicePricing => ({
+  service_id: "svc",
+  pricing_model: "per_minute",
+  unit_price: 2,
+  overage_unit_price: 3,
+  overage_policy: "overage",
+  plan_name: "Growth",
+  usage_limit: 0,
+  usage_consumed: 0,
+  usage_reserved: 0,
+  ...over,
+});
+
+describe("summarizeCallHistory", () => {
+  it("uses typical figures until there is enough history", () => {
+    expect(summarizeCallHistory([{ call_status: "completed", duration: "1:00" }])).toBe(DEFAULT_CALL_STATS);
+  });
+
+  it("averages the length of answered calls", () => {
+    const logs = [
+      ...Array.from({ length: 15 }, () => ({ call_status: "no_answer", duration: null })),
+      ...Array.from({ length: 5 }, (_, i) => ({ call_status: "completed", duration: i % 2 ? "2:00" : "1:00" })),
+    ];
+    expect(summarizeCallHistory(logs)).toEqual({
+      answer_rate: 0.25,
+      avg_duration_seconds: 84,
+      avg_billed_minutes: 1.4,
+      sample_size: 20,
+    });
+  });
+
+  it("bills each call's started minutes, not the average length", () => {
+    // 30s and 90s calls average one minute, but are billed 1 and 2 minutes
+    const logs = [
+      ...Array.from({ length: 10 }, () => ({ call_status: "completed", duration: "0:30" })),
+      ...Array.from({ length: 10 }, () => ({ call_status: "completed", duration: "1:30" })),
+    ];
+    const history = summarizeCallHistory(logs);
+    expect(history.avg_billed_minutes).toBe(1.5);
+    expect(campaignUnits("per_minute", { contacts: 10 }, history).expected).toBe(15);
+  });
+});
+
+describe("campaignUnits", () => {
+  it("counts one unit per message", () => {
+    expect(campaignUnits("per_message", { contacts: 250 }, stats)).toEqual({ min: 250, expected: 250, max: 250 });
+  });
+
+  it("bills every call attempt, retrying only unanswered calls", () => {
+    // 100 first attempts, 50 retries, 25 second retries
+    expect(campaignUnits("per_call", { contacts: 100, retries: 2 }, stats)).toEqual({ min: 100, expected: 175, max: 300 });
+  });
+
+  it("counts minutes on answered calls, rounded up per call", () => {
+    expect(campaignUnits("per_minute", { contacts: 100, retries: 1 }, stats)).toEqual({
+      min: 50, // half answer once, 1 minute each
+      expected: 150, // 75 reached after a retry, 2 minutes each
+      max: 400, // everyone answers and talks for 4 minutes
+    });
+  });
+});
+
+describe("estimateCampaignCost", () => {
+  const units = { min: 50, expected: 150, max: 400 };
+
+  it("prices unmetered services at the unit price", () => {
+    const e = estimateCampaignCost(pricing(), units);
+    expect(e.cost).toEqual({ min: 100, expected: 300, max: 800 });
+    expect(e.quota_remaining).toBeNull();
+    expect(e.unit_label).toBe("minute");
+  });
+
+  it("bills units past the remaining quota at the overage rate", () => {
+    const e = estimateCampaignCost(pricing({ usage_limit: 500, usage_consumed: 380, usage_reserved: 20 }), units);
+    expect(e.quota_remaining).toBe(100);
+    expect(e.cost.expected).toBe(100 * 2 + 50 * 3);
+    expect(e.overage_units).toBe(50);
+    expect(e.blocked_units).toBe(0);
+  });
+
+  it("stops at the limit when the plan blocks", () => {
+    const e = estimateCampaignCost(pricing({ usage_limit: 100, overage_policy: "block" }), units);
+    expect(e.cost.max).toBe(200);
+    expect(e.overage_units).toBe(0);
+    expect(e.blocked_units).toBe(300);
+  });
+
+  it("does not charge soft-capped units", () => {
+    const e = estimateCampaignCost(pricing({ usage_limit: 100, overage_policy: "soft_cap" }), units);
+    expect(e.cost.expected).toBe(200);
+    expect(e.overage_units).toBe(50);
+  });
+});
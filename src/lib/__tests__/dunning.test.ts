@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_DUNNING_SETTINGS, dunningEmail, dunningSchedule, parseReminderOffsets } from "@/lib/dunning";
+
+describe("parseReminderOffsets", () => {
+  it("accepts comma or space separated days, sorted and deduplicated", () => {
+    expect(parseReminderOffsets("14, 3 7,3")).toEqual([3, 7, 14]);
+    expect(parseReminderOffsets("")).toEqual([]);
+  });
+
+  it("rejects zero, negative and fractional days", () => {
+    expect(parseReminderOffsets("0, 7")).toBeNull();
+    expect(parseReminderOffsets("-3")).toBeNull();
+    expect(parseReminderOffsets("2.5")).toBeNull();
+  });
+});
+
+describe("dunningSchedule", () => {
+  const due = new Date(2026, 9, 1);
+
+  it("lists reminders and the suspension date in order", () => {
+    const schedule = dunningSchedule(due, { ...DEFAULT_DUNNING_SETTINGS, suspend_services: true, grace_days: 10 });
+    expect(schedule.map((m) => [m.date.getDate(), m.label])).toEqual([
+      [2, "Marked overdue"],
+      [4, "Reminder (+3 days)"],
+      [8, "Reminder (+7 days)"],
+      [11, "Services suspended"],
+      [15, "Reminder (+14 days)"],
+    ]);
+  });
+
+  it("is empty when dunning is off", () => {
+    expect(dunningSchedule(due, { ...DEFAULT_DUNNING_SETTINGS, enabled: false })).toEqual([]);
+  });
+});
+
+describe("dunningEmail", () => {
+  it("includes the outstanding amount and the pay link", () => {
+    const email = dunningEmail({
+      step: "reminder", companyName: "Acme", invoiceNumber: "INV-7", outstanding: 1180,
+      dueDate: "2026-10-01", daysOverdue: 7, payUrl: "https://pay.test/inv-7",
+    });
+    expect(email.subject).toBe("Reminder: invoice INV-7 is 7 days overdue");
+    expect(email.text).toContain("₹1,180.00");
+    expect(email.text).toContain("due 1 Oct 2026");
+    expect(email.text).toContain("Pay online: https://pay.test/inv-7");
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import {
+  N8nApiError, createN8nClient, parseWorkflowJson, renderWorkflowTemplate, workflowWebhookUrls,
+  type N8nWorkflowDefinition, type WorkflowTemplateContext,
+} from "@shared/n8n";
+import { createFakeN8nApi } from "@/test/fake-n8n-api";
+
+const template: N8nWorkflowDefinition = {
+  name: "Voice Telecaller",
+  nodes: [
+    { id: "a", name: "Webhook", type: "n8n-nodes-base.webhook", parameters: { path: "template-path", httpMethod: "POST" } },
+    {
+      id: "b",
+      name: "Call",
+      type: "n8n-nodes-base.httpRequest",
+      parameters: {
+        url: "{{pixora.callback_url}}",
+        headers: { "X-Client": "{{ pixora.client_id }}", greeting: "Hi, this is {{pixora.config.agent.name}}" },
+        body: "{{pixora.config.retell_api_key}}",
+      },
+      credentials: { openAiApi: { id: "shared", name: "Platform OpenAI" }, httpHeaderAuth: { id: "shared-2", name: "Platform" } },
+    },
+  ],
+  connections: { Webhook: { main: [[{ node: "Call", type: "main", index: 0 }]] } },
+  settings: {},
+};
+
+const ctx = (over: Partial<WorkflowTemplateContext> = {}): WorkflowTemplateContext => ({
+  clientId: "client-1",
+  workflowInstanceId: "wf-1",
+  workflowName: "Voice Telecaller - Workflow",
+  config: { agent: { name: "Asha" }, retell_api_key: "key_123" },
+  callbackUrl: "https://example.supabase.co/functions/v1/handle-call-status",
+  callbackSecret: "s3cret",
+  credentials: [{ type: "openAiApi", id: "cred-9", name: "Acme OpenAI" }],
+  ...over,
+});
+
+describe("renderWorkflowTemplate", () => {
+  it("fills placeholders from the client's context", () => {
+    const { workflow, missing } = renderWorkflowTemplate(template, ctx());
+    const params = workflow.nodes[1].parameters as Record<string, unknown>;
+    expect(params.url).toBe("https://example.supabase.co/functions/v1/handle-call-status");
+    expect(params.headers).toEqual({ "X-Client": "client-1", greeting: "Hi, this is Asha" });
+    expect(params.body).toBe("key_123");
+    expect(workflow.name).toBe("Voice Telecaller - Workflow");
+    expect(missing).toEqual([]);
+  });
+
+  it("gives the webhook a path of the client's own", () => {
+    const { workflow } = renderWorkflowTemplate(template, ctx());
+    expect(workflow.nodes[0].parameters).toEqual({ path: "wf-1", httpMethod: "POST" });
+    expect(workflow.nodes[0].webhookId).toBe("wf-1");
+    expect(workflowWebhookUrls("https://n8n.example.com/", workflow)).toEqual({
+      webhookUrl: "https://n8n.example.com/webhook/wf-1",
+      testWebhookUrl: "https://n8n.example.com/webhook-test/wf-1",
+    });
+  });
+
+  it("swaps in the client's credentials and keeps shared ones", () => {
+    const { workflow } = renderWorkflowTemplate(template, ctx());
+    expect(workflow.nodes[1].credentials).toEqual({
+      openAiApi: { id: "cred-9", name: "Acme OpenAI" },
+      httpHeaderAuth: { id: "shared-2", name: "Platform" },
+    });
+  });
+
+  it("reports placeholders without a value", () => {
+    const { missing } = renderWorkflowTemplate(template, ctx({ config: {} }));
+    expect(missing).toEqual(["config.agent.name", "config.retell_api_key"]);
+  });
+
+  it("drops fields n8n assigns itself", () => {
+    const { workflow } = renderWorkflowTemplate(template, ctx());
+    expect(workflow.nodes.every((n) => n.id === undefined)).toBe(true);
+    expect(workflow.settings).toEqual({ executionOrder: "v1" });
+  });
+
+  it("makes a template with an Error Trigger its own error workflow once it exists in n8n", () => {
+    const withErrorTrigger: N8nWorkflowDefinition = {
+      ...template,
+      nodes: [...template.nodes, { name: "Error Trigger", type: "n8n-nodes-base.errorTrigger", parameters: {} }],
+    };
+    expect(renderWorkflowTemplate(withErrorTrigger, ctx()).workflow.settings).toEqual({ executionOrder: "v1" });
+    expect(renderWorkflowTemplate(withErrorTrigger, ctx({ n8nWorkflowId: "n8n-42" })).workflow.settings)
+      .toEqual({ executionOrder: "v1", errorWorkflow: "n8n-42" });
+    expect(renderWorkflowTemplate(template, ctx({ n8nWorkflowId: "n8n-42" })).workflow.settings)
+      .toEqual({ executionOrder: "v1" });
+  });
+});
+
+describe("parseWorkflowJson", () => {
+  it("accepts an exported workflow", () => {
+    expect(parseWorkflowJson(JSON.stringify({ ...template, id: "7", active: true })).nodes).toHaveLength(2);
+  });
+
+  it("rejects anything else", () => {
+    expect(() => parseWorkflowJson("{")).toThrow("not valid JSON");
+    expect(() => parseWorkflowJson(JSON.stringify({ nodes: [] }))).toThrow("nodes array");
+  });
+});
+
+describe("n8n client against the fake API", () => {
+  const setup = () => {
+    const api = createFakeN8nApi("test-key");
+    return { api, n8n: createN8nClient({ baseUrl: "http://n8n.local/api/v1", apiKey: "test-key", fetch: api.fetch }) };
+  };
+
+  it("creates, updates, activates and deletes a client's workflow", async () => {
+    const { api, n8n } = setup();
+    const { workflow } = renderWorkflowTemplate(template, ctx());
+
+    const created = await n8n.createWorkflow(workflow);
+    expect(created.active).toBe(false);
+    expect(api.workflows.get(created.id)?.nodes[0].parameters?.path).toBe("wf-1");
+
+    await n8n.updateWorkflow(created.id, { ...workflow, name: "Renamed" });
+    expect((await n8n.activateWorkflow(created.id)).active).toBe(true);
+    expect(api.workflows.get(created.id)?.name).toBe("Renamed");
+
+    expect((await n8n.deactivateWorkflow(created.id)).active).toBe(false);
+    expect(await n8n.deleteWorkflow(created.id)).toBe(true);
+    expect(api.workflows.size).toBe(0);
+    expect(await n8n.deleteWorkflow(created.id)).toBe(false);
+  });
+
+  it("copies a template workflow stored in n8n", async () => {
+    const { n8n } = setup();
+    const source = await n8n.createWorkflow(template);
+    const fetched = await n8n.getWorkflow(source.id);
+    const copy = await n8n.createWorkflow(renderWorkflowTemplate(fetched, ctx()).workflow);
+    expect(copy.id).not.toBe(source.id);
+  });
+
+  it("surfaces n8n's errors", async () => {
+    const { n8n } = setup();
+    const noTrigger = await n8n.createWorkflow({ ...template, nodes: [template.nodes[1]], connections: {} });
+    await expect(n8n.activateWorkflow(noTrigger.id)).rejects.toThrow("no node to start");
+    await expect(n8n.getWorkflow("missing")).rejects.toBeInstanceOf(N8nApiError);
+
+    const wrongKey = createN8nClient({ baseUrl: "http://n8n.local", apiKey: "nope", fetch: createFakeN8nApi("test-key").fetch });
+    await expect(wrongKey.createWorkflow(template)).rejects.toMatchObject({ status: 401 });
+  });
+});
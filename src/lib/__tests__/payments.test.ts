@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  createPaymentProvider, hmacSha256Hex, signFakeWebhook,
+} from "@shared/payment-providers";
+
+const secret = "whsec_test";
+
+describe("FakePaymentProvider", () => {
+  const provider = createPaymentProvider({ provider: "fake", webhookSecret: secret, checkoutBaseUrl: "https://pay.test" });
+
+  it("issues local checkout links", async () => {
+    const session = await provider.createCheckout({
+      invoiceId: "inv-1", invoiceNumber: "INV-2026-001", amount: 1180, currency: "INR",
+      description: "October usage", returnUrl: "https://app.test/client/usage",
+    });
+    expect(session).toEqual({ provider: "fake", reference: "fake_inv-1", url: "https://pay.test/inv-1?amount=1180&currency=INR", expiresAt: null });
+  });
+
+  it("accepts only correctly signed webhooks", async () => {
+    const body = JSON.stringify({ type: "payment", id: "pay_1", invoice_id: "inv-1", amount: 500, currency: "inr" });
+    const signed = new Headers({ "x-fake-signature": await signFakeWebhook(secret, body) });
+
+    expect(await provider.verifyWebhook(body, signed)).toBe(true);
+    expect(await provider.verifyWebhook(body.replace("500", "5000"), signed)).toBe(false);
+    expect(provider.parseWebhook(body)).toEqual({
+      provider: "fake", kind: "payment", transactionId: "pay_1", paymentId: "pay_1",
+      invoiceId: "inv-1", amount: 500, currency: "INR",
+    });
+  });
+});
+
+describe("StripePaymentProvider", () => {
+  const provider = createPaymentProvider({ provider: "stripe", apiKey: "sk_test", webhookSecret: secret });
+
+  it("verifies the signed timestamp and rejects stale deliveries", async () => {
+    const body = JSON.stringify({ type: "ping" });
+    const t = 1_790_000_000;
+    const header = `t=${t},v1=${await hmacSha256Hex(secret, `${t}.${body}`)}`;
+    const headers = new Headers({ "stripe-signature": header });
+
+    expect(await provider.verifyWebhook(body, headers, new Date(t * 1000 + 60_000))).toBe(true);
+    expect(await provider.verifyWebhook(body, headers, new Date(t * 1000 + 600_000))).toBe(false);
+  });
+
+  it("maps completed checkouts and refunds to invoice payments", () => {
+    const paid = provider.parseWebhook(JSON.stringify({
+      type: "checkout.session.completed",
+      data: { object: { id: "cs_1", payment_status: "paid", payment_intent: "pi_1", amount_total: 118000, currency: "inr", metadata: { invoice_id: "inv-1" } } },
+    }));
+    expect(paid).toMatchObject({ kind: "payment", transactionId: "pi_1", invoiceId: "inv-1", amount: 1180, currency: "INR" });
+
+    const refund = provider.parseWebhook(JSON.stringify({
+      type: "refund.created",
+      data: { object: { id: "re_1", status: "succeeded", payment_intent: "pi_1", amount: 20000, currency: "inr" } },
+    }));
+    expect(refund).toMatchObject({ kind: "refund", transactionId: "re_1", paymentId: "pi_1", invoiceId: null, amount: 200 });
+  });
+
+  it("creates checkout sessions in minor units", async () => {
+    const fetchImpl = vi.fn(async () => new Response(JSON.stringify({ id: "cs_1", url: "https://checkout.stripe.com/c/cs_1", expires_at: 1792540800 })));
+    const stripe = createPaymentProvider({ provider: "stripe", apiKey: "sk_test", webhookSecret: secret }, fetchImpl as unknown as typeof fetch);
+    const session = await stripe.createCheckout({
+      invoiceId: "inv-1", invoiceNumber: "INV-2026-001", amount: 1180.5, currency: "INR",
+      description: "October usage", returnUrl: "https://app.test/client/usage",
+    });
+
+    expect(session.url).toBe("https://checkout.stripe.com/c/cs_1");
+    expect(session.expiresAt).toBe(new Date(1792540800 * 1000).toISOString());
+    const body = new URLSearchParams((fetchImpl.mock.calls[0] as unknown as [string, RequestInit])[1].body as string);
+    expect(body.get("line_items[0][price_data][unit_amount]")).toBe("118050");
+    expect(body.get("metadata[invoice_id]")).toBe("inv-1");
+  });
+});
+
+describe("RazorpayPaymentProvider", () => {
+  const provider = createPaymentProvider({ provider: "razorpay", apiKey: "rzp_test", apiSecret: "s", webhookSecret: secret });
+
+  it("verifies the body signature and reads partial payments", async () => {
+    const body = JSON.stringify({
+      event: "payment_link.partially_paid",
+      payload: {
+        payment_link: { entity: { id: "plink_1", notes: { invoice_id: "inv-1" } } },
+        payment: { entity: { id: "pay_1", amount: 50000, currency: "INR" } },
+      },
+    });
+
+    expect(await provider.verifyWebhook(body, new Headers({ "x-razorpay-signature": await hmacSha256Hex(secret, body) }))).toBe(true);
+    expect(await provider.verifyWebhook(body, new Headers({ "x-razorpay-signature": "bad" }))).toBe(false);
+    expect(provider.parseWebhook(body)).toMatchObject({ kind: "payment", transactionId: "pay_1", invoiceId: "inv-1", amount: 500 });
+    expect(provider.parseWebhook(JSON.stringify({ event: "order.paid", payload: {} }))).toBeNull();
+  });
+});
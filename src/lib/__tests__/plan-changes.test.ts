@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { planChangeDirection, prorateMonthlyFee } from "@/lib/plan-changes";
+
+const utc = (s: string) => new Date(`${s}Z`);
+
+describe("prorateMonthlyFee", () => {
+  it("charges the difference for what is left of the month", () => {
+    // 2026-10-16 00:00 leaves 16 of October's 31 days
+    expect(prorateMonthlyFee(1000, 2550, utc("2026-10-16T00:00:00"))).toBe(800);
+  });
+
+  it("credits a downgrade", () => {
+    expect(prorateMonthlyFee(3000, 1500, utc("2026-11-16T00:00:00"))).toBe(-750);
+  });
+
+  it("needs no adjustment at the very start of a month", () => {
+    expect(prorateMonthlyFee(1000, 5000, utc("2026-10-01T00:00:00"))).toBe(0);
+  });
+
+  it("treats a missing plan or price as free", () => {
+    expect(prorateMonthlyFee(null, 2800, utc("2027-02-15T00:00:00"))).toBe(1400);
+  });
+});
+
+describe("planChangeDirection", () => {
+  it("compares monthly fees", () => {
+    expect(planChangeDirection(999, 1999)).toBe("upgrade");
+    expect(planChangeDirection(1999, 999)).toBe("downgrade");
+    expect(planChangeDirection(999, 999)).toBe("downgrade");
+  });
+
+  it("upgrades a service that had no plan", () => {
+    expect(planChangeDirection(null, 0, false)).toBe("upgrade");
+  });
+});
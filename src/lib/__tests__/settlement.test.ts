@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { statementRows, statementTotals, type StatementLine } from "@/lib/settlement";
+
+const lines: StatementLine[] = [
+  { service_id: "a", service_name: "AI Voice Telecaller", quantity: 120, overage_units: 20, wholesale_amount: 240, retail_amount: 312.5 },
+  { service_id: "b", service_name: "WhatsApp Automation", quantity: 1000, overage_units: 0, wholesale_amount: 100.1, retail_amount: 150.2 },
+];
+
+describe("statementTotals", () => {
+  it("sums what the admin owes and billed, and the margin between them", () => {
+    expect(statementTotals(lines)).toEqual({ quantity: 1120, wholesale: 340.1, retail: 462.7, margin: 122.6 });
+    expect(statementTotals([])).toEqual({ quantity: 0, wholesale: 0, retail: 0, margin: 0 });
+  });
+});
+
+describe("statementRows", () => {
+  it("formats one row per service and a closing total", () => {
+    const rows = statementRows(lines);
+    expect(rows[0]).toEqual(["AI Voice Telecaller", "120", "20", "312.50", "240.00", "72.50"]);
+    expect(rows[rows.length - 1]).toEqual(["Total", "1120", "", "462.70", "340.10", "122.60"]);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  MAX_PUBLISH_ATTEMPTS, applyPublishResults, pendingPlatforms, postToMultiplePlatforms,
+  socialConfigFromSettings, socialPostFromRecord, type SocialMediaConfig,
+} from "@shared/social-media";
+
+const facebook: SocialMediaConfig = { platform: "facebook", accessToken: "fb-token", accountId: "page-1" };
+const linkedin: SocialMediaConfig = { platform: "linkedin", accessToken: "li-token", accountId: "person-1" };
+const twitter: SocialMediaConfig = { platform: "twitter", accessToken: "tw-token", accountId: "" };
+
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+
+describe("postToMultiplePlatforms", () => {
+  it("reports failed platforms instead of dropping them", async () => {
+    const fetchImpl = vi.fn(async (url: RequestInfo | URL) => {
+      const u = String(url);
+      if (u.includes("graph.facebook.com")) return json({ id: "fb_1" });
+      if (u.includes("linkedin")) return json({ message: "Too many requests" }, 429);
+      return json({ detail: "Forbidden" }, 403);
+    }) as unknown as typeof fetch;
+
+    const results = await postToMultiplePlatforms([facebook, linkedin, twitter], { content: "Hello" }, fetchImpl);
+    expect(results.map((r) => [r.platform, r.ok, r.ok ? r.result?.postId : r.transient])).toEqual([
+      ["facebook", true, "fb_1"],
+      ["linkedin", false, true],
+      ["twitter", false, false],
+    ]);
+  });
+
+  it("retries platforms that cannot be reached", async () => {
+    const fetchImpl = vi.fn(async () => {
+      throw new TypeError("fetch failed");
+    }) as unknown as typeof fetch;
+    const [result] = await postToMultiplePlatforms([facebook], { content: "Hello" }, fetchImpl);
+    expect(result).toMatchObject({ ok: false, transient: true });
+  });
+});
+
+describe("applyPublishResults", () => {
+  const now = new Date("2026-10-19T10:00:00Z");
+  const posted = (platform: string) => ({
+    platform,
+    ok: true,
+    result: { platform, postId: `${platform}_1`, postUrl: `https://example.com/${platform}_1`, publishedAt: now },
+  });
+  const failed = (platform: string, transient: boolean) => ({ platform, ok: false, error: "boom", transient });
+
+  it("is posted when every platform succeeded", () => {
+    const outcome = applyPublishResults({}, [posted("facebook")], 1, now);
+    expect(outcome.status).toBe("posted");
+    expect(outcome.platform_post_ids.facebook).toMatchObject({ status: "posted", post_id: "facebook_1" });
+    expect(outcome.posted_at).toBe(now.toISOString());
+  });
+
+  it("schedules a retry with backoff for transient failures", () => {
+    const outcome = applyPublishResults({}, [posted("facebook"), failed("linkedin", true)], 2, now);
+    expect(outcome.status).toBe("scheduled");
+    expect(outcome.next_attempt_at).toBe("2026-10-19T10:02:00.000Z");
+    expect(outcome.error_message).toBe("linkedin: boom");
+    expect(pendingPlatforms("all", outcome.platform_post_ids)).toEqual(["instagram", "linkedin", "twitter"]);
+  });
+
+  it("is partial once the retries run out", () => {
+    const first = applyPublishResults({}, [posted("facebook"), failed("linkedin", true)], 1, now);
+    const last = applyPublishResults(first.platform_post_ids, [failed("linkedin", true)], MAX_PUBLISH_ATTEMPTS, now);
+    expect(last.status).toBe("partial");
+    expect(last.platform_post_ids.facebook.status).toBe("posted");
+    expect(last.platform_post_ids.linkedin).toMatchObject({ status: "failed", attempts: MAX_PUBLISH_ATTEMPTS });
+  });
+
+  it("fails right away on permanent errors", () => {
+    const outcome = applyPublishResults({}, [failed("instagram", false)], 1, now);
+    expect(outcome.status).toBe("failed");
+    expect(outcome.next_attempt_at).toBeNull();
+  });
+});
+
+describe("socialConfigFromSettings", () => {
+  it("reads the platform's token and account from saved settings", () => {
+    expect(socialConfigFromSettings("facebook", { facebook_access_token: "t", facebook_page_id: "p" }))
+      .toEqual({ platform: "facebook", accessToken: "t", accountId: "p" });
+    expect(socialConfigFromSettings("twitter", { twitter_access_token: "t" }))
+      .toEqual({ platform: "twitter", accessToken: "t", accountId: "" });
+    expect(socialConfigFromSettings("linkedin", { linkedin_access_token: "t" })).toBeNull();
+  });
+
+  it("appends hashtags to the post text", () => {
+    expect(socialPostFromRecord({ content: "Launch day", hashtags: ["news", "#launch"], media_urls: null }))
+      .toEqual({ content: "Launch day\n\n#news #launch", mediaUrls: [] });
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  OAuthError, buildAuthorizeUrl, exchangeAuthorizationCode, importTokenKey, openToken,
+  pkceChallenge, refreshAccessToken, refreshAction, sealToken,
+} from "@shared/social-oauth";
+import { SocialMediaApiError, isSocialAuthError } from "@shared/social-media";
+
+const app = { clientId: "client-1", clientSecret: "secret-1" };
+const now = new Date("2026-10-19T10:00:00Z");
+
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+
+describe("authorization", () => {
+  it("derives the RFC 7636 S256 challenge", async () => {
+    expect(await pkceChallenge("dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk"))
+      .toBe("E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM");
+  });
+
+  it("builds platform authorization URLs", () => {
+    const meta = new URL(buildAuthorizeUrl("instagram", { clientId: "app", redirectUri: "https://x.test/cb", state: "s1" }));
+    expect(meta.searchParams.get("scope")).toBe("pages_show_list,instagram_basic,instagram_content_publish");
+    expect(meta.searchParams.has("code_challenge")).toBe(false);
+
+    const x = new URL(buildAuthorizeUrl("twitter", { clientId: "app", redirectUri: "https://x.test/cb", state: "s2", codeChallenge: "c" }));
+    expect(x.searchParams.get("code_challenge_method")).toBe("S256");
+    expect(x.searchParams.get("scope")).toContain("offline.access");
+    expect(() => buildAuthorizeUrl("twitter", { clientId: "app", redirectUri: "https://x.test/cb", state: "s3" })).toThrow();
+  });
+});
+
+describe("exchangeAuthorizationCode", () => {
+  it("connects LinkedIn with the member's id and token expiry", async () => {
+    const fetchImpl = vi.fn(async (url: RequestInfo | URL) =>
+      String(url).includes("userinfo")
+        ? json({ sub: "member-1", name: "Ada Lovelace" })
+        : json({ access_token: "li-access", expires_in: 5_184_000, refresh_token: "li-refresh", refresh_token_expires_in: 31_536_000, scope: "openid,profile,w_member_social" })
+    ) as unknown as typeof fetch;
+
+    const account = await exchangeAuthorizationCode("linkedin", app, { code: "abc", redirectUri: "https://x.test/cb" }, fetchImpl, now);
+    expect(account).toMatchObject({ accountId: "member-1", accountName: "Ada Lovelace" });
+    expect(account.tokens).toMatchObject({
+      accessToken: "li-access",
+      refreshToken: "li-refresh",
+      expiresAt: "2026-12-18T10:00:00.000Z",
+      scopes: ["openid", "profile", "w_member_social"],
+    });
+  });
+
+  it("connects Instagram through the Page that links the business account", async () => {
+    const fetchImpl = vi.fn(async (url: RequestInfo | URL) =>
+      String(url).includes("/me/accounts")
+        ? json({ data: [
+            { id: "page-1", name: "No IG", access_token: "page-1-token" },
+            { id: "page-2", name: "Shop", access_token: "page-2-token", instagram_business_account: { id: "ig-1", username: "shop" } },
+          ] })
+        : json({ access_token: "user-token", expires_in: 3600 })
+    ) as unknown as typeof fetch;
+
+    const account = await exchangeAuthorizationCode("instagram", app, { code: "abc", redirectUri: "https://x.test/cb" }, fetchImpl, now);
+    expect(account).toMatchObject({ accountId: "ig-1", accountName: "shop" });
+    expect(account.tokens).toMatchObject({ accessToken: "page-2-token", refreshToken: null, expiresAt: null });
+  });
+});
+
+describe("refreshAccessToken", () => {
+  it("keeps the stored refresh token when the platform does not rotate it", async () => {
+    const fetchImpl = vi.fn(async () => json({ access_token: "li-2", expires_in: 5_184_000 })) as unknown as typeof fetch;
+    const tokens = await refreshAccessToken("linkedin", app, { refreshToken: "li-refresh", refreshExpiresAt: "2027-10-19T10:00:00Z" }, fetchImpl, now);
+    expect(tokens).toMatchObject({ accessToken: "li-2", refreshToken: "li-refresh", refreshExpiresAt: "2027-10-19T10:00:00Z" });
+  });
+
+  it("takes X's rotated refresh token and authenticates the app", async () => {
+    const fetchImpl = vi.fn(async () => json({ access_token: "x-2", refresh_token: "x-refresh-2", expires_in: 7200 })) as unknown as typeof fetch;
+    const tokens = await refreshAccessToken("twitter", app, { refreshToken: "x-refresh-1" }, fetchImpl, now);
+    expect(tokens).toMatchObject({ accessToken: "x-2", refreshToken: "x-refresh-2", expiresAt: "2026-10-19T12:00:00.000Z" });
+    const init = (fetchImpl as unknown as ReturnType<typeof vi.fn>).mock.calls[0][1] as RequestInit;
+    expect((init.headers as Record<string, string>).Authorization).toBe(`Basic ${btoa("client-1:secret-1")}`);
+  });
+
+  it("treats a rejected refresh token as needing a reconnect", async () => {
+    const fetchImpl = vi.fn(async () => json({ error: "invalid_grant" }, 400)) as unknown as typeof fetch;
+    const err = await refreshAccessToken("twitter", app, { refreshToken: "old" }, fetchImpl, now).catch((e) => e);
+    expect(err).toBeInstanceOf(OAuthError);
+    expect(err.transient).toBe(false);
+  });
+});
+
+describe("refreshAction", () => {
+  const hours = (h: number) => new Date(now.getTime() + h * 3_600_000).toISOString();
+
+  it("refreshes with a fifth of the lifetime left", () => {
+    expect(refreshAction({ expiresAt: hours(13 * 24), issuedAt: hours(-47 * 24), hasRefreshToken: true }, now)).toBe("none");
+    expect(refreshAction({ expiresAt: hours(11 * 24), issuedAt: hours(-49 * 24), hasRefreshToken: true }, now)).toBe("refresh");
+  });
+
+  it("keeps at least fifteen minutes to spare on short-lived tokens", () => {
+    expect(refreshAction({ expiresAt: hours(0.3), issuedAt: hours(-0.2), hasRefreshToken: true }, now)).toBe("none");
+    expect(refreshAction({ expiresAt: hours(0.2), issuedAt: hours(-0.3), hasRefreshToken: true }, now)).toBe("refresh");
+  });
+
+  it("asks for a reconnect without a usable refresh token", () => {
+    expect(refreshAction({ expiresAt: hours(1), issuedAt: hours(-1000), hasRefreshToken: false }, now)).toBe("reconnect");
+    expect(refreshAction({ expiresAt: hours(1), issuedAt: hours(-1000), hasRefreshToken: true, refreshExpiresAt: hours(-1) }, now)).toBe("reconnect");
+    expect(refreshAction({ expiresAt: null, issuedAt: null, hasRefreshToken: false }, now)).toBe("none");
+  });
+});
+
+describe("token sealing", () => {
+  const keyB64 = btoa(String.fromCharCode(...new Uint8Array(32).map((_, i) => i)));
+
+  it("round-trips and rejects tampering or another key", async () => {
+    const key = await importTokenKey(keyB64);
+    const sealed = await sealToken("secret-token", key);
+    expect(sealed.startsWith("v1.")).toBe(true);
+    expect(sealed).not.toContain("secret-token");
+    expect(await openToken(sealed, key)).toBe("secret-token");
+
+    const tampered = sealed.slice(0, -2) + (sealed.endsWith("A") ? "BB" : "AA");
+    await expect(openToken(tampered, key)).rejects.toThrow();
+
+    const other = await importTokenKey(btoa(String.fromCharCode(...new Uint8Array(32).fill(7))));
+    await expect(openToken(sealed, other)).rejects.toThrow();
+  });
+
+  it("requires a 32 byte key", async () => {
+    await expect(importTokenKey(btoa("short"))).rejects.toThrow("32 bytes");
+  });
+});
+
+describe("isSocialAuthError", () => {
+  it("recognises rejected tokens", () => {
+    expect(isSocialAuthError(new SocialMediaApiError("linkedin", 401, "Unauthorized"))).toBe(true);
+    expect(isSocialAuthError(new SocialMediaApiError("facebook", 400, 'Post failed (400): {"error":{"type":"OAuthException","code":190}}'))).toBe(true);
+    expect(isSocialAuthError(new SocialMediaApiError("facebook", 400, '{"error":{"code":100}}'))).toBe(false);
+    expect(isSocialAuthError(new SocialMediaApiError("twitter", 429, "Too many requests"))).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_TAX_SETTINGS, computeLineTax, isValidGstin, resolveTaxTreatment, sumLineTaxes, taxRateFor,
+} from "@/lib/tax";
+
+const gstSupplier = { tax_regime: "gst" as const, country_code: "IN", state_code: "27" };
+const client = (overrides = {}) => ({
+  tax_id: null, billing_country_code: "IN", billing_state_code: null, billing_address: null, ...overrides,
+});
+
+describe("resolveTaxTreatment", () => {
+  it("splits GST within the supplier's state and uses IGST across states", () => {
+    expect(resolveTaxTreatment(gstSupplier, client({ billing_state_code: "27" }))).toBe("intra_state");
+    expect(resolveTaxTreatment(gstSupplier, client({ billing_state_code: "29" }))).toBe("inter_state");
+    expect(resolveTaxTreatment(gstSupplier, client())).toBe("intra_state");
+  });
+
+  it("zero rates exports and applies reverse charge only to registered foreign VAT customers", () => {
+    expect(resolveTaxTreatment(gstSupplier, client({ billing_country_code: "US" }))).toBe("export");
+    const vatSupplier = { tax_regime: "vat" as const, country_code: "DE", state_code: null };
+    expect(resolveTaxTreatment(vatSupplier, client({ billing_country_code: "FR", tax_id: "FR123" }))).toBe("reverse_charge");
+    expect(resolveTaxTreatment(vatSupplier, client({ billing_country_code: "FR" }))).toBe("vat");
+    expect(resolveTaxTreatment(vatSupplier, client({ billing_country_code: "DE", tax_id: "DE1" }))).toBe("vat");
+  });
+
+  it("charges nothing without a tax registration", () => {
+    expect(resolveTaxTreatment(null, client())).toBe("none");
+    expect(resolveTaxTreatment({ ...gstSupplier, tax_regime: "none" }, client())).toBe("none");
+  });
+});
+
+describe("computeLineTax", () => {
+  it("halves intra-state GST into CGST and SGST without losing a paisa", () => {
+    const tax = computeLineTax(100.05, 18, "intra_state");
+    expect(tax.total).toBe(18.01);
+    expect(tax.cgst + tax.sgst).toBeCloseTo(18.01, 2);
+    expect(tax.igst).toBe(0);
+  });
+
+  it("puts inter-state tax in IGST and charges nothing on zero-rated lines", () => {
+    expect(computeLineTax(1000, 18, "inter_state")).toMatchObject({ igst: 180, cgst: 0, total: 180 });
+    expect(computeLineTax(1000, 18, "export").total).toBe(0);
+  });
+
+  it("sums lines for the invoice totals", () => {
+    const lines = [computeLineTax(1000, 18, "intra_state"), computeLineTax(500, 5, "intra_state")];
+    expect(sumLineTaxes(lines)).toEqual({ cgst: 102.5, sgst: 102.5, igst: 0, vat: 0, total: 205 });
+  });
+});
+
+describe("taxRateFor", () => {
+  it("prefers the category rate over the default", () => {
+    const settings = { ...DEFAULT_TAX_SETTINGS, tax_regime: "gst" as const, category_rates: { messaging: 12 } };
+    expect(taxRateFor(settings, "messaging", "intra_state")).toBe(12);
+    expect(taxRateFor(settings, "voice", "intra_state")).toBe(18);
+    expect(taxRateFor(settings, "voice", "export")).toBe(0);
+  });
+});
+
+describe("isValidGstin", () => {
+  it("checks the format and the state prefix", () => {
+    expect(isValidGstin("27aapfu0939f1zv")).toBe(true);
+    expect(isValidGstin("27AAPFU0939F1ZV", "27")).toBe(true);
+    expect(isValidGstin("27AAPFU0939F1ZV", "29")).toBe(false);
+    expect(isValidGstin("27AAPFU0939F1V")).toBe(false);
+  });
+});
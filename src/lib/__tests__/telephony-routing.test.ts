@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  TelephonyRouter, TelephonyRoutingError, routerOptionsFromRows, type RouteAttempt, type RoutingRule,
+} from "@shared/telephony-routing";
+import type { CallOptions, TelephonyClient, TelephonyConfig } from "@shared/telephony";
+
+const configs: TelephonyConfig[] = [
+  { provider: "exotel", accountSid: "ex", apiKey: "k", fromNumber: "+910000000000" },
+  { provider: "twilio", accountSid: "tw", apiKey: "k", fromNumber: "+10000000000" },
+  { provider: "telnyx", accountSid: "tx", apiKey: "k", fromNumber: "+10000000001" },
+];
+
+function fakeFactory(failing: string[] = []) {
+  const calls: string[] = [];
+  const options: CallOptions[] = [];
+  const factory = (config: TelephonyConfig) =>
+    ({
+      makeCall: vi.fn(async (callOptions: CallOptions) => {
+        calls.push(config.provider);
+        options.push(callOptions);
+        if (failing.includes(config.provider)) throw new Error(`${config.provider} down`);
+        return { callId: `${config.provider}-call`, status: "queued", provider: config.provider };
+      }),
+    }) as unknown as TelephonyClient;
+  return { factory, calls, options };
+}
+
+describe("TelephonyRouter.resolveProviders", () => {
+  const rules: RoutingRule[] = [
+    { providers: ["exotel", "twilio"], strategy: "priority" },
+    { prefix: "+1", providers: ["twilio", "telnyx"], strategy: "priority" },
+    { clientId: "client-a", providers: ["telnyx", "exotel"], strategy: "priority" },
+  ];
+
+  it("prefers client rules, then the longest prefix, then the default", () => {
+    const router = new TelephonyRouter(configs, { rules });
+    expect(router.resolveProviders("+919876543210", "client-a")).toEqual(["telnyx", "exotel"]);
+    expect(router.resolveProviders("+1 415 555 0100", "client-b")).toEqual(["twilio", "telnyx"]);
+    expect(router.resolveProviders("+919876543210", "client-b")).toEqual(["exotel", "twilio"]);
+  });
+
+  it("orders by rate for least-cost rules, unrated providers last", () => {
+    const router = new TelephonyRouter(configs, {
+      rules: [{ providers: ["exotel", "twilio", "telnyx"], strategy: "least_cost" }],
+      rates: [
+        { provider: "exotel", prefix: "+91", ratePerMinute: 0.9 },
+        { provider: "twilio", prefix: "+9", ratePerMinute: 0.2 },
+        { provider: "twilio", prefix: "+91", ratePerMinute: 1.5 },
+      ],
+    });
+    expect(router.resolveProviders("+919876543210")).toEqual(["exotel", "twilio", "telnyx"]);
+    expect(router.resolveProviders("+971500000000")).toEqual(["twilio", "exotel", "telnyx"]);
+  });
+});
+
+describe("TelephonyRouter.makeCall", () => {
+  it("fails over to the next provider and reports every attempt", async () => {
+    const { factory, calls } = fakeFactory(["exotel"]);
+    const seen: RouteAttempt[] = [];
+    const router = new TelephonyRouter(configs, {
+      rules: [{ providers: ["exotel", "twilio"], strategy: "priority" }],
+      clientFactory: factory,
+      onAttempt: (a) => { seen.push(a); },
+    });
+
+    const result = await router.makeCall({ to: "+919876543210" });
+
+    expect(calls).toEqual(["exotel", "twilio"]);
+    expect(result.provider).toBe("twilio");
+    expect(result.attempts.map((a) => [a.provider, a.success])).toEqual([["exotel", false], ["twilio", true]]);
+    expect(seen).toHaveLength(2);
+    expect(seen[0].error).toBe("exotel down");
+  });
+
+  it("throws a TelephonyRoutingError when every provider fails", async () => {
+    const { factory } = fakeFactory(["exotel", "twilio"]);
+    const router = new TelephonyRouter(configs.slice(0, 2), { clientFactory: factory });
+
+    await expect(router.makeCall({ to: "+919876543210" })).rejects.toBeInstanceOf(TelephonyRoutingError);
+  });
+
+  it("marks destinations no configured provider serves as unroutable", async () => {
+    const { factory, calls } = fakeFactory();
+    const router = new TelephonyRouter(configs.slice(0, 1), {
+      rules: [{ prefix: "+1", providers: ["twilio"], strategy: "priority" }],
+      clientFactory: factory,
+    });
+
+    await expect(router.makeCall({ to: "+14155550100" })).rejects.toMatchObject({ unroutable: true });
+    expect(calls).toEqual([]);
+  });
+
+  it("adds each provider's own options to its attempt", async () => {
+    const { factory, options } = fakeFactory(["exotel"]);
+    const router = new TelephonyRouter(configs, {
+      rules: [{ providers: ["exotel", "twilio"], strategy: "priority" }],
+      clientFactory: factory,
+    });
+
+    await router.makeCall({ to: "+919876543210", record: true }, null, (provider) => ({
+      statusCallback: `https://hooks.test/status?provider=${provider}`,
+    }));
+
+    expect(options.map((o) => [o.statusCallback, o.record])).toEqual([
+      ["https://hooks.test/status?provider=exotel", true],
+      ["https://hooks.test/status?provider=twilio", true],
+    ]);
+  });
+});
+
+describe("routerOptionsFromRows", () => {
+  it("maps routes and numeric rates", () => {
+    const { rules, rates } = routerOptionsFromRows(
+      [{ client_id: null, country_prefix: "+91", providers: ["exotel"], strategy: "least_cost" }],
+      [{ provider: "exotel", prefix: "+91", rate_per_minute: "0.45" }]
+    );
+    expect(rules).toEqual([{ clientId: null, prefix: "+91", providers: ["exotel"], strategy: "least_cost" }]);
+    expect(rates).toEqual([{ provider: "exotel", prefix: "+91", ratePerMinute: 0.45 }]);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { buildStatusCallbackUrl, normalizeCallStatus } from "@shared/telephony";
+
+describe("normalizeCallStatus", () => {
+  it("maps Twilio and Exotel statuses", () => {
+    expect(normalizeCallStatus("twilio", "queued")).toBe("initiated");
+    expect(normalizeCallStatus("twilio", "in-progress")).toBe("answered");
+    expect(normalizeCallStatus("twilio", "no-answer")).toBe("no_answer");
+    expect(normalizeCallStatus("twilio", "canceled")).toBe("failed");
+    expect(normalizeCallStatus("exotel", "Completed")).toBe("completed");
+    expect(normalizeCallStatus("exotel", "busy")).toBe("busy");
+  });
+
+  it("maps Telnyx events and hangup causes", () => {
+    expect(normalizeCallStatus("telnyx", "call.initiated")).toBe("initiated");
+    expect(normalizeCallStatus("telnyx", "call.answered")).toBe("answered");
+    expect(normalizeCallStatus("telnyx", "call.hangup", "normal_clearing")).toBe("completed");
+    expect(normalizeCallStatus("telnyx", "call.hangup", "user_busy")).toBe("busy");
+    expect(normalizeCallStatus("telnyx", "call.hangup", "timeout")).toBe("no_answer");
+    expect(normalizeCallStatus("telnyx", "call.hangup")).toBe("failed");
+  });
+
+  it("returns null for events without a status", () => {
+    expect(normalizeCallStatus("telnyx", "call.recording.saved")).toBeNull();
+    expect(normalizeCallStatus("twilio", "something-new")).toBeNull();
+  });
+});
+
+describe("buildStatusCallbackUrl", () => {
+  it("encodes the provider and call context", () => {
+    const url = new URL(
+      buildStatusCallbackUrl("https://example.supabase.co/functions/v1/telephony-status-webhook", "exotel", {
+        clientId: "client-1",
+        contactId: "contact-1",
+        token: "secret",
+      })
+    );
+    expect(url.searchParams.get("provider")).toBe("exotel");
+    expect(url.searchParams.get("client_id")).toBe("client-1");
+    expect(url.searchParams.get("contact_id")).toBe("contact-1");
+    expect(url.searchParams.get("campaign_id")).toBeNull();
+    expect(url.searchParams.get("token")).toBe("secret");
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { evaluateUsage, overageUnits } from "@/lib/usage-limits";
+
+describe("evaluateUsage", () => {
+  it("counts in-flight reservations against the limit", () => {
+    expect(evaluateUsage({ consumed: 95, reserved: 4, limit: 100, policy: "block" }).allowed).toBe(true);
+
+    const refused = evaluateUsage({ consumed: 95, reserved: 5, limit: 100, policy: "block" });
+    expect(refused.allowed).toBe(false);
+    expect(refused.reason).toContain("95/100");
+  });
+
+  it("lets overage and soft-cap plans continue and reports the units past the limit", () => {
+    expect(evaluateUsage({ consumed: 98, reserved: 0, limit: 100, policy: "overage" }, 5))
+      .toEqual({ allowed: true, overageUnits: 3 });
+    expect(evaluateUsage({ consumed: 120, reserved: 0, limit: 100, policy: "soft_cap" }, 2))
+      .toEqual({ allowed: true, overageUnits: 2 });
+  });
+
+  it("treats a zero limit as unmetered", () => {
+    expect(evaluateUsage({ consumed: 5000, reserved: 0, limit: 0, policy: "block" }).allowed).toBe(true);
+    expect(overageUnits(5000, 0)).toBe(0);
+    expect(overageUnits(130, 100)).toBe(30);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { formatUsagePeriod, usagePeriodBounds } from "@/lib/usage-periods";
+
+const utc = (s: string) => new Date(`${s}Z`);
+
+describe("usagePeriodBounds", () => {
+  it("runs daily periods from midnight to midnight", () => {
+    expect(usagePeriodBounds("daily", utc("2026-01-15T10:00:00"), utc("2026-10-19T17:30:00"))).toEqual({
+      start: utc("2026-10-19T00:00:00"),
+      end: utc("2026-10-20T00:00:00"),
+    });
+  });
+
+  it("starts weekly periods on the anchor's weekday", () => {
+    // Anchored on a Wednesday; 2026-10-19 is a Monday
+    const { start, end } = usagePeriodBounds("weekly", utc("2026-10-07T09:00:00"), utc("2026-10-19T12:00:00"));
+    expect(start).toEqual(utc("2026-10-14T00:00:00"));
+    expect(end).toEqual(utc("2026-10-21T00:00:00"));
+  });
+
+  it("anchors monthly periods on the assignment day", () => {
+    const anchor = utc("2026-03-20T08:00:00");
+    expect(usagePeriodBounds("monthly", anchor, utc("2026-10-19T12:00:00"))).toEqual({
+      start: utc("2026-09-20T00:00:00"),
+      end: utc("2026-10-20T00:00:00"),
+    });
+    expect(usagePeriodBounds("monthly", anchor, utc("2026-12-25T00:00:00"))).toEqual({
+      start: utc("2026-12-20T00:00:00"),
+      end: utc("2027-01-20T00:00:00"),
+    });
+  });
+
+  it("falls back to the last day in months shorter than the anchor day", () => {
+    const anchor = utc("2026-01-31T00:00:00");
+    expect(usagePeriodBounds("monthly", anchor, utc("2026-02-28T12:00:00"))).toEqual({
+      start: utc("2026-02-28T00:00:00"),
+      end: utc("2026-03-31T00:00:00"),
+    });
+    expect(usagePeriodBounds("monthly", anchor, utc("2026-02-10T12:00:00")).start).toEqual(utc("2026-01-31T00:00:00"));
+  });
+
+  it("never closes a period that does not reset", () => {
+    expect(usagePeriodBounds("never", utc("2026-05-02T10:00:00")).end).toBeNull();
+  });
+});
+
+describe("formatUsagePeriod", () => {
+  it("shows both ends, or where an open period began", () => {
+    expect(formatUsagePeriod("2026-09-20T00:00:00Z", "2026-10-20T00:00:00Z")).toBe("Sep 20 – Oct 20");
+    expect(formatUsagePeriod("2026-05-02T00:00:00Z", null)).toBe("Since May 2");
+  });
+});
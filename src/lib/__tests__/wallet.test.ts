@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { forecastWallet } from "@/lib/wallet";
+
+const now = new Date(2026, 9, 19, 12);
+const daysAgo = (n: number) => new Date(2026, 9, 19 - n, 10).toISOString();
+
+describe("forecastWallet", () => {
+  it("projects depletion from recent usage debits only", () => {
+    const forecast = forecastWallet(
+      1000,
+      [
+        { transaction_type: "usage_debit", amount: -700, created_at: daysAgo(1) },
+        { transaction_type: "usage_debit", amount: -700, created_at: daysAgo(10) },
+        { transaction_type: "usage_debit", amount: -5000, created_at: daysAgo(30) },
+        { transaction_type: "top_up", amount: 2000, created_at: daysAgo(2) },
+      ],
+      now,
+    );
+    expect(forecast.dailyBurn).toBe(100);
+    expect(forecast.daysRemaining).toBe(10);
+    expect(forecast.depletesOn?.getDate()).toBe(29);
+  });
+
+  it("has no depletion date without spend, and none left once empty", () => {
+    expect(forecastWallet(500, [], now)).toEqual({ dailyBurn: 0, daysRemaining: null, depletesOn: null });
+    expect(forecastWallet(-20, [{ transaction_type: "usage_debit", amount: -140, created_at: daysAgo(0) }], now).daysRemaining).toBe(0);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildRecipients,
+  detectPhoneColumn,
+  findMissingParams,
+  renderTemplate,
+  resolveTemplateParams,
+  templateVariables,
+  type TemplateParamSource,
+} from "@/lib/whatsapp-campaign";
+
+const rows = [
+  { Phone: "+91 98765 43210", name: "Asha", plan: "Gold" },
+  { Phone: "919876543210", name: "Asha again", plan: "Gold" },
+  { Phone: "12345", name: "Bad", plan: "" },
+  { Phone: "+1 (415) 555-0100", name: "Sam", plan: "" },
+];
+
+describe("buildRecipients", () => {
+  it("normalizes numbers and drops invalid and duplicate rows", () => {
+    const column = detectPhoneColumn(Object.keys(rows[0]));
+    expect(column).toBe("Phone");
+
+    const result = buildRecipients(rows, column!);
+    expect(result.recipients.map((r) => r.phone)).toEqual(["+919876543210", "+14155550100"]);
+    expect(result.recipients[0].fields.name).toBe("Asha");
+    expect(result.invalidRows).toBe(1);
+    expect(result.duplicateRows).toBe(1);
+  });
+});
+
+describe("template parameters", () => {
+  const body = "Hi {{1}}, your {{2}} plan renews soon. Reply {{1}} to confirm.";
+  const { recipients } = buildRecipients(rows, "Phone");
+
+  it("maps variables to CSV columns or static text per recipient", () => {
+    const variables = templateVariables(body);
+    const mapping: Record<string, TemplateParamSource> = {
+      "1": { source: "column", column: "name" },
+      "2": { source: "static", value: "Pro" },
+    };
+
+    expect(variables).toEqual(["1", "2"]);
+    const params = resolveTemplateParams(variables, mapping, recipients[0]);
+    expect(params).toEqual(["Asha", "Pro"]);
+    expect(renderTemplate(body, params)).toBe("Hi Asha, your Pro plan renews soon. Reply Asha to confirm.");
+  });
+
+  it("reports unmapped variables and columns that are empty for some recipients", () => {
+    const mapping: Record<string, TemplateParamSource> = { "2": { source: "column", column: "plan" } };
+    expect(findMissingParams(["1", "2"], mapping, recipients)).toEqual(["1", "2"]);
+    expect(findMissingParams(["2"], { "2": { source: "column", column: "name" } }, recipients)).toEqual([]);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatSessionRemaining,
+  getSessionWindow,
+  normalizeWhatsAppPhone,
+  requiresTemplate,
+} from "@/lib/whatsapp-session";
+
+const now = new Date("2026-10-19T12:00:00Z");
+
+describe("getSessionWindow", () => {
+  it("stays open for 24 hours after the last inbound message", () => {
+    const window = getSessionWindow("2026-10-19T02:30:00Z", now);
+
+    expect(window.open).toBe(true);
+    expect(window.expiresAt?.toISOString()).toBe("2026-10-20T02:30:00.000Z");
+    expect(formatSessionRemaining(window.remainingMs)).toBe("14h 30m");
+  });
+
+  it("is closed once 24 hours have passed or the customer never wrote in", () => {
+    expect(getSessionWindow("2026-10-18T12:00:00Z", now)).toMatchObject({ open: false, remainingMs: 0 });
+    expect(getSessionWindow(null, now)).toEqual({ open: false, expiresAt: null, remainingMs: 0 });
+  });
+});
+
+describe("requiresTemplate", () => {
+  it("forces a template for free-form messages outside the window only", () => {
+    expect(requiresTemplate("text", "2026-10-19T11:00:00Z", now)).toBe(false);
+    expect(requiresTemplate("text", "2026-10-17T11:00:00Z", now)).toBe(true);
+    expect(requiresTemplate("image", null, now)).toBe(true);
+    expect(requiresTemplate("template", null, now)).toBe(false);
+  });
+});
+
+describe("formatting helpers", () => {
+  it("formats the remaining time and normalizes phone numbers", () => {
+    expect(formatSessionRemaining(45 * 60000)).toBe("45m");
+    expect(formatSessionRemaining(30000)).toBe("<1m");
+    expect(normalizeWhatsAppPhone("+91 98765-43210")).toBe("919876543210");
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_RETRY_POLICY, nodeTimingBars, normalizeRetryPolicy, retryDelaySeconds, retrySchedule,
+} from "@/lib/workflow-executions";
+
+describe("retry backoff", () => {
+  it("grows the delay by the multiplier per attempt", () => {
+    expect(retryDelaySeconds(DEFAULT_RETRY_POLICY, 1)).toBe(60);
+    expect(retryDelaySeconds(DEFAULT_RETRY_POLICY, 2)).toBe(120);
+    expect(retryDelaySeconds(DEFAULT_RETRY_POLICY, 3)).toBe(240);
+  });
+
+  it("caps the delay", () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, max_delay_seconds: 300 };
+    expect(retryDelaySeconds(policy, 10)).toBe(300);
+  });
+
+  it("lists one wait per retry", () => {
+    expect(retrySchedule(DEFAULT_RETRY_POLICY)).toEqual([60, 120]);
+    expect(retrySchedule({ ...DEFAULT_RETRY_POLICY, max_attempts: 1 })).toEqual([]);
+  });
+});
+
+describe("normalizeRetryPolicy", () => {
+  it("fills in missing fields and clamps invalid ones", () => {
+    expect(normalizeRetryPolicy(null)).toEqual(DEFAULT_RETRY_POLICY);
+    expect(normalizeRetryPolicy({ max_attempts: 0, backoff_multiplier: 0.5, initial_delay_seconds: "30" })).toEqual({
+      ...DEFAULT_RETRY_POLICY,
+      max_attempts: 1,
+      backoff_multiplier: 1,
+      initial_delay_seconds: 30,
+    });
+  });
+});
+
+describe("nodeTimingBars", () => {
+  it("places nodes by their start time", () => {
+    const bars = nodeTimingBars([
+      { name: "Webhook", started_at: "2026-10-19T10:00:00.000Z", duration_ms: 100 },
+      { name: "HTTP Request", started_at: "2026-10-19T10:00:00.100Z", duration_ms: 300 },
+    ]);
+    expect(bars.map((b) => [b.name, b.offset, b.width])).toEqual([
+      ["Webhook", 0, 0.25],
+      ["HTTP Request", 0.25, 0.75],
+    ]);
+  });
+
+  it("chains nodes without start times", () => {
+    const bars = nodeTimingBars([
+      { name: "A", duration_ms: 50 },
+      { name: "B", duration_ms: 150 },
+    ]);
+    expect(bars[1].offset).toBe(0.25);
+    expect(bars[1].width).toBe(0.75);
+  });
+
+  it("handles runs without node timings", () => {
+    expect(nodeTimingBars(null)).toEqual([]);
+  });
+});
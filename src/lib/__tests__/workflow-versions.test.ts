@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_ROLLOUT_OPTIONS, bumpVersion, compareSemver, diffLines, diffTemplateVersions, isErrorSpike,
+  isValidSemver, rolloutDecision, type TemplateVersion,
+} from "@/lib/workflow-versions";
+
+const options = DEFAULT_ROLLOUT_OPTIONS; // 20% max error rate, 10 executions, 30 minutes
+
+describe("semver", () => {
+  it("orders versions numerically", () => {
+    expect(compareSemver("1.10.0", "1.9.3")).toBeGreaterThan(0);
+    expect(compareSemver("2.0.0", "2.0.0")).toBe(0);
+    expect(compareSemver("0.9.9", "1.0.0")).toBeLessThan(0);
+  });
+
+  it("bumps each part", () => {
+    expect(bumpVersion("1.4.2", "patch")).toBe("1.4.3");
+    expect(bumpVersion("1.4.2", "minor")).toBe("1.5.0");
+    expect(bumpVersion("1.4.2", "major")).toBe("2.0.0");
+  });
+
+  it("only accepts major.minor.patch", () => {
+    expect(isValidSemver("1.0.0")).toBe(true);
+    expect(isValidSemver("1.0")).toBe(false);
+    expect(isValidSemver("v1.0.0")).toBe(false);
+  });
+});
+
+describe("isErrorSpike", () => {
+  const baseline = { executions: 100, errors: 5 };
+
+  it("ignores too few executions", () => {
+    expect(isErrorSpike(baseline, { executions: 5, errors: 5 }, options)).toBe(false);
+  });
+
+  it("flags an error rate above the limit", () => {
+    expect(isErrorSpike(baseline, { executions: 20, errors: 5 }, options)).toBe(true);
+    expect(isErrorSpike(baseline, { executions: 20, errors: 4 }, options)).toBe(false);
+  });
+
+  it("allows a little over an already high baseline", () => {
+    const noisy = { executions: 100, errors: 30 };
+    expect(isErrorSpike(noisy, { executions: 20, errors: 7 }, options)).toBe(false);
+    expect(isErrorSpike(noisy, { executions: 20, errors: 9 }, options)).toBe(true);
+  });
+});
+
+describe("rolloutDecision", () => {
+  const baseline = { executions: 0, errors: 0 };
+
+  it("rolls back on a spike without waiting for the window", () => {
+    expect(rolloutDecision(baseline, { executions: 10, errors: 6 }, options, 5)).toBe("rollback");
+  });
+
+  it("waits out the observation window", () => {
+    expect(rolloutDecision(baseline, { executions: 50, errors: 0 }, options, 29)).toBe("wait");
+    expect(rolloutDecision(baseline, { executions: 50, errors: 0 }, options, 30)).toBe("promote");
+  });
+
+  it("gives quiet workflows longer before promoting", () => {
+    expect(rolloutDecision(baseline, { executions: 3, errors: 0 }, options, 60)).toBe("wait");
+    expect(rolloutDecision(baseline, { executions: 3, errors: 0 }, options, 120)).toBe("promote");
+  });
+});
+
+describe("diffLines", () => {
+  it("marks added and removed lines", () => {
+    expect(diffLines("a\nb\nc", "a\nc\nd")).toEqual([
+      { type: "same", text: "a" },
+      { type: "removed", text: "b" },
+      { type: "same", text: "c" },
+      { type: "added", text: "d" },
+    ]);
+  });
+
+  it("handles empty sides", () => {
+    expect(diffLines("", "x")).toEqual([{ type: "added", text: "x" }]);
+    expect(diffLines("x", "")).toEqual([{ type: "removed", text: "x" }]);
+  });
+});
+
+describe("diffTemplateVersions", () => {
+  const version = (over: Partial<TemplateVersion>): TemplateVersion => ({
+    id: "v",
+    template_id: "t",
+    version: "1.0.0",
+    changelog: null,
+    workflow_json: { nodes: [{ name: "Webhook" }] },
+    n8n_template_workflow_id: null,
+    master_prompt: "Be polite.",
+    default_config: { language: "en" },
+    required_credentials: ["retell_api_key"],
+    created_at: "2026-10-01T00:00:00Z",
+    ...over,
+  });
+
+  it("lists only the parts that changed", () => {
+    const sections = diffTemplateVersions(version({}), version({ version: "1.1.0", master_prompt: "Be brief." }));
+    expect(sections.map((s) => s.label)).toEqual(["Master Prompt"]);
+    expect(sections[0].lines).toEqual([
+      { type: "removed", text: "Be polite." },
+      { type: "added", text: "Be brief." },
+    ]);
+  });
+});
@@ -0,0 +1,36 @@
+import { ValidationError } from "@/lib/error-handler";
+import type { KnowledgeSourceType } from "@shared/ai-knowledge";
+
+/**
+ * Knowledge retrieval for the AI chatbot. Chunking, prompt building and
+ * citations are shared with the edge functions in
+ * supabase/functions/_shared/ai-knowledge.ts; this module adds the checks the
+ * app runs before a document is uploaded.
+ */
+
+export * from "@shared/ai-knowledge";
+
+export const MAX_KNOWLEDGE_FILE_BYTES = 10 * 1024 * 1024;
+export const KNOWLEDGE_FILE_TYPES: Record<string, KnowledgeSourceType> = {
+  "application/pdf": "pdf",
+  "text/plain": "text",
+  "text/markdown": "text",
+};
+
+/** Checks an uploaded document before it goes to storage. */
+export function validateKnowledgeFile(file: { name: string; type: string; size: number }): KnowledgeSourceType {
+  const byExtension = file.name.toLowerCase().endsWith(".pdf")
+    ? "pdf"
+    : /\.(txt|md)$/i.test(file.name)
+      ? "text"
+      : undefined;
+  const sourceType = KNOWLEDGE_FILE_TYPES[file.type] ?? byExtension;
+
+  if (!sourceType) {
+    throw new ValidationError("Only PDF and plain text (.txt, .md) documents are supported");
+  }
+  if (file.size > MAX_KNOWLEDGE_FILE_BYTES) {
+    throw new ValidationError("Documents must be 10 MB or smaller");
+  }
+  return sourceType;
+}
@@ -0,0 +1,73 @@
+import { format, startOfMonth, subMonths } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Invoice pricing and the monthly billing run. The run itself is the
+ * `generate_period_invoices` RPC; `resolveUnitPrice` mirrors its
+ * `client_unit_price` rule so manual invoices price services the same way.
+ */
+
+export interface AdminServicePricing {
+  markup_percentage: number | null;
+  custom_price_per_unit: number | null;
+  is_custom_pricing: boolean | null;
+}
+
+export interface BillingPeriodOption {
+  /** First day of the month, yyyy-MM-dd */
+  value: string;
+  label: string;
+}
+
+/** What a client pays per unit: the admin's custom price, else base price plus markup. */
+export function resolveUnitPrice(basePrice: number, pricing?: AdminServicePricing | null): number {
+  const price =
+    pricing?.is_custom_pricing && pricing.custom_price_per_unit != null
+      ? Number(pricing.custom_price_per_unit)
+      : Number(basePrice) * (1 + Number(pricing?.markup_percentage || 0) / 100);
+  return Math.round(price * 100) / 100;
+}
+
+/** The last `count` closed months, most recent first. */
+export function closedBillingPeriods(now: Date = new Date(), count = 3): BillingPeriodOption[] {
+  return Array.from({ length: count }, (_, i) => {
+    const start = startOfMonth(subMonths(now, i + 1));
+    return { value: format(start, "yyyy-MM-dd"), label: format(start, "MMMM yyyy") };
+  });
+}
+
+/** Creates or refreshes draft invoices for a closed month; returns how many. */
+export async function runBillingPeriod(periodStart: string): Promise<number> {
+  const { data, error } = await supabase.rpc("generate_period_invoices", {
+    p_period_start: periodStart,
+  });
+  if (error) throw error;
+  return Number(data ?? 0);
+}
+
+export interface InvoiceBalance {
+  /** Payments received, less refunds */
+  netPaid: number;
+  outstanding: number;
+  isPartiallyPaid: boolean;
+}
+
+/** Where an invoice stands after online payments and refunds. */
+export function invoiceBalance(total: number, amountPaid = 0, amountRefunded = 0): InvoiceBalance {
+  const netPaid = Math.round((Number(amountPaid) - Number(amountRefunded)) * 100) / 100;
+  const outstanding = Math.max(Math.round((Number(total) - netPaid) * 100) / 100, 0);
+  return { netPaid, outstanding, isPartiallyPaid: netPaid > 0 && outstanding > 0 };
+}
+
+/**
+ * Hosted checkout link for a sent or overdue invoice, created on first use
+ * by the configured payment gateway. `force` replaces an existing link.
+ */
+export async function requestPaymentLink(invoiceId: string, force = false): Promise<string> {
+  const { data, error } = await supabase.functions.invoke("create-invoice-payment-link", {
+    body: { invoice_id: invoiceId, force },
+  });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data.url as string;
+}
@@ -0,0 +1,64 @@
+/**
+ * Calling-window helpers for outbound campaigns.
+ * Enforcement happens in the dialer (`claim_campaign_contacts`); these are
+ * used to validate timezone input and to explain deferred contacts in the UI.
+ */
+
+export const CAMPAIGN_TIMEZONES = [
+  { value: "Asia/Kolkata", label: "India (IST)" },
+  { value: "Asia/Dubai", label: "Dubai (GST)" },
+  { value: "Asia/Singapore", label: "Singapore (SGT)" },
+  { value: "Europe/London", label: "London (GMT/BST)" },
+  { value: "Europe/Berlin", label: "Central Europe (CET)" },
+  { value: "America/New_York", label: "US Eastern" },
+  { value: "America/Chicago", label: "US Central" },
+  { value: "America/Denver", label: "US Mountain" },
+  { value: "America/Los_Angeles", label: "US Pacific" },
+  { value: "Australia/Sydney", label: "Sydney (AEST)" },
+];
+
+export const SKIP_REASON_LABELS: Record<string, string> = {
+  outside_hours: "Outside calling hours",
+  day_not_allowed: "Calling not allowed on this day",
+  holiday: "Holiday",
+};
+
+/** True if the value is an IANA timezone name the runtime understands. */
+export function isValidTimeZone(value: string): boolean {
+  if (!value) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Human-readable summary, e.g. "09:00 – 18:00, Mon–Fri (Asia/Kolkata)". */
+export function formatCallingWindow(
+  start: string,
+  end: string,
+  days: string[],
+  timezone?: string | null,
+): string {
+  const hhmm = (t: string) => t.slice(0, 5).padStart(5, "0");
+  const weekdays = ["Mon", "Tue", "Wed", "Thu", "Fri"];
+  const dayLabel =
+    days.length === 7
+      ? "every day"
+      : days.length === 5 && weekdays.every((d) => days.includes(d))
+        ? "Mon–Fri"
+        : days.join(", ");
+  const tz = timezone ? ` (${timezone})` : "";
+  return `${hhmm(start)} – ${hhmm(end)}, ${dayLabel}${tz}`;
+}
+
+/** Current wall-clock time in the given timezone, e.g. "14:05". */
+export function localTimeIn(timezone: string, at: Date = new Date()): string {
+  return new Intl.DateTimeFormat("en-GB", {
+    timeZone: timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  }).format(at);
+}
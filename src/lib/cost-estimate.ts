@@ -0,0 +1,183 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { OveragePolicy } from "@/lib/usage-limits";
+import { parseDuration } from "@/utils/duration";
+
+/**
+ * Campaign cost estimates shown before a client launches a voice or
+ * WhatsApp campaign. Prices come from `get_client_service_pricing`, which
+ * applies the billing run's rules; call volumes come from the client's own
+ * call history, falling back to typical figures until there is enough of it.
+ */
+
+export type PricingModel = "per_minute" | "per_call" | "per_message" | "monthly";
+
+export interface ClientServicePricing {
+  service_id: string;
+  pricing_model: PricingModel;
+  unit_price: number;
+  overage_unit_price: number;
+  overage_policy: OveragePolicy;
+  plan_name: string | null;
+  /** 0 means the service is unmetered */
+  usage_limit: number;
+  usage_consumed: number;
+  usage_reserved: number;
+}
+
+export interface CallHistoryStats {
+  /** Share of dialled calls that were answered, 0–1 */
+  answer_rate: number;
+  avg_duration_seconds: number;
+  /** Average billed minutes per answered call, each call rounded up like `call_usage_units` */
+  avg_billed_minutes: number;
+  /** Calls the figures are based on; 0 when they are the defaults */
+  sample_size: number;
+}
+
+export interface CampaignPlan {
+  contacts: number;
+  /** Extra attempts for calls that are not answered */
+  retries?: number;
+}
+
+export interface EstimateRange {
+  min: number;
+  expected: number;
+  max: number;
+}
+
+export interface CostEstimate {
+  unit_label: string;
+  units: EstimateRange;
+  cost: EstimateRange;
+  /** Units left in the current period before this campaign; null when unmetered */
+  quota_remaining: number | null;
+  /** Expected units past the limit */
+  overage_units: number;
+  /** Units that would be refused at the limit in the worst case */
+  blocked_units: number;
+}
+
+export const DEFAULT_CALL_STATS: CallHistoryStats = {
+  answer_rate: 0.4,
+  avg_duration_seconds: 90,
+  avg_billed_minutes: 2,
+  sample_size: 0,
+};
+
+/** Fewer calls than this are not enough to go on */
+export const MIN_CALL_HISTORY = 20;
+
+/** The estimate's spread around the average call length */
+const SHORT_CALL_FACTOR = 0.5;
+const LONG_CALL_FACTOR = 2;
+
+export const PRICING_UNIT_LABELS: Record<PricingModel, string> = {
+  per_minute: "minute",
+  per_call: "call",
+  per_message: "message",
+  monthly: "unit",
+};
+
+const ANSWERED_STATUSES = new Set(["answered", "completed"]);
+
+/** Minutes a call is billed for: started minutes, at least one once answered. */
+const billedMinutes = (seconds: number) => Math.max(Math.ceil(seconds / 60), 1);
+
+/** Answer rate and average answered-call length from past call logs. */
+export function summarizeCallHistory(logs: { call_status: string | null; duration: unknown }[]): CallHistoryStats {
+  if (logs.length < MIN_CALL_HISTORY) return DEFAULT_CALL_STATS;
+  const answered = logs.filter((l) => ANSWERED_STATUSES.has(l.call_status ?? ""));
+  const durations = answered.map((l) => parseDuration(l.duration)).filter((d) => d > 0);
+  if (durations.length === 0) {
+    return { ...DEFAULT_CALL_STATS, answer_rate: answered.length / logs.length, sample_size: logs.length };
+  }
+  return {
+    answer_rate: answered.length / logs.length,
+    avg_duration_seconds: durations.reduce((s, d) => s + d, 0) / durations.length,
+    avg_billed_minutes: durations.reduce((s, d) => s + billedMinutes(d), 0) / durations.length,
+    sample_size: logs.length,
+  };
+}
+
+/**
+ * Billable units for a campaign, in the unit its quota and invoices count.
+ * Messages are one unit each. Calls are billed per attempt, so retries of
+ * unanswered calls add up; minutes are counted on answered calls, rounded up
+ * per call, so the expected figure uses the history's average billed minutes
+ * rather than its average length.
+ */
+export function campaignUnits(model: PricingModel, plan: CampaignPlan, stats: CallHistoryStats): EstimateRange {
+  const { contacts } = plan;
+  const retries = Math.max(plan.retries ?? 0, 0);
+  const missed = 1 - stats.answer_rate;
+
+  if (model === "per_call") {
+    // Each retry only goes to the calls still unanswered
+    let attempts = 0;
+    for (let k = 0; k <= retries; k++) attempts += missed ** k;
+    return { min: contacts, expected: Math.ceil(contacts * attempts), max: contacts * (1 + retries) };
+  }
+
+  if (model === "per_minute") {
+    const reached = 1 - missed ** (1 + retries);
+    return {
+      min: Math.ceil(contacts * stats.answer_rate) * billedMinutes(stats.avg_duration_seconds * SHORT_CALL_FACTOR),
+      expected: Math.ceil(Math.ceil(contacts * reached) * stats.avg_billed_minutes),
+      max: contacts * billedMinutes(stats.avg_duration_seconds * LONG_CALL_FACTOR),
+    };
+  }
+
+  return { min: contacts, expected: contacts, max: contacts };
+}
+
+/**
+ * Prices a unit range against the plan: units within the remaining quota at
+ * the unit price, past it at the overage rate when the plan bills overage.
+ * Blocked and soft-capped units cost nothing.
+ */
+export function estimateCampaignCost(pricing: ClientServicePricing, units: EstimateRange): CostEstimate {
+  const quota = pricing.usage_limit > 0
+    ? Math.max(pricing.usage_limit - pricing.usage_consumed - pricing.usage_reserved, 0)
+    : null;
+
+  const price = (n: number) => {
+    const within = quota == null ? n : Math.min(n, quota);
+    const over = n - within;
+    const overCost = pricing.overage_policy === "overage" ? over * pricing.overage_unit_price : 0;
+    return Math.round((within * pricing.unit_price + overCost) * 100) / 100;
+  };
+  const over = (n: number) => (quota == null ? 0 : Math.max(n - quota, 0));
+
+  return {
+    unit_label: PRICING_UNIT_LABELS[pricing.pricing_model],
+    units,
+    cost: { min: price(units.min), expected: price(units.expected), max: price(units.max) },
+    quota_remaining: quota,
+    overage_units: pricing.overage_policy === "block" ? 0 : over(units.expected),
+    blocked_units: pricing.overage_policy === "block" ? over(units.max) : 0,
+  };
+}
+
+export async function fetchClientServicePricing(serviceId: string): Promise<ClientServicePricing> {
+  const { data, error } = await supabase.rpc("get_client_service_pricing", { p_service_id: serviceId });
+  if (error) throw error;
+  const pricing = data as unknown as ClientServicePricing;
+  return {
+    ...pricing,
+    unit_price: Number(pricing.unit_price),
+    overage_unit_price: Number(pricing.overage_unit_price),
+  };
+}
+
+/** The client's recent outbound calls, summarised. */
+export async function fetchCallHistoryStats(userId: string, limit = 500): Promise<CallHistoryStats> {
+  const { data, error } = await supabase
+    .from("outbound_call_logs")
+    .select("call_status, duration")
+    .eq("owner_user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return summarizeCallHistory(data ?? []);
+}
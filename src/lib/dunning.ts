@@ -0,0 +1,130 @@
+import { addDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { DunningStepType } from "@shared/dunning-email";
+
+/**
+ * Dunning for overdue invoices. The daily `run_dunning` function in Postgres
+ * moves invoices to overdue, logs reminders and suspends services; the
+ * invoice-dunning edge function drives it and emails each step. Payment
+ * restores a suspension through a trigger on `invoices`. The email copy is
+ * shared with the edge function in supabase/functions/_shared/dunning-email.ts.
+ */
+
+export * from "@shared/dunning-email";
+
+export interface DunningSettings {
+  enabled: boolean;
+  /** Days after the due date to remind the client */
+  reminder_offsets: number[];
+  /** Days after the due date before services are suspended */
+  grace_days: number;
+  suspend_services: boolean;
+  email_reminders: boolean;
+}
+
+export interface DunningStep {
+  id: string;
+  invoice_id: string;
+  client_id: string;
+  step: DunningStepType;
+  offset_days: number;
+  email_status: "pending" | "sent" | "failed" | "skipped";
+  created_at: string;
+}
+
+export interface DunningSuspension {
+  id: string;
+  client_id: string;
+  invoice_id: string | null;
+  suspended_at: string;
+  restored_at: string | null;
+}
+
+export interface DunningMilestone {
+  date: Date;
+  label: string;
+}
+
+/** Matches the column defaults on `dunning_settings`. */
+export const DEFAULT_DUNNING_SETTINGS: DunningSettings = {
+  enabled: true,
+  reminder_offsets: [3, 7, 14],
+  grace_days: 21,
+  suspend_services: false,
+  email_reminders: true,
+};
+
+export const DUNNING_STEP_LABELS: Record<DunningStepType, string> = {
+  overdue: "Marked overdue",
+  reminder: "Reminder sent",
+  suspended: "Services suspended",
+  restored: "Services restored",
+};
+
+/** Parses "3, 7, 14" into sorted unique day offsets; null when any entry is not a positive whole number. */
+export function parseReminderOffsets(input: string): number[] | null {
+  const parts = input.split(/[\s,]+/).filter(Boolean);
+  if (parts.some((p) => !/^\d+$/.test(p) || Number(p) <= 0)) return null;
+  return [...new Set(parts.map(Number))].sort((a, b) => a - b);
+}
+
+/** What happens to an invoice due on `dueDate` if it stays unpaid. */
+export function dunningSchedule(dueDate: Date, settings: DunningSettings): DunningMilestone[] {
+  if (!settings.enabled) return [];
+
+  const milestones: DunningMilestone[] = [
+    { date: addDays(dueDate, 1), label: "Marked overdue" },
+    ...settings.reminder_offsets.map((days) => ({
+      date: addDays(dueDate, days),
+      label: `Reminder (+${days} day${days === 1 ? "" : "s"})`,
+    })),
+  ];
+  if (settings.suspend_services) {
+    milestones.push({ date: addDays(dueDate, settings.grace_days), label: "Services suspended" });
+  }
+  return milestones.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+export async function fetchDunningSettings(clientId: string): Promise<DunningSettings> {
+  const { data, error } = await supabase
+    .from("dunning_settings")
+    .select("enabled, reminder_offsets, grace_days, suspend_services, email_reminders")
+    .eq("client_id", clientId)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as DunningSettings | null) ?? DEFAULT_DUNNING_SETTINGS;
+}
+
+export async function fetchDunningSteps(clientId: string, limit = 20): Promise<DunningStep[]> {
+  const { data, error } = await supabase
+    .from("invoice_dunning_steps")
+    .select("id, invoice_id, client_id, step, offset_days, email_status, created_at")
+    .eq("client_id", clientId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data ?? []) as DunningStep[];
+}
+
+export async function fetchOpenSuspension(clientId: string): Promise<DunningSuspension | null> {
+  const { data, error } = await supabase
+    .from("dunning_suspensions")
+    .select("id, client_id, invoice_id, suspended_at, restored_at")
+    .eq("client_id", clientId)
+    .is("restored_at", null)
+    .maybeSingle();
+  if (error) throw error;
+  return data as DunningSuspension | null;
+}
+
+export async function updateDunningSettings(clientId: string, settings: DunningSettings): Promise<void> {
+  const { error } = await supabase.rpc("update_dunning_settings", {
+    p_client_id: clientId,
+    p_enabled: settings.enabled,
+    p_reminder_offsets: settings.reminder_offsets,
+    p_grace_days: settings.grace_days,
+    p_suspend_services: settings.suspend_services,
+    p_email_reminders: settings.email_reminders,
+  });
+  if (error) throw error;
+}
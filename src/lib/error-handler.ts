@@ -55,6 +55,18 @@ export class IntegrationError extends AppError {
   }
 }
 
+export class SuppressedContactError extends AppError {
+  constructor(phone: string) {
+    super(`${phone} is on a Do-Not-Contact list`, "CONTACT_SUPPRESSED", 403);
+  }
+}
+
+export class UsageLimitError extends AppError {
+  constructor(message: string = "Usage limit reached") {
+    super(message, "USAGE_LIMIT_REACHED", 402);
+  }
+}
+
 export function handleError(error: Error | AppError): {
   message: string;
   code: string;
@@ -1,4 +1,6 @@
 import { supabase } from "@/integrations/supabase/client";
+import { assertNotSuppressed } from "@/lib/suppression";
+import { assertUsageAvailable } from "@/lib/usage-limits";
 
 /**
  * Initiates an instant call by triggering the n8n webhook.
@@ -11,6 +13,20 @@ export const initiateInstantCall = async (phoneNumber: string, customerName: str
         throw new Error("N8N Webhook URL is not configured. Please add VITE_N8N_OUTBOUND_CALL_WEBHOOK to your .env file.");
     }
 
+    // Never dial numbers on a Do-Not-Call list or past the plan's usage limit
+    const { data: client, error: clientError } = await supabase
+        .from("clients")
+        .select("id")
+        .eq("user_id", ownerUserId)
+        .maybeSingle();
+
+    if (clientError) throw clientError;
+    if (client) {
+        await assertNotSuppressed(client.id, phoneNumber, "voice");
+        // The call is metered when n8n reports it back, so check the limit up front
+        await assertUsageAvailable(client.id, "voice-telecaller");
+    }
+
     // Fetch the bot for this user to get provider IDs
     const { data, error: botError } = await (supabase as any)
         .from("outboundagents")
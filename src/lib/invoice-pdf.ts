@@ -0,0 +1,178 @@
+import { format } from "date-fns";
+import { TAX_TREATMENT_LABELS, placeOfSupplyLabel, type TaxTreatment } from "@/lib/tax";
+
+/** An invoice as issued: amounts plus the tax details frozen on it when it was sent. */
+export interface InvoicePdfData {
+  invoice_number: string;
+  invoice_date: string;
+  due_date: string | null;
+  status: string | null;
+  subtotal: number;
+  tax_amount: number | null;
+  discount_amount?: number | null;
+  total_amount: number;
+  notes: string | null;
+  tax_treatment?: TaxTreatment | null;
+  reverse_charge?: boolean;
+  place_of_supply?: string | null;
+  supplier_legal_name?: string | null;
+  supplier_tax_id?: string | null;
+  supplier_address?: string | null;
+  customer_name: string;
+  customer_tax_id?: string | null;
+  customer_address?: string | null;
+}
+
+export interface InvoicePdfLine {
+  description: string;
+  hsn_sac_code: string | null;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+  tax_rate: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  vat_amount: number;
+}
+
+const money = (n: number | null | undefined) =>
+  Number(n ?? 0).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/** Tax columns shown for a treatment; zero-rated invoices show none. */
+function taxColumns(treatment: TaxTreatment): { label: string; amount: (l: InvoicePdfLine) => number }[] {
+  switch (treatment) {
+    case "intra_state":
+      return [
+        { label: "CGST", amount: (l) => l.cgst_amount },
+        { label: "SGST", amount: (l) => l.sgst_amount },
+      ];
+    case "inter_state":
+      return [{ label: "IGST", amount: (l) => l.igst_amount }];
+    case "vat":
+      return [{ label: "VAT", amount: (l) => l.vat_amount }];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Downloads the invoice as a PDF. Issued invoices with tax are laid out as a
+ * tax invoice: both parties' tax IDs, place of supply, HSN/SAC per line and
+ * the tax split the line was charged with.
+ */
+export async function downloadInvoicePdf(invoice: InvoicePdfData, lines: InvoicePdfLine[]) {
+  const { default: jsPDF } = await import("jspdf");
+  const { default: autoTable } = await import("jspdf-autotable");
+  const doc = new jsPDF();
+  const treatment = invoice.tax_treatment ?? "none";
+  const columns = taxColumns(treatment);
+  const isDraft = invoice.status === "draft";
+
+  doc.setFontSize(18);
+  doc.text(isDraft ? "DRAFT INVOICE" : treatment === "none" ? "INVOICE" : "TAX INVOICE", 105, 18, { align: "center" });
+
+  // Supplier (left) and invoice details (right)
+  doc.setFontSize(10);
+  let y = 30;
+  doc.text(invoice.supplier_legal_name || "", 14, y);
+  doc.setFontSize(9);
+  for (const line of doc.splitTextToSize(invoice.supplier_address || "", 90) as string[]) {
+    y += 5;
+    doc.text(line, 14, y);
+  }
+  if (invoice.supplier_tax_id) {
+    y += 5;
+    doc.text(`${treatment === "vat" || treatment === "reverse_charge" ? "VAT No" : "GSTIN"}: ${invoice.supplier_tax_id}`, 14, y);
+  }
+
+  const details = [
+    `Invoice #: ${invoice.invoice_number}`,
+    `Date: ${format(new Date(invoice.invoice_date), "dd MMM yyyy")}`,
+    ...(invoice.due_date ? [`Due: ${format(new Date(invoice.due_date), "dd MMM yyyy")}`] : []),
+    ...(invoice.place_of_supply ? [`Place of supply: ${placeOfSupplyLabel(invoice.place_of_supply)}`] : []),
+    `Reverse charge: ${invoice.reverse_charge ? "Yes" : "No"}`,
+  ];
+  details.forEach((text, i) => doc.text(text, 120, 30 + i * 5));
+
+  // Customer
+  y = Math.max(y, 30 + details.length * 5) + 8;
+  doc.setFontSize(10);
+  doc.text("Bill to:", 14, y);
+  y += 5;
+  doc.text(invoice.customer_name, 14, y);
+  doc.setFontSize(9);
+  for (const line of doc.splitTextToSize(invoice.customer_address || "", 90) as string[]) {
+    y += 5;
+    doc.text(line, 14, y);
+  }
+  if (invoice.customer_tax_id) {
+    y += 5;
+    doc.text(`${treatment === "vat" || treatment === "reverse_charge" ? "VAT No" : "GSTIN"}: ${invoice.customer_tax_id}`, 14, y);
+  }
+
+  autoTable(doc, {
+    startY: y + 8,
+    head: [["#", "Description", "HSN/SAC", "Qty", "Rate", "Taxable Value", ...(columns.length ? ["Tax %"] : []), ...columns.map((c) => c.label), "Amount (INR)"]],
+    body: lines.map((l, i) => {
+      const tax = columns.reduce((s, c) => s + c.amount(l), 0);
+      return [
+        i + 1,
+        l.description,
+        l.hsn_sac_code ?? "",
+        l.quantity,
+        money(l.unit_price),
+        money(l.total_price),
+        ...(columns.length ? [`${Number(l.tax_rate)}%`] : []),
+        ...columns.map((c) => money(c.amount(l))),
+        money(l.total_price + tax),
+      ];
+    }),
+    theme: "grid",
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: [34, 34, 34] },
+  });
+
+  // Totals
+  let finalY = ((doc as typeof doc & { lastAutoTable?: { finalY: number } }).lastAutoTable?.finalY || 120) + 8;
+  const totals: [string, string][] = [
+    ["Taxable value", money(invoice.subtotal)],
+    ...columns.map((c): [string, string] => [c.label, money(lines.reduce((s, l) => s + c.amount(l), 0))]),
+    // Invoices from before the tax engine only have a total tax amount
+    ...(!columns.length && Number(invoice.tax_amount) > 0 ? [["Tax", money(invoice.tax_amount)] as [string, string]] : []),
+    ...(Number(invoice.discount_amount) > 0 ? [["Discount", `-${money(invoice.discount_amount)}`] as [string, string]] : []),
+  ];
+  doc.setFontSize(9);
+  for (const [label, value] of totals) {
+    doc.text(label, 130, finalY);
+    doc.text(value, 196, finalY, { align: "right" });
+    finalY += 5;
+  }
+  doc.setFontSize(11);
+  doc.text("Total (INR)", 130, finalY + 2);
+  doc.text(money(invoice.total_amount), 196, finalY + 2, { align: "right" });
+
+  // Treatment notes
+  doc.setFontSize(8);
+  finalY += 12;
+  if (treatment === "export") {
+    doc.text("Supply meant for export of services under LUT without payment of IGST.", 14, finalY);
+    finalY += 5;
+  } else if (treatment === "reverse_charge") {
+    doc.text("Reverse charge: VAT to be accounted for by the recipient.", 14, finalY);
+    finalY += 5;
+  } else if (treatment !== "none") {
+    doc.text(`Tax treatment: ${TAX_TREATMENT_LABELS[treatment]}`, 14, finalY);
+    finalY += 5;
+  }
+  if (invoice.notes) {
+    for (const line of doc.splitTextToSize(invoice.notes, 180) as string[]) {
+      doc.text(line, 14, finalY);
+      finalY += 4;
+    }
+  }
+  doc.text(`For ${invoice.supplier_legal_name || ""}`, 196, finalY + 10, { align: "right" });
+  doc.text("Authorised Signatory", 196, finalY + 22, { align: "right" });
+
+  doc.save(`${invoice.invoice_number}.pdf`);
+}
@@ -0,0 +1,134 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Plan changes on client services. Upgrades apply immediately and bill the
+ * prorated difference; downgrades wait for the end of the usage period and
+ * credit it. `change_service_plan` does the work; every change is kept in
+ * `service_plan_changes`.
+ */
+
+export type PlanChangeDirection = "upgrade" | "downgrade";
+export type PlanChangeStatus = "scheduled" | "applied" | "cancelled";
+export type PlanChangeRole = "client" | "admin" | "super_admin";
+
+export interface PlanChangeRow {
+  id: string;
+  client_service_id: string;
+  service_id: string;
+  service_name: string;
+  from_plan_name: string | null;
+  to_plan_name: string;
+  direction: PlanChangeDirection;
+  status: PlanChangeStatus;
+  requested_by_role: PlanChangeRole;
+  effective_at: string;
+  applied_at: string | null;
+  proration_amount: number;
+  created_at: string;
+}
+
+export interface PlanChangeResult {
+  status: PlanChangeStatus | "unchanged";
+  change_id?: string;
+  direction?: PlanChangeDirection;
+  effective_at?: string;
+  proration_amount?: number;
+}
+
+export interface ActivePlan {
+  id: string;
+  service_id: string;
+  plan_name: string;
+  monthly_price: number | null;
+  usage_limit: number | null;
+}
+
+export const PLAN_CHANGE_ROLE_LABELS: Record<PlanChangeRole, string> = {
+  client: "Client",
+  admin: "Admin",
+  super_admin: "Platform",
+};
+
+/** Any plan is an upgrade from no plan; otherwise a higher monthly fee is. */
+export function planChangeDirection(
+  fromMonthlyPrice: number | null | undefined,
+  toMonthlyPrice: number | null | undefined,
+  hasCurrentPlan = true,
+): PlanChangeDirection {
+  if (!hasCurrentPlan) return "upgrade";
+  return (toMonthlyPrice ?? 0) > (fromMonthlyPrice ?? 0) ? "upgrade" : "downgrade";
+}
+
+// Keep in sync with prorate_monthly_fee in the service_plan_changes migration
+export function prorateMonthlyFee(
+  oldPrice: number | null | undefined,
+  newPrice: number | null | undefined,
+  at: Date = new Date(),
+): number {
+  const monthStart = Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1);
+  const monthEnd = Date.UTC(at.getUTCFullYear(), at.getUTCMonth() + 1, 1);
+  if (at.getTime() === monthStart) return 0;
+  const fraction = (monthEnd - at.getTime()) / (monthEnd - monthStart);
+  return Math.round(((newPrice ?? 0) - (oldPrice ?? 0)) * fraction * 100) / 100;
+}
+
+export async function fetchPlanChanges(clientId: string, limit = 50): Promise<PlanChangeRow[]> {
+  const { data, error } = await supabase
+    .from("service_plan_changes")
+    .select("id, client_service_id, service_id, direction, status, requested_by_role, effective_at, applied_at, proration_amount, created_at, services(name), from_plan:service_plans!service_plan_changes_from_plan_id_fkey(plan_name), to_plan:service_plans!service_plan_changes_to_plan_id_fkey(plan_name)")
+    .eq("client_id", clientId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  type Joined = Omit<PlanChangeRow, "service_name" | "from_plan_name" | "to_plan_name"> & {
+    services: { name: string } | null;
+    from_plan: { plan_name: string } | null;
+    to_plan: { plan_name: string } | null;
+  };
+  return ((data ?? []) as Joined[]).map(({ services, from_plan, to_plan, ...row }) => ({
+    ...row,
+    proration_amount: Number(row.proration_amount ?? 0),
+    service_name: services?.name ?? "Unknown",
+    from_plan_name: from_plan?.plan_name ?? null,
+    to_plan_name: to_plan?.plan_name ?? "Unknown",
+  }));
+}
+
+export async function changeServicePlan(clientServiceId: string, planId: string): Promise<PlanChangeResult> {
+  const { data, error } = await supabase.rpc("change_service_plan", {
+    p_client_service_id: clientServiceId,
+    p_plan_id: planId,
+  });
+  if (error) throw error;
+  return data as unknown as PlanChangeResult;
+}
+
+export async function setSelfServePlanChanges(clientId: string, enabled: boolean): Promise<void> {
+  const { error } = await supabase
+    .from("clients")
+    .update({ self_serve_plan_changes: enabled })
+    .eq("id", clientId);
+  if (error) throw error;
+}
+
+export async function fetchSelfServePlanChanges(clientId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("clients")
+    .select("self_serve_plan_changes")
+    .eq("id", clientId)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.self_serve_plan_changes ?? true;
+}
+
+export async function fetchActivePlans(serviceIds: string[]): Promise<ActivePlan[]> {
+  if (serviceIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from("service_plans")
+    .select("id, service_id, plan_name, monthly_price, usage_limit")
+    .in("service_id", serviceIds)
+    .eq("is_active", true)
+    .order("monthly_price", { ascending: true });
+  if (error) throw error;
+  return data ?? [];
+}
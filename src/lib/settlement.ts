@@ -0,0 +1,137 @@
+import Papa from "papaparse";
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Reseller settlement. Each usage event is posted to
+ * `settlement_ledger_entries` at wholesale (admin → platform, base price) and
+ * at retail (client → admin, the admin's price); these helpers read the
+ * per-period summaries and export an admin's statement.
+ */
+
+export interface StatementLine {
+  service_id: string | null;
+  service_name: string;
+  quantity: number;
+  overage_units: number;
+  wholesale_amount: number;
+  retail_amount: number;
+}
+
+export interface StatementTotals {
+  quantity: number;
+  /** Owed by the admin to the platform */
+  wholesale: number;
+  /** Billed by the admin to its clients */
+  retail: number;
+  margin: number;
+}
+
+export interface ReceivableRow {
+  /** null for the platform's direct clients */
+  admin_id: string | null;
+  company_name: string;
+  usage_events: number;
+  wholesale_amount: number;
+  retail_amount: number;
+  receivable_amount: number;
+}
+
+export interface StatementExport {
+  adminName: string;
+  periodLabel: string;
+  lines: StatementLine[];
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export function statementTotals(lines: StatementLine[]): StatementTotals {
+  const totals = lines.reduce(
+    (acc, l) => ({
+      quantity: acc.quantity + Number(l.quantity),
+      wholesale: acc.wholesale + Number(l.wholesale_amount),
+      retail: acc.retail + Number(l.retail_amount),
+    }),
+    { quantity: 0, wholesale: 0, retail: 0 },
+  );
+  return {
+    quantity: totals.quantity,
+    wholesale: round2(totals.wholesale),
+    retail: round2(totals.retail),
+    margin: round2(totals.retail - totals.wholesale),
+  };
+}
+
+/** Statement table rows, with a closing totals row, for CSV and PDF export. */
+export function statementRows(lines: StatementLine[]): string[][] {
+  const totals = statementTotals(lines);
+  return [
+    ...lines.map((l) => [
+      l.service_name,
+      String(l.quantity),
+      String(l.overage_units),
+      Number(l.retail_amount).toFixed(2),
+      Number(l.wholesale_amount).toFixed(2),
+      round2(Number(l.retail_amount) - Number(l.wholesale_amount)).toFixed(2),
+    ]),
+    ["Total", String(totals.quantity), "", totals.retail.toFixed(2), totals.wholesale.toFixed(2), totals.margin.toFixed(2)],
+  ];
+}
+
+const STATEMENT_HEADER = ["Service", "Units", "Overage Units", "Billed to Clients", "Owed to Platform", "Margin"];
+
+function downloadBlob(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+const statementFilename = (s: StatementExport) =>
+  `statement-${s.adminName}-${s.periodLabel}`.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+
+export function exportStatementCsv(statement: StatementExport) {
+  const csv = Papa.unparse({ fields: STATEMENT_HEADER, data: statementRows(statement.lines) });
+  downloadBlob(new Blob([csv], { type: "text/csv" }), `${statementFilename(statement)}.csv`);
+}
+
+export async function exportStatementPdf(statement: StatementExport) {
+  const { default: jsPDF } = await import("jspdf");
+  const { default: autoTable } = await import("jspdf-autotable");
+  const doc = new jsPDF();
+  doc.setFontSize(16);
+  doc.text("Settlement Statement", 14, 18);
+  doc.setFontSize(10);
+  doc.text(`${statement.adminName} — ${statement.periodLabel}`, 14, 26);
+  doc.setFontSize(9);
+  doc.text(`Generated on ${new Date().toLocaleString()}`, 14, 32);
+  autoTable(doc, {
+    startY: 38,
+    head: [STATEMENT_HEADER],
+    body: statementRows(statement.lines),
+    theme: "grid",
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: [34, 34, 34] },
+  });
+  doc.save(`${statementFilename(statement)}.pdf`);
+}
+
+export async function fetchSettlementStatement(adminId: string, from: Date, to: Date): Promise<StatementLine[]> {
+  const { data, error } = await supabase.rpc("get_settlement_statement", {
+    p_admin_id: adminId,
+    p_from: from.toISOString(),
+    p_to: to.toISOString(),
+  });
+  if (error) throw error;
+  return (data ?? []) as StatementLine[];
+}
+
+export async function fetchPlatformReceivables(from: Date, to: Date): Promise<ReceivableRow[]> {
+  const { data, error } = await supabase.rpc("get_platform_receivables", {
+    p_from: from.toISOString(),
+    p_to: to.toISOString(),
+  });
+  if (error) throw error;
+  return (data ?? []) as ReceivableRow[];
+}
@@ -0,0 +1,74 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { ConnectionStatus, OAuthPlatform } from "@shared/social-oauth";
+
+/**
+ * Per-brand social platform connections. Connecting goes through the
+ * social-oauth-authorize / social-oauth-callback edge functions; the tokens
+ * never reach the browser. refresh-social-tokens keeps them fresh and flags
+ * the ones that need the user to connect again.
+ */
+
+export interface SocialConnection {
+  id: string;
+  brand_id: string;
+  client_id: string;
+  platform: OAuthPlatform;
+  account_id: string;
+  account_name: string | null;
+  status: ConnectionStatus;
+  token_expires_at: string | null;
+  last_error: string | null;
+  connected_at: string;
+  /** Joined brand, where requested */
+  social_media_brands?: { name: string } | null;
+}
+
+export const CONNECTION_STATUS_LABELS: Record<ConnectionStatus, string> = {
+  connected: "Connected",
+  reconnect_needed: "Reconnect Needed",
+  revoked: "Disconnected",
+};
+
+const CONNECTION_COLUMNS =
+  "id, brand_id, client_id, platform, account_id, account_name, status, token_expires_at, last_error, connected_at";
+
+export async function fetchSocialConnections(clientId: string): Promise<SocialConnection[]> {
+  const { data, error } = await supabase
+    .from("social_platform_connections")
+    .select(CONNECTION_COLUMNS)
+    .eq("client_id", clientId);
+  if (error) throw error;
+  return (data ?? []) as SocialConnection[];
+}
+
+/** Connections the signed-in client has to reconnect, with their brand's name. */
+export async function fetchReconnectNeeded(): Promise<SocialConnection[]> {
+  const { data, error } = await supabase
+    .from("social_platform_connections")
+    .select(`${CONNECTION_COLUMNS}, social_media_brands(name)`)
+    .eq("status", "reconnect_needed")
+    .order("updated_at", { ascending: false });
+  if (error) throw error;
+  return (data ?? []) as SocialConnection[];
+}
+
+/** The platform's authorization URL for connecting (or reconnecting) a brand. */
+export async function startSocialConnect(brandId: string, platform: OAuthPlatform): Promise<string> {
+  const { data, error } = await supabase.functions.invoke("social-oauth-authorize", {
+    body: { brand_id: brandId, platform },
+  });
+  if (error) {
+    const context = (error as { context?: Response }).context;
+    const detail = context ? await context.json().catch(() => null) : null;
+    throw new Error(detail?.error ?? error.message);
+  }
+  return data.url;
+}
+
+export async function disconnectSocialConnection(connectionId: string): Promise<void> {
+  const { error } = await supabase
+    .from("social_platform_connections")
+    .delete()
+    .eq("id", connectionId);
+  if (error) throw error;
+}
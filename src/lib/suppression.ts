@@ -0,0 +1,37 @@
+import { supabase } from "@/integrations/supabase/client";
+import { SuppressedContactError } from "@/lib/error-handler";
+
+/**
+ * Do-Not-Contact checks. Lists are stored in `suppression_list` at global,
+ * admin and client scope; the lookup RPC merges all three for a client.
+ */
+
+export type SuppressionChannel = "all" | "voice" | "whatsapp";
+
+/** Returns the subset of `phones` (as given) that this client must not contact. */
+export async function findSuppressedPhones(
+  clientId: string,
+  phones: string[],
+  channel: SuppressionChannel = "all",
+): Promise<Set<string>> {
+  if (phones.length === 0) return new Set();
+
+  const { data, error } = await supabase.rpc("get_suppressed_phones", {
+    p_client_id: clientId,
+    p_phones: phones,
+    p_channel: channel,
+  });
+
+  if (error) throw error;
+  return new Set<string>(data || []);
+}
+
+/** Throws SuppressedContactError if the number is suppressed for this client. */
+export async function assertNotSuppressed(
+  clientId: string,
+  phone: string,
+  channel: SuppressionChannel = "all",
+): Promise<void> {
+  const suppressed = await findSuppressedPhones(clientId, [phone], channel);
+  if (suppressed.size > 0) throw new SuppressedContactError(phone);
+}
@@ -0,0 +1,249 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Invoice tax. Triggers on `invoice_items` compute each line's GST or VAT
+ * from the admin's `admin_tax_settings` and the client's billing location;
+ * issuing an invoice numbers it per admin and freezes both parties' tax
+ * details. The helpers here mirror that logic for previews and the PDF.
+ */
+
+/** Where the platform's own settings live; they cover direct clients, who have no admin. */
+export const PLATFORM_TAX_SUPPLIER_ID = "00000000-0000-0000-0000-000000000000";
+
+export type TaxRegime = "gst" | "vat" | "none";
+export type TaxTreatment = "intra_state" | "inter_state" | "export" | "vat" | "reverse_charge" | "none";
+export type ServiceCategory = "voice" | "messaging" | "social_media";
+
+export interface AdminTaxSettings {
+  tax_regime: TaxRegime;
+  legal_name: string | null;
+  tax_id: string | null;
+  country_code: string;
+  state_code: string | null;
+  address: string | null;
+  default_tax_rate: number;
+  default_sac_code: string;
+  invoice_prefix: string;
+  next_invoice_sequence: number;
+  /** Overrides of the default rate per service category */
+  category_rates: Partial<Record<ServiceCategory, number>>;
+}
+
+export interface ClientTaxDetails {
+  tax_id: string | null;
+  billing_country_code: string;
+  billing_state_code: string | null;
+  billing_address: string | null;
+}
+
+export interface LineTax {
+  rate: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  vat: number;
+  total: number;
+}
+
+/** Matches the column defaults on `admin_tax_settings`. */
+export const DEFAULT_TAX_SETTINGS: AdminTaxSettings = {
+  tax_regime: "none",
+  legal_name: null,
+  tax_id: null,
+  country_code: "IN",
+  state_code: null,
+  address: null,
+  default_tax_rate: 18,
+  default_sac_code: "998319",
+  invoice_prefix: "INV",
+  next_invoice_sequence: 1,
+  category_rates: {},
+};
+
+export const TAX_TREATMENT_LABELS: Record<TaxTreatment, string> = {
+  intra_state: "Intra-state (CGST + SGST)",
+  inter_state: "Inter-state (IGST)",
+  export: "Export of services (zero rated)",
+  vat: "VAT",
+  reverse_charge: "Reverse charge",
+  none: "No tax",
+};
+
+/** GST state codes, as used in the first two digits of a GSTIN. */
+export const GST_STATE_CODES: Record<string, string> = {
+  "01": "Jammu & Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra & Nagar Haveli and Daman & Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman & Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+  "97": "Other Territory",
+};
+
+/** "27" → "27 - Maharashtra"; country codes and unknown values pass through. */
+export function placeOfSupplyLabel(code: string | null | undefined): string {
+  if (!code) return "—";
+  return GST_STATE_CODES[code] ? `${code} - ${GST_STATE_CODES[code]}` : code;
+}
+
+// Keep in sync with the GSTIN check in save_admin_tax_settings
+export function isValidGstin(gstin: string, stateCode?: string | null): boolean {
+  const value = gstin.trim().toUpperCase();
+  if (!/^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/.test(value)) return false;
+  return !stateCode || value.startsWith(stateCode);
+}
+
+// Keep in sync with invoice_tax_treatment in the invoice_tax_engine migration
+export function resolveTaxTreatment(
+  supplier: Pick<AdminTaxSettings, "tax_regime" | "country_code" | "state_code"> | null,
+  customer: ClientTaxDetails | null,
+): TaxTreatment {
+  if (!supplier || supplier.tax_regime === "none") return "none";
+
+  const customerCountry = customer?.billing_country_code || supplier.country_code;
+  const foreign = customerCountry !== supplier.country_code;
+
+  if (supplier.tax_regime === "gst") {
+    if (foreign) return "export";
+    const customerState = customer?.billing_state_code;
+    if (!customerState || !supplier.state_code || customerState === supplier.state_code) return "intra_state";
+    return "inter_state";
+  }
+
+  return foreign && customer?.tax_id?.trim() ? "reverse_charge" : "vat";
+}
+
+/** The rate a line of `category` is taxed at; zero when the treatment carries no tax. */
+export function taxRateFor(settings: AdminTaxSettings, category: ServiceCategory | null, treatment: TaxTreatment): number {
+  if (treatment === "none" || treatment === "export" || treatment === "reverse_charge") return 0;
+  return (category ? settings.category_rates[category] : undefined) ?? settings.default_tax_rate;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Splits the tax on `amount` the way compute_invoice_item_tax does. */
+export function computeLineTax(amount: number, rate: number, treatment: TaxTreatment): LineTax {
+  const total = round2((amount * rate) / 100);
+  const tax: LineTax = { rate, cgst: 0, sgst: 0, igst: 0, vat: 0, total };
+
+  if (treatment === "intra_state") {
+    tax.cgst = round2(total / 2);
+    tax.sgst = round2(total - tax.cgst);
+  } else if (treatment === "inter_state") {
+    tax.igst = total;
+  } else if (treatment === "vat") {
+    tax.vat = total;
+  } else {
+    tax.total = 0;
+  }
+  return tax;
+}
+
+/** Adds up line taxes for an invoice's totals. */
+export function sumLineTaxes(lines: Omit<LineTax, "rate">[]): Omit<LineTax, "rate"> {
+  return lines.reduce(
+    (acc, l) => ({
+      cgst: round2(acc.cgst + l.cgst),
+      sgst: round2(acc.sgst + l.sgst),
+      igst: round2(acc.igst + l.igst),
+      vat: round2(acc.vat + l.vat),
+      total: round2(acc.total + l.total),
+    }),
+    { cgst: 0, sgst: 0, igst: 0, vat: 0, total: 0 },
+  );
+}
+
+export async function fetchAdminTaxSettings(adminId: string): Promise<AdminTaxSettings> {
+  const [settingsRes, ratesRes] = await Promise.all([
+    supabase
+      .from("admin_tax_settings")
+      .select("tax_regime, legal_name, tax_id, country_code, state_code, address, default_tax_rate, default_sac_code, invoice_prefix, next_invoice_sequence")
+      .eq("admin_id", adminId)
+      .maybeSingle(),
+    supabase.from("admin_tax_rates").select("category, rate").eq("admin_id", adminId),
+  ]);
+  if (settingsRes.error) throw settingsRes.error;
+  if (ratesRes.error) throw ratesRes.error;
+
+  const category_rates: AdminTaxSettings["category_rates"] = {};
+  for (const r of (ratesRes.data ?? []) as { category: ServiceCategory; rate: number }[]) {
+    category_rates[r.category] = Number(r.rate);
+  }
+
+  if (!settingsRes.data) return { ...DEFAULT_TAX_SETTINGS, category_rates };
+  return {
+    ...settingsRes.data,
+    default_tax_rate: Number(settingsRes.data.default_tax_rate),
+    category_rates,
+  } as AdminTaxSettings;
+}
+
+export async function saveAdminTaxSettings(adminId: string, settings: AdminTaxSettings): Promise<void> {
+  const { error } = await supabase.rpc("save_admin_tax_settings", {
+    p_admin_id: adminId,
+    p_tax_regime: settings.tax_regime,
+    p_legal_name: settings.legal_name,
+    p_tax_id: settings.tax_id,
+    p_country_code: settings.country_code,
+    p_state_code: settings.state_code,
+    p_address: settings.address,
+    p_default_tax_rate: settings.default_tax_rate,
+    p_default_sac_code: settings.default_sac_code,
+    p_invoice_prefix: settings.invoice_prefix,
+    p_category_rates: settings.category_rates,
+  });
+  if (error) throw error;
+}
+
+export async function fetchClientTaxDetails(clientId: string): Promise<ClientTaxDetails | null> {
+  const { data, error } = await supabase
+    .from("clients")
+    .select("tax_id, billing_country_code, billing_state_code, billing_address")
+    .eq("id", clientId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as ClientTaxDetails | null;
+}
+
+export async function updateClientTaxDetails(clientId: string, details: ClientTaxDetails): Promise<void> {
+  const { error } = await supabase
+    .from("clients")
+    .update({
+      tax_id: details.tax_id?.trim().toUpperCase() || null,
+      billing_country_code: details.billing_country_code.trim().toUpperCase() || "IN",
+      billing_state_code: details.billing_state_code || null,
+      billing_address: details.billing_address?.trim() || null,
+    })
+    .eq("id", clientId);
+  if (error) throw error;
+}
@@ -0,0 +1,88 @@
+import { supabase } from "@/integrations/supabase/client";
+import { UsageLimitError } from "@/lib/error-handler";
+
+/**
+ * Usage limits for billable actions. Every action reserves its units through
+ * the `reserve_usage` RPC before it happens, then commits the reservation once
+ * it went through or releases it when it did not. Only the edge functions and
+ * the database hold reservations; the RPC locks the client's service row, so
+ * `evaluateUsage` here is only for display and pre-checks.
+ */
+
+export type OveragePolicy = "block" | "overage" | "soft_cap";
+
+export const OVERAGE_POLICY_LABELS: Record<OveragePolicy, string> = {
+  block: "Block at limit",
+  overage: "Allow with overage billing",
+  soft_cap: "Soft cap (notify admin)",
+};
+
+export const OVERAGE_POLICY_DESCRIPTIONS: Record<OveragePolicy, string> = {
+  block: "Actions are refused once the limit is reached, until it resets or is raised.",
+  overage: "Actions continue past the limit and extra units are billed at the overage rate.",
+  soft_cap: "Actions continue past the limit unbilled and the admin is notified to review the plan.",
+};
+
+export interface UsageState {
+  consumed: number;
+  reserved: number;
+  /** 0 means the service is unmetered */
+  limit: number;
+  policy: OveragePolicy;
+}
+
+export interface UsageDecision {
+  allowed: boolean;
+  /** Units of this action that fall past the limit */
+  overageUnits: number;
+  reason?: string;
+}
+
+/** Mirrors the limit check in `reserve_usage`. */
+export function evaluateUsage(state: UsageState, amount = 1): UsageDecision {
+  const committed = state.consumed + state.reserved;
+  if (state.limit <= 0 || committed + amount <= state.limit) {
+    return { allowed: true, overageUnits: 0 };
+  }
+
+  if (state.policy === "block") {
+    return {
+      allowed: false,
+      overageUnits: 0,
+      reason: `Usage limit reached (${state.consumed}/${state.limit}). Service resumes when your limit resets or is raised.`,
+    };
+  }
+
+  return { allowed: true, overageUnits: Math.min(amount, committed + amount - state.limit) };
+}
+
+/** Billable overage when `consumed` units have been used against `limit`. */
+export function overageUnits(consumed: number, limit: number): number {
+  return limit > 0 ? Math.max(consumed - limit, 0) : 0;
+}
+
+/**
+ * Pre-check for actions the app starts without an edge function in between
+ * (e.g. instant calls posted straight to n8n); throws UsageLimitError when the
+ * limit would block them. The usage itself is recorded once the action is
+ * reported back.
+ */
+export async function assertUsageAvailable(clientId: string, serviceSlug: string, amount = 1): Promise<void> {
+  const { data, error } = await supabase
+    .from("client_services")
+    .select("is_active, usage_consumed, usage_reserved, usage_limit, services!inner(slug), service_plans(overage_policy)")
+    .eq("client_id", clientId)
+    .eq("services.slug", serviceSlug)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data?.is_active) throw new UsageLimitError("This service is not active for your account");
+
+  const decision = evaluateUsage({
+    consumed: data.usage_consumed ?? 0,
+    reserved: data.usage_reserved ?? 0,
+    limit: data.usage_limit ?? 0,
+    policy: data.service_plans?.overage_policy ?? "block",
+  }, amount);
+  if (!decision.allowed) throw new UsageLimitError(decision.reason);
+}
@@ -0,0 +1,115 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Usage periods. Each `client_services` row counts usage for its own period,
+ * anchored on the day it was assigned; `reset_usage_if_needed` closes ended
+ * periods into `usage_period_history` and zeroes the counters.
+ */
+
+export type ResetPeriod = "daily" | "weekly" | "monthly" | "never";
+
+export interface UsagePeriod {
+  start: Date;
+  /** null for services that never reset */
+  end: Date | null;
+}
+
+export interface UsagePeriodHistoryRow {
+  id: string;
+  client_service_id: string;
+  service_id: string;
+  service_name: string;
+  reset_period: ResetPeriod;
+  period_start: string;
+  period_end: string;
+  usage_limit: number;
+  usage_consumed: number;
+  overage_consumed: number;
+}
+
+export interface CurrentUsagePeriod {
+  client_service_id: string;
+  reset_period: ResetPeriod;
+  current_period_start: string | null;
+  current_period_end: string | null;
+}
+
+export const RESET_PERIOD_LABELS: Record<ResetPeriod, string> = {
+  daily: "Daily",
+  weekly: "Weekly",
+  monthly: "Monthly",
+  never: "Never",
+};
+
+const DAY_MS = 86_400_000;
+
+const utcDay = (d: Date) => new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+
+/** The anchor's day of month in `year`/`month`, or that month's last day when it is shorter. */
+function monthlyAnchor(year: number, month: number, anchorDay: number): Date {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(anchorDay, lastDay)));
+}
+
+// Keep in sync with usage_period_bounds in the usage_period_engine migration
+export function usagePeriodBounds(period: ResetPeriod, anchor: Date, at: Date = new Date()): UsagePeriod {
+  const day = utcDay(at);
+
+  switch (period) {
+    case "daily":
+      return { start: day, end: new Date(day.getTime() + DAY_MS) };
+    case "weekly": {
+      const back = (at.getUTCDay() - anchor.getUTCDay() + 7) % 7;
+      const start = new Date(day.getTime() - back * DAY_MS);
+      return { start, end: new Date(start.getTime() + 7 * DAY_MS) };
+    }
+    case "monthly": {
+      const anchorDay = anchor.getUTCDate();
+      let year = at.getUTCFullYear();
+      let month = at.getUTCMonth();
+      let start = monthlyAnchor(year, month, anchorDay);
+      if (start > at) {
+        month -= 1;
+        if (month < 0) { month = 11; year -= 1; }
+        start = monthlyAnchor(year, month, anchorDay);
+      }
+      return { start, end: monthlyAnchor(month === 11 ? year + 1 : year, (month + 1) % 12, anchorDay) };
+    }
+    default:
+      return { start: utcDay(anchor), end: null };
+  }
+}
+
+/** "Oct 5 – Nov 5" for a period; dates are shown in UTC, when periods turn over. */
+export function formatUsagePeriod(start: Date | string, end: Date | string | null): string {
+  const fmt = (d: Date | string) =>
+    new Date(d).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+  return end ? `${fmt(start)} – ${fmt(end)}` : `Since ${fmt(start)}`;
+}
+
+export async function fetchCurrentUsagePeriods(clientId: string): Promise<CurrentUsagePeriod[]> {
+  const { data, error } = await supabase
+    .from("client_services")
+    .select("id, reset_period, current_period_start, current_period_end")
+    .eq("client_id", clientId);
+  if (error) throw error;
+  return ((data ?? []) as { id: string; reset_period: ResetPeriod | null; current_period_start: string | null; current_period_end: string | null }[])
+    .map((r) => ({
+      client_service_id: r.id,
+      reset_period: r.reset_period ?? "monthly",
+      current_period_start: r.current_period_start,
+      current_period_end: r.current_period_end,
+    }));
+}
+
+export async function fetchUsagePeriodHistory(clientId: string, limit = 24): Promise<UsagePeriodHistoryRow[]> {
+  const { data, error } = await supabase
+    .from("usage_period_history")
+    .select("id, client_service_id, service_id, reset_period, period_start, period_end, usage_limit, usage_consumed, overage_consumed, services(name)")
+    .eq("client_id", clientId)
+    .order("period_end", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return ((data ?? []) as (Omit<UsagePeriodHistoryRow, "service_name"> & { services: { name: string } | null })[])
+    .map(({ services, ...row }) => ({ ...row, service_name: services?.name ?? "Unknown" }));
+}
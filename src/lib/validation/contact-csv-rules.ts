@@ -1,4 +1,5 @@
 import type { ValidationRule } from '@/lib/csv-parser';
+import { isValidTimeZone } from '@/lib/calling-window';
 
 export const contactCSVRules: ValidationRule[] = [
   {
@@ -36,6 +37,17 @@ export const contactCSVRules: ValidationRule[] = [
     required: false,
     type: 'string',
   },
+  {
+    field: 'timezone',
+    required: false,
+    type: 'string',
+    custom: (value) => {
+      if (value && !isValidTimeZone(value)) {
+        return 'Timezone must be an IANA name (e.g., Asia/Kolkata); leave empty to detect from the phone number';
+      }
+      return null;
+    },
+  },
 ];
 
 export const contactCSVTemplate = [
@@ -44,4 +56,5 @@ export const contactCSVTemplate = [
   { name: 'email', example: 'john@example.com' },
   { name: 'company', example: 'Acme Inc' },
   { name: 'location', example: 'Mumbai, India' },
+  { name: 'timezone', example: 'Asia/Kolkata' },
 ];
@@ -0,0 +1,37 @@
+import type { ValidationRule } from '@/lib/csv-parser';
+
+export const suppressionCSVRules: ValidationRule[] = [
+  {
+    field: 'phone_number',
+    required: true,
+    type: 'phone',
+    custom: (value) => {
+      if (value && !value.startsWith('+')) {
+        return 'Phone number must start with + and country code (e.g., +919876543210)';
+      }
+      return null;
+    },
+  },
+  {
+    field: 'channel',
+    required: false,
+    type: 'string',
+    custom: (value) => {
+      if (value && !['all', 'voice', 'whatsapp'].includes(value.toLowerCase())) {
+        return 'Channel must be one of: all, voice, whatsapp';
+      }
+      return null;
+    },
+  },
+  {
+    field: 'reason',
+    required: false,
+    type: 'string',
+  },
+];
+
+export const suppressionCSVTemplate = [
+  { name: 'phone_number', example: '+919876543210' },
+  { name: 'channel', example: 'all' },
+  { name: 'reason', example: 'Customer requested no calls' },
+];
@@ -0,0 +1,131 @@
+import { addDays, differenceInCalendarDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Prepaid wallets. Balances only move through the `post_wallet_transaction`
+ * function in Postgres (usage debits, top-ups, admin adjustments); the
+ * frontend reads them and calls the admin RPCs below.
+ */
+
+export type BillingMode = "postpaid" | "prepaid";
+export type ZeroBalancePolicy = "pause" | "allow_negative";
+export type WalletTransactionType = "top_up" | "usage_debit" | "manual_credit" | "manual_debit" | "refund";
+
+export const WALLET_TRANSACTION_LABELS: Record<WalletTransactionType, string> = {
+  top_up: "Top-up",
+  usage_debit: "Usage",
+  manual_credit: "Credit",
+  manual_debit: "Adjustment",
+  refund: "Refund",
+};
+
+export const ZERO_BALANCE_POLICY_LABELS: Record<ZeroBalancePolicy, string> = {
+  pause: "Pause outbound campaigns and WhatsApp sends",
+  allow_negative: "Keep running on a negative balance",
+};
+
+export interface ClientWallet {
+  client_id: string;
+  billing_mode: BillingMode;
+  balance: number;
+  low_balance_threshold: number;
+  zero_balance_policy: ZeroBalancePolicy;
+  paused_at: string | null;
+  updated_at: string;
+}
+
+export interface WalletTransaction {
+  id: string;
+  client_id: string;
+  transaction_type: WalletTransactionType;
+  amount: number;
+  balance_after: number;
+  reference: string | null;
+  note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface WalletForecast {
+  /** Average daily spend over the window */
+  dailyBurn: number;
+  /** Whole days the balance lasts at that rate; null when nothing is being spent */
+  daysRemaining: number | null;
+  depletesOn: Date | null;
+}
+
+export const formatWalletAmount = (n: number) =>
+  `₹${Number(n).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/** Projects when the balance runs out from usage debits in the last `windowDays`. */
+export function forecastWallet(
+  balance: number,
+  transactions: Pick<WalletTransaction, "transaction_type" | "amount" | "created_at">[],
+  now: Date = new Date(),
+  windowDays = 14,
+): WalletForecast {
+  const spent = transactions
+    .filter((t) => t.transaction_type === "usage_debit")
+    .filter((t) => differenceInCalendarDays(now, new Date(t.created_at)) < windowDays)
+    .reduce((sum, t) => sum + Math.abs(Number(t.amount)), 0);
+
+  const dailyBurn = Math.round((spent / windowDays) * 100) / 100;
+  if (dailyBurn <= 0) return { dailyBurn: 0, daysRemaining: null, depletesOn: null };
+
+  const daysRemaining = Math.max(Math.floor(balance / dailyBurn), 0);
+  return { dailyBurn, daysRemaining, depletesOn: addDays(now, daysRemaining) };
+}
+
+export async function fetchWallet(clientId: string): Promise<ClientWallet | null> {
+  const { data, error } = await supabase
+    .from("client_wallets")
+    .select("*")
+    .eq("client_id", clientId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as ClientWallet | null;
+}
+
+export async function fetchWalletTransactions(clientId: string, limit = 100): Promise<WalletTransaction[]> {
+  const { data, error } = await supabase
+    .from("wallet_transactions")
+    .select("*")
+    .eq("client_id", clientId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data ?? []) as WalletTransaction[];
+}
+
+/** Positive amounts credit the wallet, negative ones debit it; a note is required. */
+export async function grantWalletCredit(clientId: string, amount: number, note: string): Promise<void> {
+  const { error } = await supabase.rpc("grant_wallet_credit", {
+    p_client_id: clientId,
+    p_amount: amount,
+    p_note: note,
+  });
+  if (error) throw error;
+}
+
+export async function updateWalletSettings(
+  clientId: string,
+  settings: Pick<ClientWallet, "billing_mode" | "low_balance_threshold" | "zero_balance_policy">,
+): Promise<void> {
+  const { error } = await supabase.rpc("update_wallet_settings", {
+    p_client_id: clientId,
+    p_billing_mode: settings.billing_mode,
+    p_low_balance_threshold: settings.low_balance_threshold,
+    p_zero_balance_policy: settings.zero_balance_policy,
+  });
+  if (error) throw error;
+}
+
+/**
+ * Opens a top-up invoice for the signed-in client; paying it through the
+ * gateway credits the wallet. Returns the invoice id.
+ */
+export async function createWalletTopUp(amount: number): Promise<string> {
+  const { data, error } = await supabase.rpc("create_wallet_top_up", { p_amount: amount });
+  if (error) throw error;
+  return data as string;
+}
@@ -0,0 +1,101 @@
+/**
+ * Recipient import and template parameter mapping for WhatsApp campaigns.
+ * The wizard in WhatsAppPage resolves every recipient's parameters up front;
+ * the whatsapp-campaign-sender function only sends what was queued.
+ */
+
+export interface CampaignRecipient {
+  phone: string;
+  /** Every CSV column for this row, used for template parameters */
+  fields: Record<string, string>;
+}
+
+export interface RecipientImport {
+  recipients: CampaignRecipient[];
+  invalidRows: number;
+  duplicateRows: number;
+}
+
+/** Where a template variable ({{1}}, {{2}}, ...) takes its value from. */
+export type TemplateParamSource =
+  | { source: "column"; column: string }
+  | { source: "static"; value: string };
+
+export const MAX_CAMPAIGN_RECIPIENTS = 10000;
+
+const PHONE_COLUMN_PATTERN = /^(phone|mobile|phone_number|phone number|whatsapp|whatsapp_number|contact|number|tel)$/i;
+
+export function detectPhoneColumn(headers: string[]): string | undefined {
+  return headers.find((h) => PHONE_COLUMN_PATTERN.test(h.trim()));
+}
+
+/** "+91 98765-43210" → "+919876543210"; null when it can't be a WhatsApp number. */
+export function normalizeCampaignPhone(raw: string | undefined): string | null {
+  const digits = (raw ?? "").replace(/[^0-9]/g, "");
+  if (digits.length < 11 || digits.length > 15) return null;
+  return `+${digits}`;
+}
+
+/** Turns parsed CSV rows into unique, valid recipients. */
+export function buildRecipients(rows: Record<string, string>[], phoneColumn: string): RecipientImport {
+  const seen = new Set<string>();
+  const recipients: CampaignRecipient[] = [];
+  let invalidRows = 0;
+  let duplicateRows = 0;
+
+  for (const row of rows) {
+    const phone = normalizeCampaignPhone(row[phoneColumn]);
+    if (!phone) {
+      invalidRows++;
+      continue;
+    }
+    if (seen.has(phone)) {
+      duplicateRows++;
+      continue;
+    }
+    seen.add(phone);
+
+    const fields: Record<string, string> = {};
+    for (const [key, value] of Object.entries(row)) fields[key] = (value ?? "").trim();
+    recipients.push({ phone, fields });
+  }
+
+  return { recipients: recipients.slice(0, MAX_CAMPAIGN_RECIPIENTS), invalidRows, duplicateRows };
+}
+
+/** Variable numbers used in a template body, in order: "Hi {{1}}, {{2}}" → ["1", "2"]. */
+export function templateVariables(body: string): string[] {
+  const numbers = [...body.matchAll(/{{(\d+)}}/g)].map((m) => Number(m[1]));
+  return [...new Set(numbers)].sort((a, b) => a - b).map(String);
+}
+
+/** Parameter values for one recipient, in variable order. */
+export function resolveTemplateParams(
+  variables: string[],
+  mapping: Record<string, TemplateParamSource | undefined>,
+  recipient: CampaignRecipient,
+): string[] {
+  return variables.map((v) => {
+    const source = mapping[v];
+    if (!source) return "";
+    return source.source === "column" ? recipient.fields[source.column] ?? "" : source.value;
+  });
+}
+
+/** Variables that are unmapped, or mapped to a column that is empty for some recipient. */
+export function findMissingParams(
+  variables: string[],
+  mapping: Record<string, TemplateParamSource | undefined>,
+  recipients: CampaignRecipient[],
+): string[] {
+  return variables.filter((v) => {
+    const source = mapping[v];
+    if (!source) return true;
+    if (source.source === "static") return !source.value.trim();
+    return recipients.some((r) => !r.fields[source.column]);
+  });
+}
+
+export function renderTemplate(body: string, params: string[]): string {
+  return body.replace(/{{(\d+)}}/g, (match, n) => params[Number(n) - 1] || match);
+}
@@ -0,0 +1,59 @@
+/**
+ * WhatsApp customer-service window. Meta only accepts free-form messages
+ * within 24 hours of the customer's last inbound message; outside it only
+ * approved templates go through. `whatsapp_chats.last_inbound_at` tracks the
+ * start of the window and the `reject_closed_session_whatsapp_message`
+ * trigger enforces the same rule for queued messages.
+ */
+
+export const WHATSAPP_SESSION_WINDOW_HOURS = 24;
+const WINDOW_MS = WHATSAPP_SESSION_WINDOW_HOURS * 60 * 60 * 1000;
+
+export const SESSION_CLOSED_REASON =
+  "The 24-hour WhatsApp session window is closed. Send an approved template instead.";
+
+/** Message types that count as free-form; only templates may open a conversation. */
+const FREE_FORM_TYPES = ["text", "image", "video", "audio", "document"];
+
+export interface SessionWindow {
+  open: boolean;
+  expiresAt: Date | null;
+  /** Milliseconds left in the window, 0 once it has closed. */
+  remainingMs: number;
+}
+
+export function getSessionWindow(lastInboundAt: string | Date | null | undefined, now: Date = new Date()): SessionWindow {
+  if (!lastInboundAt) return { open: false, expiresAt: null, remainingMs: 0 };
+
+  const expiresAt = new Date(new Date(lastInboundAt).getTime() + WINDOW_MS);
+  const remainingMs = Math.max(0, expiresAt.getTime() - now.getTime());
+  return { open: remainingMs > 0, expiresAt, remainingMs };
+}
+
+export function isFreeFormMessage(messageType: string | null | undefined): boolean {
+  return FREE_FORM_TYPES.includes(messageType ?? "text");
+}
+
+/** True when the message can only be sent as an approved template. */
+export function requiresTemplate(
+  messageType: string | null | undefined,
+  lastInboundAt: string | Date | null | undefined,
+  now: Date = new Date(),
+): boolean {
+  return isFreeFormMessage(messageType) && !getSessionWindow(lastInboundAt, now).open;
+}
+
+/** "23h 59m", "45m", "<1m" */
+export function formatSessionRemaining(remainingMs: number): string {
+  const totalMinutes = Math.floor(remainingMs / 60000);
+  if (totalMinutes < 1) return "<1m";
+
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
+/** Phone numbers compare on digits only: "+91 98765-43210" matches "919876543210". */
+export function normalizeWhatsAppPhone(phone: string): string {
+  return phone.replace(/[^0-9]/g, "");
+}
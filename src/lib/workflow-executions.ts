@@ -0,0 +1,168 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Workflow execution records. Client n8n workflows report start, finish and
+ * error events (with per-node timings) to the workflow-execution-callback
+ * edge function; failed runs are retried with backoff under their template's
+ * retry policy by retry-workflow-executions, which also replays runs on
+ * demand.
+ */
+
+export type ExecutionStatus = "running" | "success" | "error" | "waiting" | "cancelled";
+export type RetryStatus = "scheduled" | "dispatched" | "exhausted" | "skipped";
+
+export interface RetryPolicy {
+  /** Including the first run; 1 turns retries off */
+  max_attempts: number;
+  initial_delay_seconds: number;
+  backoff_multiplier: number;
+  max_delay_seconds: number;
+}
+
+export interface NodeTiming {
+  name: string;
+  started_at?: string | null;
+  duration_ms: number;
+  status?: "success" | "error" | string;
+  error?: string | null;
+}
+
+export interface WorkflowExecution {
+  id: string;
+  workflow_instance_id: string;
+  n8n_execution_id: string | null;
+  status: ExecutionStatus;
+  execution_mode: string | null;
+  input_data: unknown;
+  output_data: unknown;
+  error_message: string | null;
+  error_stack: string | null;
+  duration_ms: number | null;
+  executed_at: string;
+  completed_at: string | null;
+  node_timings: NodeTiming[] | null;
+  attempt: number;
+  retry_of: string | null;
+  retry_status: RetryStatus | null;
+  next_retry_at: string | null;
+  replayed_by: string | null;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  max_attempts: 3,
+  initial_delay_seconds: 60,
+  backoff_multiplier: 2,
+  max_delay_seconds: 3600,
+};
+
+export const RETRY_STATUS_LABELS: Record<RetryStatus, string> = {
+  scheduled: "Retry Scheduled",
+  dispatched: "Retried",
+  exhausted: "Retries Exhausted",
+  skipped: "Not Retried",
+};
+
+const finiteOr = (value: unknown, fallback: number) => {
+  const n = Number(value);
+  return value != null && value !== "" && Number.isFinite(n) ? n : fallback;
+};
+
+/** A stored policy with missing or invalid fields replaced by the defaults. */
+export function normalizeRetryPolicy(value: unknown): RetryPolicy {
+  const p = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  return {
+    max_attempts: Math.max(Math.floor(finiteOr(p.max_attempts, DEFAULT_RETRY_POLICY.max_attempts)), 1),
+    initial_delay_seconds: Math.max(finiteOr(p.initial_delay_seconds, DEFAULT_RETRY_POLICY.initial_delay_seconds), 0),
+    backoff_multiplier: Math.max(finiteOr(p.backoff_multiplier, DEFAULT_RETRY_POLICY.backoff_multiplier), 1),
+    max_delay_seconds: Math.max(finiteOr(p.max_delay_seconds, DEFAULT_RETRY_POLICY.max_delay_seconds), 0),
+  };
+}
+
+/**
+ * Seconds to wait before the retry that follows a failed `attempt`: the
+ * initial delay grown by the multiplier per attempt, capped at the maximum.
+ * Keep in sync with workflow_retry_delay().
+ */
+export function retryDelaySeconds(policy: RetryPolicy, attempt: number): number {
+  const delay = Math.max(policy.initial_delay_seconds, 0) *
+    Math.pow(Math.max(policy.backoff_multiplier, 1), Math.max(attempt - 1, 0));
+  return Math.round(Math.min(delay, policy.max_delay_seconds));
+}
+
+/** The waits between attempts a policy produces, e.g. [60, 120] for three attempts. */
+export function retrySchedule(policy: RetryPolicy): number[] {
+  return Array.from({ length: Math.max(policy.max_attempts - 1, 0) }, (_, i) => retryDelaySeconds(policy, i + 1));
+}
+
+export interface NodeTimingBar extends NodeTiming {
+  /** Offset from the first node and width, as fractions of the whole run */
+  offset: number;
+  width: number;
+}
+
+/**
+ * Per-node timings laid out on the run's timeline for a waterfall. Nodes
+ * without a start time are placed one after another.
+ */
+export function nodeTimingBars(nodes: NodeTiming[] | null | undefined): NodeTimingBar[] {
+  const list = (nodes ?? []).filter((n) => n && typeof n.name === "string");
+  if (list.length === 0) return [];
+
+  let cursor = 0;
+  const placed = list.map((n) => {
+    const duration = Math.max(Number(n.duration_ms) || 0, 0);
+    const started = n.started_at ? Date.parse(n.started_at) : NaN;
+    const start = Number.isNaN(started) ? null : started;
+    return { node: n, duration, start };
+  });
+  const origin = Math.min(...placed.map((p) => p.start ?? Infinity));
+
+  const spans = placed.map((p) => {
+    const from = p.start !== null && Number.isFinite(origin) ? p.start - origin : cursor;
+    cursor = from + p.duration;
+    return { ...p, from };
+  });
+  const total = Math.max(...spans.map((s) => s.from + s.duration), 1);
+
+  return spans.map((s) => ({
+    ...s.node,
+    duration_ms: s.duration,
+    offset: s.from / total,
+    width: s.duration / total,
+  }));
+}
+
+export async function fetchExecution(id: string): Promise<WorkflowExecution | null> {
+  const { data, error } = await supabase
+    .from("workflow_executions")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+  if (error) throw error;
+  return data as unknown as WorkflowExecution | null;
+}
+
+/** Every attempt in an execution's retry chain, first run first. */
+export async function fetchExecutionAttempts(execution: Pick<WorkflowExecution, "id" | "retry_of">): Promise<WorkflowExecution[]> {
+  const rootId = execution.retry_of ?? execution.id;
+  const { data, error } = await supabase
+    .from("workflow_executions")
+    .select("*")
+    .or(`id.eq.${rootId},retry_of.eq.${rootId}`)
+    .order("attempt");
+  if (error) throw error;
+  return (data ?? []) as unknown as WorkflowExecution[];
+}
+
+/** Runs the execution again with the same input; returns the new execution's id. */
+export async function replayExecution(executionId: string): Promise<string> {
+  const { data, error } = await supabase.functions.invoke("retry-workflow-executions", {
+    body: { action: "replay", execution_id: executionId },
+  });
+  if (error) {
+    const context = (error as { context?: Response }).context;
+    const detail = context ? await context.json().catch(() => null) : null;
+    throw new Error(detail?.error ?? error.message);
+  }
+  return data.execution_id;
+}
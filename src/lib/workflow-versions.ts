@@ -0,0 +1,249 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { RolloutThresholds } from "@shared/workflow-rollout";
+
+/**
+ * Workflow template versions and rollouts. Saving a template at a new
+ * semantic version snapshots it in `workflow_template_versions`; the
+ * rollout-workflow-template edge function then upgrades selected client
+ * workflows to it, canaries first, and rolls back if their error rate in
+ * `workflow_executions` spikes. The promote/rollback rules are shared with
+ * the edge function in supabase/functions/_shared/workflow-rollout.ts.
+ */
+
+export * from "@shared/workflow-rollout";
+
+export type SemverPart = "major" | "minor" | "patch";
+
+export interface TemplateVersion {
+  id: string;
+  template_id: string;
+  version: string;
+  changelog: string | null;
+  workflow_json: unknown;
+  n8n_template_workflow_id: string | null;
+  master_prompt: string | null;
+  default_config: Record<string, unknown> | null;
+  required_credentials: string[] | null;
+  created_at: string;
+}
+
+export type RolloutStatus = "canary" | "monitoring" | "completed" | "rolled_back";
+export type RolloutInstanceStatus = "pending" | "upgraded" | "rolled_back" | "failed";
+
+export interface RolloutInstance {
+  workflow_instance_id: string;
+  from_version: string;
+  is_canary: boolean;
+  status: RolloutInstanceStatus;
+  upgraded_at: string | null;
+  error_message: string | null;
+  workflow_name: string | null;
+  company_name: string | null;
+}
+
+export interface WorkflowRollout {
+  id: string;
+  template_id: string;
+  to_version: string;
+  status: RolloutStatus;
+  canary_count: number;
+  observation_minutes: number;
+  max_error_rate: number;
+  min_executions: number;
+  baseline_executions: number;
+  baseline_errors: number;
+  phase_started_at: string;
+  status_reason: string | null;
+  created_at: string;
+  completed_at: string | null;
+  instances: RolloutInstance[];
+}
+
+export interface RolloutOptions extends RolloutThresholds {
+  canary_count: number;
+}
+
+export const DEFAULT_ROLLOUT_OPTIONS: RolloutOptions = {
+  canary_count: 1,
+  observation_minutes: 30,
+  max_error_rate: 0.2,
+  min_executions: 10,
+};
+
+export const ROLLOUT_STATUS_LABELS: Record<RolloutStatus, string> = {
+  canary: "Canary",
+  monitoring: "Monitoring",
+  completed: "Completed",
+  rolled_back: "Rolled Back",
+};
+
+const SEMVER = /^(\d+)\.(\d+)\.(\d+)$/;
+
+export function parseSemver(version: string): [number, number, number] | null {
+  const m = SEMVER.exec(version.trim());
+  return m ? [Number(m[1]), Number(m[2]), Number(m[3])] : null;
+}
+
+export function isValidSemver(version: string): boolean {
+  return parseSemver(version) !== null;
+}
+
+/** Negative when a is older than b, positive when newer. Keep in sync with compare_semver(). */
+export function compareSemver(a: string, b: string): number {
+  const pa = parseSemver(a) ?? [0, 0, 0];
+  const pb = parseSemver(b) ?? [0, 0, 0];
+  for (let i = 0; i < 3; i++) {
+    if (pa[i] !== pb[i]) return pa[i] - pb[i];
+  }
+  return 0;
+}
+
+export function bumpVersion(version: string, part: SemverPart): string {
+  const [major, minor, patch] = parseSemver(version) ?? [1, 0, 0];
+  if (part === "major") return `${major + 1}.0.0`;
+  if (part === "minor") return `${major}.${minor + 1}.0`;
+  return `${major}.${minor}.${patch + 1}`;
+}
+
+export interface DiffLine {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+/** Line diff of two texts (longest common subsequence). */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before === "" ? [] : before.split("\n");
+  const b = after === "" ? [] : after.split("\n");
+  const cols = b.length + 1;
+  // lcs[i * cols + j]: common lines of a[i..] and b[j..]
+  const lcs = new Int32Array((a.length + 1) * cols);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] = a[i] === b[j]
+        ? lcs[(i + 1) * cols + j + 1] + 1
+        : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+
+  const out: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      out.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+      out.push({ type: "removed", text: a[i++] });
+    } else {
+      out.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) out.push({ type: "removed", text: a[i++] });
+  while (j < b.length) out.push({ type: "added", text: b[j++] });
+  return out;
+}
+
+export interface VersionDiffSection {
+  label: string;
+  lines: DiffLine[];
+}
+
+const json = (value: unknown) => (value == null ? "" : JSON.stringify(value, null, 2));
+
+/** The parts of a template that changed between two versions, as line diffs. */
+export function diffTemplateVersions(from: TemplateVersion, to: TemplateVersion): VersionDiffSection[] {
+  const fields: [string, string, string][] = [
+    ["Workflow JSON", json(from.workflow_json), json(to.workflow_json)],
+    ["N8N Template Workflow ID", from.n8n_template_workflow_id ?? "", to.n8n_template_workflow_id ?? ""],
+    ["Master Prompt", from.master_prompt ?? "", to.master_prompt ?? ""],
+    ["Default Config", json(from.default_config ?? {}), json(to.default_config ?? {})],
+    ["Required Credentials", (from.required_credentials ?? []).join("\n"), (to.required_credentials ?? []).join("\n")],
+  ];
+  return fields
+    .filter(([, before, after]) => before !== after)
+    .map(([label, before, after]) => ({ label, lines: diffLines(before, after) }));
+}
+
+export async function fetchTemplateVersions(templateId: string): Promise<TemplateVersion[]> {
+  const { data, error } = await supabase
+    .from("workflow_template_versions")
+    .select("*")
+    .eq("template_id", templateId);
+  if (error) throw error;
+  return ((data ?? []) as TemplateVersion[]).sort((a, b) => compareSemver(b.version, a.version));
+}
+
+export async function fetchTemplateRollouts(templateId: string, limit = 10): Promise<WorkflowRollout[]> {
+  const { data, error } = await supabase
+    .from("workflow_rollouts")
+    .select("*, workflow_rollout_instances(*, client_workflow_instances(workflow_name, clients(company_name)))")
+    .eq("template_id", templateId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+
+  type Joined = Omit<WorkflowRollout, "instances"> & {
+    workflow_rollout_instances: (Omit<RolloutInstance, "workflow_name" | "company_name"> & {
+      client_workflow_instances: { workflow_name: string; clients: { company_name: string } | null } | null;
+    })[];
+  };
+  return ((data ?? []) as Joined[]).map(({ workflow_rollout_instances, ...r }) => ({
+    ...r,
+    max_error_rate: Number(r.max_error_rate),
+    instances: workflow_rollout_instances.map(({ client_workflow_instances, ...i }) => ({
+      ...i,
+      workflow_name: client_workflow_instances?.workflow_name ?? null,
+      company_name: client_workflow_instances?.clients?.company_name ?? null,
+    })),
+  }));
+}
+
+export interface TemplateInstance {
+  id: string;
+  workflow_name: string;
+  template_version: string | null;
+  is_active: boolean;
+  company_name: string;
+}
+
+/** Every client workflow built from a template. */
+export async function fetchTemplateInstances(templateId: string): Promise<TemplateInstance[]> {
+  const { data, error } = await supabase
+    .from("client_workflow_instances")
+    .select("id, workflow_name, template_version, is_active, clients(company_name)")
+    .eq("workflow_template_id", templateId)
+    .order("created_at");
+  if (error) throw error;
+  return (data ?? []).map((i: Omit<TemplateInstance, "company_name"> & { clients: { company_name: string } | null }) => ({
+    id: i.id,
+    workflow_name: i.workflow_name,
+    template_version: i.template_version,
+    is_active: !!i.is_active,
+    company_name: i.clients?.company_name ?? "Unknown",
+  }));
+}
+
+async function invokeRollout(body: Record<string, unknown>) {
+  const { data, error } = await supabase.functions.invoke("rollout-workflow-template", { body });
+  if (error) {
+    const context = (error as { context?: Response }).context;
+    const detail = context ? await context.json().catch(() => null) : null;
+    throw new Error(detail?.error ?? error.message);
+  }
+  return data;
+}
+
+/** Upgrades the canaries now; the rest follow once they have been watched. */
+export function startRollout(templateId: string, instanceIds: string[], options: RolloutOptions) {
+  return invokeRollout({ action: "start", template_id: templateId, instance_ids: instanceIds, ...options });
+}
+
+export function rollbackRollout(rolloutId: string) {
+  return invokeRollout({ action: "rollback", rollout_id: rolloutId });
+}
+
+/** Checks a rollout now instead of waiting for the scheduler. */
+export function advanceRollout(rolloutId: string) {
+  return invokeRollout({ action: "advance", rollout_id: rolloutId });
+}
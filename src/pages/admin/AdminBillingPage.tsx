@@ -6,7 +6,7 @@ import { toast } from "sonner";
 import { format, formatDistanceToNow, addDays, startOfMonth, endOfMonth, subMonths } from "date-fns";
 import {
   FileText, CheckCircle, Clock, AlertCircle, Search, Plus, Trash2,
-  MoreHorizontal, Eye, Download, Send, Pencil, Copy, Ban, DollarSign,
+  MoreHorizontal, Eye, Download, Send, Pencil, Copy, Ban, DollarSign, CalendarClock, Link2,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -30,6 +30,15 @@ import {
 } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
 import { Checkbox } from "@/components/ui/checkbox";
+import { SettlementStatementCard } from "@/components/admin/SettlementStatementCard";
+import {
+  closedBillingPeriods, invoiceBalance, requestPaymentLink, resolveUnitPrice, runBillingPeriod,
+} from "@/lib/billing";
+import {
+  TAX_TREATMENT_LABELS, computeLineTax, fetchAdminTaxSettings, fetchClientTaxDetails, placeOfSupplyLabel,
+  resolveTaxTreatment, sumLineTaxes, taxRateFor, type TaxTreatment,
+} from "@/lib/tax";
+import { downloadInvoicePdf, type InvoicePdfLine } from "@/lib/invoice-pdf";
 
 type InvoiceRow = {
   id: string;
@@ -46,6 +55,20 @@ type InvoiceRow = {
   client_id: string | null;
   admin_id: string | null;
   created_at: string;
+  billing_period_start?: string | null;
+  is_auto_generated?: boolean;
+  amount_paid?: number;
+  amount_refunded?: number;
+  payment_link_url?: string | null;
+  discount_amount?: number;
+  tax_treatment?: TaxTreatment | null;
+  reverse_charge?: boolean;
+  place_of_supply?: string | null;
+  supplier_legal_name?: string | null;
+  supplier_tax_id?: string | null;
+  supplier_address?: string | null;
+  customer_tax_id?: string | null;
+  customer_address?: string | null;
   client_name?: string;
   client_email?: string;
 };
@@ -78,9 +101,12 @@ export default function AdminBillingPage() {
   const [markPaidOpen, setMarkPaidOpen] = useState(false);
   const [viewInvoiceOpen, setViewInvoiceOpen] = useState(false);
   const [selectedInvoice, setSelectedInvoice] = useState<InvoiceRow | null>(null);
-  const [viewLineItems, setViewLineItems] = useState<LineItem[]>([]);
+  const [viewLineItems, setViewLineItems] = useState<(LineItem & InvoicePdfLine)[]>([]);
   const [paymentDate, setPaymentDate] = useState(format(new Date(), "yyyy-MM-dd"));
   const [paymentMethod, setPaymentMethod] = useState("");
+  const billingPeriods = useMemo(() => closedBillingPeriods(), []);
+  const [runBillingOpen, setRunBillingOpen] = useState(false);
+  const [billingPeriod, setBillingPeriod] = useState(billingPeriods[0].value);
 
   // Generate invoice form state
   const [formClientId, setFormClientId] = useState("");
@@ -88,8 +114,6 @@ export default function AdminBillingPage() {
   const [formInvoiceDate, setFormInvoiceDate] = useState(format(new Date(), "yyyy-MM-dd"));
   const [formDueDate, setFormDueDate] = useState(format(addDays(new Date(), 30), "yyyy-MM-dd"));
   const [formNotes, setFormNotes] = useState("");
-  const [formAddTax, setFormAddTax] = useState(false);
-  const [formTaxRate, setFormTaxRate] = useState(18);
   const [formAddDiscount, setFormAddDiscount] = useState(false);
   const [formDiscountAmount, setFormDiscountAmount] = useState(0);
   const [lineItems, setLineItems] = useState<LineItem[]>([]);
@@ -148,7 +172,7 @@ export default function AdminBillingPage() {
   const { data: services = [] } = useQuery({
     queryKey: ["admin-services-billing"],
     queryFn: async () => {
-      const { data: svcData, error } = await supabase.from("services").select("id, name, base_price").eq("is_active", true);
+      const { data: svcData, error } = await supabase.from("services").select("id, name, base_price, category").eq("is_active", true);
       if (error) throw error;
 
       // Get admin pricing
@@ -157,12 +181,24 @@ export default function AdminBillingPage() {
 
       return (svcData || []).map((s) => {
         const ap = pricingMap.get(s.id);
-        const price = ap?.is_custom_pricing && ap.custom_price_per_unit ? ap.custom_price_per_unit : s.base_price * (1 + (ap?.markup_percentage || 0) / 100);
-        return { ...s, admin_price: price };
+        return { ...s, admin_price: resolveUnitPrice(s.base_price, ap) };
       });
     },
   });
 
+  // Tax registration and the selected client's location drive the tax preview
+  const { data: taxSettings } = useQuery({
+    queryKey: ["admin-tax-settings", admin?.id],
+    queryFn: () => fetchAdminTaxSettings(admin!.id),
+    enabled: !!admin,
+  });
+
+  const { data: formClientTax = null } = useQuery({
+    queryKey: ["client-tax-details", formClientId],
+    queryFn: () => fetchClientTaxDetails(formClientId),
+    enabled: !!formClientId,
+  });
+
   // Summary stats
   const stats = useMemo(() => {
     const now = new Date();
@@ -204,19 +240,23 @@ export default function AdminBillingPage() {
     return result;
   }, [invoices, tab, search, clientFilter, dateFilter]);
 
-  // Next invoice number
+  // Working reference for a new invoice; sending replaces it with the next number in the admin's sequence
   const nextInvoiceNumber = useMemo(() => {
     const year = new Date().getFullYear();
     const existing = invoices
       .map((i) => {
-        const match = i.invoice_number.match(/INV-\d{4}-(\d+)/);
+        const match = i.invoice_number.match(/DRAFT-\d{4}-(\d+)/);
         return match ? parseInt(match[1]) : 0;
       })
       .filter((n) => n > 0);
     const next = existing.length > 0 ? Math.max(...existing) + 1 : 1;
-    return `INV-${year}-${String(next).padStart(3, "0")}`;
+    return `DRAFT-${year}-${String(next).padStart(3, "0")}`;
   }, [invoices]);
 
+  const issuedNumberPreview = taxSettings
+    ? `${taxSettings.invoice_prefix}-${String(taxSettings.next_invoice_sequence).padStart(5, "0")}`
+    : null;
+
   // Line item helpers
   const addLineItem = () => {
     setLineItems((prev) => [
@@ -248,7 +288,17 @@ export default function AdminBillingPage() {
   const removeLineItem = (id: string) => setLineItems((prev) => prev.filter((i) => i.id !== id));
 
   const subtotal = lineItems.reduce((s, i) => s + i.total_price, 0);
-  const taxAmount = formAddTax ? subtotal * (formTaxRate / 100) : 0;
+  // Mirrors the invoice_items tax trigger, which has the final say
+  const formTreatment = resolveTaxTreatment(taxSettings ?? null, formClientTax);
+  const formTax = sumLineTaxes(
+    taxSettings
+      ? lineItems.map((li) => {
+          const category = services.find((s) => s.id === li.service_id)?.category ?? null;
+          return computeLineTax(li.total_price, taxRateFor(taxSettings, category, formTreatment), formTreatment);
+        })
+      : []
+  );
+  const taxAmount = formTax.total;
   const discountAmt = formAddDiscount ? formDiscountAmount : 0;
   const totalAmount = subtotal + taxAmount - discountAmt;
 
@@ -288,14 +338,21 @@ export default function AdminBillingPage() {
     setFormInvoiceDate(format(new Date(), "yyyy-MM-dd"));
     setFormDueDate(format(addDays(new Date(), 30), "yyyy-MM-dd"));
     setFormNotes("");
-    setFormAddTax(false);
-    setFormTaxRate(18);
     setFormAddDiscount(false);
     setFormDiscountAmount(0);
     setLineItems([]);
     setGenerateOpen(true);
   };
 
+  // Sent invoices get a hosted checkout link; sending still succeeds without one
+  const attachPaymentLink = async (invoiceId: string) => {
+    try {
+      await requestPaymentLink(invoiceId);
+    } catch (err) {
+      toast.warning(`Invoice sent without a payment link: ${(err as Error).message}`);
+    }
+  };
+
   // Save invoice
   const saveInvoice = async (status: "draft" | "sent") => {
     if (!formClientId) { toast.error("Select a client"); return; }
@@ -304,20 +361,23 @@ export default function AdminBillingPage() {
 
     setSaving(true);
     try {
+      // Tax and totals are recomputed from the lines by the database
+      const invoicePayload = {
+        admin_id: admin?.id,
+        client_id: formClientId,
+        invoice_number: formInvoiceNumber,
+        invoice_date: formInvoiceDate,
+        due_date: formDueDate || null,
+        subtotal,
+        tax_amount: taxAmount,
+        discount_amount: discountAmt,
+        total_amount: totalAmount,
+        status,
+        notes: formNotes || null,
+      };
       const { data: inv, error: invErr } = await supabase
         .from("invoices")
-        .insert({
-          admin_id: admin?.id,
-          client_id: formClientId,
-          invoice_number: formInvoiceNumber,
-          invoice_date: formInvoiceDate,
-          due_date: formDueDate || null,
-          subtotal,
-          tax_amount: taxAmount,
-          total_amount: totalAmount,
-          status,
-          notes: formNotes || null,
-        })
+        .insert(invoicePayload)
         .select("id")
         .single();
 
@@ -335,6 +395,7 @@ export default function AdminBillingPage() {
       const { error: itemsErr } = await supabase.from("invoice_items").insert(itemsToInsert);
       if (itemsErr) throw itemsErr;
 
+      if (status === "sent") await attachPaymentLink(inv.id);
       queryClient.invalidateQueries({ queryKey: ["admin-invoices"] });
       setGenerateOpen(false);
       toast.success(status === "draft" ? "Invoice saved as draft" : "Invoice created and sent");
@@ -363,11 +424,24 @@ export default function AdminBillingPage() {
     onError: () => toast.error("Failed to update invoice"),
   });
 
+  // Monthly billing run: draft invoices from the period's usage
+  const runBilling = useMutation({
+    mutationFn: () => runBillingPeriod(billingPeriod),
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ["admin-invoices"] });
+      setRunBillingOpen(false);
+      const label = billingPeriods.find((p) => p.value === billingPeriod)?.label;
+      toast.success(count ? `${count} draft invoice${count === 1 ? "" : "s"} ready for ${label}` : `No billable usage for ${label}`);
+    },
+    onError: (err: Error) => toast.error(err.message || "Failed to run billing"),
+  });
+
   // Update status
   const updateStatus = useMutation({
     mutationFn: async ({ id, status }: { id: string; status: "draft" | "sent" | "paid" | "overdue" | "cancelled" }) => {
       const { error } = await supabase.from("invoices").update({ status }).eq("id", id);
       if (error) throw error;
+      if (status === "sent") await attachPaymentLink(id);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["admin-invoices"] });
@@ -376,6 +450,58 @@ export default function AdminBillingPage() {
     onError: () => toast.error("Failed to update status"),
   });
 
+  const copyPaymentLink = async (inv: InvoiceRow) => {
+    try {
+      const url = inv.payment_link_url || (await requestPaymentLink(inv.id));
+      await navigator.clipboard.writeText(url);
+      queryClient.invalidateQueries({ queryKey: ["admin-invoices"] });
+      toast.success("Payment link copied");
+    } catch (err) {
+      toast.error((err as Error).message || "Failed to create payment link");
+    }
+  };
+
+  const viewTax = sumLineTaxes(
+    viewLineItems.map((l) => ({ cgst: l.cgst_amount, sgst: l.sgst_amount, igst: l.igst_amount, vat: l.vat_amount, total: 0 }))
+  );
+  const viewTaxSplit = ([["CGST", viewTax.cgst], ["SGST", viewTax.sgst], ["IGST", viewTax.igst], ["VAT", viewTax.vat]] as [string, number][])
+    .filter(([, amount]) => amount > 0);
+  // Invoices from before the tax engine only have a total tax amount
+  const viewTaxRows: [string, number][] = viewTaxSplit.length || !Number(selectedInvoice?.tax_amount)
+    ? viewTaxSplit
+    : [["Tax", Number(selectedInvoice?.tax_amount)]];
+
+  const fetchInvoiceLines = async (invoiceId: string): Promise<(LineItem & InvoicePdfLine)[]> => {
+    const { data: items } = await supabase.from("invoice_items").select("*").eq("invoice_id", invoiceId);
+    return (items || []).map((i: any) => ({
+      id: i.id, service_id: i.service_id, description: i.description, hsn_sac_code: i.hsn_sac_code ?? null,
+      quantity: i.quantity ?? 1, unit_price: Number(i.unit_price), total_price: Number(i.total_price),
+      tax_rate: Number(i.tax_rate ?? 0), cgst_amount: Number(i.cgst_amount ?? 0), sgst_amount: Number(i.sgst_amount ?? 0),
+      igst_amount: Number(i.igst_amount ?? 0), vat_amount: Number(i.vat_amount ?? 0),
+    }));
+  };
+
+  // Issued invoices carry their frozen tax details; drafts fall back to the current registration
+  const downloadPdf = async (inv: InvoiceRow) => {
+    const toastId = toast.loading("Generating PDF...");
+    try {
+      const lines = await fetchInvoiceLines(inv.id);
+      const customer = inv.client_id && inv.status === "draft" ? await fetchClientTaxDetails(inv.client_id) : null;
+      await downloadInvoicePdf({
+        ...inv,
+        supplier_legal_name: inv.supplier_legal_name ?? taxSettings?.legal_name ?? admin?.company_name,
+        supplier_tax_id: inv.supplier_tax_id ?? taxSettings?.tax_id,
+        supplier_address: inv.supplier_address ?? taxSettings?.address,
+        customer_name: inv.client_name || "",
+        customer_tax_id: inv.customer_tax_id ?? customer?.tax_id,
+        customer_address: inv.customer_address ?? customer?.billing_address,
+      }, lines);
+      toast.success("PDF downloaded", { id: toastId });
+    } catch {
+      toast.error("Failed to generate PDF", { id: toastId });
+    }
+  };
+
   const getDueDateInfo = (inv: InvoiceRow) => {
     if (!inv.due_date) return null;
     const due = new Date(inv.due_date);
@@ -393,9 +519,14 @@ export default function AdminBillingPage() {
           <h1 className="text-2xl font-bold text-foreground">Billing & Invoices</h1>
           <p className="text-muted-foreground">Manage invoices and track payments</p>
         </div>
-        <Button onClick={openGenerate}>
-          <FileText className="mr-2 h-4 w-4" /> Generate Invoice
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setRunBillingOpen(true)}>
+            <CalendarClock className="mr-2 h-4 w-4" /> Run Billing
+          </Button>
+          <Button onClick={openGenerate}>
+            <FileText className="mr-2 h-4 w-4" /> Generate Invoice
+          </Button>
+        </div>
       </div>
 
       {/* Summary Cards */}
@@ -512,9 +643,13 @@ export default function AdminBillingPage() {
                   {filtered.map((inv) => {
                     const dueInfo = getDueDateInfo(inv);
                     const sc = statusConfig[inv.status || "draft"];
+                    const balance = invoiceBalance(inv.total_amount, inv.amount_paid, inv.amount_refunded);
                     return (
                       <TableRow key={inv.id}>
-                        <TableCell className="font-medium">{inv.invoice_number}</TableCell>
+                        <TableCell className="font-medium">
+                          {inv.invoice_number}
+                          {inv.is_auto_generated && <Badge variant="outline" className="ml-2 text-[10px]">Auto</Badge>}
+                        </TableCell>
                         <TableCell>{inv.client_name}</TableCell>
                         <TableCell>{format(new Date(inv.invoice_date), "MMM d, yyyy")}</TableCell>
                         <TableCell>
@@ -525,8 +660,16 @@ export default function AdminBillingPage() {
                             </div>
                           ) : "—"}
                         </TableCell>
-                        <TableCell className="text-right font-semibold">₹{Number(inv.total_amount).toLocaleString("en-IN")}</TableCell>
-                        <TableCell><Badge variant={sc.variant}>{sc.label}</Badge></TableCell>
+                        <TableCell className="text-right font-semibold">
+                          ₹{Number(inv.total_amount).toLocaleString("en-IN")}
+                          {balance.isPartiallyPaid && (
+                            <p className="text-xs font-normal text-muted-foreground">₹{balance.outstanding.toLocaleString("en-IN")} due</p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={sc.variant}>{sc.label}</Badge>
+                          {balance.isPartiallyPaid && <Badge variant="outline" className="ml-1 text-[10px]">Part paid</Badge>}
+                        </TableCell>
                         <TableCell>{inv.paid_at ? format(new Date(inv.paid_at), "MMM d, yyyy") : "—"}</TableCell>
                         <TableCell>
                           <DropdownMenu>
@@ -536,50 +679,12 @@ export default function AdminBillingPage() {
                             <DropdownMenuContent align="end">
                               <DropdownMenuItem onClick={async () => {
                                 setSelectedInvoice(inv);
-                                const { data: items } = await supabase.from("invoice_items").select("*").eq("invoice_id", inv.id);
-                                setViewLineItems((items || []).map((i: any) => ({
-                                  id: i.id, service_id: i.service_id, description: i.description,
-                                  quantity: i.quantity ?? 1, unit_price: Number(i.unit_price), total_price: Number(i.total_price),
-                                })));
+                                setViewLineItems(await fetchInvoiceLines(inv.id));
                                 setViewInvoiceOpen(true);
                               }}>
                                 <Eye className="mr-2 h-4 w-4" /> View Invoice
                               </DropdownMenuItem>
-                              <DropdownMenuItem onClick={async () => {
-                                const toastId = toast.loading("Generating PDF...");
-                                try {
-                                  const { default: jsPDF } = await import("jspdf");
-                                  const { default: autoTable } = await import("jspdf-autotable");
-                                  const doc = new jsPDF();
-                                  doc.setFontSize(18);
-                                  doc.text("INVOICE", 105, 20, { align: "center" });
-                                  doc.setFontSize(10);
-                                  doc.text(`Invoice #: ${inv.invoice_number}`, 20, 35);
-                                  doc.text(`Date: ${format(new Date(inv.invoice_date), "MMM d, yyyy")}`, 20, 41);
-                                  if (inv.due_date) doc.text(`Due: ${format(new Date(inv.due_date), "MMM d, yyyy")}`, 20, 47);
-                                  doc.text(`Client: ${inv.client_name}`, 20, 53);
-                                  doc.text(`Status: ${(inv.status || "draft").toUpperCase()}`, 20, 59);
-                                  const { data: items } = await supabase.from("invoice_items").select("*").eq("invoice_id", inv.id);
-                                  autoTable(doc, {
-                                    startY: 68,
-                                    head: [["Description", "Qty", "Unit Price", "Total"]],
-                                    body: (items || []).map((i: any) => [i.description, i.quantity ?? 1, `₹${Number(i.unit_price).toFixed(2)}`, `₹${Number(i.total_price).toFixed(2)}`]),
-                                    theme: "grid",
-                                    styles: { fontSize: 9 },
-                                    headStyles: { fillColor: [34, 34, 34] },
-                                  });
-                                  const finalY = (doc as any).lastAutoTable?.finalY || 120;
-                                  doc.setFontSize(10);
-                                  doc.text(`Subtotal: ₹${Number(inv.subtotal).toFixed(2)}`, 140, finalY + 10);
-                                  if (inv.tax_amount) doc.text(`Tax: ₹${Number(inv.tax_amount).toFixed(2)}`, 140, finalY + 16);
-                                  doc.setFontSize(12);
-                                  doc.text(`Total: ₹${Number(inv.total_amount).toFixed(2)}`, 140, finalY + 24);
-                                  doc.save(`${inv.invoice_number}.pdf`);
-                                  toast.success("PDF downloaded", { id: toastId });
-                                } catch {
-                                  toast.error("Failed to generate PDF", { id: toastId });
-                                }
-                              }}>
+                              <DropdownMenuItem onClick={() => downloadPdf(inv)}>
                                 <Download className="mr-2 h-4 w-4" /> Download PDF
                               </DropdownMenuItem>
                               {(inv.status === "draft" || inv.status === "sent" || inv.status === "overdue") && (
@@ -592,6 +697,11 @@ export default function AdminBillingPage() {
                                   <CheckCircle className="mr-2 h-4 w-4" /> Mark as Paid
                                 </DropdownMenuItem>
                               )}
+                              {(inv.status === "sent" || inv.status === "overdue") && (
+                                <DropdownMenuItem onClick={() => copyPaymentLink(inv)}>
+                                  <Link2 className="mr-2 h-4 w-4" /> Copy Payment Link
+                                </DropdownMenuItem>
+                              )}
                               {inv.status === "draft" && (
                                 <DropdownMenuItem><Pencil className="mr-2 h-4 w-4" /> Edit</DropdownMenuItem>
                               )}
@@ -633,6 +743,9 @@ export default function AdminBillingPage() {
         </TabsContent>
       </Tabs>
 
+      {/* Settlement with the platform */}
+      {admin && <SettlementStatementCard adminId={admin.id} adminName={admin.company_name} />}
+
       {/* Generate Invoice Modal */}
       <Dialog open={generateOpen} onOpenChange={setGenerateOpen}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -658,8 +771,11 @@ export default function AdminBillingPage() {
             {/* Invoice Details */}
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label>Invoice Number *</Label>
+                <Label>Draft Reference *</Label>
                 <Input value={formInvoiceNumber} onChange={(e) => setFormInvoiceNumber(e.target.value)} />
+                {issuedNumberPreview && (
+                  <p className="text-xs text-muted-foreground">Numbered from your sequence when sent (next: {issuedNumberPreview})</p>
+                )}
               </div>
               <div className="space-y-2">
                 <Label>Payment Terms</Label>
@@ -754,17 +870,35 @@ export default function AdminBillingPage() {
                 <span className="font-medium">₹{subtotal.toLocaleString("en-IN")}</span>
               </div>
 
-              <div className="flex items-center gap-3">
-                <Checkbox checked={formAddTax} onCheckedChange={(c) => setFormAddTax(!!c)} id="addTax" />
-                <Label htmlFor="addTax" className="text-sm">Add Tax</Label>
-                {formAddTax && (
-                  <div className="flex items-center gap-2">
-                    <Input className="h-8 w-20" type="number" value={formTaxRate} onChange={(e) => setFormTaxRate(parseFloat(e.target.value) || 0)} />
-                    <span className="text-sm text-muted-foreground">%</span>
-                    <span className="text-sm ml-2">= ₹{taxAmount.toLocaleString("en-IN")}</span>
+              {formTreatment === "intra_state" && (
+                <>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">CGST</span>
+                    <span>₹{formTax.cgst.toLocaleString("en-IN")}</span>
                   </div>
-                )}
-              </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">SGST</span>
+                    <span>₹{formTax.sgst.toLocaleString("en-IN")}</span>
+                  </div>
+                </>
+              )}
+              {formTreatment === "inter_state" && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">IGST</span>
+                  <span>₹{formTax.igst.toLocaleString("en-IN")}</span>
+                </div>
+              )}
+              {formTreatment === "vat" && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">VAT</span>
+                  <span>₹{formTax.vat.toLocaleString("en-IN")}</span>
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {formTreatment === "none"
+                  ? "No tax: set up your tax registration under Settings → Billing to charge GST or VAT."
+                  : `${TAX_TREATMENT_LABELS[formTreatment]}, from your tax settings and the client's billing location.`}
+              </p>
 
               <div className="flex items-center gap-3">
                 <Checkbox checked={formAddDiscount} onCheckedChange={(c) => setFormAddDiscount(!!c)} id="addDiscount" />
@@ -799,6 +933,35 @@ export default function AdminBillingPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Run Billing Modal */}
+      <Dialog open={runBillingOpen} onOpenChange={setRunBillingOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Run Monthly Billing</DialogTitle>
+            <DialogDescription>
+              Creates a draft invoice per client from the month's usage, your pricing and plan fees. Running a month again refreshes its drafts; sent invoices are left as they are.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Billing Period</Label>
+            <Select value={billingPeriod} onValueChange={setBillingPeriod}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {billingPeriods.map((p) => (
+                  <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRunBillingOpen(false)}>Cancel</Button>
+            <Button onClick={() => runBilling.mutate()} disabled={runBilling.isPending}>
+              {runBilling.isPending ? "Running..." : "Generate Drafts"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Mark as Paid Modal */}
       <Dialog open={markPaidOpen} onOpenChange={setMarkPaidOpen}>
         <DialogContent>
@@ -864,6 +1027,18 @@ export default function AdminBillingPage() {
                   <p className="text-muted-foreground">Due Date</p>
                   <p className="font-medium">{selectedInvoice.due_date ? format(new Date(selectedInvoice.due_date), "MMM d, yyyy") : "—"}</p>
                 </div>
+                {selectedInvoice.tax_treatment && selectedInvoice.tax_treatment !== "none" && (
+                  <div>
+                    <p className="text-muted-foreground">Tax</p>
+                    <p className="font-medium">{TAX_TREATMENT_LABELS[selectedInvoice.tax_treatment]}</p>
+                  </div>
+                )}
+                {selectedInvoice.place_of_supply && (
+                  <div>
+                    <p className="text-muted-foreground">Place of Supply</p>
+                    <p className="font-medium">{placeOfSupplyLabel(selectedInvoice.place_of_supply)}</p>
+                  </div>
+                )}
               </div>
               <Separator />
               <div>
@@ -871,7 +1046,10 @@ export default function AdminBillingPage() {
                 <div className="space-y-2">
                   {viewLineItems.map((item) => (
                     <div key={item.id} className="flex items-center justify-between text-sm">
-                      <span>{item.description} × {item.quantity}</span>
+                      <span>
+                        {item.description} × {item.quantity}
+                        {item.hsn_sac_code && <span className="ml-1 text-xs text-muted-foreground">SAC {item.hsn_sac_code}</span>}
+                      </span>
                       <span className="font-medium">₹{item.total_price.toLocaleString("en-IN")}</span>
                     </div>
                   ))}
@@ -880,10 +1058,19 @@ export default function AdminBillingPage() {
               <Separator />
               <div className="space-y-1 text-sm">
                 <div className="flex justify-between"><span className="text-muted-foreground">Subtotal</span><span>₹{Number(selectedInvoice.subtotal).toLocaleString("en-IN")}</span></div>
-                {Number(selectedInvoice.tax_amount) > 0 && (
-                  <div className="flex justify-between"><span className="text-muted-foreground">Tax</span><span>₹{Number(selectedInvoice.tax_amount).toLocaleString("en-IN")}</span></div>
+                {viewTaxRows.map(([label, amount]) => (
+                  <div key={label} className="flex justify-between"><span className="text-muted-foreground">{label}</span><span>₹{amount.toLocaleString("en-IN")}</span></div>
+                ))}
+                {Number(selectedInvoice.discount_amount) > 0 && (
+                  <div className="flex justify-between"><span className="text-muted-foreground">Discount</span><span>−₹{Number(selectedInvoice.discount_amount).toLocaleString("en-IN")}</span></div>
                 )}
                 <div className="flex justify-between font-bold text-base pt-1"><span>Total</span><span>₹{Number(selectedInvoice.total_amount).toLocaleString("en-IN")}</span></div>
+                {Number(selectedInvoice.amount_paid) > 0 && (
+                  <div className="flex justify-between"><span className="text-muted-foreground">Paid online</span><span>₹{Number(selectedInvoice.amount_paid).toLocaleString("en-IN")}</span></div>
+                )}
+                {Number(selectedInvoice.amount_refunded) > 0 && (
+                  <div className="flex justify-between"><span className="text-muted-foreground">Refunded</span><span>−₹{Number(selectedInvoice.amount_refunded).toLocaleString("en-IN")}</span></div>
+                )}
               </div>
               {selectedInvoice.notes && (
                 <>
@@ -36,6 +36,12 @@ import {
 } from "recharts";
 import ClientFormModal from "@/components/admin/ClientFormModal";
 import AssignServicesModal from "@/components/admin/AssignServicesModal";
+import { AdminWalletManager } from "@/components/wallet/AdminWalletManager";
+import { DunningSettingsCard } from "@/components/admin/DunningSettingsCard";
+import { ClientTaxDetailsCard } from "@/components/admin/ClientTaxDetailsCard";
+import { UsagePeriodHistoryCard } from "@/components/usage/UsagePeriodHistoryCard";
+import { PlanChangeHistoryCard } from "@/components/admin/PlanChangeHistoryCard";
+import { formatUsagePeriod } from "@/lib/usage-periods";
 
 /* ────────── Types ────────── */
 
@@ -64,11 +70,14 @@ interface AssignedService {
   service_name: string;
   category: string;
   base_pricing_model: string;
+  plan_id: string | null;
   plan_name: string | null;
   usage_consumed: number;
   usage_limit: number;
   reset_period: string | null;
   last_reset_at: string | null;
+  current_period_start: string | null;
+  current_period_end: string | null;
   is_active: boolean;
   custom_price_per_unit: number | null;
   assigned_at: string | null;
@@ -181,11 +190,14 @@ export default function AdminClientDetailPage() {
         service_name: d.services?.name ?? "Unknown",
         category: d.services?.category ?? "",
         base_pricing_model: d.services?.base_pricing_model ?? "",
+        plan_id: d.plan_id ?? null,
         plan_name: d.service_plans?.plan_name ?? null,
         usage_consumed: d.usage_consumed ?? 0,
         usage_limit: d.usage_limit ?? 0,
         reset_period: d.reset_period,
         last_reset_at: d.last_reset_at,
+        current_period_start: d.current_period_start ?? null,
+        current_period_end: d.current_period_end ?? null,
         is_active: d.is_active ?? false,
         custom_price_per_unit: priceMap.get(d.service_id) ?? null,
         assigned_at: d.assigned_at,
@@ -679,7 +691,10 @@ export default function AdminClientDetailPage() {
                           <Progress value={pct} className="h-2" />
                         </div>
                         <div className="flex justify-between text-xs text-muted-foreground">
-                          <span>Resets: {svc.reset_period || "Monthly"}</span>
+                          <span>
+                            Resets: {svc.reset_period || "Monthly"}
+                            {svc.current_period_start && ` · ${formatUsagePeriod(svc.current_period_start, svc.current_period_end)}`}
+                          </span>
                           {svc.custom_price_per_unit != null && (
                             <span>₹{svc.custom_price_per_unit}/{svc.base_pricing_model?.replace("per_", "")}</span>
                           )}
@@ -723,7 +738,7 @@ export default function AdminClientDetailPage() {
         </TabsContent>
 
         {/* ─── TAB: Services ─── */}
-        <TabsContent value="services">
+        <TabsContent value="services" className="space-y-6">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between">
               <CardTitle className="text-base">All Assigned Services</CardTitle>
@@ -769,7 +784,12 @@ export default function AdminClientDetailPage() {
                             </div>
                           </TableCell>
                           <TableCell className={`text-sm ${usageColor(pct)}`}>{remaining}</TableCell>
-                          <TableCell className="text-sm capitalize">{svc.reset_period || "monthly"}</TableCell>
+                          <TableCell className="text-sm">
+                            <span className="capitalize">{svc.reset_period || "monthly"}</span>
+                            {svc.current_period_start && (
+                              <p className="text-xs text-muted-foreground">{formatUsagePeriod(svc.current_period_start, svc.current_period_end)}</p>
+                            )}
+                          </TableCell>
                           <TableCell className="text-sm">
                             {svc.custom_price_per_unit != null ? `₹${svc.custom_price_per_unit}` : "—"}
                           </TableCell>
@@ -787,6 +807,8 @@ export default function AdminClientDetailPage() {
               )}
             </CardContent>
           </Card>
+
+          <PlanChangeHistoryCard clientId={client.id} services={services} onChanged={fetchServices} />
         </TabsContent>
 
         {/* ─── TAB: Requests ─── */}
@@ -911,6 +933,8 @@ export default function AdminClientDetailPage() {
               </CardContent>
             </Card>
           </div>
+
+          <UsagePeriodHistoryCard clientId={client.id} />
         </TabsContent>
 
         {/* ─── TAB: Invoices & Billing ─── */}
@@ -930,6 +954,12 @@ export default function AdminClientDetailPage() {
             </CardContent></Card>
           </div>
 
+          <AdminWalletManager clientId={client.id} />
+
+          <DunningSettingsCard clientId={client.id} />
+
+          {admin && <ClientTaxDetailsCard clientId={client.id} adminId={admin.id} />}
+
           <Card>
             <CardHeader className="flex flex-row items-center justify-between">
               <CardTitle className="text-base">Invoices</CardTitle>
@@ -22,8 +22,10 @@ import { toast } from "@/hooks/use-toast";
 import {
   User, Shield, Bell, CreditCard, Plug, Settings, Save, Eye, EyeOff,
   Mail, Phone, Building2, Globe, Lock, Smartphone, LogOut, Key,
-  Download, Trash2, Clock, AlertTriangle, CheckCircle, ExternalLink, Copy,
+  Download, Trash2, Clock, AlertTriangle, CheckCircle, ExternalLink, Copy, Ban,
 } from "lucide-react";
+import { SuppressionListManager } from "@/components/suppression/SuppressionListManager";
+import { TaxSettingsCard } from "@/components/admin/TaxSettingsCard";
 
 // Password strength helper
 function getPasswordStrength(pw: string): { score: number; label: string; color: string } {
@@ -239,6 +241,7 @@ export default function AdminSettingsPage() {
           <TabsTrigger value="notifications" className="gap-1.5"><Bell className="h-4 w-4" /> Notifications</TabsTrigger>
           <TabsTrigger value="billing" className="gap-1.5"><CreditCard className="h-4 w-4" /> Billing</TabsTrigger>
           <TabsTrigger value="advanced" className="gap-1.5"><Settings className="h-4 w-4" /> Advanced</TabsTrigger>
+          <TabsTrigger value="dnc" className="gap-1.5"><Ban className="h-4 w-4" /> Do Not Contact</TabsTrigger>
         </TabsList>
 
         {/* TAB 1: Profile */}
@@ -517,6 +520,8 @@ export default function AdminSettingsPage() {
               <Save className="h-4 w-4 mr-2" /> {billingSaving ? "Saving..." : "Save Billing Details"}
             </Button>
           </div>
+
+          {admin && <TaxSettingsCard adminId={admin.id} />}
         </TabsContent>
 
         {/* TAB 6: Advanced */}
@@ -596,6 +601,11 @@ export default function AdminSettingsPage() {
             </Button>
           </div>
         </TabsContent>
+
+        {/* TAB 7: Do Not Contact */}
+        <TabsContent value="dnc" className="space-y-6">
+          <SuppressionListManager scope="admin" ownerId={admin?.id} />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -16,7 +16,10 @@ import {
   ChevronRight,
   Globe,
   FileText,
-  Brain
+  Brain,
+  RefreshCw,
+  Loader2,
+  Headset
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -26,10 +29,32 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
 import { useClient } from "@/contexts/ClientContext";
 import { supabase } from "@/integrations/supabase/client";
 import { useEffect } from "react";
 import { toast } from "sonner";
+import { validateKnowledgeFile, type KnowledgeSourceType } from "@/lib/ai-knowledge";
+import { DEFAULT_HANDOFF_RULES, handoffRulesFromSettings, type HandoffRules } from "@shared/chat-handoff";
+
+interface KnowledgeItem {
+  id: string;
+  title: string;
+  content: string;
+  source_type: KnowledgeSourceType;
+  source_url: string | null;
+  file_path: string | null;
+  index_status: "pending" | "processing" | "ready" | "failed";
+  index_error: string | null;
+  chunk_count: number;
+}
+
+const INDEX_STATUS_STYLES: Record<string, string> = {
+  pending: "bg-slate-100 text-slate-500",
+  processing: "bg-blue-100 text-blue-700",
+  ready: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+};
 
 export default function AIConfigurationPage() {
   const { primaryColor } = useClient();
@@ -38,6 +63,7 @@ export default function AIConfigurationPage() {
 
   // Chatbot State
   const [chatbot, setChatbot] = useState<any>(null);
+  const [clientId, setClientId] = useState<string | null>(null);
   const [systemPrompt, setSystemPrompt] = useState("");
   const [temperature, setTemperature] = useState(0.7);
 
@@ -46,6 +72,15 @@ export default function AIConfigurationPage() {
   const [newQuestion, setNewQuestion] = useState("");
   const [newAnswer, setNewAnswer] = useState("");
   const [isAddingFaq, setIsAddingFaq] = useState(false);
+  const [documents, setDocuments] = useState<KnowledgeItem[]>([]);
+  const [sourceUrl, setSourceUrl] = useState("");
+  const [isUploading, setIsUploading] = useState(false);
+  const [isReindexing, setIsReindexing] = useState(false);
+
+  // Human Handoff State
+  const [handoffRules, setHandoffRules] = useState<HandoffRules>(DEFAULT_HANDOFF_RULES);
+  const [handoffKeywords, setHandoffKeywords] = useState(DEFAULT_HANDOFF_RULES.keywords.join(", "));
+  const [isSavingHandoff, setIsSavingHandoff] = useState(false);
   const [activeTab, setActiveTab] = useState("brain");
 
   useEffect(() => {
@@ -77,6 +112,7 @@ export default function AIConfigurationPage() {
         return;
       }
       console.log("Client ID fetched successfully:", clientData.id);
+      setClientId(clientData.id);
 
       // 2. Get existing chatbot or create a default one
       const { data: bot, error } = await supabase
@@ -116,6 +152,7 @@ export default function AIConfigurationPage() {
           setSystemPrompt(newBot.system_prompt || "");
           setTemperature(Number(newBot.temperature) || 0.7);
           fetchKnowledge(newBot.id);
+          fetchHandoffRules(newBot.id);
         } else {
           console.error("fetchChatbotConfig: Insert succeeded but returned empty result array.");
           toast.error("Failed to initialize default AI chatbot.");
@@ -126,6 +163,7 @@ export default function AIConfigurationPage() {
         setSystemPrompt(bot.system_prompt || "");
         setTemperature(Number(bot.temperature) || 0.7);
         fetchKnowledge(bot.id);
+        fetchHandoffRules(bot.id);
       }
     } catch (err: any) {
       console.error("Error fetching bot configuration:", err);
@@ -141,10 +179,160 @@ export default function AIConfigurationPage() {
       .from('ai_knowledge')
       .select('*')
       .eq('chatbot_id', botId)
-      .eq('source_type', 'qa')
       .order('created_at', { ascending: false });
     
-    setFaqs(knowledgeDocs || []);
+    const items = (knowledgeDocs || []) as KnowledgeItem[];
+    setFaqs(items.filter(item => item.source_type === 'qa'));
+    setDocuments(items.filter(item => item.source_type !== 'qa'));
+  };
+
+  const fetchHandoffRules = async (botId: string) => {
+    const { data } = await supabase
+      .from('chat_handoff_settings')
+      .select('*')
+      .eq('chatbot_id', botId)
+      .maybeSingle();
+    if (!data) return;
+
+    setHandoffRules(handoffRulesFromSettings(data));
+    setHandoffKeywords((data.keywords || []).join(", "));
+  };
+
+  const handleSaveHandoff = async () => {
+    if (!chatbot) return;
+    if (handoffRules.firstResponseSlaMinutes < 1 || handoffRules.resolutionSlaMinutes < 1) {
+      toast.error("SLA timers must be at least 1 minute.");
+      return;
+    }
+
+    setIsSavingHandoff(true);
+    try {
+      const keywords = handoffKeywords.split(",").map(k => k.trim()).filter(Boolean);
+      const { error } = await supabase
+        .from('chat_handoff_settings')
+        .upsert({
+          chatbot_id: chatbot.id,
+          enabled: handoffRules.enabled,
+          keywords,
+          explicit_request: handoffRules.explicitRequest,
+          negative_sentiment: handoffRules.negativeSentiment,
+          sentiment_threshold: handoffRules.sentimentThreshold,
+          max_unknown_answers: handoffRules.maxUnknownAnswers,
+          first_response_sla_minutes: handoffRules.firstResponseSlaMinutes,
+          resolution_sla_minutes: handoffRules.resolutionSlaMinutes,
+        }, { onConflict: 'chatbot_id' });
+      if (error) throw error;
+
+      setHandoffRules(prev => ({ ...prev, keywords }));
+      toast.success("Handoff rules saved.");
+    } catch (err) {
+      console.error("Handoff Save Error:", err);
+      toast.error("Failed to save handoff rules.");
+    } finally {
+      setIsSavingHandoff(false);
+    }
+  };
+
+  // Chunks and embeds knowledge so ai-chat and WhatsApp replies can retrieve it
+  const indexKnowledge = async (body: { knowledge_id?: string; chatbot_id?: string }) => {
+    const { data, error } = await supabase.functions.invoke('ai-knowledge-ingest', { body });
+    if (error || !data?.success) {
+      console.error("Knowledge indexing error:", error || data);
+      toast.error("Some knowledge could not be indexed. Check the status badges.");
+    }
+    if (chatbot) fetchKnowledge(chatbot.id);
+  };
+
+  const handleReindex = async () => {
+    if (!chatbot) return;
+    setIsReindexing(true);
+    try {
+      await indexKnowledge({ chatbot_id: chatbot.id });
+      toast.success("Knowledge base reindexed.");
+    } finally {
+      setIsReindexing(false);
+    }
+  };
+
+  const handleUploadDocument = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !chatbot || !clientId) return;
+
+    let sourceType: KnowledgeSourceType;
+    try {
+      sourceType = validateKnowledgeFile(file);
+    } catch (err) {
+      toast.error((err as Error).message);
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const filePath = `${clientId}/${Date.now()}-${file.name.replace(/[^\w.-]+/g, "_")}`;
+      const { error: uploadError } = await supabase.storage.from('ai-knowledge').upload(filePath, file);
+      if (uploadError) throw uploadError;
+
+      const { data, error } = await supabase
+        .from('ai_knowledge')
+        .insert([{
+          chatbot_id: chatbot.id,
+          title: file.name,
+          content: "",
+          source_type: sourceType,
+          file_path: filePath
+        }])
+        .select('*')
+        .single();
+      if (error) throw error;
+
+      setDocuments(prev => [data as KnowledgeItem, ...prev]);
+      toast.success("Document uploaded. Indexing...");
+      await indexKnowledge({ knowledge_id: data.id });
+    } catch (err) {
+      console.error("Upload Error:", err);
+      toast.error("Failed to upload document.");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleAddUrl = async () => {
+    if (!chatbot) return;
+    let url: URL;
+    try {
+      url = new URL(sourceUrl.trim());
+      if (!["http:", "https:"].includes(url.protocol)) throw new Error();
+    } catch {
+      toast.error("Enter a valid http(s) URL.");
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const { data, error } = await supabase
+        .from('ai_knowledge')
+        .insert([{
+          chatbot_id: chatbot.id,
+          title: url.hostname + url.pathname,
+          content: "",
+          source_type: 'url',
+          source_url: url.toString()
+        }])
+        .select('*')
+        .single();
+      if (error) throw error;
+
+      setDocuments(prev => [data as KnowledgeItem, ...prev]);
+      setSourceUrl("");
+      toast.success("Web page added. Indexing...");
+      await indexKnowledge({ knowledge_id: data.id });
+    } catch (err) {
+      console.error("Add URL Error:", err);
+      toast.error("Failed to add web page.");
+    } finally {
+      setIsUploading(false);
+    }
   };
 
   const handleSave = async () => {
@@ -196,6 +384,7 @@ export default function AIConfigurationPage() {
 
       if (data && data.length > 0) {
         setFaqs(prev => [data[0], ...prev]);
+        indexKnowledge({ knowledge_id: data[0].id });
       }
       setNewQuestion("");
       setNewAnswer("");
@@ -205,15 +394,17 @@ export default function AIConfigurationPage() {
     }
   };
 
-  const handleDeleteKnowledge = async (id: string) => {
+  const handleDeleteKnowledge = async (id: string, filePath?: string | null) => {
     try {
       const { error } = await supabase
         .from('ai_knowledge')
         .delete()
         .eq('id', id);
       if (error) throw error;
+      if (filePath) await supabase.storage.from('ai-knowledge').remove([filePath]);
 
       setFaqs(prev => prev.filter(item => item.id !== id));
+      setDocuments(prev => prev.filter(item => item.id !== id));
       toast.success("Knowledge snippet removed.");
     } catch (err) {
       toast.error("Failed to delete item.");
@@ -262,7 +453,7 @@ export default function AIConfigurationPage() {
 
       {/* Main Configuration Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-8">
-        <TabsList className="bg-white/50 backdrop-blur-sm p-1 rounded-2xl border border-primary/10 w-full md:w-auto h-auto grid grid-cols-2 gap-1 shadow-sm">
+        <TabsList className="bg-white/50 backdrop-blur-sm p-1 rounded-2xl border border-primary/10 w-full md:w-auto h-auto grid grid-cols-3 gap-1 shadow-sm">
           <TabsTrigger value="brain" className="rounded-xl px-4 py-3 data-[state=active]:bg-white data-[state=active]:shadow-md data-[state=active]:text-primary font-bold">
             <Sparkles className="w-4 h-4 mr-2" />
             AI Brain
@@ -271,6 +462,10 @@ export default function AIConfigurationPage() {
             <BookOpen className="w-4 h-4 mr-2" />
             Knowledge
           </TabsTrigger>
+          <TabsTrigger value="handoff" className="rounded-xl px-4 py-3 data-[state=active]:bg-white data-[state=active]:shadow-md data-[state=active]:text-primary font-bold">
+            <Headset className="w-4 h-4 mr-2" />
+            Handoff
+          </TabsTrigger>
         </TabsList>
 
         <AnimatePresence mode="wait">
@@ -393,6 +588,69 @@ export default function AIConfigurationPage() {
               exit={{ opacity: 0, x: -20 }}
               className="space-y-6"
             >
+              <Card className="bg-white/95 border-primary/20 shadow-xl shadow-primary/5 rounded-3xl overflow-hidden">
+                <CardHeader className="border-b border-sidebar-border/5">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle className="text-xl font-bold flex items-center gap-2">
+                        <FileText className="w-5 h-5 text-primary" />
+                        Documents & Web Pages
+                      </CardTitle>
+                      <CardDescription>Your AI answers from these sources on chat and WhatsApp, and cites them.</CardDescription>
+                    </div>
+                    <Button variant="outline" size="sm" className="rounded-xl font-bold border-slate-200" onClick={handleReindex} disabled={isReindexing}>
+                      <RefreshCw className={`w-4 h-4 mr-2 ${isReindexing ? "animate-spin" : ""}`} />
+                      Reindex All
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="pt-6 space-y-4">
+                  <div className="grid gap-3 md:grid-cols-2">
+                    <Label className="flex items-center justify-center gap-2 p-4 rounded-2xl border border-dashed border-primary/30 bg-primary/5 text-sm font-bold text-primary cursor-pointer hover:bg-primary/10 transition-all">
+                      {isUploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                      Upload PDF or TXT
+                      <input type="file" accept=".pdf,.txt,.md,application/pdf,text/plain" className="hidden" onChange={handleUploadDocument} disabled={isUploading} />
+                    </Label>
+                    <div className="flex gap-2">
+                      <Input value={sourceUrl} onChange={e => setSourceUrl(e.target.value)} placeholder="https://yourcompany.com/pricing" className="bg-white rounded-xl h-auto" />
+                      <Button variant="outline" className="rounded-xl h-auto" onClick={handleAddUrl} disabled={isUploading || !sourceUrl.trim()}>
+                        <Globe className="w-4 h-4 mr-2" />
+                        Add URL
+                      </Button>
+                    </div>
+                  </div>
+
+                  {documents.length === 0 ? (
+                    <div className="text-center py-6 text-xs text-slate-400">No documents yet. Upload a brochure, policy or price list, or add a web page.</div>
+                  ) : (
+                    documents.map((doc) => (
+                      <div key={doc.id} className="flex items-center justify-between gap-3 p-3 rounded-2xl bg-slate-50/50 border border-slate-100">
+                        <div className="flex items-center gap-3 min-w-0">
+                          {doc.source_type === 'url' ? <LinkIcon className="w-4 h-4 text-slate-400 shrink-0" /> : <FileText className="w-4 h-4 text-slate-400 shrink-0" />}
+                          <div className="min-w-0">
+                            <p className="text-sm font-bold text-slate-700 truncate">{doc.title}</p>
+                            <p className="text-[10px] text-slate-400 truncate" title={doc.index_error || undefined}>
+                              {doc.index_status === 'failed' ? doc.index_error : `${doc.chunk_count ?? 0} chunks indexed`}
+                            </p>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          <Badge variant="secondary" className={`capitalize ${INDEX_STATUS_STYLES[doc.index_status] ?? INDEX_STATUS_STYLES.pending}`}>
+                            {doc.index_status ?? 'pending'}
+                          </Badge>
+                          <Button variant="ghost" size="icon" className="h-6 w-6 text-slate-400 hover:text-primary" onClick={() => indexKnowledge({ knowledge_id: doc.id })}>
+                            <RefreshCw className="h-3 w-3" />
+                          </Button>
+                          <Button variant="ghost" size="icon" className="h-6 w-6 text-slate-400 hover:text-red-500" onClick={() => handleDeleteKnowledge(doc.id, doc.file_path)}>
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </CardContent>
+              </Card>
+
               <Card className="bg-white/95 border-primary/20 shadow-xl shadow-primary/5 rounded-3xl overflow-hidden">
                 <CardHeader className="border-b border-sidebar-border/5">
                   <div className="flex items-center justify-between">
@@ -431,6 +689,9 @@ export default function AIConfigurationPage() {
                         <div key={q.id} className="p-4 rounded-2xl bg-slate-50/50 border border-slate-100 space-y-2 group transition-all hover:border-primary/20">
                           <div className="flex justify-between items-start">
                             <p className="text-sm font-bold text-slate-700">Q: {question}</p>
+                            {q.index_status === 'failed' && (
+                              <Badge variant="secondary" className={INDEX_STATUS_STYLES.failed}>Not indexed</Badge>
+                            )}
                             <Button variant="ghost" size="icon" className="h-6 w-6 text-slate-400 hover:text-red-500" onClick={() => handleDeleteKnowledge(q.id)}>
                               <Trash2 className="h-3 w-3" />
                             </Button>
@@ -446,6 +707,119 @@ export default function AIConfigurationPage() {
           </TabsContent>
           )}
 
+          {/* Human Handoff Tab */}
+          {activeTab === "handoff" && (
+            <TabsContent value="handoff" key="handoff" forceMount>
+            <motion.div
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: -20 }}
+              className="space-y-6"
+            >
+              <Card className="bg-white/95 border-primary/20 shadow-xl shadow-primary/5 rounded-3xl overflow-hidden">
+                <CardHeader className="border-b border-sidebar-border/5">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle className="text-xl font-bold flex items-center gap-2">
+                        <Headset className="w-5 h-5 text-primary" />
+                        Human Handoff
+                      </CardTitle>
+                      <CardDescription>When to pause the AI and queue the chat for your team in Live Chat.</CardDescription>
+                    </div>
+                    <Switch
+                      checked={handoffRules.enabled}
+                      onCheckedChange={(enabled) => setHandoffRules(prev => ({ ...prev, enabled }))}
+                    />
+                  </div>
+                </CardHeader>
+                <CardContent className="pt-6 space-y-6">
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div className="flex items-center justify-between p-4 rounded-2xl bg-slate-50 border border-slate-100">
+                      <div>
+                        <Label className="text-sm font-bold text-slate-700">"Talk to a human" requests</Label>
+                        <p className="text-xs text-slate-500">Visitor asks for an agent or a real person</p>
+                      </div>
+                      <Switch
+                        checked={handoffRules.explicitRequest}
+                        onCheckedChange={(explicitRequest) => setHandoffRules(prev => ({ ...prev, explicitRequest }))}
+                        disabled={!handoffRules.enabled}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between p-4 rounded-2xl bg-slate-50 border border-slate-100">
+                      <div>
+                        <Label className="text-sm font-bold text-slate-700">Negative sentiment</Label>
+                        <p className="text-xs text-slate-500">Angry or frustrated messages</p>
+                      </div>
+                      <Switch
+                        checked={handoffRules.negativeSentiment}
+                        onCheckedChange={(negativeSentiment) => setHandoffRules(prev => ({ ...prev, negativeSentiment }))}
+                        disabled={!handoffRules.enabled}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Escalation keywords (comma separated)</Label>
+                    <Input
+                      value={handoffKeywords}
+                      onChange={e => setHandoffKeywords(e.target.value)}
+                      placeholder="refund, complaint, cancel my account"
+                      className="bg-white rounded-xl"
+                      disabled={!handoffRules.enabled}
+                    />
+                  </div>
+
+                  <div className="grid gap-4 md:grid-cols-3">
+                    <div className="space-y-2">
+                      <Label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Unanswered replies in a row</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={handoffRules.maxUnknownAnswers}
+                        onChange={e => setHandoffRules(prev => ({ ...prev, maxUnknownAnswers: Math.max(0, Number(e.target.value)) }))}
+                        className="bg-white rounded-xl"
+                        disabled={!handoffRules.enabled}
+                      />
+                      <p className="text-[10px] text-slate-400">0 turns this trigger off</p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">First response SLA (min)</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={handoffRules.firstResponseSlaMinutes}
+                        onChange={e => setHandoffRules(prev => ({ ...prev, firstResponseSlaMinutes: Number(e.target.value) }))}
+                        className="bg-white rounded-xl"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Resolution SLA (min)</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={handoffRules.resolutionSlaMinutes}
+                        onChange={e => setHandoffRules(prev => ({ ...prev, resolutionSlaMinutes: Number(e.target.value) }))}
+                        className="bg-white rounded-xl"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="flex justify-end pt-4 border-t border-sidebar-border/5">
+                    <Button
+                      className="rounded-xl font-bold shadow-lg shadow-primary/20"
+                      style={{ backgroundColor: primaryColor }}
+                      onClick={handleSaveHandoff}
+                      disabled={isSavingHandoff}
+                    >
+                      {isSavingHandoff ? "Saving..." : "Save Handoff Rules"}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            </motion.div>
+          </TabsContent>
+          )}
+
         </AnimatePresence>
       </Tabs>
       
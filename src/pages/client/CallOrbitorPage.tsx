@@ -372,6 +372,7 @@ export default function CallOrbitorPage() {
           usageConsumed={telecallerService.usage_consumed}
           clientId={client?.id || ""}
           userId={client?.user_id || ""}
+          serviceId={telecallerService.service_id}
         />
       )}
     </div>
@@ -27,6 +27,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import { formatDistanceToNow, format } from "date-fns";
+import { SKIP_REASON_LABELS, formatCallingWindow, localTimeIn } from "@/lib/calling-window";
 import {
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip,
   ResponsiveContainer, PieChart, Pie, Cell, Legend,
@@ -47,6 +48,19 @@ interface Campaign {
   completed_at: string | null;
   created_at: string;
   source?: "scheduled" | "voice" | "list";
+  calling_hours_start?: string;
+  calling_hours_end?: string;
+  calling_days?: string[];
+  default_timezone?: string;
+}
+
+interface DeferredContact {
+  id: string;
+  phone_number: string;
+  contact_name: string | null;
+  timezone: string | null;
+  skip_reason: string;
+  next_attempt_at: string | null;
 }
 
 interface CallLog {
@@ -124,6 +138,7 @@ export default function CampaignDetailPage() {
   const [callLogs, setCallLogs] = useState<CallLog[]>([]);
   const [leads, setLeads] = useState<Lead[]>([]);
   const [activity, setActivity] = useState<ActivityItem[]>([]);
+  const [deferredContacts, setDeferredContacts] = useState<DeferredContact[]>([]);
   const [loading, setLoading] = useState(true);
   const [notFound, setNotFound] = useState(false);
   const [activeTab, setActiveTab] = useState("overview");
@@ -393,12 +408,32 @@ export default function CampaignDetailPage() {
     setLeads(uniqueLeads);
   }, [campaignId, client, campaign, callLogs]);
 
+  // Contacts the dialer held back because of the calling window (voice campaigns only)
+  const fetchDeferredContacts = useCallback(async () => {
+    if (!campaignId || campaign?.source !== "voice") return;
+
+    const { data } = await supabase
+      .from("campaign_contacts")
+      .select("id, phone_number, contact_name, timezone, skip_reason, next_attempt_at")
+      .eq("campaign_id", campaignId)
+      .eq("call_status", "pending")
+      .not("skip_reason", "is", null)
+      .order("next_attempt_at", { ascending: true })
+      .limit(50);
+
+    setDeferredContacts(data || []);
+  }, [campaignId, campaign?.source]);
+
   useEffect(() => {
     if (client && campaignId) {
       fetchCampaign();
     }
   }, [client, campaignId, fetchCampaign]);
 
+  useEffect(() => {
+    fetchDeferredContacts();
+  }, [fetchDeferredContacts]);
+
   useEffect(() => {
     if (campaign) {
       fetchCallLogs();
@@ -447,6 +482,12 @@ export default function CampaignDetailPage() {
         fetchCallLogs();
         fetchCampaign();
       })
+      .on("postgres_changes", {
+        event: "*",
+        schema: "public",
+        table: "campaign_contacts",
+        filter: `campaign_id=eq.${campaignId}`,
+      }, () => fetchDeferredContacts())
       .on("postgres_changes", {
         event: "INSERT",
         schema: "public",
@@ -455,26 +496,34 @@ export default function CampaignDetailPage() {
       .subscribe();
 
     return () => { supabase.removeChannel(channel); };
-  }, [campaignId, client, fetchCampaign, fetchCallLogs, fetchLeads]);
+  }, [campaignId, client, fetchCampaign, fetchCallLogs, fetchLeads, fetchDeferredContacts]);
 
   // Actions
+  async function invokeCampaignAction(action: "start" | "pause" | "resume") {
+    const { data, error } = await supabase.functions.invoke("trigger-telecaller-campaign", {
+      body: { campaign_id: campaign!.id, client_id: client?.id, action },
+    });
+    if (error) throw error;
+    if (!data?.success) throw new Error(data?.error || `Failed to ${action} campaign`);
+  }
+
   async function handlePauseResume() {
     if (!campaign) return;
     setActionLoading(true);
     const newStatus = campaign.status === "running" ? "paused" : "running";
     
     try {
-      let query;
       if (campaign.source === "voice") {
-        query = (supabase as any).from("voice_campaigns").update({ status: newStatus }).eq("id", campaign.id);
-      } else if (campaign.source === "list") {
-        query = (supabase as any).from("outbound_scheduled_calls").update({ status: newStatus }).eq("list_id", campaign.id);
+        // The dialer stops claiming contacts on pause and continues the queue on resume
+        await invokeCampaignAction(newStatus === "paused" ? "pause" : "resume");
       } else {
-        query = (supabase as any).from("outbound_scheduled_calls").update({ status: newStatus }).eq("id", campaign.id);
+        const query = campaign.source === "list"
+          ? (supabase as any).from("outbound_scheduled_calls").update({ status: newStatus }).eq("list_id", campaign.id)
+          : (supabase as any).from("outbound_scheduled_calls").update({ status: newStatus }).eq("id", campaign.id);
+
+        const { error } = await query;
+        if (error) throw error;
       }
-      
-      const { error } = await query;
-      if (error) throw error;
 
       // Optional: Signal webhook for list-based dialer
       if (campaign.source === "list") {
@@ -498,7 +547,7 @@ export default function CampaignDetailPage() {
       setPauseDialog(false);
     } catch (err) {
       console.error("Update error:", err);
-      toast.error("Failed to update campaign");
+      toast.error(err instanceof Error ? err.message : "Failed to update campaign");
     } finally {
       setActionLoading(false);
       fetchCampaign();
@@ -535,17 +584,16 @@ export default function CampaignDetailPage() {
     setActionLoading(true);
     
     try {
-      let query;
       if (campaign.source === "voice") {
-        query = (supabase as any).from("voice_campaigns").update({ status: "running" }).eq("id", campaign.id);
-      } else if (campaign.source === "list") {
-        query = (supabase as any).from("outbound_scheduled_calls").update({ status: "running" }).eq("list_id", campaign.id);
+        await invokeCampaignAction("start");
       } else {
-        query = (supabase as any).from("outbound_scheduled_calls").update({ status: "running" }).eq("id", campaign.id);
+        const query = campaign.source === "list"
+          ? (supabase as any).from("outbound_scheduled_calls").update({ status: "running" }).eq("list_id", campaign.id)
+          : (supabase as any).from("outbound_scheduled_calls").update({ status: "running" }).eq("id", campaign.id);
+
+        const { error } = await query;
+        if (error) throw error;
       }
-      
-      const { error } = await query;
-      if (error) throw error;
 
       // Trigger Webhook for List-based campaigns (same as wizard)
       if (campaign.source === "list") {
@@ -570,7 +618,7 @@ export default function CampaignDetailPage() {
       toast.success("Campaign launched!");
     } catch (err) {
       console.error("Launch error:", err);
-      toast.error("Failed to launch");
+      toast.error(err instanceof Error ? err.message : "Failed to launch");
     } finally {
       setActionLoading(false);
       fetchCampaign();
@@ -801,6 +849,17 @@ export default function CampaignDetailPage() {
                 {campaign.completed_at && <InfoRow label="Completed" value={format(new Date(campaign.completed_at), "MMM dd, yyyy HH:mm")} />}
                 {campaign.scheduled_at && <InfoRow label="Scheduled For" value={format(new Date(campaign.scheduled_at), "MMM dd, yyyy HH:mm")} />}
                 <InfoRow label="Type" value={campaign.campaign_type || "Telecaller"} />
+                {campaign.calling_hours_start && campaign.calling_hours_end && (
+                  <InfoRow
+                    label="Calling Window"
+                    value={formatCallingWindow(
+                      campaign.calling_hours_start,
+                      campaign.calling_hours_end,
+                      campaign.calling_days || [],
+                      campaign.default_timezone,
+                    )}
+                  />
+                )}
               </CardContent>
             </Card>
 
@@ -820,6 +879,54 @@ export default function CampaignDetailPage() {
             </Card>
           </div>
 
+          {/* Deferred by calling window */}
+          {deferredContacts.length > 0 && (
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm flex items-center gap-2">
+                  <Clock className="h-4 w-4 text-yellow-600" />
+                  Waiting for Calling Window ({deferredContacts.length}{deferredContacts.length === 50 ? "+" : ""})
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Contact</TableHead>
+                      <TableHead>Reason</TableHead>
+                      <TableHead>Local Time</TableHead>
+                      <TableHead>Next Attempt</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {deferredContacts.map(c => {
+                      const tz = c.timezone || campaign.default_timezone;
+                      return (
+                        <TableRow key={c.id}>
+                          <TableCell className="text-xs">
+                            <span className="font-mono">{c.phone_number}</span>
+                            {c.contact_name && <span className="text-muted-foreground ml-2">{c.contact_name}</span>}
+                          </TableCell>
+                          <TableCell className="text-xs">
+                            <Badge variant="outline" className="text-[10px] text-yellow-700 border-yellow-300">
+                              {SKIP_REASON_LABELS[c.skip_reason] || c.skip_reason}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-xs text-muted-foreground">
+                            {tz ? `${localTimeIn(tz)} (${tz})` : "—"}
+                          </TableCell>
+                          <TableCell className="text-xs text-muted-foreground">
+                            {c.next_attempt_at ? format(new Date(c.next_attempt_at), "MMM dd, HH:mm") : "—"}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Progress Chart */}
           {callLogs.length > 0 && (
             <Card>
@@ -25,8 +25,9 @@ import { Progress } from "@/components/ui/progress";
 import {
   User, Lock, Bell, Shield, Building2, Eye, EyeOff, Check, X, Mail, Phone,
   Globe, Download, Trash2, MessageSquare, ArrowUpRight, Send, AlertTriangle,
-  CheckCircle, ExternalLink,
+  CheckCircle, ExternalLink, Ban,
 } from "lucide-react";
+import { SuppressionListManager } from "@/components/suppression/SuppressionListManager";
 
 /* ─── helpers ─── */
 const INDUSTRIES = [
@@ -279,12 +280,13 @@ export default function ClientSettingsPage() {
       </div>
 
       <Tabs defaultValue="profile" className="space-y-6">
-        <TabsList className="grid grid-cols-5 w-full">
+        <TabsList className="grid grid-cols-6 w-full">
           <TabsTrigger value="profile" className="text-xs sm:text-sm"><User className="h-3 w-3 mr-1 hidden sm:inline" />Profile</TabsTrigger>
           <TabsTrigger value="security" className="text-xs sm:text-sm"><Lock className="h-3 w-3 mr-1 hidden sm:inline" />Security</TabsTrigger>
           <TabsTrigger value="notifications" className="text-xs sm:text-sm"><Bell className="h-3 w-3 mr-1 hidden sm:inline" />Notifications</TabsTrigger>
           <TabsTrigger value="privacy" className="text-xs sm:text-sm"><Shield className="h-3 w-3 mr-1 hidden sm:inline" />Privacy</TabsTrigger>
           <TabsTrigger value="admin" className="text-xs sm:text-sm"><Building2 className="h-3 w-3 mr-1 hidden sm:inline" />Admin</TabsTrigger>
+          <TabsTrigger value="dnc" className="text-xs sm:text-sm"><Ban className="h-3 w-3 mr-1 hidden sm:inline" />Do Not Contact</TabsTrigger>
         </TabsList>
 
         {/* ═══ PROFILE TAB ═══ */}
@@ -665,6 +667,11 @@ export default function ClientSettingsPage() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* ═══ DO NOT CONTACT TAB ═══ */}
+        <TabsContent value="dnc" className="space-y-6">
+          <SuppressionListManager scope="client" ownerId={client?.id} />
+        </TabsContent>
       </Tabs>
 
       {/* ─── Raw Access Confirmation ─── */}
@@ -18,7 +18,11 @@ import {
   Trash2,
   Archive,
   Star,
-  Plus
+  Plus,
+  Hand,
+  CheckCircle2,
+  ArrowRightLeft,
+  Timer
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { supabase } from "@/integrations/supabase/client";
@@ -35,13 +39,44 @@ import {
   DropdownMenuContent, 
   DropdownMenuItem, 
   DropdownMenuTrigger,
-  DropdownMenuSeparator
+  DropdownMenuSeparator,
+  DropdownMenuLabel
 } from "@/components/ui/dropdown-menu";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { cn } from "@/lib/utils";
 import { useClient } from "@/contexts/ClientContext";
+import { HANDOFF_REASON_LABELS, slaMinutesRemaining, type HandoffReason, type HandoffStatus } from "@shared/chat-handoff";
 
 import { toast } from "sonner";
 
+interface ChatHandoff {
+  id: string;
+  session_id: string;
+  reason: HandoffReason;
+  trigger_detail: string | null;
+  status: HandoffStatus;
+  assigned_to: string | null;
+  first_response_due_at: string;
+  resolution_due_at: string;
+  first_response_at: string | null;
+  created_at: string;
+}
+
+interface ChatSessionRow {
+  id: string;
+  visitor_id: string | null;
+  status: string;
+  created_at: string;
+}
+
+interface ChatAgent {
+  user_id: string;
+  full_name: string | null;
+  email: string;
+}
+
+type QueueFilter = "all" | "queue" | "mine";
+
 export default function LiveChatPage() {
   const { primaryColor } = useClient();
   const [selectedChat, setSelectedChat] = useState<any>(null);
@@ -56,19 +91,31 @@ export default function LiveChatPage() {
   const [isInitializing, setIsInitializing] = useState(true);
   const [sessionId, setSessionId] = useState<string | null>(null);
 
+  // Handoff queue
+  const [agents, setAgents] = useState<ChatAgent[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [queueFilter, setQueueFilter] = useState<QueueFilter>("all");
+
   useEffect(() => {
     fetchActiveSessions();
     
-    // Subscribe to session changes
+    // Subscribe to session and handoff queue changes
     const sessionChannel = supabase.channel('sessions-channel')
       .on('postgres_changes', { event: '*', schema: 'public', table: 'ai_chat_sessions' }, () => {
          fetchActiveSessions();
       })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'chat_handoffs' }, () => {
+         fetchActiveSessions();
+      })
       .subscribe();
       
     return () => { supabase.removeChannel(sessionChannel); };
   }, []);
 
+  useEffect(() => {
+    setIsAIActive(selectedChat ? !selectedChat.handoff && selectedChat.sessionStatus !== 'human' : true);
+  }, [selectedChat]);
+
   useEffect(() => {
     if (selectedChat) {
       setSessionId(selectedChat.id);
@@ -86,7 +133,8 @@ export default function LiveChatPage() {
       setChatMessages([]);
       setSessionId(null);
     }
-  }, [selectedChat]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedChat?.id]);
 
   useEffect(() => {
     if (scrollRef.current) {
@@ -98,6 +146,7 @@ export default function LiveChatPage() {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
+      setCurrentUserId(user.id);
 
       const { data: client } = await supabase
         .from('clients')
@@ -115,6 +164,20 @@ export default function LiveChatPage() {
 
       if (!bot) return;
 
+      const [{ data: openHandoffs }, { data: chatAgents }] = await Promise.all([
+        supabase
+          .from('chat_handoffs')
+          .select('*')
+          .eq('chatbot_id', bot.id)
+          .neq('status', 'resolved'),
+        supabase.rpc('get_chat_agents', { p_chatbot_id: bot.id }),
+      ]);
+      const agentList: ChatAgent[] = chatAgents || [];
+      const handoffBySession = new Map<string, ChatHandoff>(
+        ((openHandoffs || []) as ChatHandoff[]).map(h => [h.session_id, h])
+      );
+      setAgents(agentList);
+
       const { data: sessions, error } = await supabase
         .from('ai_chat_sessions')
         .select('id, visitor_id, status, created_at')
@@ -124,19 +187,34 @@ export default function LiveChatPage() {
       if (error) throw error;
 
       if (sessions && sessions.length > 0) {
-         const parsed = sessions.map(s => ({
-            id: s.id,
-            name: s.visitor_id ? `Admin User` : `Guest Visitor #${s.id.substring(0, 4)}`,
-            avatar: `https://api.dicebear.com/7.x/avataaars/svg?seed=${s.id}`,
-            lastMessage: "Loading...",
-            time: new Date(s.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
-            unread: 0,
-            status: s.status === 'active' ? "online" : "offline",
-            assignedTo: "AI Agent",
-            labels: [s.status.toUpperCase()]
-         }));
+         const parsed = (sessions as unknown as ChatSessionRow[]).map(s => {
+            const handoff = handoffBySession.get(s.id) ?? null;
+            const agent = agentList.find(a => a.user_id === handoff?.assigned_to);
+            return {
+              id: s.id,
+              name: s.visitor_id ? `Admin User` : `Guest Visitor #${s.id.substring(0, 4)}`,
+              avatar: `https://api.dicebear.com/7.x/avataaars/svg?seed=${s.id}`,
+              lastMessage: "Loading...",
+              time: new Date(s.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+              unread: 0,
+              status: s.status === 'active' ? "online" : "offline",
+              sessionStatus: s.status,
+              handoff,
+              assignedTo: !handoff
+                ? (s.status === 'human' ? "Human Agent" : "AI Agent")
+                : handoff.assigned_to
+                  ? (agent?.full_name || agent?.email || "Agent")
+                  : "Unassigned (queue)",
+              labels: handoff ? [handoff.status.toUpperCase(), HANDOFF_REASON_LABELS[handoff.reason]] : [s.status.toUpperCase()]
+            };
+         });
+         // Queued conversations first, oldest wait at the top
+         parsed.sort((a, b) =>
+           Number(b.handoff?.status === 'waiting') - Number(a.handoff?.status === 'waiting') ||
+           (a.handoff?.status === 'waiting' ? a.handoff.created_at.localeCompare(b.handoff!.created_at) : 0)
+         );
          setChats(parsed);
-         setSelectedChat(parsed[0]);
+         setSelectedChat(prev => parsed.find(c => c.id === prev?.id) ?? parsed[0]);
       }
     } catch (err) {
       console.error("Failed to load sessions:", err);
@@ -148,13 +226,52 @@ export default function LiveChatPage() {
   const handleToggleAI = async (checked: boolean) => {
     setIsAIActive(checked);
     if (!selectedChat) return;
+    // Turning the AI off is a manual takeover; turning it back on resolves the handoff
+    if (!checked) return handleClaim();
+    if (selectedChat.handoff) return handleResolve();
     try {
-      await supabase.from('ai_chat_sessions').update({ status: checked ? 'active' : 'human' }).eq('id', selectedChat.id);
+      await supabase.from('ai_chat_sessions').update({ status: 'active' }).eq('id', selectedChat.id);
     } catch (err) {
       console.error("Failed to update AI status:", err);
     }
   };
 
+  const handleClaim = async () => {
+    if (!selectedChat) return;
+    const { error } = await supabase.rpc('claim_chat_handoff', { p_session_id: selectedChat.id });
+    if (error) {
+      toast.error(error.message || "Failed to claim conversation.");
+      return;
+    }
+    toast.success("Conversation claimed. The AI is paused.");
+    fetchActiveSessions();
+  };
+
+  const handleTransfer = async (toUserId: string | null) => {
+    if (!selectedChat?.handoff) return;
+    const { error } = await supabase.rpc('transfer_chat_handoff', {
+      p_handoff_id: selectedChat.handoff.id,
+      p_to_user_id: toUserId,
+    });
+    if (error) {
+      toast.error(error.message || "Failed to transfer conversation.");
+      return;
+    }
+    toast.success(toUserId ? "Conversation transferred." : "Conversation returned to the queue.");
+    fetchActiveSessions();
+  };
+
+  const handleResolve = async () => {
+    if (!selectedChat?.handoff) return;
+    const { error } = await supabase.rpc('resolve_chat_handoff', { p_handoff_id: selectedChat.handoff.id });
+    if (error) {
+      toast.error(error.message || "Failed to resolve conversation.");
+      return;
+    }
+    toast.success("Conversation resolved. The AI is back on.");
+    fetchActiveSessions();
+  };
+
   const fetchChatMessages = async (sid: string) => {
     try {
       const { data: msgs, error } = await supabase
@@ -254,7 +371,8 @@ export default function LiveChatPage() {
           .insert([{
              session_id: sessionId,
              role: 'assistant',
-             content: userText
+             content: userText,
+             user_id: currentUserId
           }]);
 
         if (error) throw error;
@@ -277,6 +395,15 @@ export default function LiveChatPage() {
               <Filter className="w-4 h-4 text-slate-500" />
             </Button>
           </div>
+          <Tabs value={queueFilter} onValueChange={(v) => setQueueFilter(v as QueueFilter)} className="mb-3">
+            <TabsList className="grid grid-cols-3 w-full h-8 rounded-xl">
+              <TabsTrigger value="all" className="text-[10px] font-bold rounded-lg">All</TabsTrigger>
+              <TabsTrigger value="queue" className="text-[10px] font-bold rounded-lg">
+                Queue ({chats.filter(c => c.handoff?.status === 'waiting').length})
+              </TabsTrigger>
+              <TabsTrigger value="mine" className="text-[10px] font-bold rounded-lg">Mine</TabsTrigger>
+            </TabsList>
+          </Tabs>
           <div className="relative">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
             <Input 
@@ -302,7 +429,13 @@ export default function LiveChatPage() {
                  </Button>
                </div>
              ) : (
-             chats.map((chat) => (
+             chats
+              .filter(chat =>
+                queueFilter === "all" ||
+                (queueFilter === "queue" && chat.handoff?.status === "waiting") ||
+                (queueFilter === "mine" && chat.handoff?.assigned_to === currentUserId)
+              )
+              .map((chat) => (
               <motion.div
                 key={chat.id}
                 whileHover={{ x: 4 }}
@@ -343,6 +476,7 @@ export default function LiveChatPage() {
                     {chat.labels.map(l => (
                       <span key={l} className="text-[9px] px-1.5 py-0.5 rounded-full bg-slate-100 text-slate-500 font-bold uppercase tracking-wider">{l}</span>
                     ))}
+                    {chat.handoff && <SlaTimer handoff={chat.handoff} compact />}
                   </div>
                 </div>
               </motion.div>
@@ -374,6 +508,38 @@ export default function LiveChatPage() {
                 </div>
               </div>
               <div className="flex items-center gap-2">
+                {selectedChat.handoff && <SlaTimer handoff={selectedChat.handoff} />}
+                {selectedChat.handoff?.status === 'waiting' && (
+                  <Button size="sm" className="rounded-full h-8 text-[10px] font-black uppercase" style={{ backgroundColor: primaryColor }} onClick={handleClaim}>
+                    <Hand className="w-3.5 h-3.5 mr-1" /> Claim
+                  </Button>
+                )}
+                {selectedChat.handoff && (
+                  <>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline" size="sm" className="rounded-full h-8 text-[10px] font-black uppercase">
+                          <ArrowRightLeft className="w-3.5 h-3.5 mr-1" /> Transfer
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" className="w-56 rounded-xl shadow-xl border-slate-100">
+                        <DropdownMenuLabel className="text-[10px] uppercase tracking-widest text-slate-400">Transfer to</DropdownMenuLabel>
+                        {agents.filter(a => a.user_id !== selectedChat.handoff.assigned_to).map(a => (
+                          <DropdownMenuItem key={a.user_id} className="py-2 font-bold text-xs" onClick={() => handleTransfer(a.user_id)}>
+                            <UserCheck className="w-3.5 h-3.5 mr-2" /> {a.full_name || a.email}
+                          </DropdownMenuItem>
+                        ))}
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem className="py-2 font-bold text-xs" onClick={() => handleTransfer(null)}>
+                          <Clock className="w-3.5 h-3.5 mr-2" /> Return to queue
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                    <Button variant="outline" size="sm" className="rounded-full h-8 text-[10px] font-black uppercase hover:text-green-600" onClick={handleResolve}>
+                      <CheckCircle2 className="w-3.5 h-3.5 mr-1" /> Resolve
+                    </Button>
+                  </>
+                )}
                 <div className="flex items-center gap-2 mr-4 px-3 py-1.5 bg-primary/5 rounded-full border border-primary/10">
                   <Sparkles className="w-3.5 h-3.5 text-primary" />
                   <span className="text-[10px] font-black text-primary uppercase tracking-wider">AI Agent Active</span>
@@ -568,6 +734,42 @@ function DropdownMenuWrapper() {
   );
 }
 
+/** Counts down to the first-response SLA, then to the resolution SLA. */
+function SlaTimer({ handoff, compact = false }: { handoff: ChatHandoff; compact?: boolean }) {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const awaitingFirstResponse = !handoff.first_response_at;
+  const remaining = slaMinutesRemaining(
+    awaitingFirstResponse ? handoff.first_response_due_at : handoff.resolution_due_at,
+    now
+  );
+  const breached = remaining < 0;
+  const label = awaitingFirstResponse ? "Reply" : "Resolve";
+
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 rounded-full font-bold uppercase tracking-wider",
+        compact ? "text-[9px] px-1.5 py-0.5" : "text-[10px] px-2.5 py-1 border",
+        breached
+          ? "bg-red-50 text-red-600 border-red-100"
+          : remaining <= 2
+            ? "bg-amber-50 text-amber-600 border-amber-100"
+            : "bg-slate-100 text-slate-500 border-slate-200"
+      )}
+      title={`${label} SLA ${breached ? "breached" : "remaining"}`}
+    >
+      <Timer className="w-3 h-3" />
+      {breached ? `${label} +${-remaining}m` : `${label} ${remaining}m`}
+    </span>
+  );
+}
+
 function ActivityItem({ title, time, icon }: { title: string; time: string; icon: React.ReactNode }) {
   return (
     <div className="relative group">
@@ -4,18 +4,20 @@ import { useServiceCatalog, type CatalogService } from "@/hooks/useServiceCatalo
 import { CatalogServiceCard } from "@/components/services/CatalogServiceCard";
 import { ServiceDetailsModal } from "@/components/services/ServiceDetailsModal";
 import { RequestAccessDialog } from "@/components/services/RequestAccessDialog";
+import { ChangePlanDialog } from "@/components/services/ChangePlanDialog";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Package, CheckCircle, Lock, Clock } from "lucide-react";
 
 export default function ServiceCatalogPage() {
-  const { primaryColor } = useClient();
+  const { client, primaryColor } = useClient();
   const { services, loading, refetch } = useServiceCatalog();
 
   const [detailService, setDetailService] = useState<CatalogService | null>(null);
   const [requestService, setRequestService] = useState<CatalogService | null>(null);
   const [preselectedPlanId, setPreselectedPlanId] = useState<string | undefined>();
+  const [changePlanService, setChangePlanService] = useState<CatalogService | null>(null);
   const [filter, setFilter] = useState<"all" | "active" | "locked" | "pending">("all");
 
   const filtered = services.filter((s) => {
@@ -117,6 +119,7 @@ export default function ServiceCatalogPage() {
                   setPreselectedPlanId(undefined);
                   setRequestService(svc);
                 }}
+                onChangePlan={client?.self_serve_plan_changes === false ? undefined : setChangePlanService}
               />
             ))}
         </div>
@@ -142,6 +145,14 @@ export default function ServiceCatalogPage() {
         onSuccess={refetch}
         primaryColor={primaryColor}
       />
+
+      <ChangePlanDialog
+        service={changePlanService}
+        open={!!changePlanService}
+        onClose={() => setChangePlanService(null)}
+        onSuccess={refetch}
+        primaryColor={primaryColor}
+      />
     </div>
   );
 }
@@ -1,7 +1,7 @@
 import React, { useEffect, useState, useCallback, useRef } from "react";
 import { useClient } from "@/contexts/ClientContext";
 import { supabase } from "@/integrations/supabase/client";
-import { Navigate } from "react-router-dom";
+import { Navigate, useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -44,6 +44,15 @@ import {
   BarChart, Bar, Cell, Legend,
 } from "recharts";
 import { FaFacebook, FaInstagram, FaLinkedin, FaXTwitter } from "react-icons/fa6";
+import type { PlatformPostIds } from "@shared/social-media";
+import type { OAuthPlatform } from "@shared/social-oauth";
+import { SocialPlatformButtons } from "@/components/ConnectSocialPlatform";
+import {
+  disconnectSocialConnection,
+  fetchSocialConnections,
+  startSocialConnect,
+  type SocialConnection,
+} from "@/lib/social-connections";
 
 /* ─── Types ─── */
 interface SocialPost {
@@ -58,6 +67,7 @@ interface SocialPost {
   posted_at: string | null;
   engagement_stats: any;
   error_message: string | null;
+  platform_post_ids: PlatformPostIds | null;
   created_at: string;
   brand_id: string | null;
 }
@@ -106,6 +116,7 @@ export default function SocialMediaPage() {
   const [stats, setStats] = useState<Stats | null>(null);
   const [posts, setPosts] = useState<SocialPost[]>([]);
   const [brands, setBrands] = useState<SocialBrand[]>([]);
+  const [connections, setConnections] = useState<SocialConnection[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   
   const [viewMode, setViewMode] = useState<"calendar" | "list" | "brands" | "analytics" | "accounts">("calendar");
@@ -115,6 +126,7 @@ export default function SocialMediaPage() {
   const [detailPost, setDetailPost] = useState<SocialPost | null>(null);
   const [calendarMonth, setCalendarMonth] = useState(new Date());
   const [selectedBrandId, setSelectedBrandId] = useState<string>("all");
+  const [searchParams, setSearchParams] = useSearchParams();
 
   const smService = assignedServices.find(s => 
     s.service_slug === "social-media-automation" || 
@@ -125,7 +137,7 @@ export default function SocialMediaPage() {
   const fetchAll = useCallback(async () => {
     if (!client) return;
     setIsLoading(true);
-    await Promise.all([fetchStats(), fetchPosts(), fetchBrands()]);
+    await Promise.all([fetchStats(), fetchPosts(), fetchBrands(), fetchConnections()]);
     setIsLoading(false);
   }, [client]);
 
@@ -139,6 +151,12 @@ export default function SocialMediaPage() {
     setBrands((data as SocialBrand[]) || []);
   }
 
+  async function fetchConnections() {
+    if (!client) return;
+    const data = await fetchSocialConnections(client.id).catch(() => []);
+    setConnections(data);
+  }
+
   async function fetchStats() {
     if (!client) return;
     const monthStart = startOfMonth(new Date()).toISOString();
@@ -188,6 +206,20 @@ export default function SocialMediaPage() {
     fetchAll();
   }, [client, contextLoading, smService]);
 
+  // Back from social-oauth-callback (or a reconnect notification)
+  useEffect(() => {
+    if (searchParams.get("view") !== "brands") return;
+    setViewMode("brands");
+    const connected = searchParams.get("connected");
+    const connectError = searchParams.get("connect_error");
+    if (connected) {
+      toast({ title: "Account Connected", description: `${connected} is now connected.` });
+    } else if (connectError) {
+      toast({ title: "Connection Failed", description: connectError, variant: "destructive" });
+    }
+    setSearchParams({}, { replace: true });
+  }, [searchParams, setSearchParams, toast]);
+
   if (contextLoading || isLoading) return <LoadingSkeleton />;
   if (!smService) return <Navigate to="/client" replace />;
 
@@ -213,20 +245,33 @@ export default function SocialMediaPage() {
 
       {/* Connected Platforms */}
       <div className="flex gap-3 overflow-x-auto pb-1">
-        {PLATFORMS.map(p => (
-          <Card key={p.key} className="min-w-[160px] shrink-0">
-            <CardContent className="pt-4 pb-3 flex items-center gap-3">
-              <p.icon className="h-8 w-8" style={{ color: p.color }} />
-              <div>
-                <p className="text-sm font-medium text-foreground">{p.label}</p>
-                <div className="flex flex-col gap-1 mt-0.5">
-                  <Badge variant="outline" className="text-[10px] w-fit">Not Connected</Badge>
-                  <Button variant="link" size="sm" className="h-auto p-0 text-[10px] justify-start text-primary hover:no-underline" onClick={() => setViewMode("accounts")}>Connect Account</Button>
+        {PLATFORMS.map(p => {
+          const platformConnections = connections.filter(c => c.platform === p.key);
+          const needsReconnect = platformConnections.some(c => c.status === "reconnect_needed");
+          const connectedCount = platformConnections.filter(c => c.status === "connected").length;
+          return (
+            <Card key={p.key} className="min-w-[160px] shrink-0">
+              <CardContent className="pt-4 pb-3 flex items-center gap-3">
+                <p.icon className="h-8 w-8" style={{ color: p.color }} />
+                <div>
+                  <p className="text-sm font-medium text-foreground">{p.label}</p>
+                  <div className="flex flex-col gap-1 mt-0.5">
+                    {needsReconnect ? (
+                      <Badge variant="destructive" className="text-[10px] w-fit">Reconnect Needed</Badge>
+                    ) : connectedCount > 0 ? (
+                      <Badge variant="secondary" className="text-[10px] w-fit">{connectedCount} {connectedCount === 1 ? "Brand" : "Brands"} Connected</Badge>
+                    ) : (
+                      <Badge variant="outline" className="text-[10px] w-fit">Not Connected</Badge>
+                    )}
+                    <Button variant="link" size="sm" className="h-auto p-0 text-[10px] justify-start text-primary hover:no-underline" onClick={() => setViewMode("brands")}>
+                      {needsReconnect ? "Reconnect" : "Connect Account"}
+                    </Button>
+                  </div>
                 </div>
-              </div>
-            </CardContent>
-          </Card>
-        ))}
+              </CardContent>
+            </Card>
+          );
+        })}
       </div>
 
       {/* Stats */}
@@ -265,7 +310,7 @@ export default function SocialMediaPage() {
 
       {viewMode === "calendar" && <CalendarView posts={posts} month={calendarMonth} setMonth={setCalendarMonth} onDayClick={(day) => {}} onPostClick={setDetailPost} />}
       {viewMode === "list" && <ListView posts={posts} onEdit={p => { setEditingPost(p); setCreateModalOpen(true); }} onView={setDetailPost} onDelete={async (id) => { await supabase.from("social_media_posts").delete().eq("id", id); fetchPosts(); fetchStats(); }} />}
-      {viewMode === "brands" && <BrandsView brands={brands} posts={posts} onRefresh={fetchBrands} onDelete={async (id) => { await supabase.from("social_media_brands").delete().eq("id", id); fetchBrands(); }} />}
+      {viewMode === "brands" && <BrandsView brands={brands} posts={posts} connections={connections} onConnectionsChanged={fetchConnections} onRefresh={fetchBrands} onDelete={async (id) => { await supabase.from("social_media_brands").delete().eq("id", id); fetchBrands(); }} />}
       {viewMode === "analytics" && <AnalyticsView posts={selectedBrandId === "all" ? posts : posts.filter(p => p.brand_id === selectedBrandId)} brands={brands} selectedBrandId={selectedBrandId} />}
       {viewMode === "accounts" && <AccountsView />}
 
@@ -949,6 +994,7 @@ function PostDetailModal({ post, onClose, onEdit }: { post: SocialPost | null; o
   const comments = eng ? parseInt(eng.comments) || 0 : 0;
   const shares = eng ? parseInt(eng.shares) || 0 : 0;
   const reach = eng ? parseInt(eng.reach) || 0 : 0;
+  const results = Object.entries(post.platform_post_ids ?? {}).filter(([, r]) => r && typeof r === "object");
 
   return (
     <Dialog open={!!post} onOpenChange={() => onClose()}>
@@ -999,7 +1045,30 @@ function PostDetailModal({ post, onClose, onEdit }: { post: SocialPost | null; o
             </div>
           )}
 
-          {post.status === "failed" && post.error_message && (
+          {results.length > 0 && (
+            <div>
+              <Label className="text-xs font-semibold">Platforms</Label>
+              <div className="space-y-2 mt-2">
+                {results.map(([platform, r]) => (
+                  <div key={platform} className="flex items-start justify-between gap-3 border rounded-md p-2">
+                    <div className="min-w-0">
+                      <PlatformBadge platform={platform} />
+                      {r.error_message && <p className="text-xs text-muted-foreground mt-1 break-words">{r.error_message}</p>}
+                    </div>
+                    {r.status === "posted" && r.post_url ? (
+                      <a href={r.post_url} target="_blank" rel="noreferrer" className="text-xs text-primary hover:underline shrink-0">View post</a>
+                    ) : (
+                      <span className={`text-xs shrink-0 ${r.status === "failed" ? "text-destructive" : "text-muted-foreground"}`}>
+                        {r.status === "retrying" ? `Retrying (attempt ${r.attempts})` : "Failed"}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {post.status === "failed" && post.error_message && results.length === 0 && (
             <div className="border border-destructive/30 rounded-md p-3 bg-destructive/5">
               <div className="flex items-center gap-2 text-destructive text-sm font-medium mb-1"><AlertCircle className="h-4 w-4" /> Failed</div>
               <p className="text-xs text-muted-foreground">{post.error_message}</p>
@@ -1019,13 +1088,45 @@ function PostDetailModal({ post, onClose, onEdit }: { post: SocialPost | null; o
 }
 
 /* ─── Brands View ─── */
-function BrandsView({ brands, posts, onRefresh, onDelete }: { brands: SocialBrand[]; posts: SocialPost[]; onRefresh: () => void; onDelete: (id: string) => void }) {
+function BrandsView({ brands, posts, connections, onConnectionsChanged, onRefresh, onDelete }: {
+  brands: SocialBrand[];
+  posts: SocialPost[];
+  connections: SocialConnection[];
+  onConnectionsChanged: () => void;
+  onRefresh: () => void;
+  onDelete: (id: string) => void;
+}) {
+  const { toast } = useToast();
+  const [pending, setPending] = useState<{ brandId: string; platform: string } | null>(null);
+
+  // Leaves the app for the platform's consent screen; the callback brings the user back
+  const connect = async (brandId: string, platform: string) => {
+    setPending({ brandId, platform });
+    try {
+      window.location.assign(await startSocialConnect(brandId, platform as OAuthPlatform));
+    } catch (err) {
+      toast({ title: "Could not start connection", description: (err as Error).message, variant: "destructive" });
+      setPending(null);
+    }
+  };
+
+  const disconnect = async (connection: SocialConnection) => {
+    try {
+      await disconnectSocialConnection(connection.id);
+      onConnectionsChanged();
+    } catch (err) {
+      toast({ title: "Error", description: (err as Error).message, variant: "destructive" });
+    }
+  };
+
   return (
     <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
       {brands.map(brand => {
         const brandPosts = posts.filter(p => p.brand_id === brand.id);
         const publishedCount = brandPosts.filter(p => p.status === "posted").length;
         const scheduledCount = brandPosts.filter(p => p.status === "scheduled").length;
+        const brandConnections = connections.filter(c => c.brand_id === brand.id && c.status !== "revoked");
+        const reconnectNeeded = brandConnections.filter(c => c.status === "reconnect_needed");
 
         return (
           <Card key={brand.id}>
@@ -1043,6 +1144,11 @@ function BrandsView({ brands, posts, onRefresh, onDelete }: { brands: SocialBran
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild><Button variant="ghost" size="icon" className="h-8 w-8"><MoreVertical className="h-4 w-4" /></Button></DropdownMenuTrigger>
                   <DropdownMenuContent align="end">
+                    {brandConnections.map(c => (
+                      <DropdownMenuItem key={c.id} onClick={() => disconnect(c)}>
+                        <X className="h-3 w-3 mr-2" /> Disconnect {PLATFORMS.find(p => p.key === c.platform)?.label ?? c.platform}
+                      </DropdownMenuItem>
+                    ))}
                     <DropdownMenuItem className="text-destructive" onClick={() => onDelete(brand.id)}><Trash2 className="h-3 w-3 mr-2" /> Delete</DropdownMenuItem>
                   </DropdownMenuContent>
                 </DropdownMenu>
@@ -1060,6 +1166,24 @@ function BrandsView({ brands, posts, onRefresh, onDelete }: { brands: SocialBran
                   <p className="text-[10px] text-muted-foreground uppercase">Scheduled</p>
                 </div>
               </div>
+              {reconnectNeeded.length > 0 && (
+                <div className="mt-4 flex items-start gap-2 rounded-md border border-destructive/40 bg-destructive/5 p-2 text-xs text-destructive">
+                  <AlertCircle className="h-4 w-4 shrink-0" />
+                  <span>
+                    Reconnect needed: {reconnectNeeded.map(c => PLATFORMS.find(p => p.key === c.platform)?.label ?? c.platform).join(", ")}.
+                    Scheduled posts to {reconnectNeeded.length === 1 ? "this account" : "these accounts"} will fail until then.
+                  </span>
+                </div>
+              )}
+              <div className="mt-4">
+                <SocialPlatformButtons
+                  onConnect={(platform) => connect(brand.id, platform)}
+                  connectedPlatforms={brandConnections.map(c => c.platform)}
+                  reconnectPlatforms={reconnectNeeded.map(c => c.platform)}
+                  accountNames={Object.fromEntries(brandConnections.map(c => [c.platform, c.account_name]))}
+                  pendingPlatform={pending?.brandId === brand.id ? pending.platform : null}
+                />
+              </div>
             </CardContent>
           </Card>
         );
@@ -1163,6 +1287,7 @@ function PostStatusBadge({ status }: { status: string }) {
     scheduled: { label: "Scheduled", variant: "outline" },
     publishing: { label: "Publishing", variant: "default" },
     posted: { label: "Posted", variant: "default" },
+    partial: { label: "Partially Posted", variant: "secondary" },
     failed: { label: "Failed", variant: "destructive" },
   };
   const info = map[status] || { label: status, variant: "secondary" as const };
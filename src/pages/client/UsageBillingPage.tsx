@@ -23,6 +23,11 @@ import {
   AreaChart, Area, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip as ReTooltip,
   ResponsiveContainer, Legend
 } from "recharts";
+import { ClientWalletCard } from "@/components/wallet/ClientWalletCard";
+import { invoiceBalance, requestPaymentLink } from "@/lib/billing";
+import { fetchOpenSuspension, type DunningSuspension } from "@/lib/dunning";
+import { fetchCurrentUsagePeriods, formatUsagePeriod, type CurrentUsagePeriod } from "@/lib/usage-periods";
+import { UsagePeriodHistoryCard } from "@/components/usage/UsagePeriodHistoryCard";
 
 type DateRange = "this_month" | "last_month" | "custom";
 
@@ -52,6 +57,8 @@ interface Invoice {
   notes: string | null;
   admin_id: string | null;
   client_id: string | null;
+  amount_paid?: number;
+  amount_refunded?: number;
 }
 
 export default function UsageBillingPage() {
@@ -62,6 +69,9 @@ export default function UsageBillingPage() {
   const [loading, setLoading] = useState(true);
   const [activeChart, setActiveChart] = useState("daily");
   const [invoiceModal, setInvoiceModal] = useState<Invoice | null>(null);
+  const [payingInvoiceId, setPayingInvoiceId] = useState<string | null>(null);
+  const [suspension, setSuspension] = useState<DunningSuspension | null>(null);
+  const [usagePeriods, setUsagePeriods] = useState<Map<string, CurrentUsagePeriod>>(new Map());
   const [limitDialog, setLimitDialog] = useState(false);
   const [limitService, setLimitService] = useState("");
   const [limitRequested, setLimitRequested] = useState("");
@@ -123,6 +133,9 @@ export default function UsageBillingPage() {
       );
     }
     if (invoiceRes.data) setInvoices(invoiceRes.data as Invoice[]);
+    setSuspension(await fetchOpenSuspension(client.id).catch(() => null));
+    const periods = await fetchCurrentUsagePeriods(client.id).catch((): CurrentUsagePeriod[] => []);
+    setUsagePeriods(new Map(periods.map((p) => [p.client_service_id, p])));
     setLoading(false);
   };
 
@@ -173,6 +186,20 @@ export default function UsageBillingPage() {
   const pagedUsage = filteredUsage.slice(usagePage * PAGE_SIZE, (usagePage + 1) * PAGE_SIZE);
   const totalPages = Math.ceil(filteredUsage.length / PAGE_SIZE);
 
+  const isPayable = (inv: Invoice) =>
+    (inv.status === "sent" || inv.status === "overdue") &&
+    invoiceBalance(inv.total_amount, inv.amount_paid, inv.amount_refunded).outstanding > 0;
+
+  const handlePayNow = async (inv: Invoice) => {
+    setPayingInvoiceId(inv.id);
+    try {
+      window.location.href = await requestPaymentLink(inv.id);
+    } catch (err) {
+      toast({ title: "Payment unavailable", description: (err as Error).message, variant: "destructive" });
+      setPayingInvoiceId(null);
+    }
+  };
+
   const handleRequestIncrease = async () => {
     if (!client || !limitService || !limitRequested) return;
     const svc = assignedServices.find(s => s.service_id === limitService);
@@ -288,13 +315,25 @@ export default function UsageBillingPage() {
         </div>
       ))}
 
+      {suspension && (
+        <div className="flex items-center gap-2 p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
+          <XCircle className="h-4 w-4 shrink-0" />
+          <span>Your services are suspended for an overdue invoice since {format(new Date(suspension.suspended_at), "MMM d, yyyy")}. Paying it restores them automatically.</span>
+        </div>
+      )}
+
       {overdueInvoices.map(inv => (
         <div key={inv.id} className="flex items-center justify-between p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
           <div className="flex items-center gap-2">
             <AlertTriangle className="h-4 w-4" />
             <span>Overdue invoice {inv.invoice_number} — ₹{inv.total_amount.toLocaleString()}</span>
           </div>
-          <Button size="sm" variant="destructive" onClick={() => setInvoiceModal(inv)}>View Invoice</Button>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => setInvoiceModal(inv)}>View Invoice</Button>
+            <Button size="sm" variant="destructive" onClick={() => handlePayNow(inv)} disabled={payingInvoiceId === inv.id}>
+              <CreditCard className="h-4 w-4 mr-1" /> Pay Now
+            </Button>
+          </div>
         </div>
       ))}
 
@@ -351,6 +390,9 @@ export default function UsageBillingPage() {
         </Card>
       </div>
 
+      {/* Prepaid Wallet */}
+      {client && <ClientWalletCard clientId={client.id} />}
+
       {/* Service Usage Breakdown */}
       <div>
         <h2 className="text-lg font-semibold text-foreground mb-4">Service Usage Details</h2>
@@ -362,6 +404,7 @@ export default function UsageBillingPage() {
               const pct = svc.usage_limit > 0 ? Math.round((svc.usage_consumed / svc.usage_limit) * 100) : 0;
               const remaining = Math.max(0, svc.usage_limit - svc.usage_consumed);
               const resetLabel = svc.reset_period || "never";
+              const period = usagePeriods.get(svc.id);
               return (
                 <Card key={svc.id} className="bg-white border-slate-200/60 shadow-sm transition-all hover:shadow-md">
                   <CardHeader className="pb-2">
@@ -390,7 +433,10 @@ export default function UsageBillingPage() {
                         <p className="text-slate-500 text-[10px]">Left</p>
                       </div>
                     </div>
-                    <div className="text-[10px] text-slate-400 font-medium">Resets: {resetLabel}</div>
+                    <div className="text-[10px] text-slate-400 font-medium">
+                      Resets: {resetLabel}
+                      {period?.current_period_start && ` · Current period: ${formatUsagePeriod(period.current_period_start, period.current_period_end)}`}
+                    </div>
                     {pct >= 80 && (
                       <Button
                         size="sm"
@@ -412,6 +458,9 @@ export default function UsageBillingPage() {
         )}
       </div>
 
+      {/* Closed usage periods */}
+      {client && <UsagePeriodHistoryCard clientId={client.id} />}
+
       {/* Usage Trend Chart */}
       <Card>
         <CardHeader>
@@ -556,6 +605,11 @@ export default function UsageBillingPage() {
                     {statusBadge(inv.status)}
                     <p className="text-lg font-bold text-foreground">₹{inv.total_amount.toLocaleString()}</p>
                     <Button size="sm" variant="outline" onClick={() => setInvoiceModal(inv)}>View</Button>
+                    {isPayable(inv) && (
+                      <Button size="sm" onClick={() => handlePayNow(inv)} disabled={payingInvoiceId === inv.id}>
+                        <CreditCard className="h-4 w-4 mr-1" /> {payingInvoiceId === inv.id ? "Opening..." : "Pay Now"}
+                      </Button>
+                    )}
                   </div>
                 </div>
               ))}
@@ -622,8 +676,22 @@ export default function UsageBillingPage() {
                   <span>Total</span>
                   <span>₹{invoiceModal.total_amount.toLocaleString()}</span>
                 </div>
+                {invoiceBalance(invoiceModal.total_amount, invoiceModal.amount_paid, invoiceModal.amount_refunded).isPartiallyPaid && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Still due</span>
+                    <span className="text-foreground">
+                      ₹{invoiceBalance(invoiceModal.total_amount, invoiceModal.amount_paid, invoiceModal.amount_refunded).outstanding.toLocaleString()}
+                    </span>
+                  </div>
+                )}
               </div>
 
+              {isPayable(invoiceModal) && (
+                <Button className="w-full" onClick={() => handlePayNow(invoiceModal)} disabled={payingInvoiceId === invoiceModal.id}>
+                  <CreditCard className="h-4 w-4 mr-2" /> {payingInvoiceId === invoiceModal.id ? "Opening checkout..." : "Pay Now"}
+                </Button>
+              )}
+
               {invoiceModal.paid_at && (
                 <p className="text-sm text-green-600">
                   Paid on {format(new Date(invoiceModal.paid_at), "MMM d, yyyy")}
@@ -49,6 +49,8 @@ interface Campaign {
   created_at: string;
   scheduled_at: string | null;
   list_id: string | null;
+  /** "voice" for campaigns driven by the campaign dialer, otherwise an outbound list */
+  source?: "voice" | "list";
 }
 
 interface CallLog {
@@ -155,15 +157,34 @@ export default function VoiceTelecallerPage() {
     if (!client) return;
     
     try {
-      const { data: lists, error: listError } = await (supabase as any).from("outbound_contact_lists")
-        .select(`*`)
-        .eq("owner_user_id", client.user_id)
-        .order("created_at", { ascending: false });
+      const [listsRes, voiceRes] = await Promise.all([
+        (supabase as any).from("outbound_contact_lists")
+          .select(`*`)
+          .eq("owner_user_id", client.user_id)
+          .order("created_at", { ascending: false }),
+        supabase.from("voice_campaigns")
+          .select("id, campaign_name, status, created_at, scheduled_at, total_contacts, contacts_called")
+          .eq("client_id", client.id),
+      ]);
+      const { data: lists, error: listError } = listsRes;
 
       if (listError) throw listError;
-      
+      if (voiceRes.error) throw voiceRes.error;
+
+      const voiceCampaigns = (voiceRes.data || []).map(v => ({
+        id: v.id,
+        campaign_name: v.campaign_name,
+        status: v.status || "draft",
+        created_at: v.created_at,
+        scheduled_at: v.scheduled_at,
+        list_id: null,
+        total_contacts: v.total_contacts || 0,
+        contacts_called: v.contacts_called || 0,
+        source: "voice" as const,
+      }));
+
       if (!lists || lists.length === 0) {
-        setCampaigns([]);
+        setCampaigns(voiceCampaigns);
         return;
       }
 
@@ -215,10 +236,13 @@ export default function VoiceTelecallerPage() {
           scheduled_at: latestSched?.scheduled_at || null,
           list_id: d.id,
           total_contacts: total,
-          contacts_called: called
+          contacts_called: called,
+          source: "list" as const,
         };
       });
-      setCampaigns(mapped);
+      setCampaigns(
+        [...voiceCampaigns, ...mapped].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+      );
     } catch (err) {
       console.error("fetchCampaigns error:", err);
     }
@@ -793,6 +817,7 @@ export default function VoiceTelecallerPage() {
         usageConsumed={telecallerService.usage_consumed}
         clientId={client?.id || ""}
         userId={client?.user_id || ""}
+        serviceId={telecallerService.service_id}
       />
 
       <Dialog open={instantCallOpen} onOpenChange={setInstantCallOpen}>
@@ -997,6 +1022,19 @@ function CampaignCard({
     if (!client) return;
     setIsUpdating(true);
     try {
+      if (campaign.source === "voice") {
+        // The campaign dialer owns these; it stops claiming contacts on pause
+        const action = newStatus === "paused" ? "pause" : campaign.status === "draft" ? "start" : "resume";
+        const { data, error } = await supabase.functions.invoke("trigger-telecaller-campaign", {
+          body: { campaign_id: campaign.id, client_id: client.id, action },
+        });
+        if (error) throw error;
+        if (!data?.success) throw new Error(data?.error || `Failed to ${action} campaign`);
+        toast.success(`Campaign ${newStatus === 'running' ? 'resumed' : 'paused'} successfully`);
+        onRefresh();
+        return;
+      }
+
       // Search for any existing schedule for this list
       const { data: existing } = await (supabase as any)
         .from("outbound_scheduled_calls")
@@ -1059,7 +1097,9 @@ function CampaignCard({
     if (!confirm("Are you sure you want to delete this campaign? this will wipe all calls queues.")) return;
     setIsUpdating(true);
     try {
-      const { error } = await (supabase as any).from("outbound_contact_lists").delete().eq("id", campaign.id);
+      const { error } = campaign.source === "voice"
+        ? await supabase.from("voice_campaigns").delete().eq("id", campaign.id)
+        : await (supabase as any).from("outbound_contact_lists").delete().eq("id", campaign.id);
       if (error) throw error;
       toast.success("Campaign deleted successfully");
     } catch (err: any) {
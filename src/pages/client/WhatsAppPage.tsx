@@ -16,6 +16,7 @@ import {
   getWhatsAppTemplates,
   updateMessageStatus,
   sendWhatsAppMessage,
+  findClosedSessionPhones,
   syncWhatsAppTemplates,
   createWhatsAppTemplate,
 } from "@/utils/whatsapp";
@@ -50,6 +51,18 @@ import {
 import Papa from "papaparse";
 import { motion } from "framer-motion";
 import WhatsAppInbox from "@/components/client/whatsapp/WhatsAppInbox";
+import { findSuppressedPhones } from "@/lib/suppression";
+import { CampaignCostEstimate } from "@/components/usage/CampaignCostEstimate";
+import {
+  MAX_CAMPAIGN_RECIPIENTS,
+  buildRecipients,
+  detectPhoneColumn,
+  findMissingParams,
+  renderTemplate,
+  resolveTemplateParams,
+  templateVariables,
+  type TemplateParamSource,
+} from "@/lib/whatsapp-campaign";
 
 /* ─── Types ─── */
 interface WACampaign {
@@ -59,12 +72,22 @@ interface WACampaign {
   total_contacts: number;
   messages_sent: number;
   messages_delivered: number;
+  messages_read?: number;
+  messages_failed?: number;
   scheduled_at: string | null;
   completed_at: string | null;
   created_at: string;
   message_template: string;
 }
 
+interface WATemplate {
+  id?: string;
+  name: string;
+  language?: string;
+  status?: string;
+  components?: { type: string; text?: string }[];
+}
+
 interface WAMessage {
   id: string;
   phone_number: string;
@@ -323,7 +346,15 @@ export default function WhatsAppPage() {
       .on("postgres_changes", {
         event: "*", schema: "public", table: "whatsapp_campaigns",
         filter: `client_id=eq.${client.id}`,
-      }, () => { fetchCampaigns(); fetchStats(); })
+      }, (payload) => {
+        // Counter updates arrive once per message status change; patch them in place
+        if (payload.eventType === "UPDATE") {
+          const updated = payload.new as WACampaign;
+          setCampaigns(prev => prev.map(c => c.id === updated.id ? { ...c, ...updated } : c));
+        } else {
+          fetchCampaigns(); fetchStats();
+        }
+      })
       .subscribe();
     return () => { supabase.removeChannel(channel); };
   }, [client, fetchCampaigns, fetchStats]);
@@ -688,6 +719,7 @@ export default function WhatsAppPage() {
         onCreated={() => { fetchCampaigns(); fetchStats(); refetchClient(); }} 
         selectedAppId={selectedAppId}
         templates={templates}
+        serviceId={waService?.service_id}
       />
     </div>
   );
@@ -915,7 +947,9 @@ function QuickAction({ icon, label, sub, onClick, disabled }: { icon: React.Reac
 }
 
 function CampaignCard({ campaign, onRefresh }: { campaign: WACampaign; onRefresh: () => void }) {
-  const progress = campaign.total_contacts > 0 ? Math.round((campaign.messages_sent / campaign.total_contacts) * 100) : 0;
+  // Failed messages are finished too, so they count towards progress
+  const processed = (campaign.messages_sent || 0) + (campaign.messages_failed || 0);
+  const progress = campaign.total_contacts > 0 ? Math.min(100, Math.round((processed / campaign.total_contacts) * 100)) : 0;
   return (
     <Card>
       <CardContent className="pt-5 pb-4">
@@ -930,6 +964,8 @@ function CampaignCard({ campaign, onRefresh }: { campaign: WACampaign; onRefresh
         <div className="flex gap-4 text-[10px] text-muted-foreground">
           <span>Sent: {campaign.messages_sent}</span>
           <span>Delivered: {campaign.messages_delivered}</span>
+          <span>Read: {campaign.messages_read || 0}</span>
+          {(campaign.messages_failed || 0) > 0 && <span className="text-destructive">Failed: {campaign.messages_failed}</span>}
           <span>Total: {campaign.total_contacts}</span>
         </div>
       </CardContent>
@@ -948,7 +984,8 @@ function MessageStatusBadge({ status }: { status: string }) {
     delivered: <CheckCheck className="h-3 w-3 text-muted-foreground" />,
     sent: <CheckCircle className="h-3 w-3 text-muted-foreground" />,
     failed: <X className="h-3 w-3 text-destructive" />,
-    queued: <Clock className="h-3 w-3 text-muted-foreground" />
+    queued: <Clock className="h-3 w-3 text-muted-foreground" />,
+    sending: <Loader2 className="h-3 w-3 text-muted-foreground animate-spin" />
   };
   return <span className="flex items-center gap-1 text-[10px] font-medium uppercase">{icons[status]} {status}</span>;
 }
@@ -1041,12 +1078,15 @@ function SendMessageModal({
           toast({ title: "Error", description: result.message, variant: "destructive" });
         }
       } else {
-        await supabase.from("whatsapp_messages").insert({
+        const { data: queued, error: queueError } = await supabase.from("whatsapp_messages").insert({
           client_id: clientId, application_id: selectedAppId, phone_number: phone.trim(),
           message_type: messageType, message_content: previewContent,
           template_name: messageType === "template" ? templateName : null, status: "queued",
           sent_at: new Date().toISOString(), media_url: mediaUrl || null
-        });
+        }).select("status, error_message").single();
+        if (queueError) throw queueError;
+        // Free-form messages outside the 24-hour session window are rejected on insert
+        if (queued?.status === "failed") throw new Error(queued.error_message);
         toast({ title: "Message queued" });
       }
       onSent(); reset(); onOpenChange(false);
@@ -1219,52 +1259,154 @@ function CreateTemplateModalWA({ open, onOpenChange, selectedAppId, onCreated }:
 }
 
 /* ─── Campaign Wizard ─── */
-function CreateCampaignWizardWA({ open, onOpenChange, clientId, onCreated, selectedAppId }: any) {
+function CreateCampaignWizardWA({ open, onOpenChange, clientId, onCreated, selectedAppId, templates, serviceId }: any) {
   const { toast } = useToast();
   const [step, setStep] = useState(1);
   const [name, setName] = useState("");
-  const [contacts, setContacts] = useState<any[]>([]);
+  const [csvFileName, setCsvFileName] = useState("");
+  const [csvRows, setCsvRows] = useState<Record<string, string>[]>([]);
+  const [csvHeaders, setCsvHeaders] = useState<string[]>([]);
+  const [csvError, setCsvError] = useState("");
+  const [phoneColumn, setPhoneColumn] = useState("");
+  const [messageType, setMessageType] = useState<"template" | "text">("template");
+  const [templateName, setTemplateName] = useState("");
+  const [paramMapping, setParamMapping] = useState<Record<string, TemplateParamSource>>({});
   const [messageContent, setMessageContent] = useState("");
   const [creating, setCreating] = useState(false);
 
-  const reset = () => { setStep(1); setName(""); setContacts([]); setMessageContent(""); };
+  const reset = () => {
+    setStep(1); setName(""); setCsvFileName(""); setCsvRows([]); setCsvHeaders([]); setCsvError("");
+    setPhoneColumn(""); setMessageType("template"); setTemplateName(""); setParamMapping({}); setMessageContent("");
+  };
 
-  const handleCreate = async () => {
-    // Basic validation for contacts
-    const invalidContacts = contacts.filter(c => {
-      const cleaned = c.phone.replace(/[^0-9]/g, "");
-      return cleaned.length < 11 || cleaned.length > 15;
+  const approvedTemplates = ((templates || []) as WATemplate[])
+    .filter(t => ["approved", "ready"].includes((t.status || "approved").toLowerCase()));
+  const selectedTemplate = approvedTemplates.find(t => t.name === templateName);
+  const templateBody = selectedTemplate?.components?.find(c => c.type === "BODY")?.text || "";
+  const variables = useMemo(() => templateVariables(templateBody), [templateBody]);
+
+  const recipientImport = useMemo(
+    () => phoneColumn ? buildRecipients(csvRows, phoneColumn) : { recipients: [], invalidRows: 0, duplicateRows: 0 },
+    [csvRows, phoneColumn]
+  );
+  const recipients = recipientImport.recipients;
+  const missingParams = messageType === "template" ? findMissingParams(variables, paramMapping, recipients) : [];
+  const preview = recipients.length === 0
+    ? ""
+    : messageType === "template"
+      ? renderTemplate(templateBody, resolveTemplateParams(variables, paramMapping, recipients[0]))
+      : messageContent;
+  const canLaunch = recipients.length > 0 && (messageType === "template"
+    ? !!selectedTemplate && missingParams.length === 0
+    : !!messageContent.trim());
+
+  const handleCsvFile = (file: File | undefined) => {
+    if (!file) return;
+    setCsvError("");
+    Papa.parse<Record<string, string>>(file, {
+      header: true,
+      skipEmptyLines: true,
+      complete: (results) => {
+        const headers = (results.meta.fields || []).filter(Boolean);
+        if (results.data.length === 0 || headers.length === 0) {
+          setCsvError("The file has no rows");
+          return;
+        }
+        setCsvFileName(file.name);
+        setCsvRows(results.data);
+        setCsvHeaders(headers);
+        setPhoneColumn(detectPhoneColumn(headers) || "");
+        setParamMapping({});
+      },
+      error: () => setCsvError("Could not read the CSV file"),
     });
+  };
 
-    if (invalidContacts.length > 0) {
-      return toast({
-        title: "Invalid Contacts Detected",
-        description: `${invalidContacts.length} contacts have invalid phone numbers or are missing country codes.`,
-        variant: "destructive"
-      });
+  const handleCreate = async () => {
+    if (!selectedAppId) {
+      return toast({ title: "Select a WhatsApp bot first", variant: "destructive" });
     }
 
     setCreating(true);
+    let campaign: { id: string } | null = null;
     try {
-      const { data: campaign } = await supabase.from("whatsapp_campaigns").insert({
-        client_id: clientId, campaign_name: name.trim(), message_template: messageContent.trim(),
-        total_contacts: contacts.length, status: "sending"
+      // Numbers on a Do-Not-Contact list are left out of the campaign
+      const suppressed = await findSuppressedPhones(clientId, recipients.map(r => r.phone), "whatsapp");
+      const allowed = recipients.filter(r => !suppressed.has(r.phone));
+      if (allowed.length === 0) {
+        throw new Error("All recipients are on a Do-Not-Contact list");
+      }
+
+      // Free-form campaign messages can only reach numbers inside their 24-hour
+      // session window; the rest are queued as failed with the reason.
+      const closedSessions = messageType === "text"
+        ? await findClosedSessionPhones(clientId, allowed.map(r => r.phone), selectedAppId)
+        : new Set<string>();
+      if (closedSessions.size === allowed.length) {
+        throw new Error("None of the recipients messaged you in the last 24 hours. WhatsApp only allows approved templates outside the session window.");
+      }
+
+      // Created as a draft so the sender only starts once every message is queued
+      const { data: created, error: campaignError } = await supabase.from("whatsapp_campaigns").insert({
+        client_id: clientId,
+        application_id: selectedAppId,
+        campaign_name: name.trim(),
+        message_template: messageType === "template" ? templateBody : messageContent.trim(),
+        template_name: messageType === "template" ? selectedTemplate.name : null,
+        template_language: messageType === "template" ? selectedTemplate.language || "en_US" : null,
+        total_contacts: allowed.length,
+        status: "draft",
       }).select("id").single();
+      if (campaignError) throw campaignError;
+      campaign = created;
 
-        const msgs = contacts.map(c => ({
-          client_id: clientId, 
-          application_id: selectedAppId, 
+      const msgs = allowed.map(r => {
+        const params = messageType === "template" ? resolveTemplateParams(variables, paramMapping, r) : null;
+        return {
+          client_id: clientId,
+          application_id: selectedAppId,
           campaign_id: campaign.id,
-          phone_number: c.phone, 
-          message_content: messageContent, 
-          message_type: "text" as const,
-          template_name: null, 
-          status: "queued" as const
-        }));
-        await supabase.from("whatsapp_messages").insert(msgs);
-      toast({ title: "Campaign Launched!" });
+          phone_number: r.phone,
+          message_content: params ? renderTemplate(templateBody, params) : messageContent.trim(),
+          message_type: messageType,
+          template_name: params ? selectedTemplate.name : null,
+          template_params: params,
+          status: "queued" as const,
+        };
+      });
+      // The session window trigger marks closed-session messages failed as they are inserted
+      let failedOnQueue = 0;
+      for (let i = 0; i < msgs.length; i += 500) {
+        const { data: queued, error: queueError } = await supabase
+          .from("whatsapp_messages")
+          .insert(msgs.slice(i, i + 500))
+          .select("status");
+        if (queueError) throw queueError;
+        failedOnQueue += (queued ?? []).filter((m: { status: string }) => m.status === "failed").length;
+      }
+
+      const { error: launchError } = await supabase
+        .from("whatsapp_campaigns")
+        .update({ status: "sending" })
+        .eq("id", campaign.id);
+      if (launchError) throw launchError;
+      campaign = null;
+
+      const skipped = [
+        suppressed.size > 0 && `${suppressed.size} Do-Not-Contact number${suppressed.size === 1 ? " was" : "s were"} skipped.`,
+        failedOnQueue > 0 && `${failedOnQueue} message${failedOnQueue === 1 ? " is" : "s are"} listed as failed and won't be sent: the recipient's 24-hour session window is closed.`,
+      ].filter(Boolean);
+      toast({
+        title: "Campaign Launched!",
+        description: [`${allowed.length - failedOnQueue} messages queued for sending.`, ...skipped].join(" "),
+      });
       onCreated(); onOpenChange(false); reset();
     } catch (e: any) {
+      // A launch that failed part-way leaves a draft with some of its messages; drop it
+      if (campaign) {
+        const { error: discardError } = await supabase.rpc("discard_whatsapp_campaign_draft", { p_campaign_id: campaign.id });
+        if (discardError) console.error("Failed to discard the draft campaign:", discardError);
+      }
       toast({ title: "Error", description: e.message, variant: "destructive" });
     } finally {
       setCreating(false);
@@ -1273,7 +1415,7 @@ function CreateCampaignWizardWA({ open, onOpenChange, clientId, onCreated, selec
 
   return (
     <Dialog open={open} onOpenChange={(v) => { if (!v) reset(); onOpenChange(v); }}>
-      <DialogContent>
+      <DialogContent className="sm:max-w-lg">
         <DialogHeader><DialogTitle>WhatsApp Campaign (Step {step})</DialogTitle></DialogHeader>
         {step === 1 && (
           <div className="space-y-4">
@@ -1283,17 +1425,110 @@ function CreateCampaignWizardWA({ open, onOpenChange, clientId, onCreated, selec
         )}
         {step === 2 && (
           <div className="space-y-4">
-            <Label>Import CSV (Mock import for now)</Label>
-            <Input type="file" onChange={() => setContacts([{ phone: "12345" }, { phone: "67890" }])} />
-            <Button className="w-full" onClick={() => setStep(3)} disabled={contacts.length === 0}>Next</Button>
+            <div>
+              <Label>Recipients CSV</Label>
+              <Input type="file" accept=".csv,text/csv" onChange={e => handleCsvFile(e.target.files?.[0])} />
+              <p className="text-[10px] text-muted-foreground mt-1">
+                One row per recipient with a phone column (country code included). Other columns can fill template variables.
+              </p>
+              {csvError && <p className="text-xs text-destructive mt-1">{csvError}</p>}
+            </div>
+            {csvHeaders.length > 0 && (
+              <>
+                <div><Label>Phone column</Label>
+                  <Select value={phoneColumn} onValueChange={setPhoneColumn}>
+                    <SelectTrigger><SelectValue placeholder="Choose the phone column" /></SelectTrigger>
+                    <SelectContent>{csvHeaders.map(h => <SelectItem key={h} value={h}>{h}</SelectItem>)}</SelectContent>
+                  </Select>
+                </div>
+                <div className="rounded border border-dashed p-3 text-xs space-y-1">
+                  <p className="font-medium">{csvFileName}</p>
+                  <p>{recipients.length} recipient{recipients.length === 1 ? "" : "s"} ready</p>
+                  {recipientImport.invalidRows > 0 && <p className="text-destructive">{recipientImport.invalidRows} row(s) without a valid phone number will be skipped</p>}
+                  {recipientImport.duplicateRows > 0 && <p className="text-muted-foreground">{recipientImport.duplicateRows} duplicate number(s) removed</p>}
+                  {csvRows.length > MAX_CAMPAIGN_RECIPIENTS && <p className="text-muted-foreground">Only the first {MAX_CAMPAIGN_RECIPIENTS} recipients are used</p>}
+                </div>
+              </>
+            )}
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={() => setStep(1)}>Back</Button>
+              <Button className="flex-1" onClick={() => setStep(3)} disabled={recipients.length === 0}>Next</Button>
+            </div>
           </div>
         )}
         {step === 3 && (
           <div className="space-y-4">
-            <div><Label>Message</Label><Textarea value={messageContent} onChange={e => setMessageContent(e.target.value)} /></div>
-            <Button className="w-full bg-green-500 text-white" onClick={handleCreate} disabled={creating || !messageContent.trim()}>
-              {creating ? "Launching..." : "Launch"}
-            </Button>
+            <div><Label>Message type</Label>
+              <Select value={messageType} onValueChange={(v) => setMessageType(v as "template" | "text")}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="template">Approved template</SelectItem>
+                  <SelectItem value="text">Free text (24-hour session only)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {messageType === "template" ? (
+              <>
+                <div><Label>Template</Label>
+                  <Select value={templateName} onValueChange={(v) => { setTemplateName(v); setParamMapping({}); }}>
+                    <SelectTrigger><SelectValue placeholder={approvedTemplates.length ? "Select template" : "No approved templates"} /></SelectTrigger>
+                    <SelectContent>{approvedTemplates.map(t => <SelectItem key={t.id || t.name} value={t.name}>{t.name}</SelectItem>)}</SelectContent>
+                  </Select>
+                </div>
+                {variables.map(v => {
+                  const source = paramMapping[v];
+                  return (
+                    <div key={v} className="flex items-center gap-2">
+                      <Label className="w-12 text-right font-mono text-[10px]">{`{{${v}}}`}</Label>
+                      <Select
+                        value={source?.source === "column" ? `column:${source.column}` : source ? "static" : ""}
+                        onValueChange={(val) => setParamMapping(prev => ({
+                          ...prev,
+                          [v]: val === "static" ? { source: "static", value: "" } : { source: "column", column: val.slice("column:".length) },
+                        }))}
+                      >
+                        <SelectTrigger className="h-8 text-xs flex-1"><SelectValue placeholder="Map to..." /></SelectTrigger>
+                        <SelectContent>
+                          {csvHeaders.map(h => <SelectItem key={h} value={`column:${h}`}>Column: {h}</SelectItem>)}
+                          <SelectItem value="static">Same text for everyone</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {source?.source === "static" && (
+                        <Input
+                          className="h-8 text-xs flex-1"
+                          placeholder={`Value for {{${v}}}`}
+                          value={source.value}
+                          onChange={e => setParamMapping(prev => ({ ...prev, [v]: { source: "static", value: e.target.value } }))}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+                {missingParams.length > 0 && selectedTemplate && (
+                  <p className="text-xs text-destructive">
+                    Map every variable to a column that is filled for all recipients: {missingParams.map(v => `{{${v}}}`).join(", ")}
+                  </p>
+                )}
+              </>
+            ) : (
+              <div><Label>Message</Label>
+                <Textarea value={messageContent} onChange={e => setMessageContent(e.target.value)} />
+                <p className="text-[10px] text-muted-foreground mt-1">Messages to recipients who have not messaged you in the last 24 hours are marked failed and not sent.</p>
+              </div>
+            )}
+            {preview && (
+              <div className="rounded bg-muted/40 p-3 text-xs whitespace-pre-wrap">
+                <p className="text-[10px] uppercase text-muted-foreground mb-1">Preview for {recipients[0].phone}</p>
+                {preview}
+              </div>
+            )}
+            {serviceId && <CampaignCostEstimate serviceId={serviceId} contacts={recipients.length} />}
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={() => setStep(2)}>Back</Button>
+              <Button className="flex-1 bg-green-500 text-white" onClick={handleCreate} disabled={creating || !canLaunch}>
+                {creating ? "Launching..." : `Launch to ${recipients.length}`}
+              </Button>
+            </div>
           </div>
         )}
       </DialogContent>
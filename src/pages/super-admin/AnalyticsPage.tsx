@@ -2,7 +2,7 @@ import { useEffect, useState, useCallback, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
 import {
   DollarSign, PhoneCall, MessageSquare, Users, TrendingUp, TrendingDown,
-  RefreshCw, Download, CalendarIcon,
+  RefreshCw, Download, CalendarIcon, Radio, Scale, FileText,
 } from "lucide-react";
 import { format, subDays, startOfDay, endOfDay, differenceInDays } from "date-fns";
 import {
@@ -26,9 +26,27 @@ import { Calendar } from "@/components/ui/calendar";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import {
+  exportStatementCsv, exportStatementPdf, fetchPlatformReceivables, fetchSettlementStatement,
+  type ReceivableRow,
+} from "@/lib/settlement";
 
 type DateRange = { from: Date; to: Date };
 
+interface ProviderHealth {
+  provider: string;
+  dispatch_attempts: number;
+  dispatch_errors: number;
+  calls: number;
+  answered: number;
+  failed: number;
+  error_rate: number | null;
+  answer_rate: number | null;
+}
+
+// Error rate above which a carrier is flagged on the health table
+const PROVIDER_ERROR_THRESHOLD = 10;
+
 function formatINR(amount: number) {
   return new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", maximumFractionDigits: 0 }).format(amount);
 }
@@ -64,6 +82,8 @@ export default function AnalyticsPage() {
   const [usageChart, setUsageChart] = useState<{ category: string; count: number }[]>([]);
   const [topAdmins, setTopAdmins] = useState<any[]>([]);
   const [topClients, setTopClients] = useState<any[]>([]);
+  const [providerHealth, setProviderHealth] = useState<ProviderHealth[]>([]);
+  const [receivables, setReceivables] = useState<ReceivableRow[]>([]);
 
   const isoFrom = (d: Date) => d.toISOString();
   const dateFrom = (d: Date) => format(d, "yyyy-MM-dd");
@@ -212,11 +232,31 @@ export default function AnalyticsPage() {
     setTopClients(enriched);
   }, [dateRange]);
 
+  const fetchProviderHealth = useCallback(async () => {
+    const { data, error } = await supabase.rpc("get_telephony_provider_health", {
+      p_from: isoFrom(dateRange.from),
+      p_to: isoFrom(dateRange.to),
+    });
+    if (error) {
+      console.error("Failed to load provider health:", error);
+      return;
+    }
+    setProviderHealth(data ?? []);
+  }, [dateRange]);
+
+  const fetchReceivables = useCallback(async () => {
+    try {
+      setReceivables(await fetchPlatformReceivables(dateRange.from, dateRange.to));
+    } catch (error) {
+      console.error("Failed to load receivables:", error);
+    }
+  }, [dateRange]);
+
   const loadAll = useCallback(async () => {
     setLoading(true);
-    await Promise.all([fetchMetrics(), fetchRevenueChart(), fetchUsageChart(), fetchTopAdmins(), fetchTopClients()]);
+    await Promise.all([fetchMetrics(), fetchRevenueChart(), fetchUsageChart(), fetchTopAdmins(), fetchTopClients(), fetchProviderHealth(), fetchReceivables()]);
     setLoading(false);
-  }, [fetchMetrics, fetchRevenueChart, fetchUsageChart, fetchTopAdmins, fetchTopClients]);
+  }, [fetchMetrics, fetchRevenueChart, fetchUsageChart, fetchTopAdmins, fetchTopClients, fetchProviderHealth, fetchReceivables]);
 
   useEffect(() => { loadAll(); }, [loadAll]);
 
@@ -269,6 +309,15 @@ export default function AnalyticsPage() {
     lines.push("Top Clients");
     lines.push("Company,Admin,Total Usage");
     topClients.forEach((c) => lines.push(`${c.company_name},${c.admin_company},${c.total_usage}`));
+    lines.push("");
+    lines.push("Telephony Provider Health");
+    lines.push("Provider,Dispatch Attempts,Dispatch Errors,Calls,Answered,Failed,Error Rate,Answer Rate");
+    providerHealth.forEach((p) => lines.push(`${p.provider},${p.dispatch_attempts},${p.dispatch_errors},${p.calls},${p.answered},${p.failed},${p.error_rate ?? ""}%,${p.answer_rate ?? ""}%`));
+
+    lines.push("");
+    lines.push("Platform Receivables");
+    lines.push("Company,Usage Events,Billed to Clients,Owed to Platform");
+    receivables.forEach((r) => lines.push(`${r.company_name},${r.usage_events},${r.retail_amount},${r.receivable_amount}`));
 
     const blob = new Blob([lines.join("\n")], { type: "text/csv" });
     const url = URL.createObjectURL(blob);
@@ -280,6 +329,22 @@ export default function AnalyticsPage() {
     toast({ title: "Report exported" });
   };
 
+  const exportAdminStatement = async (row: ReceivableRow, kind: "csv" | "pdf") => {
+    if (!row.admin_id) return;
+    try {
+      const lines = await fetchSettlementStatement(row.admin_id, dateRange.from, dateRange.to);
+      const statement = {
+        adminName: row.company_name,
+        periodLabel: `${format(dateRange.from, "MMM d, yyyy")} - ${format(dateRange.to, "MMM d, yyyy")}`,
+        lines,
+      };
+      if (kind === "csv") exportStatementCsv(statement);
+      else await exportStatementPdf(statement);
+    } catch {
+      toast({ title: "Export failed", variant: "destructive" });
+    }
+  };
+
   const barColors: Record<string, string> = {
     Voice: "hsl(217, 91%, 60%)",
     Messaging: "hsl(142, 71%, 45%)",
@@ -549,6 +614,120 @@ export default function AnalyticsPage() {
           </Card>
         </div>
       )}
+
+      {/* Provider Health */}
+      {loading ? (
+        <Card><CardContent className="p-6"><Skeleton className="h-32 w-full" /></CardContent></Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Radio className="h-5 w-5" /> Telephony Provider Health
+            </CardTitle>
+            <CardDescription>Dispatch failures and call outcomes per carrier in selected period</CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {providerHealth.length === 0 ? (
+              <p className="px-6 pb-6 text-sm text-muted-foreground">No provider traffic in this period.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Provider</TableHead>
+                    <TableHead className="text-right">Dispatch Errors</TableHead>
+                    <TableHead className="text-right">Calls</TableHead>
+                    <TableHead className="text-right">Answered</TableHead>
+                    <TableHead className="text-right">Failed</TableHead>
+                    <TableHead className="text-right">Error Rate</TableHead>
+                    <TableHead className="text-right">Answer Rate</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {providerHealth.map((p) => {
+                    const unhealthy = (p.error_rate ?? 0) > PROVIDER_ERROR_THRESHOLD;
+                    return (
+                      <TableRow key={p.provider}>
+                        <TableCell className="font-medium capitalize">{p.provider}</TableCell>
+                        <TableCell className="text-right">
+                          {p.dispatch_errors} / {p.dispatch_attempts}
+                        </TableCell>
+                        <TableCell className="text-right">{p.calls}</TableCell>
+                        <TableCell className="text-right">{p.answered}</TableCell>
+                        <TableCell className="text-right">{p.failed}</TableCell>
+                        <TableCell className="text-right">
+                          <Badge variant={unhealthy ? "destructive" : "secondary"}>
+                            {p.error_rate ?? 0}%
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {p.answer_rate !== null ? `${p.answer_rate}%` : "—"}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Platform Receivables */}
+      {loading ? (
+        <Card><CardContent className="p-6"><Skeleton className="h-32 w-full" /></CardContent></Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Scale className="h-5 w-5" /> Platform Receivables
+            </CardTitle>
+            <CardDescription>Wholesale owed by each admin and retail from direct clients in selected period</CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            {receivables.length === 0 ? (
+              <p className="px-6 pb-6 text-sm text-muted-foreground">No billable usage in this period.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Admin</TableHead>
+                    <TableHead className="text-right">Usage Events</TableHead>
+                    <TableHead className="text-right">Billed to Clients</TableHead>
+                    <TableHead className="text-right">Owed to Platform</TableHead>
+                    <TableHead className="text-right">Statement</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {receivables.map((r) => (
+                    <TableRow
+                      key={r.admin_id ?? "direct"}
+                      className={r.admin_id ? "cursor-pointer" : undefined}
+                      onClick={() => r.admin_id && navigate(`/super-admin/admins/${r.admin_id}`)}
+                    >
+                      <TableCell className="font-medium">{r.company_name}</TableCell>
+                      <TableCell className="text-right">{Number(r.usage_events).toLocaleString("en-IN")}</TableCell>
+                      <TableCell className="text-right">{formatINR(Number(r.retail_amount))}</TableCell>
+                      <TableCell className="text-right font-medium">{formatINR(Number(r.receivable_amount))}</TableCell>
+                      <TableCell className="text-right">
+                        {r.admin_id && (
+                          <div className="flex justify-end gap-1" onClick={(e) => e.stopPropagation()}>
+                            <Button variant="ghost" size="sm" onClick={() => exportAdminStatement(r, "csv")}>
+                              <Download className="mr-1 h-3 w-3" /> CSV
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => exportAdminStatement(r, "pdf")}>
+                              <FileText className="mr-1 h-3 w-3" /> PDF
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
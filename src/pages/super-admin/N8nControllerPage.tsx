@@ -26,17 +26,29 @@ import {
   Plus,
   Pencil,
   Power,
+  ShieldAlert,
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import type { Tables } from "@/integrations/supabase/types";
 import TemplateFormModal from "@/components/super-admin/TemplateFormModal";
 import TemplateDetailDialog from "@/components/super-admin/TemplateDetailDialog";
+import ExecutionInspectorSheet from "@/components/super-admin/ExecutionInspectorSheet";
 
 type WorkflowTemplate = Tables<"workflow_templates">;
 type WorkflowInstance = Tables<"client_workflow_instances">;
 type WorkflowExecution = Tables<"workflow_executions">;
 
+interface WebhookRejection {
+  id: string;
+  endpoint: string;
+  reason: string;
+  workflow_instance_id: string | null;
+  source_ip: string | null;
+  payload: Record<string, unknown> | null;
+  created_at: string;
+}
+
 const statusColor: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
   active: "default",
   configured: "secondary",
@@ -57,6 +69,7 @@ export default function N8nControllerPage() {
   const [templates, setTemplates] = useState<WorkflowTemplate[]>([]);
   const [instances, setInstances] = useState<(WorkflowInstance & { client_name?: string; service_name?: string })[]>([]);
   const [executions, setExecutions] = useState<(WorkflowExecution & { workflow_name?: string })[]>([]);
+  const [rejections, setRejections] = useState<WebhookRejection[]>([]);
   const [loading, setLoading] = useState(true);
   const [n8nUrl, setN8nUrl] = useState("");
   const [n8nApiKey, setN8nApiKey] = useState("");
@@ -66,11 +79,12 @@ export default function N8nControllerPage() {
   const [editingTemplate, setEditingTemplate] = useState<WorkflowTemplate | null>(null);
   const [detailTemplate, setDetailTemplate] = useState<WorkflowTemplate | null>(null);
   const [detailOpen, setDetailOpen] = useState(false);
+  const [inspectedExecution, setInspectedExecution] = useState<{ id: string; workflowName?: string } | null>(null);
 
   const loadData = useCallback(async () => {
     setLoading(true);
     try {
-      const [templatesRes, instancesRes, executionsRes] = await Promise.all([
+      const [templatesRes, instancesRes, executionsRes, rejectionsRes] = await Promise.all([
         supabase
           .from("workflow_templates")
           .select("*")
@@ -85,8 +99,15 @@ export default function N8nControllerPage() {
           .select("*")
           .order("executed_at", { ascending: false })
           .limit(100),
+        supabase
+          .from("webhook_rejections")
+          .select("id, endpoint, reason, workflow_instance_id, source_ip, payload, created_at")
+          .order("created_at", { ascending: false })
+          .limit(100),
       ]);
 
+      setRejections((rejectionsRes.data ?? []) as WebhookRejection[]);
+
       const rawTemplates = templatesRes.data ?? [];
       setTemplates(rawTemplates);
 
@@ -290,6 +311,10 @@ export default function N8nControllerPage() {
             <Eye className="mr-1.5 h-4 w-4" />
             Execution Logs
           </TabsTrigger>
+          <TabsTrigger value="rejections">
+            <ShieldAlert className="mr-1.5 h-4 w-4" />
+            Rejected Webhooks
+          </TabsTrigger>
           <TabsTrigger value="settings">
             <Settings className="mr-1.5 h-4 w-4" />
             Settings
@@ -491,7 +516,11 @@ export default function N8nControllerPage() {
                     </TableHeader>
                     <TableBody>
                       {executions.map((ex) => (
-                        <TableRow key={ex.id}>
+                        <TableRow
+                          key={ex.id}
+                          className="cursor-pointer"
+                          onClick={() => setInspectedExecution({ id: ex.id, workflowName: ex.workflow_name })}
+                        >
                           <TableCell className="font-medium">{ex.workflow_name}</TableCell>
                           <TableCell>
                             <Badge variant={execStatusColor[ex.status ?? "waiting"] ?? "outline"}>
@@ -518,6 +547,57 @@ export default function N8nControllerPage() {
           </Card>
         </TabsContent>
 
+        {/* Rejected Webhooks Tab */}
+        <TabsContent value="rejections">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Rejected Webhook Deliveries</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              {loading ? (
+                <div className="space-y-3 p-6">
+                  {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-10 w-full" />)}
+                </div>
+              ) : rejections.length === 0 ? (
+                <p className="p-6 text-sm text-muted-foreground">No rejected deliveries.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Received At</TableHead>
+                        <TableHead>Endpoint</TableHead>
+                        <TableHead>Reason</TableHead>
+                        <TableHead>Workflow Instance</TableHead>
+                        <TableHead>Source IP</TableHead>
+                        <TableHead>Payload</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rejections.map((r) => (
+                        <TableRow key={r.id}>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {new Date(r.created_at).toLocaleString()}
+                          </TableCell>
+                          <TableCell className="text-sm font-mono">{r.endpoint}</TableCell>
+                          <TableCell className="text-sm text-destructive">{r.reason}</TableCell>
+                          <TableCell className="text-xs font-mono">{r.workflow_instance_id ?? "—"}</TableCell>
+                          <TableCell className="text-sm">{r.source_ip ?? "—"}</TableCell>
+                          <TableCell className="max-w-xs">
+                            <code className="block truncate text-xs" title={JSON.stringify(r.payload)}>
+                              {r.payload ? JSON.stringify(r.payload) : "—"}
+                            </code>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         {/* Settings Tab */}
         <TabsContent value="settings">
           <Card>
@@ -565,6 +645,17 @@ export default function N8nControllerPage() {
         template={detailTemplate}
         serviceName={detailTemplate ? serviceMap[detailTemplate.service_id] : undefined}
       />
+
+      <ExecutionInspectorSheet
+        open={!!inspectedExecution}
+        onOpenChange={(open) => !open && setInspectedExecution(null)}
+        executionId={inspectedExecution?.id ?? null}
+        workflowName={inspectedExecution?.workflowName}
+        onReplayed={(id) => {
+          setInspectedExecution((prev) => ({ id, workflowName: prev?.workflowName }));
+          loadData();
+        }}
+      />
     </div>
   );
 }
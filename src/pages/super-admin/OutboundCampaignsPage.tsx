@@ -517,7 +517,12 @@ export default function OutboundCampaignsPage() {
                       <TableRow key={i}>
                         <TableCell><Badge variant="outline" className="text-[10px] uppercase">Voice</Badge></TableCell>
                         <TableCell className="text-sm font-medium">{c.name}</TableCell>
-                        <TableCell className="font-mono text-xs">{c.phone_number}</TableCell>
+                        <TableCell className="font-mono text-xs">
+                          {c.phone_number}
+                          {c.suppressed_at && (
+                            <Badge variant="destructive" className="ml-2 text-[10px]">Do-Not-Contact</Badge>
+                          )}
+                        </TableCell>
                         <TableCell className="text-xs text-muted-foreground">{c.email || "—"}</TableCell>
                       </TableRow>
                     ))
@@ -18,9 +18,12 @@ import {
 } from "@/components/ui/alert-dialog";
 import {
   User, Settings, Mail, Shield, Bell,
-  Save, Loader2, RefreshCw, AlertTriangle, Eye, EyeOff, Lock,
+  Save, Loader2, RefreshCw, AlertTriangle, Eye, EyeOff, Lock, Ban, Receipt,
 } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
+import { SuppressionListManager } from "@/components/suppression/SuppressionListManager";
+import { TaxSettingsCard } from "@/components/admin/TaxSettingsCard";
+import { PLATFORM_TAX_SUPPLIER_ID } from "@/lib/tax";
 
 type SettingsMap = Record<string, string>;
 
@@ -197,9 +200,11 @@ export default function SettingsPage() {
         <TabsList className="flex-wrap h-auto gap-1">
           <TabsTrigger value="profile" className="gap-1.5"><User className="h-4 w-4" />Profile</TabsTrigger>
           <TabsTrigger value="platform" className="gap-1.5"><Settings className="h-4 w-4" />Platform</TabsTrigger>
+          <TabsTrigger value="tax" className="gap-1.5"><Receipt className="h-4 w-4" />Tax</TabsTrigger>
           <TabsTrigger value="email" className="gap-1.5"><Mail className="h-4 w-4" />Email</TabsTrigger>
           <TabsTrigger value="security" className="gap-1.5"><Shield className="h-4 w-4" />Security</TabsTrigger>
           <TabsTrigger value="notifications" className="gap-1.5"><Bell className="h-4 w-4" />Notifications</TabsTrigger>
+          <TabsTrigger value="dnc" className="gap-1.5"><Ban className="h-4 w-4" />Do Not Contact</TabsTrigger>
         </TabsList>
 
         {/* TAB 1: Profile */}
@@ -332,6 +337,11 @@ export default function SettingsPage() {
           <PlatformTab settings={settings} saving={saving} onSave={saveMultipleSettings} />
         </TabsContent>
 
+        {/* Tax registration and numbering for direct clients' invoices */}
+        <TabsContent value="tax">
+          <TaxSettingsCard adminId={PLATFORM_TAX_SUPPLIER_ID} />
+        </TabsContent>
+
         {/* TAB 3: Email */}
         <TabsContent value="email">
           <EmailTab settings={settings} saving={saving} onSave={saveMultipleSettings} />
@@ -346,6 +356,11 @@ export default function SettingsPage() {
         <TabsContent value="notifications">
           <NotificationsTab config={notifConfig} saving={saving} onSave={saveMultipleSettings} />
         </TabsContent>
+
+        {/* TAB 8: Global Do-Not-Contact list */}
+        <TabsContent value="dnc">
+          <SuppressionListManager scope="global" />
+        </TabsContent>
       </Tabs>
 
     </div>
@@ -557,9 +572,11 @@ function NotificationsTab({ config, saving, onSave }: { config: Record<string, b
     { key: "workflow_activated", label: "Workflow activated", desc: "Notify client" },
     { key: "usage_limit_80", label: "Usage limit reached 80%", desc: "Notify client" },
     { key: "usage_limit_exceeded", label: "Usage limit exceeded", desc: "Notify client and admin" },
+    { key: "wallet_low_balance", label: "Prepaid balance low", desc: "Notify client" },
     { key: "campaign_completed", label: "Campaign completed", desc: "Notify client" },
     { key: "new_lead_captured", label: "New lead captured", desc: "Notify client" },
     { key: "invoice_generated", label: "Invoice generated", desc: "Notify client" },
+    { key: "dunning_reminders", label: "Overdue invoice reminders", desc: "Notify client" },
   ];
 
   return (
@@ -0,0 +1,65 @@
+import { WEBHOOK_NODE_TYPE, type N8nWorkflow } from "@shared/n8n";
+
+/**
+ * In-memory stand-in for the n8n workflows API. Checks the API key, rejects
+ * read-only fields on create the way n8n does, and refuses to activate
+ * workflows without a trigger.
+ */
+export function createFakeN8nApi(apiKey: string) {
+  const workflows = new Map<string, N8nWorkflow>();
+  let nextId = 1;
+
+  const json = (status: number, body: unknown) =>
+    new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+  const fakeFetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = new URL(typeof input === "string" ? input : input instanceof URL ? input.href : input.url);
+    const method = (init?.method ?? "GET").toUpperCase();
+    const headers = new Headers(init?.headers);
+    if (headers.get("X-N8N-API-KEY") !== apiKey) return json(401, { message: "unauthorized" });
+
+    const match = url.pathname.match(/^\/api\/v1\/workflows(?:\/([^/]+))?(?:\/(activate|deactivate))?$/);
+    if (!match) return json(404, { message: "not found" });
+    const [, id, action] = match;
+    const body = init?.body ? JSON.parse(String(init.body)) : undefined;
+
+    if (!id) {
+      if (method !== "POST") return json(405, { message: "method not allowed" });
+      const extra = Object.keys(body ?? {}).filter((k) => !["name", "nodes", "connections", "settings", "staticData"].includes(k));
+      if (extra.length > 0) return json(400, { message: `request/body must NOT have additional properties: ${extra.join(", ")}` });
+      if (!body?.name || !Array.isArray(body.nodes) || !body.settings) {
+        return json(400, { message: "request/body must have required properties name, nodes, connections, settings" });
+      }
+      const wf: N8nWorkflow = { ...body, id: String(nextId++), active: false };
+      workflows.set(wf.id, wf);
+      return json(200, wf);
+    }
+
+    const wf = workflows.get(id);
+    if (!wf) return json(404, { message: "Not Found" });
+
+    if (action === "activate") {
+      const hasTrigger = wf.nodes.some((n) => n.type === WEBHOOK_NODE_TYPE || /trigger$/i.test(n.type));
+      if (!hasTrigger) return json(400, { message: "Workflow has no node to start the workflow" });
+      wf.active = true;
+      return json(200, wf);
+    }
+    if (action === "deactivate") {
+      wf.active = false;
+      return json(200, wf);
+    }
+    if (method === "GET") return json(200, wf);
+    if (method === "PUT") {
+      const updated: N8nWorkflow = { ...wf, ...body, id: wf.id, active: wf.active };
+      workflows.set(id, updated);
+      return json(200, updated);
+    }
+    if (method === "DELETE") {
+      workflows.delete(id);
+      return json(200, wf);
+    }
+    return json(405, { message: "method not allowed" });
+  };
+
+  return { fetch: fakeFetch as typeof fetch, workflows };
+}
@@ -1,5 +1,6 @@
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import { getSessionWindow, normalizeWhatsAppPhone } from "@/lib/whatsapp-session";
 
 export const WHATSAPP_API_URL = "https://app.whapihub.com/v2/whatsapp-business";
 const DEFAULT_API_KEY = import.meta.env.VITE_WHATSAPP_API_KEY;
@@ -19,69 +20,63 @@ export interface SendWhatsAppMessageParams {
 }
 
 /**
- * Sends a message via WhatsApp and logs it to our local database history.
+ * Sends a message via WhatsApp. The send-whatsapp-message edge function
+ * checks the Do-Not-Contact list and session window, holds the message
+ * against the client's usage limit and logs it to the message history.
  */
-export async function sendWhatsAppMessage(params: SendWhatsAppMessageParams) {
-  try {
-    const API_URL = import.meta.env.VITE_LEADNEST_SEND_MESSAGE;
-
-    if (!API_URL) {
-      console.error("VITE_LEADNEST_SEND_MESSAGE is not defined in .env");
-      return { success: false, message: "API configuration missing" };
-    }
+export async function sendWhatsAppMessage(params: SendWhatsAppMessageParams): Promise<{ success: boolean; message: string }> {
+  const { data, error } = await supabase.functions.invoke("send-whatsapp-message", { body: params });
+  if (error) {
+    const context = (error as { context?: Response }).context;
+    const detail = context ? await context.json().catch(() => null) : null;
+    console.error("WhatsApp Send Error:", detail ?? error);
+    return { success: false, message: detail?.message ?? error.message ?? "Failed to send WhatsApp message" };
+  }
+  return data;
+}
 
-    const requestBody = {
-      to: params.to.replace('+', ''),
-      phoneNoId: params.phoneNoId,
-      type: "text",
-      text: params.body || params.text
-    };
-
-    console.log("🚀 Sending LeadNest Payload:", JSON.stringify(requestBody, null, 2));
-    
-    const response = await fetch(API_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(requestBody),
-    });
+/**
+ * Latest inbound message time for a number, i.e. the start of its 24-hour
+ * session window. Null when the customer has never written in.
+ */
+export async function getLastInboundAt(clientId: string, phone: string, applicationId?: string) {
+  const sessions = await getLastInboundTimes(clientId, [phone], applicationId);
+  return sessions.get(normalizeWhatsAppPhone(phone)) ?? null;
+}
 
-    const result = await response.json();
-    
-    if (result.success || response.ok) {
-      console.log("📥 LeadNest API Response:", result);
-      // Log the message to our Supabase database (only if client_id is present)
-      if (params.client_id) {
-        const logContent = params.body ?? params.text ?? "";
-
-        const { error: dbError } = await (supabase.from("whatsapp_messages" as any) as any).insert({
-          application_id: params.application_id,
-          client_id: params.client_id,
-          phone_number: params.to,
-          message_content: logContent,
-          message_type: params.type || "text",
-          template_name: params.name || null,
-          status: "sent",
-          metadata: { whatsapp_message_id: result?.id || null },
-          sent_at: new Date().toISOString(),
-          wamid: result?.wamid || null,
-        });
-
-        if (dbError) {
-          console.warn("Message Sent but failed to log in history:", dbError);
-          return { success: true, message: "Message sent but failed to log in history" };
-        }
-      }
-      return { success: true, message: "Message sent successfully" };
-    } else {
-      console.error("📥 LeadNest API Error:", result);
-      return { success: false, message: result?.message || result?.error || "Failed to send WhatsApp message" };
+/** Maps each number (digits only) to the start of its session window. */
+async function getLastInboundTimes(clientId: string, phones: string[], applicationId?: string) {
+  const digits = [...new Set(phones.map(normalizeWhatsAppPhone))];
+  const sessions = new Map<string, string>();
+  if (digits.length === 0) return sessions;
+
+  // whatsapp_chats keys numbers as received, with or without "+" or spaces
+  const variants = [...new Set([...phones, ...digits, ...digits.map((d) => `+${d}`)])];
+
+  for (let i = 0; i < variants.length; i += 300) {
+    let query = (supabase.from("whatsapp_chats" as any) as any)
+      .select("phone_number, last_inbound_at")
+      .eq("client_id", clientId)
+      .not("last_inbound_at", "is", null)
+      .in("phone_number", variants.slice(i, i + 300));
+    if (applicationId) query = query.eq("application_id", applicationId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    for (const chat of (data || []) as { phone_number: string; last_inbound_at: string }[]) {
+      const key = normalizeWhatsAppPhone(chat.phone_number);
+      const current = sessions.get(key);
+      if (!current || new Date(chat.last_inbound_at) > new Date(current)) sessions.set(key, chat.last_inbound_at);
     }
-  } catch (error: any) {
-    console.error("WhatsApp Send Error:", error);
-    return { success: false, message: error.message || "Failed to send WhatsApp message" };
   }
+  return sessions;
+}
+
+/** Returns the subset of `phones` (as given) whose session window has closed. */
+export async function findClosedSessionPhones(clientId: string, phones: string[], applicationId?: string) {
+  const sessions = await getLastInboundTimes(clientId, phones, applicationId);
+  return new Set(phones.filter((p) => !getSessionWindow(sessions.get(normalizeWhatsAppPhone(p))).open));
 }
 
 /**
@@ -0,0 +1,360 @@
+/**
+ * Knowledge retrieval for the AI chatbot. Knowledge items (`ai_knowledge`) are
+ * split into chunks, embedded and stored in `ai_knowledge_chunks`; at answer
+ * time the best chunks are numbered and injected into the system prompt so the
+ * model can cite them as [1], [2], ...
+ *
+ * Shared by the app (imported as `@shared/ai-knowledge`) and the ai-chat,
+ * ai-knowledge-ingest and whatsapp-webhook edge functions, so it must not use
+ * Deno or browser-only APIs.
+ */
+
+export type KnowledgeSourceType = "qa" | "text" | "pdf" | "url";
+
+export const DEFAULT_CHUNK_SIZE = 1000;
+export const DEFAULT_CHUNK_OVERLAP = 150;
+export const DEFAULT_MATCH_COUNT = 4;
+
+// Text kept from one source; web pages are read only this far
+export const MAX_SOURCE_CHARS = 500_000;
+
+const MAX_REDIRECTS = 3;
+
+export interface KnowledgeMatch {
+  knowledgeId: string;
+  title: string;
+  content: string;
+  sourceType: KnowledgeSourceType;
+  sourceUrl?: string | null;
+  similarity: number;
+}
+
+export interface KnowledgeCitation {
+  index: number;
+  knowledgeId: string;
+  title: string;
+  sourceUrl?: string | null;
+}
+
+/** A row returned by the `match_knowledge_chunks` function. */
+export interface KnowledgeChunkRow {
+  knowledge_id: string;
+  title: string | null;
+  content: string;
+  source_type: KnowledgeSourceType;
+  source_url: string | null;
+  similarity: number;
+}
+
+/** Returns a vector for the text, or null when no embedding model is configured. */
+export type EmbedFn = (text: string) => Promise<number[] | null>;
+
+/** Looks up the best chunks by embedding, or by keywords when the embedding is null. */
+export type SearchFn = (
+  query: { text: string; embedding: number[] | null },
+  matchCount: number,
+) => Promise<KnowledgeMatch[]>;
+
+/** Resolves a host name to its IP addresses. */
+export type ResolveHostFn = (hostname: string) => Promise<string[]>;
+
+/** The `ai_knowledge` columns a source is read from. */
+export interface KnowledgeSourceItem {
+  source_type: string;
+  source_url?: string | null;
+  file_path?: string | null;
+  content?: string | null;
+}
+
+export interface KnowledgeSourceReaders {
+  /** The chatbot owner's client; uploaded documents must be in its folder. */
+  clientId: string;
+  /** Downloads a file from the `ai-knowledge` bucket. */
+  download: (path: string) => Promise<Blob>;
+  resolveHost: ResolveHostFn;
+  extractPdfText: (bytes: Uint8Array) => Promise<string>;
+  fetchImpl?: typeof fetch;
+  timeoutMs?: number;
+  maxChars?: number;
+}
+
+/**
+ * Splits text into chunks of at most `size` characters, breaking on paragraph
+ * and sentence boundaries where possible. Consecutive chunks share up to
+ * `overlap` characters so an answer spanning a boundary is still retrievable.
+ */
+export function chunkText(text: string, size = DEFAULT_CHUNK_SIZE, overlap = DEFAULT_CHUNK_OVERLAP): string[] {
+  const normalized = text.replace(/\r\n/g, "\n").replace(/[ \t]+/g, " ").replace(/\n{3,}/g, "\n\n").trim();
+  if (!normalized) return [];
+
+  // Sentences (or hard-split pieces of very long sentences) are the unit we pack
+  const pieces = normalized
+    .split(/\n\n+/)
+    .flatMap((paragraph) => paragraph.match(/[^.!?\n]+[.!?]*\s*/g) ?? [paragraph])
+    .flatMap((sentence) => {
+      const parts: string[] = [];
+      for (let i = 0; i < sentence.length; i += size) parts.push(sentence.slice(i, i + size));
+      return parts;
+    })
+    .map((piece) => piece.trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const piece of pieces) {
+    if (current && current.length + piece.length + 1 > size) {
+      chunks.push(current);
+      const tail = current.slice(-overlap);
+      // Start the overlap on a word boundary
+      const carry = overlap > 0 ? tail.slice(tail.indexOf(" ") + 1) : "";
+      current = carry && carry.length + piece.length + 1 <= size ? `${carry} ${piece}` : piece;
+    } else {
+      current = current ? `${current} ${piece}` : piece;
+    }
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+}
+
+/** Embeds the question and returns the top matches for it. */
+export async function retrieveKnowledge(
+  question: string,
+  embed: EmbedFn,
+  search: SearchFn,
+  matchCount = DEFAULT_MATCH_COUNT,
+): Promise<KnowledgeMatch[]> {
+  const text = question.trim();
+  if (!text) return [];
+
+  const embedding = await embed(text);
+  return search({ text, embedding }, matchCount);
+}
+
+export function knowledgeMatchFromRow(row: KnowledgeChunkRow): KnowledgeMatch {
+  return {
+    knowledgeId: row.knowledge_id,
+    title: row.title ?? "Untitled",
+    content: row.content,
+    sourceType: row.source_type,
+    sourceUrl: row.source_url,
+    similarity: Number(row.similarity),
+  };
+}
+
+/** Appends the numbered knowledge sources and citation rules to the system prompt. */
+export function buildKnowledgePrompt(systemPrompt: string, matches: KnowledgeMatch[]): string {
+  if (matches.length === 0) return systemPrompt;
+
+  const sources = matches
+    .map((m, i) => `[${i + 1}] ${m.title}${m.sourceUrl ? ` (${m.sourceUrl})` : ""}\n${m.content}`)
+    .join("\n\n");
+
+  return `${systemPrompt}
+
+Use the knowledge base below when it answers the question. Cite the sources you use inline as [1], [2], ... Do not cite sources you did not use. If the knowledge base does not cover the question, say so rather than guessing.
+
+Knowledge base:
+${sources}`;
+}
+
+/** Sources actually cited in the answer, in the order they were numbered. */
+export function extractCitations(answer: string, matches: KnowledgeMatch[]): KnowledgeCitation[] {
+  const cited = new Set([...answer.matchAll(/\[(\d+)\]/g)].map((m) => Number(m[1])));
+
+  return matches
+    .map((m, i) => ({ index: i + 1, knowledgeId: m.knowledgeId, title: m.title, sourceUrl: m.sourceUrl ?? null }))
+    .filter((c) => cited.has(c.index));
+}
+
+/** Citations as the chat widget and message metadata store them. */
+export function serializeCitations(citations: KnowledgeCitation[]) {
+  return citations.map((c) => ({
+    index: c.index,
+    knowledge_id: c.knowledgeId,
+    title: c.title,
+    source_url: c.sourceUrl ?? null,
+  }));
+}
+
+/** Removes [n] markers for channels that cannot show sources, e.g. WhatsApp. */
+export function stripCitationMarkers(answer: string): string {
+  return answer.replace(/\s?\[\d+\]/g, "").trim();
+}
+
+// ─── Reading sources ─────────────────────────────────────────────
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript|svg|nav|footer)[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<\/(p|div|section|article|li|h[1-6]|tr|br)>/gi, "\n\n")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'");
+}
+
+/** Loopback, private, link-local, carrier-grade NAT, multicast and reserved addresses. */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, "");
+
+  const v4 = ip.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (v4) {
+    const [a, b] = [Number(v4[1]), Number(v4[2])];
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 192 && b === 0) ||
+      (a === 198 && (b === 18 || b === 19))
+    );
+  }
+
+  if (!ip.includes(":")) return false;
+  if (ip === "::" || ip === "::1") return true;
+
+  // IPv4-mapped addresses, which URL parsing writes in hex (::ffff:7f00:1)
+  const mapped = ip.match(/^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/);
+  if (mapped) {
+    if (mapped[1]) return isPrivateAddress(mapped[1]);
+    const high = parseInt(mapped[2], 16);
+    const low = parseInt(mapped[3], 16);
+    return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+
+  return /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || ip.startsWith("ff") || ip.startsWith("64:ff9b:");
+}
+
+/**
+ * Parses a knowledge source URL and checks it only reaches the public
+ * internet: http(s) on the default port, no credentials, and a host that
+ * resolves to public addresses only.
+ */
+export async function assertPublicUrl(raw: string, resolveHost: ResolveHostFn): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new Error("Invalid source URL");
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error("Source URLs must use http or https");
+  }
+  if (url.username || url.password || url.port) {
+    throw new Error("Source URLs cannot carry credentials or a port");
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (host === "localhost" || /\.(localhost|local|internal)$/i.test(host)) {
+    throw new Error(`${host} is not a public host`);
+  }
+
+  const isLiteral = /^[\d.]+$/.test(host) || host.includes(":");
+  const addresses = isLiteral ? [host] : await resolveHost(host);
+  if (addresses.length === 0) {
+    throw new Error(`${host} could not be resolved`);
+  }
+  if (addresses.some(isPrivateAddress)) {
+    throw new Error(`${host} points to a private network address`);
+  }
+  return url;
+}
+
+/** Fetches a public URL, checking every redirect hop the same way. */
+export async function fetchPublicUrl(
+  raw: string,
+  resolveHost: ResolveHostFn,
+  init: RequestInit = {},
+  fetchImpl: typeof fetch = fetch,
+): Promise<Response> {
+  let current = raw;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const url = await assertPublicUrl(current, resolveHost);
+    const res = await fetchImpl(url.toString(), { ...init, redirect: "manual" });
+
+    const location = res.headers.get("location");
+    if (res.status < 300 || res.status >= 400 || !location) return res;
+
+    await res.body?.cancel();
+    current = new URL(location, url).toString();
+  }
+  throw new Error(`Too many redirects fetching ${raw}`);
+}
+
+/** Reads at most `maxChars` characters of the body, then stops downloading. */
+export async function readTextCapped(res: Response, maxChars: number): Promise<string> {
+  if (!res.body) return "";
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+
+  while (text.length < maxChars) {
+    const { done, value } = await reader.read();
+    if (done) {
+      text += decoder.decode();
+      return text.slice(0, maxChars);
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+
+  await reader.cancel();
+  return text.slice(0, maxChars);
+}
+
+/** Uploaded documents live under `<client_id>/` in the `ai-knowledge` bucket. */
+export function isClientKnowledgePath(path: string, clientId: string): boolean {
+  const segments = path.split("/");
+  return segments.length > 1 && segments[0] === clientId && !segments.some((s) => s === ".." || s === ".");
+}
+
+/** The text of a knowledge item: its web page, uploaded document or inline content. */
+export async function extractSourceText(item: KnowledgeSourceItem, readers: KnowledgeSourceReaders): Promise<string> {
+  const maxChars = readers.maxChars ?? MAX_SOURCE_CHARS;
+
+  if (item.source_type === "url") {
+    const res = await fetchPublicUrl(
+      item.source_url ?? "",
+      readers.resolveHost,
+      {
+        headers: { "User-Agent": "PixoraKnowledgeBot/1.0" },
+        signal: readers.timeoutMs ? AbortSignal.timeout(readers.timeoutMs) : undefined,
+      },
+      readers.fetchImpl,
+    );
+    if (!res.ok) {
+      await res.body?.cancel();
+      throw new Error(`Fetching ${item.source_url} failed with status ${res.status}`);
+    }
+
+    const body = await readTextCapped(res, maxChars);
+    const isHtml = (res.headers.get("content-type") ?? "").includes("html");
+    return isHtml ? htmlToText(body) : body;
+  }
+
+  if (item.file_path) {
+    if (!isClientKnowledgePath(item.file_path, readers.clientId)) {
+      throw new Error("The document is not in this client's folder");
+    }
+    const file = await readers.download(item.file_path);
+
+    if (item.source_type === "pdf") {
+      return (await readers.extractPdfText(new Uint8Array(await file.arrayBuffer()))).slice(0, maxChars);
+    }
+    return (await file.text()).slice(0, maxChars);
+  }
+
+  // FAQs and pasted text carry their content inline
+  return (item.content ?? "").slice(0, maxChars);
+}
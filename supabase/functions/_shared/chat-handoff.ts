@@ -0,0 +1,164 @@
+/**
+ * Escalation rules for handing an AI chat over to a human agent. ai-chat
+ * applies them; AIConfigurationPage edits the rules stored in
+ * `chat_handoff_settings`. Shared by the app (imported as
+ * `@shared/chat-handoff`) and the edge functions, so it must not use Deno or
+ * browser-only APIs.
+ */
+
+export type HandoffReason = "explicit_request" | "keyword" | "negative_sentiment" | "unknown_answers" | "manual";
+export type HandoffStatus = "waiting" | "claimed" | "resolved";
+
+export interface HandoffRules {
+  enabled: boolean;
+  keywords: string[];
+  explicitRequest: boolean;
+  negativeSentiment: boolean;
+  /** Escalate when the sentiment score is at or below this (-1 … 0). */
+  sentimentThreshold: number;
+  /** Escalate after this many consecutive "I don't know" answers; 0 disables. */
+  maxUnknownAnswers: number;
+  firstResponseSlaMinutes: number;
+  resolutionSlaMinutes: number;
+}
+
+export interface HandoffTrigger {
+  reason: HandoffReason;
+  detail: string;
+}
+
+export const DEFAULT_HANDOFF_RULES: HandoffRules = {
+  enabled: true,
+  keywords: ["refund", "complaint", "cancel my account"],
+  explicitRequest: true,
+  negativeSentiment: true,
+  sentimentThreshold: -0.5,
+  maxUnknownAnswers: 2,
+  firstResponseSlaMinutes: 5,
+  resolutionSlaMinutes: 60,
+};
+
+/** A `chat_handoff_settings` row. */
+export interface HandoffSettingsRow {
+  enabled: boolean;
+  keywords: string[] | null;
+  explicit_request: boolean;
+  negative_sentiment: boolean;
+  sentiment_threshold: number | string;
+  max_unknown_answers: number;
+  first_response_sla_minutes: number;
+  resolution_sla_minutes: number;
+}
+
+/** The chatbot's saved rules, or the defaults when it has none. */
+export function handoffRulesFromSettings(row: HandoffSettingsRow | null): HandoffRules {
+  if (!row) return DEFAULT_HANDOFF_RULES;
+  return {
+    enabled: row.enabled,
+    keywords: row.keywords ?? [],
+    explicitRequest: row.explicit_request,
+    negativeSentiment: row.negative_sentiment,
+    sentimentThreshold: Number(row.sentiment_threshold),
+    maxUnknownAnswers: row.max_unknown_answers,
+    firstResponseSlaMinutes: row.first_response_sla_minutes,
+    resolutionSlaMinutes: row.resolution_sla_minutes,
+  };
+}
+
+export const HANDOFF_REASON_LABELS: Record<HandoffReason, string> = {
+  explicit_request: "Asked for a human",
+  keyword: "Keyword",
+  negative_sentiment: "Negative sentiment",
+  unknown_answers: "AI could not answer",
+  manual: "Manual takeover",
+};
+
+const EXPLICIT_REQUEST_PATTERNS = [
+  /\b(talk|speak|chat|connect|transfer)\b.{0,20}\b(human|agent|person|someone|representative|executive|staff)\b/i,
+  /\b(real|live|actual)\s+(person|human|agent)\b/i,
+  /\bcustomer\s+(care|support|service)\b/i,
+];
+
+const NEGATIVE_WORDS = [
+  "angry", "annoyed", "awful", "bad", "broken", "disappointed", "disgusting", "frustrated", "furious",
+  "hate", "horrible", "terrible", "pathetic", "ridiculous", "scam", "useless", "worst", "waste", "fraud",
+  "unacceptable", "rubbish", "stupid", "cheated",
+];
+const POSITIVE_WORDS = [
+  "thanks", "thank", "great", "good", "awesome", "love", "perfect", "excellent", "helpful", "nice", "happy",
+];
+
+const UNKNOWN_ANSWER_PATTERNS = [
+  /\bI (?:don't|do not) know\b/i,
+  /\bI(?:'m| am) not sure\b/i,
+  /\bI (?:don't|do not) have (?:that|this|any|enough) information\b/i,
+  /\b(?:can't|cannot|unable to) (?:help|answer|find)\b/i,
+  /knowledge base does not cover/i,
+];
+
+/**
+ * Lexicon score between -1 (all negative) and 1 (all positive). Shouting and
+ * repeated exclamation marks count as extra negative signal.
+ */
+export function scoreSentiment(message: string): number {
+  const words = message.toLowerCase().match(/[a-z']+/g) ?? [];
+  let negative = words.filter((w) => NEGATIVE_WORDS.includes(w)).length;
+  const positive = words.filter((w) => POSITIVE_WORDS.includes(w)).length;
+
+  if (/!{2,}/.test(message)) negative += 1;
+  const letters = message.replace(/[^A-Za-z]/g, "");
+  if (letters.length >= 8 && letters === letters.toUpperCase()) negative += 1;
+
+  const total = negative + positive;
+  return total === 0 ? 0 : (positive - negative) / total;
+}
+
+export function isUnknownAnswer(reply: string): boolean {
+  return UNKNOWN_ANSWER_PATTERNS.some((pattern) => pattern.test(reply));
+}
+
+/** Number of "I don't know" replies at the end of the conversation. */
+export function countTrailingUnknownAnswers(assistantReplies: string[]): number {
+  let count = 0;
+  for (let i = assistantReplies.length - 1; i >= 0 && isUnknownAnswer(assistantReplies[i]); i--) count++;
+  return count;
+}
+
+/** Checks the visitor's message before the AI answers it. */
+export function detectMessageTrigger(message: string, rules: HandoffRules): HandoffTrigger | null {
+  if (!rules.enabled) return null;
+
+  if (rules.explicitRequest && EXPLICIT_REQUEST_PATTERNS.some((pattern) => pattern.test(message))) {
+    return { reason: "explicit_request", detail: message.slice(0, 200) };
+  }
+
+  const lower = message.toLowerCase();
+  const keyword = rules.keywords.find((k) => k.trim() && lower.includes(k.trim().toLowerCase()));
+  if (keyword) {
+    return { reason: "keyword", detail: keyword.trim() };
+  }
+
+  if (rules.negativeSentiment) {
+    const score = scoreSentiment(message);
+    if (score <= rules.sentimentThreshold) {
+      return { reason: "negative_sentiment", detail: `Sentiment ${score.toFixed(2)}` };
+    }
+  }
+
+  return null;
+}
+
+/** Checks the AI's replies (latest last) after it has answered. */
+export function detectReplyTrigger(assistantReplies: string[], rules: HandoffRules): HandoffTrigger | null {
+  if (!rules.enabled || rules.maxUnknownAnswers <= 0) return null;
+
+  const unknown = countTrailingUnknownAnswers(assistantReplies);
+  return unknown >= rules.maxUnknownAnswers
+    ? { reason: "unknown_answers", detail: `${unknown} unanswered questions in a row` }
+    : null;
+}
+
+/** Minutes left until `dueAt` (negative once the SLA is breached). */
+export function slaMinutesRemaining(dueAt: string | Date, now: Date = new Date()): number {
+  return Math.floor((new Date(dueAt).getTime() - now.getTime()) / 60000);
+}
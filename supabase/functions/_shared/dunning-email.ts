@@ -0,0 +1,48 @@
+/**
+ * Dunning email copy. Shared by the app (imported as `@shared/dunning-email`)
+ * and the invoice-dunning edge function, so it must not use Deno or
+ * browser-only APIs.
+ */
+
+export type DunningStepType = "overdue" | "reminder" | "suspended" | "restored";
+
+export interface DunningEmailInput {
+  step: DunningStepType;
+  companyName: string;
+  invoiceNumber: string;
+  outstanding: number;
+  dueDate: string;
+  daysOverdue: number;
+  payUrl?: string | null;
+}
+
+export function dunningEmail(input: DunningEmailInput): { subject: string; text: string } {
+  const amount = `₹${input.outstanding.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  const due = new Date(`${input.dueDate}T00:00:00Z`).toLocaleDateString("en-GB", {
+    day: "numeric", month: "short", year: "numeric", timeZone: "UTC",
+  });
+  const pay = input.payUrl ? `\n\nPay online: ${input.payUrl}` : "";
+
+  switch (input.step) {
+    case "overdue":
+      return {
+        subject: `Invoice ${input.invoiceNumber} is overdue`,
+        text: `Hi ${input.companyName},\n\nInvoice ${input.invoiceNumber} for ${amount} was due on ${due} and has not been paid yet.${pay}`,
+      };
+    case "reminder":
+      return {
+        subject: `Reminder: invoice ${input.invoiceNumber} is ${input.daysOverdue} days overdue`,
+        text: `Hi ${input.companyName},\n\nThis is a reminder that ${amount} is still outstanding on invoice ${input.invoiceNumber}, due ${due}.${pay}`,
+      };
+    case "suspended":
+      return {
+        subject: `Services suspended: invoice ${input.invoiceNumber} unpaid`,
+        text: `Hi ${input.companyName},\n\nYour services have been suspended because invoice ${input.invoiceNumber} (${amount}, due ${due}) is ${input.daysOverdue} days overdue. They are restored automatically as soon as it is paid.${pay}`,
+      };
+    case "restored":
+      return {
+        subject: `Services restored`,
+        text: `Hi ${input.companyName},\n\nThank you for settling invoice ${input.invoiceNumber}. Your services have been reactivated.`,
+      };
+  }
+}
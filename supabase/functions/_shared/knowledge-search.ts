@@ -0,0 +1,64 @@
+import type OpenAI from "npm:openai@4";
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import {
+  DEFAULT_MATCH_COUNT,
+  knowledgeMatchFromRow,
+  retrieveKnowledge,
+  type KnowledgeChunkRow,
+  type KnowledgeMatch,
+} from "./ai-knowledge.ts";
+
+/**
+ * OpenAI embeddings and the `match_knowledge_chunks` search, for the edge
+ * functions that index (ai-knowledge-ingest) and answer from (ai-chat,
+ * whatsapp-webhook) a chatbot's knowledge base.
+ */
+
+export const EMBEDDING_MODEL = "text-embedding-3-small";
+
+const EMBEDDING_BATCH_SIZE = 100;
+
+export async function embedTexts(openai: OpenAI, texts: string[]): Promise<number[][]> {
+  const embeddings: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    const response = await openai.embeddings.create({
+      model: EMBEDDING_MODEL,
+      input: texts.slice(i, i + EMBEDDING_BATCH_SIZE),
+    });
+    embeddings.push(...response.data.map((d) => d.embedding));
+  }
+  return embeddings;
+}
+
+/** The chatbot's best knowledge chunks for the question; none if the search fails. */
+export async function searchChatbotKnowledge(
+  openai: OpenAI,
+  supabaseAdmin: SupabaseClient,
+  chatbotId: string,
+  question: string,
+): Promise<KnowledgeMatch[]> {
+  const embed = async (text: string) => {
+    try {
+      const [embedding] = await embedTexts(openai, [text]);
+      return embedding;
+    } catch (err) {
+      // Keyword search still works without an embedding
+      console.error("Query embedding failed:", err);
+      return null;
+    }
+  };
+
+  return retrieveKnowledge(question, embed, async ({ text, embedding }, matchCount) => {
+    const { data, error } = await supabaseAdmin.rpc("match_knowledge_chunks", {
+      p_chatbot_id: chatbotId,
+      p_query_text: text,
+      p_query_embedding: embedding ? JSON.stringify(embedding) : null,
+      p_match_count: matchCount,
+    });
+    if (error) {
+      console.error("Knowledge search failed:", error);
+      return [];
+    }
+    return ((data ?? []) as KnowledgeChunkRow[]).map(knowledgeMatchFromRow);
+  }, DEFAULT_MATCH_COUNT);
+}
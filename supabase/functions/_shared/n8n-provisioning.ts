@@ -0,0 +1,125 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import type { Database, Tables } from "../../../src/integrations/supabase/types.ts";
+import {
+  createN8nClient,
+  parseWorkflowJson,
+  renderWorkflowTemplate,
+  type N8nClient,
+  type RenderedWorkflow,
+} from "./n8n.ts";
+
+export interface N8nConnection {
+  client: N8nClient;
+  baseUrl: string;
+}
+
+/** The parts of a client_workflow_instances row its workflow is rendered from */
+export type RenderableInstance = Pick<
+  Tables<"client_workflow_instances">,
+  "id" | "client_id" | "workflow_name" | "workflow_template_id" | "template_version" | "custom_config" | "n8n_workflow_id"
+>;
+
+/**
+ * n8n connection from platform_settings (set on the n8n controller page),
+ * falling back to the N8N_BASE_URL / N8N_API_KEY secrets. Null when neither
+ * is configured.
+ */
+export async function loadN8nClient(
+  supabaseAdmin: SupabaseClient<Database>
+): Promise<N8nConnection | null> {
+  const { data: settings } = await supabaseAdmin
+    .from("platform_settings")
+    .select("key, value")
+    .in("key", ["n8n_base_url", "n8n_api_key"]);
+
+  const setting = (key: string) =>
+    (settings ?? []).find((s) => s.key === key)?.value || null;
+
+  const baseUrl = setting("n8n_base_url") ?? Deno.env.get("N8N_BASE_URL");
+  const apiKey = setting("n8n_api_key") ?? Deno.env.get("N8N_API_KEY");
+  if (!baseUrl || !apiKey) return null;
+
+  return { client: createN8nClient({ baseUrl, apiKey }), baseUrl };
+}
+
+/**
+ * The client's copy of its workflow template at `version` (by default the
+ * version it runs), rendered with that version's defaults merged with the
+ * instance's custom_config, its webhook secret and the n8n credentials
+ * configured so far.
+ */
+export async function renderInstanceWorkflow(
+  supabaseAdmin: SupabaseClient<Database>,
+  n8n: N8nClient,
+  instance: RenderableInstance,
+  version: string | null = instance.template_version ?? null
+): Promise<RenderedWorkflow> {
+  const templateId = instance.workflow_template_id;
+  const { data: current } = templateId
+    ? await supabaseAdmin
+        .from("workflow_templates")
+        .select("version, workflow_json, n8n_template_workflow_id, default_config, master_prompt")
+        .eq("id", templateId)
+        .maybeSingle()
+    : { data: null };
+
+  if (!templateId || !current) {
+    throw new Error("The workflow has no template to provision from");
+  }
+
+  let template = current;
+  if (version && version !== current.version) {
+    const { data: snapshot } = await supabaseAdmin
+      .from("workflow_template_versions")
+      .select("version, workflow_json, n8n_template_workflow_id, default_config, master_prompt")
+      .eq("template_id", templateId)
+      .eq("version", version)
+      .maybeSingle();
+    if (!snapshot) {
+      throw new Error(`Template version ${version} not found`);
+    }
+    template = snapshot;
+  }
+
+  let definition;
+  if (template.workflow_json) {
+    definition = parseWorkflowJson(JSON.stringify(template.workflow_json));
+  } else if (template.n8n_template_workflow_id) {
+    definition = await n8n.getWorkflow(template.n8n_template_workflow_id);
+  } else {
+    throw new Error("The template has neither workflow JSON nor an n8n template workflow");
+  }
+
+  const { data: secret } = await supabaseAdmin
+    .from("workflow_webhook_secrets")
+    .select("secret")
+    .eq("workflow_instance_id", instance.id)
+    .maybeSingle();
+
+  const { data: credentials } = await supabaseAdmin
+    .from("client_workflow_credentials")
+    .select("credential_name, credential_type, n8n_credential_id")
+    .eq("client_workflow_instance_id", instance.id)
+    .eq("credential_status", "configured")
+    .not("n8n_credential_id", "is", null);
+
+  return renderWorkflowTemplate(definition, {
+    clientId: instance.client_id,
+    workflowInstanceId: instance.id,
+    workflowName: instance.workflow_name,
+    config: {
+      ...((template.default_config ?? {}) as Record<string, unknown>),
+      ...((instance.custom_config ?? {}) as Record<string, unknown>),
+    },
+    masterPrompt: template.master_prompt,
+    callbackUrl: `${Deno.env.get("SUPABASE_URL")}/functions/v1/handle-call-status`,
+    executionCallbackUrl: `${Deno.env.get("SUPABASE_URL")}/functions/v1/workflow-execution-callback`,
+    callbackSecret: secret?.secret ?? null,
+    n8nWorkflowId: instance.n8n_workflow_id ?? null,
+    credentials: (credentials ?? []).map((c) => ({
+      type: c.credential_type,
+      id: c.n8n_credential_id!,
+      name: c.credential_name,
+    })),
+  });
+}
@@ -0,0 +1,251 @@
+/**
+ * n8n Integration Module
+ * Provisions client workflows through the n8n public REST API (v1). Shared
+ * by the app (imported as `@shared/n8n`) and the edge functions, so it must
+ * not use Deno or browser-only APIs. Tests stand in for n8n with
+ * `createFakeN8nApi()` from src/test/fake-n8n-api.ts.
+ */
+
+export interface N8nNode {
+  id?: string;
+  name: string;
+  type: string;
+  parameters?: Record<string, unknown>;
+  credentials?: Record<string, { id: string; name: string }>;
+  webhookId?: string;
+  [key: string]: unknown;
+}
+
+export interface N8nWorkflowDefinition {
+  name: string;
+  nodes: N8nNode[];
+  connections: Record<string, unknown>;
+  settings: Record<string, unknown>;
+}
+
+export interface N8nWorkflow extends N8nWorkflowDefinition {
+  id: string;
+  active: boolean;
+}
+
+export interface N8nConfig {
+  baseUrl: string;
+  apiKey: string;
+  /** Defaults to the global fetch; tests pass the fake API's */
+  fetch?: typeof fetch;
+}
+
+export interface N8nCredentialRef {
+  /** n8n credential type, e.g. "openAiApi" */
+  type: string;
+  id: string;
+  name: string;
+}
+
+export interface WorkflowTemplateContext {
+  clientId: string;
+  workflowInstanceId: string;
+  workflowName: string;
+  /** Template defaults merged with the client's custom_config */
+  config: Record<string, unknown>;
+  masterPrompt?: string | null;
+  callbackUrl?: string;
+  /** Where the workflow reports execution start, finish and error */
+  executionCallbackUrl?: string;
+  callbackSecret?: string | null;
+  credentials?: N8nCredentialRef[];
+  /** The instance's own n8n workflow, once created; its Error Trigger reports failed runs */
+  n8nWorkflowId?: string | null;
+}
+
+export interface RenderedWorkflow {
+  workflow: N8nWorkflowDefinition;
+  /** Placeholders the client has not supplied values for yet */
+  missing: string[];
+}
+
+export class N8nApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'N8nApiError';
+  }
+}
+
+export const WEBHOOK_NODE_TYPE = 'n8n-nodes-base.webhook';
+export const ERROR_TRIGGER_NODE_TYPE = 'n8n-nodes-base.errorTrigger';
+
+/** {{pixora.client_id}}, {{pixora.config.greeting}}, ... */
+const PLACEHOLDER_PATTERN = /\{\{\s*pixora\.([a-zA-Z0-9_.]+)\s*\}\}/g;
+
+export function normalizeN8nBaseUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '').replace(/\/api\/v1$/, '');
+}
+
+export function createN8nClient(config: N8nConfig) {
+  const baseUrl = normalizeN8nBaseUrl(config.baseUrl);
+  const doFetch = config.fetch ?? fetch;
+
+  async function request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const res = await doFetch(`${baseUrl}/api/v1${path}`, {
+      method,
+      headers: { 'X-N8N-API-KEY': config.apiKey, 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const text = await res.text();
+    const data = text ? JSON.parse(text) : null;
+    if (!res.ok) {
+      throw new N8nApiError(res.status, data?.message || `n8n request failed with status ${res.status}`);
+    }
+    return data as T;
+  }
+
+  return {
+    getWorkflow: (id: string) => request<N8nWorkflow>('GET', `/workflows/${encodeURIComponent(id)}`),
+    createWorkflow: (workflow: N8nWorkflowDefinition) => request<N8nWorkflow>('POST', '/workflows', workflow),
+    updateWorkflow: (id: string, workflow: N8nWorkflowDefinition) =>
+      request<N8nWorkflow>('PUT', `/workflows/${encodeURIComponent(id)}`, workflow),
+    activateWorkflow: (id: string) => request<N8nWorkflow>('POST', `/workflows/${encodeURIComponent(id)}/activate`),
+    deactivateWorkflow: (id: string) => request<N8nWorkflow>('POST', `/workflows/${encodeURIComponent(id)}/deactivate`),
+    /** Resolves to false when the workflow was already gone */
+    async deleteWorkflow(id: string): Promise<boolean> {
+      try {
+        await request('DELETE', `/workflows/${encodeURIComponent(id)}`);
+        return true;
+      } catch (err) {
+        if (err instanceof N8nApiError && err.status === 404) return false;
+        throw err;
+      }
+    },
+  };
+}
+
+export type N8nClient = ReturnType<typeof createN8nClient>;
+
+/** Checks that pasted JSON is an exported n8n workflow. */
+export function parseWorkflowJson(text: string): N8nWorkflowDefinition {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Workflow JSON is not valid JSON');
+  }
+  const wf = data as Partial<N8nWorkflowDefinition> | null;
+  if (!wf || !Array.isArray(wf.nodes) || wf.nodes.length === 0) {
+    throw new Error('Workflow JSON must have a nodes array');
+  }
+  if (wf.nodes.some((n) => typeof n?.name !== 'string' || typeof n?.type !== 'string')) {
+    throw new Error('Every node needs a name and a type');
+  }
+  return {
+    name: typeof wf.name === 'string' ? wf.name : '',
+    nodes: wf.nodes,
+    connections: wf.connections && typeof wf.connections === 'object' ? wf.connections : {},
+    settings: wf.settings && typeof wf.settings === 'object' ? wf.settings : {},
+  };
+}
+
+function lookup(key: string, ctx: WorkflowTemplateContext): string | undefined {
+  if (key.startsWith('config.')) {
+    const value = key.slice('config.'.length).split('.')
+      .reduce<unknown>((acc, part) => (acc && typeof acc === 'object' ? (acc as Record<string, unknown>)[part] : undefined), ctx.config);
+    if (value === undefined || value === null || value === '') return undefined;
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+  const values: Record<string, string | null | undefined> = {
+    client_id: ctx.clientId,
+    workflow_instance_id: ctx.workflowInstanceId,
+    workflow_name: ctx.workflowName,
+    master_prompt: ctx.masterPrompt,
+    callback_url: ctx.callbackUrl,
+    execution_callback_url: ctx.executionCallbackUrl,
+    callback_secret: ctx.callbackSecret,
+  };
+  return values[key] ?? undefined;
+}
+
+function substitute(value: unknown, ctx: WorkflowTemplateContext, missing: Set<string>): unknown {
+  if (typeof value === 'string') {
+    return value.replace(PLACEHOLDER_PATTERN, (_, key: string) => {
+      const resolved = lookup(key, ctx);
+      if (resolved === undefined) {
+        missing.add(key);
+        return '';
+      }
+      return resolved;
+    });
+  }
+  if (Array.isArray(value)) return value.map((v) => substitute(v, ctx, missing));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, substitute(v, ctx, missing)]));
+  }
+  return value;
+}
+
+/** Webhook path for the n-th webhook node of an instance; unique across clients. */
+export function instanceWebhookPath(workflowInstanceId: string, index = 0): string {
+  return index === 0 ? workflowInstanceId : `${workflowInstanceId}-${index + 1}`;
+}
+
+/**
+ * Builds a client's copy of a template: fills {{pixora.*}} placeholders,
+ * gives every webhook node a path of its own, and points credential slots
+ * at the client's own n8n credentials where it has them (the template's
+ * shared credential stays otherwise). A template with an Error Trigger
+ * becomes its own error workflow once the instance has an n8n id, so failed
+ * runs are reported too. Placeholders without a value are
+ * reported in `missing` rather than failing, so a workflow can be created
+ * before the client's credentials are configured.
+ */
+export function renderWorkflowTemplate(template: N8nWorkflowDefinition, ctx: WorkflowTemplateContext): RenderedWorkflow {
+  const missing = new Set<string>();
+  const credentials = new Map((ctx.credentials ?? []).map((c) => [c.type, c]));
+  let webhookIndex = 0;
+
+  const nodes = template.nodes.map((node) => {
+    const rendered = substitute(node, ctx, missing) as N8nNode;
+
+    if (rendered.type === WEBHOOK_NODE_TYPE) {
+      const path = instanceWebhookPath(ctx.workflowInstanceId, webhookIndex++);
+      rendered.parameters = { ...(rendered.parameters ?? {}), path };
+      rendered.webhookId = path;
+    }
+
+    if (rendered.credentials) {
+      rendered.credentials = Object.fromEntries(
+        Object.entries(rendered.credentials).map(([type, ref]) => {
+          const own = credentials.get(type);
+          return [type, own ? { id: own.id, name: own.name } : ref];
+        }),
+      );
+    }
+
+    // n8n assigns node ids on create
+    delete rendered.id;
+    return rendered;
+  });
+
+  return {
+    workflow: {
+      name: ctx.workflowName,
+      nodes,
+      connections: substitute(template.connections, ctx, missing) as Record<string, unknown>,
+      settings: {
+        executionOrder: 'v1',
+        ...(template.settings ?? {}),
+        ...(ctx.n8nWorkflowId && nodes.some((n) => n.type === ERROR_TRIGGER_NODE_TYPE)
+          ? { errorWorkflow: ctx.n8nWorkflowId }
+          : {}),
+      },
+    },
+    missing: [...missing].sort(),
+  };
+}
+
+/** Production and test URLs of a workflow's first webhook node. */
+export function workflowWebhookUrls(baseUrl: string, workflow: Pick<N8nWorkflowDefinition, 'nodes'>) {
+  const node = workflow.nodes.find((n) => n.type === WEBHOOK_NODE_TYPE);
+  const path = node?.parameters?.path;
+  if (typeof path !== 'string' || !path) return { webhookUrl: null, testWebhookUrl: null };
+  const root = normalizeN8nBaseUrl(baseUrl);
+  return { webhookUrl: `${root}/webhook/${path}`, testWebhookUrl: `${root}/webhook-test/${path}` };
+}
@@ -0,0 +1,328 @@
+/**
+ * Payment Provider Integration Module
+ * Hosted checkout and webhook parsing for Stripe, Razorpay and a local fake
+ * used in tests and development. Shared by the app (imported as
+ * `@shared/payment-providers`) and the edge functions, so it must not use
+ * Deno or browser-only APIs.
+ */
+
+export type PaymentProviderName = 'stripe' | 'razorpay' | 'fake';
+
+export interface PaymentProviderConfig {
+  provider: PaymentProviderName;
+  /** Stripe secret key, or Razorpay key id */
+  apiKey?: string;
+  /** Razorpay key secret */
+  apiSecret?: string;
+  webhookSecret: string;
+  /** Fake provider only: where its checkout pages live */
+  checkoutBaseUrl?: string;
+}
+
+export interface CheckoutRequest {
+  invoiceId: string;
+  invoiceNumber: string;
+  /** In major units (rupees) */
+  amount: number;
+  currency: string;
+  description: string;
+  customerEmail?: string;
+  customerName?: string;
+  /** Where the payer lands after paying */
+  returnUrl: string;
+  /** Razorpay only: let the payer pay part of the amount */
+  allowPartial?: boolean;
+}
+
+export interface CheckoutSession {
+  provider: PaymentProviderName;
+  reference: string;
+  url: string;
+  /** When the link stops accepting payments; null if it does not expire */
+  expiresAt: string | null;
+}
+
+export interface PaymentEvent {
+  provider: PaymentProviderName;
+  kind: 'payment' | 'refund';
+  /** The provider's id for this payment or refund; recording it is idempotent */
+  transactionId: string;
+  /** The payment a refund belongs to, or the payment itself */
+  paymentId: string;
+  /** null when only the original payment identifies the invoice (refunds) */
+  invoiceId: string | null;
+  /** In major units (rupees) */
+  amount: number;
+  currency: string;
+}
+
+type FetchLike = typeof fetch;
+
+// Signed Stripe deliveries older than this are treated as replays
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+function toHex(buffer: ArrayBuffer): string {
+  return [...new Uint8Array(buffer)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function hmacSha256Hex(secret: string, payload: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  return toHex(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload)));
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+const toMinorUnits = (amount: number) => Math.round(amount * 100);
+const fromMinorUnits = (amount: number) => Math.round(amount) / 100;
+
+// ─── Abstract Base ───────────────────────────────────────────────
+
+export abstract class PaymentProvider {
+  protected config: PaymentProviderConfig;
+  protected fetchImpl: FetchLike;
+
+  constructor(config: PaymentProviderConfig, fetchImpl: FetchLike = (input, init) => fetch(input, init)) {
+    this.config = config;
+    this.fetchImpl = fetchImpl;
+  }
+
+  get name(): PaymentProviderName {
+    return this.config.provider;
+  }
+
+  abstract createCheckout(request: CheckoutRequest): Promise<CheckoutSession>;
+  abstract verifyWebhook(rawBody: string, headers: Headers, now?: Date): Promise<boolean>;
+  /** Returns null for events that do not move money on an invoice */
+  abstract parseWebhook(rawBody: string): PaymentEvent | null;
+}
+
+// ─── Stripe ──────────────────────────────────────────────────────
+
+export class StripePaymentProvider extends PaymentProvider {
+  async createCheckout(request: CheckoutRequest): Promise<CheckoutSession> {
+    const form = new URLSearchParams({
+      mode: 'payment',
+      success_url: request.returnUrl,
+      cancel_url: request.returnUrl,
+      client_reference_id: request.invoiceId,
+      'metadata[invoice_id]': request.invoiceId,
+      'payment_intent_data[metadata][invoice_id]': request.invoiceId,
+      'line_items[0][quantity]': '1',
+      'line_items[0][price_data][currency]': request.currency.toLowerCase(),
+      'line_items[0][price_data][unit_amount]': String(toMinorUnits(request.amount)),
+      'line_items[0][price_data][product_data][name]': `Invoice ${request.invoiceNumber}`,
+      'line_items[0][price_data][product_data][description]': request.description,
+    });
+    if (request.customerEmail) form.set('customer_email', request.customerEmail);
+
+    const res = await this.fetchImpl('https://api.stripe.com/v1/checkout/sessions', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.config.apiKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: form.toString(),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(`Stripe checkout failed: ${data?.error?.message ?? res.status}`);
+    return {
+      provider: 'stripe',
+      reference: data.id,
+      url: data.url,
+      expiresAt: data.expires_at ? new Date(data.expires_at * 1000).toISOString() : null,
+    };
+  }
+
+  // https://docs.stripe.com/webhooks#verify-manually
+  async verifyWebhook(rawBody: string, headers: Headers, now: Date = new Date()): Promise<boolean> {
+    const header = headers.get('stripe-signature');
+    if (!header || !this.config.webhookSecret) return false;
+
+    const parts = header.split(',').map((p) => p.split('='));
+    const timestamp = parts.find(([k]) => k === 't')?.[1];
+    const signatures = parts.filter(([k]) => k === 'v1').map(([, v]) => v);
+    if (!timestamp || signatures.length === 0) return false;
+    if (Math.abs(now.getTime() / 1000 - Number(timestamp)) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+    const expected = await hmacSha256Hex(this.config.webhookSecret, `${timestamp}.${rawBody}`);
+    return signatures.some((sig) => timingSafeEqual(sig, expected));
+  }
+
+  parseWebhook(rawBody: string): PaymentEvent | null {
+    const event = JSON.parse(rawBody);
+    const obj = event?.data?.object ?? {};
+
+    if (
+      (event.type === 'checkout.session.completed' || event.type === 'checkout.session.async_payment_succeeded') &&
+      obj.payment_status === 'paid'
+    ) {
+      const paymentId = String(obj.payment_intent ?? obj.id);
+      return {
+        provider: 'stripe',
+        kind: 'payment',
+        transactionId: paymentId,
+        paymentId,
+        invoiceId: obj.metadata?.invoice_id ?? obj.client_reference_id ?? null,
+        amount: fromMinorUnits(obj.amount_total ?? 0),
+        currency: String(obj.currency ?? '').toUpperCase(),
+      };
+    }
+
+    if (event.type === 'refund.created' || event.type === 'refund.updated') {
+      if (obj.status !== 'succeeded') return null;
+      return {
+        provider: 'stripe',
+        kind: 'refund',
+        transactionId: String(obj.id),
+        paymentId: String(obj.payment_intent ?? obj.charge),
+        invoiceId: obj.metadata?.invoice_id ?? null,
+        amount: fromMinorUnits(obj.amount ?? 0),
+        currency: String(obj.currency ?? '').toUpperCase(),
+      };
+    }
+
+    return null;
+  }
+}
+
+// ─── Razorpay ────────────────────────────────────────────────────
+
+export class RazorpayPaymentProvider extends PaymentProvider {
+  async createCheckout(request: CheckoutRequest): Promise<CheckoutSession> {
+    const res = await this.fetchImpl('https://api.razorpay.com/v1/payment_links', {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${btoa(`${this.config.apiKey}:${this.config.apiSecret}`)}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        amount: toMinorUnits(request.amount),
+        currency: request.currency.toUpperCase(),
+        accept_partial: request.allowPartial ?? false,
+        description: request.description,
+        customer: { name: request.customerName, email: request.customerEmail },
+        notify: { email: Boolean(request.customerEmail) },
+        notes: { invoice_id: request.invoiceId, invoice_number: request.invoiceNumber },
+        callback_url: request.returnUrl,
+        callback_method: 'get',
+      }),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(`Razorpay payment link failed: ${data?.error?.description ?? res.status}`);
+    return {
+      provider: 'razorpay',
+      reference: data.id,
+      url: data.short_url,
+      expiresAt: data.expire_by ? new Date(data.expire_by * 1000).toISOString() : null,
+    };
+  }
+
+  // https://razorpay.com/docs/webhooks/validate-test/
+  async verifyWebhook(rawBody: string, headers: Headers): Promise<boolean> {
+    const signature = headers.get('x-razorpay-signature');
+    if (!signature || !this.config.webhookSecret) return false;
+    return timingSafeEqual(signature, await hmacSha256Hex(this.config.webhookSecret, rawBody));
+  }
+
+  parseWebhook(rawBody: string): PaymentEvent | null {
+    const event = JSON.parse(rawBody);
+    const payload = event?.payload ?? {};
+
+    if (event.event === 'payment_link.paid' || event.event === 'payment_link.partially_paid') {
+      const payment = payload.payment?.entity ?? {};
+      const link = payload.payment_link?.entity ?? {};
+      return {
+        provider: 'razorpay',
+        kind: 'payment',
+        transactionId: String(payment.id),
+        paymentId: String(payment.id),
+        invoiceId: link.notes?.invoice_id ?? payment.notes?.invoice_id ?? null,
+        amount: fromMinorUnits(payment.amount ?? 0),
+        currency: String(payment.currency ?? link.currency ?? '').toUpperCase(),
+      };
+    }
+
+    if (event.event === 'refund.processed') {
+      const refund = payload.refund?.entity ?? {};
+      return {
+        provider: 'razorpay',
+        kind: 'refund',
+        transactionId: String(refund.id),
+        paymentId: String(refund.payment_id),
+        invoiceId: refund.notes?.invoice_id ?? null,
+        amount: fromMinorUnits(refund.amount ?? 0),
+        currency: String(refund.currency ?? '').toUpperCase(),
+      };
+    }
+
+    return null;
+  }
+}
+
+// ─── Fake ────────────────────────────────────────────────────────
+
+/**
+ * Local stand-in: checkout links point at `checkoutBaseUrl` and webhooks are
+ * plain JSON ({ type, id, invoice_id, payment_id, amount, currency }) signed
+ * with `signFakeWebhook` in the `x-fake-signature` header.
+ */
+export class FakePaymentProvider extends PaymentProvider {
+  async createCheckout(request: CheckoutRequest): Promise<CheckoutSession> {
+    const reference = `fake_${request.invoiceId}`;
+    const base = this.config.checkoutBaseUrl ?? 'http://localhost:8080/fake-checkout';
+    const params = new URLSearchParams({ amount: String(request.amount), currency: request.currency });
+    return { provider: 'fake', reference, url: `${base}/${request.invoiceId}?${params}`, expiresAt: null };
+  }
+
+  async verifyWebhook(rawBody: string, headers: Headers): Promise<boolean> {
+    const signature = headers.get('x-fake-signature');
+    if (!signature || !this.config.webhookSecret) return false;
+    return timingSafeEqual(signature, await signFakeWebhook(this.config.webhookSecret, rawBody));
+  }
+
+  parseWebhook(rawBody: string): PaymentEvent | null {
+    const event = JSON.parse(rawBody);
+    if (event.type !== 'payment' && event.type !== 'refund') return null;
+    return {
+      provider: 'fake',
+      kind: event.type,
+      transactionId: String(event.id),
+      paymentId: String(event.payment_id ?? event.id),
+      invoiceId: event.invoice_id ?? null,
+      amount: Number(event.amount),
+      currency: String(event.currency ?? 'INR').toUpperCase(),
+    };
+  }
+}
+
+export function signFakeWebhook(secret: string, rawBody: string): Promise<string> {
+  return hmacSha256Hex(secret, rawBody);
+}
+
+// ─── Factory ─────────────────────────────────────────────────────
+
+export function createPaymentProvider(config: PaymentProviderConfig, fetchImpl?: FetchLike): PaymentProvider {
+  switch (config.provider) {
+    case 'stripe':
+      return new StripePaymentProvider(config, fetchImpl);
+    case 'razorpay':
+      return new RazorpayPaymentProvider(config, fetchImpl);
+    case 'fake':
+      return new FakePaymentProvider(config, fetchImpl);
+    default:
+      throw new Error(`Unsupported payment provider: ${(config as PaymentProviderConfig).provider}`);
+  }
+}
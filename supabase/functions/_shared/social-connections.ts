@@ -0,0 +1,98 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import type { Database } from "../../../src/integrations/supabase/types.ts";
+import {
+  importTokenKey,
+  openToken,
+  sealToken,
+  type OAuthApp,
+  type OAuthPlatform,
+  type OAuthTokens,
+} from "./social-oauth.ts";
+import type { SocialMediaConfig } from "./social-media.ts";
+
+// Secrets holding each platform app's credentials; Facebook and Instagram share the Meta app
+const APP_SECRETS: Record<OAuthPlatform, [string, string]> = {
+  facebook: ["META_APP_ID", "META_APP_SECRET"],
+  instagram: ["META_APP_ID", "META_APP_SECRET"],
+  linkedin: ["LINKEDIN_CLIENT_ID", "LINKEDIN_CLIENT_SECRET"],
+  twitter: ["TWITTER_CLIENT_ID", "TWITTER_CLIENT_SECRET"],
+};
+
+/** The platform app registered for Pixora, or null when it is not configured */
+export function oauthAppFor(platform: OAuthPlatform): OAuthApp | null {
+  const [idName, secretName] = APP_SECRETS[platform];
+  const clientId = Deno.env.get(idName);
+  const clientSecret = Deno.env.get(secretName);
+  return clientId && clientSecret ? { clientId, clientSecret } : null;
+}
+
+/** Registered as the redirect URI with every platform app */
+export function oauthRedirectUri(): string {
+  return `${Deno.env.get("SUPABASE_URL")}/functions/v1/social-oauth-callback`;
+}
+
+let keyPromise: Promise<CryptoKey> | null = null;
+
+/** The key tokens are sealed with, from the SOCIAL_TOKEN_ENCRYPTION_KEY secret */
+export function tokenKey(): Promise<CryptoKey> {
+  if (!keyPromise) {
+    const secret = Deno.env.get("SOCIAL_TOKEN_ENCRYPTION_KEY");
+    if (!secret) throw new Error("SOCIAL_TOKEN_ENCRYPTION_KEY is not set");
+    keyPromise = importTokenKey(secret);
+  }
+  return keyPromise;
+}
+
+/** Seals and stores a connection's tokens, replacing the previous ones. */
+export async function storeConnectionTokens(supabaseAdmin: SupabaseClient<Database>, connectionId: string, tokens: OAuthTokens) {
+  const key = await tokenKey();
+  const { error } = await supabaseAdmin.from("social_connection_tokens").upsert({
+    connection_id: connectionId,
+    access_token_sealed: await sealToken(tokens.accessToken, key),
+    refresh_token_sealed: tokens.refreshToken ? await sealToken(tokens.refreshToken, key) : null,
+    refresh_token_expires_at: tokens.refreshExpiresAt,
+    updated_at: new Date().toISOString(),
+  });
+  if (error) throw error;
+}
+
+export interface BrandConnection {
+  connectionId: string;
+  config: SocialMediaConfig;
+}
+
+/**
+ * A brand's usable connections with their tokens opened, keyed by platform.
+ * Connections flagged for reconnecting are still tried while their token has
+ * not expired; revoked ones are left out.
+ */
+export async function loadBrandConnections(
+  supabaseAdmin: SupabaseClient<Database>,
+  brandId: string
+): Promise<Map<string, BrandConnection>> {
+  const { data, error } = await supabaseAdmin
+    .from("social_platform_connections")
+    .select("id, platform, account_id, status, token_expires_at, social_connection_tokens(access_token_sealed)")
+    .eq("brand_id", brandId)
+    .neq("status", "revoked");
+  if (error) throw error;
+
+  const key = await tokenKey();
+  const connections = new Map<string, BrandConnection>();
+  for (const row of data ?? []) {
+    const sealed = row.social_connection_tokens?.access_token_sealed;
+    if (!sealed) continue;
+    if (row.token_expires_at && Date.parse(row.token_expires_at) <= Date.now()) continue;
+    connections.set(row.platform, {
+      connectionId: row.id,
+      config: {
+        // Connections are never made for 'all' (see the table's CHECK)
+        platform: row.platform as SocialMediaConfig["platform"],
+        accessToken: await openToken(sealed, key),
+        accountId: row.account_id,
+        expiresAt: row.token_expires_at ? new Date(row.token_expires_at) : undefined,
+      },
+    });
+  }
+  return connections;
+}
@@ -0,0 +1,583 @@
+/**
+ * Social Media Integration Module
+ * Publishing clients for Facebook, Instagram, LinkedIn and Twitter / X, and
+ * the per-platform bookkeeping the scheduled publisher keeps on each post.
+ * Shared by the app (imported as `@shared/social-media`) and the
+ * publish-social-posts edge function, so it must not use Deno or
+ * browser-only APIs.
+ */
+
+export interface SocialMediaConfig {
+  platform: 'facebook' | 'instagram' | 'linkedin' | 'twitter';
+  accessToken: string;
+  accountId: string;
+  refreshToken?: string;
+  expiresAt?: Date;
+}
+
+export interface SocialMediaPost {
+  content: string;
+  mediaUrls?: string[];
+  hashtags?: string[];
+  mentions?: string[];
+  linkPreview?: boolean;
+  firstComment?: string;
+}
+
+export interface PostResult {
+  platform: string;
+  postId: string;
+  postUrl: string;
+  publishedAt: Date;
+}
+
+export interface EngagementStats {
+  likes: number;
+  comments: number;
+  shares: number;
+  impressions?: number;
+}
+
+type FetchLike = typeof fetch;
+
+/** A platform API answered with an error status */
+export class SocialMediaApiError extends Error {
+  constructor(public platform: string, public status: number, message: string) {
+    super(message);
+    this.name = 'SocialMediaApiError';
+  }
+
+  /** Rate limits and platform outages are worth retrying; anything else is not */
+  get transient(): boolean {
+    return this.status === 429 || this.status >= 500;
+  }
+}
+
+async function apiError(platform: string, label: string, res: Response): Promise<SocialMediaApiError> {
+  const body = await res.text().catch(() => '');
+  return new SocialMediaApiError(platform, res.status, `${label} (${res.status}): ${body || res.statusText}`);
+}
+
+// ─── Base Class ───────────────────────────────────────────────
+
+export abstract class SocialMediaClient {
+  protected config: SocialMediaConfig;
+  protected fetchImpl: FetchLike;
+
+  constructor(config: SocialMediaConfig, fetchImpl: FetchLike = (input, init) => fetch(input, init)) {
+    this.config = config;
+    this.fetchImpl = fetchImpl;
+  }
+
+  abstract post(post: SocialMediaPost): Promise<PostResult>;
+  /** The post as the platform's API returns it */
+  abstract getPost(postId: string): Promise<Record<string, unknown>>;
+  abstract getEngagement(postId: string): Promise<EngagementStats>;
+  abstract deletePost(postId: string): Promise<boolean>;
+}
+
+// ─── Facebook ─────────────────────────────────────────────────
+
+interface FacebookFeedPayload {
+  message: string;
+  access_token: string;
+  url?: string;
+  file_url?: string;
+  attached_media?: { media_fbid: string }[];
+}
+
+export class FacebookClient extends SocialMediaClient {
+  private baseUrl = 'https://graph.facebook.com/v18.0';
+
+  async post(post: SocialMediaPost): Promise<PostResult> {
+    const payload: FacebookFeedPayload = {
+      message: post.content,
+      access_token: this.config.accessToken,
+    };
+
+    if (post.mediaUrls?.length) {
+      if (post.mediaUrls.length === 1) {
+        const type = this.mediaType(post.mediaUrls[0]);
+        if (type === 'image') payload.url = post.mediaUrls[0];
+        else if (type === 'video') payload.file_url = post.mediaUrls[0];
+      } else {
+        payload.attached_media = await this.uploadMultipleImages(post.mediaUrls);
+      }
+    }
+
+    const res = await this.fetchImpl(`${this.baseUrl}/${this.config.accountId}/feed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    });
+
+    if (!res.ok) throw await apiError('facebook', 'Facebook API error', res);
+    const data = await res.json();
+
+    return { platform: 'facebook', postId: data.id, postUrl: `https://facebook.com/${data.id}`, publishedAt: new Date() };
+  }
+
+  async getPost(postId: string) {
+    const res = await this.fetchImpl(
+      `${this.baseUrl}/${postId}?fields=message,created_time,permalink_url&access_token=${this.config.accessToken}`
+    );
+    return res.json();
+  }
+
+  async getEngagement(postId: string): Promise<EngagementStats> {
+    const res = await this.fetchImpl(
+      `${this.baseUrl}/${postId}?fields=likes.summary(true),comments.summary(true),shares&access_token=${this.config.accessToken}`
+    );
+    const data = await res.json();
+    return {
+      likes: data.likes?.summary?.total_count || 0,
+      comments: data.comments?.summary?.total_count || 0,
+      shares: data.shares?.count || 0,
+    };
+  }
+
+  async deletePost(postId: string): Promise<boolean> {
+    const res = await this.fetchImpl(`${this.baseUrl}/${postId}?access_token=${this.config.accessToken}`, { method: 'DELETE' });
+    return res.ok;
+  }
+
+  private mediaType(url: string): 'image' | 'video' | 'unknown' {
+    if (/\.(jpg|jpeg|png|gif)$/i.test(url)) return 'image';
+    if (/\.(mp4|mov|avi)$/i.test(url)) return 'video';
+    return 'unknown';
+  }
+
+  private async uploadMultipleImages(urls: string[]): Promise<{ media_fbid: string }[]> {
+    return Promise.all(
+      urls.map(async (url) => {
+        const res = await this.fetchImpl(`${this.baseUrl}/${this.config.accountId}/photos`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ url, published: false, access_token: this.config.accessToken }),
+        });
+        const data = await res.json();
+        return { media_fbid: data.id };
+      })
+    );
+  }
+}
+
+// ─── Instagram ────────────────────────────────────────────────
+
+interface InstagramContainerPayload {
+  caption: string;
+  access_token: string;
+  media_type?: 'VIDEO' | 'CAROUSEL';
+  image_url?: string;
+  video_url?: string;
+  children?: string[];
+}
+
+export class InstagramClient extends SocialMediaClient {
+  private baseUrl = 'https://graph.facebook.com/v18.0';
+
+  async post(post: SocialMediaPost): Promise<PostResult> {
+    if (!post.mediaUrls?.length) throw new Error('Instagram posts require media');
+
+    const caption = post.content + (post.hashtags?.length ? '\n\n' + post.hashtags.join(' ') : '');
+
+    // Step 1 – container
+    const containerPayload: InstagramContainerPayload = { caption, access_token: this.config.accessToken };
+
+    if (post.mediaUrls.length === 1) {
+      const isVideo = /\.(mp4|mov)$/i.test(post.mediaUrls[0]);
+      if (isVideo) {
+        containerPayload.media_type = 'VIDEO';
+        containerPayload.video_url = post.mediaUrls[0];
+      } else {
+        containerPayload.image_url = post.mediaUrls[0];
+      }
+    } else {
+      containerPayload.media_type = 'CAROUSEL';
+      containerPayload.children = await this.createCarouselChildren(post.mediaUrls);
+    }
+
+    const cRes = await this.fetchImpl(`${this.baseUrl}/${this.config.accountId}/media`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(containerPayload),
+    });
+    if (!cRes.ok) throw await apiError('instagram', 'Instagram container error', cRes);
+    const containerId = (await cRes.json()).id;
+
+    // Step 2 – publish
+    const pRes = await this.fetchImpl(`${this.baseUrl}/${this.config.accountId}/media_publish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ creation_id: containerId, access_token: this.config.accessToken }),
+    });
+    if (!pRes.ok) throw await apiError('instagram', 'Instagram publish error', pRes);
+    const publishData = await pRes.json();
+
+    // Step 3 – first comment
+    if (post.firstComment) {
+      await this.fetchImpl(`${this.baseUrl}/${publishData.id}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message: post.firstComment, access_token: this.config.accessToken }),
+      });
+    }
+
+    return { platform: 'instagram', postId: publishData.id, postUrl: `https://instagram.com/p/${publishData.id}`, publishedAt: new Date() };
+  }
+
+  async getPost(postId: string) {
+    const res = await this.fetchImpl(
+      `${this.baseUrl}/${postId}?fields=caption,media_type,media_url,permalink,timestamp&access_token=${this.config.accessToken}`
+    );
+    return res.json();
+  }
+
+  async getEngagement(postId: string): Promise<EngagementStats> {
+    const res = await this.fetchImpl(
+      `${this.baseUrl}/${postId}?fields=like_count,comments_count&access_token=${this.config.accessToken}`
+    );
+    const data = await res.json();
+    return { likes: data.like_count || 0, comments: data.comments_count || 0, shares: 0 };
+  }
+
+  async deletePost(postId: string): Promise<boolean> {
+    const res = await this.fetchImpl(`${this.baseUrl}/${postId}?access_token=${this.config.accessToken}`, { method: 'DELETE' });
+    return res.ok;
+  }
+
+  private async createCarouselChildren(urls: string[]): Promise<string[]> {
+    return Promise.all(
+      urls.map(async (url) => {
+        const res = await this.fetchImpl(`${this.baseUrl}/${this.config.accountId}/media`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ image_url: url, is_carousel_item: true, access_token: this.config.accessToken }),
+        });
+        return (await res.json()).id;
+      })
+    );
+  }
+}
+
+// ─── LinkedIn ─────────────────────────────────────────────────
+
+interface LinkedInShareContent {
+  shareCommentary: { text: string };
+  shareMediaCategory: 'IMAGE' | 'NONE';
+  media?: { status: 'READY'; description: { text: string }; media: string; title: { text: string } }[];
+}
+
+export class LinkedInClient extends SocialMediaClient {
+  private baseUrl = 'https://api.linkedin.com/v2';
+  private headers() {
+    return {
+      Authorization: `Bearer ${this.config.accessToken}`,
+      'Content-Type': 'application/json',
+      'X-Restli-Protocol-Version': '2.0.0',
+    };
+  }
+
+  async post(post: SocialMediaPost): Promise<PostResult> {
+    const shareContent: LinkedInShareContent = {
+      shareCommentary: { text: post.content },
+      shareMediaCategory: post.mediaUrls?.length ? 'IMAGE' : 'NONE',
+    };
+
+    if (post.mediaUrls?.length) {
+      shareContent.media = post.mediaUrls.map((url) => ({
+        status: 'READY',
+        description: { text: 'Image' },
+        media: url,
+        title: { text: 'Post Image' },
+      }));
+    }
+
+    const payload = {
+      author: `urn:li:person:${this.config.accountId}`,
+      lifecycleState: 'PUBLISHED',
+      specificContent: { 'com.linkedin.ugc.ShareContent': shareContent },
+      visibility: { 'com.linkedin.ugc.MemberNetworkVisibility': 'PUBLIC' },
+    };
+
+    const res = await this.fetchImpl(`${this.baseUrl}/ugcPosts`, { method: 'POST', headers: this.headers(), body: JSON.stringify(payload) });
+    if (!res.ok) throw await apiError('linkedin', 'LinkedIn API error', res);
+    const data = await res.json();
+
+    return { platform: 'linkedin', postId: data.id, postUrl: `https://linkedin.com/feed/update/${data.id}`, publishedAt: new Date() };
+  }
+
+  async getPost(postId: string) {
+    const res = await this.fetchImpl(`${this.baseUrl}/ugcPosts/${postId}`, { headers: this.headers() });
+    return res.json();
+  }
+
+  async getEngagement(postId: string): Promise<EngagementStats> {
+    const res = await this.fetchImpl(`${this.baseUrl}/socialActions/${postId}`, { headers: this.headers() });
+    const data = await res.json();
+    return {
+      likes: data.likesSummary?.totalLikes || 0,
+      comments: data.commentsSummary?.totalFirstLevelComments || 0,
+      shares: 0,
+    };
+  }
+
+  async deletePost(postId: string): Promise<boolean> {
+    const res = await this.fetchImpl(`${this.baseUrl}/ugcPosts/${postId}`, { method: 'DELETE', headers: this.headers() });
+    return res.ok;
+  }
+}
+
+// ─── Twitter / X ──────────────────────────────────────────────
+
+interface TweetPayload {
+  text: string;
+  media?: { media_ids: string[] };
+}
+
+export class TwitterClient extends SocialMediaClient {
+  private baseUrl = 'https://api.x.com/2';
+
+  async post(post: SocialMediaPost): Promise<PostResult> {
+    let text = post.content;
+    if (text.length > 280) text = text.substring(0, 277) + '...';
+
+    const payload: TweetPayload = { text };
+
+    if (post.mediaUrls?.length) {
+      const mediaIds = await this.uploadMedia(post.mediaUrls);
+      if (mediaIds.length) payload.media = { media_ids: mediaIds };
+    }
+
+    const res = await this.fetchImpl(`${this.baseUrl}/tweets`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${this.config.accessToken}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    });
+    if (!res.ok) throw await apiError('twitter', 'Twitter API error', res);
+    const data = await res.json();
+
+    return { platform: 'twitter', postId: data.data.id, postUrl: `https://twitter.com/i/web/status/${data.data.id}`, publishedAt: new Date() };
+  }
+
+  async getPost(postId: string) {
+    const res = await this.fetchImpl(`${this.baseUrl}/tweets/${postId}?tweet.fields=created_at,text,public_metrics`, {
+      headers: { Authorization: `Bearer ${this.config.accessToken}` },
+    });
+    return res.json();
+  }
+
+  async getEngagement(postId: string): Promise<EngagementStats> {
+    const res = await this.fetchImpl(`${this.baseUrl}/tweets/${postId}?tweet.fields=public_metrics`, {
+      headers: { Authorization: `Bearer ${this.config.accessToken}` },
+    });
+    const m = (await res.json()).data?.public_metrics || {};
+    return { likes: m.like_count || 0, comments: m.reply_count || 0, shares: m.retweet_count || 0, impressions: m.impression_count || 0 };
+  }
+
+  async deletePost(postId: string): Promise<boolean> {
+    const res = await this.fetchImpl(`${this.baseUrl}/tweets/${postId}`, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${this.config.accessToken}` },
+    });
+    return res.ok;
+  }
+
+  private async uploadMedia(_urls: string[]): Promise<string[]> {
+    // Twitter media upload requires v1.1 API with OAuth 1.0a – implement in edge function
+    return [];
+  }
+}
+
+// ─── Factory & Multi-platform Helper ──────────────────────────
+
+export function createSocialMediaClient(config: SocialMediaConfig, fetchImpl?: FetchLike): SocialMediaClient {
+  switch (config.platform) {
+    case 'facebook': return new FacebookClient(config, fetchImpl);
+    case 'instagram': return new InstagramClient(config, fetchImpl);
+    case 'linkedin': return new LinkedInClient(config, fetchImpl);
+    case 'twitter': return new TwitterClient(config, fetchImpl);
+    default: throw new Error(`Unsupported platform: ${config.platform}`);
+  }
+}
+
+/** Whether publishing may succeed if tried again later */
+export function isTransientSocialError(err: unknown): boolean {
+  if (err instanceof SocialMediaApiError) return err.transient;
+  // fetch rejects with a TypeError when the platform cannot be reached
+  const name = (err as Error | null)?.name;
+  return err instanceof TypeError || name === 'TimeoutError' || name === 'AbortError';
+}
+
+/**
+ * Whether the platform rejected the access token itself (expired or revoked),
+ * so the account has to be connected again. Meta reports this as a 400 with
+ * OAuthException code 190.
+ */
+export function isSocialAuthError(err: unknown): boolean {
+  if (!(err instanceof SocialMediaApiError)) return false;
+  return err.status === 401 || (err.status === 400 && /"code"\s*:\s*190\b/.test(err.message));
+}
+
+export interface PlatformPublishResult {
+  platform: string;
+  ok: boolean;
+  /** Set when published */
+  result?: PostResult;
+  /** Set when not published */
+  error?: string;
+  transient?: boolean;
+  /** The access token was rejected; the account needs reconnecting */
+  authFailed?: boolean;
+}
+
+/** Publishes to every platform and reports each one, failures included. */
+export async function postToMultiplePlatforms(
+  platforms: SocialMediaConfig[],
+  post: SocialMediaPost,
+  fetchImpl?: FetchLike
+): Promise<PlatformPublishResult[]> {
+  const results = await Promise.allSettled(
+    platforms.map((cfg) => createSocialMediaClient(cfg, fetchImpl).post(post))
+  );
+  return results.map((r, i): PlatformPublishResult =>
+    r.status === 'fulfilled'
+      ? { platform: platforms[i].platform, ok: true, result: r.value }
+      : {
+          platform: platforms[i].platform,
+          ok: false,
+          error: r.reason instanceof Error ? r.reason.message : String(r.reason),
+          transient: isTransientSocialError(r.reason),
+          authFailed: isSocialAuthError(r.reason),
+        }
+  );
+}
+
+// ─── Scheduled Publishing ─────────────────────────────────────
+
+export type SocialPlatform = SocialMediaConfig['platform'];
+
+export const SOCIAL_PLATFORMS: SocialPlatform[] = ['facebook', 'instagram', 'linkedin', 'twitter'];
+
+/** Publishing attempts per post, including the first */
+export const MAX_PUBLISH_ATTEMPTS = 4;
+export const PUBLISH_RETRY_BASE_MS = 60_000;
+
+/** One platform's outcome, kept in social_media_posts.platform_post_ids */
+export interface PlatformPublishState {
+  status: 'posted' | 'retrying' | 'failed';
+  post_id?: string;
+  post_url?: string;
+  published_at?: string;
+  error_message?: string | null;
+  attempts: number;
+}
+
+export type PlatformPostIds = Record<string, PlatformPublishState>;
+
+export interface PublishOutcome {
+  /** `scheduled` while transient failures wait for another attempt */
+  status: 'posted' | 'partial' | 'failed' | 'scheduled';
+  platform_post_ids: PlatformPostIds;
+  error_message: string | null;
+  next_attempt_at: string | null;
+  posted_at: string | null;
+}
+
+export function publishRetryDelayMs(attempt: number): number {
+  return PUBLISH_RETRY_BASE_MS * 2 ** Math.max(attempt - 1, 0);
+}
+
+/** The platforms a post still has to reach: not yet posted and not failed for good. */
+export function pendingPlatforms(platform: string, state: PlatformPostIds | null | undefined): SocialPlatform[] {
+  const targets = platform === 'all' ? SOCIAL_PLATFORMS : SOCIAL_PLATFORMS.filter((p) => p === platform);
+  return targets.filter((p) => {
+    const s = state?.[p];
+    return !s || s.status === 'retrying';
+  });
+}
+
+const ACCOUNT_KEYS: Record<SocialPlatform, string[]> = {
+  facebook: ['facebook_page_id', 'page_id', 'facebook_account_id'],
+  instagram: ['instagram_account_id', 'instagram_business_account_id'],
+  linkedin: ['linkedin_person_id', 'linkedin_account_id'],
+  twitter: ['twitter_account_id', 'twitter_user_id'],
+};
+
+/**
+ * A platform's token and account from a client's saved settings, e.g.
+ * `facebook_access_token` and `facebook_page_id`. Null when not connected.
+ */
+export function socialConfigFromSettings(platform: SocialPlatform, settings: Record<string, unknown>): SocialMediaConfig | null {
+  const pick = (keys: string[]) => {
+    const key = keys.find((k) => typeof settings[k] === 'string' && (settings[k] as string).trim() !== '');
+    return key ? (settings[key] as string).trim() : undefined;
+  };
+  const accessToken = pick([`${platform}_access_token`, `${platform}_token`]);
+  const accountId = pick(ACCOUNT_KEYS[platform]);
+  // Tweets are posted as the token's owner, so Twitter needs no account id
+  if (!accessToken || (!accountId && platform !== 'twitter')) return null;
+  return { platform, accessToken, accountId: accountId ?? '' };
+}
+
+/** What a stored post publishes: hashtags go at the end of the text on every platform. */
+export function socialPostFromRecord(record: { content: string; media_urls?: string[] | null; hashtags?: string[] | null }): SocialMediaPost {
+  const tags = (record.hashtags ?? []).map((h) => h.trim()).filter(Boolean).map((h) => (h.startsWith('#') ? h : `#${h}`));
+  return {
+    content: tags.length ? `${record.content}\n\n${tags.join(' ')}` : record.content,
+    mediaUrls: record.media_urls ?? [],
+  };
+}
+
+/**
+ * Folds one publishing attempt into a post's per-platform state. Platforms
+ * that failed transiently are retried with backoff until MAX_PUBLISH_ATTEMPTS;
+ * once nothing is left to retry the post is posted, partial or failed.
+ */
+export function applyPublishResults(
+  previous: PlatformPostIds | null | undefined,
+  results: PlatformPublishResult[],
+  attempt: number,
+  now: Date = new Date()
+): PublishOutcome {
+  const state: PlatformPostIds = { ...(previous ?? {}) };
+
+  for (const r of results) {
+    state[r.platform] = r.ok && r.result
+      ? {
+          status: 'posted',
+          post_id: r.result.postId,
+          post_url: r.result.postUrl,
+          published_at: r.result.publishedAt.toISOString(),
+          error_message: null,
+          attempts: attempt,
+        }
+      : {
+          status: r.transient && attempt < MAX_PUBLISH_ATTEMPTS ? 'retrying' : 'failed',
+          error_message: r.error ?? 'Publishing failed',
+          attempts: attempt,
+        };
+  }
+
+  const entries = Object.entries(state);
+  const posted = entries.filter(([, s]) => s.status === 'posted');
+  const retrying = entries.some(([, s]) => s.status === 'retrying');
+  const errors = entries
+    .filter(([, s]) => s.status !== 'posted' && s.error_message)
+    .map(([p, s]) => `${p}: ${s.error_message}`);
+
+  let status: PublishOutcome['status'];
+  if (retrying) status = 'scheduled';
+  else if (entries.length > 0 && posted.length === entries.length) status = 'posted';
+  else status = posted.length > 0 ? 'partial' : 'failed';
+
+  const publishedAt = posted.map(([, s]) => s.published_at!).sort()[0] ?? null;
+
+  return {
+    status,
+    platform_post_ids: state,
+    error_message: errors.length ? errors.join('; ') : null,
+    next_attempt_at: retrying ? new Date(now.getTime() + publishRetryDelayMs(attempt)).toISOString() : null,
+    posted_at: status === 'posted' || status === 'partial' ? publishedAt : null,
+  };
+}
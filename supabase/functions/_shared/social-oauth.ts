@@ -0,0 +1,402 @@
+/**
+ * Social Platform OAuth
+ * Authorization URLs, code exchange and token refresh for the platforms a
+ * brand can connect, plus the AES-GCM sealing used to store their tokens.
+ * Shared by the app (imported as `@shared/social-oauth`) and the OAuth and
+ * token refresh edge functions, so it must not use Deno or browser-only APIs.
+ */
+
+export type OAuthPlatform = 'facebook' | 'instagram' | 'linkedin' | 'twitter';
+
+export type ConnectionStatus = 'connected' | 'reconnect_needed' | 'revoked';
+
+export interface OAuthApp {
+  clientId: string;
+  clientSecret: string;
+}
+
+export interface OAuthTokens {
+  accessToken: string;
+  refreshToken: string | null;
+  /** ISO timestamps; null when the token does not expire */
+  expiresAt: string | null;
+  refreshExpiresAt: string | null;
+  scopes: string[];
+}
+
+/** The account a brand connected and the tokens to publish as it */
+export interface ConnectedAccount {
+  accountId: string;
+  accountName: string;
+  tokens: OAuthTokens;
+}
+
+type FetchLike = typeof fetch;
+
+const META_DIALOG = 'https://www.facebook.com/v18.0/dialog/oauth';
+const META_GRAPH = 'https://graph.facebook.com/v18.0';
+const LINKEDIN_OAUTH = 'https://www.linkedin.com/oauth/v2';
+const TWITTER_AUTHORIZE = 'https://twitter.com/i/oauth2/authorize';
+const TWITTER_API = 'https://api.x.com/2';
+
+interface ProviderSpec {
+  authorizeUrl: string;
+  scopes: string[];
+  /** Scopes are joined with spaces, except Meta which wants commas */
+  scopeSeparator: string;
+  pkce: boolean;
+}
+
+export const OAUTH_PROVIDERS: Record<OAuthPlatform, ProviderSpec> = {
+  facebook: {
+    authorizeUrl: META_DIALOG,
+    scopes: ['pages_show_list', 'pages_read_engagement', 'pages_manage_posts'],
+    scopeSeparator: ',',
+    pkce: false,
+  },
+  instagram: {
+    authorizeUrl: META_DIALOG,
+    scopes: ['pages_show_list', 'instagram_basic', 'instagram_content_publish'],
+    scopeSeparator: ',',
+    pkce: false,
+  },
+  linkedin: {
+    authorizeUrl: `${LINKEDIN_OAUTH}/authorization`,
+    scopes: ['openid', 'profile', 'w_member_social'],
+    scopeSeparator: ' ',
+    pkce: false,
+  },
+  twitter: {
+    authorizeUrl: TWITTER_AUTHORIZE,
+    scopes: ['tweet.read', 'tweet.write', 'users.read', 'offline.access'],
+    scopeSeparator: ' ',
+    pkce: true,
+  },
+};
+
+export const OAUTH_PLATFORMS = Object.keys(OAUTH_PROVIDERS) as OAuthPlatform[];
+
+export function isOAuthPlatform(value: unknown): value is OAuthPlatform {
+  return typeof value === 'string' && value in OAUTH_PROVIDERS;
+}
+
+/** A token endpoint or account lookup answered with an error */
+export class OAuthError extends Error {
+  constructor(public platform: string, public status: number, message: string) {
+    super(message);
+    this.name = 'OAuthError';
+  }
+
+  /**
+   * Rate limits and platform outages may clear up; anything else (revoked
+   * access, an expired refresh token) needs the user to connect again.
+   */
+  get transient(): boolean {
+    return this.status === 429 || this.status >= 500;
+  }
+}
+
+async function oauthError(platform: string, label: string, res: Response): Promise<OAuthError> {
+  const body = await res.text().catch(() => '');
+  return new OAuthError(platform, res.status, `${label} (${res.status}): ${body || res.statusText}`);
+}
+
+// ─── Authorization ────────────────────────────────────────────
+
+const base64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string) => {
+  const b64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(b64 + '='.repeat((4 - (b64.length % 4)) % 4)), (c) => c.charCodeAt(0));
+};
+
+/** Unguessable URL-safe string for OAuth states and PKCE verifiers */
+export function randomUrlSafe(bytes = 32): string {
+  return base64Url(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+/** The S256 PKCE challenge for a verifier */
+export async function pkceChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64Url(new Uint8Array(digest));
+}
+
+export function buildAuthorizeUrl(
+  platform: OAuthPlatform,
+  params: { clientId: string; redirectUri: string; state: string; codeChallenge?: string }
+): string {
+  const spec = OAUTH_PROVIDERS[platform];
+  const url = new URL(spec.authorizeUrl);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', params.clientId);
+  url.searchParams.set('redirect_uri', params.redirectUri);
+  url.searchParams.set('state', params.state);
+  url.searchParams.set('scope', spec.scopes.join(spec.scopeSeparator));
+  if (spec.pkce) {
+    if (!params.codeChallenge) throw new Error(`${platform} requires a PKCE code challenge`);
+    url.searchParams.set('code_challenge', params.codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+  }
+  return url.toString();
+}
+
+// ─── Token Exchange ───────────────────────────────────────────
+
+interface TokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+  refresh_token_expires_in?: number;
+  scope?: string;
+}
+
+const expiryFrom = (seconds: number | undefined, now: Date) =>
+  seconds ? new Date(now.getTime() + seconds * 1000).toISOString() : null;
+
+function tokensFrom(body: TokenResponse, now: Date, previous?: { refreshToken: string | null; refreshExpiresAt: string | null }): OAuthTokens {
+  return {
+    accessToken: body.access_token,
+    // Platforms that do not rotate refresh tokens leave them out of refresh responses
+    refreshToken: body.refresh_token ?? previous?.refreshToken ?? null,
+    expiresAt: expiryFrom(body.expires_in, now),
+    refreshExpiresAt: body.refresh_token
+      ? expiryFrom(body.refresh_token_expires_in, now)
+      : previous?.refreshExpiresAt ?? null,
+    scopes: body.scope ? body.scope.split(/[\s,]+/).filter(Boolean) : [],
+  };
+}
+
+async function postForm(
+  platform: OAuthPlatform,
+  url: string,
+  form: Record<string, string>,
+  fetchImpl: FetchLike,
+  basicAuth?: OAuthApp
+): Promise<TokenResponse> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+  if (basicAuth) headers.Authorization = `Basic ${btoa(`${basicAuth.clientId}:${basicAuth.clientSecret}`)}`;
+  const res = await fetchImpl(url, { method: 'POST', headers, body: new URLSearchParams(form).toString() });
+  if (!res.ok) throw await oauthError(platform, 'Token request failed', res);
+  return res.json();
+}
+
+async function getJson<T>(platform: OAuthPlatform, label: string, url: string, fetchImpl: FetchLike, token?: string): Promise<T> {
+  const res = await fetchImpl(url, token ? { headers: { Authorization: `Bearer ${token}` } } : undefined);
+  if (!res.ok) throw await oauthError(platform, label, res);
+  return res.json();
+}
+
+interface MetaPage {
+  id: string;
+  name: string;
+  access_token: string;
+  instagram_business_account?: { id: string; username?: string };
+}
+
+/**
+ * Meta: the code buys a short-lived user token, which is traded for a
+ * long-lived one; the Page token derived from that does not expire. The
+ * first Page (with a linked Instagram business account, for Instagram) the
+ * user granted is connected.
+ */
+async function exchangeMeta(
+  platform: 'facebook' | 'instagram',
+  app: OAuthApp,
+  code: string,
+  redirectUri: string,
+  fetchImpl: FetchLike
+): Promise<ConnectedAccount> {
+  const short = await getJson<TokenResponse>(
+    platform,
+    'Token request failed',
+    `${META_GRAPH}/oauth/access_token?${new URLSearchParams({
+      client_id: app.clientId,
+      client_secret: app.clientSecret,
+      redirect_uri: redirectUri,
+      code,
+    })}`,
+    fetchImpl
+  );
+  const long = await getJson<TokenResponse>(
+    platform,
+    'Token request failed',
+    `${META_GRAPH}/oauth/access_token?${new URLSearchParams({
+      grant_type: 'fb_exchange_token',
+      client_id: app.clientId,
+      client_secret: app.clientSecret,
+      fb_exchange_token: short.access_token,
+    })}`,
+    fetchImpl
+  );
+  const pages = await getJson<{ data?: MetaPage[] }>(
+    platform,
+    'Page lookup failed',
+    `${META_GRAPH}/me/accounts?${new URLSearchParams({
+      fields: 'id,name,access_token,instagram_business_account{id,username}',
+      access_token: long.access_token,
+    })}`,
+    fetchImpl
+  );
+
+  const scopes = OAUTH_PROVIDERS[platform].scopes;
+  if (platform === 'instagram') {
+    const page = pages.data?.find((p) => p.instagram_business_account);
+    if (!page) throw new OAuthError(platform, 400, 'No Facebook Page with a linked Instagram business account was shared');
+    const account = page.instagram_business_account!;
+    return {
+      accountId: account.id,
+      accountName: account.username ?? page.name,
+      tokens: { accessToken: page.access_token, refreshToken: null, expiresAt: null, refreshExpiresAt: null, scopes },
+    };
+  }
+
+  const page = pages.data?.[0];
+  if (!page) throw new OAuthError(platform, 400, 'No Facebook Page was shared');
+  return {
+    accountId: page.id,
+    accountName: page.name,
+    tokens: { accessToken: page.access_token, refreshToken: null, expiresAt: null, refreshExpiresAt: null, scopes },
+  };
+}
+
+/** Trades the callback's authorization code for tokens and the account they act as. */
+export async function exchangeAuthorizationCode(
+  platform: OAuthPlatform,
+  app: OAuthApp,
+  params: { code: string; redirectUri: string; codeVerifier?: string | null },
+  fetchImpl: FetchLike = (input, init) => fetch(input, init),
+  now: Date = new Date()
+): Promise<ConnectedAccount> {
+  switch (platform) {
+    case 'facebook':
+    case 'instagram':
+      return exchangeMeta(platform, app, params.code, params.redirectUri, fetchImpl);
+
+    case 'linkedin': {
+      const body = await postForm(platform, `${LINKEDIN_OAUTH}/accessToken`, {
+        grant_type: 'authorization_code',
+        code: params.code,
+        redirect_uri: params.redirectUri,
+        client_id: app.clientId,
+        client_secret: app.clientSecret,
+      }, fetchImpl);
+      const me = await getJson<{ sub: string; name?: string }>(
+        platform, 'Profile lookup failed', 'https://api.linkedin.com/v2/userinfo', fetchImpl, body.access_token
+      );
+      return { accountId: me.sub, accountName: me.name ?? 'LinkedIn member', tokens: tokensFrom(body, now) };
+    }
+
+    case 'twitter': {
+      if (!params.codeVerifier) throw new Error('twitter requires the PKCE code verifier');
+      const body = await postForm(platform, `${TWITTER_API}/oauth2/token`, {
+        grant_type: 'authorization_code',
+        code: params.code,
+        redirect_uri: params.redirectUri,
+        code_verifier: params.codeVerifier,
+        client_id: app.clientId,
+      }, fetchImpl, app);
+      const me = await getJson<{ data: { id: string; username: string } }>(
+        platform, 'Profile lookup failed', `${TWITTER_API}/users/me`, fetchImpl, body.access_token
+      );
+      return { accountId: me.data.id, accountName: `@${me.data.username}`, tokens: tokensFrom(body, now) };
+    }
+
+    default:
+      throw new Error(`Unsupported platform: ${platform}`);
+  }
+}
+
+/**
+ * A fresh access token from a refresh token. X rotates the refresh token on
+ * every use, so the returned one replaces the stored one.
+ */
+export async function refreshAccessToken(
+  platform: OAuthPlatform,
+  app: OAuthApp,
+  current: { refreshToken: string; refreshExpiresAt?: string | null },
+  fetchImpl: FetchLike = (input, init) => fetch(input, init),
+  now: Date = new Date()
+): Promise<OAuthTokens> {
+  const previous = { refreshToken: current.refreshToken, refreshExpiresAt: current.refreshExpiresAt ?? null };
+  switch (platform) {
+    case 'linkedin':
+      return tokensFrom(await postForm(platform, `${LINKEDIN_OAUTH}/accessToken`, {
+        grant_type: 'refresh_token',
+        refresh_token: current.refreshToken,
+        client_id: app.clientId,
+        client_secret: app.clientSecret,
+      }, fetchImpl), now, previous);
+
+    case 'twitter':
+      return tokensFrom(await postForm(platform, `${TWITTER_API}/oauth2/token`, {
+        grant_type: 'refresh_token',
+        refresh_token: current.refreshToken,
+        client_id: app.clientId,
+      }, fetchImpl, app), now, previous);
+
+    default:
+      throw new OAuthError(platform, 400, `${platform} tokens cannot be refreshed`);
+  }
+}
+
+// ─── Refresh Planning ─────────────────────────────────────────
+
+/** Never leave less than this before expiry when refreshing */
+export const MIN_REFRESH_MARGIN_MS = 15 * 60_000;
+/** Share of a token's lifetime left when it is refreshed */
+export const REFRESH_LIFETIME_SHARE = 0.2;
+
+export interface TokenLifetime {
+  expiresAt: string | null;
+  /** When the current access token was issued */
+  issuedAt: string | null;
+  hasRefreshToken: boolean;
+  refreshExpiresAt?: string | null;
+}
+
+/**
+ * What the refresh job should do with a connection: nothing yet, refresh it,
+ * or ask the user to reconnect because the token is running out and there is
+ * no usable refresh token. Tokens are refreshed with a fifth of their lifetime
+ * (and at least fifteen minutes) to spare, so X's two-hour tokens and
+ * LinkedIn's sixty-day ones are both caught by a frequent job.
+ */
+export function refreshAction(token: TokenLifetime, now: Date = new Date()): 'none' | 'refresh' | 'reconnect' {
+  if (!token.expiresAt) return 'none';
+  const expires = Date.parse(token.expiresAt);
+  const issued = token.issuedAt ? Date.parse(token.issuedAt) : NaN;
+  const lifetime = Number.isNaN(issued) ? 0 : Math.max(expires - issued, 0);
+  const margin = Math.max(MIN_REFRESH_MARGIN_MS, lifetime * REFRESH_LIFETIME_SHARE);
+  if (expires - now.getTime() > margin) return 'none';
+
+  const refreshUsable = token.hasRefreshToken &&
+    (!token.refreshExpiresAt || Date.parse(token.refreshExpiresAt) > now.getTime());
+  return refreshUsable ? 'refresh' : 'reconnect';
+}
+
+// ─── Token Sealing ────────────────────────────────────────────
+
+const SEALED_PREFIX = 'v1';
+
+/** The AES-256-GCM key from its base64 encoding (32 random bytes) */
+export async function importTokenKey(base64Key: string): Promise<CryptoKey> {
+  const raw = Uint8Array.from(atob(base64Key.trim()), (c) => c.charCodeAt(0));
+  if (raw.length !== 32) throw new Error('The token encryption key must be 32 bytes, base64 encoded');
+  return crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+/** Encrypts a token for storage as `v1.<iv>.<ciphertext>` */
+export async function sealToken(token: string, key: CryptoKey): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const sealed = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(token));
+  return `${SEALED_PREFIX}.${base64Url(iv)}.${base64Url(new Uint8Array(sealed))}`;
+}
+
+/** Decrypts a stored token; throws if it was tampered with or sealed under another key */
+export async function openToken(sealed: string, key: CryptoKey): Promise<string> {
+  const [version, iv, data] = sealed.split('.');
+  if (version !== SEALED_PREFIX || !iv || !data) throw new Error('Unrecognised sealed token');
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64Url(iv) }, key, fromBase64Url(data));
+  return new TextDecoder().decode(plain);
+}
@@ -0,0 +1,215 @@
+/**
+ * Telephony Routing Layer
+ * Picks providers per client / destination prefix, fails over on provider
+ * errors and can prefer the cheapest provider from a rate table.
+ * Used by campaign-dialer; shared with the app like ./telephony.ts.
+ */
+
+import {
+  createTelephonyClient,
+  type CallOptions,
+  type CallResult,
+  type TelephonyClient,
+  type TelephonyConfig,
+} from './telephony.ts';
+
+export type TelephonyProvider = TelephonyConfig['provider'];
+export type RoutingStrategy = 'priority' | 'least_cost';
+
+export interface RoutingRule {
+  /** Applies to one client only; omit for a platform-wide rule. */
+  clientId?: string | null;
+  /** Destination prefix with country code, e.g. "+91". Omit to match every number. */
+  prefix?: string | null;
+  /** Providers in failover order. */
+  providers: TelephonyProvider[];
+  strategy: RoutingStrategy;
+}
+
+export interface ProviderRate {
+  provider: TelephonyProvider;
+  prefix: string;
+  ratePerMinute: number;
+}
+
+export interface RouteAttempt {
+  provider: TelephonyProvider;
+  success: boolean;
+  error?: string;
+  latencyMs: number;
+}
+
+export interface RoutedCallResult extends CallResult {
+  attempts: RouteAttempt[];
+}
+
+export interface TelephonyRouterOptions {
+  rules?: RoutingRule[];
+  rates?: ProviderRate[];
+  /** Called after every provider attempt, e.g. to record provider health. */
+  onAttempt?: (attempt: RouteAttempt, to: string) => void | Promise<void>;
+  /** Override client construction (used by tests). */
+  clientFactory?: (config: TelephonyConfig) => TelephonyClient;
+}
+
+/**
+ * Every provider failed, or none is configured for the destination. An
+ * unroutable destination fails the same way on every retry.
+ */
+export class TelephonyRoutingError extends Error {
+  public code = 'INTEGRATION_ERROR';
+
+  constructor(message: string, public unroutable = false) {
+    super(`Telephony integration error: ${message}`);
+    this.name = 'TelephonyRoutingError';
+  }
+}
+
+/** A `telephony_routes` row. */
+export interface RouteRow {
+  client_id: string | null;
+  country_prefix: string | null;
+  providers: TelephonyProvider[];
+  strategy: RoutingStrategy;
+}
+
+/** A `telephony_rates` row. */
+export interface RateRow {
+  provider: TelephonyProvider;
+  prefix: string;
+  rate_per_minute: number | string;
+}
+
+export const normalizeNumber = (phone: string) => '+' + phone.replace(/\D/g, '');
+
+// ─── Router ──────────────────────────────────────────────────────
+
+export class TelephonyRouter {
+  private configs: Partial<Record<TelephonyProvider, TelephonyConfig>>;
+  private options: TelephonyRouterOptions;
+  private clients = new Map<TelephonyProvider, TelephonyClient>();
+
+  constructor(configs: TelephonyConfig[], options: TelephonyRouterOptions = {}) {
+    this.configs = Object.fromEntries(configs.map((c) => [c.provider, c]));
+    this.options = options;
+  }
+
+  /**
+   * Most specific rule wins: client + prefix, then client, then prefix, then
+   * platform default. Longer prefixes beat shorter ones.
+   */
+  resolveRule(to: string, clientId?: string | null): RoutingRule | null {
+    const number = normalizeNumber(to);
+    const candidates = (this.options.rules ?? []).filter(
+      (r) =>
+        (!r.clientId || r.clientId === clientId) &&
+        (!r.prefix || number.startsWith(r.prefix))
+    );
+
+    const score = (r: RoutingRule) => (r.clientId ? 1000 : 0) + (r.prefix?.length ?? 0);
+    return candidates.sort((a, b) => score(b) - score(a))[0] ?? null;
+  }
+
+  /** Cheapest known rate for the destination, by longest matching prefix. */
+  rateFor(provider: TelephonyProvider, to: string): number | null {
+    const number = normalizeNumber(to);
+    const match = (this.options.rates ?? [])
+      .filter((r) => r.provider === provider && number.startsWith(r.prefix))
+      .sort((a, b) => b.prefix.length - a.prefix.length)[0];
+    return match ? match.ratePerMinute : null;
+  }
+
+  /** Providers to try, in order, for this destination. */
+  resolveProviders(to: string, clientId?: string | null): TelephonyProvider[] {
+    const rule = this.resolveRule(to, clientId);
+    const configured = Object.keys(this.configs) as TelephonyProvider[];
+    const providers = (rule?.providers ?? configured).filter((p) => this.configs[p]);
+
+    if (rule?.strategy !== 'least_cost') return providers;
+
+    // Unrated providers keep their relative order after the rated ones
+    return providers
+      .map((provider, index) => ({ provider, index, rate: this.rateFor(provider, to) }))
+      .sort((a, b) => {
+        if (a.rate === null && b.rate === null) return a.index - b.index;
+        if (a.rate === null) return 1;
+        if (b.rate === null) return -1;
+        return a.rate - b.rate || a.index - b.index;
+      })
+      .map((c) => c.provider);
+  }
+
+  /**
+   * Dials through each provider in turn until one accepts the call.
+   * `perProvider` adds provider-specific options, e.g. a status callback URL
+   * that names the provider.
+   */
+  async makeCall(
+    options: CallOptions,
+    clientId?: string | null,
+    perProvider?: (provider: TelephonyProvider) => Partial<CallOptions>
+  ): Promise<RoutedCallResult> {
+    const providers = this.resolveProviders(options.to, clientId);
+    if (providers.length === 0) {
+      throw new TelephonyRoutingError(`No provider configured for ${options.to}`, true);
+    }
+
+    const attempts: RouteAttempt[] = [];
+
+    for (const provider of providers) {
+      const started = Date.now();
+      try {
+        const result = await this.getClient(provider).makeCall({ ...options, ...perProvider?.(provider) });
+        const attempt = { provider, success: true, latencyMs: Date.now() - started };
+        attempts.push(attempt);
+        await this.options.onAttempt?.(attempt, options.to);
+        return { ...result, attempts };
+      } catch (error) {
+        const attempt = {
+          provider,
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+          latencyMs: Date.now() - started,
+        };
+        attempts.push(attempt);
+        await this.options.onAttempt?.(attempt, options.to);
+      }
+    }
+
+    throw new TelephonyRoutingError(
+      `All providers failed (${attempts.map((a) => `${a.provider}: ${a.error}`).join('; ')})`
+    );
+  }
+
+  private getClient(provider: TelephonyProvider): TelephonyClient {
+    let client = this.clients.get(provider);
+    if (!client) {
+      const factory = this.options.clientFactory ?? createTelephonyClient;
+      client = factory(this.configs[provider]!);
+      this.clients.set(provider, client);
+    }
+    return client;
+  }
+}
+
+// ─── Rows ────────────────────────────────────────────────────────
+
+/** Router rules and rates from the `telephony_routes` and `telephony_rates` tables. */
+export function routerOptionsFromRows(
+  routes: RouteRow[],
+  rates: RateRow[]
+): Pick<TelephonyRouterOptions, 'rules' | 'rates'> {
+  return {
+    rules: routes.map((r) => ({
+      clientId: r.client_id,
+      prefix: r.country_prefix,
+      providers: r.providers,
+      strategy: r.strategy,
+    })),
+    rates: rates.map((r) => ({
+      provider: r.provider,
+      prefix: r.prefix,
+      ratePerMinute: Number(r.rate_per_minute),
+    })),
+  };
+}
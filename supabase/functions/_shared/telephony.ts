@@ -1,6 +1,9 @@
 /**
  * Unified Telephony Provider Integration Module
  * Supports Exotel, Twilio, and Telnyx providers
+ *
+ * Shared by the app (imported as `@shared/telephony`) and the edge
+ * functions, so it must not use Deno or browser-only APIs.
  */
 
 export interface TelephonyConfig {
@@ -43,6 +46,98 @@ export interface SMSResult {
   provider: string;
 }
 
+/** Values of the `call_status` enum in call_logs. */
+export type NormalizedCallStatus =
+  | 'initiated'
+  | 'ringing'
+  | 'answered'
+  | 'busy'
+  | 'no_answer'
+  | 'failed'
+  | 'completed';
+
+/** Identifies who owns a call when the provider reports its status back. */
+export interface StatusCallbackContext {
+  clientId: string;
+  campaignId?: string;
+  contactId?: string;
+  /** Shared secret for providers that do not sign callbacks (Exotel). */
+  token?: string;
+}
+
+const TWILIO_STATUS_MAP: Record<string, NormalizedCallStatus> = {
+  queued: 'initiated',
+  initiated: 'initiated',
+  ringing: 'ringing',
+  'in-progress': 'answered',
+  completed: 'completed',
+  busy: 'busy',
+  'no-answer': 'no_answer',
+  failed: 'failed',
+  canceled: 'failed',
+};
+
+// Exotel reports the same vocabulary as Twilio
+const EXOTEL_STATUS_MAP = TWILIO_STATUS_MAP;
+
+const TELNYX_HANGUP_MAP: Record<string, NormalizedCallStatus> = {
+  normal_clearing: 'completed',
+  time_limit: 'completed',
+  user_busy: 'busy',
+  no_answer: 'no_answer',
+  timeout: 'no_answer',
+  originator_cancel: 'no_answer',
+  call_rejected: 'failed',
+  not_found: 'failed',
+  unspecified: 'failed',
+};
+
+/**
+ * Maps a provider's status vocabulary onto `call_status`.
+ * For Telnyx pass the webhook `event_type` and, for `call.hangup`, the
+ * `hangup_cause`. Returns null for events that carry no status (e.g. a
+ * recording being saved) or values we do not recognise.
+ */
+export function normalizeCallStatus(
+  provider: TelephonyConfig['provider'],
+  status: string,
+  hangupCause?: string
+): NormalizedCallStatus | null {
+  const value = status.trim().toLowerCase();
+
+  switch (provider) {
+    case 'twilio':
+      return TWILIO_STATUS_MAP[value] ?? null;
+    case 'exotel':
+      return EXOTEL_STATUS_MAP[value] ?? null;
+    case 'telnyx':
+      if (value === 'call.initiated') return 'initiated';
+      if (value === 'call.answered') return 'answered';
+      if (value === 'call.hangup') return TELNYX_HANGUP_MAP[hangupCause?.toLowerCase() ?? ''] ?? 'failed';
+      return null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Builds the `statusCallback` URL for the telephony-status-webhook edge
+ * function, e.g. `${SUPABASE_URL}/functions/v1/telephony-status-webhook`.
+ */
+export function buildStatusCallbackUrl(
+  functionUrl: string,
+  provider: TelephonyConfig['provider'],
+  context: StatusCallbackContext
+): string {
+  const url = new URL(functionUrl);
+  url.searchParams.set('provider', provider);
+  url.searchParams.set('client_id', context.clientId);
+  if (context.campaignId) url.searchParams.set('campaign_id', context.campaignId);
+  if (context.contactId) url.searchParams.set('contact_id', context.contactId);
+  if (context.token) url.searchParams.set('token', context.token);
+  return url.toString();
+}
+
 // ─── Abstract Base ───────────────────────────────────────────────
 
 export abstract class TelephonyClient {
@@ -88,6 +183,8 @@ export class ExotelClient extends TelephonyClient {
     }
     if (options.statusCallback) {
       formData.append('StatusCallback', options.statusCallback);
+      formData.append('StatusCallbackEvents[0]', 'answered');
+      formData.append('StatusCallbackEvents[1]', 'terminal');
     }
 
     const response = await fetch(url, {
@@ -207,6 +304,13 @@ export class TwilioClient extends TelephonyClient {
     }
     if (options.statusCallback) {
       formData.append('StatusCallback', options.statusCallback);
+      formData.append('StatusCallbackMethod', 'POST');
+      for (const event of ['initiated', 'ringing', 'answered', 'completed']) {
+        formData.append('StatusCallbackEvent', event);
+      }
+      if (options.record) {
+        formData.append('RecordingStatusCallback', options.statusCallback);
+      }
     }
     if (options.machineDetection) {
       formData.append('MachineDetection', 'Enable');
@@ -331,6 +435,12 @@ export class TelnyxClient extends TelephonyClient {
 
     if (options.url) payload.webhook_url = options.url;
     if (options.record) payload.record = 'record-from-answer';
+    if (options.statusCallback) {
+      // Telnyx signs the body but not the URL, so the call context travels in client_state
+      const callbackUrl = new URL(options.statusCallback);
+      payload.webhook_url = options.statusCallback;
+      payload.client_state = btoa(JSON.stringify(Object.fromEntries(callbackUrl.searchParams)));
+    }
 
     const response = await fetch(url, {
       method: 'POST',
@@ -0,0 +1,32 @@
+/**
+ * HMAC signatures on callbacks from client n8n workflows. Every delivery is
+ * signed with the workflow instance's webhook secret:
+ *   X-Webhook-Timestamp: <unix seconds>
+ *   X-Webhook-Signature: v1=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+ */
+
+// Signed deliveries older than this are treated as replays
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(message));
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
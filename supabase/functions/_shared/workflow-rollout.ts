@@ -0,0 +1,55 @@
+/**
+ * When a workflow rollout moves on or rolls back. Shared by the app
+ * (imported as `@shared/workflow-rollout`) and the rollout-workflow-template
+ * edge function, so it must not use Deno or browser-only APIs.
+ */
+
+export interface ExecutionStats {
+  executions: number;
+  errors: number;
+}
+
+export interface RolloutThresholds {
+  observation_minutes: number;
+  max_error_rate: number;
+  min_executions: number;
+}
+
+export type RolloutDecision = "wait" | "promote" | "rollback";
+
+/** How far above the baseline error rate a rollout may run before it is rolled back */
+export const ERROR_RATE_TOLERANCE = 0.1;
+
+/** Quiet workflows are promoted after this many observation windows without enough executions */
+export const QUIET_WINDOWS = 4;
+
+export function errorRate(stats: ExecutionStats): number {
+  return stats.executions > 0 ? stats.errors / stats.executions : 0;
+}
+
+/**
+ * Whether the upgraded workflows fail noticeably more than before: above
+ * `max_error_rate`, or `ERROR_RATE_TOLERANCE` above the baseline when the
+ * baseline was already high. Too few executions prove nothing.
+ */
+export function isErrorSpike(baseline: ExecutionStats, observed: ExecutionStats, options: RolloutThresholds): boolean {
+  if (observed.executions < options.min_executions) return false;
+  return errorRate(observed) > Math.max(options.max_error_rate, errorRate(baseline) + ERROR_RATE_TOLERANCE);
+}
+
+/**
+ * What to do with a rollout phase: roll back on a spike; move on once the
+ * observation window has passed with enough executions, or after
+ * QUIET_WINDOWS windows for workflows that rarely run; otherwise wait.
+ */
+export function rolloutDecision(
+  baseline: ExecutionStats,
+  observed: ExecutionStats,
+  options: RolloutThresholds,
+  elapsedMinutes: number,
+): RolloutDecision {
+  if (isErrorSpike(baseline, observed, options)) return "rollback";
+  if (elapsedMinutes < options.observation_minutes) return "wait";
+  if (observed.executions >= options.min_executions) return "promote";
+  return elapsedMinutes >= options.observation_minutes * QUIET_WINDOWS ? "promote" : "wait";
+}
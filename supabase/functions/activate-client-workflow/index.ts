@@ -1,4 +1,6 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { workflowWebhookUrls } from "../_shared/n8n.ts";
+import { loadN8nClient, renderInstanceWorkflow } from "../_shared/n8n-provisioning.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -68,10 +70,65 @@ Deno.serve(async (req) => {
 
     const shouldActivate = activate !== false;
 
-    const updateData: Record<string, unknown> = {
+    const { data: instance } = await supabaseAdmin
+      .from("client_workflow_instances")
+      .select("*")
+      .eq("id", workflow_instance_id)
+      .maybeSingle();
+
+    if (!instance) {
+      return new Response(JSON.stringify({ error: "Workflow not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const n8n = await loadN8nClient(supabaseAdmin);
+    if (!n8n) {
+      return new Response(JSON.stringify({ error: "n8n is not configured. Set its URL and API key on the n8n controller page." }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const updateData: Record<string, unknown> = {};
+    try {
+      if (shouldActivate) {
+        // Push the latest config and credentials before switching it on
+        const { workflow, missing } = await renderInstanceWorkflow(supabaseAdmin, n8n.client, instance);
+        if (missing.length > 0) {
+          return new Response(JSON.stringify({ error: `Configure these before activating: ${missing.join(", ")}`, missing }), {
+            status: 422,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+        const synced = await n8n.client.updateWorkflow(instance.n8n_workflow_id, workflow);
+        await n8n.client.activateWorkflow(instance.n8n_workflow_id);
+        const { webhookUrl, testWebhookUrl } = workflowWebhookUrls(n8n.baseUrl, synced);
+        Object.assign(updateData, {
+          webhook_url: webhookUrl,
+          test_webhook_url: testWebhookUrl,
+          provisioned_at: new Date().toISOString(),
+        });
+      } else {
+        await n8n.client.deactivateWorkflow(instance.n8n_workflow_id);
+      }
+    } catch (err) {
+      await supabaseAdmin
+        .from("client_workflow_instances")
+        .update({ status: "error", error_message: err.message })
+        .eq("id", workflow_instance_id);
+      return new Response(JSON.stringify({ error: `n8n rejected the change: ${err.message}` }), {
+        status: 502,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    Object.assign(updateData, {
       is_active: shouldActivate,
       status: shouldActivate ? "active" : "configured",
-    };
+      error_message: null,
+    });
 
     const { data: updated, error: updateErr } = await supabaseAdmin
       .from("client_workflow_instances")
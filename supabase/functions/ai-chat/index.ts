@@ -1,18 +1,55 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts"
-import { createClient } from "npm:@supabase/supabase-js@2"
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2"
 import OpenAI from "npm:openai@4"
+import { buildKnowledgePrompt, extractCitations, serializeCitations } from "../_shared/ai-knowledge.ts"
+import { searchChatbotKnowledge } from "../_shared/knowledge-search.ts"
+import {
+  detectMessageTrigger,
+  detectReplyTrigger,
+  handoffRulesFromSettings,
+  type HandoffRules,
+  type HandoffSettingsRow,
+  type HandoffTrigger,
+} from "../_shared/chat-handoff.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+const USAGE_LIMIT_NOTICE = "This assistant is unavailable right now. Please try again later."
+
+const HANDOFF_NOTICE = "I'm connecting you to a member of our team. Please stay on this chat, an agent will reply shortly."
+
+async function loadHandoffRules(supabaseAdmin: SupabaseClient, chatbotId: string): Promise<HandoffRules> {
+  const { data } = await supabaseAdmin.from('chat_handoff_settings').select('*').eq('chatbot_id', chatbotId).maybeSingle()
+  return handoffRulesFromSettings(data as HandoffSettingsRow | null)
+}
+
+// Queues the session for a human agent and tells the visitor
+async function escalate(supabaseAdmin: SupabaseClient, sessionId: string, trigger: HandoffTrigger) {
+  const { error } = await supabaseAdmin.rpc('escalate_chat_session', {
+    p_session_id: sessionId,
+    p_reason: trigger.reason,
+    p_detail: trigger.detail,
+  })
+  if (error) {
+    console.error("Escalation failed:", error)
+    return false
+  }
+  await supabaseAdmin.from('ai_chat_messages').insert([{ session_id: sessionId, role: 'assistant', content: HANDOFF_NOTICE }])
+  return true
+}
+
 Deno.serve(async (req) => {
   // Handle CORS preflight request
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
   }
 
+  // Set while this turn holds a usage reservation that has not been committed
+  let releaseHeldUsage: (() => Promise<unknown>) | null = null
+
   try {
     const openApiKey = Deno.env.get('OPENAI_API_KEY');
     if (!openApiKey) {
@@ -54,6 +91,7 @@ Deno.serve(async (req) => {
     };
     
     let activeChatbotId = chatbotId;
+    let botClientId: string | null = null;
     
     // Auto-fallback mapping for anonymous Incognito testers missing a primary bot origin due to client RLS
     if (!activeChatbotId) {
@@ -74,6 +112,7 @@ Deno.serve(async (req) => {
           
         if (fetchedBot) {
             bot = fetchedBot;
+            botClientId = fetchedBot.client_id;
         }
     }
 
@@ -91,8 +130,19 @@ Deno.serve(async (req) => {
              if (user) messageData.user_id = user.id;
              await supabaseAdmin.from('ai_chat_messages').insert([messageData]);
              
+             const { data: openHandoff } = await supabaseAdmin
+               .from('chat_handoffs')
+               .select('status')
+               .eq('session_id', currentSessionId)
+               .neq('status', 'resolved')
+               .maybeSingle();
+
              // Abort OpenAI processing and return empty message
-             return new Response(JSON.stringify({ message: null, sessionId: currentSessionId }), { headers: { ...corsHeaders, "Content-Type": "application/json" } });
+             return new Response(JSON.stringify({
+               message: null,
+               sessionId: currentSessionId,
+               handoff: { status: openHandoff?.status ?? 'claimed' }
+             }), { headers: { ...corsHeaders, "Content-Type": "application/json" } });
         }
 
         const { data: chatHistory } = await supabase
@@ -136,14 +186,51 @@ Deno.serve(async (req) => {
       if (msgErr) console.error("Message Insert Error:", msgErr);
     }
 
-    // 4. Construct messages for OpenAI
+    // 4. Escalate to a human when the visitor's message matches a handoff rule
+    const handoffRules = activeChatbotId ? await loadHandoffRules(supabaseAdmin, activeChatbotId) : null
+    const messageTrigger = handoffRules ? detectMessageTrigger(userMessage, handoffRules) : null
+
+    if (messageTrigger && currentSessionId && await escalate(supabaseAdmin, currentSessionId, messageTrigger)) {
+      return new Response(
+        JSON.stringify({ message: HANDOFF_NOTICE, sessionId: currentSessionId, handoff: { status: 'waiting', reason: messageTrigger.reason } }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      )
+    }
+
+    // 5. Hold this AI turn against the bot owner's usage limit
+    let usageReservationId: string | null = null
+    if (botClientId) {
+      const { data: usage, error: usageError } = await supabaseAdmin.rpc('reserve_usage', {
+        p_client_id: botClientId,
+        p_service_slug: 'whatsapp-automation',
+        p_amount: 1,
+        p_source: 'ai_chat',
+        p_reference_id: currentSessionId ?? null,
+      })
+      if (usageError || !usage?.allowed) {
+        console.warn("AI chat turn refused:", usageError?.message ?? usage?.reason)
+        return new Response(
+          JSON.stringify({ message: USAGE_LIMIT_NOTICE, sessionId: currentSessionId, limited: true }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        )
+      }
+      usageReservationId = usage.reservation_id
+      releaseHeldUsage = () => supabaseAdmin.rpc('release_usage', { p_reservation_id: usageReservationId })
+    }
+
+    // 6. Retrieve matching knowledge base chunks
+    const knowledgeMatches = activeChatbotId
+      ? await searchChatbotKnowledge(openai, supabaseAdmin, activeChatbotId, userMessage)
+      : []
+
+    // 7. Construct messages for OpenAI
     const messages = [
-      { role: 'system', content: bot.system_prompt },
+      { role: 'system', content: buildKnowledgePrompt(bot.system_prompt, knowledgeMatches) },
       ...history,
       { role: 'user', content: userMessage }
     ]
 
-    // 5. Define Tools for Database interaction
+    // 8. Define Tools for Database interaction
     const tools = [
       {
         type: "function",
@@ -171,7 +258,7 @@ Deno.serve(async (req) => {
       }
     ]
 
-    // 6. Call OpenAI
+    // 9. Call OpenAI
     const response = await openai.chat.completions.create({
       model: "gpt-4o-mini", // Use gpt-4o-mini for speed and cost effectiveness
       messages: messages as any[],
@@ -182,7 +269,7 @@ Deno.serve(async (req) => {
 
     let responseMessage = response.choices[0].message
 
-    // 7. Handle Tool Calls if OpenAI decides to query the Database
+    // 10. Handle Tool Calls if OpenAI decides to query the Database
     if (responseMessage.tool_calls && responseMessage.tool_calls.length > 0) {
       messages.push({
           role: 'assistant',
@@ -214,7 +301,9 @@ Deno.serve(async (req) => {
       responseMessage = finalResponse.choices[0].message
     }
 
-    // 8. Save Assistant Response
+    const citations = serializeCitations(extractCitations(responseMessage.content || '', knowledgeMatches))
+
+    // 11. Save Assistant Response
     if (currentSessionId && responseMessage.content) {
       const assistantMessageData: any = {
         session_id: currentSessionId,
@@ -227,13 +316,32 @@ Deno.serve(async (req) => {
       if (asstMsgErr) console.error("Asst Message Insert Error:", asstMsgErr);
     }
 
+    if (usageReservationId) {
+      await supabaseAdmin.rpc('commit_usage', { p_reservation_id: usageReservationId })
+      releaseHeldUsage = null
+    }
+
+    // 12. Escalate after repeated answers the AI could not give
+    let handoff = null
+    if (handoffRules && currentSessionId && responseMessage.content) {
+      const replies = [
+        ...history.filter((m: { role: string }) => m.role === 'assistant').map((m: { content: string }) => m.content),
+        responseMessage.content,
+      ]
+      const replyTrigger = detectReplyTrigger(replies, handoffRules)
+      if (replyTrigger && await escalate(supabaseAdmin, currentSessionId, replyTrigger)) {
+        handoff = { status: 'waiting', reason: replyTrigger.reason }
+      }
+    }
+
     return new Response(
-      JSON.stringify({ message: responseMessage.content, sessionId: currentSessionId }),
+      JSON.stringify({ message: responseMessage.content, sessionId: currentSessionId, citations, handoff }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     )
 
   } catch (error: any) {
     console.error("Error in ai-chat:", error);
+    if (releaseHeldUsage) await releaseHeldUsage().catch(() => null)
     return new Response(
       JSON.stringify({ error: error.message || "Unknown error occurred" }),
       { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
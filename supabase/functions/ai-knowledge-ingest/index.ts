@@ -0,0 +1,155 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2"
+import OpenAI from "npm:openai@4"
+import { extractText, getDocumentProxy } from "npm:unpdf@0.12"
+import { chunkText, extractSourceText, type KnowledgeSourceItem } from "../_shared/ai-knowledge.ts"
+import { embedTexts } from "../_shared/knowledge-search.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const URL_FETCH_TIMEOUT_MS = 15_000
+
+interface KnowledgeItem extends KnowledgeSourceItem {
+  id: string
+  chatbot_id: string
+}
+
+const resolveHost = async (hostname: string): Promise<string[]> => {
+  const lookups = await Promise.allSettled([Deno.resolveDns(hostname, 'A'), Deno.resolveDns(hostname, 'AAAA')])
+  return lookups.flatMap((lookup) => (lookup.status === 'fulfilled' ? lookup.value : []))
+}
+
+const extractPdfText = async (bytes: Uint8Array): Promise<string> => {
+  const { text } = await extractText(await getDocumentProxy(bytes), { mergePages: true })
+  return Array.isArray(text) ? text.join('\n\n') : text
+}
+
+async function embedChunks(chunks: string[]): Promise<(number[] | null)[]> {
+  const openApiKey = Deno.env.get('OPENAI_API_KEY')
+  // Without an embedding model the chunks are still searchable by keyword
+  if (!openApiKey || chunks.length === 0) return chunks.map(() => null)
+
+  return embedTexts(new OpenAI({ apiKey: openApiKey }), chunks)
+}
+
+async function indexKnowledgeItem(supabaseAdmin: SupabaseClient, item: KnowledgeItem): Promise<number> {
+  await supabaseAdmin.from('ai_knowledge').update({ index_status: 'processing', index_error: null }).eq('id', item.id)
+
+  try {
+    const { data: chatbot, error: chatbotError } = await supabaseAdmin
+      .from('ai_chatbots')
+      .select('client_id')
+      .eq('id', item.chatbot_id)
+      .single()
+    if (chatbotError || !chatbot?.client_id) throw new Error('The knowledge item has no owning client')
+
+    const text = await extractSourceText(item, {
+      clientId: chatbot.client_id,
+      download: async (path) => {
+        const { data: file, error } = await supabaseAdmin.storage.from('ai-knowledge').download(path)
+        if (error || !file) throw new Error(`Could not download ${path}`)
+        return file
+      },
+      resolveHost,
+      extractPdfText,
+      timeoutMs: URL_FETCH_TIMEOUT_MS,
+    })
+    const chunks = chunkText(text)
+    if (chunks.length === 0) throw new Error('No readable text found')
+
+    const embeddings = await embedChunks(chunks)
+
+    const { error: deleteError } = await supabaseAdmin.from('ai_knowledge_chunks').delete().eq('knowledge_id', item.id)
+    if (deleteError) throw deleteError
+
+    const { error: insertError } = await supabaseAdmin.from('ai_knowledge_chunks').insert(
+      chunks.map((content, index) => ({
+        knowledge_id: item.id,
+        chatbot_id: item.chatbot_id,
+        chunk_index: index,
+        content,
+        embedding: embeddings[index] ? JSON.stringify(embeddings[index]) : null,
+      }))
+    )
+    if (insertError) throw insertError
+
+    await supabaseAdmin.from('ai_knowledge').update({
+      index_status: 'ready',
+      chunk_count: chunks.length,
+      indexed_at: new Date().toISOString(),
+    }).eq('id', item.id)
+
+    return chunks.length
+  } catch (err) {
+    console.error(`Indexing knowledge ${item.id} failed:`, err)
+    await supabaseAdmin.from('ai_knowledge').update({
+      index_status: 'failed',
+      index_error: err instanceof Error ? err.message : String(err),
+    }).eq('id', item.id)
+    return 0
+  }
+}
+
+/**
+ * Chunks, embeds and indexes knowledge items for retrieval.
+ * Body: `{ knowledge_id }` for one item or `{ chatbot_id }` to reindex every
+ * item of a chatbot. The caller must be able to read the items under RLS.
+ * Documents are only read from the chatbot owner's folder, and web pages
+ * only from public hosts, up to MAX_SOURCE_CHARS.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      throw new Error("Missing Authorization header")
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+
+    // Reading through the caller's JWT doubles as the ownership check
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } }
+    })
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
+
+    const { knowledge_id, chatbot_id } = await req.json()
+    if (!knowledge_id && !chatbot_id) {
+      throw new Error("knowledge_id or chatbot_id is required")
+    }
+
+    let query = supabase.from('ai_knowledge').select('id, chatbot_id, title, content, source_type, source_url, file_path')
+    query = knowledge_id ? query.eq('id', knowledge_id) : query.eq('chatbot_id', chatbot_id)
+
+    const { data: items, error: itemsError } = await query
+    if (itemsError) throw itemsError
+    if (!items || items.length === 0) {
+      throw new Error("Knowledge item not found")
+    }
+
+    const results = []
+    for (const item of items as KnowledgeItem[]) {
+      const chunks = await indexKnowledgeItem(supabaseAdmin, item)
+      results.push({ knowledge_id: item.id, chunks, success: chunks > 0 })
+    }
+
+    return new Response(
+      JSON.stringify({ success: results.every((r) => r.success), results }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    )
+  } catch (error) {
+    console.error("Error in ai-knowledge-ingest:", error)
+    return new Response(
+      JSON.stringify({ error: (error instanceof Error && error.message) || "Unknown error occurred" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    )
+  }
+})
@@ -0,0 +1,440 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildStatusCallbackUrl, type TelephonyConfig } from "../_shared/telephony.ts";
+import {
+  TelephonyRouter,
+  TelephonyRoutingError,
+  normalizeNumber,
+  routerOptionsFromRows,
+  type RateRow,
+  type RouteRow,
+} from "../_shared/telephony-routing.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+// How long a contact waits before being re-dialed when the workflow webhook or the Do-Not-Call check is unreachable
+const DISPATCH_RETRY_MS = 60_000;
+
+// Contacts over a blocking usage limit wait until it resets or is raised
+const USAGE_LIMIT_RETRY_MS = 15 * 60_000;
+
+// A dispatched call holds one unit until its final status settles it through ingest_call_status
+const CALL_USAGE_HOLD_SECONDS = 3600;
+
+interface TelephonyAccountRow {
+  provider: TelephonyConfig["provider"];
+  account_sid: string;
+  api_key: string;
+  api_secret: string | null;
+  from_number: string;
+  webhook_secret: string;
+  answer_url: string | null;
+}
+
+interface ClientDialer {
+  router: TelephonyRouter;
+  accounts: Map<TelephonyConfig["provider"], TelephonyAccountRow>;
+}
+
+/**
+ * The platform's own provider accounts, from the same Supabase secrets
+ * telephony-status-webhook verifies their callbacks with. A provider is
+ * configured once its credentials and caller id are all set.
+ */
+function platformAccounts(): TelephonyAccountRow[] {
+  const env = (name: string) => Deno.env.get(name) ?? null;
+  const answerUrl = env("TELEPHONY_ANSWER_URL");
+  const candidates = [
+    {
+      provider: "twilio" as const,
+      account_sid: env("TWILIO_ACCOUNT_SID"),
+      api_key: env("TWILIO_AUTH_TOKEN"),
+      api_secret: null,
+      from_number: env("TWILIO_FROM_NUMBER"),
+      webhook_secret: env("TWILIO_AUTH_TOKEN"),
+    },
+    {
+      provider: "exotel" as const,
+      account_sid: env("EXOTEL_ACCOUNT_SID"),
+      api_key: env("EXOTEL_API_KEY"),
+      api_secret: env("EXOTEL_API_TOKEN"),
+      from_number: env("EXOTEL_FROM_NUMBER"),
+      webhook_secret: env("EXOTEL_WEBHOOK_TOKEN"),
+    },
+    {
+      provider: "telnyx" as const,
+      account_sid: env("TELNYX_CONNECTION_ID"),
+      api_key: env("TELNYX_API_KEY"),
+      api_secret: null,
+      from_number: env("TELNYX_FROM_NUMBER"),
+      webhook_secret: env("TELNYX_PUBLIC_KEY"),
+    },
+  ];
+
+  return candidates
+    .filter((a) => a.account_sid && a.api_key && a.from_number && a.webhook_secret)
+    .map((a) => ({ ...a, answer_url: answerUrl }) as TelephonyAccountRow);
+}
+
+/**
+ * A router over the client's own provider accounts, or over the platform's
+ * when the client has none. Null when neither exists and the client dials
+ * through its n8n workflow. Every attempt is recorded in
+ * telephony_provider_attempts for the provider health report.
+ */
+async function loadClientDialer(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  clientId: string,
+  platform: TelephonyAccountRow[]
+): Promise<ClientDialer | null> {
+  const { data: accounts, error: accountsError } = await supabaseAdmin
+    .from("client_telephony_accounts")
+    .select("provider, account_sid, api_key, api_secret, from_number, webhook_secret, answer_url")
+    .eq("client_id", clientId)
+    .eq("is_active", true);
+  if (accountsError) throw accountsError;
+
+  const rows = accounts?.length ? (accounts as TelephonyAccountRow[]) : platform;
+  if (!rows.length) return null;
+
+  const [routesRes, ratesRes] = await Promise.all([
+    supabaseAdmin.from("telephony_routes").select("client_id, country_prefix, providers, strategy"),
+    supabaseAdmin.from("telephony_rates").select("provider, prefix, rate_per_minute"),
+  ]);
+  if (routesRes.error) throw routesRes.error;
+  if (ratesRes.error) throw ratesRes.error;
+
+  const configs: TelephonyConfig[] = rows.map((a) => ({
+    provider: a.provider,
+    accountSid: a.account_sid,
+    apiKey: a.api_key,
+    apiSecret: a.api_secret ?? undefined,
+    fromNumber: a.from_number,
+  }));
+
+  const router = new TelephonyRouter(configs, {
+    ...routerOptionsFromRows((routesRes.data ?? []) as RouteRow[], (ratesRes.data ?? []) as RateRow[]),
+    onAttempt: async (attempt, to) => {
+      const { error } = await supabaseAdmin.from("telephony_provider_attempts").insert({
+        client_id: clientId,
+        provider: attempt.provider,
+        destination: normalizeNumber(to),
+        success: attempt.success,
+        error_message: attempt.error ?? null,
+        latency_ms: attempt.latencyMs,
+      });
+      if (error) console.error("Failed to record provider attempt:", error);
+    },
+  });
+
+  return { router, accounts: new Map(rows.map((a) => [a.provider, a])) };
+}
+
+/**
+ * Campaign dialer tick.
+ *
+ * Invoked every minute by the scheduler (pg_cron) and kicked by
+ * trigger-telecaller-campaign / handle-call-status. Scheduled campaigns whose
+ * start time has passed are started first. For each running campaign
+ * it claims as many contacts as the concurrency and calls-per-minute limits
+ * allow and dispatches them one at a time, reserving each call against the
+ * client's usage limit first. Calls are dialed directly through the telephony
+ * router, over the client's own provider accounts or else the platform's, with
+ * status callbacks to telephony-status-webhook; without either they go through
+ * the client's n8n workflow.
+ * All queue state lives in campaign_contacts, so a crashed or paused run picks
+ * up where it left off on the next tick.
+ */
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Only the scheduler and other edge functions may drive the dialer
+    if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ success: false, error: "Not authorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseAdmin = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+
+    const body = await req.json().catch(() => ({}));
+    const campaignId: string | undefined = body?.campaign_id;
+
+    // Campaigns launched for later start once their time has come
+    const { error: promoteError } = await supabaseAdmin
+      .from("voice_campaigns")
+      .update({ status: "running", started_at: new Date().toISOString() })
+      .eq("status", "scheduled")
+      .lte("scheduled_at", new Date().toISOString());
+    if (promoteError) {
+      console.error("Could not start scheduled campaigns:", promoteError);
+    }
+
+    let campaignQuery = supabaseAdmin
+      .from("voice_campaigns")
+      .select("id, campaign_name, client_id, script, default_timezone, agent_settings")
+      .eq("status", "running");
+
+    if (campaignId) {
+      campaignQuery = campaignQuery.eq("id", campaignId);
+    }
+
+    const { data: campaigns, error: campaignsError } = await campaignQuery;
+
+    if (campaignsError) {
+      return new Response(
+        JSON.stringify({ success: false, error: campaignsError.message }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: service } = await supabaseAdmin
+      .from("services")
+      .select("id")
+      .eq("slug", "voice-telecaller")
+      .maybeSingle();
+
+    const results: {
+      campaign_id: string;
+      dispatched: number;
+      deferred: number;
+      suppressed?: number;
+      failed?: number;
+      error?: string;
+    }[] = [];
+
+    const statusWebhookUrl = `${Deno.env.get("SUPABASE_URL")}/functions/v1/telephony-status-webhook`;
+    const dialers = new Map<string, ClientDialer | null>();
+    const platform = platformAccounts();
+
+    for (const campaign of campaigns || []) {
+      if (!dialers.has(campaign.client_id)) {
+        try {
+          dialers.set(campaign.client_id, await loadClientDialer(supabaseAdmin, campaign.client_id, platform));
+        } catch (err) {
+          console.error("Could not load telephony accounts for client", campaign.client_id, err);
+          results.push({ campaign_id: campaign.id, dispatched: 0, deferred: 0, error: err.message });
+          continue;
+        }
+      }
+      const dialer = dialers.get(campaign.client_id) ?? null;
+
+      const { data: workflowInstance } = await supabaseAdmin
+        .from("client_workflow_instances")
+        .select("id, webhook_url")
+        .eq("client_id", campaign.client_id)
+        .eq("service_id", service?.id ?? "")
+        .eq("is_active", true)
+        .maybeSingle();
+
+      if (!dialer && !workflowInstance?.webhook_url) {
+        results.push({
+          campaign_id: campaign.id,
+          dispatched: 0,
+          deferred: 0,
+          error: "No active workflow found for Voice Telecaller",
+        });
+        continue;
+      }
+
+      const { data: contacts, error: claimError } = await supabaseAdmin.rpc("claim_campaign_contacts", {
+        p_campaign_id: campaign.id,
+      });
+
+      if (claimError) {
+        console.error("Claim failed for campaign", campaign.id, claimError);
+        results.push({ campaign_id: campaign.id, dispatched: 0, deferred: 0, error: claimError.message });
+        continue;
+      }
+
+      let dispatched = 0;
+      let deferred = 0;
+      let suppressed = 0;
+      let failed = 0;
+      let limitReason: string | null = null;
+
+      // Hard Do-Not-Call check right before dialing. Without an answer nobody
+      // is dialed: the claimed contacts go back to the queue.
+      const { data: suppressedPhones, error: suppressionError } = await supabaseAdmin.rpc("get_suppressed_phones", {
+        p_client_id: campaign.client_id,
+        p_phones: (contacts || []).map((c: { phone_number: string }) => c.phone_number),
+        p_channel: "voice",
+      });
+      if (suppressionError) {
+        console.error("Suppression check failed for campaign", campaign.id, suppressionError);
+        for (const contact of contacts || []) {
+          await supabaseAdmin
+            .from("campaign_contacts")
+            .update({
+              call_status: "pending",
+              attempt_count: Math.max((contact.attempt_count || 1) - 1, 0),
+              next_attempt_at: new Date(Date.now() + DISPATCH_RETRY_MS).toISOString(),
+              last_error: `Do-Not-Call check failed: ${suppressionError.message}`,
+            })
+            .eq("id", contact.id);
+        }
+        results.push({
+          campaign_id: campaign.id,
+          dispatched: 0,
+          deferred: (contacts || []).length,
+          error: suppressionError.message,
+        });
+        continue;
+      }
+      const suppressedSet = new Set<string>(suppressedPhones || []);
+
+      for (const contact of contacts || []) {
+        if (suppressedSet.has(contact.phone_number)) {
+          await supabaseAdmin
+            .from("campaign_contacts")
+            .update({ call_status: "suppressed", last_error: "Number is on a Do-Not-Call list" })
+            .eq("id", contact.id);
+          suppressed++;
+          continue;
+        }
+
+        let reservationId: string | null = null;
+        if (!limitReason) {
+          const { data: usage, error: usageError } = await supabaseAdmin.rpc("reserve_usage", {
+            p_client_id: campaign.client_id,
+            p_service_slug: "voice-telecaller",
+            p_amount: 1,
+            p_source: "voice_campaign",
+            p_reference_id: contact.id,
+            p_hold_seconds: CALL_USAGE_HOLD_SECONDS,
+          });
+          if (usageError || !usage?.allowed) {
+            limitReason = usageError?.message ?? usage?.reason ?? "Usage limit reached";
+          } else {
+            reservationId = usage.reservation_id;
+          }
+        }
+
+        if (!reservationId) {
+          await supabaseAdmin
+            .from("campaign_contacts")
+            .update({
+              call_status: "pending",
+              attempt_count: Math.max((contact.attempt_count || 1) - 1, 0),
+              next_attempt_at: new Date(Date.now() + USAGE_LIMIT_RETRY_MS).toISOString(),
+              last_error: limitReason,
+            })
+            .eq("id", contact.id);
+          deferred++;
+          continue;
+        }
+
+        let dispatchError: string | null = null;
+        let unroutable = false;
+        if (dialer) {
+          try {
+            await dialer.router.makeCall({ to: contact.phone_number, record: true }, campaign.client_id, (provider) => {
+              const account = dialer.accounts.get(provider)!;
+              let answerUrl: string | undefined;
+              if (account.answer_url) {
+                const url = new URL(account.answer_url);
+                url.searchParams.set("campaign_id", campaign.id);
+                url.searchParams.set("contact_id", contact.id);
+                answerUrl = url.toString();
+              }
+              return {
+                url: answerUrl,
+                statusCallback: buildStatusCallbackUrl(statusWebhookUrl, provider, {
+                  clientId: campaign.client_id,
+                  campaignId: campaign.id,
+                  contactId: contact.id,
+                  // Exotel does not sign callbacks, so the URL carries the account's token
+                  token: provider === "exotel" ? account.webhook_secret : undefined,
+                }),
+              };
+            });
+          } catch (err) {
+            dispatchError = err.message;
+            unroutable = err instanceof TelephonyRoutingError && err.unroutable;
+          }
+        } else {
+          // One contact per webhook call keeps the n8n template's contacts loop unchanged
+          const payload = {
+            campaign_id: campaign.id,
+            campaign_name: campaign.campaign_name,
+            client_id: campaign.client_id,
+            script: campaign.script,
+            agent_settings: campaign.agent_settings,
+            contacts: [
+              {
+                id: contact.id,
+                phone: contact.phone_number,
+                name: contact.contact_name,
+                data: contact.contact_data,
+                attempt: contact.attempt_count,
+                timezone: contact.timezone ?? campaign.default_timezone,
+              },
+            ],
+            workflow_instance_id: workflowInstance.id,
+          };
+
+          try {
+            const n8nResponse = await fetch(workflowInstance.webhook_url, {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify(payload),
+            });
+            if (!n8nResponse.ok) {
+              dispatchError = `n8n webhook failed: ${n8nResponse.status} ${n8nResponse.statusText}`;
+            }
+          } catch (err) {
+            dispatchError = `n8n webhook unreachable: ${err.message}`;
+          }
+        }
+
+        if (dispatchError && unroutable) {
+          // No provider serves this destination, so retrying cannot help
+          await supabaseAdmin.rpc("release_usage", { p_reservation_id: reservationId });
+          await supabaseAdmin
+            .from("campaign_contacts")
+            .update({ call_status: "failed", last_outcome: "failed", last_error: dispatchError })
+            .eq("id", contact.id);
+          failed++;
+        } else if (dispatchError) {
+          // The call never left, so give the attempt back and try again shortly
+          console.error("Dispatch failed for contact", contact.id, dispatchError);
+          await supabaseAdmin.rpc("release_usage", { p_reservation_id: reservationId });
+          await supabaseAdmin
+            .from("campaign_contacts")
+            .update({
+              call_status: "pending",
+              attempt_count: Math.max((contact.attempt_count || 1) - 1, 0),
+              next_attempt_at: new Date(Date.now() + DISPATCH_RETRY_MS).toISOString(),
+              last_error: dispatchError,
+            })
+            .eq("id", contact.id);
+          deferred++;
+        } else {
+          dispatched++;
+        }
+      }
+
+      results.push({ campaign_id: campaign.id, dispatched, deferred, suppressed, failed });
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, results }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,4 +1,6 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { workflowWebhookUrls } from "../_shared/n8n.ts";
+import { loadN8nClient, renderInstanceWorkflow } from "../_shared/n8n-provisioning.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -105,12 +107,27 @@ Deno.serve(async (req) => {
       .limit(1)
       .maybeSingle();
 
-    // Create workflow instance
+    if (!template) {
+      return new Response(JSON.stringify({ error: "No active workflow template for this service" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const n8n = await loadN8nClient(supabaseAdmin);
+    if (!n8n) {
+      return new Response(JSON.stringify({ error: "n8n is not configured. Set its URL and API key on the n8n controller page." }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Create workflow instance; the real n8n id is filled in once provisioned
     const workflowData: Record<string, unknown> = {
       client_id,
       service_id,
       workflow_name: `${service.name} - Workflow`,
-      n8n_workflow_id: `placeholder_${Date.now()}`,
+      n8n_workflow_id: "provisioning",
       status: "pending",
       is_active: false,
       created_by: userId,
@@ -119,6 +136,7 @@ Deno.serve(async (req) => {
 
     if (template) {
       workflowData.workflow_template_id = template.id;
+      workflowData.template_version = template.version;
     }
 
     const { data: instance, error: insertErr } = await supabaseAdmin
@@ -146,7 +164,39 @@ Deno.serve(async (req) => {
       await supabaseAdmin.from("client_workflow_credentials").insert(credentialInserts);
     }
 
-    return new Response(JSON.stringify({ success: true, workflow: instance }), {
+    // Copy the template into n8n, inactive until the credentials are configured
+    let provisioned;
+    try {
+      const { workflow } = await renderInstanceWorkflow(supabaseAdmin, n8n.client, instance);
+      const created = await n8n.client.createWorkflow(workflow);
+      const { webhookUrl, testWebhookUrl } = workflowWebhookUrls(n8n.baseUrl, created);
+
+      const { data, error: updateErr } = await supabaseAdmin
+        .from("client_workflow_instances")
+        .update({
+          n8n_workflow_id: created.id,
+          webhook_url: webhookUrl,
+          test_webhook_url: testWebhookUrl,
+          provisioned_at: new Date().toISOString(),
+        })
+        .eq("id", instance.id)
+        .select()
+        .single();
+      if (updateErr) {
+        await n8n.client.deleteWorkflow(created.id).catch(() => {});
+        throw updateErr;
+      }
+      provisioned = data;
+    } catch (err) {
+      // Credentials rows go with the instance (ON DELETE CASCADE)
+      await supabaseAdmin.from("client_workflow_instances").delete().eq("id", instance.id);
+      return new Response(JSON.stringify({ error: `Could not create the workflow in n8n: ${err.message}` }), {
+        status: 502,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify({ success: true, workflow: provisioned }), {
       status: 200,
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
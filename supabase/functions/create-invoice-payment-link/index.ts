@@ -0,0 +1,157 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient } from "npm:@supabase/supabase-js@2"
+import { createPaymentProvider, type PaymentProviderConfig, type PaymentProviderName } from "../_shared/payment-providers.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const APP_URL = Deno.env.get('APP_URL') ?? 'http://localhost:8080'
+
+// Links this close to expiring are replaced rather than handed out
+const LINK_EXPIRY_MARGIN_MS = 10 * 60 * 1000
+
+function providerConfigFromEnv(): PaymentProviderConfig {
+  const provider = (Deno.env.get('PAYMENT_PROVIDER') ?? 'razorpay') as PaymentProviderName
+  switch (provider) {
+    case 'stripe':
+      return {
+        provider,
+        apiKey: Deno.env.get('STRIPE_SECRET_KEY'),
+        webhookSecret: Deno.env.get('STRIPE_WEBHOOK_SECRET') ?? '',
+      }
+    case 'razorpay':
+      return {
+        provider,
+        apiKey: Deno.env.get('RAZORPAY_KEY_ID'),
+        apiSecret: Deno.env.get('RAZORPAY_KEY_SECRET'),
+        webhookSecret: Deno.env.get('RAZORPAY_WEBHOOK_SECRET') ?? '',
+      }
+    case 'fake':
+      return {
+        provider,
+        webhookSecret: Deno.env.get('FAKE_PAYMENT_SECRET') ?? '',
+        checkoutBaseUrl: Deno.env.get('FAKE_CHECKOUT_BASE_URL'),
+      }
+    default:
+      throw new Error(`Unsupported PAYMENT_PROVIDER: ${provider}`)
+  }
+}
+
+/**
+ * Creates (or returns the existing) hosted checkout link for a sent or
+ * overdue invoice. An existing link is only reused while it charges the
+ * current outstanding amount and has not expired. The caller must be able
+ * to read the invoice under RLS, i.e. be the client, the client's admin or
+ * a super admin.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      throw new Error("Missing Authorization header")
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+
+    // Reading through the caller's JWT doubles as the ownership check
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } }
+    })
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
+
+    const { invoice_id, force } = await req.json()
+    if (!invoice_id) {
+      throw new Error("invoice_id is required")
+    }
+
+    const { data: invoice, error: invoiceError } = await supabase
+      .from('invoices')
+      .select('id, client_id, invoice_number, status, total_amount, amount_paid, amount_refunded, billing_period_start, wallet_top_up, payment_link_url, payment_provider, payment_link_amount, payment_link_expires_at')
+      .eq('id', invoice_id)
+      .maybeSingle()
+    if (invoiceError) throw invoiceError
+    if (!invoice) {
+      throw new Error("Invoice not found")
+    }
+    if (invoice.status !== 'sent' && invoice.status !== 'overdue') {
+      throw new Error(`Only sent or overdue invoices can be paid online (this one is ${invoice.status})`)
+    }
+
+    const outstanding = Math.round(
+      (Number(invoice.total_amount) - Number(invoice.amount_paid ?? 0) + Number(invoice.amount_refunded ?? 0)) * 100
+    ) / 100
+    if (outstanding <= 0) {
+      throw new Error("Nothing is outstanding on this invoice")
+    }
+
+    const config = providerConfigFromEnv()
+    const linkIsCurrent = invoice.payment_link_url
+      && invoice.payment_provider === config.provider
+      && Number(invoice.payment_link_amount) === outstanding
+      && (!invoice.payment_link_expires_at
+        || new Date(invoice.payment_link_expires_at).getTime() - Date.now() > LINK_EXPIRY_MARGIN_MS)
+    if (linkIsCurrent && !force) {
+      return new Response(
+        JSON.stringify({ url: invoice.payment_link_url, provider: invoice.payment_provider }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      )
+    }
+
+    const { data: client } = await supabaseAdmin
+      .from('clients')
+      .select('company_name, user_id')
+      .eq('id', invoice.client_id)
+      .maybeSingle()
+    const { data: profile } = client?.user_id
+      ? await supabaseAdmin.from('profiles').select('email').eq('user_id', client.user_id).maybeSingle()
+      : { data: null }
+
+    const session = await createPaymentProvider(config).createCheckout({
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoice_number,
+      amount: outstanding,
+      currency: 'INR',
+      description: invoice.wallet_top_up
+        ? 'Prepaid wallet top-up'
+        : invoice.billing_period_start
+          ? `Usage for ${invoice.billing_period_start.slice(0, 7)}`
+          : `Invoice ${invoice.invoice_number}`,
+      customerEmail: profile?.email ?? undefined,
+      customerName: client?.company_name ?? undefined,
+      returnUrl: `${APP_URL}/client/usage?invoice=${invoice.id}`,
+      // A top-up only credits the wallet once it is paid in full
+      allowPartial: !invoice.wallet_top_up,
+    })
+
+    const { error: updateError } = await supabaseAdmin
+      .from('invoices')
+      .update({
+        payment_link_url: session.url,
+        payment_provider: session.provider,
+        payment_link_reference: session.reference,
+        payment_link_amount: outstanding,
+        payment_link_expires_at: session.expiresAt,
+      })
+      .eq('id', invoice.id)
+    if (updateError) throw updateError
+
+    return new Response(
+      JSON.stringify({ url: session.url, provider: session.provider }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    )
+  } catch (error) {
+    console.error("Error in create-invoice-payment-link:", error)
+    return new Response(
+      JSON.stringify({ error: (error instanceof Error && error.message) || "Unknown error occurred" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    )
+  }
+})
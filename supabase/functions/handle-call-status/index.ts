@@ -1,25 +1,67 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { SIGNATURE_TOLERANCE_SECONDS, hmacSha256Hex, timingSafeEqual } from "../_shared/webhook-signature.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+    "authorization, x-client-info, apikey, content-type, x-webhook-timestamp, x-webhook-signature, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
 };
 
+/**
+ * Call status callback from the client's n8n workflow.
+ *
+ * Every delivery must be signed with the workflow instance's webhook secret:
+ *   X-Webhook-Timestamp: <unix seconds>
+ *   X-Webhook-Signature: v1=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+ * `provider_call_id` is the idempotency key, so retried deliveries are no-ops.
+ * Rejected deliveries are recorded in webhook_rejections.
+ */
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
-  try {
-    const supabaseAdmin = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  const supabaseAdmin = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  const rawBody = await req.text();
+  let payload: Record<string, unknown> | null = null;
+
+  const reject = async (status: number, reason: string, workflowInstanceId?: string | null) => {
+    const { error: logError } = await supabaseAdmin.from("webhook_rejections").insert({
+      endpoint: "handle-call-status",
+      reason,
+      workflow_instance_id: workflowInstanceId ?? null,
+      source_ip: req.headers.get("x-forwarded-for"),
+      headers: {
+        "user-agent": req.headers.get("user-agent"),
+        "x-webhook-timestamp": req.headers.get("x-webhook-timestamp"),
+        "x-webhook-signature": req.headers.get("x-webhook-signature") ? "present" : null,
+      },
+      payload: payload ?? { raw: rawBody.slice(0, 2000) },
+    });
+
+    if (logError) {
+      console.error("Failed to record webhook rejection:", logError);
+    }
+
+    return new Response(
+      JSON.stringify({ success: false, error: reason }),
+      { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
+  };
 
-    const payload = await req.json();
+  try {
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return await reject(400, "Invalid JSON body");
+    }
 
     const {
+      provider_call_id,
       campaign_id,
       contact_id,
       phone_number,
@@ -32,123 +74,109 @@ Deno.serve(async (req) => {
       lead_score,
       client_id,
       workflow_instance_id,
-    } = payload;
+    } = payload ?? {};
 
-    if (!client_id || !phone_number || !campaign_id) {
-      return new Response(
-        JSON.stringify({ success: false, error: "client_id, phone_number, and campaign_id are required" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    if (!workflow_instance_id) {
+      return await reject(401, "workflow_instance_id is required to verify the signature");
     }
+    const instanceId = String(workflow_instance_id);
+
+    // Verify the HMAC signature against the instance's secret
+    const timestamp = req.headers.get("x-webhook-timestamp");
+    const signature = req.headers.get("x-webhook-signature");
 
-    // Get telecaller service id
-    const { data: service } = await supabaseAdmin
-      .from("services")
-      .select("id")
-      .eq("slug", "voice-telecaller")
+    if (!timestamp || !signature) {
+      return await reject(401, "Missing signature headers", instanceId);
+    }
+
+    const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+    if (!Number.isFinite(age) || age > SIGNATURE_TOLERANCE_SECONDS) {
+      return await reject(401, "Signature timestamp outside tolerance", instanceId);
+    }
+
+    const { data: instance } = await supabaseAdmin
+      .from("client_workflow_instances")
+      .select("id, client_id, workflow_webhook_secrets(secret)")
+      .eq("id", instanceId)
       .maybeSingle();
 
-    const serviceId = service?.id ?? null;
-
-    // Insert call log
-    const { data: callLog, error: callLogError } = await supabaseAdmin
-      .from("call_logs")
-      .insert({
-        client_id,
-        workflow_instance_id: workflow_instance_id ?? null,
-        service_id: serviceId,
-        call_type: "outbound",
-        phone_number,
-        status: call_status ?? "completed",
-        duration_seconds: duration_seconds ?? 0,
-        recording_url: recording_url ?? null,
-        transcript: transcript ?? null,
-        ai_summary: ai_summary ?? null,
-        executed_at: new Date().toISOString(),
-        completed_at: new Date().toISOString(),
-      })
-      .select()
-      .single();
-
-    if (callLogError) {
-      console.error("Call log insert error:", callLogError);
-      return new Response(
-        JSON.stringify({ success: false, error: callLogError.message }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    const secret = (instance?.workflow_webhook_secrets as { secret: string } | null)?.secret;
+    if (!instance || !secret) {
+      return await reject(401, "Unknown workflow instance", instanceId);
+    }
+
+    const expected = `v1=${await hmacSha256Hex(secret, `${timestamp}.${rawBody}`)}`;
+    if (!timingSafeEqual(signature, expected)) {
+      return await reject(401, "Invalid signature", instanceId);
+    }
+
+    if (client_id !== instance.client_id) {
+      return await reject(403, "client_id does not match the workflow instance", instanceId);
+    }
+
+    if (!provider_call_id || !phone_number || !campaign_id) {
+      return await reject(400, "provider_call_id, phone_number, and campaign_id are required", instanceId);
     }
 
-    // Update campaign contact if contact_id provided
+    // A signed delivery may only settle the queue entries of its own client's campaigns
     if (contact_id) {
-      await supabaseAdmin
+      const { data: contact } = await supabaseAdmin
         .from("campaign_contacts")
-        .update({
-          call_status: call_status ?? "completed",
-          call_log_id: callLog.id,
-        })
-        .eq("id", contact_id);
-    }
+        .select("id, campaign_id, voice_campaigns!inner(client_id)")
+        .eq("id", String(contact_id))
+        .maybeSingle();
 
-    // Update campaign progress
-    const { data: campaign } = await supabaseAdmin
-      .from("voice_campaigns")
-      .select("contacts_called, contacts_answered, total_contacts")
-      .eq("id", campaign_id)
-      .single();
-
-    if (campaign) {
-      const newContactsCalled = (campaign.contacts_called || 0) + 1;
-      const newAnswered =
-        call_status === "answered" || call_status === "completed"
-          ? (campaign.contacts_answered || 0) + 1
-          : campaign.contacts_answered || 0;
-      const isCompleted = newContactsCalled >= (campaign.total_contacts || 0);
-
-      await supabaseAdmin
-        .from("voice_campaigns")
-        .update({
-          contacts_called: newContactsCalled,
-          contacts_answered: newAnswered,
-          status: isCompleted ? "completed" : "running",
-          completed_at: isCompleted ? new Date().toISOString() : null,
-        })
-        .eq("id", campaign_id);
-
-      // Send completion notification
-      if (isCompleted) {
-        // Get client user_id for notification
-        const { data: client } = await supabaseAdmin
-          .from("clients")
-          .select("user_id")
-          .eq("id", client_id)
-          .single();
-
-        if (client) {
-          await supabaseAdmin.from("notifications").insert({
-            user_id: client.user_id,
-            title: "Campaign Completed",
-            message: `Your campaign has finished. ${newContactsCalled} contacts called.`,
-            type: "success",
-            action_url: "/client/voice-telecaller",
-          });
-        }
+      const contactClientId = (contact?.voice_campaigns as { client_id: string } | null)?.client_id;
+      if (!contact || contactClientId !== instance.client_id || contact.campaign_id !== campaign_id) {
+        return await reject(403, "contact_id does not belong to this client's campaign", instanceId);
       }
     }
 
-    // Create lead if detected
-    if (is_lead) {
-      await supabaseAdmin.from("leads").insert({
-        client_id,
-        call_log_id: callLog.id,
-        campaign_id,
-        lead_source: "telecaller",
-        phone: phone_number,
-        lead_score: lead_score ?? 50,
-        status: "new",
-        notes: ai_summary ?? null,
+    // Call log, queue outcome, lead and usage are recorded atomically; replays are no-ops
+    const { data: result, error: ingestError } = await supabaseAdmin.rpc("ingest_call_status", {
+      p_provider_call_id: String(provider_call_id),
+      p_client_id: client_id,
+      p_campaign_id: campaign_id,
+      p_phone_number: phone_number,
+      p_call_status: call_status ?? "completed",
+      p_workflow_instance_id: instanceId,
+      p_contact_id: contact_id ?? null,
+      p_duration_seconds: duration_seconds ?? 0,
+      p_recording_url: recording_url ?? null,
+      p_transcript: transcript ?? null,
+      p_ai_summary: ai_summary ?? null,
+      p_is_lead: !!is_lead,
+      p_lead_score: lead_score ?? null,
+    });
+
+    if (ingestError) {
+      console.error("Call status ingest error:", ingestError);
+      return new Response(
+        JSON.stringify({ success: false, error: ingestError.message }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (result.duplicate) {
+      return new Response(
+        JSON.stringify({ success: true, duplicate: true, call_log_id: result.call_log_id }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // A dialer slot just freed up, so dial the next contact right away
+    if (result.final && contact_id) {
+      const { error: dialerError } = await supabaseAdmin.functions.invoke("campaign-dialer", {
+        body: { campaign_id },
       });
 
-      // Notify client about new lead
+      if (dialerError) {
+        console.error("Dialer kick failed, scheduled tick will pick it up:", dialerError);
+      }
+    }
+
+    // Notify client about new lead
+    if (result.lead_id) {
       const { data: client } = await supabaseAdmin
         .from("clients")
         .select("user_id")
@@ -166,24 +194,8 @@ Deno.serve(async (req) => {
       }
     }
 
-    // Track usage
-    await supabaseAdmin.from("usage_tracking").insert({
-      client_id,
-      service_id: serviceId,
-      usage_type: "outbound_call",
-      quantity: 1,
-      metadata: { campaign_id, call_status, duration_seconds },
-    });
-
-    // Increment client service usage
-    await supabaseAdmin.rpc("increment_usage", {
-      p_client_id: client_id,
-      p_service_slug: "voice-telecaller",
-      p_amount: 1,
-    });
-
     return new Response(
-      JSON.stringify({ success: true, call_log_id: callLog.id }),
+      JSON.stringify({ success: true, call_log_id: result.call_log_id }),
       { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
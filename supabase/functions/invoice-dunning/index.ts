@@ -0,0 +1,164 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { dunningEmail, type DunningStepType } from "../_shared/dunning-email.ts";
+import type { Tables } from "../../../src/integrations/supabase/types.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+type DunningInvoice = Pick<
+  Tables<"invoices">,
+  | "invoice_number"
+  | "due_date"
+  | "total_amount"
+  | "amount_paid"
+  | "amount_refunded"
+  | "payment_link_url"
+  | "payment_link_expires_at"
+>;
+
+type DunningClient = Pick<Tables<"clients">, "company_name" | "user_id">;
+
+// Pending emails handled per run; the rest go out on the next one
+const EMAIL_BATCH_SIZE = 100;
+
+async function sendEmail(to: string, subject: string, text: string): Promise<void> {
+  const res = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${Deno.env.get("RESEND_API_KEY")}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      from: Deno.env.get("DUNNING_FROM_EMAIL") ?? "billing@pixoranest.com",
+      to: [to],
+      subject,
+      text,
+    }),
+  });
+  if (!res.ok) {
+    throw new Error(`Email provider returned ${res.status}: ${(await res.text()).slice(0, 200)}`);
+  }
+}
+
+/**
+ * Dunning run.
+ *
+ * Invoked daily by the scheduler (pg_cron). run_dunning moves past-due
+ * invoices to overdue, logs reminders and suspends services per each client's
+ * schedule; this function then emails every step still pending. Without
+ * RESEND_API_KEY the emails are marked skipped and only in-app notifications
+ * go out.
+ */
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Only the scheduler may run dunning
+    if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ success: false, error: "Not authorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseAdmin = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+
+    const { data: summary, error: runError } = await supabaseAdmin.rpc("run_dunning");
+    if (runError) {
+      return new Response(
+        JSON.stringify({ success: false, error: runError.message }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: steps, error: stepsError } = await supabaseAdmin
+      .from("invoice_dunning_steps")
+      .select("id, step, created_at, invoices(invoice_number, due_date, total_amount, amount_paid, amount_refunded, payment_link_url, payment_link_expires_at), clients(company_name, user_id)")
+      .eq("email_status", "pending")
+      .order("created_at", { ascending: true })
+      .limit(EMAIL_BATCH_SIZE);
+
+    if (stepsError) {
+      return new Response(
+        JSON.stringify({ success: false, error: stepsError.message }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const canEmail = Boolean(Deno.env.get("RESEND_API_KEY"));
+    let sent = 0;
+    let failed = 0;
+
+    for (const step of steps ?? []) {
+      const invoice = step.invoices as unknown as DunningInvoice | null;
+      const client = step.clients as unknown as DunningClient | null;
+
+      const { data: profile } = client?.user_id
+        ? await supabaseAdmin.from("profiles").select("email").eq("user_id", client.user_id).maybeSingle()
+        : { data: null };
+
+      if (!canEmail || !profile?.email || !invoice) {
+        await supabaseAdmin
+          .from("invoice_dunning_steps")
+          .update({ email_status: "skipped", email_error: canEmail ? "No email address on file" : "Email not configured" })
+          .eq("id", step.id);
+        continue;
+      }
+
+      const outstanding = Math.max(
+        Number(invoice.total_amount) - Number(invoice.amount_paid ?? 0) + Number(invoice.amount_refunded ?? 0),
+        0
+      );
+      const daysOverdue = Math.max(
+        Math.floor((new Date(step.created_at).getTime() - new Date(`${invoice.due_date}T00:00:00Z`).getTime()) / 86_400_000),
+        0
+      );
+      const email = dunningEmail({
+        step: step.step as DunningStepType,
+        companyName: client.company_name,
+        invoiceNumber: invoice.invoice_number,
+        outstanding,
+        dueDate: invoice.due_date,
+        daysOverdue,
+        // An expired checkout link is left out rather than sent dead
+        payUrl: invoice.payment_link_expires_at && new Date(invoice.payment_link_expires_at) <= new Date()
+          ? null
+          : invoice.payment_link_url,
+      });
+
+      try {
+        await sendEmail(profile.email, email.subject, email.text);
+        await supabaseAdmin
+          .from("invoice_dunning_steps")
+          .update({ email_status: "sent", emailed_at: new Date().toISOString(), email_error: null })
+          .eq("id", step.id);
+        sent++;
+      } catch (error) {
+        console.error("Dunning email failed:", error);
+        await supabaseAdmin
+          .from("invoice_dunning_steps")
+          .update({ email_status: "failed", email_error: error.message })
+          .eq("id", step.id);
+        failed++;
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, ...summary, emails_sent: sent, emails_failed: failed }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
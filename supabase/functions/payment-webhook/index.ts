@@ -0,0 +1,108 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createPaymentProvider, type PaymentProviderName } from "../_shared/payment-providers.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, stripe-signature, x-razorpay-signature, x-fake-signature",
+};
+
+const WEBHOOK_SECRETS: Record<PaymentProviderName, string> = {
+  stripe: "STRIPE_WEBHOOK_SECRET",
+  razorpay: "RAZORPAY_WEBHOOK_SECRET",
+  fake: "FAKE_PAYMENT_SECRET",
+};
+
+/**
+ * Receives gateway callbacks at /payment-webhook?provider=stripe|razorpay|fake,
+ * verifies the signature and applies payments and refunds to the invoice.
+ */
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseAdmin = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  const provider = new URL(req.url).searchParams.get("provider") as PaymentProviderName | null;
+  const rawBody = await req.text();
+
+  const reject = async (status: number, reason: string) => {
+    const { error: logError } = await supabaseAdmin.from("webhook_rejections").insert({
+      endpoint: `payment-webhook:${provider ?? "unknown"}`,
+      reason,
+      source_ip: req.headers.get("x-forwarded-for"),
+      headers: {
+        "user-agent": req.headers.get("user-agent"),
+        "content-type": req.headers.get("content-type"),
+      },
+      payload: { raw: rawBody.slice(0, 2000) },
+    });
+
+    if (logError) {
+      console.error("Failed to record webhook rejection:", logError);
+    }
+
+    return new Response(
+      JSON.stringify({ success: false, error: reason }),
+      { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  };
+
+  try {
+    if (!provider || !(provider in WEBHOOK_SECRETS)) {
+      return await reject(400, "Unknown or missing provider");
+    }
+
+    const gateway = createPaymentProvider({
+      provider,
+      webhookSecret: Deno.env.get(WEBHOOK_SECRETS[provider]) ?? "",
+    });
+
+    if (!(await gateway.verifyWebhook(rawBody, req.headers))) {
+      return await reject(401, `Invalid ${provider} signature`);
+    }
+
+    const event = gateway.parseWebhook(rawBody);
+
+    // Nothing that moves money on an invoice (e.g. payment_intent.created)
+    if (!event) {
+      return new Response(
+        JSON.stringify({ success: true, ignored: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: result, error: recordError } = await supabaseAdmin.rpc("record_invoice_payment", {
+      p_provider: provider,
+      p_kind: event.kind,
+      p_transaction_id: event.transactionId,
+      p_payment_id: event.paymentId,
+      p_invoice_id: event.invoiceId,
+      p_amount: event.amount,
+      p_currency: event.currency || null,
+    });
+
+    if (recordError) {
+      console.error("Invoice payment error:", recordError);
+      return new Response(
+        JSON.stringify({ success: false, error: recordError.message }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, ...result }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,163 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { Database } from "../../../src/integrations/supabase/types.ts";
+import {
+  applyPublishResults,
+  pendingPlatforms,
+  postToMultiplePlatforms,
+  socialConfigFromSettings,
+  socialPostFromRecord,
+  type PlatformPublishResult,
+  type SocialMediaConfig,
+} from "../_shared/social-media.ts";
+import { loadBrandConnections, type BrandConnection } from "../_shared/social-connections.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+// Posts published per tick
+const BATCH_SIZE = 25;
+
+const PLATFORM_TIMEOUT_MS = 30_000;
+
+const timedFetch: typeof fetch = (input, init) =>
+  fetch(input, { ...init, signal: AbortSignal.timeout(PLATFORM_TIMEOUT_MS) });
+
+/**
+ * The client's saved social settings: the post's workflow instance, or the
+ * client's Social Media Automation workflow.
+ */
+async function loadSettings(supabaseAdmin: SupabaseClient<Database>, post: { client_id: string; workflow_instance_id: string | null }) {
+  let query = supabaseAdmin.from("client_workflow_instances").select("custom_config");
+  if (post.workflow_instance_id) {
+    query = query.eq("id", post.workflow_instance_id);
+  } else {
+    const { data: service } = await supabaseAdmin
+      .from("services")
+      .select("id")
+      .eq("slug", "social-media-automation")
+      .maybeSingle();
+    if (!service) return {};
+    query = query.eq("client_id", post.client_id).eq("service_id", service.id);
+  }
+  const { data } = await query.maybeSingle();
+  return (data?.custom_config ?? {}) as Record<string, unknown>;
+}
+
+/**
+ * Scheduled social post publisher tick.
+ *
+ * Invoked every minute by the scheduler (pg_cron). Claims scheduled posts
+ * that are due, publishes each to the platforms it has not reached yet with
+ * the brand's OAuth connections (falling back to the accounts saved in the
+ * client's workflow settings), and records every platform's post id or error
+ * in platform_post_ids. A rejected token flags its connection for
+ * reconnecting. Rate limits and platform outages are retried
+ * with backoff; the post ends up posted, partial or failed.
+ */
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Only the scheduler and other edge functions may drive the publisher
+    if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ success: false, error: "Not authorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseAdmin = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+
+    const { data: posts, error: claimError } = await supabaseAdmin.rpc("claim_social_posts", { p_limit: BATCH_SIZE });
+    if (claimError) {
+      return new Response(
+        JSON.stringify({ success: false, error: claimError.message }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const counts: Record<string, number> = {};
+    const settingsCache = new Map<string, Record<string, unknown>>();
+    const brandCache = new Map<string, Map<string, BrandConnection>>();
+
+    for (const post of posts ?? []) {
+      // Over a blocking usage limit: the metering trigger already failed it
+      if (post.status !== "publishing") {
+        counts[post.status] = (counts[post.status] ?? 0) + 1;
+        continue;
+      }
+
+      const cacheKey = post.workflow_instance_id ?? `client:${post.client_id}`;
+      if (!settingsCache.has(cacheKey)) {
+        settingsCache.set(cacheKey, await loadSettings(supabaseAdmin, post));
+      }
+      const settings = settingsCache.get(cacheKey)!;
+
+      if (post.brand_id && !brandCache.has(post.brand_id)) {
+        const loaded = await loadBrandConnections(supabaseAdmin, post.brand_id).catch((err) => {
+          console.error("Could not load connections for brand", post.brand_id, err);
+          return new Map<string, BrandConnection>();
+        });
+        brandCache.set(post.brand_id, loaded);
+      }
+      const brandConnections = post.brand_id ? brandCache.get(post.brand_id)! : new Map<string, BrandConnection>();
+
+      const connected: SocialMediaConfig[] = [];
+      const results: PlatformPublishResult[] = [];
+      for (const platform of pendingPlatforms(post.platform, post.platform_post_ids)) {
+        const config = brandConnections.get(platform)?.config ?? socialConfigFromSettings(platform, settings);
+        if (config) connected.push(config);
+        else results.push({ platform, ok: false, error: `No connected ${platform} account`, transient: false });
+      }
+
+      const published = await postToMultiplePlatforms(connected, socialPostFromRecord(post), timedFetch);
+      for (const result of published) {
+        const connection = brandConnections.get(result.platform);
+        if (result.authFailed && connection) {
+          await supabaseAdmin.rpc("mark_social_connection_reconnect", {
+            p_connection_id: connection.connectionId,
+            p_error: result.error ?? "The access token was rejected",
+          });
+        }
+      }
+      results.push(...published);
+      const outcome = applyPublishResults(post.platform_post_ids, results, post.attempt_count);
+
+      const { error: updateError } = await supabaseAdmin
+        .from("social_media_posts")
+        .update({
+          status: outcome.status,
+          platform_post_ids: outcome.platform_post_ids,
+          error_message: outcome.error_message,
+          next_attempt_at: outcome.next_attempt_at,
+          posted_at: outcome.posted_at,
+        })
+        .eq("id", post.id);
+
+      if (updateError) {
+        console.error("Failed to record publish result for post", post.id, updateError);
+      } else if (outcome.error_message) {
+        console.error("Publish problems for post", post.id, outcome.error_message);
+      }
+      counts[outcome.status] = (counts[outcome.status] ?? 0) + 1;
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, claimed: (posts ?? []).length, ...counts }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
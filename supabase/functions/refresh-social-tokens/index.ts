@@ -0,0 +1,124 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  OAuthError,
+  openToken,
+  refreshAccessToken,
+  refreshAction,
+  type OAuthPlatform,
+} from "../_shared/social-oauth.ts";
+import { oauthAppFor, storeConnectionTokens, tokenKey } from "../_shared/social-connections.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+// Connections looked at per run: anything expiring within the longest refresh margin
+const LOOKAHEAD_DAYS = 14;
+
+const REFRESH_TIMEOUT_MS = 15_000;
+
+const timedFetch: typeof fetch = (input, init) =>
+  fetch(input, { ...init, signal: AbortSignal.timeout(REFRESH_TIMEOUT_MS) });
+
+function jsonResponse(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Social token refresh tick.
+ *
+ * Invoked every ten minutes by the scheduler (pg_cron). Refreshes the access
+ * tokens of connected accounts before they expire. A connection whose refresh
+ * token was rejected or is missing is flagged reconnect_needed, which
+ * notifies the client; outages are simply tried again on the next run.
+ */
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Only the scheduler and other edge functions may refresh tokens
+    if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+      return jsonResponse(401, { success: false, error: "Not authorized" });
+    }
+
+    const supabaseAdmin = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+
+    const horizon = new Date(Date.now() + LOOKAHEAD_DAYS * 86_400_000).toISOString();
+    const { data: connections, error } = await supabaseAdmin
+      .from("social_platform_connections")
+      .select("id, platform, token_expires_at, last_refreshed_at, connected_at, social_connection_tokens(refresh_token_sealed, refresh_token_expires_at)")
+      .eq("status", "connected")
+      .not("token_expires_at", "is", null)
+      .lt("token_expires_at", horizon);
+    if (error) return jsonResponse(500, { success: false, error: error.message });
+
+    const key = await tokenKey();
+    let refreshed = 0;
+    let reconnect = 0;
+    let failed = 0;
+
+    for (const conn of connections ?? []) {
+      const sealed = conn.social_connection_tokens?.refresh_token_sealed ?? null;
+      const refreshExpiresAt = conn.social_connection_tokens?.refresh_token_expires_at ?? null;
+      const action = refreshAction({
+        expiresAt: conn.token_expires_at,
+        issuedAt: conn.last_refreshed_at ?? conn.connected_at,
+        hasRefreshToken: Boolean(sealed),
+        refreshExpiresAt,
+      });
+      if (action === "none") continue;
+
+      if (action === "reconnect") {
+        await supabaseAdmin.rpc("mark_social_connection_reconnect", {
+          p_connection_id: conn.id,
+          p_error: "The access token is about to expire and cannot be refreshed",
+        });
+        reconnect++;
+        continue;
+      }
+
+      const platform = conn.platform as OAuthPlatform;
+      try {
+        const app = oauthAppFor(platform);
+        if (!app) throw new Error(`${platform} connections are not configured`);
+
+        const tokens = await refreshAccessToken(
+          platform,
+          app,
+          { refreshToken: await openToken(sealed!, key), refreshExpiresAt },
+          timedFetch
+        );
+        await storeConnectionTokens(supabaseAdmin, conn.id, tokens);
+        await supabaseAdmin
+          .from("social_platform_connections")
+          .update({ token_expires_at: tokens.expiresAt, last_refreshed_at: new Date().toISOString(), last_error: null })
+          .eq("id", conn.id);
+        refreshed++;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        if (err instanceof OAuthError && !err.transient) {
+          await supabaseAdmin.rpc("mark_social_connection_reconnect", { p_connection_id: conn.id, p_error: message });
+          reconnect++;
+        } else {
+          console.error("Token refresh failed for connection", conn.id, message);
+          await supabaseAdmin.from("social_platform_connections").update({ last_error: message }).eq("id", conn.id);
+          failed++;
+        }
+      }
+    }
+
+    return jsonResponse(200, { success: true, checked: (connections ?? []).length, refreshed, reconnect, failed });
+  } catch (error) {
+    console.error("Error:", error);
+    return jsonResponse(500, { success: false, error: error.message });
+  }
+});
@@ -0,0 +1,158 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { Database } from "../../../src/integrations/supabase/types.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+// Retries sent per scheduler run
+const BATCH_SIZE = 50;
+
+const DISPATCH_TIMEOUT_MS = 15_000;
+
+function jsonResponse(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+interface Dispatch {
+  execution_id: string;
+  workflow_instance_id: string;
+  webhook_url: string;
+  input_data: unknown;
+  attempt: number;
+  retry_of: string | null;
+}
+
+/**
+ * Sends an execution's input to the workflow's webhook. The headers let the
+ * workflow report back under our execution id. A webhook that cannot be
+ * reached fails the attempt, which schedules the next one per the policy.
+ */
+async function dispatch(supabaseAdmin: SupabaseClient<Database>, run: Dispatch): Promise<string | null> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "X-Pixora-Execution-Id": run.execution_id,
+    "X-Pixora-Attempt": String(run.attempt),
+  };
+  if (run.retry_of) headers["X-Pixora-Retry-Of"] = run.retry_of;
+
+  let dispatchError: string | null = null;
+  try {
+    const response = await fetch(run.webhook_url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(run.input_data ?? {}),
+      signal: AbortSignal.timeout(DISPATCH_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      dispatchError = `n8n webhook failed: ${response.status} ${response.statusText}`;
+    }
+  } catch (err) {
+    dispatchError = `n8n webhook unreachable: ${err.message}`;
+  }
+
+  if (dispatchError) {
+    const { error } = await supabaseAdmin.rpc("record_workflow_execution", {
+      p_workflow_instance_id: run.workflow_instance_id,
+      p_event: "error",
+      p_payload: { execution_id: run.execution_id, error: { message: dispatchError } },
+    });
+    if (error) console.error("Failed to record dispatch failure", run.execution_id, error);
+  }
+  return dispatchError;
+}
+
+/**
+ * Re-runs failed workflow executions with the same input.
+ *
+ * The scheduler (service role, every minute) sends the retries that are due
+ * under each template's retry_policy. A super admin can replay any execution
+ * with { action: "replay", execution_id }; the replay starts a new retry chain.
+ */
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAdmin = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return jsonResponse(401, { error: "Unauthorized" });
+    }
+
+    const isScheduler = authHeader === `Bearer ${serviceRoleKey}`;
+    let userId: string | null = null;
+
+    if (!isScheduler) {
+      const supabaseUser = createClient(
+        Deno.env.get("SUPABASE_URL")!,
+        Deno.env.get("SUPABASE_ANON_KEY")!,
+        { global: { headers: { Authorization: authHeader } } }
+      );
+      const { data: claimsData, error: claimsError } = await supabaseUser.auth.getClaims(authHeader.replace("Bearer ", ""));
+      if (claimsError || !claimsData?.claims) {
+        return jsonResponse(401, { error: "Unauthorized" });
+      }
+      userId = claimsData.claims.sub;
+
+      const { data: roleCheck } = await supabaseAdmin
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", userId)
+        .eq("role", "super_admin")
+        .maybeSingle();
+      if (!roleCheck) {
+        return jsonResponse(403, { error: "Forbidden" });
+      }
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const action = body.action ?? "retry";
+
+    if (action === "retry") {
+      const { data: due, error } = await supabaseAdmin.rpc("claim_workflow_retries", { p_limit: BATCH_SIZE });
+      if (error) return jsonResponse(500, { error: error.message });
+
+      let sent = 0;
+      let failed = 0;
+      for (const run of (due ?? []) as Dispatch[]) {
+        if (await dispatch(supabaseAdmin, run)) failed++;
+        else sent++;
+      }
+      return jsonResponse(200, { success: true, sent, failed });
+    }
+
+    if (action !== "replay") {
+      return jsonResponse(400, { error: `Unknown action: ${action}` });
+    }
+    if (isScheduler) {
+      return jsonResponse(403, { error: "Replays are started by a super admin" });
+    }
+    if (!body.execution_id) {
+      return jsonResponse(400, { error: "execution_id required" });
+    }
+
+    const { data: replay, error: replayError } = await supabaseAdmin.rpc("replay_workflow_execution", {
+      p_execution_id: body.execution_id,
+      p_user_id: userId,
+    });
+    if (replayError) return jsonResponse(409, { error: replayError.message });
+
+    const dispatchError = await dispatch(supabaseAdmin, { ...replay, attempt: 1, retry_of: null });
+    if (dispatchError) {
+      return jsonResponse(502, { error: dispatchError, execution_id: replay.execution_id });
+    }
+    return jsonResponse(200, { success: true, execution_id: replay.execution_id });
+  } catch (error) {
+    console.error("Error:", error);
+    return jsonResponse(500, { error: error.message });
+  }
+});
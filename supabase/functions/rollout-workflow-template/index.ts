@@ -0,0 +1,386 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { workflowWebhookUrls } from "../_shared/n8n.ts";
+import { loadN8nClient, renderInstanceWorkflow, type N8nConnection } from "../_shared/n8n-provisioning.ts";
+import { errorRate, rolloutDecision, type ExecutionStats } from "../_shared/workflow-rollout.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+// The window before a rollout that its error rate is compared against
+const BASELINE_HOURS = 24;
+
+interface Rollout {
+  id: string;
+  to_version: string;
+  status: string;
+  observation_minutes: number;
+  max_error_rate: number | string;
+  min_executions: number;
+  baseline_executions: number;
+  baseline_errors: number;
+  phase_started_at: string;
+  created_by: string | null;
+}
+
+interface RolloutInstanceRow {
+  workflow_instance_id: string;
+  from_version: string;
+  status?: string;
+}
+
+function jsonResponse(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+async function executionStats(supabaseAdmin: SupabaseClient, instanceIds: string[], since: string): Promise<ExecutionStats> {
+  if (instanceIds.length === 0) return { executions: 0, errors: 0 };
+  const { data, error } = await supabaseAdmin.rpc("workflow_execution_stats", {
+    p_instance_ids: instanceIds,
+    p_since: since,
+  });
+  if (error) throw error;
+  return { executions: Number(data?.executions ?? 0), errors: Number(data?.errors ?? 0) };
+}
+
+/**
+ * Moves one client workflow to a template version, keeping its custom_config.
+ * Workflows never provisioned in n8n only have their version recorded.
+ */
+async function moveToVersion(supabaseAdmin: SupabaseClient, n8n: N8nConnection | null, instanceId: string, version: string) {
+  const { data: instance } = await supabaseAdmin
+    .from("client_workflow_instances")
+    .select("*")
+    .eq("id", instanceId)
+    .single();
+
+  const update: Record<string, unknown> = { template_version: version };
+
+  if (instance.provisioned_at) {
+    if (!n8n) throw new Error("n8n is not configured");
+    const { workflow, missing } = await renderInstanceWorkflow(supabaseAdmin, n8n.client, instance, version);
+    if (instance.is_active && missing.length > 0) {
+      throw new Error(`Version ${version} needs values for: ${missing.join(", ")}`);
+    }
+    const synced = await n8n.client.updateWorkflow(instance.n8n_workflow_id, workflow);
+    const { webhookUrl, testWebhookUrl } = workflowWebhookUrls(n8n.baseUrl, synced);
+    Object.assign(update, {
+      webhook_url: webhookUrl,
+      test_webhook_url: testWebhookUrl,
+      provisioned_at: new Date().toISOString(),
+    });
+  }
+
+  const { error } = await supabaseAdmin.from("client_workflow_instances").update(update).eq("id", instanceId);
+  if (error) throw error;
+}
+
+/** Upgrades the given rollout instances; stops at the first failure. */
+async function upgrade(supabaseAdmin: SupabaseClient, n8n: N8nConnection | null, rollout: Rollout, instances: RolloutInstanceRow[]) {
+  for (const ri of instances) {
+    try {
+      await moveToVersion(supabaseAdmin, n8n, ri.workflow_instance_id, rollout.to_version);
+      await supabaseAdmin
+        .from("workflow_rollout_instances")
+        .update({ status: "upgraded", upgraded_at: new Date().toISOString(), error_message: null })
+        .eq("rollout_id", rollout.id)
+        .eq("workflow_instance_id", ri.workflow_instance_id);
+    } catch (err) {
+      await supabaseAdmin
+        .from("workflow_rollout_instances")
+        .update({ status: "failed", error_message: err.message })
+        .eq("rollout_id", rollout.id)
+        .eq("workflow_instance_id", ri.workflow_instance_id);
+      return `Upgrade failed: ${err.message}`;
+    }
+  }
+  return null;
+}
+
+/** Returns every upgraded workflow of a rollout to the version it came from. */
+async function rollback(supabaseAdmin: SupabaseClient, n8n: N8nConnection | null, rollout: Rollout, reason: string) {
+  const { data: instances } = await supabaseAdmin
+    .from("workflow_rollout_instances")
+    .select("*")
+    .eq("rollout_id", rollout.id)
+    .eq("status", "upgraded");
+
+  for (const ri of (instances ?? []) as RolloutInstanceRow[]) {
+    try {
+      await moveToVersion(supabaseAdmin, n8n, ri.workflow_instance_id, ri.from_version);
+      await supabaseAdmin
+        .from("workflow_rollout_instances")
+        .update({ status: "rolled_back" })
+        .eq("rollout_id", rollout.id)
+        .eq("workflow_instance_id", ri.workflow_instance_id);
+    } catch (err) {
+      await supabaseAdmin
+        .from("workflow_rollout_instances")
+        .update({ error_message: `Rollback failed: ${err.message}` })
+        .eq("rollout_id", rollout.id)
+        .eq("workflow_instance_id", ri.workflow_instance_id);
+      await supabaseAdmin
+        .from("client_workflow_instances")
+        .update({ status: "error", error_message: `Rollback to ${ri.from_version} failed: ${err.message}` })
+        .eq("id", ri.workflow_instance_id);
+    }
+  }
+
+  await supabaseAdmin
+    .from("workflow_rollouts")
+    .update({ status: "rolled_back", status_reason: reason, completed_at: new Date().toISOString() })
+    .eq("id", rollout.id);
+
+  if (rollout.created_by) {
+    await supabaseAdmin.from("notifications").insert({
+      user_id: rollout.created_by,
+      title: "Workflow Rollout Rolled Back",
+      message: `The rollout of version ${rollout.to_version} was rolled back: ${reason}`,
+      type: "error",
+      action_url: "/super-admin/n8n-controller",
+    });
+  }
+}
+
+/** Checks a rollout's current phase and rolls back, promotes or leaves it. */
+async function advance(supabaseAdmin: SupabaseClient, n8n: N8nConnection | null, rollout: Rollout) {
+  const { data } = await supabaseAdmin
+    .from("workflow_rollout_instances")
+    .select("*")
+    .eq("rollout_id", rollout.id);
+  const instances = (data ?? []) as RolloutInstanceRow[];
+
+  const upgraded = instances.filter((ri) => ri.status === "upgraded");
+  const observed = await executionStats(
+    supabaseAdmin,
+    upgraded.map((ri) => ri.workflow_instance_id),
+    rollout.phase_started_at
+  );
+  const baseline = { executions: rollout.baseline_executions, errors: rollout.baseline_errors };
+  const elapsedMinutes = (Date.now() - new Date(rollout.phase_started_at).getTime()) / 60_000;
+  const options = {
+    observation_minutes: rollout.observation_minutes,
+    max_error_rate: Number(rollout.max_error_rate),
+    min_executions: rollout.min_executions,
+  };
+
+  const decision = rolloutDecision(baseline, observed, options, elapsedMinutes);
+
+  if (decision === "rollback") {
+    const rate = Math.round(errorRate(observed) * 100);
+    await rollback(supabaseAdmin, n8n, rollout,
+      `${rate}% of ${observed.executions} executions failed (baseline ${Math.round(errorRate(baseline) * 100)}%)`);
+    return "rolled_back";
+  }
+  if (decision === "wait") return rollout.status;
+
+  if (rollout.status === "canary") {
+    const pending = instances.filter((ri) => ri.status === "pending");
+    const failure = await upgrade(supabaseAdmin, n8n, rollout, pending);
+    if (failure) {
+      await rollback(supabaseAdmin, n8n, rollout, failure);
+      return "rolled_back";
+    }
+    await supabaseAdmin
+      .from("workflow_rollouts")
+      .update({ status: "monitoring", phase_started_at: new Date().toISOString() })
+      .eq("id", rollout.id);
+    return "monitoring";
+  }
+
+  await supabaseAdmin
+    .from("workflow_rollouts")
+    .update({ status: "completed", completed_at: new Date().toISOString() })
+    .eq("id", rollout.id);
+  return "completed";
+}
+
+/**
+ * Rolling upgrades of client workflows to a new template version.
+ *
+ * start (super admin): upgrades the first `canary_count` of the selected
+ * workflows to the template's current version, keeping each client's
+ * custom_config. advance (every 5 minutes by the scheduler, or a super
+ * admin): once the canaries have run for `observation_minutes` without an
+ * error spike in workflow_executions the rest are upgraded and watched the
+ * same way; a spike or a failed upgrade rolls everything back to the version
+ * it came from. rollback (super admin) does so on demand.
+ */
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAdmin = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return jsonResponse(401, { error: "Unauthorized" });
+    }
+
+    const isScheduler = authHeader === `Bearer ${serviceRoleKey}`;
+    let userId: string | null = null;
+
+    if (!isScheduler) {
+      const supabaseUser = createClient(
+        Deno.env.get("SUPABASE_URL")!,
+        Deno.env.get("SUPABASE_ANON_KEY")!,
+        { global: { headers: { Authorization: authHeader } } }
+      );
+      const { data: claimsData, error: claimsError } = await supabaseUser.auth.getClaims(authHeader.replace("Bearer ", ""));
+      if (claimsError || !claimsData?.claims) {
+        return jsonResponse(401, { error: "Unauthorized" });
+      }
+      userId = claimsData.claims.sub;
+
+      const { data: roleCheck } = await supabaseAdmin
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", userId)
+        .eq("role", "super_admin")
+        .maybeSingle();
+      if (!roleCheck) {
+        return jsonResponse(403, { error: "Forbidden" });
+      }
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const action = body.action ?? "advance";
+
+    if (isScheduler && action !== "advance") {
+      return jsonResponse(403, { error: "The scheduler may only advance rollouts" });
+    }
+
+    const n8n = await loadN8nClient(supabaseAdmin);
+
+    if (action === "advance") {
+      let query = supabaseAdmin.from("workflow_rollouts").select("*").in("status", ["canary", "monitoring"]);
+      if (body.rollout_id) query = query.eq("id", body.rollout_id);
+      const { data: rollouts, error } = await query;
+      if (error) return jsonResponse(500, { error: error.message });
+
+      const results: { rollout_id: string; status: string; error?: string }[] = [];
+      for (const rollout of rollouts ?? []) {
+        try {
+          results.push({ rollout_id: rollout.id, status: await advance(supabaseAdmin, n8n, rollout) });
+        } catch (err) {
+          console.error("Rollout advance failed", rollout.id, err);
+          results.push({ rollout_id: rollout.id, status: rollout.status, error: err.message });
+        }
+      }
+      return jsonResponse(200, { success: true, results });
+    }
+
+    if (action === "rollback") {
+      const { data: rollout } = await supabaseAdmin
+        .from("workflow_rollouts")
+        .select("*")
+        .eq("id", body.rollout_id)
+        .maybeSingle();
+      if (!rollout) return jsonResponse(404, { error: "Rollout not found" });
+      if (rollout.status === "rolled_back") {
+        return jsonResponse(409, { error: "The rollout was already rolled back" });
+      }
+      await rollback(supabaseAdmin, n8n, rollout, "Rolled back manually");
+      return jsonResponse(200, { success: true });
+    }
+
+    if (action !== "start") {
+      return jsonResponse(400, { error: `Unknown action: ${action}` });
+    }
+
+    const { template_id, instance_ids } = body;
+    if (!template_id || !Array.isArray(instance_ids) || instance_ids.length === 0) {
+      return jsonResponse(400, { error: "template_id and instance_ids required" });
+    }
+
+    const { data: template } = await supabaseAdmin
+      .from("workflow_templates")
+      .select("id, version")
+      .eq("id", template_id)
+      .maybeSingle();
+    if (!template) return jsonResponse(404, { error: "Template not found" });
+
+    const { data: candidates } = await supabaseAdmin
+      .from("client_workflow_instances")
+      .select("id, template_version")
+      .eq("workflow_template_id", template_id)
+      .in("id", instance_ids);
+
+    // Keep the caller's order: the first ones are the canaries
+    type Candidate = { id: string; template_version: string | null };
+    const byId = new Map(((candidates ?? []) as Candidate[]).map((c) => [c.id, c]));
+    const selected = instance_ids
+      .map((id: string) => byId.get(id))
+      .filter((c): c is { id: string; template_version: string } =>
+        !!c?.template_version && c.template_version !== template.version);
+
+    if (selected.length === 0) {
+      return jsonResponse(400, { error: `The selected workflows already run version ${template.version}` });
+    }
+
+    if (n8n === null) {
+      return jsonResponse(400, { error: "n8n is not configured. Set its URL and API key on the n8n controller page." });
+    }
+
+    const canaryCount = Math.min(Math.max(Number(body.canary_count) || 1, 1), selected.length);
+    const baseline = await executionStats(
+      supabaseAdmin,
+      selected.map((c) => c.id),
+      new Date(Date.now() - BASELINE_HOURS * 3600_000).toISOString()
+    );
+
+    const { data: rollout, error: rolloutErr } = await supabaseAdmin
+      .from("workflow_rollouts")
+      .insert({
+        template_id,
+        to_version: template.version,
+        canary_count: canaryCount,
+        observation_minutes: body.observation_minutes ?? undefined,
+        max_error_rate: body.max_error_rate ?? undefined,
+        min_executions: body.min_executions ?? undefined,
+        baseline_executions: baseline.executions,
+        baseline_errors: baseline.errors,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (rolloutErr) {
+      const status = rolloutErr.code === "23505" ? 409 : 400;
+      return jsonResponse(status, {
+        error: status === 409 ? "A rollout of this template is already in progress" : rolloutErr.message,
+      });
+    }
+
+    const rolloutInstances = selected.map((c, i) => ({
+      rollout_id: rollout.id,
+      workflow_instance_id: c.id,
+      from_version: c.template_version,
+      is_canary: i < canaryCount,
+    }));
+    await supabaseAdmin.from("workflow_rollout_instances").insert(rolloutInstances);
+
+    const failure = await upgrade(supabaseAdmin, n8n, rollout, rolloutInstances.filter((ri) => ri.is_canary));
+    if (failure) {
+      await rollback(supabaseAdmin, n8n, rollout, failure);
+      return jsonResponse(502, { error: failure, rollout_id: rollout.id });
+    }
+
+    await supabaseAdmin
+      .from("workflow_rollouts")
+      .update({ phase_started_at: new Date().toISOString() })
+      .eq("id", rollout.id);
+
+    return jsonResponse(200, { success: true, rollout_id: rollout.id, canaries: canaryCount, total: selected.length });
+  } catch (err) {
+    return jsonResponse(500, { error: err.message });
+  }
+});
@@ -0,0 +1,189 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts"
+import { createClient } from "npm:@supabase/supabase-js@2"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const SESSION_CLOSED_REASON = 'The 24-hour WhatsApp session window is closed. Send an approved template instead.'
+
+interface SendMessageRequest {
+  to: string
+  text?: string
+  body?: string
+  type?: 'text' | 'template' | 'image' | 'video' | 'document' | 'audio'
+  name?: string
+  language?: string
+  bodyParams?: string[]
+  phoneNoId?: string
+  application_id: string
+  /** Omitted for admin bot tests, which are not metered or logged */
+  client_id?: string
+}
+
+function respond(body: { success: boolean; message: string }, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+/**
+ * Sends a single WhatsApp message (composer, inbox, bot test) through the
+ * LeadNest send API. A client's message is checked against the
+ * Do-Not-Contact list and the 24-hour session window, held against the
+ * client's usage limit before it leaves and logged to whatsapp_messages.
+ * The caller must be able to read the bot, and the client when one is
+ * given, under RLS.
+ */
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+  const supabaseAdmin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '')
+  let reservationId: string | null = null
+
+  try {
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      return respond({ success: false, message: 'Missing Authorization header' }, 401)
+    }
+
+    const apiUrl = Deno.env.get('LEADNEST_SEND_MESSAGE_URL')
+    if (!apiUrl) {
+      console.error('LEADNEST_SEND_MESSAGE_URL is not set')
+      return respond({ success: false, message: 'API configuration missing' }, 500)
+    }
+
+    const params = await req.json().catch(() => null) as SendMessageRequest | null
+    if (!params?.to || !params.application_id) {
+      return respond({ success: false, message: 'to and application_id are required' }, 400)
+    }
+
+    // Reading through the caller's JWT doubles as the ownership check
+    const supabase = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+      global: { headers: { Authorization: authHeader } },
+    })
+
+    const { data: bot } = await supabase
+      .from('whatsapp_applications')
+      .select('id')
+      .eq('id', params.application_id)
+      .maybeSingle()
+    if (!bot) {
+      return respond({ success: false, message: 'WhatsApp bot not found' }, 404)
+    }
+
+    if (params.client_id) {
+      const { data: client } = await supabase.from('clients').select('id').eq('id', params.client_id).maybeSingle()
+      if (!client) {
+        return respond({ success: false, message: 'Not authorized to send for this client' }, 403)
+      }
+
+      // Never message numbers on a Do-Not-Contact list
+      const { data: isSuppressed } = await supabaseAdmin.rpc('is_phone_suppressed', {
+        p_client_id: params.client_id,
+        p_phone: params.to,
+        p_channel: 'whatsapp',
+      })
+      if (isSuppressed) {
+        return respond({ success: false, message: 'This number has opted out or is on a Do-Not-Contact list' })
+      }
+
+      // Free-form messages are only allowed inside the 24-hour session window
+      if (params.type !== 'template') {
+        const { data: sessionOpen } = await supabaseAdmin.rpc('whatsapp_session_open', {
+          p_client_id: params.client_id,
+          p_phone_number: params.to,
+          p_application_id: params.application_id,
+        })
+        if (!sessionOpen) {
+          return respond({ success: false, message: SESSION_CLOSED_REASON })
+        }
+      }
+
+      // Hold one message against the plan's usage limit before it leaves
+      const { data: usage, error: usageError } = await supabaseAdmin.rpc('reserve_usage', {
+        p_client_id: params.client_id,
+        p_service_slug: 'whatsapp-automation',
+        p_amount: 1,
+        p_source: 'whatsapp_message',
+      })
+      if (usageError) throw usageError
+      if (!usage?.allowed) {
+        return respond({ success: false, message: usage?.reason ?? 'Usage limit reached' })
+      }
+      reservationId = usage.reservation_id
+    }
+
+    const to = params.to.replace('+', '')
+    const requestBody = params.type === 'template'
+      ? {
+          to,
+          phoneNoId: params.phoneNoId,
+          type: 'template',
+          name: params.name,
+          language: params.language || 'en_US',
+          bodyParams: params.bodyParams || [],
+        }
+      : {
+          to,
+          phoneNoId: params.phoneNoId,
+          type: 'text',
+          text: params.body || params.text,
+        }
+
+    const response = await fetch(apiUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(requestBody),
+    })
+    const result = await response.json().catch(() => ({}))
+
+    if (!result.success && !response.ok) {
+      console.error('LeadNest API error:', result)
+      if (reservationId) {
+        await supabaseAdmin.rpc('release_usage', { p_reservation_id: reservationId })
+      }
+      return respond({ success: false, message: result?.message || result?.error || 'Failed to send WhatsApp message' })
+    }
+
+    if (!params.client_id) {
+      return respond({ success: true, message: 'Message sent successfully' })
+    }
+
+    const { error: commitError } = await supabaseAdmin.rpc('commit_usage', { p_reservation_id: reservationId })
+    if (commitError) {
+      console.error('Message sent but usage was not recorded:', commitError)
+    }
+
+    const { error: logError } = await supabaseAdmin.from('whatsapp_messages').insert({
+      application_id: params.application_id,
+      client_id: params.client_id,
+      phone_number: params.to,
+      message_content: params.body ?? params.text ?? '',
+      message_type: params.type || 'text',
+      template_name: params.name || null,
+      status: 'sent',
+      metadata: { whatsapp_message_id: result?.id || null },
+      sent_at: new Date().toISOString(),
+      wamid: result?.wamid || null,
+    })
+    if (logError) {
+      console.error('Message sent but failed to log in history:', logError)
+      return respond({ success: true, message: 'Message sent but failed to log in history' })
+    }
+
+    return respond({ success: true, message: 'Message sent successfully' })
+  } catch (error) {
+    console.error('Error in send-whatsapp-message:', error)
+    if (reservationId) {
+      await supabaseAdmin.rpc('release_usage', { p_reservation_id: reservationId })
+    }
+    const message = error instanceof Error ? error.message : 'Failed to send WhatsApp message'
+    return respond({ success: false, message }, 500)
+  }
+})
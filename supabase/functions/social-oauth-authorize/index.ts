@@ -0,0 +1,102 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  buildAuthorizeUrl,
+  isOAuthPlatform,
+  OAUTH_PROVIDERS,
+  pkceChallenge,
+  randomUrlSafe,
+} from "../_shared/social-oauth.ts";
+import { oauthAppFor, oauthRedirectUri } from "../_shared/social-connections.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+function jsonResponse(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Starts connecting a brand to a social platform.
+ *
+ * Called by the client (or their admin) with { brand_id, platform }. Records
+ * a one-time state for social-oauth-callback and answers with the platform's
+ * authorization URL for the browser to open.
+ */
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader?.startsWith("Bearer ")) {
+      return jsonResponse(401, { error: "Unauthorized" });
+    }
+
+    const supabaseUser = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+    const supabaseAdmin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    const { data: claimsData, error: claimsError } = await supabaseUser.auth.getClaims(authHeader.replace("Bearer ", ""));
+    if (claimsError || !claimsData?.claims) {
+      return jsonResponse(401, { error: "Unauthorized" });
+    }
+
+    const { brand_id, platform } = await req.json().catch(() => ({}));
+    if (!brand_id || !isOAuthPlatform(platform)) {
+      return jsonResponse(400, { error: "brand_id and a supported platform are required" });
+    }
+
+    // Reading through the caller's JWT doubles as the ownership check
+    const { data: brand } = await supabaseUser
+      .from("social_media_brands")
+      .select("id, client_id")
+      .eq("id", brand_id)
+      .maybeSingle();
+    if (!brand) {
+      return jsonResponse(404, { error: "Brand not found" });
+    }
+
+    const app = oauthAppFor(platform);
+    if (!app) {
+      return jsonResponse(503, { error: `${platform} connections are not configured yet` });
+    }
+
+    const state = randomUrlSafe();
+    const codeVerifier = OAUTH_PROVIDERS[platform].pkce ? randomUrlSafe(48) : null;
+
+    const { error: stateError } = await supabaseAdmin.from("social_oauth_states").insert({
+      state,
+      brand_id: brand.id,
+      client_id: brand.client_id,
+      platform,
+      user_id: claimsData.claims.sub,
+      code_verifier: codeVerifier,
+    });
+    if (stateError) return jsonResponse(500, { error: stateError.message });
+
+    // Abandoned authorizations are not worth keeping
+    await supabaseAdmin.from("social_oauth_states").delete().lt("expires_at", new Date().toISOString());
+
+    const url = buildAuthorizeUrl(platform, {
+      clientId: app.clientId,
+      redirectUri: oauthRedirectUri(),
+      state,
+      codeChallenge: codeVerifier ? await pkceChallenge(codeVerifier) : undefined,
+    });
+
+    return jsonResponse(200, { url });
+  } catch (error) {
+    console.error("Error:", error);
+    return jsonResponse(500, { error: error.message });
+  }
+});
@@ -0,0 +1,112 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { exchangeAuthorizationCode, type OAuthPlatform } from "../_shared/social-oauth.ts";
+import { oauthAppFor, oauthRedirectUri, storeConnectionTokens } from "../_shared/social-connections.ts";
+
+const APP_URL = Deno.env.get("APP_URL") ?? "http://localhost:8080";
+
+/** Back to the brands view, which reports how the connection went */
+function backToApp(params: Record<string, string>) {
+  const query = new URLSearchParams({ view: "brands", ...params });
+  return new Response(null, {
+    status: 302,
+    headers: { Location: `${APP_URL}/client/social-media?${query}` },
+  });
+}
+
+/**
+ * OAuth redirect target for every platform.
+ *
+ * The platform sends the browser here with the authorization code and the
+ * state social-oauth-authorize recorded. The state is consumed, the code is
+ * traded for tokens, and the brand's connection is created (or reconnected)
+ * with its tokens sealed; if the tokens cannot be stored, the connection is
+ * put back as it was. The browser is then sent back to the app.
+ */
+Deno.serve(async (req) => {
+  const url = new URL(req.url);
+  const state = url.searchParams.get("state");
+  const code = url.searchParams.get("code");
+
+  if (!state) {
+    return backToApp({ connect_error: "The authorization response was incomplete" });
+  }
+
+  const supabaseAdmin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+  // One use per state, so a replayed redirect cannot connect anything
+  const { data: pending } = await supabaseAdmin
+    .from("social_oauth_states")
+    .delete()
+    .eq("state", state)
+    .select("*")
+    .maybeSingle();
+
+  if (!pending || Date.parse(pending.expires_at) < Date.now()) {
+    return backToApp({ connect_error: "This authorization link has expired, please try again" });
+  }
+
+  const platform = pending.platform as OAuthPlatform;
+
+  // The user declined, or the platform refused the app
+  if (!code) {
+    const reason = url.searchParams.get("error_description") ?? url.searchParams.get("error") ?? "Authorization was cancelled";
+    return backToApp({ platform, connect_error: reason });
+  }
+
+  try {
+    const app = oauthAppFor(platform);
+    if (!app) throw new Error(`${platform} connections are not configured yet`);
+
+    const account = await exchangeAuthorizationCode(platform, app, {
+      code,
+      redirectUri: oauthRedirectUri(),
+      codeVerifier: pending.code_verifier,
+    });
+
+    // Kept so a failed token write can put the connection back as it was
+    const { data: previous, error: previousError } = await supabaseAdmin
+      .from("social_platform_connections")
+      .select("*")
+      .eq("brand_id", pending.brand_id)
+      .eq("platform", platform)
+      .maybeSingle();
+    if (previousError) throw previousError;
+
+    const now = new Date().toISOString();
+    const { data: connection, error: connectionError } = await supabaseAdmin
+      .from("social_platform_connections")
+      .upsert({
+        brand_id: pending.brand_id,
+        client_id: pending.client_id,
+        platform,
+        account_id: account.accountId,
+        account_name: account.accountName,
+        scopes: account.tokens.scopes,
+        status: "connected",
+        token_expires_at: account.tokens.expiresAt,
+        last_refreshed_at: now,
+        last_error: null,
+        connected_by: pending.user_id,
+        connected_at: now,
+      }, { onConflict: "brand_id,platform" })
+      .select("id")
+      .single();
+    if (connectionError) throw connectionError;
+
+    try {
+      await storeConnectionTokens(supabaseAdmin, connection.id, account.tokens);
+    } catch (tokenError) {
+      // A connection marked connected without its tokens would fail every publish
+      const { error: rollbackError } = previous
+        ? await supabaseAdmin.from("social_platform_connections").update(previous).eq("id", previous.id)
+        : await supabaseAdmin.from("social_platform_connections").delete().eq("id", connection.id);
+      if (rollbackError) console.error("Failed to roll back the connection:", rollbackError);
+      throw tokenError;
+    }
+
+    return backToApp({ platform, connected: account.accountName });
+  } catch (error) {
+    console.error(`Failed to connect ${platform} for brand`, pending.brand_id, error);
+    return backToApp({ platform, connect_error: `Could not connect ${platform}` });
+  }
+});
@@ -0,0 +1,350 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { normalizeCallStatus, type NormalizedCallStatus, type TelephonyConfig } from "../_shared/telephony.ts";
+import { timingSafeEqual } from "../_shared/webhook-signature.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-twilio-signature, telnyx-signature-ed25519, telnyx-timestamp, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+type Provider = TelephonyConfig["provider"];
+
+// Signed Telnyx deliveries older than this are treated as replays
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Platform-account secrets, used for clients without their own provider account
+const PLATFORM_SECRET_ENV: Record<Provider, string> = {
+  twilio: "TWILIO_AUTH_TOKEN",
+  exotel: "EXOTEL_WEBHOOK_TOKEN",
+  telnyx: "TELNYX_PUBLIC_KEY",
+};
+
+interface TelnyxWebhook {
+  data?: {
+    event_type?: string;
+    payload?: {
+      call_control_id?: string;
+      to?: string;
+      hangup_cause?: string;
+      start_time?: string;
+      end_time?: string;
+      client_state?: string;
+      recording_urls?: { mp3?: string };
+    };
+  };
+}
+
+interface CallEvent {
+  providerCallId: string;
+  phoneNumber: string;
+  status: NormalizedCallStatus | null;
+  durationSeconds: number | null;
+  price: number | null;
+  recordingUrl: string | null;
+  context: Record<string, string>;
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === undefined || value === null || value === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function base64ToBytes(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
+
+// https://www.twilio.com/docs/usage/security#validating-requests
+async function verifyTwilio(
+  authToken: string | null,
+  url: string,
+  params: URLSearchParams,
+  signature: string | null
+): Promise<boolean> {
+  if (!authToken || !signature) return false;
+
+  const data = url + [...params.keys()].sort().map((key) => key + params.get(key)).join("");
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(authToken),
+    { name: "HMAC", hash: "SHA-1" },
+    false,
+    ["sign"]
+  );
+  const digest = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(data));
+  const expected = btoa(String.fromCharCode(...new Uint8Array(digest)));
+  return timingSafeEqual(signature, expected);
+}
+
+// Exotel does not sign callbacks, so the callback URL carries a shared token
+function verifyExotel(expected: string | null, token: string | null): boolean {
+  if (!expected || !token) return false;
+  return timingSafeEqual(token, expected);
+}
+
+// https://developers.telnyx.com/docs/messaging/webhooks#webhook-signing
+async function verifyTelnyx(
+  publicKey: string | null,
+  rawBody: string,
+  signature: string | null,
+  timestamp: string | null
+): Promise<boolean> {
+  if (!publicKey || !signature || !timestamp) return false;
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  try {
+    const key = await crypto.subtle.importKey("raw", base64ToBytes(publicKey), { name: "Ed25519" }, false, ["verify"]);
+    return await crypto.subtle.verify(
+      "Ed25519",
+      key,
+      base64ToBytes(signature),
+      new TextEncoder().encode(`${timestamp}|${rawBody}`)
+    );
+  } catch {
+    return false;
+  }
+}
+
+function parseTwilio(params: URLSearchParams, query: URLSearchParams): CallEvent {
+  const recordingUrl = params.get("RecordingUrl");
+  const price = toNumber(params.get("Price"));
+  return {
+    providerCallId: params.get("CallSid") ?? "",
+    phoneNumber: params.get("To") ?? params.get("Called") ?? "",
+    status: normalizeCallStatus("twilio", params.get("CallStatus") ?? ""),
+    durationSeconds: toNumber(params.get("CallDuration")),
+    // Twilio reports charges as negative amounts
+    price: price !== null ? Math.abs(price) : null,
+    recordingUrl: recordingUrl ? `${recordingUrl}.mp3` : null,
+    context: Object.fromEntries(query),
+  };
+}
+
+function parseExotel(body: Record<string, string>, query: URLSearchParams): CallEvent {
+  return {
+    providerCallId: body.CallSid ?? "",
+    phoneNumber: body.To ?? body.CallTo ?? "",
+    status: normalizeCallStatus("exotel", body.Status ?? body.CallStatus ?? ""),
+    durationSeconds: toNumber(body.ConversationDuration ?? body.Duration),
+    price: toNumber(body.Price),
+    recordingUrl: body.RecordingUrl || null,
+    context: Object.fromEntries(query),
+  };
+}
+
+function parseTelnyx(body: TelnyxWebhook): CallEvent {
+  const payload = body?.data?.payload ?? {};
+  const status = normalizeCallStatus("telnyx", body?.data?.event_type ?? "", payload.hangup_cause);
+
+  let durationSeconds: number | null = null;
+  if (payload.start_time && payload.end_time) {
+    durationSeconds = Math.round(
+      (new Date(payload.end_time).getTime() - new Date(payload.start_time).getTime()) / 1000
+    );
+  }
+
+  let context: Record<string, string> = {};
+  if (payload.client_state) {
+    try {
+      context = JSON.parse(atob(payload.client_state));
+    } catch {
+      context = {};
+    }
+  }
+
+  return {
+    providerCallId: payload.call_control_id ?? "",
+    phoneNumber: payload.to ?? "",
+    status,
+    durationSeconds,
+    price: null,
+    recordingUrl: payload.recording_urls?.mp3 ?? null,
+    context,
+  };
+}
+
+/**
+ * The secret a provider callback for this client's calls is verified with:
+ * the client's own provider account if it has one, else the platform's.
+ */
+async function providerSecret(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  provider: Provider,
+  clientId: string | undefined
+): Promise<string | null> {
+  if (clientId && UUID_PATTERN.test(clientId)) {
+    const { data: account, error } = await supabaseAdmin
+      .from("client_telephony_accounts")
+      .select("webhook_secret")
+      .eq("client_id", clientId)
+      .eq("provider", provider)
+      .eq("is_active", true)
+      .maybeSingle();
+    if (error) throw error;
+    if (account) return account.webhook_secret as string;
+  }
+  return Deno.env.get(PLATFORM_SECRET_ENV[provider]) ?? null;
+}
+
+/**
+ * Receives call status callbacks directly from the telephony provider.
+ * Route with `?provider=twilio|exotel|telnyx`; the call's owner travels in the
+ * callback URL (Twilio, Exotel) or in `client_state` (Telnyx) — see
+ * buildStatusCallbackUrl in _shared/telephony.ts. Callbacks are verified with
+ * the secret of the provider account that placed the call.
+ */
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseAdmin = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  const requestUrl = new URL(req.url);
+  const query = requestUrl.searchParams;
+  const provider = query.get("provider") as Provider | null;
+  const rawBody = await req.text();
+
+  const reject = async (status: number, reason: string) => {
+    const { error: logError } = await supabaseAdmin.from("webhook_rejections").insert({
+      endpoint: `telephony-status-webhook:${provider ?? "unknown"}`,
+      reason,
+      source_ip: req.headers.get("x-forwarded-for"),
+      headers: {
+        "user-agent": req.headers.get("user-agent"),
+        "content-type": req.headers.get("content-type"),
+      },
+      payload: { raw: rawBody.slice(0, 2000) },
+    });
+
+    if (logError) {
+      console.error("Failed to record webhook rejection:", logError);
+    }
+
+    return new Response(
+      JSON.stringify({ success: false, error: reason }),
+      { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  };
+
+  try {
+    let event: CallEvent;
+
+    if (provider === "twilio") {
+      // Twilio signs the public URL it called, which is not req.url behind the gateway
+      const publicUrl = `${Deno.env.get("SUPABASE_URL")}/functions/v1/telephony-status-webhook${requestUrl.search}`;
+      const params = new URLSearchParams(rawBody);
+      const authToken = await providerSecret(supabaseAdmin, provider, query.get("client_id") ?? undefined);
+      if (!(await verifyTwilio(authToken, publicUrl, params, req.headers.get("x-twilio-signature")))) {
+        return await reject(401, "Invalid Twilio signature");
+      }
+      event = parseTwilio(params, query);
+    } else if (provider === "exotel") {
+      const expected = await providerSecret(supabaseAdmin, provider, query.get("client_id") ?? undefined);
+      if (!verifyExotel(expected, query.get("token"))) {
+        return await reject(401, "Invalid Exotel token");
+      }
+      const isJson = req.headers.get("content-type")?.includes("application/json");
+      const body = isJson ? JSON.parse(rawBody) : Object.fromEntries(new URLSearchParams(rawBody));
+      event = parseExotel(body, query);
+    } else if (provider === "telnyx") {
+      // The owner is only known from client_state, which the signature then covers
+      event = parseTelnyx(JSON.parse(rawBody));
+      const verified = await verifyTelnyx(
+        await providerSecret(supabaseAdmin, provider, event.context.client_id),
+        rawBody,
+        req.headers.get("telnyx-signature-ed25519"),
+        req.headers.get("telnyx-timestamp")
+      );
+      if (!verified) {
+        return await reject(401, "Invalid Telnyx signature");
+      }
+    } else {
+      return await reject(400, "Unknown or missing provider");
+    }
+
+    const clientId = event.context.client_id;
+    if (!event.providerCallId || !clientId) {
+      return await reject(400, "Callback is missing the call id or client_id");
+    }
+
+    // Nothing we track (e.g. Telnyx call.bridged)
+    if (!event.status && !event.recordingUrl && event.price === null) {
+      return new Response(
+        JSON.stringify({ success: true, ignored: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // A verified callback may only settle the calls of its own client's campaigns
+    const campaignId = event.context.campaign_id;
+    const contactId = event.context.contact_id;
+    if (campaignId) {
+      const { data: campaign } = UUID_PATTERN.test(campaignId)
+        ? await supabaseAdmin.from("voice_campaigns").select("client_id").eq("id", campaignId).maybeSingle()
+        : { data: null };
+      if (!campaign || campaign.client_id !== clientId) {
+        return await reject(403, "campaign_id does not belong to this client");
+      }
+    }
+    if (contactId) {
+      const { data: contact } = UUID_PATTERN.test(contactId)
+        ? await supabaseAdmin.from("campaign_contacts").select("campaign_id").eq("id", contactId).maybeSingle()
+        : { data: null };
+      if (!contact || !campaignId || contact.campaign_id !== campaignId) {
+        return await reject(403, "contact_id does not belong to this client's campaign");
+      }
+    }
+
+    const { data: result, error: recordError } = await supabaseAdmin.rpc("record_provider_call_event", {
+      p_provider: provider,
+      p_provider_call_id: event.providerCallId,
+      p_client_id: clientId,
+      p_phone_number: event.phoneNumber,
+      p_call_status: event.status,
+      p_duration_seconds: event.durationSeconds,
+      p_price: event.price,
+      p_recording_url: event.recordingUrl,
+      p_campaign_id: campaignId ?? null,
+      p_contact_id: contactId ?? null,
+    });
+
+    if (recordError) {
+      console.error("Provider call event error:", recordError);
+      return new Response(
+        JSON.stringify({ success: false, error: recordError.message }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // A dialer slot just freed up, so dial the next contact right away
+    if (result?.final && !result?.duplicate && contactId) {
+      const { error: dialerError } = await supabaseAdmin.functions.invoke("campaign-dialer", {
+        body: { campaign_id: campaignId },
+      });
+
+      if (dialerError) {
+        console.error("Dialer kick failed, scheduled tick will pick it up:", dialerError);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, call_log_id: result?.call_log_id ?? null }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
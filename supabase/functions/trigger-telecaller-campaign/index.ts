@@ -44,7 +44,7 @@ Deno.serve(async (req) => {
       );
     }
 
-    const { campaign_id, client_id } = await req.json();
+    const { campaign_id, client_id, action = "start", dialer_settings } = await req.json();
 
     if (!campaign_id || !client_id) {
       return new Response(
@@ -53,11 +53,19 @@ Deno.serve(async (req) => {
       );
     }
 
-    // Fetch campaign with contacts
+    if (!["start", "pause", "resume"].includes(action)) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Unknown action: ${action}` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Fetch campaign through the user's client so RLS confirms ownership
     const { data: campaign, error: campaignError } = await supabaseUser
       .from("voice_campaigns")
-      .select("*, campaign_contacts(*)")
+      .select("*")
       .eq("id", campaign_id)
+      .eq("client_id", client_id)
       .single();
 
     if (campaignError || !campaign) {
@@ -67,6 +75,41 @@ Deno.serve(async (req) => {
       );
     }
 
+    const allowedFrom: Record<string, string[]> = {
+      start: ["draft", "scheduled"],
+      pause: ["running"],
+      resume: ["paused"],
+    };
+
+    if (!allowedFrom[action].includes(campaign.status)) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Cannot ${action} a campaign that is ${campaign.status}` }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (action === "pause") {
+      // In-flight calls finish normally; the dialer simply stops claiming new contacts
+      await supabaseAdmin
+        .from("voice_campaigns")
+        .update({ status: "paused", paused_at: new Date().toISOString() })
+        .eq("id", campaign_id);
+
+      await supabaseAdmin.from("audit_logs").insert({
+        user_id: user.id,
+        action: "campaign_paused",
+        entity_type: "voice_campaigns",
+        entity_id: campaign_id,
+        old_values: { status: campaign.status },
+        new_values: { status: "paused" },
+      });
+
+      return new Response(
+        JSON.stringify({ success: true, message: "Campaign paused", campaign_id, status: "paused" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     // Fetch the telecaller service id
     const { data: service } = await supabaseUser
       .from("services")
@@ -97,78 +140,135 @@ Deno.serve(async (req) => {
       );
     }
 
-    const webhookUrl = workflowInstance.webhook_url;
-
-    if (!webhookUrl) {
+    if (!workflowInstance.webhook_url) {
       return new Response(
         JSON.stringify({ success: false, error: "Webhook URL not configured for this workflow" }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    // Prepare payload for n8n
-    const contacts = (campaign.campaign_contacts || []).map(
-      (contact: { id: string; phone_number: string; contact_name: string | null; contact_data: unknown }) => ({
-        id: contact.id,
-        phone: contact.phone_number,
-        name: contact.contact_name,
-        data: contact.contact_data,
-      })
-    );
-
-    const payload = {
-      campaign_id: campaign.id,
-      campaign_name: campaign.campaign_name,
-      client_id,
-      script: campaign.script,
-      contacts,
-      workflow_instance_id: workflowInstance.id,
-    };
-
-    // Trigger n8n workflow via webhook
-    const n8nResponse = await fetch(webhookUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(payload),
+    // Refuse to start dialing when the plan's limit would block the first call.
+    // The dialer still holds a unit per call; this hold is only a probe.
+    const { data: usage, error: usageError } = await supabaseAdmin.rpc("reserve_usage", {
+      p_client_id: client_id,
+      p_service_slug: "voice-telecaller",
+      p_amount: 1,
+      p_source: "voice_campaign_check",
+      p_reference_id: campaign_id,
+      p_hold_seconds: 60,
     });
-
-    if (!n8nResponse.ok) {
-      const errText = await n8nResponse.text();
-      console.error("n8n webhook failed:", n8nResponse.status, errText);
+    if (usageError) throw usageError;
+    if (!usage?.allowed) {
       return new Response(
-        JSON.stringify({ success: false, error: `n8n webhook failed: ${n8nResponse.statusText}` }),
-        { status: 502, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        JSON.stringify({ success: false, error: usage?.reason ?? "Usage limit reached" }),
+        { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
+    await supabaseAdmin.rpc("release_usage", { p_reservation_id: usage.reservation_id });
+
+    const updates: Record<string, unknown> = { status: "running", paused_at: null };
+
+    if (action === "start") {
+      updates.started_at = new Date().toISOString();
 
-    let n8nResult: unknown = null;
-    try {
-      n8nResult = await n8nResponse.json();
-    } catch {
-      n8nResult = await n8nResponse.text();
+      // Optional per-campaign pacing overrides
+      for (const key of [
+        "max_concurrent_calls",
+        "calls_per_minute",
+        "max_attempts",
+        "retry_backoff_minutes",
+        "retry_backoff_multiplier",
+      ]) {
+        const value = Number(dialer_settings?.[key]);
+        if (Number.isFinite(value) && value > 0) updates[key] = value;
+      }
+      if (Array.isArray(dialer_settings?.retry_on_statuses)) {
+        updates.retry_on_statuses = dialer_settings.retry_on_statuses;
+      }
+
+      // Calling window, evaluated in each contact's local time by the dialer
+      for (const key of ["calling_hours_start", "calling_hours_end"]) {
+        const value = dialer_settings?.[key];
+        if (typeof value === "string" && /^\d{1,2}:\d{2}$/.test(value)) updates[key] = value;
+      }
+      if (Array.isArray(dialer_settings?.calling_days)) updates.calling_days = dialer_settings.calling_days;
+      if (Array.isArray(dialer_settings?.holidays)) updates.holidays = dialer_settings.holidays;
+      if (typeof dialer_settings?.default_timezone === "string") {
+        const { data: validTimezone } = await supabaseAdmin.rpc("is_valid_timezone", {
+          p_timezone: dialer_settings.default_timezone,
+        });
+        if (!validTimezone) {
+          return new Response(
+            JSON.stringify({ success: false, error: `Unknown timezone: ${dialer_settings.default_timezone}` }),
+            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+        updates.default_timezone = dialer_settings.default_timezone;
+      }
+
+      // A future start time holds the campaign until the dialer's tick reaches it
+      const scheduledAt = dialer_settings?.scheduled_at ? new Date(dialer_settings.scheduled_at) : null;
+      if (scheduledAt && !Number.isNaN(scheduledAt.getTime()) && scheduledAt.getTime() > Date.now()) {
+        updates.status = "scheduled";
+        updates.scheduled_at = scheduledAt.toISOString();
+        updates.started_at = null;
+      }
+
+      // Queue every contact that has not been touched yet
+      await supabaseAdmin
+        .from("campaign_contacts")
+        .update({ call_status: "pending" })
+        .eq("campaign_id", campaign_id)
+        .is("call_status", null);
     }
 
-    // Update campaign status to running
-    await supabaseUser
-      .from("voice_campaigns")
-      .update({ status: "running", started_at: new Date().toISOString() })
-      .eq("id", campaign_id);
+    const { error: updateError } = await supabaseAdmin.from("voice_campaigns").update(updates).eq("id", campaign_id);
+    if (updateError) {
+      return new Response(
+        JSON.stringify({ success: false, error: updateError.message }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
     // Audit log (use admin client to bypass RLS)
     await supabaseAdmin.from("audit_logs").insert({
       user_id: user.id,
-      action: "campaign_started",
+      action: action === "start" ? "campaign_started" : "campaign_resumed",
       entity_type: "voice_campaigns",
       entity_id: campaign_id,
-      new_values: { status: "running" },
+      old_values: { status: campaign.status },
+      new_values: { status: updates.status },
+    });
+
+    if (updates.status === "scheduled") {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          message: "Campaign scheduled",
+          campaign_id,
+          status: "scheduled",
+          scheduled_at: updates.scheduled_at,
+        }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Kick the dialer so the first calls go out now instead of on the next scheduled tick
+    const { data: dialerResult, error: dialerError } = await supabaseAdmin.functions.invoke("campaign-dialer", {
+      body: { campaign_id },
     });
 
+    if (dialerError) {
+      console.error("Dialer kick failed, scheduled tick will pick it up:", dialerError);
+    }
+
     return new Response(
       JSON.stringify({
         success: true,
-        message: "Campaign started successfully",
+        message: action === "start" ? "Campaign started successfully" : "Campaign resumed",
         campaign_id,
-        n8n_response: n8nResult,
+        status: "running",
+        dialer: dialerResult ?? null,
       }),
       { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
@@ -0,0 +1,277 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+const WHATSAPP_MESSAGES_URL = "https://app.whapihub.com/v2/whatsapp-business/messages";
+
+// Rate limits and provider outages are retried with backoff; anything else fails the message
+const MAX_SEND_ATTEMPTS = 3;
+const RETRY_BASE_MS = 60_000;
+
+// Messages over a blocking usage limit wait in the queue until it resets or is raised
+const USAGE_LIMIT_RETRY_MS = 15 * 60_000;
+
+interface QueuedMessage {
+  id: string;
+  campaign_id: string;
+  client_id: string;
+  phone_number: string;
+  message_content: string;
+  message_type: string | null;
+  template_name: string | null;
+  template_params: string[] | null;
+  attempt_count: number;
+}
+
+interface CampaignRow {
+  id: string;
+  application_id: string;
+  template_name: string | null;
+  template_language: string | null;
+}
+
+function buildPayload(message: QueuedMessage, campaign: CampaignRow | undefined) {
+  const to = message.phone_number.replace(/[^0-9]/g, "");
+  const templateName = message.template_name ?? campaign?.template_name;
+
+  if (message.message_type === "template" && templateName) {
+    const params = message.template_params ?? [];
+    return {
+      to,
+      type: "template",
+      template: {
+        name: templateName,
+        language: { code: campaign?.template_language || "en_US" },
+        components: params.length > 0
+          ? [{ type: "body", parameters: params.map((text) => ({ type: "text", text })) }]
+          : [],
+      },
+    };
+  }
+
+  return { to, type: "text", text: message.message_content };
+}
+
+/**
+ * WhatsApp campaign sender tick.
+ *
+ * Invoked every minute by the scheduler (pg_cron). For each WhatsApp number
+ * with a sending campaign it claims as many queued messages as the number's
+ * per-minute throughput and daily recipient tier allow, and sends them one at
+ * a time, each held against the client's usage limit first. Delivery and read
+ * receipts arrive later through whatsapp-webhook.
+ * All queue state lives in whatsapp_messages, so a crashed run picks up where
+ * it left off on the next tick.
+ */
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Only the scheduler and other edge functions may drive the sender
+    if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ success: false, error: "Not authorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseAdmin = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+
+    const body = await req.json().catch(() => ({}));
+    const campaignId: string | undefined = body?.campaign_id;
+
+    let campaignQuery = supabaseAdmin
+      .from("whatsapp_campaigns")
+      .select("id, application_id, template_name, template_language")
+      .eq("status", "sending")
+      .not("application_id", "is", null);
+
+    if (campaignId) {
+      campaignQuery = campaignQuery.eq("id", campaignId);
+    }
+
+    const { data: campaigns, error: campaignsError } = await campaignQuery;
+
+    if (campaignsError) {
+      return new Response(
+        JSON.stringify({ success: false, error: campaignsError.message }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const campaignMap = new Map<string, CampaignRow>((campaigns || []).map((c: CampaignRow) => [c.id, c]));
+    const applicationIds = [...new Set((campaigns || []).map((c: CampaignRow) => c.application_id))];
+
+    const results: {
+      application_id: string;
+      sent: number;
+      deferred: number;
+      failed: number;
+      error?: string;
+    }[] = [];
+
+    for (const applicationId of applicationIds) {
+      const { data: bot } = await supabaseAdmin
+        .from("whatsapp_applications")
+        .select("id, api_config")
+        .eq("id", applicationId)
+        .maybeSingle();
+
+      const apiKey = bot?.api_config?.api_key || Deno.env.get("WHATSAPP_API_KEY");
+      if (!apiKey) {
+        results.push({ application_id: applicationId, sent: 0, deferred: 0, failed: 0, error: "No WhatsApp API key configured" });
+        continue;
+      }
+
+      const { data: messages, error: claimError } = await supabaseAdmin.rpc("claim_whatsapp_messages", {
+        p_application_id: applicationId,
+      });
+
+      if (claimError) {
+        console.error("Claim failed for WhatsApp number", applicationId, claimError);
+        results.push({ application_id: applicationId, sent: 0, deferred: 0, failed: 0, error: claimError.message });
+        continue;
+      }
+
+      let sent = 0;
+      let deferred = 0;
+      let failed = 0;
+      const limitReached = new Map<string, string>();
+
+      for (const message of (messages || []) as QueuedMessage[]) {
+        const fail = async (reason: string) => {
+          await supabaseAdmin
+            .from("whatsapp_messages")
+            .update({ status: "failed", error_message: reason })
+            .eq("id", message.id);
+          failed++;
+        };
+
+        // Hard Do-Not-Contact check right before sending
+        const { data: isSuppressed } = await supabaseAdmin.rpc("is_phone_suppressed", {
+          p_client_id: message.client_id,
+          p_phone: message.phone_number,
+          p_channel: "whatsapp",
+        });
+        if (isSuppressed) {
+          await fail("Number is on a Do-Not-Contact list");
+          continue;
+        }
+
+        // The session window may have closed while the message waited in the queue
+        if (message.message_type !== "template") {
+          const { data: sessionOpen } = await supabaseAdmin.rpc("whatsapp_session_open", {
+            p_client_id: message.client_id,
+            p_phone_number: message.phone_number,
+            p_application_id: applicationId,
+          });
+          if (!sessionOpen) {
+            await fail("The 24-hour WhatsApp session window is closed. Send an approved template instead.");
+            continue;
+          }
+        }
+
+        // Hold the message against the client's usage limit before it leaves
+        let reservationId: string | null = null;
+        if (!limitReached.has(message.client_id)) {
+          const { data: usage, error: usageError } = await supabaseAdmin.rpc("reserve_usage", {
+            p_client_id: message.client_id,
+            p_service_slug: "whatsapp-automation",
+            p_amount: 1,
+            p_source: "whatsapp_campaign",
+            p_reference_id: message.id,
+          });
+          if (usageError || !usage?.allowed) {
+            limitReached.set(message.client_id, usageError?.message ?? usage?.reason ?? "Usage limit reached");
+          } else {
+            reservationId = usage.reservation_id;
+          }
+        }
+
+        if (!reservationId) {
+          await supabaseAdmin
+            .from("whatsapp_messages")
+            .update({
+              status: "queued",
+              attempt_count: Math.max(message.attempt_count - 1, 0),
+              next_attempt_at: new Date(Date.now() + USAGE_LIMIT_RETRY_MS).toISOString(),
+              error_message: limitReached.get(message.client_id),
+            })
+            .eq("id", message.id);
+          deferred++;
+          continue;
+        }
+
+        let sendError: string | null = null;
+        let retryable = false;
+        let wamid: string | null = null;
+        try {
+          const res = await fetch(WHATSAPP_MESSAGES_URL, {
+            method: "POST",
+            headers: {
+              "Authorization": `Bearer ${apiKey}`,
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify(buildPayload(message, campaignMap.get(message.campaign_id))),
+          });
+          const result = await res.json().catch(() => ({}));
+
+          if (res.ok) {
+            wamid = result?.messages?.[0]?.id ?? result?.wamid ?? result?.id ?? null;
+          } else {
+            sendError = result?.error?.message || result?.message || `WhatsApp API error ${res.status}`;
+            retryable = res.status === 429 || res.status >= 500;
+          }
+        } catch (err) {
+          sendError = `WhatsApp API unreachable: ${err.message}`;
+          retryable = true;
+        }
+
+        await supabaseAdmin.rpc(sendError ? "release_usage" : "commit_usage", { p_reservation_id: reservationId });
+
+        if (!sendError) {
+          await supabaseAdmin
+            .from("whatsapp_messages")
+            .update({ status: "sent", wamid, sent_at: new Date().toISOString(), error_message: null })
+            .eq("id", message.id);
+          sent++;
+        } else if (retryable && message.attempt_count < MAX_SEND_ATTEMPTS) {
+          console.error("Send deferred for message", message.id, sendError);
+          await supabaseAdmin
+            .from("whatsapp_messages")
+            .update({
+              status: "queued",
+              next_attempt_at: new Date(Date.now() + RETRY_BASE_MS * 2 ** (message.attempt_count - 1)).toISOString(),
+              error_message: sendError,
+            })
+            .eq("id", message.id);
+          deferred++;
+        } else {
+          console.error("Send failed for message", message.id, sendError);
+          await fail(sendError);
+        }
+      }
+
+      results.push({ application_id: applicationId, sent, deferred, failed });
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, results }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error:", error);
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
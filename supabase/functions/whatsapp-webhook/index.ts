@@ -1,12 +1,81 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts"
 import { createClient } from "npm:@supabase/supabase-js@2"
 import OpenAI from "npm:openai@4"
+import {
+  buildKnowledgePrompt,
+  extractCitations,
+  serializeCitations,
+  stripCitationMarkers,
+} from "../_shared/ai-knowledge.ts"
+import { searchChatbotKnowledge } from "../_shared/knowledge-search.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Replies that opt a contact out of (or back into) WhatsApp messages from this client
+const OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'OPT OUT', 'OPTOUT']
+const OPT_IN_KEYWORDS = ['START', 'UNSTOP', 'SUBSCRIBE']
+
+interface StatusUpdate {
+  wamid: string
+  status: string
+  occurredAt: string | null
+  error: string | null
+}
+
+interface StatusError {
+  message?: string
+  title?: string
+  error_data?: { details?: string }
+}
+
+// WhapiHub `status` / `message_status` event
+interface WhapiStatusEvent {
+  event?: string
+  data?: {
+    messageId?: string
+    wamid?: string
+    id?: string
+    status?: string
+    timestamp?: string | number
+    error?: { message?: string }
+    errors?: StatusError[]
+  }
+}
+
+// Raw Meta webhook with `statuses` entries
+interface MetaStatusWebhook {
+  entry?: { changes?: { value?: { statuses?: { id: string; status: string; timestamp?: string; errors?: StatusError[] }[] } }[] }[]
+}
+
+// Delivery receipts arrive either as WhapiHub status events or as raw Meta
+// `statuses` entries, depending on how the number's webhook is configured
+function extractStatusUpdates(body: WhapiStatusEvent & MetaStatusWebhook): StatusUpdate[] {
+  if (body.event === 'status' || body.event === 'message_status') {
+    const data = body.data || {}
+    const wamid = data.messageId || data.wamid || data.id
+    if (!wamid || !data.status) return []
+    return [{
+      wamid,
+      status: String(data.status).toLowerCase(),
+      occurredAt: data.timestamp ? new Date(Number(data.timestamp) * 1000 || data.timestamp).toISOString() : null,
+      error: data.error?.message || data.errors?.[0]?.message || data.errors?.[0]?.title || null,
+    }]
+  }
+
+  const statuses = (body.entry || []).flatMap((entry) =>
+    (entry.changes || []).flatMap((change) => change.value?.statuses || [])
+  )
+  return statuses.map((s) => ({
+    wamid: s.id,
+    status: String(s.status).toLowerCase(),
+    occurredAt: s.timestamp ? new Date(Number(s.timestamp) * 1000).toISOString() : null,
+    error: s.errors?.[0]?.error_data?.details || s.errors?.[0]?.message || s.errors?.[0]?.title || null,
+  }))
+}
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
@@ -25,6 +94,22 @@ Deno.serve(async (req) => {
 
     for (const item of dataArray) {
       const body = item.body || item
+
+      // Delivery receipts for messages we sent (campaigns included)
+      const statusUpdates = extractStatusUpdates(body)
+      if (statusUpdates.length > 0) {
+        for (const update of statusUpdates) {
+          const { error: statusError } = await supabaseAdmin.rpc('record_whatsapp_message_status', {
+            p_wamid: update.wamid,
+            p_status: update.status,
+            p_occurred_at: update.occurredAt,
+            p_error: update.error,
+          })
+          if (statusError) console.error(`Failed to record status for ${update.wamid}:`, statusError)
+        }
+        continue
+      }
+
       if (body.event !== 'message') continue
 
       const messageData = body.data
@@ -96,16 +181,76 @@ Deno.serve(async (req) => {
         console.error("Failed to store incoming message:", storeError)
       }
 
-      // 4. AI Chatbot Response
+      // 4. Opt-out / opt-in keywords
+      const keyword = content.trim().toUpperCase()
+      const normalizedPhone = '+' + String(senderPhoneNumber).replace(/\D/g, '')
+
+      if (OPT_OUT_KEYWORDS.includes(keyword)) {
+        const { error: optOutError } = await supabaseAdmin
+          .from('suppression_list')
+          .upsert({
+            scope: 'client',
+            client_id: clientId,
+            phone_number: normalizedPhone,
+            channel: 'whatsapp',
+            source: 'whatsapp_stop',
+            reason: `Replied "${content.trim()}"`,
+          }, { onConflict: 'scope,admin_id,client_id,phone_number,channel', ignoreDuplicates: true })
+
+        if (optOutError) console.error("Failed to record opt-out:", optOutError)
+        console.log(`Opted out ${normalizedPhone} for client ${clientId}`)
+        continue
+      }
+
+      if (OPT_IN_KEYWORDS.includes(keyword)) {
+        // Only lift opt-outs the contact created themselves, never manual DNC entries
+        await supabaseAdmin
+          .from('suppression_list')
+          .delete()
+          .eq('scope', 'client')
+          .eq('client_id', clientId)
+          .eq('phone_number', normalizedPhone)
+          .eq('channel', 'whatsapp')
+          .eq('source', 'whatsapp_stop')
+      }
+
+      // Suppressed contacts never receive automated replies
+      const { data: isSuppressed } = await supabaseAdmin.rpc('is_phone_suppressed', {
+        p_client_id: clientId,
+        p_phone: normalizedPhone,
+        p_channel: 'whatsapp',
+      })
+
+      if (isSuppressed) {
+        console.log(`Skipping auto-reply to suppressed number ${normalizedPhone}`)
+        continue
+      }
+
+      // 5. AI Chatbot Response
       const openApiKey = Deno.env.get('OPENAI_API_KEY')
       if (openApiKey && content) {
+        // Each AI reply is held against the client's usage limit; over a
+        // blocking limit the message is stored but left for a human
+        const { data: usage, error: usageError } = await supabaseAdmin.rpc('reserve_usage', {
+          p_client_id: clientId,
+          p_service_slug: 'whatsapp-automation',
+          p_amount: 1,
+          p_source: 'whatsapp_ai_reply',
+          p_reference_id: normalizedPhone,
+        })
+        if (usageError || !usage?.allowed) {
+          console.warn(`Skipping auto-reply for client ${clientId}:`, usageError?.message ?? usage?.reason)
+          continue
+        }
+        let replySent = false
+
         try {
           const openai = new OpenAI({ apiKey: openApiKey })
           
           // Fetch bot personality (ai_chatbots table)
           const { data: aiBot } = await supabaseAdmin
             .from('ai_chatbots')
-            .select('system_prompt, temperature')
+            .select('id, system_prompt, temperature')
             .eq('client_id', clientId)
             .limit(1)
             .maybeSingle()
@@ -127,22 +272,30 @@ Deno.serve(async (req) => {
             content: m.message_content
           }))
 
+          // Ground the reply in the client's knowledge base
+          const knowledgeMatches = aiBot?.id
+            ? await searchChatbotKnowledge(openai, supabaseAdmin, aiBot.id, content)
+            : []
+
           // Call AI
           const completion = await openai.chat.completions.create({
             model: "gpt-4o-mini",
             messages: [
-              { role: 'system', content: systemPrompt },
+              { role: 'system', content: buildKnowledgePrompt(systemPrompt, knowledgeMatches) },
               ...chatHistory
             ],
             temperature: Number(temperature)
           })
 
-          const aiText = completion.choices[0].message.content
+          const rawText = completion.choices[0].message.content
+          const citations = rawText ? serializeCitations(extractCitations(rawText, knowledgeMatches)) : []
+          // WhatsApp can't show sources, so the markers are kept in metadata only
+          const aiText = rawText ? stripCitationMarkers(rawText) : rawText
 
           if (aiText) {
             console.log("AI Response:", aiText)
             
-            // 5. Send AI response back via WhatsApp
+            // 6. Send AI response back via WhatsApp
             const apiKey = bot.api_config?.api_key || Deno.env.get('WHATSAPP_API_KEY')
             
             if (apiKey) {
@@ -160,9 +313,10 @@ Deno.serve(async (req) => {
               })
 
               const whapiResult = await whapiRes.json()
+              replySent = whapiRes.ok
               console.log("Whapi Response:", whapiResult)
 
-              // 6. Store AI response message in DB
+              // 7. Store AI response message in DB
               await supabaseAdmin
                 .from('whatsapp_messages')
                 .insert({
@@ -173,8 +327,9 @@ Deno.serve(async (req) => {
                   direction: 'outbound',
                   sender_name: bot.name || 'LeadNest AI',
                   status: whapiRes.ok ? 'sent' : 'failed',
+                  wamid: whapiResult?.messages?.[0]?.id ?? null,
                   sent_at: new Date().toISOString(),
-                  metadata: { ai_response: true, whapi_id: whapiResult.id }
+                  metadata: { ai_response: true, whapi_id: whapiResult.id, citations }
                 })
             } else {
               console.warn("No WhatsApp API key found for bot:", bot.id)
@@ -183,6 +338,8 @@ Deno.serve(async (req) => {
         } catch (aiErr) {
           console.error("AI Generation Error:", aiErr)
         }
+
+        await supabaseAdmin.rpc(replySent ? 'commit_usage' : 'release_usage', { p_reservation_id: usage.reservation_id })
       }
     }
 
@@ -0,0 +1,167 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { SIGNATURE_TOLERANCE_SECONDS, hmacSha256Hex, timingSafeEqual } from "../_shared/webhook-signature.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-webhook-timestamp, x-webhook-signature, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+const EVENTS = ["start", "finish", "error"];
+
+interface ExecutionNode {
+  name: string;
+  started_at?: string;
+  duration_ms?: number;
+  status?: string;
+  error?: unknown;
+}
+
+interface ExecutionEvent {
+  workflow_instance_id?: string;
+  event?: string;
+  n8n_execution_id?: string | number | null;
+  execution_id?: string;
+  mode?: string;
+  input?: unknown;
+  output?: unknown;
+  error?: { message?: string; stack?: string; node?: string } | null;
+  started_at?: string;
+  finished_at?: string;
+  duration_ms?: number;
+  nodes?: ExecutionNode[];
+}
+
+function jsonResponse(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Execution events from a client's n8n workflow, signed like handle-call-status.
+ *
+ * Body:
+ *   { workflow_instance_id, event: "start" | "finish" | "error",
+ *     n8n_execution_id, execution_id?, mode?, input?, output?,
+ *     error?: { message, stack, node }, started_at?, finished_at?, duration_ms?,
+ *     nodes?: [{ name, started_at, duration_ms, status, error? }] }
+ * `execution_id` is the X-Pixora-Execution-Id header we send on retries and
+ * replays; otherwise `n8n_execution_id` identifies the run, so repeated
+ * deliveries are no-ops. Errors are retried per the template's retry_policy.
+ */
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseAdmin = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  const rawBody = await req.text();
+  let payload: ExecutionEvent | null = null;
+
+  const reject = async (status: number, reason: string, workflowInstanceId?: string | null) => {
+    const { error: logError } = await supabaseAdmin.from("webhook_rejections").insert({
+      endpoint: "workflow-execution-callback",
+      reason,
+      workflow_instance_id: workflowInstanceId ?? null,
+      source_ip: req.headers.get("x-forwarded-for"),
+      headers: {
+        "user-agent": req.headers.get("user-agent"),
+        "x-webhook-timestamp": req.headers.get("x-webhook-timestamp"),
+        "x-webhook-signature": req.headers.get("x-webhook-signature") ? "present" : null,
+      },
+      payload: payload ?? { raw: rawBody.slice(0, 2000) },
+    });
+
+    if (logError) {
+      console.error("Failed to record webhook rejection:", logError);
+    }
+
+    return jsonResponse(status, { success: false, error: reason });
+  };
+
+  try {
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return await reject(400, "Invalid JSON body");
+    }
+
+    const { workflow_instance_id, event } = payload ?? {};
+
+    if (!workflow_instance_id) {
+      return await reject(401, "workflow_instance_id is required to verify the signature");
+    }
+
+    const timestamp = req.headers.get("x-webhook-timestamp");
+    const signature = req.headers.get("x-webhook-signature");
+
+    if (!timestamp || !signature) {
+      return await reject(401, "Missing signature headers", workflow_instance_id);
+    }
+
+    const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+    if (!Number.isFinite(age) || age > SIGNATURE_TOLERANCE_SECONDS) {
+      return await reject(401, "Signature timestamp outside tolerance", workflow_instance_id);
+    }
+
+    const { data: instance } = await supabaseAdmin
+      .from("client_workflow_instances")
+      .select("id, workflow_webhook_secrets(secret)")
+      .eq("id", workflow_instance_id)
+      .maybeSingle();
+
+    const secret = (instance?.workflow_webhook_secrets as unknown as { secret: string } | null)?.secret;
+    if (!instance || !secret) {
+      return await reject(401, "Unknown workflow instance", workflow_instance_id);
+    }
+
+    const expected = `v1=${await hmacSha256Hex(secret, `${timestamp}.${rawBody}`)}`;
+    if (!timingSafeEqual(signature, expected)) {
+      return await reject(401, "Invalid signature", workflow_instance_id);
+    }
+
+    if (!event || !EVENTS.includes(event)) {
+      return await reject(400, `event must be one of: ${EVENTS.join(", ")}`, workflow_instance_id);
+    }
+    if (!payload!.execution_id && !payload!.n8n_execution_id) {
+      return await reject(400, "execution_id or n8n_execution_id is required", workflow_instance_id);
+    }
+    if (payload!.nodes !== undefined && !Array.isArray(payload!.nodes)) {
+      return await reject(400, "nodes must be an array", workflow_instance_id);
+    }
+
+    const { data: result, error: recordError } = await supabaseAdmin.rpc("record_workflow_execution", {
+      p_workflow_instance_id: workflow_instance_id,
+      p_event: event,
+      p_payload: {
+        ...payload,
+        n8n_execution_id: payload!.n8n_execution_id != null ? String(payload!.n8n_execution_id) : null,
+        // The failing node is kept with the message so the inspector can show it
+        error: event === "error" && payload!.error
+          ? {
+              ...payload!.error,
+              message: payload!.error.node
+                ? `${payload!.error.node}: ${payload!.error.message ?? "failed"}`
+                : payload!.error.message,
+            }
+          : payload!.error,
+      },
+    });
+
+    if (recordError) {
+      console.error("Execution record error:", recordError);
+      return jsonResponse(500, { success: false, error: recordError.message });
+    }
+
+    return jsonResponse(200, { success: true, ...result });
+  } catch (error) {
+    console.error("Error:", error);
+    return jsonResponse(500, { success: false, error: error.message });
+  }
+});
@@ -0,0 +1,190 @@
+-- Campaign dialer: per-campaign queue with concurrency, pacing and retries
+
+ALTER TYPE public.contact_call_status ADD VALUE IF NOT EXISTS 'no_answer';
+
+-- 1. Dialer settings per campaign
+ALTER TABLE public.voice_campaigns
+  ADD COLUMN IF NOT EXISTS max_concurrent_calls INTEGER NOT NULL DEFAULT 5,
+  ADD COLUMN IF NOT EXISTS calls_per_minute INTEGER NOT NULL DEFAULT 10,
+  ADD COLUMN IF NOT EXISTS max_attempts INTEGER NOT NULL DEFAULT 3,
+  ADD COLUMN IF NOT EXISTS retry_on_statuses TEXT[] NOT NULL DEFAULT ARRAY['busy', 'no_answer'],
+  ADD COLUMN IF NOT EXISTS retry_backoff_minutes INTEGER NOT NULL DEFAULT 30,
+  ADD COLUMN IF NOT EXISTS retry_backoff_multiplier NUMERIC(4,2) NOT NULL DEFAULT 2,
+  ADD COLUMN IF NOT EXISTS call_timeout_minutes INTEGER NOT NULL DEFAULT 15,
+  ADD COLUMN IF NOT EXISTS paused_at TIMESTAMPTZ;
+
+-- 2. Queue state per contact
+ALTER TABLE public.campaign_contacts
+  ADD COLUMN IF NOT EXISTS attempt_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_attempt_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_outcome TEXT,
+  ADD COLUMN IF NOT EXISTS last_error TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_campaign_contacts_queue
+  ON public.campaign_contacts(campaign_id, call_status, next_attempt_at);
+
+-- 3. Hand out the next contacts to dial for a running campaign.
+-- Locks the campaign row so concurrent dialer ticks cannot exceed the
+-- concurrency or calls-per-minute limits.
+CREATE OR REPLACE FUNCTION public.claim_campaign_contacts(p_campaign_id UUID)
+RETURNS SETOF public.campaign_contacts AS $$
+DECLARE
+  v_campaign voice_campaigns%ROWTYPE;
+  v_in_flight INTEGER;
+  v_recent INTEGER;
+  v_slots INTEGER;
+BEGIN
+  SELECT * INTO v_campaign FROM voice_campaigns WHERE id = p_campaign_id FOR UPDATE;
+
+  IF NOT FOUND OR v_campaign.status <> 'running' THEN
+    RETURN;
+  END IF;
+
+  -- Contacts stuck in 'calling' never reported back (worker or workflow crashed)
+  UPDATE campaign_contacts
+  SET call_status = CASE WHEN attempt_count < v_campaign.max_attempts THEN 'pending' ELSE 'failed' END::contact_call_status,
+      next_attempt_at = CASE WHEN attempt_count < v_campaign.max_attempts THEN NOW() ELSE NULL END,
+      last_error = 'No call result received'
+  WHERE campaign_id = p_campaign_id
+    AND call_status = 'calling'
+    AND last_attempt_at < NOW() - make_interval(mins => v_campaign.call_timeout_minutes);
+
+  SELECT COUNT(*) INTO v_in_flight
+  FROM campaign_contacts
+  WHERE campaign_id = p_campaign_id AND call_status = 'calling';
+
+  SELECT COUNT(*) INTO v_recent
+  FROM campaign_contacts
+  WHERE campaign_id = p_campaign_id AND last_attempt_at > NOW() - INTERVAL '1 minute';
+
+  v_slots := LEAST(v_campaign.max_concurrent_calls - v_in_flight, v_campaign.calls_per_minute - v_recent);
+
+  IF v_slots <= 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE campaign_contacts cc
+  SET call_status = 'calling',
+      attempt_count = cc.attempt_count + 1,
+      last_attempt_at = NOW(),
+      next_attempt_at = NULL,
+      last_error = NULL
+  WHERE cc.id IN (
+    SELECT id FROM campaign_contacts
+    WHERE campaign_id = p_campaign_id
+      AND (call_status IS NULL OR call_status = 'pending')
+      AND (next_attempt_at IS NULL OR next_attempt_at <= NOW())
+    ORDER BY next_attempt_at NULLS FIRST, created_at
+    LIMIT v_slots
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING cc.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 4. Record a call outcome for a contact. Retryable outcomes are requeued
+-- with exponential backoff until max_attempts is reached.
+CREATE OR REPLACE FUNCTION public.record_campaign_contact_result(
+  p_contact_id UUID,
+  p_call_status TEXT,
+  p_call_log_id UUID DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_contact campaign_contacts%ROWTYPE;
+  v_campaign voice_campaigns%ROWTYPE;
+  v_backoff_minutes NUMERIC;
+BEGIN
+  SELECT * INTO v_contact FROM campaign_contacts WHERE id = p_contact_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  -- Intermediate provider states keep the dialer slot occupied
+  IF p_call_status IN ('initiated', 'ringing') THEN
+    RETURN v_contact.call_status::TEXT;
+  END IF;
+
+  SELECT * INTO v_campaign FROM voice_campaigns WHERE id = v_contact.campaign_id;
+
+  IF p_call_status = ANY(v_campaign.retry_on_statuses) AND v_contact.attempt_count < v_campaign.max_attempts THEN
+    v_backoff_minutes := v_campaign.retry_backoff_minutes
+      * power(v_campaign.retry_backoff_multiplier, GREATEST(v_contact.attempt_count - 1, 0));
+
+    UPDATE campaign_contacts
+    SET call_status = 'pending',
+        next_attempt_at = NOW() + make_interval(secs => v_backoff_minutes * 60),
+        last_outcome = p_call_status,
+        call_log_id = COALESCE(p_call_log_id, call_log_id)
+    WHERE id = p_contact_id;
+
+    RETURN 'pending';
+  END IF;
+
+  UPDATE campaign_contacts
+  SET call_status = CASE
+        WHEN p_call_status IN ('answered', 'busy', 'no_answer', 'failed', 'completed') THEN p_call_status
+        ELSE 'failed'
+      END::contact_call_status,
+      next_attempt_at = NULL,
+      last_outcome = p_call_status,
+      call_log_id = COALESCE(p_call_log_id, call_log_id)
+  WHERE id = p_contact_id;
+
+  RETURN p_call_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the dialer and call-status ingestion (service role) claim contacts or
+-- record their outcomes
+REVOKE ALL ON FUNCTION public.claim_campaign_contacts(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.record_campaign_contact_result(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_campaign_contacts(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_campaign_contact_result(UUID, TEXT, UUID) TO service_role;
+
+-- 5. Campaign progress only counts contacts that are finished, so requeued
+-- and in-flight contacts no longer complete a campaign early.
+CREATE OR REPLACE FUNCTION public.update_campaign_status_trigger()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_called INTEGER;
+  v_answered INTEGER;
+  v_total INTEGER;
+  v_status campaign_status;
+  v_campaign_name TEXT;
+  v_client_user_id UUID;
+  v_done BOOLEAN;
+BEGIN
+  SELECT COUNT(*) FILTER (WHERE call_status IS NOT NULL AND call_status NOT IN ('pending', 'calling')),
+         COUNT(*) FILTER (WHERE call_status IN ('answered', 'completed'))
+  INTO v_called, v_answered
+  FROM campaign_contacts WHERE campaign_id = NEW.campaign_id;
+
+  SELECT total_contacts, vc.status, campaign_name, c.user_id
+  INTO v_total, v_status, v_campaign_name, v_client_user_id
+  FROM voice_campaigns vc JOIN clients c ON c.id = vc.client_id
+  WHERE vc.id = NEW.campaign_id;
+
+  v_done := v_called >= COALESCE(v_total, 0) AND v_status IN ('running', 'paused');
+
+  UPDATE voice_campaigns
+  SET contacts_called = v_called, contacts_answered = v_answered,
+      status = CASE WHEN v_done THEN 'completed' ELSE status END,
+      completed_at = CASE WHEN v_done AND completed_at IS NULL THEN NOW() ELSE completed_at END,
+      updated_at = NOW()
+  WHERE id = NEW.campaign_id;
+
+  IF v_done AND v_client_user_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, title, message, type, action_url)
+    VALUES (v_client_user_id, 'Campaign Completed',
+      format('Your campaign "%s" has finished. %s contacts called.', v_campaign_name, v_called),
+      'success', '/client/voice-telecaller');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE campaign_contacts;
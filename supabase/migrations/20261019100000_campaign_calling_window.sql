@@ -0,0 +1,289 @@
+-- Calling-window and timezone compliance for the campaign dialer
+
+-- 1. Calling window per campaign (hours are in each contact's local time)
+ALTER TABLE public.voice_campaigns
+  ADD COLUMN IF NOT EXISTS calling_hours_start TIME NOT NULL DEFAULT '09:00',
+  ADD COLUMN IF NOT EXISTS calling_hours_end TIME NOT NULL DEFAULT '18:00',
+  ADD COLUMN IF NOT EXISTS calling_days TEXT[] NOT NULL DEFAULT ARRAY['Mon', 'Tue', 'Wed', 'Thu', 'Fri'],
+  ADD COLUMN IF NOT EXISTS holidays DATE[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS default_timezone TEXT NOT NULL DEFAULT 'Asia/Kolkata',
+  ADD CONSTRAINT voice_campaigns_calling_hours_check CHECK (calling_hours_start <> calling_hours_end);
+
+ALTER TABLE public.campaign_contacts
+  ADD COLUMN IF NOT EXISTS timezone TEXT,
+  ADD COLUMN IF NOT EXISTS skip_reason TEXT;
+
+-- 2. E.164 prefix → timezone lookup (longest prefix wins)
+CREATE TABLE IF NOT EXISTS public.phone_timezone_prefixes (
+  prefix TEXT PRIMARY KEY,
+  timezone TEXT NOT NULL
+);
+
+ALTER TABLE public.phone_timezone_prefixes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins can manage phone timezone prefixes"
+  ON public.phone_timezone_prefixes FOR ALL
+  USING (public.is_super_admin());
+
+CREATE POLICY "Authenticated users can view phone timezone prefixes"
+  ON public.phone_timezone_prefixes FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Countries spanning several zones map to their most populous zone; a few
+-- North American area codes are listed to cover the largest markets.
+INSERT INTO public.phone_timezone_prefixes (prefix, timezone) VALUES
+  ('1', 'America/New_York'),
+  ('1206', 'America/Los_Angeles'), ('1213', 'America/Los_Angeles'), ('1310', 'America/Los_Angeles'),
+  ('1408', 'America/Los_Angeles'), ('1415', 'America/Los_Angeles'), ('1650', 'America/Los_Angeles'),
+  ('1214', 'America/Chicago'), ('1312', 'America/Chicago'), ('1713', 'America/Chicago'), ('1773', 'America/Chicago'),
+  ('1303', 'America/Denver'), ('1602', 'America/Phoenix'),
+  ('1416', 'America/Toronto'), ('1647', 'America/Toronto'), ('1604', 'America/Vancouver'),
+  ('7', 'Europe/Moscow'),
+  ('20', 'Africa/Cairo'), ('27', 'Africa/Johannesburg'), ('234', 'Africa/Lagos'), ('254', 'Africa/Nairobi'),
+  ('31', 'Europe/Amsterdam'), ('32', 'Europe/Brussels'), ('33', 'Europe/Paris'), ('34', 'Europe/Madrid'),
+  ('39', 'Europe/Rome'), ('41', 'Europe/Zurich'), ('44', 'Europe/London'), ('45', 'Europe/Copenhagen'),
+  ('46', 'Europe/Stockholm'), ('47', 'Europe/Oslo'), ('48', 'Europe/Warsaw'), ('49', 'Europe/Berlin'),
+  ('351', 'Europe/Lisbon'), ('353', 'Europe/Dublin'), ('90', 'Europe/Istanbul'),
+  ('52', 'America/Mexico_City'), ('54', 'America/Argentina/Buenos_Aires'), ('55', 'America/Sao_Paulo'),
+  ('56', 'America/Santiago'), ('57', 'America/Bogota'),
+  ('60', 'Asia/Kuala_Lumpur'), ('61', 'Australia/Sydney'), ('62', 'Asia/Jakarta'), ('63', 'Asia/Manila'),
+  ('64', 'Pacific/Auckland'), ('65', 'Asia/Singapore'), ('66', 'Asia/Bangkok'),
+  ('81', 'Asia/Tokyo'), ('82', 'Asia/Seoul'), ('84', 'Asia/Ho_Chi_Minh'), ('86', 'Asia/Shanghai'), ('852', 'Asia/Hong_Kong'),
+  ('91', 'Asia/Kolkata'), ('92', 'Asia/Karachi'), ('94', 'Asia/Colombo'), ('880', 'Asia/Dhaka'), ('977', 'Asia/Kathmandu'),
+  ('965', 'Asia/Kuwait'), ('966', 'Asia/Riyadh'), ('968', 'Asia/Muscat'), ('971', 'Asia/Dubai'),
+  ('973', 'Asia/Bahrain'), ('974', 'Asia/Qatar')
+ON CONFLICT (prefix) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.resolve_phone_timezone(p_phone TEXT)
+RETURNS TEXT AS $$
+  SELECT timezone
+  FROM public.phone_timezone_prefixes
+  WHERE regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g') LIKE prefix || '%'
+  ORDER BY length(prefix) DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.is_valid_timezone(p_timezone TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- An unknown zone makes every AT TIME ZONE in the window checks raise, which
+-- would stop the dialer from claiming anything for the campaign.
+CREATE OR REPLACE FUNCTION public.validate_campaign_timezone()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT public.is_valid_timezone(NEW.default_timezone) THEN
+    RAISE EXCEPTION 'Unknown timezone: %', NEW.default_timezone
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER validate_campaign_timezone
+  BEFORE INSERT OR UPDATE OF default_timezone ON public.voice_campaigns
+  FOR EACH ROW EXECUTE FUNCTION public.validate_campaign_timezone();
+
+-- 3. Contacts get their timezone on insert: an explicit (valid) CSV value
+-- wins, otherwise it is derived from the phone number's prefix.
+CREATE OR REPLACE FUNCTION public.set_campaign_contact_timezone()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_tz TEXT;
+BEGIN
+  v_tz := COALESCE(NULLIF(trim(NEW.timezone), ''), NULLIF(trim(NEW.contact_data->>'timezone'), ''));
+
+  IF v_tz IS NOT NULL AND NOT public.is_valid_timezone(v_tz) THEN
+    v_tz := NULL;
+  END IF;
+
+  NEW.timezone := COALESCE(v_tz, public.resolve_phone_timezone(NEW.phone_number));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_campaign_contact_timezone
+  BEFORE INSERT OR UPDATE OF phone_number, contact_data, timezone ON public.campaign_contacts
+  FOR EACH ROW EXECUTE FUNCTION public.set_campaign_contact_timezone();
+
+UPDATE public.campaign_contacts
+SET timezone = public.resolve_phone_timezone(phone_number)
+WHERE timezone IS NULL;
+
+-- 4. Window checks. Returns NULL when dialing is allowed at p_at, otherwise
+-- the reason it is not: 'holiday', 'day_not_allowed' or 'outside_hours'.
+-- A window whose end is before its start runs past midnight (20:00-02:00);
+-- its early hours belong to the day the window opened.
+CREATE OR REPLACE FUNCTION public.calling_window_block_reason(
+  p_at TIMESTAMPTZ,
+  p_timezone TEXT,
+  p_start TIME,
+  p_end TIME,
+  p_days TEXT[],
+  p_holidays DATE[]
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_local TIMESTAMP := p_at AT TIME ZONE p_timezone;
+  v_time TIME := v_local::TIME;
+  v_day DATE := v_local::DATE;
+  v_overnight BOOLEAN := p_end < p_start;
+BEGIN
+  IF v_overnight AND v_time < p_end THEN
+    v_day := v_day - 1;
+  END IF;
+
+  IF v_day = ANY(COALESCE(p_holidays, '{}')) THEN
+    RETURN 'holiday';
+  END IF;
+
+  IF NOT (to_char(v_day, 'Dy') = ANY(p_days)) THEN
+    RETURN 'day_not_allowed';
+  END IF;
+
+  IF (NOT v_overnight AND (v_time < p_start OR v_time >= p_end))
+     OR (v_overnight AND v_time < p_start AND v_time >= p_end) THEN
+    RETURN 'outside_hours';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Start of the next allowed window at or after p_at (NULL if none within two weeks)
+CREATE OR REPLACE FUNCTION public.next_calling_slot(
+  p_at TIMESTAMPTZ,
+  p_timezone TEXT,
+  p_start TIME,
+  p_end TIME,
+  p_days TEXT[],
+  p_holidays DATE[]
+)
+RETURNS TIMESTAMPTZ AS $$
+DECLARE
+  v_local TIMESTAMP := p_at AT TIME ZONE p_timezone;
+  v_day DATE;
+BEGIN
+  IF public.calling_window_block_reason(p_at, p_timezone, p_start, p_end, p_days, p_holidays) IS NULL THEN
+    RETURN p_at;
+  END IF;
+
+  FOR i IN 0..14 LOOP
+    v_day := v_local::DATE + i;
+
+    IF to_char(v_day, 'Dy') = ANY(p_days)
+       AND NOT (v_day = ANY(COALESCE(p_holidays, '{}')))
+       AND v_day + p_start > v_local THEN
+      RETURN (v_day + p_start) AT TIME ZONE p_timezone;
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- 5. Dialer claim now defers contacts outside their calling window to the
+-- next allowed slot before handing out work.
+CREATE OR REPLACE FUNCTION public.claim_campaign_contacts(p_campaign_id UUID)
+RETURNS SETOF public.campaign_contacts AS $$
+DECLARE
+  v_campaign voice_campaigns%ROWTYPE;
+  v_in_flight INTEGER;
+  v_recent INTEGER;
+  v_slots INTEGER;
+BEGIN
+  SELECT * INTO v_campaign FROM voice_campaigns WHERE id = p_campaign_id FOR UPDATE;
+
+  IF NOT FOUND OR v_campaign.status <> 'running' THEN
+    RETURN;
+  END IF;
+
+  -- Contacts stuck in 'calling' never reported back (worker or workflow crashed)
+  UPDATE campaign_contacts
+  SET call_status = CASE WHEN attempt_count < v_campaign.max_attempts THEN 'pending' ELSE 'failed' END::contact_call_status,
+      next_attempt_at = CASE WHEN attempt_count < v_campaign.max_attempts THEN NOW() ELSE NULL END,
+      last_error = 'No call result received'
+  WHERE campaign_id = p_campaign_id
+    AND call_status = 'calling'
+    AND last_attempt_at < NOW() - make_interval(mins => v_campaign.call_timeout_minutes);
+
+  -- Defer due contacts whose local time is outside the calling window
+  UPDATE campaign_contacts cc
+  SET skip_reason = blocked.reason,
+      next_attempt_at = COALESCE(
+        public.next_calling_slot(NOW(), blocked.tz, v_campaign.calling_hours_start, v_campaign.calling_hours_end,
+          v_campaign.calling_days, v_campaign.holidays),
+        NOW() + INTERVAL '1 day'
+      )
+  FROM (
+    SELECT c.id, t.tz,
+      public.calling_window_block_reason(NOW(), t.tz, v_campaign.calling_hours_start, v_campaign.calling_hours_end,
+        v_campaign.calling_days, v_campaign.holidays) AS reason
+    FROM campaign_contacts c
+    CROSS JOIN LATERAL (SELECT COALESCE(c.timezone, v_campaign.default_timezone) AS tz) t
+    WHERE c.campaign_id = p_campaign_id
+      AND (c.call_status IS NULL OR c.call_status = 'pending')
+      AND (c.next_attempt_at IS NULL OR c.next_attempt_at <= NOW())
+  ) blocked
+  WHERE cc.id = blocked.id AND blocked.reason IS NOT NULL;
+
+  SELECT COUNT(*) INTO v_in_flight
+  FROM campaign_contacts
+  WHERE campaign_id = p_campaign_id AND call_status = 'calling';
+
+  SELECT COUNT(*) INTO v_recent
+  FROM campaign_contacts
+  WHERE campaign_id = p_campaign_id AND last_attempt_at > NOW() - INTERVAL '1 minute';
+
+  v_slots := LEAST(v_campaign.max_concurrent_calls - v_in_flight, v_campaign.calls_per_minute - v_recent);
+
+  IF v_slots <= 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE campaign_contacts cc
+  SET call_status = 'calling',
+      attempt_count = cc.attempt_count + 1,
+      last_attempt_at = NOW(),
+      next_attempt_at = NULL,
+      last_error = NULL,
+      skip_reason = NULL
+  WHERE cc.id IN (
+    SELECT id FROM campaign_contacts
+    WHERE campaign_id = p_campaign_id
+      AND (call_status IS NULL OR call_status = 'pending')
+      AND (next_attempt_at IS NULL OR next_attempt_at <= NOW())
+    ORDER BY next_attempt_at NULLS FIRST, created_at
+    LIMIT v_slots
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING cc.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.claim_campaign_contacts(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_campaign_contacts(UUID) TO service_role;
+
+-- 6. Clients create their own campaigns from the launch wizard as drafts;
+-- trigger-telecaller-campaign starts them. Campaigns that are not dialing can
+-- be deleted, including a draft whose upload failed. The wizard's voice and voicemail choices ride along to the
+-- workflow with every dispatched call.
+ALTER TABLE public.voice_campaigns
+  ADD COLUMN IF NOT EXISTS agent_settings JSONB NOT NULL DEFAULT '{}';
+
+CREATE POLICY "Clients can create own draft campaigns" ON public.voice_campaigns FOR INSERT TO authenticated WITH CHECK (
+  client_id = (SELECT id FROM public.clients WHERE user_id = auth.uid()) AND status = 'draft'
+);
+CREATE POLICY "Clients can delete own idle campaigns" ON public.voice_campaigns FOR DELETE TO authenticated USING (
+  client_id = (SELECT id FROM public.clients WHERE user_id = auth.uid()) AND status <> 'running'
+);
+CREATE POLICY "Clients can add contacts to own draft campaigns" ON public.campaign_contacts FOR INSERT TO authenticated WITH CHECK (
+  call_status IS NULL
+  AND campaign_id IN (
+    SELECT id FROM public.voice_campaigns
+    WHERE client_id = (SELECT id FROM public.clients WHERE user_id = auth.uid()) AND status = 'draft'
+  )
+);
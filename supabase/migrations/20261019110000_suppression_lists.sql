@@ -0,0 +1,234 @@
+-- Do-Not-Call / suppression lists honored by every outbound channel
+
+ALTER TYPE public.contact_call_status ADD VALUE IF NOT EXISTS 'suppressed';
+
+CREATE TYPE public.suppression_scope AS ENUM ('global', 'admin', 'client');
+
+-- 1. Suppression entries. Global entries are managed by super admins, admin
+-- entries apply to every client of that admin, client entries to one client.
+CREATE TABLE public.suppression_list (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scope public.suppression_scope NOT NULL,
+  admin_id UUID REFERENCES public.admins(id) ON DELETE CASCADE,
+  client_id UUID REFERENCES public.clients(id) ON DELETE CASCADE,
+  phone_number TEXT NOT NULL,
+  channel TEXT NOT NULL DEFAULT 'all' CHECK (channel IN ('all', 'voice', 'whatsapp')),
+  reason TEXT,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'csv_import', 'whatsapp_stop')),
+  added_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT suppression_scope_owner CHECK (
+    (scope = 'global' AND admin_id IS NULL AND client_id IS NULL) OR
+    (scope = 'admin' AND admin_id IS NOT NULL AND client_id IS NULL) OR
+    (scope = 'client' AND client_id IS NOT NULL AND admin_id IS NULL)
+  ),
+  CONSTRAINT suppression_list_unique UNIQUE NULLS NOT DISTINCT (scope, admin_id, client_id, phone_number, channel)
+);
+
+CREATE INDEX idx_suppression_list_phone ON public.suppression_list(phone_number);
+CREATE INDEX idx_suppression_list_client ON public.suppression_list(client_id);
+CREATE INDEX idx_suppression_list_admin ON public.suppression_list(admin_id);
+
+-- Store and compare numbers in E.164 (+<country code><number>) so lookups
+-- match regardless of input formatting. International input (+ or 00) keeps
+-- its country code; national input (a leading trunk 0, or ten digits or
+-- fewer) is read as a number in p_default_country_code, India by default like
+-- the rest of the platform.
+CREATE OR REPLACE FUNCTION public.normalize_phone(p_phone TEXT, p_default_country_code TEXT DEFAULT '91')
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN v.digits = '' OR v.raw LIKE '+%' THEN '+' || v.digits
+    WHEN v.digits LIKE '00%' THEN '+' || substr(v.digits, 3)
+    WHEN v.digits LIKE '0%' THEN '+' || p_default_country_code || ltrim(v.digits, '0')
+    WHEN length(v.digits) <= 10 THEN '+' || p_default_country_code || v.digits
+    ELSE '+' || v.digits
+  END
+  FROM (
+    SELECT btrim(COALESCE(p_phone, '')) AS raw, regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g') AS digits
+  ) v;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.normalize_suppression_phone()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.phone_number := public.normalize_phone(NEW.phone_number);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER normalize_suppression_phone
+  BEFORE INSERT OR UPDATE OF phone_number ON public.suppression_list
+  FOR EACH ROW EXECUTE FUNCTION public.normalize_suppression_phone();
+
+-- 2. RLS
+ALTER TABLE public.suppression_list ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins full access suppression list"
+  ON public.suppression_list FOR ALL TO authenticated
+  USING (public.is_super_admin()) WITH CHECK (public.is_super_admin());
+
+CREATE POLICY "Admins manage own suppression list"
+  ON public.suppression_list FOR ALL TO authenticated
+  USING (
+    (scope = 'admin' AND admin_id = public.get_admin_id_for_user()) OR
+    (scope = 'client' AND client_id IN (SELECT id FROM public.clients WHERE admin_id = public.get_admin_id_for_user()))
+  )
+  WITH CHECK (
+    (scope = 'admin' AND admin_id = public.get_admin_id_for_user()) OR
+    (scope = 'client' AND client_id IN (SELECT id FROM public.clients WHERE admin_id = public.get_admin_id_for_user()))
+  );
+
+CREATE POLICY "Clients manage own suppression list"
+  ON public.suppression_list FOR ALL TO authenticated
+  USING (scope = 'client' AND client_id = (SELECT id FROM public.clients WHERE user_id = auth.uid()))
+  WITH CHECK (scope = 'client' AND client_id = (SELECT id FROM public.clients WHERE user_id = auth.uid()));
+
+-- 3. Lookups. Returns the subset of p_phones suppressed for the client on the
+-- given channel (global, the client's admin, or the client itself).
+CREATE OR REPLACE FUNCTION public.get_suppressed_phones(
+  p_client_id UUID,
+  p_phones TEXT[],
+  p_channel TEXT DEFAULT 'all'
+)
+RETURNS TEXT[] AS $$
+DECLARE
+  v_admin_id UUID;
+  v_result TEXT[];
+BEGIN
+  SELECT admin_id INTO v_admin_id FROM clients WHERE id = p_client_id;
+
+  -- Authenticated callers may only check on behalf of clients they can see;
+  -- the service role (no auth.uid()) is trusted.
+  -- A client without an admin, or a caller who is neither, compares as NULL
+  IF auth.uid() IS NOT NULL AND NOT COALESCE(
+    public.is_super_admin()
+    OR v_admin_id = public.get_admin_id_for_user()
+    OR p_client_id = (SELECT id FROM clients WHERE user_id = auth.uid()),
+    false
+  ) THEN
+    RAISE EXCEPTION 'Not authorized to check suppression for this client';
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT input.phone), '{}')
+  INTO v_result
+  FROM unnest(p_phones) AS input(phone)
+  JOIN suppression_list s ON s.phone_number = public.normalize_phone(input.phone)
+  WHERE (s.channel = 'all' OR p_channel = 'all' OR s.channel = p_channel)
+    AND (
+      s.scope = 'global'
+      OR (s.scope = 'admin' AND s.admin_id = v_admin_id)
+      OR (s.scope = 'client' AND s.client_id = p_client_id)
+    );
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.is_phone_suppressed(
+  p_client_id UUID,
+  p_phone TEXT,
+  p_channel TEXT DEFAULT 'all'
+)
+RETURNS BOOLEAN AS $$
+  SELECT cardinality(public.get_suppressed_phones(p_client_id, ARRAY[p_phone], p_channel)) > 0;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.get_suppressed_phones(UUID, TEXT[], TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.is_phone_suppressed(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_suppressed_phones(UUID, TEXT[], TEXT) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.is_phone_suppressed(UUID, TEXT, TEXT) TO authenticated, service_role;
+
+-- 4. Queued outbound WhatsApp messages to suppressed numbers never leave the queue
+CREATE OR REPLACE FUNCTION public.block_suppressed_whatsapp_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(NEW.direction, 'outbound') = 'outbound'
+     AND NEW.status = 'queued'
+     AND public.is_phone_suppressed(NEW.client_id, NEW.phone_number, 'whatsapp') THEN
+    NEW.status := 'failed';
+    NEW.error_message := 'Recipient is on a Do-Not-Contact list';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER block_suppressed_whatsapp_message
+  BEFORE INSERT ON public.whatsapp_messages
+  FOR EACH ROW EXECUTE FUNCTION public.block_suppressed_whatsapp_message();
+
+-- 5. Outbound call lists are dialed by n8n straight from outbound_contacts.
+-- Suppressed numbers stay in the lists but are flagged with suppressed_at,
+-- and the dialing workflows skip flagged rows. Flags follow the lists: they
+-- are set on insert, when a number is suppressed later and cleared when the
+-- last entry that covered a number is removed.
+ALTER TABLE public.outbound_contacts
+  ADD COLUMN IF NOT EXISTS suppressed_at TIMESTAMPTZ;
+
+CREATE OR REPLACE FUNCTION public.is_outbound_contact_suppressed(p_list_id UUID, p_phone TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM outbound_contact_lists l
+    LEFT JOIN clients c ON c.user_id = l.owner_user_id
+    JOIN suppression_list s ON s.phone_number = public.normalize_phone(p_phone)
+    WHERE l.id = p_list_id
+      AND s.channel IN ('all', 'voice')
+      AND (
+        s.scope = 'global'
+        OR (s.scope = 'admin' AND s.admin_id = c.admin_id)
+        OR (s.scope = 'client' AND s.client_id = c.id)
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.is_outbound_contact_suppressed(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.flag_suppressed_outbound_contact()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF public.is_outbound_contact_suppressed(NEW.list_id, NEW.phone_number) THEN
+    NEW.suppressed_at := COALESCE(NEW.suppressed_at, now());
+  ELSE
+    NEW.suppressed_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER flag_suppressed_outbound_contact
+  BEFORE INSERT OR UPDATE OF phone_number ON public.outbound_contacts
+  FOR EACH ROW EXECUTE FUNCTION public.flag_suppressed_outbound_contact();
+
+CREATE OR REPLACE FUNCTION public.sync_suppressed_outbound_contacts()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    UPDATE outbound_contacts
+    SET suppressed_at = NULL
+    WHERE suppressed_at IS NOT NULL
+      AND public.normalize_phone(phone_number) = OLD.phone_number
+      AND NOT public.is_outbound_contact_suppressed(list_id, phone_number);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.channel IN ('all', 'voice') THEN
+    UPDATE outbound_contacts oc
+    SET suppressed_at = now()
+    FROM outbound_contact_lists l
+    LEFT JOIN clients c ON c.user_id = l.owner_user_id
+    WHERE oc.list_id = l.id
+      AND oc.suppressed_at IS NULL
+      AND public.normalize_phone(oc.phone_number) = NEW.phone_number
+      AND (
+        NEW.scope = 'global'
+        OR (NEW.scope = 'admin' AND c.admin_id = NEW.admin_id)
+        OR (NEW.scope = 'client' AND c.id = NEW.client_id)
+      );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_suppressed_outbound_contacts
+  AFTER INSERT OR DELETE OR UPDATE OF phone_number, channel, scope, admin_id, client_id ON public.suppression_list
+  FOR EACH ROW EXECUTE FUNCTION public.sync_suppressed_outbound_contacts();
@@ -0,0 +1,182 @@
+-- Signed, idempotent call-status ingestion
+
+-- 1. Per workflow instance signing secrets. Kept out of client_workflow_instances
+-- so clients who can read their own instances never see the secret.
+CREATE TABLE public.workflow_webhook_secrets (
+  workflow_instance_id UUID PRIMARY KEY REFERENCES public.client_workflow_instances(id) ON DELETE CASCADE,
+  secret TEXT NOT NULL DEFAULT encode(gen_random_bytes(32), 'hex'),
+  rotated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.workflow_webhook_secrets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins read webhook secrets"
+  ON public.workflow_webhook_secrets FOR SELECT TO authenticated
+  USING (public.is_super_admin());
+
+INSERT INTO public.workflow_webhook_secrets (workflow_instance_id)
+SELECT id FROM public.client_workflow_instances
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.create_workflow_webhook_secret()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO workflow_webhook_secrets (workflow_instance_id)
+  VALUES (NEW.id)
+  ON CONFLICT DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER create_workflow_webhook_secret
+  AFTER INSERT ON public.client_workflow_instances
+  FOR EACH ROW EXECUTE FUNCTION public.create_workflow_webhook_secret();
+
+CREATE OR REPLACE FUNCTION public.rotate_workflow_webhook_secret(p_workflow_instance_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_secret TEXT := encode(gen_random_bytes(32), 'hex');
+BEGIN
+  IF NOT public.is_super_admin() THEN
+    RAISE EXCEPTION 'Only super admins can rotate webhook secrets';
+  END IF;
+
+  INSERT INTO workflow_webhook_secrets (workflow_instance_id, secret, rotated_at)
+  VALUES (p_workflow_instance_id, v_secret, now())
+  ON CONFLICT (workflow_instance_id)
+  DO UPDATE SET secret = EXCLUDED.secret, rotated_at = EXCLUDED.rotated_at;
+
+  RETURN v_secret;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 2. Provider call id is the idempotency key: one call_logs row per call
+ALTER TABLE public.call_logs ADD COLUMN provider_call_id TEXT;
+
+CREATE UNIQUE INDEX idx_call_logs_provider_call_id
+  ON public.call_logs(provider_call_id)
+  WHERE provider_call_id IS NOT NULL;
+
+-- 3. Deliveries that failed authentication or validation, for super admin review
+CREATE TABLE public.webhook_rejections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  workflow_instance_id UUID,
+  source_ip TEXT,
+  headers JSONB,
+  payload JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_webhook_rejections_created ON public.webhook_rejections(created_at DESC);
+
+ALTER TABLE public.webhook_rejections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins read webhook rejections"
+  ON public.webhook_rejections FOR SELECT TO authenticated
+  USING (public.is_super_admin());
+
+-- 4. Atomic ingestion. The call log, queue outcome, lead and usage are written
+-- in one transaction, and only the first final status for a call counts.
+-- Intermediate statuses (initiated, ringing) just update the call log.
+CREATE OR REPLACE FUNCTION public.ingest_call_status(
+  p_provider_call_id TEXT,
+  p_client_id UUID,
+  p_campaign_id UUID,
+  p_phone_number TEXT,
+  p_call_status TEXT,
+  p_workflow_instance_id UUID DEFAULT NULL,
+  p_contact_id UUID DEFAULT NULL,
+  p_duration_seconds INTEGER DEFAULT 0,
+  p_recording_url TEXT DEFAULT NULL,
+  p_transcript TEXT DEFAULT NULL,
+  p_ai_summary TEXT DEFAULT NULL,
+  p_is_lead BOOLEAN DEFAULT false,
+  p_lead_score INTEGER DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_status call_status;
+  v_is_final BOOLEAN;
+  v_service_id UUID;
+  v_log_id UUID;
+  v_existing call_logs%ROWTYPE;
+  v_lead_id UUID;
+BEGIN
+  v_status := CASE
+    WHEN p_call_status IN ('initiated', 'ringing', 'answered', 'busy', 'no_answer', 'failed', 'completed')
+      THEN p_call_status
+    ELSE 'failed'
+  END::call_status;
+  v_is_final := v_status NOT IN ('initiated', 'ringing');
+
+  SELECT id INTO v_service_id FROM services WHERE slug = 'voice-telecaller';
+
+  INSERT INTO call_logs (
+    client_id, workflow_instance_id, service_id, call_type, phone_number, status,
+    duration_seconds, recording_url, transcript, ai_summary, provider_call_id,
+    executed_at, completed_at
+  )
+  VALUES (
+    p_client_id, p_workflow_instance_id, v_service_id, 'outbound', p_phone_number, v_status,
+    COALESCE(p_duration_seconds, 0), p_recording_url, p_transcript, p_ai_summary, p_provider_call_id,
+    now(), CASE WHEN v_is_final THEN now() END
+  )
+  ON CONFLICT (provider_call_id) WHERE provider_call_id IS NOT NULL DO NOTHING
+  RETURNING id INTO v_log_id;
+
+  IF v_log_id IS NULL THEN
+    SELECT * INTO v_existing FROM call_logs WHERE provider_call_id = p_provider_call_id FOR UPDATE;
+
+    -- Anything after the final status is a replay
+    IF v_existing.completed_at IS NOT NULL THEN
+      RETURN jsonb_build_object('duplicate', true, 'final', true, 'call_log_id', v_existing.id);
+    END IF;
+
+    IF NOT v_is_final THEN
+      IF v_existing.status = v_status THEN
+        RETURN jsonb_build_object('duplicate', true, 'final', false, 'call_log_id', v_existing.id);
+      END IF;
+      UPDATE call_logs SET status = v_status WHERE id = v_existing.id;
+      RETURN jsonb_build_object('duplicate', false, 'final', false, 'call_log_id', v_existing.id);
+    END IF;
+
+    UPDATE call_logs
+    SET status = v_status,
+        duration_seconds = COALESCE(p_duration_seconds, 0),
+        recording_url = COALESCE(p_recording_url, recording_url),
+        transcript = COALESCE(p_transcript, transcript),
+        ai_summary = COALESCE(p_ai_summary, ai_summary),
+        completed_at = now()
+    WHERE id = v_existing.id;
+
+    v_log_id := v_existing.id;
+  ELSIF NOT v_is_final THEN
+    RETURN jsonb_build_object('duplicate', false, 'final', false, 'call_log_id', v_log_id);
+  END IF;
+
+  IF p_contact_id IS NOT NULL THEN
+    PERFORM public.record_campaign_contact_result(p_contact_id, v_status::TEXT, v_log_id);
+  END IF;
+
+  IF p_is_lead THEN
+    INSERT INTO leads (client_id, call_log_id, campaign_id, lead_source, phone, lead_score, status, notes)
+    VALUES (p_client_id, v_log_id, p_campaign_id, 'telecaller', p_phone_number, COALESCE(p_lead_score, 50), 'new', p_ai_summary)
+    RETURNING id INTO v_lead_id;
+  END IF;
+
+  INSERT INTO usage_tracking (client_id, service_id, usage_type, quantity, metadata)
+  VALUES (
+    p_client_id, v_service_id, 'outbound_call', 1,
+    jsonb_build_object('campaign_id', p_campaign_id, 'call_status', v_status, 'duration_seconds', p_duration_seconds, 'provider_call_id', p_provider_call_id)
+  );
+
+  PERFORM public.increment_usage(p_client_id, 'voice-telecaller', 1);
+
+  RETURN jsonb_build_object('duplicate', false, 'final', true, 'call_log_id', v_log_id, 'lead_id', v_lead_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.ingest_call_status(TEXT, UUID, UUID, TEXT, TEXT, UUID, UUID, INTEGER, TEXT, TEXT, TEXT, BOOLEAN, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ingest_call_status(TEXT, UUID, UUID, TEXT, TEXT, UUID, UUID, INTEGER, TEXT, TEXT, TEXT, BOOLEAN, INTEGER) TO service_role;
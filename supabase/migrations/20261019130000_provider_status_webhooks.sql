@@ -0,0 +1,102 @@
+-- Provider-native call status callbacks (Twilio, Exotel, Telnyx)
+
+-- Upserts the call log for one provider event. In-progress statuses only move
+-- the call log forward; the final status goes through ingest_call_status so
+-- the dialer queue, lead and usage are recorded exactly once per call even if
+-- n8n reports the same call. Price and recording URL may arrive after the
+-- final status and are merged in whenever they are present.
+CREATE OR REPLACE FUNCTION public.record_provider_call_event(
+  p_provider TEXT,
+  p_provider_call_id TEXT,
+  p_client_id UUID,
+  p_phone_number TEXT,
+  p_call_status TEXT DEFAULT NULL,
+  p_duration_seconds INTEGER DEFAULT NULL,
+  p_price NUMERIC DEFAULT NULL,
+  p_recording_url TEXT DEFAULT NULL,
+  p_campaign_id UUID DEFAULT NULL,
+  p_contact_id UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_result JSONB := '{}'::jsonb;
+  v_log_id UUID;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM call_logs
+    WHERE provider_call_id = p_provider_call_id AND client_id <> p_client_id
+  ) THEN
+    RAISE EXCEPTION 'Call % belongs to a different client', p_provider_call_id;
+  END IF;
+
+  IF p_call_status IN ('initiated', 'ringing', 'answered') THEN
+    INSERT INTO call_logs (
+      client_id, service_id, call_type, phone_number, status, provider_call_id, executed_at
+    )
+    VALUES (
+      p_client_id,
+      (SELECT id FROM services WHERE slug = 'voice-telecaller'),
+      'outbound', p_phone_number, p_call_status::call_status, p_provider_call_id, now()
+    )
+    ON CONFLICT (provider_call_id) WHERE provider_call_id IS NOT NULL
+    DO UPDATE SET status = EXCLUDED.status
+    -- Callbacks can arrive out of order; never move a call backwards
+    WHERE call_logs.completed_at IS NULL
+      AND array_position(ARRAY['initiated', 'ringing', 'answered'], call_logs.status::TEXT)
+        < array_position(ARRAY['initiated', 'ringing', 'answered'], EXCLUDED.status::TEXT);
+  ELSIF p_call_status IS NOT NULL THEN
+    v_result := public.ingest_call_status(
+      p_provider_call_id => p_provider_call_id,
+      p_client_id => p_client_id,
+      p_campaign_id => p_campaign_id,
+      p_phone_number => p_phone_number,
+      p_call_status => p_call_status,
+      p_contact_id => p_contact_id,
+      p_duration_seconds => p_duration_seconds,
+      p_recording_url => p_recording_url
+    );
+  END IF;
+
+  UPDATE call_logs
+  SET cost = COALESCE(p_price, cost),
+      recording_url = COALESCE(p_recording_url, recording_url),
+      duration_seconds = COALESCE(p_duration_seconds, duration_seconds),
+      metadata = COALESCE(metadata, '{}'::jsonb) || jsonb_build_object('provider', p_provider)
+  WHERE provider_call_id = p_provider_call_id
+  RETURNING id INTO v_log_id;
+
+  RETURN v_result || jsonb_build_object('call_log_id', v_log_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.record_provider_call_event(TEXT, TEXT, UUID, TEXT, TEXT, INTEGER, NUMERIC, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_provider_call_event(TEXT, TEXT, UUID, TEXT, TEXT, INTEGER, NUMERIC, TEXT, UUID, UUID) TO service_role;
+
+-- Clients that bring their own provider account. Provider callbacks for their
+-- calls are verified with that account's secret instead of the platform's:
+-- Twilio's auth token, Exotel's callback token or Telnyx's public key.
+-- Credentials never leave the edge functions, so only super admins see them.
+CREATE TABLE public.client_telephony_accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL CHECK (provider IN ('exotel', 'twilio', 'telnyx')),
+  account_sid TEXT NOT NULL,
+  api_key TEXT NOT NULL,
+  api_secret TEXT,
+  from_number TEXT NOT NULL,
+  webhook_secret TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (client_id, provider)
+);
+
+ALTER TABLE public.client_telephony_accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins manage client telephony accounts"
+  ON public.client_telephony_accounts FOR ALL TO authenticated
+  USING (public.is_super_admin()) WITH CHECK (public.is_super_admin());
+
+CREATE TRIGGER update_client_telephony_accounts_updated_at
+  BEFORE UPDATE ON public.client_telephony_accounts
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,141 @@
+-- Telephony provider routing, rate table and provider health
+
+-- 1. Ordered provider lists per client and/or destination prefix
+CREATE TABLE public.telephony_routes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID REFERENCES public.clients(id) ON DELETE CASCADE,
+  country_prefix TEXT CHECK (country_prefix IS NULL OR country_prefix ~ '^\+\d{1,6}$'),
+  providers TEXT[] NOT NULL CHECK (
+    cardinality(providers) > 0 AND providers <@ ARRAY['exotel', 'twilio', 'telnyx']
+  ),
+  strategy TEXT NOT NULL DEFAULT 'priority' CHECK (strategy IN ('priority', 'least_cost')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT telephony_routes_unique UNIQUE NULLS NOT DISTINCT (client_id, country_prefix)
+);
+
+CREATE TRIGGER update_telephony_routes_updated_at
+  BEFORE UPDATE ON public.telephony_routes
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. Per-minute rates by provider and destination prefix (longest prefix wins)
+CREATE TABLE public.telephony_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL CHECK (provider IN ('exotel', 'twilio', 'telnyx')),
+  prefix TEXT NOT NULL CHECK (prefix ~ '^\+\d{1,6}$'),
+  rate_per_minute NUMERIC(10, 4) NOT NULL CHECK (rate_per_minute >= 0),
+  currency TEXT NOT NULL DEFAULT 'INR',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT telephony_rates_unique UNIQUE (provider, prefix)
+);
+
+CREATE TRIGGER update_telephony_rates_updated_at
+  BEFORE UPDATE ON public.telephony_rates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 3. Every dispatch attempt made by the router, successful or not
+CREATE TABLE public.telephony_provider_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID REFERENCES public.clients(id) ON DELETE SET NULL,
+  provider TEXT NOT NULL,
+  destination TEXT NOT NULL,
+  success BOOLEAN NOT NULL,
+  error_message TEXT,
+  latency_ms INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_telephony_provider_attempts_created ON public.telephony_provider_attempts(created_at DESC);
+CREATE INDEX idx_call_logs_provider ON public.call_logs((metadata->>'provider'));
+
+-- 4. RLS
+ALTER TABLE public.telephony_routes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.telephony_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.telephony_provider_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins manage telephony routes"
+  ON public.telephony_routes FOR ALL TO authenticated
+  USING (public.is_super_admin()) WITH CHECK (public.is_super_admin());
+
+CREATE POLICY "Authenticated read applicable telephony routes"
+  ON public.telephony_routes FOR SELECT TO authenticated
+  USING (
+    client_id IS NULL
+    OR client_id = (SELECT id FROM public.clients WHERE user_id = auth.uid())
+    OR client_id IN (SELECT id FROM public.clients WHERE admin_id = public.get_admin_id_for_user())
+  );
+
+CREATE POLICY "Super admins manage telephony rates"
+  ON public.telephony_rates FOR ALL TO authenticated
+  USING (public.is_super_admin()) WITH CHECK (public.is_super_admin());
+
+CREATE POLICY "Authenticated read telephony rates"
+  ON public.telephony_rates FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Super admins read provider attempts"
+  ON public.telephony_provider_attempts FOR SELECT TO authenticated
+  USING (public.is_super_admin());
+
+-- Attempts are only recorded by campaign-dialer with the service role
+REVOKE INSERT, UPDATE, DELETE ON public.telephony_provider_attempts FROM anon, authenticated;
+
+-- 5. Provider health for the super admin analytics page. A successful
+-- dispatch becomes a call log, so error rate is (failed dispatches + failed
+-- calls) / (failed dispatches + calls); answer rate is over calls placed.
+CREATE OR REPLACE FUNCTION public.get_telephony_provider_health(p_from TIMESTAMPTZ, p_to TIMESTAMPTZ)
+RETURNS TABLE (
+  provider TEXT,
+  dispatch_attempts BIGINT,
+  dispatch_errors BIGINT,
+  calls BIGINT,
+  answered BIGINT,
+  failed BIGINT,
+  error_rate NUMERIC,
+  answer_rate NUMERIC
+) AS $$
+BEGIN
+  IF NOT public.is_super_admin() THEN
+    RAISE EXCEPTION 'Only super admins can view provider health';
+  END IF;
+
+  RETURN QUERY
+  WITH attempts AS (
+    SELECT a.provider,
+           COUNT(*) AS total,
+           COUNT(*) FILTER (WHERE NOT a.success) AS errors
+    FROM telephony_provider_attempts a
+    WHERE a.created_at BETWEEN p_from AND p_to
+    GROUP BY a.provider
+  ),
+  call_stats AS (
+    SELECT c.metadata->>'provider' AS provider,
+           COUNT(*) AS total,
+           COUNT(*) FILTER (WHERE c.status IN ('answered', 'completed')) AS answered,
+           COUNT(*) FILTER (WHERE c.status = 'failed') AS failed
+    FROM call_logs c
+    WHERE c.metadata ? 'provider'
+      AND c.executed_at BETWEEN p_from AND p_to
+    GROUP BY c.metadata->>'provider'
+  )
+  SELECT COALESCE(a.provider, cs.provider),
+         COALESCE(a.total, 0),
+         COALESCE(a.errors, 0),
+         COALESCE(cs.total, 0),
+         COALESCE(cs.answered, 0),
+         COALESCE(cs.failed, 0),
+         ROUND(
+           (COALESCE(a.errors, 0) + COALESCE(cs.failed, 0))::NUMERIC
+             / NULLIF(COALESCE(a.errors, 0) + COALESCE(cs.total, 0), 0) * 100, 1
+         ),
+         ROUND(COALESCE(cs.answered, 0)::NUMERIC / NULLIF(cs.total, 0) * 100, 1)
+  FROM attempts a
+  FULL OUTER JOIN call_stats cs ON cs.provider = a.provider
+  ORDER BY 1;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 6. Where a client's own provider account sends answered dialer calls (the
+-- voice agent's call-handling URL). campaign-dialer dials clients with an
+-- active account directly through the router instead of their n8n workflow.
+ALTER TABLE public.client_telephony_accounts ADD COLUMN answer_url TEXT;
@@ -0,0 +1,157 @@
+-- Knowledge retrieval for the AI chatbot (ai-chat and WhatsApp auto-replies)
+
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+-- 1. Knowledge items: FAQs, uploaded documents and web pages
+CREATE TABLE IF NOT EXISTS public.ai_knowledge (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  chatbot_id UUID NOT NULL REFERENCES public.ai_chatbots(id) ON DELETE CASCADE,
+  title TEXT,
+  content TEXT,
+  source_type TEXT NOT NULL DEFAULT 'qa',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ai_knowledge
+  ADD COLUMN IF NOT EXISTS source_url TEXT,
+  ADD COLUMN IF NOT EXISTS file_path TEXT,
+  ADD COLUMN IF NOT EXISTS index_status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (index_status IN ('pending', 'processing', 'ready', 'failed')),
+  ADD COLUMN IF NOT EXISTS index_error TEXT,
+  ADD COLUMN IF NOT EXISTS chunk_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS indexed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_ai_knowledge_chatbot ON public.ai_knowledge(chatbot_id);
+
+ALTER TABLE public.ai_knowledge ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+    DROP POLICY IF EXISTS "Clients manage their chatbot knowledge" ON public.ai_knowledge;
+END $$;
+
+CREATE POLICY "Clients manage their chatbot knowledge" ON public.ai_knowledge
+FOR ALL TO authenticated
+USING (
+  chatbot_id IN (
+    SELECT b.id FROM public.ai_chatbots b
+    WHERE b.client_id = (SELECT id FROM public.clients WHERE user_id = auth.uid())
+  )
+  OR public.is_super_admin()
+)
+WITH CHECK (
+  chatbot_id IN (
+    SELECT b.id FROM public.ai_chatbots b
+    WHERE b.client_id = (SELECT id FROM public.clients WHERE user_id = auth.uid())
+  )
+  OR public.is_super_admin()
+);
+
+-- 2. Indexed chunks. Embeddings are optional: without an embedding model the
+-- chunks are still searchable by keyword.
+CREATE TABLE public.ai_knowledge_chunks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  knowledge_id UUID NOT NULL REFERENCES public.ai_knowledge(id) ON DELETE CASCADE,
+  chatbot_id UUID NOT NULL REFERENCES public.ai_chatbots(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  embedding extensions.vector(1536),
+  search_vector TSVECTOR GENERATED ALWAYS AS (to_tsvector('simple', content)) STORED,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT ai_knowledge_chunks_unique UNIQUE (knowledge_id, chunk_index)
+);
+
+CREATE INDEX idx_ai_knowledge_chunks_chatbot ON public.ai_knowledge_chunks(chatbot_id);
+CREATE INDEX idx_ai_knowledge_chunks_search ON public.ai_knowledge_chunks USING gin(search_vector);
+CREATE INDEX idx_ai_knowledge_chunks_embedding ON public.ai_knowledge_chunks
+  USING hnsw (embedding extensions.vector_cosine_ops);
+
+ALTER TABLE public.ai_knowledge_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients read their chatbot knowledge chunks"
+  ON public.ai_knowledge_chunks FOR SELECT TO authenticated
+  USING (
+    chatbot_id IN (
+      SELECT b.id FROM public.ai_chatbots b
+      WHERE b.client_id = (SELECT id FROM public.clients WHERE user_id = auth.uid())
+    )
+    OR public.is_super_admin()
+  );
+
+-- 3. Top chunks for a chatbot: cosine similarity when a query embedding is
+-- given, otherwise full-text rank on the query text.
+CREATE OR REPLACE FUNCTION public.match_knowledge_chunks(
+  p_chatbot_id UUID,
+  p_query_text TEXT,
+  p_query_embedding extensions.vector(1536) DEFAULT NULL,
+  p_match_count INTEGER DEFAULT 4,
+  p_min_similarity DOUBLE PRECISION DEFAULT 0.3
+)
+RETURNS TABLE (
+  chunk_id UUID,
+  knowledge_id UUID,
+  title TEXT,
+  source_type TEXT,
+  source_url TEXT,
+  content TEXT,
+  similarity DOUBLE PRECISION
+) AS $$
+BEGIN
+  IF p_query_embedding IS NOT NULL THEN
+    RETURN QUERY
+    SELECT c.id, k.id, k.title, k.source_type, k.source_url, c.content,
+           1 - (c.embedding OPERATOR(extensions.<=>) p_query_embedding)
+    FROM ai_knowledge_chunks c
+    JOIN ai_knowledge k ON k.id = c.knowledge_id
+    WHERE c.chatbot_id = p_chatbot_id
+      AND c.embedding IS NOT NULL
+      AND 1 - (c.embedding OPERATOR(extensions.<=>) p_query_embedding) >= p_min_similarity
+    ORDER BY c.embedding OPERATOR(extensions.<=>) p_query_embedding
+    LIMIT p_match_count;
+  ELSE
+    RETURN QUERY
+    SELECT c.id, k.id, k.title, k.source_type, k.source_url, c.content,
+           ts_rank(c.search_vector, q)::DOUBLE PRECISION
+    FROM ai_knowledge_chunks c
+    JOIN ai_knowledge k ON k.id = c.knowledge_id,
+         -- Any query word may match; rank favours chunks matching more of them
+         to_tsquery('simple', array_to_string(
+           ARRAY(SELECT quote_literal(w) FROM regexp_split_to_table(lower(p_query_text), '[^[:alnum:]]+') w WHERE length(w) > 2),
+           ' | '
+         )) q
+    WHERE c.chatbot_id = p_chatbot_id
+      AND c.search_vector @@ q
+    ORDER BY 7 DESC
+    LIMIT p_match_count;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.match_knowledge_chunks(UUID, TEXT, extensions.vector, INTEGER, DOUBLE PRECISION) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.match_knowledge_chunks(UUID, TEXT, extensions.vector, INTEGER, DOUBLE PRECISION) TO service_role;
+
+-- 4. Private bucket for uploaded documents, one folder per client
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('ai-knowledge', 'ai-knowledge', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Clients read their knowledge documents"
+ON storage.objects FOR SELECT TO authenticated
+USING (
+  bucket_id = 'ai-knowledge'
+  AND (storage.foldername(name))[1] = (SELECT id::TEXT FROM public.clients WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Clients upload their knowledge documents"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK (
+  bucket_id = 'ai-knowledge'
+  AND (storage.foldername(name))[1] = (SELECT id::TEXT FROM public.clients WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Clients delete their knowledge documents"
+ON storage.objects FOR DELETE TO authenticated
+USING (
+  bucket_id = 'ai-knowledge'
+  AND (storage.foldername(name))[1] = (SELECT id::TEXT FROM public.clients WHERE user_id = auth.uid())
+);
@@ -0,0 +1,302 @@
+-- Human handoff for AI chat: escalation rules, agent queue and SLA timers
+
+-- ai_chat_sessions and ai_chat_messages predate the migrations on existing
+-- projects. Create them where they are missing; where they exist, stop unless
+-- they have the columns the handoff queue relies on.
+DO $$
+DECLARE
+  v_mismatch TEXT;
+BEGIN
+  IF to_regclass('public.ai_chat_sessions') IS NULL THEN
+    CREATE TABLE public.ai_chat_sessions (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      chatbot_id UUID REFERENCES public.ai_chatbots(id) ON DELETE CASCADE,
+      visitor_id UUID,
+      status TEXT NOT NULL DEFAULT 'active',
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+  END IF;
+
+  IF to_regclass('public.ai_chat_messages') IS NULL THEN
+    CREATE TABLE public.ai_chat_messages (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      session_id UUID NOT NULL REFERENCES public.ai_chat_sessions(id) ON DELETE CASCADE,
+      role TEXT NOT NULL,
+      content TEXT NOT NULL,
+      user_id UUID,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+  END IF;
+
+  SELECT string_agg(format('%s.%s (%s)', e.table_name, e.column_name, array_to_string(e.data_types, ' or ')), ', ')
+  INTO v_mismatch
+  FROM (VALUES
+    ('ai_chat_sessions', 'id', ARRAY['uuid']),
+    ('ai_chat_sessions', 'chatbot_id', ARRAY['uuid']),
+    ('ai_chat_sessions', 'status', ARRAY['text', 'character varying']),
+    ('ai_chat_messages', 'id', ARRAY['uuid']),
+    ('ai_chat_messages', 'session_id', ARRAY['uuid']),
+    ('ai_chat_messages', 'role', ARRAY['text', 'character varying']),
+    ('ai_chat_messages', 'content', ARRAY['text', 'character varying']),
+    ('ai_chat_messages', 'user_id', ARRAY['uuid']),
+    ('ai_chat_messages', 'created_at', ARRAY['timestamp with time zone'])
+  ) AS e(table_name, column_name, data_types)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM information_schema.columns c
+    WHERE c.table_schema = 'public'
+      AND c.table_name = e.table_name
+      AND c.column_name = e.column_name
+      AND c.data_type = ANY (e.data_types)
+  );
+
+  IF v_mismatch IS NOT NULL THEN
+    RAISE EXCEPTION 'Chat tables differ from the expected schema; missing or mistyped: %', v_mismatch;
+  END IF;
+END $$;
+
+-- 1. Escalation rules per chatbot (defaults apply when no row exists)
+CREATE TABLE public.chat_handoff_settings (
+  chatbot_id UUID PRIMARY KEY REFERENCES public.ai_chatbots(id) ON DELETE CASCADE,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  keywords TEXT[] NOT NULL DEFAULT ARRAY['refund', 'complaint', 'cancel my account'],
+  explicit_request BOOLEAN NOT NULL DEFAULT true,
+  negative_sentiment BOOLEAN NOT NULL DEFAULT true,
+  sentiment_threshold NUMERIC(3, 2) NOT NULL DEFAULT -0.5 CHECK (sentiment_threshold BETWEEN -1 AND 0),
+  max_unknown_answers INTEGER NOT NULL DEFAULT 2 CHECK (max_unknown_answers >= 0),
+  first_response_sla_minutes INTEGER NOT NULL DEFAULT 5 CHECK (first_response_sla_minutes > 0),
+  resolution_sla_minutes INTEGER NOT NULL DEFAULT 60 CHECK (resolution_sla_minutes > 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_chat_handoff_settings_updated_at
+  BEFORE UPDATE ON public.chat_handoff_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 2. Handoff queue. One open handoff per session.
+CREATE TABLE public.chat_handoffs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES public.ai_chat_sessions(id) ON DELETE CASCADE,
+  chatbot_id UUID NOT NULL REFERENCES public.ai_chatbots(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (reason IN ('explicit_request', 'keyword', 'negative_sentiment', 'unknown_answers', 'manual')),
+  trigger_detail TEXT,
+  status TEXT NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'claimed', 'resolved')),
+  assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  first_response_due_at TIMESTAMPTZ NOT NULL,
+  resolution_due_at TIMESTAMPTZ NOT NULL,
+  claimed_at TIMESTAMPTZ,
+  first_response_at TIMESTAMPTZ,
+  resolved_at TIMESTAMPTZ,
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  transfer_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_chat_handoffs_open_session ON public.chat_handoffs(session_id) WHERE status <> 'resolved';
+CREATE INDEX idx_chat_handoffs_queue ON public.chat_handoffs(chatbot_id, status, created_at);
+
+CREATE TRIGGER update_chat_handoffs_updated_at
+  BEFORE UPDATE ON public.chat_handoffs
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 3. Who may work a chatbot's queue: its client, the client's admin, super admins
+CREATE OR REPLACE FUNCTION public.can_manage_chatbot(p_chatbot_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT public.is_super_admin() OR EXISTS (
+    SELECT 1
+    FROM ai_chatbots b
+    JOIN clients c ON c.id = b.client_id
+    WHERE b.id = p_chatbot_id
+      AND (c.user_id = auth.uid() OR c.admin_id = public.get_admin_id_for_user())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.chat_handoff_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_handoffs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Chatbot owners manage handoff settings"
+  ON public.chat_handoff_settings FOR ALL TO authenticated
+  USING (public.can_manage_chatbot(chatbot_id))
+  WITH CHECK (public.can_manage_chatbot(chatbot_id));
+
+-- Writes go through the RPCs below so state transitions stay consistent
+CREATE POLICY "Chatbot owners read handoffs"
+  ON public.chat_handoffs FOR SELECT TO authenticated
+  USING (public.can_manage_chatbot(chatbot_id));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.chat_handoffs;
+
+-- 4. Agents a handoff can be transferred to
+CREATE OR REPLACE FUNCTION public.get_chat_agents(p_chatbot_id UUID)
+RETURNS TABLE (user_id UUID, full_name TEXT, email TEXT) AS $$
+BEGIN
+  IF NOT public.can_manage_chatbot(p_chatbot_id) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.user_id, p.full_name, p.email
+  FROM ai_chatbots b
+  JOIN clients c ON c.id = b.client_id
+  LEFT JOIN admins a ON a.id = c.admin_id
+  JOIN profiles p ON p.user_id IN (c.user_id, a.user_id)
+  WHERE b.id = p_chatbot_id AND p.is_active
+  ORDER BY p.full_name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 5. Escalation from ai-chat: queue the session and switch the AI off
+CREATE OR REPLACE FUNCTION public.escalate_chat_session(
+  p_session_id UUID,
+  p_reason TEXT,
+  p_detail TEXT DEFAULT NULL
+)
+RETURNS public.chat_handoffs AS $$
+DECLARE
+  v_chatbot_id UUID;
+  v_first_sla INTEGER;
+  v_resolution_sla INTEGER;
+  v_handoff chat_handoffs;
+BEGIN
+  SELECT chatbot_id INTO v_chatbot_id FROM ai_chat_sessions WHERE id = p_session_id;
+  IF v_chatbot_id IS NULL THEN
+    RAISE EXCEPTION 'Chat session % not found', p_session_id;
+  END IF;
+
+  SELECT * INTO v_handoff FROM chat_handoffs WHERE session_id = p_session_id AND status <> 'resolved';
+  IF FOUND THEN
+    RETURN v_handoff;
+  END IF;
+
+  SELECT COALESCE(s.first_response_sla_minutes, 5), COALESCE(s.resolution_sla_minutes, 60)
+  INTO v_first_sla, v_resolution_sla
+  FROM (SELECT 1) d
+  LEFT JOIN chat_handoff_settings s ON s.chatbot_id = v_chatbot_id;
+
+  INSERT INTO chat_handoffs (session_id, chatbot_id, reason, trigger_detail, first_response_due_at, resolution_due_at)
+  VALUES (
+    p_session_id, v_chatbot_id, p_reason, p_detail,
+    now() + make_interval(mins => v_first_sla),
+    now() + make_interval(mins => v_resolution_sla)
+  )
+  RETURNING * INTO v_handoff;
+
+  UPDATE ai_chat_sessions SET status = 'human' WHERE id = p_session_id;
+
+  RETURN v_handoff;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.escalate_chat_session(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.escalate_chat_session(UUID, TEXT, TEXT) TO service_role;
+
+-- 6. Agent actions. Claiming a session without an open handoff is a manual takeover.
+CREATE OR REPLACE FUNCTION public.claim_chat_handoff(p_session_id UUID)
+RETURNS public.chat_handoffs AS $$
+DECLARE
+  v_chatbot_id UUID;
+  v_handoff chat_handoffs;
+BEGIN
+  SELECT chatbot_id INTO v_chatbot_id FROM ai_chat_sessions WHERE id = p_session_id;
+  IF v_chatbot_id IS NULL OR NOT public.can_manage_chatbot(v_chatbot_id) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  v_handoff := public.escalate_chat_session(p_session_id, 'manual', NULL);
+
+  IF v_handoff.status = 'claimed' AND v_handoff.assigned_to <> auth.uid() THEN
+    RAISE EXCEPTION 'This conversation is already claimed by another agent';
+  END IF;
+
+  -- Tell the waiting visitor. Inserted before the claim so it does not count
+  -- as the agent's first response.
+  IF v_handoff.claimed_at IS NULL THEN
+    INSERT INTO ai_chat_messages (session_id, role, content, user_id)
+    SELECT p_session_id, 'assistant',
+           COALESCE(NULLIF(p.full_name, ''), 'An agent') || ' has joined the conversation.',
+           auth.uid()
+    FROM (SELECT 1) d
+    LEFT JOIN profiles p ON p.user_id = auth.uid();
+  END IF;
+
+  UPDATE chat_handoffs
+  SET status = 'claimed',
+      assigned_to = auth.uid(),
+      claimed_at = COALESCE(claimed_at, now())
+  WHERE id = v_handoff.id
+  RETURNING * INTO v_handoff;
+
+  RETURN v_handoff;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Transfer to another agent, or back to the queue when p_to_user_id is NULL
+CREATE OR REPLACE FUNCTION public.transfer_chat_handoff(p_handoff_id UUID, p_to_user_id UUID DEFAULT NULL)
+RETURNS public.chat_handoffs AS $$
+DECLARE
+  v_handoff chat_handoffs;
+BEGIN
+  SELECT * INTO v_handoff FROM chat_handoffs WHERE id = p_handoff_id AND status <> 'resolved' FOR UPDATE;
+  IF NOT FOUND OR NOT public.can_manage_chatbot(v_handoff.chatbot_id) THEN
+    RAISE EXCEPTION 'Open handoff not found';
+  END IF;
+
+  IF p_to_user_id IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM public.get_chat_agents(v_handoff.chatbot_id) a WHERE a.user_id = p_to_user_id) THEN
+    RAISE EXCEPTION 'That user cannot take this conversation';
+  END IF;
+
+  UPDATE chat_handoffs
+  SET status = CASE WHEN p_to_user_id IS NULL THEN 'waiting' ELSE 'claimed' END,
+      assigned_to = p_to_user_id,
+      claimed_at = CASE WHEN p_to_user_id IS NULL THEN claimed_at ELSE COALESCE(claimed_at, now()) END,
+      transfer_count = transfer_count + 1
+  WHERE id = p_handoff_id
+  RETURNING * INTO v_handoff;
+
+  RETURN v_handoff;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Resolving hands the conversation back to the AI
+CREATE OR REPLACE FUNCTION public.resolve_chat_handoff(p_handoff_id UUID)
+RETURNS public.chat_handoffs AS $$
+DECLARE
+  v_handoff chat_handoffs;
+BEGIN
+  SELECT * INTO v_handoff FROM chat_handoffs WHERE id = p_handoff_id AND status <> 'resolved' FOR UPDATE;
+  IF NOT FOUND OR NOT public.can_manage_chatbot(v_handoff.chatbot_id) THEN
+    RAISE EXCEPTION 'Open handoff not found';
+  END IF;
+
+  UPDATE chat_handoffs
+  SET status = 'resolved', resolved_at = now(), resolved_by = auth.uid()
+  WHERE id = p_handoff_id
+  RETURNING * INTO v_handoff;
+
+  UPDATE ai_chat_sessions SET status = 'active' WHERE id = v_handoff.session_id;
+
+  RETURN v_handoff;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 7. The first agent message stops the first-response SLA clock. While a
+-- session is with a human, ai-chat does not reply, so assistant messages are
+-- the agent's.
+CREATE OR REPLACE FUNCTION public.handle_chat_handoff_first_response()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role = 'assistant' THEN
+    UPDATE chat_handoffs
+    SET first_response_at = now()
+    WHERE session_id = NEW.session_id
+      AND status = 'claimed'
+      AND first_response_at IS NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER tr_chat_handoff_first_response
+  AFTER INSERT ON public.ai_chat_messages
+  FOR EACH ROW EXECUTE FUNCTION public.handle_chat_handoff_first_response();
@@ -0,0 +1,104 @@
+-- WhatsApp 24-hour customer-service window. Free-form messages are only
+-- accepted by Meta within 24 hours of the customer's last inbound message;
+-- outside it the business must send an approved template.
+
+-- 1. Start of the window, per conversation
+ALTER TABLE public.whatsapp_chats
+  ADD COLUMN IF NOT EXISTS last_inbound_at TIMESTAMPTZ;
+
+UPDATE public.whatsapp_chats c
+SET last_inbound_at = m.last_inbound_at
+FROM (
+  SELECT application_id, phone_number, MAX(COALESCE(sent_at, now())) AS last_inbound_at
+  FROM public.whatsapp_messages
+  WHERE direction = 'inbound'
+  GROUP BY application_id, phone_number
+) m
+WHERE c.application_id = m.application_id
+  AND c.phone_number = m.phone_number;
+
+CREATE INDEX IF NOT EXISTS idx_wa_chats_client_phone_digits
+  ON public.whatsapp_chats(client_id, (regexp_replace(phone_number, '[^0-9]', '', 'g')));
+
+-- 2. Keep last_inbound_at current as messages arrive
+CREATE OR REPLACE FUNCTION public.handle_whatsapp_message_insert()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.whatsapp_chats (
+        client_id,
+        application_id,
+        phone_number,
+        contact_name,
+        last_message,
+        last_message_at,
+        last_inbound_at,
+        unread_count
+    )
+    VALUES (
+        NEW.client_id,
+        NEW.application_id,
+        NEW.phone_number,
+        COALESCE(NEW.sender_name, NEW.phone_number),
+        NEW.message_content,
+        NEW.sent_at,
+        CASE WHEN NEW.direction = 'inbound' THEN COALESCE(NEW.sent_at, NOW()) END,
+        CASE WHEN NEW.direction = 'inbound' THEN 1 ELSE 0 END
+    )
+    ON CONFLICT (application_id, phone_number) DO UPDATE SET
+        last_message = EXCLUDED.last_message,
+        last_message_at = EXCLUDED.last_message_at,
+        last_inbound_at = CASE
+            WHEN NEW.direction = 'inbound' THEN GREATEST(whatsapp_chats.last_inbound_at, EXCLUDED.last_inbound_at)
+            ELSE whatsapp_chats.last_inbound_at
+        END,
+        unread_count = CASE
+            WHEN NEW.direction = 'inbound' THEN whatsapp_chats.unread_count + 1
+            ELSE whatsapp_chats.unread_count
+        END,
+        updated_at = NOW();
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- 3. Is the window open for this client and number? Numbers compare on
+-- digits only so "+91 98765 43210" and "919876543210" are the same chat.
+CREATE OR REPLACE FUNCTION public.whatsapp_session_open(
+  p_client_id UUID,
+  p_phone_number TEXT,
+  p_application_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(MAX(last_inbound_at) > now() - INTERVAL '24 hours', false)
+  FROM whatsapp_chats
+  WHERE client_id = p_client_id
+    AND regexp_replace(phone_number, '[^0-9]', '', 'g') = regexp_replace(p_phone_number, '[^0-9]', '', 'g')
+    AND (p_application_id IS NULL OR application_id = p_application_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The app reads whatsapp_chats under RLS; only the trigger and service role call this
+REVOKE ALL ON FUNCTION public.whatsapp_session_open(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.whatsapp_session_open(UUID, TEXT, UUID) TO service_role;
+
+-- 4. Queued free-form messages outside the window would be rejected by Meta
+-- at send time; fail them on insert with the reason instead.
+CREATE OR REPLACE FUNCTION public.reject_closed_session_whatsapp_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'queued'
+     AND COALESCE(NEW.direction, 'outbound') = 'outbound'
+     AND COALESCE(NEW.message_type::TEXT, 'text') <> 'template'
+     AND NOT public.whatsapp_session_open(NEW.client_id, NEW.phone_number, NEW.application_id) THEN
+    NEW.status := 'failed';
+    NEW.error_message := 'The 24-hour WhatsApp session window is closed. Send an approved template instead.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS tr_whatsapp_message_session_window ON public.whatsapp_messages;
+CREATE TRIGGER tr_whatsapp_message_session_window
+BEFORE INSERT ON public.whatsapp_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.reject_closed_session_whatsapp_message();
@@ -0,0 +1,260 @@
+-- WhatsApp campaign sender: throttled queue, delivery status tracking and
+-- live campaign counters
+
+ALTER TYPE public.wa_message_status ADD VALUE IF NOT EXISTS 'sending';
+
+-- 1. Sending limits per WhatsApp number. messages_per_minute is the
+-- throughput the sender drains at; daily_recipient_limit mirrors the Meta
+-- messaging limit tier (unique recipients per rolling 24 hours, NULL when
+-- the number is unlimited).
+ALTER TABLE public.whatsapp_applications
+  ADD COLUMN IF NOT EXISTS messages_per_minute INTEGER NOT NULL DEFAULT 60,
+  ADD COLUMN IF NOT EXISTS daily_recipient_limit INTEGER DEFAULT 1000;
+
+-- 2. What a campaign sends and how it is doing
+ALTER TABLE public.whatsapp_campaigns
+  ADD COLUMN IF NOT EXISTS application_id UUID REFERENCES public.whatsapp_applications(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS template_name TEXT,
+  ADD COLUMN IF NOT EXISTS template_language TEXT,
+  ADD COLUMN IF NOT EXISTS messages_read INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS messages_failed INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+-- 3. Queue state per message. template_params holds the body parameters
+-- resolved for this recipient when the campaign was created.
+ALTER TABLE public.whatsapp_messages
+  ADD COLUMN IF NOT EXISTS wamid TEXT,
+  ADD COLUMN IF NOT EXISTS template_params JSONB,
+  ADD COLUMN IF NOT EXISTS attempt_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_attempt_at TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_wa_msgs_wamid ON public.whatsapp_messages(wamid) WHERE wamid IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_wa_msgs_campaign_status ON public.whatsapp_messages(campaign_id, status);
+CREATE INDEX IF NOT EXISTS idx_wa_msgs_send_queue
+  ON public.whatsapp_messages(application_id, status, next_attempt_at)
+  WHERE campaign_id IS NOT NULL;
+
+-- 4. Hand out the next campaign messages to send for a WhatsApp number.
+-- Locks the number's row so concurrent sender ticks cannot exceed its
+-- per-minute throughput or its daily recipient tier.
+CREATE OR REPLACE FUNCTION public.claim_whatsapp_messages(p_application_id UUID, p_limit INTEGER DEFAULT 200)
+RETURNS SETOF public.whatsapp_messages AS $$
+DECLARE
+  v_app whatsapp_applications%ROWTYPE;
+  v_recent INTEGER;
+  v_recipients_today INTEGER;
+  v_slots INTEGER;
+BEGIN
+  SELECT * INTO v_app FROM whatsapp_applications WHERE id = p_application_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Messages stuck in 'sending' never got a provider response (sender crashed)
+  UPDATE whatsapp_messages
+  SET status = 'queued', next_attempt_at = NOW()
+  WHERE application_id = p_application_id
+    AND campaign_id IS NOT NULL
+    AND status = 'sending'
+    AND last_attempt_at < NOW() - INTERVAL '5 minutes';
+
+  SELECT COUNT(*) INTO v_recent
+  FROM whatsapp_messages
+  WHERE application_id = p_application_id
+    AND campaign_id IS NOT NULL
+    AND last_attempt_at > NOW() - INTERVAL '1 minute';
+
+  SELECT COUNT(DISTINCT phone_number) INTO v_recipients_today
+  FROM whatsapp_messages
+  WHERE application_id = p_application_id
+    AND campaign_id IS NOT NULL
+    AND status IN ('sending', 'sent', 'delivered', 'read')
+    AND last_attempt_at > NOW() - INTERVAL '24 hours';
+
+  v_slots := LEAST(
+    p_limit,
+    v_app.messages_per_minute - v_recent,
+    COALESCE(v_app.daily_recipient_limit - v_recipients_today, p_limit)
+  );
+
+  IF v_slots <= 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE whatsapp_messages m
+  SET status = 'sending',
+      attempt_count = m.attempt_count + 1,
+      last_attempt_at = NOW(),
+      next_attempt_at = NULL
+  WHERE m.id IN (
+    SELECT q.id FROM whatsapp_messages q
+    JOIN whatsapp_campaigns c ON c.id = q.campaign_id
+    WHERE q.application_id = p_application_id
+      AND q.status = 'queued'
+      AND c.status = 'sending'
+      AND (q.next_attempt_at IS NULL OR q.next_attempt_at <= NOW())
+    ORDER BY q.next_attempt_at NULLS FIRST, q.sent_at, q.id
+    LIMIT v_slots
+    FOR UPDATE OF q SKIP LOCKED
+  )
+  RETURNING m.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.claim_whatsapp_messages(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_whatsapp_messages(UUID, INTEGER) TO service_role;
+
+-- 5. Apply a delivery status from the WhatsApp status webhook. Statuses only
+-- move forward (sent → delivered → read), so late or repeated callbacks are
+-- ignored; a failure after the message left is still recorded.
+CREATE OR REPLACE FUNCTION public.record_whatsapp_message_status(
+  p_wamid TEXT,
+  p_status TEXT,
+  p_occurred_at TIMESTAMPTZ DEFAULT NULL,
+  p_error TEXT DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_message whatsapp_messages%ROWTYPE;
+  v_at TIMESTAMPTZ := COALESCE(p_occurred_at, NOW());
+  v_current INTEGER;
+  v_next INTEGER;
+BEGIN
+  SELECT * INTO v_message FROM whatsapp_messages WHERE wamid = p_wamid FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_current := array_position(ARRAY['queued', 'sending', 'sent', 'delivered', 'read'], v_message.status::TEXT);
+  v_next := array_position(ARRAY['queued', 'sending', 'sent', 'delivered', 'read'], p_status);
+
+  IF p_status = 'failed' THEN
+    IF v_message.status::TEXT IN ('delivered', 'read', 'failed') THEN
+      RETURN v_message.status::TEXT;
+    END IF;
+
+    UPDATE whatsapp_messages
+    SET status = 'failed', error_message = COALESCE(p_error, 'Rejected by WhatsApp')
+    WHERE id = v_message.id;
+    RETURN 'failed';
+  END IF;
+
+  IF v_next IS NULL OR v_message.status::TEXT = 'failed' OR v_next <= v_current THEN
+    RETURN v_message.status::TEXT;
+  END IF;
+
+  UPDATE whatsapp_messages
+  SET status = p_status::wa_message_status,
+      delivered_at = CASE WHEN p_status IN ('delivered', 'read') THEN COALESCE(delivered_at, v_at) ELSE delivered_at END,
+      read_at = CASE WHEN p_status = 'read' THEN COALESCE(read_at, v_at) ELSE read_at END
+  WHERE id = v_message.id;
+
+  RETURN p_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.record_whatsapp_message_status(TEXT, TEXT, TIMESTAMPTZ, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_whatsapp_message_status(TEXT, TEXT, TIMESTAMPTZ, TEXT) TO service_role;
+
+-- 6. Campaign counters follow each message's status change. Counts are
+-- cumulative: a read message is also delivered and sent.
+CREATE OR REPLACE FUNCTION public.update_whatsapp_campaign_counters()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old TEXT := CASE WHEN TG_OP = 'UPDATE' THEN OLD.status::TEXT END;
+  v_new TEXT := NEW.status::TEXT;
+  v_campaign whatsapp_campaigns%ROWTYPE;
+  v_client_user_id UUID;
+BEGIN
+  IF v_old IS NOT DISTINCT FROM v_new THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE whatsapp_campaigns
+  SET messages_sent = COALESCE(messages_sent, 0)
+        + (v_new IN ('sent', 'delivered', 'read'))::INT - (COALESCE(v_old IN ('sent', 'delivered', 'read'), false))::INT,
+      messages_delivered = COALESCE(messages_delivered, 0)
+        + (v_new IN ('delivered', 'read'))::INT - (COALESCE(v_old IN ('delivered', 'read'), false))::INT,
+      messages_read = messages_read
+        + (v_new = 'read')::INT - (COALESCE(v_old = 'read', false))::INT,
+      messages_failed = messages_failed
+        + (v_new = 'failed')::INT - (COALESCE(v_old = 'failed', false))::INT,
+      updated_at = NOW()
+  WHERE id = NEW.campaign_id
+  RETURNING * INTO v_campaign;
+
+  -- The campaign is done once nothing is left to send. Inserts are skipped so
+  -- a campaign cannot complete while its messages are still being queued.
+  IF TG_OP = 'UPDATE'
+     AND v_campaign.status = 'sending'
+     AND v_new NOT IN ('queued', 'sending')
+     AND NOT EXISTS (
+       SELECT 1 FROM whatsapp_messages
+       WHERE campaign_id = NEW.campaign_id AND status IN ('queued', 'sending')
+     ) THEN
+    UPDATE whatsapp_campaigns
+    SET status = 'completed', completed_at = NOW(), updated_at = NOW()
+    WHERE id = NEW.campaign_id;
+
+    SELECT user_id INTO v_client_user_id FROM clients WHERE id = v_campaign.client_id;
+    IF v_client_user_id IS NOT NULL THEN
+      INSERT INTO notifications (user_id, title, message, type, action_url)
+      VALUES (v_client_user_id, 'WhatsApp Campaign Completed',
+        format('Your campaign "%s" has finished. %s sent, %s failed.',
+          v_campaign.campaign_name, v_campaign.messages_sent, v_campaign.messages_failed),
+        'success', '/client/whatsapp');
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS tr_whatsapp_campaign_counters ON public.whatsapp_messages;
+CREATE TRIGGER tr_whatsapp_campaign_counters
+AFTER INSERT OR UPDATE OF status ON public.whatsapp_messages
+FOR EACH ROW
+WHEN (NEW.campaign_id IS NOT NULL)
+EXECUTE FUNCTION public.update_whatsapp_campaign_counters();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'whatsapp_campaigns'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.whatsapp_campaigns;
+  END IF;
+END $$;
+
+-- 7. Drop a campaign whose launch failed while its messages were being
+-- queued. Only drafts can be discarded, so a launched campaign keeps its
+-- history; clients have no delete policy on either table.
+CREATE OR REPLACE FUNCTION public.discard_whatsapp_campaign_draft(p_campaign_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_client_id UUID;
+BEGIN
+  SELECT client_id INTO v_client_id
+  FROM whatsapp_campaigns
+  WHERE id = p_campaign_id AND status = 'draft'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF NOT public.is_super_admin()
+     AND v_client_id IS DISTINCT FROM (SELECT id FROM clients WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to discard this campaign';
+  END IF;
+
+  DELETE FROM whatsapp_messages WHERE campaign_id = p_campaign_id;
+  DELETE FROM whatsapp_campaigns WHERE id = p_campaign_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.discard_whatsapp_campaign_draft(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.discard_whatsapp_campaign_draft(UUID) TO authenticated;
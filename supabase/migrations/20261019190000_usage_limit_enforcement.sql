@@ -0,0 +1,577 @@
+-- Hard usage-limit enforcement: per-plan overage policy, atomic usage
+-- reservations for billable actions, and limit notifications that follow the
+-- platform notification settings
+
+-- 1. What happens once a client reaches its plan's usage limit:
+--   block    - further actions are refused until the limit resets
+--   overage  - actions continue and the extra units are billed at the overage rate
+--   soft_cap - actions continue unbilled and the admin is told to review the plan
+CREATE TYPE public.overage_policy AS ENUM ('block', 'overage', 'soft_cap');
+
+ALTER TABLE public.service_plans
+  ADD COLUMN IF NOT EXISTS overage_policy public.overage_policy NOT NULL DEFAULT 'block',
+  ADD COLUMN IF NOT EXISTS overage_price_per_unit NUMERIC(10,2);
+
+-- usage_reserved holds units for actions in flight; overage_consumed counts
+-- the billable units used past the limit in the current period
+ALTER TABLE public.client_services
+  ADD COLUMN IF NOT EXISTS usage_reserved INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS overage_consumed INTEGER NOT NULL DEFAULT 0;
+
+-- 2. One row per billable action. A hold is taken before the action and is
+-- committed once it happened or released when it did not; holds nobody
+-- settles expire and stop counting against the limit.
+CREATE TABLE public.usage_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_service_id UUID NOT NULL REFERENCES public.client_services(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  service_id UUID NOT NULL REFERENCES public.services(id) ON DELETE CASCADE,
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  consumed INTEGER,
+  overage_units INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'committed', 'released', 'expired')),
+  source TEXT,
+  reference_id TEXT,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  settled_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_usage_reservations_held
+  ON public.usage_reservations(client_service_id, created_at)
+  WHERE status = 'held';
+CREATE INDEX idx_usage_reservations_client ON public.usage_reservations(client_id, created_at DESC);
+
+ALTER TABLE public.usage_reservations ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through the RPCs below so client_services stays in step
+CREATE POLICY "Usage reservations visible to owners"
+  ON public.usage_reservations FOR SELECT TO authenticated
+  USING (
+    public.is_super_admin()
+    OR client_id = (SELECT id FROM public.clients WHERE user_id = auth.uid())
+    OR client_id IN (SELECT id FROM public.clients WHERE admin_id = public.get_admin_id_for_user())
+  );
+
+-- 3. Whether a notification_config toggle in platform settings is on.
+-- Missing keys count as on, matching the defaults seeded with the settings.
+CREATE OR REPLACE FUNCTION public.notification_enabled(p_key TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+    (SELECT (value::jsonb ->> p_key)::BOOLEAN FROM platform_settings WHERE key = 'notification_config'),
+    true
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 4. Adds consumed units to a locked client_services row and returns how many
+-- of them are billable overage. Callers hold the row lock.
+CREATE OR REPLACE FUNCTION public.apply_usage(p_client_service_id UUID, p_amount INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+  v_cs client_services%ROWTYPE;
+  v_policy overage_policy;
+  v_before INTEGER;
+  v_after INTEGER;
+  v_overage INTEGER := 0;
+BEGIN
+  SELECT * INTO v_cs FROM client_services WHERE id = p_client_service_id;
+  SELECT overage_policy INTO v_policy FROM service_plans WHERE id = v_cs.plan_id;
+
+  v_before := COALESCE(v_cs.usage_consumed, 0);
+  v_after := v_before + p_amount;
+
+  IF COALESCE(v_policy, 'block') = 'overage' AND v_cs.usage_limit > 0 THEN
+    v_overage := GREATEST(v_after - v_cs.usage_limit, 0) - GREATEST(v_before - v_cs.usage_limit, 0);
+  END IF;
+
+  UPDATE client_services
+  SET usage_consumed = v_after,
+      overage_consumed = overage_consumed + v_overage,
+      updated_at = NOW()
+  WHERE id = p_client_service_id;
+
+  RETURN v_overage;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.apply_usage(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_usage(UUID, INTEGER) TO service_role;
+
+-- 5. Reserve units before a billable action. Locks the client's service row
+-- so concurrent actions cannot overshoot the limit, then applies the plan's
+-- overage policy. Returns {allowed, reservation_id, policy, overage_units,
+-- reason}; nothing is held when the action is refused.
+CREATE OR REPLACE FUNCTION public.reserve_usage(
+  p_client_id UUID,
+  p_service_slug TEXT,
+  p_amount INTEGER DEFAULT 1,
+  p_source TEXT DEFAULT NULL,
+  p_reference_id TEXT DEFAULT NULL,
+  p_hold_seconds INTEGER DEFAULT 900
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_cs client_services%ROWTYPE;
+  v_policy overage_policy;
+  v_expired INTEGER;
+  v_reserved INTEGER;
+  v_committed INTEGER;
+  v_overage INTEGER := 0;
+  v_reservation_id UUID;
+BEGIN
+  -- Clients may only reserve for themselves; the service role is trusted
+  IF auth.uid() IS NOT NULL
+     AND p_client_id IS DISTINCT FROM (SELECT id FROM clients WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized to use services for this client';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Usage amount must be positive';
+  END IF;
+
+  SELECT cs.* INTO v_cs
+  FROM client_services cs
+  JOIN services s ON s.id = cs.service_id
+  WHERE cs.client_id = p_client_id AND s.slug = p_service_slug
+  FOR UPDATE OF cs;
+
+  IF NOT FOUND OR NOT COALESCE(v_cs.is_active, false) THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'This service is not active for your account');
+  END IF;
+
+  IF v_cs.expires_at IS NOT NULL AND v_cs.expires_at < NOW() THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'Your subscription to this service has expired');
+  END IF;
+
+  WITH expired AS (
+    UPDATE usage_reservations
+    SET status = 'expired', settled_at = NOW()
+    WHERE client_service_id = v_cs.id AND status = 'held' AND expires_at <= NOW()
+    RETURNING amount
+  )
+  SELECT COALESCE(SUM(amount), 0) INTO v_expired FROM expired;
+
+  v_reserved := GREATEST(v_cs.usage_reserved - v_expired, 0);
+  v_committed := COALESCE(v_cs.usage_consumed, 0) + v_reserved;
+
+  SELECT overage_policy INTO v_policy FROM service_plans WHERE id = v_cs.plan_id;
+  v_policy := COALESCE(v_policy, 'block');
+
+  -- A limit of 0 means the service is unmetered
+  IF v_cs.usage_limit > 0 AND v_committed + p_amount > v_cs.usage_limit THEN
+    IF v_policy = 'block' THEN
+      IF v_expired > 0 THEN
+        UPDATE client_services SET usage_reserved = v_reserved WHERE id = v_cs.id;
+      END IF;
+      RETURN jsonb_build_object(
+        'allowed', false,
+        'policy', v_policy,
+        'reason', format('Usage limit reached (%s/%s). Service resumes when your limit resets or is raised.',
+          COALESCE(v_cs.usage_consumed, 0), v_cs.usage_limit)
+      );
+    END IF;
+    v_overage := LEAST(p_amount, v_committed + p_amount - v_cs.usage_limit);
+  END IF;
+
+  INSERT INTO usage_reservations (
+    client_service_id, client_id, service_id, amount, source, reference_id, expires_at
+  )
+  VALUES (
+    v_cs.id, p_client_id, v_cs.service_id, p_amount, p_source, p_reference_id,
+    NOW() + make_interval(secs => GREATEST(p_hold_seconds, 60))
+  )
+  RETURNING id INTO v_reservation_id;
+
+  UPDATE client_services SET usage_reserved = v_reserved + p_amount WHERE id = v_cs.id;
+
+  RETURN jsonb_build_object(
+    'allowed', true,
+    'reservation_id', v_reservation_id,
+    'policy', v_policy,
+    'overage_units', v_overage
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 6. Settle a hold once the action happened. p_amount overrides the reserved
+-- amount when the real usage differs (e.g. call minutes). Committing twice is
+-- a no-op; a hold that already expired is still counted.
+CREATE OR REPLACE FUNCTION public.commit_usage(p_reservation_id UUID, p_amount INTEGER DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_res usage_reservations%ROWTYPE;
+  v_amount INTEGER;
+  v_overage INTEGER;
+BEGIN
+  SELECT * INTO v_res FROM usage_reservations WHERE id = p_reservation_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Usage reservation not found';
+  END IF;
+
+  IF auth.uid() IS NOT NULL
+     AND v_res.client_id IS DISTINCT FROM (SELECT id FROM clients WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized to settle this usage reservation';
+  END IF;
+
+  -- Same lock order as reserve_usage: service row first, then the hold
+  PERFORM 1 FROM client_services WHERE id = v_res.client_service_id FOR UPDATE;
+  SELECT * INTO v_res FROM usage_reservations WHERE id = p_reservation_id FOR UPDATE;
+
+  IF v_res.status = 'committed' THEN
+    RETURN false;
+  END IF;
+
+  v_amount := GREATEST(COALESCE(p_amount, v_res.amount), 0);
+
+  IF v_res.status = 'held' THEN
+    UPDATE client_services
+    SET usage_reserved = GREATEST(usage_reserved - v_res.amount, 0)
+    WHERE id = v_res.client_service_id;
+  END IF;
+
+  v_overage := public.apply_usage(v_res.client_service_id, v_amount);
+
+  UPDATE usage_reservations
+  SET status = 'committed', consumed = v_amount, overage_units = v_overage, settled_at = NOW()
+  WHERE id = p_reservation_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 7. Give a hold back when the action did not happen
+CREATE OR REPLACE FUNCTION public.release_usage(p_reservation_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_res usage_reservations%ROWTYPE;
+BEGIN
+  SELECT * INTO v_res FROM usage_reservations WHERE id = p_reservation_id;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF auth.uid() IS NOT NULL
+     AND v_res.client_id IS DISTINCT FROM (SELECT id FROM clients WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized to settle this usage reservation';
+  END IF;
+
+  PERFORM 1 FROM client_services WHERE id = v_res.client_service_id FOR UPDATE;
+  SELECT * INTO v_res FROM usage_reservations WHERE id = p_reservation_id FOR UPDATE;
+
+  IF v_res.status <> 'held' THEN
+    RETURN false;
+  END IF;
+
+  UPDATE usage_reservations SET status = 'released', settled_at = NOW() WHERE id = p_reservation_id;
+  UPDATE client_services
+  SET usage_reserved = GREATEST(usage_reserved - v_res.amount, 0)
+  WHERE id = v_res.client_service_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only edge functions and database triggers settle usage: a caller that could
+-- commit its own holds could also pick the amount it is billed for
+REVOKE ALL ON FUNCTION public.reserve_usage(UUID, TEXT, INTEGER, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.commit_usage(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.release_usage(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_usage(UUID, TEXT, INTEGER, TEXT, TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.commit_usage(UUID, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.release_usage(UUID) TO service_role;
+
+-- 8. Usage reported after the fact (e.g. a finished call) settles the oldest
+-- open hold for the service, so actions reserved up front are not counted twice
+CREATE OR REPLACE FUNCTION public.increment_usage(
+  p_client_id UUID,
+  p_service_slug TEXT,
+  p_amount INTEGER
+)
+RETURNS VOID AS $$
+DECLARE
+  v_client_service_id UUID;
+  v_reservation_id UUID;
+BEGIN
+  SELECT cs.id INTO v_client_service_id
+  FROM client_services cs
+  JOIN services s ON s.id = cs.service_id
+  WHERE cs.client_id = p_client_id AND s.slug = p_service_slug
+  LIMIT 1
+  FOR UPDATE OF cs;
+
+  IF v_client_service_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT id INTO v_reservation_id
+  FROM usage_reservations
+  WHERE client_service_id = v_client_service_id AND status = 'held'
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF v_reservation_id IS NOT NULL THEN
+    PERFORM public.commit_usage(v_reservation_id, p_amount);
+  ELSE
+    PERFORM public.apply_usage(v_client_service_id, p_amount);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.increment_usage(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.increment_usage(UUID, TEXT, INTEGER) TO service_role;
+
+-- 9. Social posts reserve a unit when the publisher picks them up, commit it
+-- once posted and release it when publishing fails. A post over a blocking
+-- limit fails instead of publishing.
+ALTER TABLE public.social_media_posts
+  ADD COLUMN IF NOT EXISTS usage_reservation_id UUID REFERENCES public.usage_reservations(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.meter_social_media_post()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old TEXT := CASE WHEN TG_OP = 'UPDATE' THEN OLD.status::TEXT END;
+  v_result JSONB;
+BEGIN
+  IF v_old IS NOT DISTINCT FROM NEW.status::TEXT THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'publishing' THEN
+    v_result := public.reserve_usage(NEW.client_id, 'social-media-automation', 1, 'social_post', NEW.id::TEXT, 3600);
+    IF (v_result ->> 'allowed')::BOOLEAN THEN
+      NEW.usage_reservation_id := (v_result ->> 'reservation_id')::UUID;
+    ELSE
+      NEW.status := 'failed';
+      NEW.error_message := v_result ->> 'reason';
+    END IF;
+  ELSIF NEW.status = 'posted' THEN
+    IF NEW.usage_reservation_id IS NOT NULL THEN
+      PERFORM public.commit_usage(NEW.usage_reservation_id);
+    ELSE
+      PERFORM public.increment_usage(NEW.client_id, 'social-media-automation', 1);
+    END IF;
+  ELSIF NEW.status = 'failed' AND NEW.usage_reservation_id IS NOT NULL THEN
+    PERFORM public.release_usage(NEW.usage_reservation_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS tr_meter_social_media_post ON public.social_media_posts;
+CREATE TRIGGER tr_meter_social_media_post
+BEFORE INSERT OR UPDATE OF status ON public.social_media_posts
+FOR EACH ROW
+EXECUTE FUNCTION public.meter_social_media_post();
+
+-- 10. Limit notifications. The 80% and exceeded alerts follow the
+-- usage_limit_80 / usage_limit_exceeded toggles in platform settings; an
+-- exceeded limit is reported to the client and to their admin (or the super
+-- admins for direct clients), worded for the plan's overage policy.
+CREATE OR REPLACE FUNCTION public.check_usage_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_percentage NUMERIC;
+  v_old_percentage NUMERIC;
+  v_service_name TEXT;
+  v_client clients%ROWTYPE;
+  v_policy overage_policy;
+  v_client_message TEXT;
+  v_admin_user_id UUID;
+BEGIN
+  IF NEW.usage_limit IS NULL OR NEW.usage_limit = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.usage_consumed IS NOT NULL AND NEW.usage_consumed <= OLD.usage_consumed THEN
+    RETURN NEW;
+  END IF;
+
+  v_percentage := (COALESCE(NEW.usage_consumed, 0)::NUMERIC / NEW.usage_limit::NUMERIC) * 100;
+  v_old_percentage := (COALESCE(OLD.usage_consumed, 0)::NUMERIC / NEW.usage_limit::NUMERIC) * 100;
+
+  SELECT s.name INTO v_service_name FROM services s WHERE s.id = NEW.service_id;
+  SELECT * INTO v_client FROM clients c WHERE c.id = NEW.client_id;
+  SELECT overage_policy INTO v_policy FROM service_plans WHERE id = NEW.plan_id;
+  v_policy := COALESCE(v_policy, 'block');
+
+  IF v_client.user_id IS NULL THEN RETURN NEW; END IF;
+
+  IF v_percentage >= 80 AND v_percentage < 100 AND v_old_percentage < 80
+     AND public.notification_enabled('usage_limit_80') THEN
+    INSERT INTO notifications (user_id, title, message, type, action_url)
+    VALUES (v_client.user_id, 'Usage Alert',
+      format('You''ve used %s%% of your %s limit (%s/%s).', round(v_percentage), v_service_name, NEW.usage_consumed, NEW.usage_limit),
+      'warning', '/client/usage');
+  END IF;
+
+  IF v_percentage >= 100 AND v_old_percentage < 100
+     AND public.notification_enabled('usage_limit_exceeded') THEN
+    v_client_message := CASE v_policy
+      WHEN 'block' THEN format('You''ve reached your %s limit (%s/%s). The service is paused until your limit resets or is raised.',
+        v_service_name, NEW.usage_consumed, NEW.usage_limit)
+      WHEN 'overage' THEN format('You''ve reached your %s limit (%s/%s). Further usage is billed as overage.',
+        v_service_name, NEW.usage_consumed, NEW.usage_limit)
+      ELSE format('You''ve reached your %s limit (%s/%s). Please contact your account manager to upgrade your plan.',
+        v_service_name, NEW.usage_consumed, NEW.usage_limit)
+    END;
+
+    INSERT INTO notifications (user_id, title, message, type, action_url)
+    VALUES (v_client.user_id, 'Usage Limit Reached', v_client_message, 'error', '/client/usage');
+
+    SELECT user_id INTO v_admin_user_id FROM admins WHERE id = v_client.admin_id;
+
+    INSERT INTO notifications (user_id, title, message, type, action_url)
+    SELECT recipient, 'Client Usage Limit Reached',
+      format('%s has reached its %s limit (%s/%s). %s', v_client.company_name, v_service_name,
+        NEW.usage_consumed, NEW.usage_limit,
+        CASE v_policy
+          WHEN 'block' THEN 'Their service is paused.'
+          WHEN 'overage' THEN 'Further usage is billed as overage.'
+          ELSE 'Usage continues past the soft cap; review their plan.'
+        END),
+      CASE WHEN v_policy = 'block' THEN 'error' ELSE 'warning' END,
+      CASE WHEN v_admin_user_id IS NOT NULL
+        THEN '/admin/clients/' || v_client.id
+        ELSE '/super-admin/clients/' || v_client.id
+      END
+    FROM (
+      SELECT v_admin_user_id AS recipient WHERE v_admin_user_id IS NOT NULL
+      UNION
+      SELECT user_id FROM user_roles WHERE role = 'super_admin' AND v_admin_user_id IS NULL
+    ) r;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 11. Overage units are per period, like the usage they came from
+CREATE OR REPLACE FUNCTION public.reset_usage_if_needed()
+RETURNS void AS $$
+BEGIN
+  UPDATE client_services
+  SET usage_consumed = 0, overage_consumed = 0, last_reset_at = NOW(), updated_at = NOW()
+  WHERE reset_period = 'monthly'
+    AND (last_reset_at IS NULL OR last_reset_at < DATE_TRUNC('month', NOW()));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 12. A finished call settles the hold the dialer took for its contact
+-- instead of whichever hold is oldest; calls placed outside the dialer are
+-- counted through increment_usage as before
+CREATE OR REPLACE FUNCTION public.ingest_call_status(
+  p_provider_call_id TEXT,
+  p_client_id UUID,
+  p_campaign_id UUID,
+  p_phone_number TEXT,
+  p_call_status TEXT,
+  p_workflow_instance_id UUID DEFAULT NULL,
+  p_contact_id UUID DEFAULT NULL,
+  p_duration_seconds INTEGER DEFAULT 0,
+  p_recording_url TEXT DEFAULT NULL,
+  p_transcript TEXT DEFAULT NULL,
+  p_ai_summary TEXT DEFAULT NULL,
+  p_is_lead BOOLEAN DEFAULT false,
+  p_lead_score INTEGER DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_status call_status;
+  v_is_final BOOLEAN;
+  v_service_id UUID;
+  v_log_id UUID;
+  v_existing call_logs%ROWTYPE;
+  v_lead_id UUID;
+  v_reservation_id UUID;
+BEGIN
+  v_status := CASE
+    WHEN p_call_status IN ('initiated', 'ringing', 'answered', 'busy', 'no_answer', 'failed', 'completed')
+      THEN p_call_status
+    ELSE 'failed'
+  END::call_status;
+  v_is_final := v_status NOT IN ('initiated', 'ringing');
+
+  SELECT id INTO v_service_id FROM services WHERE slug = 'voice-telecaller';
+
+  INSERT INTO call_logs (
+    client_id, workflow_instance_id, service_id, call_type, phone_number, status,
+    duration_seconds, recording_url, transcript, ai_summary, provider_call_id,
+    executed_at, completed_at
+  )
+  VALUES (
+    p_client_id, p_workflow_instance_id, v_service_id, 'outbound', p_phone_number, v_status,
+    COALESCE(p_duration_seconds, 0), p_recording_url, p_transcript, p_ai_summary, p_provider_call_id,
+    now(), CASE WHEN v_is_final THEN now() END
+  )
+  ON CONFLICT (provider_call_id) WHERE provider_call_id IS NOT NULL DO NOTHING
+  RETURNING id INTO v_log_id;
+
+  IF v_log_id IS NULL THEN
+    SELECT * INTO v_existing FROM call_logs WHERE provider_call_id = p_provider_call_id FOR UPDATE;
+
+    -- Anything after the final status is a replay
+    IF v_existing.completed_at IS NOT NULL THEN
+      RETURN jsonb_build_object('duplicate', true, 'final', true, 'call_log_id', v_existing.id);
+    END IF;
+
+    IF NOT v_is_final THEN
+      IF v_existing.status = v_status THEN
+        RETURN jsonb_build_object('duplicate', true, 'final', false, 'call_log_id', v_existing.id);
+      END IF;
+      UPDATE call_logs SET status = v_status WHERE id = v_existing.id;
+      RETURN jsonb_build_object('duplicate', false, 'final', false, 'call_log_id', v_existing.id);
+    END IF;
+
+    UPDATE call_logs
+    SET status = v_status,
+        duration_seconds = COALESCE(p_duration_seconds, 0),
+        recording_url = COALESCE(p_recording_url, recording_url),
+        transcript = COALESCE(p_transcript, transcript),
+        ai_summary = COALESCE(p_ai_summary, ai_summary),
+        completed_at = now()
+    WHERE id = v_existing.id;
+
+    v_log_id := v_existing.id;
+  ELSIF NOT v_is_final THEN
+    RETURN jsonb_build_object('duplicate', false, 'final', false, 'call_log_id', v_log_id);
+  END IF;
+
+  IF p_contact_id IS NOT NULL THEN
+    PERFORM public.record_campaign_contact_result(p_contact_id, v_status::TEXT, v_log_id);
+  END IF;
+
+  IF p_is_lead THEN
+    INSERT INTO leads (client_id, call_log_id, campaign_id, lead_source, phone, lead_score, status, notes)
+    VALUES (p_client_id, v_log_id, p_campaign_id, 'telecaller', p_phone_number, COALESCE(p_lead_score, 50), 'new', p_ai_summary)
+    RETURNING id INTO v_lead_id;
+  END IF;
+
+  INSERT INTO usage_tracking (client_id, service_id, usage_type, quantity, metadata)
+  VALUES (
+    p_client_id, v_service_id, 'outbound_call', 1,
+    jsonb_build_object('campaign_id', p_campaign_id, 'call_status', v_status, 'duration_seconds', p_duration_seconds, 'provider_call_id', p_provider_call_id)
+  );
+
+  -- The dialer held a unit for this contact when it placed the call; settle
+  -- that hold rather than whichever one is oldest. Calls placed outside the
+  -- dialer (instant calls via n8n) have none and are counted directly.
+  SELECT id INTO v_reservation_id
+  FROM usage_reservations
+  WHERE p_contact_id IS NOT NULL
+    AND client_id = p_client_id
+    AND source = 'voice_campaign'
+    AND reference_id = p_contact_id::TEXT
+    AND status IN ('held', 'expired')
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_reservation_id IS NOT NULL THEN
+    PERFORM public.commit_usage(v_reservation_id, 1);
+  ELSE
+    PERFORM public.increment_usage(p_client_id, 'voice-telecaller', 1);
+  END IF;
+
+  RETURN jsonb_build_object('duplicate', false, 'final', true, 'call_log_id', v_log_id, 'lead_id', v_lead_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,468 @@
+-- Automated monthly invoicing: roll each client's usage for a billing period
+-- up into a draft invoice priced with its admin's pricing, for review
+
+-- 1. Generated invoices remember the period they bill, so a re-run finds and
+-- refreshes its own draft instead of creating a second one
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS billing_period_start DATE,
+  ADD COLUMN IF NOT EXISTS billing_period_end DATE,
+  ADD COLUMN IF NOT EXISTS is_auto_generated BOOLEAN NOT NULL DEFAULT false;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_client_period
+  ON public.invoices(client_id, billing_period_start)
+  WHERE is_auto_generated;
+
+-- usage / overage / plan_fee for generated lines, NULL for manual ones
+ALTER TABLE public.invoice_items
+  ADD COLUMN IF NOT EXISTS line_type TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_usage_tracking_client_recorded
+  ON public.usage_tracking(client_id, recorded_at);
+
+-- 2. Every committed reservation is a usage event in usage_tracking, which
+-- is what invoices are built from. Usage reported through increment_usage
+-- (finished calls) is already logged by its caller.
+CREATE OR REPLACE FUNCTION public.settle_usage_reservation(
+  p_reservation_id UUID,
+  p_amount INTEGER,
+  p_record_event BOOLEAN
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_res usage_reservations%ROWTYPE;
+  v_amount INTEGER;
+  v_overage INTEGER;
+BEGIN
+  SELECT * INTO v_res FROM usage_reservations WHERE id = p_reservation_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Usage reservation not found';
+  END IF;
+
+  -- Same lock order as reserve_usage: service row first, then the hold
+  PERFORM 1 FROM client_services WHERE id = v_res.client_service_id FOR UPDATE;
+  SELECT * INTO v_res FROM usage_reservations WHERE id = p_reservation_id FOR UPDATE;
+
+  IF v_res.status = 'committed' THEN
+    RETURN false;
+  END IF;
+
+  v_amount := GREATEST(COALESCE(p_amount, v_res.amount), 0);
+
+  IF v_res.status = 'held' THEN
+    UPDATE client_services
+    SET usage_reserved = GREATEST(usage_reserved - v_res.amount, 0)
+    WHERE id = v_res.client_service_id;
+  END IF;
+
+  v_overage := public.apply_usage(v_res.client_service_id, v_amount);
+
+  UPDATE usage_reservations
+  SET status = 'committed', consumed = v_amount, overage_units = v_overage, settled_at = NOW()
+  WHERE id = p_reservation_id;
+
+  IF p_record_event AND v_amount > 0 THEN
+    INSERT INTO usage_tracking (client_id, service_id, usage_type, quantity, metadata)
+    VALUES (
+      v_res.client_id, v_res.service_id, COALESCE(v_res.source, 'usage'), v_amount,
+      jsonb_build_object('reservation_id', v_res.id, 'reference_id', v_res.reference_id, 'overage_units', v_overage)
+    );
+  END IF;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.settle_usage_reservation(UUID, INTEGER, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.settle_usage_reservation(UUID, INTEGER, BOOLEAN) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.commit_usage(p_reservation_id UUID, p_amount INTEGER DEFAULT NULL)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_client_id UUID;
+BEGIN
+  SELECT client_id INTO v_client_id FROM usage_reservations WHERE id = p_reservation_id;
+
+  IF auth.uid() IS NOT NULL
+     AND v_client_id IS DISTINCT FROM (SELECT id FROM clients WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized to settle this usage reservation';
+  END IF;
+
+  RETURN public.settle_usage_reservation(p_reservation_id, p_amount, true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.increment_usage(
+  p_client_id UUID,
+  p_service_slug TEXT,
+  p_amount INTEGER
+)
+RETURNS VOID AS $$
+DECLARE
+  v_client_service_id UUID;
+  v_reservation_id UUID;
+BEGIN
+  SELECT cs.id INTO v_client_service_id
+  FROM client_services cs
+  JOIN services s ON s.id = cs.service_id
+  WHERE cs.client_id = p_client_id AND s.slug = p_service_slug
+  LIMIT 1
+  FOR UPDATE OF cs;
+
+  IF v_client_service_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT id INTO v_reservation_id
+  FROM usage_reservations
+  WHERE client_service_id = v_client_service_id AND status = 'held'
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF v_reservation_id IS NOT NULL THEN
+    PERFORM public.settle_usage_reservation(v_reservation_id, p_amount, false);
+  ELSE
+    PERFORM public.apply_usage(v_client_service_id, p_amount);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Posts published without a reservation are logged here, like finished calls
+CREATE OR REPLACE FUNCTION public.meter_social_media_post()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old TEXT := CASE WHEN TG_OP = 'UPDATE' THEN OLD.status::TEXT END;
+  v_result JSONB;
+BEGIN
+  IF v_old IS NOT DISTINCT FROM NEW.status::TEXT THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'publishing' THEN
+    v_result := public.reserve_usage(NEW.client_id, 'social-media-automation', 1, 'social_post', NEW.id::TEXT, 3600);
+    IF (v_result ->> 'allowed')::BOOLEAN THEN
+      NEW.usage_reservation_id := (v_result ->> 'reservation_id')::UUID;
+    ELSE
+      NEW.status := 'failed';
+      NEW.error_message := v_result ->> 'reason';
+    END IF;
+  ELSIF NEW.status = 'posted' THEN
+    IF NEW.usage_reservation_id IS NOT NULL THEN
+      PERFORM public.commit_usage(NEW.usage_reservation_id);
+    ELSE
+      INSERT INTO usage_tracking (client_id, service_id, usage_type, quantity, metadata)
+      SELECT NEW.client_id, s.id, 'social_post', 1, jsonb_build_object('reference_id', NEW.id)
+      FROM services s WHERE s.slug = 'social-media-automation';
+      PERFORM public.increment_usage(NEW.client_id, 'social-media-automation', 1);
+    END IF;
+  ELSIF NEW.status = 'failed' AND NEW.usage_reservation_id IS NOT NULL THEN
+    PERFORM public.release_usage(NEW.usage_reservation_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 3. What a client pays per unit of a service: its admin's custom price when
+-- set, otherwise the base price plus the admin's markup. Keep in sync with
+-- resolveUnitPrice in src/lib/billing.ts.
+CREATE OR REPLACE FUNCTION public.client_unit_price(p_client_id UUID, p_service_id UUID)
+RETURNS NUMERIC AS $$
+  SELECT ROUND(
+    CASE
+      WHEN ap.is_custom_pricing AND ap.custom_price_per_unit IS NOT NULL THEN ap.custom_price_per_unit
+      ELSE COALESCE(s.base_price, 0) * (1 + COALESCE(ap.markup_percentage, 0) / 100)
+    END, 2)
+  FROM services s
+  JOIN clients c ON c.id = p_client_id
+  LEFT JOIN admin_pricing ap ON ap.admin_id = c.admin_id AND ap.service_id = s.id
+  WHERE s.id = p_service_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 4. Billable units of a finished call: answered minutes, rounded up, for
+-- services priced per minute, otherwise one per call. Usage, limits, wallet
+-- debits and invoices all count calls in this unit.
+CREATE OR REPLACE FUNCTION public.call_usage_units(p_service_id UUID, p_duration_seconds INTEGER)
+RETURNS INTEGER AS $$
+  SELECT CASE
+    WHEN s.base_pricing_model = 'per_minute' THEN CEIL(GREATEST(COALESCE(p_duration_seconds, 0), 0) / 60.0)::INTEGER
+    ELSE 1
+  END
+  FROM services s
+  WHERE s.id = p_service_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Finished calls are logged and settled in these units. The call is already
+-- in usage_tracking, so its hold is settled without a second usage event.
+CREATE OR REPLACE FUNCTION public.ingest_call_status(
+  p_provider_call_id TEXT,
+  p_client_id UUID,
+  p_campaign_id UUID,
+  p_phone_number TEXT,
+  p_call_status TEXT,
+  p_workflow_instance_id UUID DEFAULT NULL,
+  p_contact_id UUID DEFAULT NULL,
+  p_duration_seconds INTEGER DEFAULT 0,
+  p_recording_url TEXT DEFAULT NULL,
+  p_transcript TEXT DEFAULT NULL,
+  p_ai_summary TEXT DEFAULT NULL,
+  p_is_lead BOOLEAN DEFAULT false,
+  p_lead_score INTEGER DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_status call_status;
+  v_is_final BOOLEAN;
+  v_service_id UUID;
+  v_log_id UUID;
+  v_existing call_logs%ROWTYPE;
+  v_lead_id UUID;
+  v_reservation_id UUID;
+  v_units INTEGER;
+BEGIN
+  v_status := CASE
+    WHEN p_call_status IN ('initiated', 'ringing', 'answered', 'busy', 'no_answer', 'failed', 'completed')
+      THEN p_call_status
+    ELSE 'failed'
+  END::call_status;
+  v_is_final := v_status NOT IN ('initiated', 'ringing');
+
+  SELECT id INTO v_service_id FROM services WHERE slug = 'voice-telecaller';
+
+  INSERT INTO call_logs (
+    client_id, workflow_instance_id, service_id, call_type, phone_number, status,
+    duration_seconds, recording_url, transcript, ai_summary, provider_call_id,
+    executed_at, completed_at
+  )
+  VALUES (
+    p_client_id, p_workflow_instance_id, v_service_id, 'outbound', p_phone_number, v_status,
+    COALESCE(p_duration_seconds, 0), p_recording_url, p_transcript, p_ai_summary, p_provider_call_id,
+    now(), CASE WHEN v_is_final THEN now() END
+  )
+  ON CONFLICT (provider_call_id) WHERE provider_call_id IS NOT NULL DO NOTHING
+  RETURNING id INTO v_log_id;
+
+  IF v_log_id IS NULL THEN
+    SELECT * INTO v_existing FROM call_logs WHERE provider_call_id = p_provider_call_id FOR UPDATE;
+
+    -- Anything after the final status is a replay
+    IF v_existing.completed_at IS NOT NULL THEN
+      RETURN jsonb_build_object('duplicate', true, 'final', true, 'call_log_id', v_existing.id);
+    END IF;
+
+    IF NOT v_is_final THEN
+      IF v_existing.status = v_status THEN
+        RETURN jsonb_build_object('duplicate', true, 'final', false, 'call_log_id', v_existing.id);
+      END IF;
+      UPDATE call_logs SET status = v_status WHERE id = v_existing.id;
+      RETURN jsonb_build_object('duplicate', false, 'final', false, 'call_log_id', v_existing.id);
+    END IF;
+
+    UPDATE call_logs
+    SET status = v_status,
+        duration_seconds = COALESCE(p_duration_seconds, 0),
+        recording_url = COALESCE(p_recording_url, recording_url),
+        transcript = COALESCE(p_transcript, transcript),
+        ai_summary = COALESCE(p_ai_summary, ai_summary),
+        completed_at = now()
+    WHERE id = v_existing.id;
+
+    v_log_id := v_existing.id;
+  ELSIF NOT v_is_final THEN
+    RETURN jsonb_build_object('duplicate', false, 'final', false, 'call_log_id', v_log_id);
+  END IF;
+
+  IF p_contact_id IS NOT NULL THEN
+    PERFORM public.record_campaign_contact_result(p_contact_id, v_status::TEXT, v_log_id);
+  END IF;
+
+  IF p_is_lead THEN
+    INSERT INTO leads (client_id, call_log_id, campaign_id, lead_source, phone, lead_score, status, notes)
+    VALUES (p_client_id, v_log_id, p_campaign_id, 'telecaller', p_phone_number, COALESCE(p_lead_score, 50), 'new', p_ai_summary)
+    RETURNING id INTO v_lead_id;
+  END IF;
+
+  -- Per-minute services are metered in answered minutes (call_usage_units)
+  v_units := COALESCE(public.call_usage_units(v_service_id, p_duration_seconds), 1);
+
+  INSERT INTO usage_tracking (client_id, service_id, usage_type, quantity, metadata)
+  VALUES (
+    p_client_id, v_service_id, 'outbound_call', v_units,
+    jsonb_build_object('campaign_id', p_campaign_id, 'call_status', v_status, 'duration_seconds', p_duration_seconds, 'provider_call_id', p_provider_call_id)
+  );
+
+  -- The dialer held a unit for this contact when it placed the call; settle
+  -- that hold rather than whichever one is oldest. Calls placed outside the
+  -- dialer (instant calls via n8n) have none and are counted directly.
+  SELECT id INTO v_reservation_id
+  FROM usage_reservations
+  WHERE p_contact_id IS NOT NULL
+    AND client_id = p_client_id
+    AND source = 'voice_campaign'
+    AND reference_id = p_contact_id::TEXT
+    AND status IN ('held', 'expired')
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_reservation_id IS NOT NULL THEN
+    PERFORM public.settle_usage_reservation(v_reservation_id, v_units, false);
+  ELSIF v_units > 0 THEN
+    PERFORM public.increment_usage(p_client_id, 'voice-telecaller', v_units);
+  END IF;
+
+  RETURN jsonb_build_object('duplicate', false, 'final', true, 'call_log_id', v_log_id, 'lead_id', v_lead_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 5. The billing run. For every client with usage or a plan fee in the
+-- period it writes one draft invoice: usage per service at the client's unit
+-- price, overage units at the plan's overage rate (with the admin's markup),
+-- and each plan's monthly fee. Re-running a period refreshes drafts it
+-- created and leaves invoices that were already sent alone. Admins run it
+-- for their own clients; the scheduler (service role) and super admins for
+-- everyone (callable via pg_cron on the 1st of each month). Returns the
+-- number of invoices created or refreshed.
+CREATE OR REPLACE FUNCTION public.generate_period_invoices(p_period_start DATE DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_start DATE := date_trunc('month', COALESCE(p_period_start, (NOW() - INTERVAL '1 month')::DATE))::DATE;
+  v_end DATE;
+  v_scope_admin UUID;
+  v_client RECORD;
+  v_invoice invoices%ROWTYPE;
+  v_subtotal NUMERIC;
+  v_count INTEGER := 0;
+  v_created_for UUID[] := '{}';
+  v_direct_created INTEGER := 0;
+BEGIN
+  v_end := (v_start + INTERVAL '1 month')::DATE;
+
+  IF auth.uid() IS NOT NULL AND NOT public.is_super_admin() THEN
+    v_scope_admin := public.get_admin_id_for_user();
+    IF v_scope_admin IS NULL THEN
+      RAISE EXCEPTION 'Not authorized to run billing';
+    END IF;
+  END IF;
+
+  IF v_end > CURRENT_DATE THEN
+    RAISE EXCEPTION 'The billing period % has not ended yet', to_char(v_start, 'FMMonth YYYY');
+  END IF;
+
+  FOR v_client IN
+    SELECT c.id, c.admin_id FROM clients c
+    WHERE (v_scope_admin IS NULL OR c.admin_id = v_scope_admin)
+      AND (
+        EXISTS (SELECT 1 FROM usage_tracking ut
+                WHERE ut.client_id = c.id AND ut.recorded_at >= v_start AND ut.recorded_at < v_end)
+        OR EXISTS (SELECT 1 FROM client_services cs JOIN service_plans sp ON sp.id = cs.plan_id
+                   WHERE cs.client_id = c.id AND cs.is_active AND COALESCE(sp.monthly_price, 0) > 0
+                     AND cs.assigned_at < v_end)
+      )
+  LOOP
+    SELECT * INTO v_invoice FROM invoices
+    WHERE client_id = v_client.id AND billing_period_start = v_start AND is_auto_generated
+    FOR UPDATE;
+
+    IF FOUND THEN
+      -- Reviewed invoices are final; only drafts are rebuilt
+      CONTINUE WHEN v_invoice.status IS DISTINCT FROM 'draft';
+      DELETE FROM invoice_items WHERE invoice_id = v_invoice.id;
+    ELSE
+      INSERT INTO invoices (
+        admin_id, client_id, invoice_number, invoice_date, due_date, subtotal, tax_amount, total_amount,
+        status, notes, billing_period_start, billing_period_end, is_auto_generated
+      )
+      VALUES (
+        v_client.admin_id, v_client.id,
+        'AUTO-' || to_char(v_start, 'YYYYMM') || '-' || upper(substr(replace(v_client.id::TEXT, '-', ''), 1, 8)),
+        CURRENT_DATE, CURRENT_DATE + 30, 0, 0, 0, 'draft',
+        format('Usage for %s', to_char(v_start, 'FMMonth YYYY')),
+        v_start, (v_end - 1), true
+      )
+      RETURNING * INTO v_invoice;
+
+      IF v_client.admin_id IS NULL THEN
+        v_direct_created := v_direct_created + 1;
+      ELSE
+        v_created_for := v_created_for || v_client.admin_id;
+      END IF;
+    END IF;
+
+    WITH usage AS (
+      SELECT ut.service_id, SUM(COALESCE(ut.quantity, 1))::INTEGER AS qty
+      FROM usage_tracking ut
+      WHERE ut.client_id = v_client.id AND ut.service_id IS NOT NULL
+        AND ut.recorded_at >= v_start AND ut.recorded_at < v_end
+      GROUP BY ut.service_id
+    ),
+    overage AS (
+      SELECT r.service_id, SUM(r.overage_units)::INTEGER AS qty
+      FROM usage_reservations r
+      WHERE r.client_id = v_client.id AND r.status = 'committed' AND r.overage_units > 0
+        AND r.settled_at >= v_start AND r.settled_at < v_end
+      GROUP BY r.service_id
+    ),
+    lines AS (
+      SELECT u.service_id, s.name || ' usage' AS description, 'usage' AS line_type,
+        GREATEST(u.qty - COALESCE(o.qty, 0), 0) AS quantity,
+        public.client_unit_price(v_client.id, u.service_id) AS unit_price
+      FROM usage u
+      JOIN services s ON s.id = u.service_id
+      LEFT JOIN overage o ON o.service_id = u.service_id
+      UNION ALL
+      SELECT o.service_id, s.name || ' overage', 'overage', o.qty,
+        COALESCE(
+          ROUND(sp.overage_price_per_unit * (1 + COALESCE(ap.markup_percentage, 0) / 100), 2),
+          public.client_unit_price(v_client.id, o.service_id)
+        )
+      FROM overage o
+      JOIN services s ON s.id = o.service_id
+      LEFT JOIN client_services cs ON cs.client_id = v_client.id AND cs.service_id = o.service_id
+      LEFT JOIN service_plans sp ON sp.id = cs.plan_id
+      LEFT JOIN admin_pricing ap ON ap.admin_id = v_client.admin_id AND ap.service_id = o.service_id
+      UNION ALL
+      SELECT cs.service_id, format('%s plan — %s', sp.plan_name, to_char(v_start, 'FMMonth YYYY')), 'plan_fee', 1,
+        ROUND(sp.monthly_price, 2)
+      FROM client_services cs
+      JOIN service_plans sp ON sp.id = cs.plan_id
+      WHERE cs.client_id = v_client.id AND cs.is_active AND COALESCE(sp.monthly_price, 0) > 0
+        AND cs.assigned_at < v_end
+    )
+    INSERT INTO invoice_items (invoice_id, service_id, description, quantity, unit_price, total_price, line_type)
+    SELECT v_invoice.id, service_id, description, quantity, unit_price, ROUND(quantity * unit_price, 2), line_type
+    FROM lines
+    WHERE quantity > 0;
+
+    SELECT COALESCE(SUM(total_price), 0) INTO v_subtotal FROM invoice_items WHERE invoice_id = v_invoice.id;
+
+    UPDATE invoices
+    SET subtotal = v_subtotal, total_amount = v_subtotal + COALESCE(tax_amount, 0)
+    WHERE id = v_invoice.id;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  -- Admins review new drafts before they go out; direct clients are billed
+  -- by the platform
+  INSERT INTO notifications (user_id, title, message, type, action_url)
+  SELECT a.user_id, 'Invoices Ready for Review',
+    format('%s draft invoice%s for %s %s ready to review and send.', g.n,
+      CASE WHEN g.n = 1 THEN '' ELSE 's' END, to_char(v_start, 'FMMonth YYYY'),
+      CASE WHEN g.n = 1 THEN 'is' ELSE 'are' END),
+    'info', '/admin/billing'
+  FROM (SELECT admin_id, COUNT(*) AS n FROM unnest(v_created_for) AS admin_id GROUP BY admin_id) g
+  JOIN admins a ON a.id = g.admin_id;
+
+  IF v_direct_created > 0 THEN
+    INSERT INTO notifications (user_id, title, message, type, action_url)
+    SELECT user_id, 'Invoices Ready for Review',
+      format('%s draft invoice(s) for direct clients for %s are ready to review.', v_direct_created, to_char(v_start, 'FMMonth YYYY')),
+      'info', '/super-admin/clients'
+    FROM user_roles WHERE role = 'super_admin';
+  END IF;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.generate_period_invoices(DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_period_invoices(DATE) TO authenticated, service_role;
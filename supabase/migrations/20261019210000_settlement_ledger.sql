@@ -0,0 +1,191 @@
+-- Reseller settlement ledger: every billable usage event is posted twice,
+-- once at wholesale (what the admin owes the platform, at the service base
+-- price) and once at retail (what the client owes its admin, at the admin's
+-- price). Direct clients have no admin, so they only get a retail entry,
+-- owed to the platform.
+
+-- 1. Ledger
+CREATE TABLE IF NOT EXISTS public.settlement_ledger_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  usage_tracking_id UUID NOT NULL REFERENCES public.usage_tracking(id) ON DELETE CASCADE,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('wholesale', 'retail')),
+  admin_id UUID REFERENCES public.admins(id) ON DELETE SET NULL,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  service_id UUID REFERENCES public.services(id) ON DELETE SET NULL,
+  quantity INTEGER NOT NULL,
+  overage_units INTEGER NOT NULL DEFAULT 0,
+  unit_price NUMERIC(10,4) NOT NULL,
+  amount NUMERIC(12,2) NOT NULL,
+  occurred_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (usage_tracking_id, entry_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_settlement_ledger_admin
+  ON public.settlement_ledger_entries(admin_id, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_settlement_ledger_occurred
+  ON public.settlement_ledger_entries(occurred_at);
+
+ALTER TABLE public.settlement_ledger_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins view settlement ledger" ON public.settlement_ledger_entries
+  FOR SELECT TO authenticated USING (public.is_super_admin());
+CREATE POLICY "Admins view their settlement entries" ON public.settlement_ledger_entries
+  FOR SELECT TO authenticated USING (admin_id = public.get_admin_id_for_user());
+
+-- 2. Posting. Overage units recorded on the event are priced at the plan's
+-- overage rate (plus the admin's markup at retail), like generated invoices.
+CREATE OR REPLACE FUNCTION public.post_usage_to_ledger(p_usage_tracking_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_usage usage_tracking%ROWTYPE;
+  v_admin_id UUID;
+  v_base NUMERIC;
+  v_retail NUMERIC;
+  v_overage_rate NUMERIC;
+  v_markup NUMERIC;
+  v_qty INTEGER;
+  v_overage INTEGER;
+BEGIN
+  SELECT * INTO v_usage FROM usage_tracking WHERE id = p_usage_tracking_id;
+  IF NOT FOUND OR v_usage.service_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_qty := GREATEST(COALESCE(v_usage.quantity, 1), 0);
+  v_overage := LEAST(GREATEST(COALESCE((v_usage.metadata ->> 'overage_units')::INTEGER, 0), 0), v_qty);
+
+  SELECT c.admin_id INTO v_admin_id FROM clients c WHERE c.id = v_usage.client_id;
+  SELECT COALESCE(base_price, 0) INTO v_base FROM services WHERE id = v_usage.service_id;
+  v_retail := public.client_unit_price(v_usage.client_id, v_usage.service_id);
+
+  SELECT sp.overage_price_per_unit INTO v_overage_rate
+  FROM client_services cs JOIN service_plans sp ON sp.id = cs.plan_id
+  WHERE cs.client_id = v_usage.client_id AND cs.service_id = v_usage.service_id
+  LIMIT 1;
+
+  SELECT COALESCE(markup_percentage, 0) INTO v_markup
+  FROM admin_pricing WHERE admin_id = v_admin_id AND service_id = v_usage.service_id;
+
+  IF v_admin_id IS NOT NULL THEN
+    INSERT INTO settlement_ledger_entries (
+      usage_tracking_id, entry_type, admin_id, client_id, service_id,
+      quantity, overage_units, unit_price, amount, occurred_at
+    )
+    VALUES (
+      v_usage.id, 'wholesale', v_admin_id, v_usage.client_id, v_usage.service_id,
+      v_qty, v_overage, v_base,
+      ROUND((v_qty - v_overage) * v_base + v_overage * COALESCE(v_overage_rate, v_base), 2),
+      COALESCE(v_usage.recorded_at, NOW())
+    )
+    ON CONFLICT (usage_tracking_id, entry_type) DO NOTHING;
+  END IF;
+
+  INSERT INTO settlement_ledger_entries (
+    usage_tracking_id, entry_type, admin_id, client_id, service_id,
+    quantity, overage_units, unit_price, amount, occurred_at
+  )
+  VALUES (
+    v_usage.id, 'retail', v_admin_id, v_usage.client_id, v_usage.service_id,
+    v_qty, v_overage, v_retail,
+    ROUND((v_qty - v_overage) * v_retail
+      + v_overage * COALESCE(ROUND(v_overage_rate * (1 + COALESCE(v_markup, 0) / 100), 2), v_retail), 2),
+    COALESCE(v_usage.recorded_at, NOW())
+  )
+  ON CONFLICT (usage_tracking_id, entry_type) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.post_usage_to_ledger(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.post_usage_to_ledger(UUID) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.post_usage_tracking_to_ledger()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.post_usage_to_ledger(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS tr_post_usage_to_ledger ON public.usage_tracking;
+CREATE TRIGGER tr_post_usage_to_ledger
+  AFTER INSERT ON public.usage_tracking
+  FOR EACH ROW EXECUTE FUNCTION public.post_usage_tracking_to_ledger();
+
+-- Usage recorded before the ledger existed
+SELECT public.post_usage_to_ledger(id) FROM public.usage_tracking;
+
+-- 3. An admin's statement for a period, per service
+CREATE OR REPLACE FUNCTION public.get_settlement_statement(
+  p_admin_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+)
+RETURNS TABLE (
+  service_id UUID,
+  service_name TEXT,
+  quantity BIGINT,
+  overage_units BIGINT,
+  wholesale_amount NUMERIC,
+  retail_amount NUMERIC
+) AS $$
+BEGIN
+  IF NOT public.is_super_admin() AND p_admin_id IS DISTINCT FROM public.get_admin_id_for_user() THEN
+    RAISE EXCEPTION 'Not authorized to view this statement';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    e.service_id,
+    COALESCE(s.name, 'Unknown service'),
+    COALESCE(SUM(e.quantity) FILTER (WHERE e.entry_type = 'retail'), 0)::BIGINT,
+    COALESCE(SUM(e.overage_units) FILTER (WHERE e.entry_type = 'retail'), 0)::BIGINT,
+    COALESCE(SUM(e.amount) FILTER (WHERE e.entry_type = 'wholesale'), 0),
+    COALESCE(SUM(e.amount) FILTER (WHERE e.entry_type = 'retail'), 0)
+  FROM settlement_ledger_entries e
+  LEFT JOIN services s ON s.id = e.service_id
+  WHERE e.admin_id = p_admin_id AND e.occurred_at >= p_from AND e.occurred_at < p_to
+  GROUP BY e.service_id, s.name
+  ORDER BY s.name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 4. What the platform is owed for a period: wholesale from each admin, and
+-- retail from direct clients (returned as the row without an admin_id)
+CREATE OR REPLACE FUNCTION public.get_platform_receivables(p_from TIMESTAMPTZ, p_to TIMESTAMPTZ)
+RETURNS TABLE (
+  admin_id UUID,
+  company_name TEXT,
+  usage_events BIGINT,
+  wholesale_amount NUMERIC,
+  retail_amount NUMERIC,
+  receivable_amount NUMERIC
+) AS $$
+BEGIN
+  IF NOT public.is_super_admin() THEN
+    RAISE EXCEPTION 'Not authorized to view platform receivables';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    e.admin_id,
+    COALESCE(a.company_name, 'Direct clients'),
+    COUNT(*) FILTER (WHERE e.entry_type = 'retail'),
+    COALESCE(SUM(e.amount) FILTER (WHERE e.entry_type = 'wholesale'), 0),
+    COALESCE(SUM(e.amount) FILTER (WHERE e.entry_type = 'retail'), 0),
+    CASE WHEN e.admin_id IS NULL
+      THEN COALESCE(SUM(e.amount) FILTER (WHERE e.entry_type = 'retail'), 0)
+      ELSE COALESCE(SUM(e.amount) FILTER (WHERE e.entry_type = 'wholesale'), 0)
+    END
+  FROM settlement_ledger_entries e
+  LEFT JOIN admins a ON a.id = e.admin_id
+  WHERE e.occurred_at >= p_from AND e.occurred_at < p_to
+  GROUP BY e.admin_id, a.company_name
+  ORDER BY 6 DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.get_settlement_statement(UUID, TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.get_platform_receivables(TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_settlement_statement(UUID, TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_platform_receivables(TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
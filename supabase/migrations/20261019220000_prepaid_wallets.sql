@@ -0,0 +1,595 @@
+-- Prepaid wallets: clients on prepaid billing carry a credit balance that
+-- every usage event draws down at the client's price, instead of being
+-- invoiced at month end. Transactions are an append-only history.
+
+-- 1. Wallets and their history
+CREATE TABLE IF NOT EXISTS public.client_wallets (
+  client_id UUID PRIMARY KEY REFERENCES public.clients(id) ON DELETE CASCADE,
+  billing_mode TEXT NOT NULL DEFAULT 'postpaid' CHECK (billing_mode IN ('postpaid', 'prepaid')),
+  balance NUMERIC(12,2) NOT NULL DEFAULT 0,
+  low_balance_threshold NUMERIC(12,2) NOT NULL DEFAULT 500,
+  -- pause: refuse billable usage and pause running campaigns at zero;
+  -- allow_negative: keep going and let the balance run negative
+  zero_balance_policy TEXT NOT NULL DEFAULT 'pause' CHECK (zero_balance_policy IN ('pause', 'allow_negative')),
+  low_balance_notified_at TIMESTAMPTZ,
+  paused_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.wallet_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES public.client_wallets(client_id) ON DELETE CASCADE,
+  transaction_type TEXT NOT NULL
+    CHECK (transaction_type IN ('top_up', 'usage_debit', 'manual_credit', 'manual_debit', 'refund')),
+  -- Credits are positive, debits negative
+  amount NUMERIC(12,2) NOT NULL,
+  balance_after NUMERIC(12,2) NOT NULL,
+  usage_tracking_id UUID UNIQUE REFERENCES public.usage_tracking(id),
+  reference TEXT,
+  note TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_client
+  ON public.wallet_transactions(client_id, created_at DESC);
+
+ALTER TABLE public.client_wallets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.wallet_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for everyone; balances only move through post_wallet_transaction
+CREATE POLICY "Super admins view wallets" ON public.client_wallets
+  FOR SELECT TO authenticated USING (public.is_super_admin());
+CREATE POLICY "Admins view their clients wallets" ON public.client_wallets
+  FOR SELECT TO authenticated
+  USING (client_id IN (SELECT id FROM public.clients WHERE admin_id = public.get_admin_id_for_user()));
+CREATE POLICY "Clients view own wallet" ON public.client_wallets
+  FOR SELECT TO authenticated
+  USING (client_id = (SELECT id FROM public.clients WHERE user_id = auth.uid()));
+
+CREATE POLICY "Super admins view wallet transactions" ON public.wallet_transactions
+  FOR SELECT TO authenticated USING (public.is_super_admin());
+CREATE POLICY "Admins view their clients wallet transactions" ON public.wallet_transactions
+  FOR SELECT TO authenticated
+  USING (client_id IN (SELECT id FROM public.clients WHERE admin_id = public.get_admin_id_for_user()));
+CREATE POLICY "Clients view own wallet transactions" ON public.wallet_transactions
+  FOR SELECT TO authenticated
+  USING (client_id = (SELECT id FROM public.clients WHERE user_id = auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.prevent_wallet_transaction_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Wallet transactions are immutable; post a correcting transaction instead';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS tr_wallet_transactions_immutable ON public.wallet_transactions;
+CREATE TRIGGER tr_wallet_transactions_immutable
+  BEFORE UPDATE ON public.wallet_transactions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_wallet_transaction_update();
+
+-- 2. The only way a balance moves. Crossing the low-balance threshold
+-- notifies the client once per dip; running out pauses the client's running
+-- voice campaigns and pending or running scheduled (n8n) calls (WhatsApp
+-- sends are held by reserve_usage) under the 'pause' policy and tells the
+-- client and their admin.
+CREATE OR REPLACE FUNCTION public.post_wallet_transaction(
+  p_client_id UUID,
+  p_type TEXT,
+  p_amount NUMERIC,
+  p_note TEXT DEFAULT NULL,
+  p_reference TEXT DEFAULT NULL,
+  p_usage_tracking_id UUID DEFAULT NULL,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_wallet client_wallets%ROWTYPE;
+  v_balance NUMERIC;
+  v_id UUID;
+  v_client clients%ROWTYPE;
+BEGIN
+  INSERT INTO client_wallets (client_id) VALUES (p_client_id) ON CONFLICT (client_id) DO NOTHING;
+  SELECT * INTO v_wallet FROM client_wallets WHERE client_id = p_client_id FOR UPDATE;
+
+  v_balance := v_wallet.balance + ROUND(p_amount, 2);
+
+  INSERT INTO wallet_transactions (
+    client_id, transaction_type, amount, balance_after, usage_tracking_id, reference, note, created_by
+  )
+  VALUES (p_client_id, p_type, ROUND(p_amount, 2), v_balance, p_usage_tracking_id, p_reference, p_note, p_created_by)
+  RETURNING id INTO v_id;
+
+  UPDATE client_wallets
+  SET balance = v_balance,
+      updated_at = NOW(),
+      low_balance_notified_at = CASE WHEN v_balance > low_balance_threshold THEN NULL ELSE low_balance_notified_at END,
+      paused_at = CASE WHEN v_balance > 0 THEN NULL ELSE paused_at END
+  WHERE client_id = p_client_id;
+
+  IF v_wallet.billing_mode <> 'prepaid' THEN
+    RETURN v_id;
+  END IF;
+
+  SELECT * INTO v_client FROM clients WHERE id = p_client_id;
+
+  IF v_balance <= 0 AND v_wallet.balance > 0 THEN
+    IF v_wallet.zero_balance_policy = 'pause' THEN
+      UPDATE voice_campaigns SET status = 'paused', updated_at = NOW()
+      WHERE client_id = p_client_id AND status = 'running';
+
+      UPDATE outbound_scheduled_calls SET status = 'paused', updated_at = NOW()
+      WHERE owner_user_id = v_client.user_id AND status IN ('pending', 'running');
+
+      UPDATE client_wallets SET paused_at = NOW(), low_balance_notified_at = NOW() WHERE client_id = p_client_id;
+
+      INSERT INTO notifications (user_id, title, message, type, action_url)
+      VALUES (v_client.user_id, 'Prepaid Balance Used Up',
+        'Your wallet balance has run out. Outbound campaigns and WhatsApp sends are paused until you top up.',
+        'error', '/client/usage');
+    ELSE
+      UPDATE client_wallets SET low_balance_notified_at = NOW() WHERE client_id = p_client_id;
+
+      INSERT INTO notifications (user_id, title, message, type, action_url)
+      VALUES (v_client.user_id, 'Prepaid Balance Used Up',
+        'Your wallet balance has run out and further usage is being charged against a negative balance.',
+        'warning', '/client/usage');
+    END IF;
+
+    INSERT INTO notifications (user_id, title, message, type, action_url)
+    SELECT a.user_id, 'Client Wallet Empty',
+      format('%s has used up their prepaid balance.', v_client.company_name),
+      'warning', '/admin/clients/' || p_client_id
+    FROM admins a WHERE a.id = v_client.admin_id;
+  ELSIF v_balance > 0 AND v_balance <= v_wallet.low_balance_threshold
+        AND v_wallet.low_balance_notified_at IS NULL
+        AND public.notification_enabled('wallet_low_balance') THEN
+    UPDATE client_wallets SET low_balance_notified_at = NOW() WHERE client_id = p_client_id;
+
+    INSERT INTO notifications (user_id, title, message, type, action_url)
+    VALUES (v_client.user_id, 'Low Prepaid Balance',
+      format('Your wallet balance is down to ₹%s. Top up to avoid interruptions.', to_char(v_balance, 'FM999999990.00')),
+      'warning', '/client/usage');
+  END IF;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.post_wallet_transaction(UUID, TEXT, NUMERIC, TEXT, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.post_wallet_transaction(UUID, TEXT, NUMERIC, TEXT, TEXT, UUID, UUID) TO service_role;
+
+-- 3. Usage debits prepaid wallets at the retail price posted to the
+-- settlement ledger (the trigger name sorts after tr_post_usage_to_ledger,
+-- so the ledger entry exists by the time this runs)
+CREATE OR REPLACE FUNCTION public.debit_wallet_for_usage()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_amount NUMERIC;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM client_wallets WHERE client_id = NEW.client_id AND billing_mode = 'prepaid'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT amount INTO v_amount
+  FROM settlement_ledger_entries
+  WHERE usage_tracking_id = NEW.id AND entry_type = 'retail';
+
+  IF COALESCE(v_amount, 0) > 0 THEN
+    PERFORM public.post_wallet_transaction(
+      NEW.client_id, 'usage_debit', -v_amount,
+      format('%s × %s', COALESCE(NEW.quantity, 1), NEW.usage_type), NULL, NEW.id, NULL
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS tr_wallet_debit_usage ON public.usage_tracking;
+CREATE TRIGGER tr_wallet_debit_usage
+  AFTER INSERT ON public.usage_tracking
+  FOR EACH ROW EXECUTE FUNCTION public.debit_wallet_for_usage();
+
+-- 4. Admin actions. Manual credits and settings changes are recorded in
+-- audit_logs as well as the wallet history.
+CREATE OR REPLACE FUNCTION public.can_manage_client_billing(p_client_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT public.is_super_admin()
+    OR EXISTS (SELECT 1 FROM clients WHERE id = p_client_id AND admin_id = public.get_admin_id_for_user());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.grant_wallet_credit(p_client_id UUID, p_amount NUMERIC, p_note TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  IF NOT public.can_manage_client_billing(p_client_id) THEN
+    RAISE EXCEPTION 'Not authorized to credit this client';
+  END IF;
+  IF p_amount IS NULL OR p_amount = 0 THEN
+    RAISE EXCEPTION 'Credit amount must not be zero';
+  END IF;
+  IF COALESCE(btrim(p_note), '') = '' THEN
+    RAISE EXCEPTION 'A note is required for manual adjustments';
+  END IF;
+
+  v_id := public.post_wallet_transaction(
+    p_client_id, CASE WHEN p_amount > 0 THEN 'manual_credit' ELSE 'manual_debit' END,
+    p_amount, btrim(p_note), NULL, NULL, auth.uid()
+  );
+
+  INSERT INTO audit_logs (user_id, action, entity_type, entity_id, new_values)
+  VALUES (auth.uid(), CASE WHEN p_amount > 0 THEN 'wallet_credit' ELSE 'wallet_debit' END, 'client_wallet', p_client_id,
+    jsonb_build_object('transaction_id', v_id, 'amount', p_amount, 'note', btrim(p_note)));
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.update_wallet_settings(
+  p_client_id UUID,
+  p_billing_mode TEXT,
+  p_low_balance_threshold NUMERIC,
+  p_zero_balance_policy TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+  v_old client_wallets%ROWTYPE;
+BEGIN
+  IF NOT public.can_manage_client_billing(p_client_id) THEN
+    RAISE EXCEPTION 'Not authorized to change billing for this client';
+  END IF;
+
+  INSERT INTO client_wallets (client_id) VALUES (p_client_id) ON CONFLICT (client_id) DO NOTHING;
+  SELECT * INTO v_old FROM client_wallets WHERE client_id = p_client_id FOR UPDATE;
+
+  UPDATE client_wallets
+  SET billing_mode = p_billing_mode,
+      low_balance_threshold = GREATEST(COALESCE(p_low_balance_threshold, 0), 0),
+      zero_balance_policy = p_zero_balance_policy,
+      low_balance_notified_at = NULL,
+      updated_at = NOW()
+  WHERE client_id = p_client_id;
+
+  INSERT INTO audit_logs (user_id, action, entity_type, entity_id, old_values, new_values)
+  VALUES (auth.uid(), 'wallet_settings_updated', 'client_wallet', p_client_id,
+    jsonb_build_object('billing_mode', v_old.billing_mode, 'low_balance_threshold', v_old.low_balance_threshold,
+      'zero_balance_policy', v_old.zero_balance_policy),
+    jsonb_build_object('billing_mode', p_billing_mode, 'low_balance_threshold', p_low_balance_threshold,
+      'zero_balance_policy', p_zero_balance_policy));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.grant_wallet_credit(UUID, NUMERIC, TEXT) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.update_wallet_settings(UUID, TEXT, NUMERIC, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.grant_wallet_credit(UUID, NUMERIC, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_wallet_settings(UUID, TEXT, NUMERIC, TEXT) TO authenticated;
+
+-- 5. Zero balance holds billable actions for prepaid clients on the pause
+-- policy
+CREATE OR REPLACE FUNCTION public.reserve_usage(
+  p_client_id UUID,
+  p_service_slug TEXT,
+  p_amount INTEGER DEFAULT 1,
+  p_source TEXT DEFAULT NULL,
+  p_reference_id TEXT DEFAULT NULL,
+  p_hold_seconds INTEGER DEFAULT 900
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_cs client_services%ROWTYPE;
+  v_policy overage_policy;
+  v_expired INTEGER;
+  v_reserved INTEGER;
+  v_committed INTEGER;
+  v_overage INTEGER := 0;
+  v_reservation_id UUID;
+BEGIN
+  -- Clients may only reserve for themselves; the service role is trusted
+  IF auth.uid() IS NOT NULL
+     AND p_client_id IS DISTINCT FROM (SELECT id FROM clients WHERE user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Not authorized to use services for this client';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Usage amount must be positive';
+  END IF;
+
+  SELECT cs.* INTO v_cs
+  FROM client_services cs
+  JOIN services s ON s.id = cs.service_id
+  WHERE cs.client_id = p_client_id AND s.slug = p_service_slug
+  FOR UPDATE OF cs;
+
+  IF NOT FOUND OR NOT COALESCE(v_cs.is_active, false) THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'This service is not active for your account');
+  END IF;
+
+  IF v_cs.expires_at IS NOT NULL AND v_cs.expires_at < NOW() THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'Your subscription to this service has expired');
+  END IF;
+
+  -- Prepaid clients whose balance ran out are paused until they top up
+  IF EXISTS (
+    SELECT 1 FROM client_wallets w
+    WHERE w.client_id = p_client_id AND w.billing_mode = 'prepaid'
+      AND w.zero_balance_policy = 'pause' AND w.balance <= 0
+  ) THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'Your prepaid balance is used up. Top up your wallet to continue.');
+  END IF;
+
+  WITH expired AS (
+    UPDATE usage_reservations
+    SET status = 'expired', settled_at = NOW()
+    WHERE client_service_id = v_cs.id AND status = 'held' AND expires_at <= NOW()
+    RETURNING amount
+  )
+  SELECT COALESCE(SUM(amount), 0) INTO v_expired FROM expired;
+
+  v_reserved := GREATEST(v_cs.usage_reserved - v_expired, 0);
+  v_committed := COALESCE(v_cs.usage_consumed, 0) + v_reserved;
+
+  SELECT overage_policy INTO v_policy FROM service_plans WHERE id = v_cs.plan_id;
+  v_policy := COALESCE(v_policy, 'block');
+
+  -- A limit of 0 means the service is unmetered
+  IF v_cs.usage_limit > 0 AND v_committed + p_amount > v_cs.usage_limit THEN
+    IF v_policy = 'block' THEN
+      IF v_expired > 0 THEN
+        UPDATE client_services SET usage_reserved = v_reserved WHERE id = v_cs.id;
+      END IF;
+      RETURN jsonb_build_object(
+        'allowed', false,
+        'policy', v_policy,
+        'reason', format('Usage limit reached (%s/%s). Service resumes when your limit resets or is raised.',
+          COALESCE(v_cs.usage_consumed, 0), v_cs.usage_limit)
+      );
+    END IF;
+    v_overage := LEAST(p_amount, v_committed + p_amount - v_cs.usage_limit);
+  END IF;
+
+  INSERT INTO usage_reservations (
+    client_service_id, client_id, service_id, amount, source, reference_id, expires_at
+  )
+  VALUES (
+    v_cs.id, p_client_id, v_cs.service_id, p_amount, p_source, p_reference_id,
+    NOW() + make_interval(secs => GREATEST(p_hold_seconds, 60))
+  )
+  RETURNING id INTO v_reservation_id;
+
+  UPDATE client_services SET usage_reserved = v_reserved + p_amount WHERE id = v_cs.id;
+
+  RETURN jsonb_build_object(
+    'allowed', true,
+    'reservation_id', v_reservation_id,
+    'policy', v_policy,
+    'overage_units', v_overage
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 6. Usage already paid from a wallet is left off month-end invoices
+CREATE OR REPLACE FUNCTION public.generate_period_invoices(p_period_start DATE DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_start DATE := date_trunc('month', COALESCE(p_period_start, (NOW() - INTERVAL '1 month')::DATE))::DATE;
+  v_end DATE;
+  v_scope_admin UUID;
+  v_client RECORD;
+  v_invoice invoices%ROWTYPE;
+  v_subtotal NUMERIC;
+  v_is_new BOOLEAN;
+  v_count INTEGER := 0;
+  v_created_for UUID[] := '{}';
+  v_direct_created INTEGER := 0;
+BEGIN
+  v_end := (v_start + INTERVAL '1 month')::DATE;
+
+  IF auth.uid() IS NOT NULL AND NOT public.is_super_admin() THEN
+    v_scope_admin := public.get_admin_id_for_user();
+    IF v_scope_admin IS NULL THEN
+      RAISE EXCEPTION 'Not authorized to run billing';
+    END IF;
+  END IF;
+
+  IF v_end > CURRENT_DATE THEN
+    RAISE EXCEPTION 'The billing period % has not ended yet', to_char(v_start, 'FMMonth YYYY');
+  END IF;
+
+  FOR v_client IN
+    SELECT c.id, c.admin_id FROM clients c
+    WHERE (v_scope_admin IS NULL OR c.admin_id = v_scope_admin)
+      AND (
+        EXISTS (SELECT 1 FROM usage_tracking ut
+                WHERE ut.client_id = c.id AND ut.recorded_at >= v_start AND ut.recorded_at < v_end)
+        OR EXISTS (SELECT 1 FROM client_services cs JOIN service_plans sp ON sp.id = cs.plan_id
+                   WHERE cs.client_id = c.id AND cs.is_active AND COALESCE(sp.monthly_price, 0) > 0
+                     AND cs.assigned_at < v_end)
+      )
+  LOOP
+    SELECT * INTO v_invoice FROM invoices
+    WHERE client_id = v_client.id AND billing_period_start = v_start AND is_auto_generated
+    FOR UPDATE;
+
+    v_is_new := false;
+    IF FOUND THEN
+      -- Reviewed invoices are final; only drafts are rebuilt
+      CONTINUE WHEN v_invoice.status IS DISTINCT FROM 'draft';
+      DELETE FROM invoice_items WHERE invoice_id = v_invoice.id;
+    ELSE
+      INSERT INTO invoices (
+        admin_id, client_id, invoice_number, invoice_date, due_date, subtotal, tax_amount, total_amount,
+        status, notes, billing_period_start, billing_period_end, is_auto_generated
+      )
+      VALUES (
+        v_client.admin_id, v_client.id,
+        'AUTO-' || to_char(v_start, 'YYYYMM') || '-' || upper(substr(replace(v_client.id::TEXT, '-', ''), 1, 8)),
+        CURRENT_DATE, CURRENT_DATE + 30, 0, 0, 0, 'draft',
+        format('Usage for %s', to_char(v_start, 'FMMonth YYYY')),
+        v_start, (v_end - 1), true
+      )
+      RETURNING * INTO v_invoice;
+      v_is_new := true;
+    END IF;
+
+    WITH usage AS (
+      SELECT ut.service_id, SUM(COALESCE(ut.quantity, 1))::INTEGER AS qty
+      FROM usage_tracking ut
+      WHERE ut.client_id = v_client.id AND ut.service_id IS NOT NULL
+        AND ut.recorded_at >= v_start AND ut.recorded_at < v_end
+        AND NOT EXISTS (SELECT 1 FROM wallet_transactions wt WHERE wt.usage_tracking_id = ut.id)
+      GROUP BY ut.service_id
+    ),
+    overage AS (
+      SELECT r.service_id, SUM(r.overage_units)::INTEGER AS qty
+      FROM usage_reservations r
+      WHERE r.client_id = v_client.id AND r.status = 'committed' AND r.overage_units > 0
+        AND r.settled_at >= v_start AND r.settled_at < v_end
+        AND NOT EXISTS (
+          SELECT 1 FROM usage_tracking ut JOIN wallet_transactions wt ON wt.usage_tracking_id = ut.id
+          WHERE ut.client_id = v_client.id AND ut.metadata ->> 'reservation_id' = r.id::TEXT
+        )
+      GROUP BY r.service_id
+    ),
+    lines AS (
+      SELECT u.service_id, s.name || ' usage' AS description, 'usage' AS line_type,
+        GREATEST(u.qty - COALESCE(o.qty, 0), 0) AS quantity,
+        public.client_unit_price(v_client.id, u.service_id) AS unit_price
+      FROM usage u
+      JOIN services s ON s.id = u.service_id
+      LEFT JOIN overage o ON o.service_id = u.service_id
+      UNION ALL
+      SELECT o.service_id, s.name || ' overage', 'overage', o.qty,
+        COALESCE(
+          ROUND(sp.overage_price_per_unit * (1 + COALESCE(ap.markup_percentage, 0) / 100), 2),
+          public.client_unit_price(v_client.id, o.service_id)
+        )
+      FROM overage o
+      JOIN services s ON s.id = o.service_id
+      LEFT JOIN client_services cs ON cs.client_id = v_client.id AND cs.service_id = o.service_id
+      LEFT JOIN service_plans sp ON sp.id = cs.plan_id
+      LEFT JOIN admin_pricing ap ON ap.admin_id = v_client.admin_id AND ap.service_id = o.service_id
+      UNION ALL
+      SELECT cs.service_id, format('%s plan — %s', sp.plan_name, to_char(v_start, 'FMMonth YYYY')), 'plan_fee', 1,
+        ROUND(sp.monthly_price, 2)
+      FROM client_services cs
+      JOIN service_plans sp ON sp.id = cs.plan_id
+      WHERE cs.client_id = v_client.id AND cs.is_active AND COALESCE(sp.monthly_price, 0) > 0
+        AND cs.assigned_at < v_end
+    )
+    INSERT INTO invoice_items (invoice_id, service_id, description, quantity, unit_price, total_price, line_type)
+    SELECT v_invoice.id, service_id, description, quantity, unit_price, ROUND(quantity * unit_price, 2), line_type
+    FROM lines
+    WHERE quantity > 0;
+
+    -- Nothing left to bill, e.g. a prepaid client whose usage came out of
+    -- their wallet
+    IF NOT EXISTS (SELECT 1 FROM invoice_items WHERE invoice_id = v_invoice.id) THEN
+      DELETE FROM invoices WHERE id = v_invoice.id;
+      CONTINUE;
+    END IF;
+
+    IF v_is_new AND v_client.admin_id IS NULL THEN
+      v_direct_created := v_direct_created + 1;
+    ELSIF v_is_new THEN
+      v_created_for := v_created_for || v_client.admin_id;
+    END IF;
+
+    SELECT COALESCE(SUM(total_price), 0) INTO v_subtotal FROM invoice_items WHERE invoice_id = v_invoice.id;
+
+    UPDATE invoices
+    SET subtotal = v_subtotal, total_amount = v_subtotal + COALESCE(tax_amount, 0)
+    WHERE id = v_invoice.id;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  -- Admins review new drafts before they go out; direct clients are billed
+  -- by the platform
+  INSERT INTO notifications (user_id, title, message, type, action_url)
+  SELECT a.user_id, 'Invoices Ready for Review',
+    format('%s draft invoice%s for %s %s ready to review and send.', g.n,
+      CASE WHEN g.n = 1 THEN '' ELSE 's' END, to_char(v_start, 'FMMonth YYYY'),
+      CASE WHEN g.n = 1 THEN 'is' ELSE 'are' END),
+    'info', '/admin/billing'
+  FROM (SELECT admin_id, COUNT(*) AS n FROM unnest(v_created_for) AS admin_id GROUP BY admin_id) g
+  JOIN admins a ON a.id = g.admin_id;
+
+  IF v_direct_created > 0 THEN
+    INSERT INTO notifications (user_id, title, message, type, action_url)
+    SELECT user_id, 'Invoices Ready for Review',
+      format('%s draft invoice(s) for direct clients for %s are ready to review.', v_direct_created, to_char(v_start, 'FMMonth YYYY')),
+      'info', '/super-admin/clients'
+    FROM user_roles WHERE role = 'super_admin';
+  END IF;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 7. Client top-ups go through the payment gateway as an invoice for the
+-- amount. Paying it credits the wallet; a refund that takes it back out of
+-- paid debits the same amount again.
+ALTER TABLE public.invoices ADD COLUMN IF NOT EXISTS wallet_top_up BOOLEAN NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION public.create_wallet_top_up(p_amount NUMERIC)
+RETURNS UUID AS $$
+DECLARE
+  v_client clients%ROWTYPE;
+  v_invoice_id UUID;
+BEGIN
+  SELECT * INTO v_client FROM clients WHERE user_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only clients can top up a wallet';
+  END IF;
+  IF p_amount IS NULL OR p_amount < 1 THEN
+    RAISE EXCEPTION 'Top-ups must be at least ₹1';
+  END IF;
+
+  INSERT INTO invoices (
+    admin_id, client_id, invoice_number, invoice_date, due_date, subtotal, tax_amount, total_amount,
+    status, notes, wallet_top_up
+  )
+  VALUES (
+    v_client.admin_id, v_client.id,
+    'TOPUP-' || to_char(NOW(), 'YYYYMMDDHH24MISS') || '-' || upper(substr(replace(v_client.id::TEXT, '-', ''), 1, 8)),
+    CURRENT_DATE, CURRENT_DATE + 7, 0, 0, 0, 'draft', 'Prepaid wallet top-up', true
+  )
+  RETURNING id INTO v_invoice_id;
+
+  INSERT INTO invoice_items (invoice_id, description, quantity, unit_price, total_price)
+  VALUES (v_invoice_id, 'Wallet top-up', 1, ROUND(p_amount, 2), ROUND(p_amount, 2));
+
+  -- Sending issues the invoice number and makes it payable
+  UPDATE invoices SET status = 'sent' WHERE id = v_invoice_id;
+
+  RETURN v_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.create_wallet_top_up(NUMERIC) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_wallet_top_up(NUMERIC) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.credit_wallet_for_top_up()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'paid' AND OLD.status IS DISTINCT FROM 'paid' THEN
+    PERFORM public.post_wallet_transaction(NEW.client_id, 'top_up', NEW.subtotal,
+      'Top-up paid', NEW.invoice_number);
+  ELSIF OLD.status = 'paid' AND NEW.status IS DISTINCT FROM 'paid' THEN
+    PERFORM public.post_wallet_transaction(NEW.client_id, 'refund', -NEW.subtotal,
+      'Top-up refunded', NEW.invoice_number);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS tr_credit_wallet_for_top_up ON public.invoices;
+CREATE TRIGGER tr_credit_wallet_for_top_up
+  AFTER UPDATE OF status ON public.invoices
+  FOR EACH ROW WHEN (NEW.wallet_top_up)
+  EXECUTE FUNCTION public.credit_wallet_for_top_up();
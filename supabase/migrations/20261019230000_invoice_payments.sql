@@ -0,0 +1,151 @@
+-- Online invoice payments: hosted checkout links for sent invoices and a
+-- provider-agnostic payment log fed by the payment-webhook edge function
+
+-- 1. Pay link and running totals on the invoice
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS payment_link_url TEXT,
+  ADD COLUMN IF NOT EXISTS payment_provider TEXT,
+  ADD COLUMN IF NOT EXISTS payment_link_reference TEXT,
+  -- The amount the link charges and when it stops working; a link for a
+  -- different outstanding amount or past its expiry is replaced
+  ADD COLUMN IF NOT EXISTS payment_link_amount NUMERIC(12,2),
+  ADD COLUMN IF NOT EXISTS payment_link_expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS amount_paid NUMERIC(12,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS amount_refunded NUMERIC(12,2) NOT NULL DEFAULT 0;
+
+-- 2. Every payment and refund the gateway reports, once per provider
+-- transaction id so webhook retries are harmless
+CREATE TABLE IF NOT EXISTS public.invoice_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('payment', 'refund')),
+  transaction_id TEXT NOT NULL,
+  payment_id TEXT,
+  amount NUMERIC(12,2) NOT NULL CHECK (amount >= 0),
+  currency TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (provider, transaction_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_invoice ON public.invoice_payments(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_payment ON public.invoice_payments(provider, payment_id);
+
+ALTER TABLE public.invoice_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins view invoice payments" ON public.invoice_payments
+  FOR SELECT TO authenticated USING (public.is_super_admin());
+CREATE POLICY "Admins view their invoice payments" ON public.invoice_payments
+  FOR SELECT TO authenticated
+  USING (invoice_id IN (SELECT id FROM public.invoices WHERE admin_id = public.get_admin_id_for_user()));
+CREATE POLICY "Clients view own invoice payments" ON public.invoice_payments
+  FOR SELECT TO authenticated
+  USING (invoice_id IN (
+    SELECT id FROM public.invoices WHERE client_id = (SELECT id FROM public.clients WHERE user_id = auth.uid())
+  ));
+
+-- 3. Apply a gateway event. Refunds usually only carry the original payment
+-- id, which finds the invoice. An invoice is paid once payments net of
+-- refunds cover its total, and drops back to sent/overdue when a refund
+-- takes it under. Returns what happened for the webhook's response.
+CREATE OR REPLACE FUNCTION public.record_invoice_payment(
+  p_provider TEXT,
+  p_kind TEXT,
+  p_transaction_id TEXT,
+  p_payment_id TEXT,
+  p_invoice_id UUID,
+  p_amount NUMERIC,
+  p_currency TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_invoice_id UUID := p_invoice_id;
+  v_inv invoices%ROWTYPE;
+  v_paid NUMERIC;
+  v_refunded NUMERIC;
+  v_net NUMERIC;
+  v_status invoice_status;
+  v_client_user UUID;
+  v_title TEXT;
+  v_message TEXT;
+  v_type notification_type := 'success';
+BEGIN
+  IF v_invoice_id IS NULL THEN
+    SELECT invoice_id INTO v_invoice_id
+    FROM invoice_payments
+    WHERE provider = p_provider AND payment_id = p_payment_id AND kind = 'payment'
+    LIMIT 1;
+  END IF;
+
+  SELECT * INTO v_inv FROM invoices WHERE id = v_invoice_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ignored', true, 'reason', 'No invoice for this payment');
+  END IF;
+
+  INSERT INTO invoice_payments (invoice_id, provider, kind, transaction_id, payment_id, amount, currency)
+  VALUES (v_inv.id, p_provider, p_kind, p_transaction_id, p_payment_id, p_amount, p_currency)
+  ON CONFLICT (provider, transaction_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('duplicate', true, 'invoice_id', v_inv.id, 'status', v_inv.status);
+  END IF;
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE kind = 'payment'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE kind = 'refund'), 0)
+  INTO v_paid, v_refunded
+  FROM invoice_payments WHERE invoice_id = v_inv.id;
+
+  v_net := v_paid - v_refunded;
+  v_status := v_inv.status;
+
+  IF v_net >= v_inv.total_amount AND v_inv.status IS DISTINCT FROM 'cancelled' THEN
+    v_status := 'paid';
+  ELSIF v_inv.status = 'paid' THEN
+    v_status := CASE WHEN v_inv.due_date < CURRENT_DATE THEN 'overdue' ELSE 'sent' END;
+  END IF;
+
+  UPDATE invoices
+  SET amount_paid = v_paid,
+      amount_refunded = v_refunded,
+      status = v_status,
+      paid_at = CASE WHEN v_status = 'paid' THEN COALESCE(paid_at, NOW()) ELSE NULL END,
+      payment_method = CASE WHEN v_status = 'paid' THEN p_provider ELSE payment_method END
+  WHERE id = v_inv.id;
+
+  IF p_kind = 'refund' THEN
+    v_title := 'Refund Issued';
+    v_message := format('₹%s was refunded on invoice %s.', p_amount, v_inv.invoice_number);
+    v_type := 'info';
+  ELSIF v_status = 'paid' THEN
+    v_title := 'Payment Received';
+    v_message := format('Invoice %s has been paid in full (₹%s).', v_inv.invoice_number, v_net);
+  ELSE
+    v_title := 'Partial Payment Received';
+    v_message := format('₹%s received for invoice %s; ₹%s is still outstanding.',
+      p_amount, v_inv.invoice_number, GREATEST(v_inv.total_amount - v_net, 0));
+  END IF;
+
+  SELECT user_id INTO v_client_user FROM clients WHERE id = v_inv.client_id;
+  IF v_client_user IS NOT NULL THEN
+    INSERT INTO notifications (user_id, title, message, type, action_url)
+    VALUES (v_client_user, v_title, v_message, v_type, '/client/usage');
+  END IF;
+
+  IF v_inv.admin_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, title, message, type, action_url)
+    SELECT a.user_id, v_title, v_message, v_type, '/admin/billing'
+    FROM admins a WHERE a.id = v_inv.admin_id;
+  ELSE
+    INSERT INTO notifications (user_id, title, message, type, action_url)
+    SELECT user_id, v_title, v_message, v_type, '/super-admin/clients/' || v_inv.client_id
+    FROM user_roles WHERE role = 'super_admin';
+  END IF;
+
+  RETURN jsonb_build_object('duplicate', false, 'invoice_id', v_inv.id, 'status', v_status, 'amount_outstanding',
+    GREATEST(v_inv.total_amount - v_net, 0));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.record_invoice_payment(TEXT, TEXT, TEXT, TEXT, UUID, NUMERIC, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_invoice_payment(TEXT, TEXT, TEXT, TEXT, UUID, NUMERIC, TEXT) TO service_role;
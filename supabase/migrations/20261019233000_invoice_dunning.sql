@@ -0,0 +1,381 @@
+-- Dunning: unpaid invoices past their due date are moved to overdue, the
+-- client is reminded at configurable offsets, and after a grace period their
+-- services can be suspended until the invoice is paid. Driven daily by the
+-- invoice-dunning edge function (callable via pg_cron), which also emails
+-- each step.
+
+-- 1. Per-client schedule; clients without a row use the column defaults
+CREATE TABLE IF NOT EXISTS public.dunning_settings (
+  client_id UUID PRIMARY KEY REFERENCES public.clients(id) ON DELETE CASCADE,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  -- Days after the due date to send a reminder
+  reminder_offsets INTEGER[] NOT NULL DEFAULT '{3,7,14}',
+  -- Days after the due date before services are suspended
+  grace_days INTEGER NOT NULL DEFAULT 21 CHECK (grace_days >= 0),
+  suspend_services BOOLEAN NOT NULL DEFAULT false,
+  email_reminders BOOLEAN NOT NULL DEFAULT true,
+  updated_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- 2. Each step taken on an invoice, once. email_status is picked up by the
+-- edge function after the run.
+CREATE TABLE IF NOT EXISTS public.invoice_dunning_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  step TEXT NOT NULL CHECK (step IN ('overdue', 'reminder', 'suspended', 'restored')),
+  offset_days INTEGER NOT NULL DEFAULT 0,
+  email_status TEXT NOT NULL DEFAULT 'pending' CHECK (email_status IN ('pending', 'sent', 'failed', 'skipped')),
+  email_error TEXT,
+  emailed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (invoice_id, step, offset_days)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_dunning_steps_client ON public.invoice_dunning_steps(client_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_invoice_dunning_steps_pending ON public.invoice_dunning_steps(created_at)
+  WHERE email_status = 'pending';
+
+-- 3. What a suspension switched off, so payment restores exactly that and
+-- not services or campaigns someone turned off by hand
+CREATE TABLE IF NOT EXISTS public.dunning_suspensions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL,
+  client_service_ids UUID[] NOT NULL DEFAULT '{}',
+  campaign_ids UUID[] NOT NULL DEFAULT '{}',
+  suspended_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  restored_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dunning_suspensions_open
+  ON public.dunning_suspensions(client_id) WHERE restored_at IS NULL;
+
+ALTER TABLE public.dunning_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_dunning_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.dunning_suspensions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Billing managers view dunning settings" ON public.dunning_settings
+  FOR SELECT TO authenticated USING (public.can_manage_client_billing(client_id));
+
+CREATE POLICY "Billing managers view dunning steps" ON public.invoice_dunning_steps
+  FOR SELECT TO authenticated USING (public.can_manage_client_billing(client_id));
+CREATE POLICY "Clients view own dunning steps" ON public.invoice_dunning_steps
+  FOR SELECT TO authenticated
+  USING (client_id = (SELECT id FROM public.clients WHERE user_id = auth.uid()));
+
+CREATE POLICY "Billing managers view dunning suspensions" ON public.dunning_suspensions
+  FOR SELECT TO authenticated USING (public.can_manage_client_billing(client_id));
+CREATE POLICY "Clients view own dunning suspensions" ON public.dunning_suspensions
+  FOR SELECT TO authenticated
+  USING (client_id = (SELECT id FROM public.clients WHERE user_id = auth.uid()));
+
+-- 4. Records a step once and mirrors it to audit_logs. Returns NULL when the
+-- step was already taken.
+CREATE OR REPLACE FUNCTION public.log_dunning_step(
+  p_invoice_id UUID,
+  p_client_id UUID,
+  p_step TEXT,
+  p_offset_days INTEGER,
+  p_email BOOLEAN,
+  p_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  INSERT INTO invoice_dunning_steps (invoice_id, client_id, step, offset_days, email_status)
+  VALUES (p_invoice_id, p_client_id, p_step, p_offset_days, CASE WHEN p_email THEN 'pending' ELSE 'skipped' END)
+  ON CONFLICT (invoice_id, step, offset_days) DO NOTHING
+  RETURNING id INTO v_id;
+
+  IF v_id IS NOT NULL THEN
+    INSERT INTO audit_logs (user_id, action, entity_type, entity_id, new_values)
+    VALUES (auth.uid(), 'dunning_' || p_step, 'invoice', p_invoice_id,
+      jsonb_build_object('client_id', p_client_id, 'offset_days', p_offset_days) || p_details);
+  END IF;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 5. Lifts a client's open suspension: reactivates the services and resumes
+-- the campaigns it switched off, unless a prepaid wallet on the pause
+-- policy is empty, in which case the campaigns wait for a top-up
+CREATE OR REPLACE FUNCTION public.restore_dunning_suspension(p_client_id UUID, p_reason TEXT DEFAULT 'payment')
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_susp dunning_suspensions%ROWTYPE;
+  v_client clients%ROWTYPE;
+  v_wallet_empty BOOLEAN;
+BEGIN
+  SELECT * INTO v_susp FROM dunning_suspensions
+  WHERE client_id = p_client_id AND restored_at IS NULL
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE client_services SET is_active = true, updated_at = NOW()
+  WHERE id = ANY(v_susp.client_service_ids) AND is_active = false;
+
+  v_wallet_empty := EXISTS (
+    SELECT 1 FROM client_wallets
+    WHERE client_id = p_client_id AND billing_mode = 'prepaid' AND zero_balance_policy = 'pause' AND balance <= 0
+  );
+
+  IF NOT v_wallet_empty THEN
+    UPDATE voice_campaigns SET status = 'running', updated_at = NOW()
+    WHERE id = ANY(v_susp.campaign_ids) AND status = 'paused';
+  END IF;
+
+  UPDATE dunning_suspensions SET restored_at = NOW() WHERE id = v_susp.id;
+
+  IF v_susp.invoice_id IS NOT NULL THEN
+    PERFORM public.log_dunning_step(v_susp.invoice_id, p_client_id, 'restored', 0,
+      COALESCE((SELECT email_reminders FROM dunning_settings WHERE client_id = p_client_id), true),
+      jsonb_build_object('reason', p_reason, 'client_service_ids', to_jsonb(v_susp.client_service_ids),
+        'campaign_ids', to_jsonb(v_susp.campaign_ids), 'campaigns_resumed', NOT v_wallet_empty));
+  END IF;
+
+  SELECT * INTO v_client FROM clients WHERE id = p_client_id;
+
+  INSERT INTO notifications (user_id, title, message, type, action_url)
+  VALUES (v_client.user_id, 'Services Restored',
+    CASE WHEN v_wallet_empty
+      THEN 'Thank you. Your services have been reactivated; paused campaigns resume once you top up your prepaid wallet.'
+      ELSE 'Thank you. Your services have been reactivated and paused campaigns have resumed.'
+    END,
+    'success', '/client/usage');
+
+  INSERT INTO notifications (user_id, title, message, type, action_url)
+  SELECT a.user_id, 'Client Services Restored',
+    format('%s''s services were reactivated after their overdue invoice was settled.', v_client.company_name),
+    'info', '/admin/clients/' || p_client_id
+  FROM admins a WHERE a.id = v_client.admin_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.log_dunning_step(UUID, UUID, TEXT, INTEGER, BOOLEAN, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.restore_dunning_suspension(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.log_dunning_step(UUID, UUID, TEXT, INTEGER, BOOLEAN, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION public.restore_dunning_suspension(UUID, TEXT) TO service_role;
+
+-- 6. The daily run. Moving past-due invoices to overdue happens for every
+-- client; reminders and suspension follow the client's schedule. Of the
+-- reminder offsets already reached only the latest is sent, so a missed run
+-- does not send a burst of reminders.
+CREATE OR REPLACE FUNCTION public.run_dunning(p_today DATE DEFAULT CURRENT_DATE)
+RETURNS JSONB AS $$
+DECLARE
+  v_inv RECORD;
+  v_days INTEGER;
+  v_offset INTEGER;
+  v_outstanding NUMERIC;
+  v_details JSONB;
+  v_service_ids UUID[];
+  v_campaign_ids UUID[];
+  v_overdue INTEGER := 0;
+  v_reminders INTEGER := 0;
+  v_suspended INTEGER := 0;
+BEGIN
+  FOR v_inv IN
+    SELECT i.id, i.invoice_number, i.client_id, i.admin_id, i.status, i.due_date,
+      i.total_amount - COALESCE(i.amount_paid, 0) + COALESCE(i.amount_refunded, 0) AS outstanding,
+      c.user_id AS client_user_id, c.company_name,
+      COALESCE(d.enabled, true) AS enabled,
+      COALESCE(d.reminder_offsets, '{3,7,14}'::INTEGER[]) AS reminder_offsets,
+      COALESCE(d.grace_days, 21) AS grace_days,
+      COALESCE(d.suspend_services, false) AS suspend_services,
+      COALESCE(d.email_reminders, true) AS email_reminders
+    FROM invoices i
+    JOIN clients c ON c.id = i.client_id
+    LEFT JOIN dunning_settings d ON d.client_id = i.client_id
+    WHERE i.status IN ('sent', 'overdue')
+      AND NOT i.wallet_top_up
+      AND i.due_date < p_today
+      AND i.total_amount - COALESCE(i.amount_paid, 0) + COALESCE(i.amount_refunded, 0) > 0
+    ORDER BY i.due_date
+  LOOP
+    v_days := p_today - v_inv.due_date;
+    v_outstanding := ROUND(v_inv.outstanding, 2);
+    v_details := jsonb_build_object('days_overdue', v_days, 'outstanding', v_outstanding);
+
+    IF v_inv.status = 'sent' THEN
+      UPDATE invoices SET status = 'overdue' WHERE id = v_inv.id;
+      v_overdue := v_overdue + 1;
+
+      IF public.log_dunning_step(v_inv.id, v_inv.client_id, 'overdue', 0,
+           v_inv.enabled AND v_inv.email_reminders, v_details) IS NOT NULL THEN
+        INSERT INTO notifications (user_id, title, message, type, action_url)
+        VALUES (v_inv.client_user_id, 'Invoice Overdue',
+          format('Invoice %s (₹%s) was due on %s and is now overdue.', v_inv.invoice_number, v_outstanding,
+            to_char(v_inv.due_date, 'DD Mon YYYY')),
+          'warning', '/client/usage');
+
+        INSERT INTO notifications (user_id, title, message, type, action_url)
+        SELECT a.user_id, 'Invoice Overdue',
+          format('%s has not paid invoice %s (₹%s).', v_inv.company_name, v_inv.invoice_number, v_outstanding),
+          'warning', '/admin/billing'
+        FROM admins a WHERE a.id = v_inv.admin_id;
+      END IF;
+    END IF;
+
+    CONTINUE WHEN NOT v_inv.enabled;
+
+    SELECT MAX(o) INTO v_offset FROM unnest(v_inv.reminder_offsets) AS o WHERE o > 0 AND o <= v_days;
+
+    IF v_offset IS NOT NULL
+       AND NOT EXISTS (
+         SELECT 1 FROM invoice_dunning_steps
+         WHERE invoice_id = v_inv.id AND step = 'reminder' AND offset_days >= v_offset
+       )
+       AND public.log_dunning_step(v_inv.id, v_inv.client_id, 'reminder', v_offset,
+             v_inv.email_reminders, v_details) IS NOT NULL THEN
+      v_reminders := v_reminders + 1;
+
+      IF public.notification_enabled('dunning_reminders') THEN
+        INSERT INTO notifications (user_id, title, message, type, action_url)
+        VALUES (v_inv.client_user_id, 'Payment Reminder',
+          format('Invoice %s is %s days overdue. ₹%s is outstanding.%s', v_inv.invoice_number, v_days, v_outstanding,
+            CASE WHEN v_inv.suspend_services AND v_days < v_inv.grace_days
+              THEN format(' Services will be suspended in %s days if it remains unpaid.', v_inv.grace_days - v_days)
+              ELSE '' END),
+          'warning', '/client/usage');
+      END IF;
+    END IF;
+
+    IF v_inv.suspend_services AND v_days >= v_inv.grace_days
+       AND NOT EXISTS (SELECT 1 FROM dunning_suspensions WHERE client_id = v_inv.client_id AND restored_at IS NULL) THEN
+      WITH s AS (
+        UPDATE client_services SET is_active = false, updated_at = NOW()
+        WHERE client_id = v_inv.client_id AND is_active = true
+        RETURNING id
+      )
+      SELECT COALESCE(array_agg(id), '{}') INTO v_service_ids FROM s;
+
+      WITH c AS (
+        UPDATE voice_campaigns SET status = 'paused', updated_at = NOW()
+        WHERE client_id = v_inv.client_id AND status = 'running'
+        RETURNING id
+      )
+      SELECT COALESCE(array_agg(id), '{}') INTO v_campaign_ids FROM c;
+
+      INSERT INTO dunning_suspensions (client_id, invoice_id, client_service_ids, campaign_ids)
+      VALUES (v_inv.client_id, v_inv.id, v_service_ids, v_campaign_ids);
+
+      PERFORM public.log_dunning_step(v_inv.id, v_inv.client_id, 'suspended', v_days, v_inv.email_reminders,
+        v_details || jsonb_build_object('client_service_ids', to_jsonb(v_service_ids), 'campaign_ids', to_jsonb(v_campaign_ids)));
+      v_suspended := v_suspended + 1;
+
+      INSERT INTO notifications (user_id, title, message, type, action_url)
+      VALUES (v_inv.client_user_id, 'Services Suspended',
+        format('Your services are suspended because invoice %s (₹%s) is %s days overdue. Pay it to restore them automatically.',
+          v_inv.invoice_number, v_outstanding, v_days),
+        'error', '/client/usage');
+
+      INSERT INTO notifications (user_id, title, message, type, action_url)
+      SELECT a.user_id, 'Client Services Suspended',
+        format('%s''s services were suspended for unpaid invoice %s.', v_inv.company_name, v_inv.invoice_number),
+        'warning', '/admin/clients/' || v_inv.client_id
+      FROM admins a WHERE a.id = v_inv.admin_id;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('overdue', v_overdue, 'reminders', v_reminders, 'suspended', v_suspended);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.run_dunning(DATE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.run_dunning(DATE) TO service_role;
+
+-- 7. Settling the invoice (online, marked paid by the admin, or cancelled)
+-- restores a suspension once no other invoice is past its grace period
+CREATE OR REPLACE FUNCTION public.restore_dunning_on_settlement()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IN ('paid', 'cancelled')
+     AND OLD.status IS DISTINCT FROM NEW.status
+     AND EXISTS (SELECT 1 FROM dunning_suspensions WHERE client_id = NEW.client_id AND restored_at IS NULL)
+     AND NOT EXISTS (
+       SELECT 1
+       FROM invoices i
+       LEFT JOIN dunning_settings d ON d.client_id = i.client_id
+       WHERE i.client_id = NEW.client_id
+         AND i.id <> NEW.id
+         AND i.status IN ('sent', 'overdue')
+         AND NOT i.wallet_top_up
+         AND i.due_date <= CURRENT_DATE - COALESCE(d.grace_days, 21)
+         AND i.total_amount - COALESCE(i.amount_paid, 0) + COALESCE(i.amount_refunded, 0) > 0
+     ) THEN
+    PERFORM public.restore_dunning_suspension(NEW.client_id, NEW.status::TEXT);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS tr_restore_dunning_on_settlement ON public.invoices;
+CREATE TRIGGER tr_restore_dunning_on_settlement
+  AFTER UPDATE OF status ON public.invoices
+  FOR EACH ROW EXECUTE FUNCTION public.restore_dunning_on_settlement();
+
+-- 8. Admins set the schedule per client. Turning suspension off lifts an
+-- open suspension straight away.
+CREATE OR REPLACE FUNCTION public.update_dunning_settings(
+  p_client_id UUID,
+  p_enabled BOOLEAN,
+  p_reminder_offsets INTEGER[],
+  p_grace_days INTEGER,
+  p_suspend_services BOOLEAN,
+  p_email_reminders BOOLEAN
+)
+RETURNS VOID AS $$
+DECLARE
+  v_old dunning_settings%ROWTYPE;
+  v_offsets INTEGER[];
+BEGIN
+  IF NOT public.can_manage_client_billing(p_client_id) THEN
+    RAISE EXCEPTION 'Not authorized to change billing for this client';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(p_reminder_offsets) o WHERE o IS NULL OR o <= 0) THEN
+    RAISE EXCEPTION 'Reminder offsets must be positive numbers of days';
+  END IF;
+  IF p_grace_days IS NULL OR p_grace_days < 0 THEN
+    RAISE EXCEPTION 'Grace period cannot be negative';
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT o ORDER BY o), '{}') INTO v_offsets FROM unnest(p_reminder_offsets) o;
+
+  INSERT INTO dunning_settings (client_id) VALUES (p_client_id) ON CONFLICT (client_id) DO NOTHING;
+  SELECT * INTO v_old FROM dunning_settings WHERE client_id = p_client_id FOR UPDATE;
+
+  UPDATE dunning_settings
+  SET enabled = p_enabled,
+      reminder_offsets = v_offsets,
+      grace_days = p_grace_days,
+      suspend_services = p_suspend_services,
+      email_reminders = p_email_reminders,
+      updated_by = auth.uid(),
+      updated_at = NOW()
+  WHERE client_id = p_client_id;
+
+  INSERT INTO audit_logs (user_id, action, entity_type, entity_id, old_values, new_values)
+  VALUES (auth.uid(), 'dunning_settings_updated', 'client', p_client_id,
+    jsonb_build_object('enabled', v_old.enabled, 'reminder_offsets', to_jsonb(v_old.reminder_offsets),
+      'grace_days', v_old.grace_days, 'suspend_services', v_old.suspend_services, 'email_reminders', v_old.email_reminders),
+    jsonb_build_object('enabled', p_enabled, 'reminder_offsets', to_jsonb(v_offsets),
+      'grace_days', p_grace_days, 'suspend_services', p_suspend_services, 'email_reminders', p_email_reminders));
+
+  IF NOT (p_enabled AND p_suspend_services) THEN
+    PERFORM public.restore_dunning_suspension(p_client_id, 'settings');
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.update_dunning_settings(UUID, BOOLEAN, INTEGER[], INTEGER, BOOLEAN, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_dunning_settings(UUID, BOOLEAN, INTEGER[], INTEGER, BOOLEAN, BOOLEAN) TO authenticated;
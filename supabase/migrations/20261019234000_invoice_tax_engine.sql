@@ -0,0 +1,340 @@
+-- Tax engine: each admin configures their tax registration and rates per
+-- service category, every invoice line gets its GST (CGST+SGST or IGST) or
+-- VAT computed from the two parties' locations, and issued invoices are
+-- numbered sequentially per admin with both parties' tax details frozen on
+-- them for the PDF. Direct clients (no admin) are invoiced by the platform,
+-- whose settings are kept under the nil UUID.
+
+-- 1. The admin's tax registration and invoice numbering. No row, or regime
+-- 'none', means invoices carry no tax.
+CREATE OR REPLACE FUNCTION public.tax_supplier_id(p_admin_id UUID)
+RETURNS UUID AS $$
+  SELECT COALESCE(p_admin_id, '00000000-0000-0000-0000-000000000000'::UUID);
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+CREATE TABLE IF NOT EXISTS public.admin_tax_settings (
+  -- tax_supplier_id(): the admin, or the nil UUID for the platform
+  admin_id UUID PRIMARY KEY,
+  tax_regime TEXT NOT NULL DEFAULT 'none' CHECK (tax_regime IN ('gst', 'vat', 'none')),
+  legal_name TEXT,
+  -- GSTIN or VAT registration number
+  tax_id TEXT,
+  country_code CHAR(2) NOT NULL DEFAULT 'IN',
+  -- Two-digit GST state code, e.g. 27 for Maharashtra
+  state_code TEXT,
+  address TEXT,
+  default_tax_rate NUMERIC(5,2) NOT NULL DEFAULT 18 CHECK (default_tax_rate >= 0),
+  -- SAC 998319: other information technology services
+  default_sac_code TEXT NOT NULL DEFAULT '998319',
+  invoice_prefix TEXT NOT NULL DEFAULT 'INV',
+  next_invoice_sequence INTEGER NOT NULL DEFAULT 1 CHECK (next_invoice_sequence > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.admin_tax_rates (
+  admin_id UUID NOT NULL REFERENCES public.admin_tax_settings(admin_id) ON DELETE CASCADE,
+  category service_category NOT NULL,
+  rate NUMERIC(5,2) NOT NULL CHECK (rate >= 0),
+  PRIMARY KEY (admin_id, category)
+);
+
+-- Not a foreign key because of the platform row, so deleting an admin
+-- removes their settings here
+CREATE OR REPLACE FUNCTION public.delete_admin_tax_settings()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM admin_tax_settings WHERE admin_id = OLD.id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS tr_delete_admin_tax_settings ON public.admins;
+CREATE TRIGGER tr_delete_admin_tax_settings
+  AFTER DELETE ON public.admins
+  FOR EACH ROW EXECUTE FUNCTION public.delete_admin_tax_settings();
+
+ALTER TABLE public.admin_tax_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.admin_tax_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins view tax settings" ON public.admin_tax_settings
+  FOR SELECT TO authenticated USING (public.is_super_admin());
+CREATE POLICY "Admins view own tax settings" ON public.admin_tax_settings
+  FOR SELECT TO authenticated USING (admin_id = public.get_admin_id_for_user());
+CREATE POLICY "Super admins view tax rates" ON public.admin_tax_rates
+  FOR SELECT TO authenticated USING (public.is_super_admin());
+CREATE POLICY "Admins view own tax rates" ON public.admin_tax_rates
+  FOR SELECT TO authenticated USING (admin_id = public.get_admin_id_for_user());
+
+-- 2. Tax details on services, clients, lines and invoices
+ALTER TABLE public.services
+  ADD COLUMN IF NOT EXISTS hsn_sac_code TEXT;
+
+ALTER TABLE public.clients
+  ADD COLUMN IF NOT EXISTS tax_id TEXT,
+  ADD COLUMN IF NOT EXISTS billing_country_code CHAR(2) NOT NULL DEFAULT 'IN',
+  ADD COLUMN IF NOT EXISTS billing_state_code TEXT,
+  ADD COLUMN IF NOT EXISTS billing_address TEXT;
+
+ALTER TABLE public.invoice_items
+  ADD COLUMN IF NOT EXISTS hsn_sac_code TEXT,
+  ADD COLUMN IF NOT EXISTS tax_treatment TEXT,
+  ADD COLUMN IF NOT EXISTS tax_rate NUMERIC(5,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cgst_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS sgst_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS igst_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS vat_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_amount NUMERIC(12,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS discount_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tax_treatment TEXT,
+  ADD COLUMN IF NOT EXISTS reverse_charge BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS invoice_sequence INTEGER,
+  ADD COLUMN IF NOT EXISTS place_of_supply TEXT,
+  ADD COLUMN IF NOT EXISTS supplier_legal_name TEXT,
+  ADD COLUMN IF NOT EXISTS supplier_tax_id TEXT,
+  ADD COLUMN IF NOT EXISTS supplier_address TEXT,
+  ADD COLUMN IF NOT EXISTS supplier_state_code TEXT,
+  ADD COLUMN IF NOT EXISTS customer_tax_id TEXT,
+  ADD COLUMN IF NOT EXISTS customer_address TEXT;
+
+-- Numbers are sequential per supplier, so they only need to be unique per
+-- supplier; direct clients' invoices share the platform's sequence
+ALTER TABLE public.invoices DROP CONSTRAINT IF EXISTS invoices_invoice_number_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_admin_number
+  ON public.invoices (public.tax_supplier_id(admin_id), invoice_number);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_admin_sequence
+  ON public.invoices (public.tax_supplier_id(admin_id), invoice_sequence) WHERE invoice_sequence IS NOT NULL;
+
+-- 3. How a supply is taxed. GST: same state is intra-state (CGST+SGST),
+-- different state inter-state (IGST), outside the country an export (zero
+-- rated); an unknown client state counts as the supplier's. VAT: a
+-- registered business abroad accounts for the tax itself (reverse charge).
+-- Keep in sync with resolveTaxTreatment in src/lib/tax.ts
+CREATE OR REPLACE FUNCTION public.invoice_tax_treatment(
+  p_regime TEXT,
+  p_supplier_country TEXT,
+  p_supplier_state TEXT,
+  p_customer_country TEXT,
+  p_customer_state TEXT,
+  p_customer_tax_id TEXT
+)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN p_regime IS NULL OR p_regime = 'none' THEN 'none'
+    WHEN p_regime = 'gst' THEN
+      CASE
+        WHEN COALESCE(p_customer_country, p_supplier_country) <> p_supplier_country THEN 'export'
+        WHEN p_customer_state IS NULL OR p_supplier_state IS NULL OR p_customer_state = p_supplier_state THEN 'intra_state'
+        ELSE 'inter_state'
+      END
+    ELSE
+      CASE
+        WHEN COALESCE(p_customer_country, p_supplier_country) <> p_supplier_country
+             AND NULLIF(btrim(p_customer_tax_id), '') IS NOT NULL THEN 'reverse_charge'
+        ELSE 'vat'
+      END
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- 4. Each line is taxed as it is written, at the supplier's rate for the
+-- service's category (or their default rate)
+CREATE OR REPLACE FUNCTION public.compute_invoice_item_tax()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_admin_id UUID;
+  v_client clients%ROWTYPE;
+  v_settings admin_tax_settings%ROWTYPE;
+  v_category service_category;
+  v_service_code TEXT;
+  v_tax NUMERIC;
+BEGIN
+  SELECT public.tax_supplier_id(admin_id) INTO v_admin_id FROM invoices WHERE id = NEW.invoice_id;
+  SELECT * INTO v_client FROM clients WHERE id = (SELECT client_id FROM invoices WHERE id = NEW.invoice_id);
+  SELECT * INTO v_settings FROM admin_tax_settings WHERE admin_id = v_admin_id;
+
+  IF NEW.service_id IS NOT NULL THEN
+    SELECT category, hsn_sac_code INTO v_category, v_service_code FROM services WHERE id = NEW.service_id;
+  END IF;
+
+  NEW.tax_treatment := public.invoice_tax_treatment(
+    v_settings.tax_regime, v_settings.country_code, v_settings.state_code,
+    v_client.billing_country_code, v_client.billing_state_code, v_client.tax_id
+  );
+  NEW.hsn_sac_code := COALESCE(v_service_code, v_settings.default_sac_code);
+  NEW.tax_rate := CASE
+    WHEN NEW.tax_treatment IN ('none', 'export', 'reverse_charge') THEN 0
+    ELSE COALESCE(
+      (SELECT rate FROM admin_tax_rates WHERE admin_id = v_admin_id AND category = v_category),
+      v_settings.default_tax_rate, 0)
+  END;
+
+  v_tax := ROUND(COALESCE(NEW.total_price, 0) * NEW.tax_rate / 100, 2);
+  NEW.cgst_amount := 0;
+  NEW.sgst_amount := 0;
+  NEW.igst_amount := 0;
+  NEW.vat_amount := 0;
+
+  IF NEW.tax_treatment = 'intra_state' THEN
+    NEW.cgst_amount := ROUND(v_tax / 2, 2);
+    NEW.sgst_amount := v_tax - NEW.cgst_amount;
+  ELSIF NEW.tax_treatment = 'inter_state' THEN
+    NEW.igst_amount := v_tax;
+  ELSIF NEW.tax_treatment = 'vat' THEN
+    NEW.vat_amount := v_tax;
+  END IF;
+  NEW.tax_amount := v_tax;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS tr_compute_invoice_item_tax ON public.invoice_items;
+CREATE TRIGGER tr_compute_invoice_item_tax
+  BEFORE INSERT OR UPDATE OF total_price, service_id ON public.invoice_items
+  FOR EACH ROW EXECUTE FUNCTION public.compute_invoice_item_tax();
+
+-- The invoice's tax and total always follow its lines
+CREATE OR REPLACE FUNCTION public.refresh_invoice_tax_totals()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_invoice_id UUID := COALESCE(NEW.invoice_id, OLD.invoice_id);
+BEGIN
+  UPDATE invoices i
+  SET subtotal = t.subtotal,
+      tax_amount = t.tax,
+      total_amount = t.subtotal + t.tax - COALESCE(i.discount_amount, 0),
+      tax_treatment = t.treatment,
+      reverse_charge = COALESCE(t.treatment = 'reverse_charge', false)
+  FROM (
+    SELECT COALESCE(SUM(total_price), 0) AS subtotal,
+           COALESCE(SUM(tax_amount), 0) AS tax,
+           MAX(tax_treatment) AS treatment
+    FROM invoice_items WHERE invoice_id = v_invoice_id
+  ) t
+  WHERE i.id = v_invoice_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS tr_refresh_invoice_tax_totals ON public.invoice_items;
+CREATE TRIGGER tr_refresh_invoice_tax_totals
+  AFTER INSERT OR UPDATE OR DELETE ON public.invoice_items
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_invoice_tax_totals();
+
+-- 5. Issuing an invoice (leaving draft) gives it the supplier's next number
+-- and freezes both parties' tax details. Drafts keep their working number,
+-- so deleted drafts leave no gaps.
+CREATE OR REPLACE FUNCTION public.issue_invoice_number()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_settings admin_tax_settings%ROWTYPE;
+  v_client clients%ROWTYPE;
+  v_supplier_id UUID := public.tax_supplier_id(NEW.admin_id);
+BEGIN
+  IF NEW.status IN ('draft', 'cancelled') OR NEW.invoice_sequence IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO admin_tax_settings (admin_id) VALUES (v_supplier_id) ON CONFLICT (admin_id) DO NOTHING;
+
+  UPDATE admin_tax_settings
+  SET next_invoice_sequence = next_invoice_sequence + 1, updated_at = NOW()
+  WHERE admin_id = v_supplier_id
+  RETURNING * INTO v_settings;
+
+  NEW.invoice_sequence := v_settings.next_invoice_sequence - 1;
+  NEW.invoice_number := format('%s-%s', v_settings.invoice_prefix, lpad(NEW.invoice_sequence::TEXT, 5, '0'));
+
+  SELECT * INTO v_client FROM clients WHERE id = NEW.client_id;
+
+  NEW.supplier_legal_name := COALESCE(v_settings.legal_name, (SELECT company_name FROM admins WHERE id = NEW.admin_id));
+  NEW.supplier_tax_id := v_settings.tax_id;
+  NEW.supplier_address := v_settings.address;
+  NEW.supplier_state_code := v_settings.state_code;
+  NEW.customer_tax_id := v_client.tax_id;
+  NEW.customer_address := v_client.billing_address;
+  NEW.place_of_supply := CASE
+    WHEN COALESCE(v_client.billing_country_code, v_settings.country_code) = v_settings.country_code
+      THEN COALESCE(v_client.billing_state_code, v_settings.state_code)
+    ELSE v_client.billing_country_code
+  END;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS tr_issue_invoice_number ON public.invoices;
+CREATE TRIGGER tr_issue_invoice_number
+  BEFORE INSERT OR UPDATE OF status ON public.invoices
+  FOR EACH ROW EXECUTE FUNCTION public.issue_invoice_number();
+
+-- 6. Admins save their registration and category rates together; super
+-- admins also save the platform's under the nil UUID
+CREATE OR REPLACE FUNCTION public.save_admin_tax_settings(
+  p_admin_id UUID,
+  p_tax_regime TEXT,
+  p_legal_name TEXT,
+  p_tax_id TEXT,
+  p_country_code TEXT,
+  p_state_code TEXT,
+  p_address TEXT,
+  p_default_tax_rate NUMERIC,
+  p_default_sac_code TEXT,
+  p_invoice_prefix TEXT,
+  p_category_rates JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID AS $$
+DECLARE
+  v_old admin_tax_settings%ROWTYPE;
+  v_tax_id TEXT := upper(NULLIF(btrim(p_tax_id), ''));
+BEGIN
+  IF NOT (public.is_super_admin() OR p_admin_id = public.get_admin_id_for_user()) THEN
+    RAISE EXCEPTION 'Not authorized to change tax settings for this admin';
+  END IF;
+
+  -- Keep in sync with isValidGstin in src/lib/tax.ts
+  IF p_tax_regime = 'gst' AND v_tax_id IS NOT NULL THEN
+    IF v_tax_id !~ '^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$' THEN
+      RAISE EXCEPTION 'GSTIN % is not in the expected format', v_tax_id;
+    END IF;
+    IF p_state_code IS NOT NULL AND left(v_tax_id, 2) <> p_state_code THEN
+      RAISE EXCEPTION 'GSTIN % is not registered in state %', v_tax_id, p_state_code;
+    END IF;
+  END IF;
+
+  INSERT INTO admin_tax_settings (admin_id) VALUES (p_admin_id) ON CONFLICT (admin_id) DO NOTHING;
+  SELECT * INTO v_old FROM admin_tax_settings WHERE admin_id = p_admin_id FOR UPDATE;
+
+  UPDATE admin_tax_settings
+  SET tax_regime = p_tax_regime,
+      legal_name = NULLIF(btrim(p_legal_name), ''),
+      tax_id = v_tax_id,
+      country_code = upper(COALESCE(NULLIF(btrim(p_country_code), ''), 'IN')),
+      state_code = NULLIF(btrim(p_state_code), ''),
+      address = NULLIF(btrim(p_address), ''),
+      default_tax_rate = GREATEST(COALESCE(p_default_tax_rate, 0), 0),
+      default_sac_code = COALESCE(NULLIF(btrim(p_default_sac_code), ''), '998319'),
+      invoice_prefix = COALESCE(NULLIF(btrim(p_invoice_prefix), ''), 'INV'),
+      updated_at = NOW()
+  WHERE admin_id = p_admin_id;
+
+  DELETE FROM admin_tax_rates WHERE admin_id = p_admin_id;
+  INSERT INTO admin_tax_rates (admin_id, category, rate)
+  SELECT p_admin_id, key::service_category, GREATEST(value::NUMERIC, 0)
+  FROM jsonb_each_text(COALESCE(p_category_rates, '{}'::jsonb))
+  WHERE value IS NOT NULL AND value <> '';
+
+  INSERT INTO audit_logs (user_id, action, entity_type, entity_id, old_values, new_values)
+  VALUES (auth.uid(), 'tax_settings_updated', 'admin', p_admin_id,
+    jsonb_build_object('tax_regime', v_old.tax_regime, 'tax_id', v_old.tax_id, 'state_code', v_old.state_code,
+      'default_tax_rate', v_old.default_tax_rate),
+    jsonb_build_object('tax_regime', p_tax_regime, 'tax_id', v_tax_id, 'state_code', p_state_code,
+      'default_tax_rate', p_default_tax_rate, 'category_rates', p_category_rates));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.save_admin_tax_settings(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, NUMERIC, TEXT, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_admin_tax_settings(UUID, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, NUMERIC, TEXT, TEXT, JSONB) TO authenticated;
@@ -0,0 +1,164 @@
+-- Billing periods per client service. Usage resets on each row's own anchor
+-- (the day it was assigned) for daily, weekly and monthly periods, and every
+-- closed period is kept in usage_period_history before it is zeroed.
+
+-- 1. The period each client service is currently counting usage for
+ALTER TABLE public.client_services
+  ADD COLUMN IF NOT EXISTS current_period_start TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS current_period_end TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_client_services_period_end
+  ON public.client_services(current_period_end)
+  WHERE current_period_end IS NOT NULL;
+
+-- 2. One row per closed period
+CREATE TABLE IF NOT EXISTS public.usage_period_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_service_id UUID NOT NULL REFERENCES public.client_services(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  service_id UUID NOT NULL REFERENCES public.services(id) ON DELETE CASCADE,
+  reset_period reset_period NOT NULL,
+  period_start TIMESTAMPTZ NOT NULL,
+  period_end TIMESTAMPTZ NOT NULL,
+  usage_limit INTEGER NOT NULL DEFAULT 0,
+  usage_consumed INTEGER NOT NULL DEFAULT 0,
+  overage_consumed INTEGER NOT NULL DEFAULT 0,
+  closed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (client_service_id, period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_period_history_client
+  ON public.usage_period_history(client_id, period_end DESC);
+
+ALTER TABLE public.usage_period_history ENABLE ROW LEVEL SECURITY;
+
+-- Written only by reset_usage_if_needed
+CREATE POLICY "Usage period history visible to owners"
+  ON public.usage_period_history FOR SELECT TO authenticated
+  USING (
+    public.is_super_admin()
+    OR client_id = (SELECT id FROM public.clients WHERE user_id = auth.uid())
+    OR client_id IN (SELECT id FROM public.clients WHERE admin_id = public.get_admin_id_for_user())
+  );
+
+-- 3. The period containing p_at for a service anchored at p_anchor. Daily
+-- periods run midnight to midnight, weekly ones start on the anchor's
+-- weekday, monthly ones on the anchor's day of month (the last day in
+-- shorter months). 'never' has a single open-ended period.
+-- Keep in sync with usagePeriodBounds in src/lib/usage-periods.ts
+CREATE OR REPLACE FUNCTION public.usage_period_bounds(
+  p_period reset_period,
+  p_anchor TIMESTAMPTZ,
+  p_at TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS TABLE (period_start TIMESTAMPTZ, period_end TIMESTAMPTZ) AS $$
+DECLARE
+  v_day TIMESTAMPTZ := date_trunc('day', p_at);
+  v_anchor_day INTEGER := EXTRACT(DAY FROM p_anchor)::INTEGER;
+  v_month TIMESTAMPTZ;
+  v_start TIMESTAMPTZ;
+BEGIN
+  IF p_period = 'daily' THEN
+    RETURN QUERY SELECT v_day, v_day + INTERVAL '1 day';
+  ELSIF p_period = 'weekly' THEN
+    v_start := v_day - (((EXTRACT(DOW FROM p_at)::INTEGER - EXTRACT(DOW FROM p_anchor)::INTEGER + 7) % 7) * INTERVAL '1 day');
+    RETURN QUERY SELECT v_start, v_start + INTERVAL '7 days';
+  ELSIF p_period = 'monthly' THEN
+    v_month := date_trunc('month', p_at);
+    v_start := v_month + (LEAST(v_anchor_day, EXTRACT(DAY FROM v_month + INTERVAL '1 month - 1 day')::INTEGER) - 1) * INTERVAL '1 day';
+    IF v_start > p_at THEN
+      v_month := v_month - INTERVAL '1 month';
+      v_start := v_month + (LEAST(v_anchor_day, EXTRACT(DAY FROM v_month + INTERVAL '1 month - 1 day')::INTEGER) - 1) * INTERVAL '1 day';
+    END IF;
+    v_month := v_month + INTERVAL '1 month';
+    RETURN QUERY SELECT v_start,
+      v_month + (LEAST(v_anchor_day, EXTRACT(DAY FROM v_month + INTERVAL '1 month - 1 day')::INTEGER) - 1) * INTERVAL '1 day';
+  ELSE
+    RETURN QUERY SELECT date_trunc('day', p_anchor), NULL::TIMESTAMPTZ;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- 4. New rows, and rows whose period type changes, start counting in the
+-- period they fall in. Changing the type does not reset usage.
+CREATE OR REPLACE FUNCTION public.set_client_service_period()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.reset_period IS DISTINCT FROM OLD.reset_period THEN
+    SELECT b.period_start, b.period_end INTO NEW.current_period_start, NEW.current_period_end
+    FROM public.usage_period_bounds(COALESCE(NEW.reset_period, 'monthly'), COALESCE(NEW.assigned_at, NOW()), NOW()) b;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS tr_set_client_service_period ON public.client_services;
+CREATE TRIGGER tr_set_client_service_period
+  BEFORE INSERT OR UPDATE OF reset_period ON public.client_services
+  FOR EACH ROW EXECUTE FUNCTION public.set_client_service_period();
+
+-- Existing rows carry on in their current period; the first reset happens at
+-- their next anchor rather than the next calendar month
+UPDATE public.client_services cs
+SET current_period_start = b.period_start,
+    current_period_end = b.period_end
+FROM public.client_services src
+CROSS JOIN LATERAL public.usage_period_bounds(COALESCE(src.reset_period, 'monthly'), COALESCE(src.assigned_at, src.created_at), NOW()) b
+WHERE cs.id = src.id
+  AND cs.current_period_start IS NULL;
+
+-- 5. Closes every period that has ended: snapshots its usage into
+-- usage_period_history, zeroes the counters and opens the period containing
+-- now. Reserved units belong to actions still in flight and carry over.
+-- Returns how many periods were closed. Run by pg_cron (hourly is enough for
+-- daily periods); SKIP LOCKED leaves rows busy with a reservation for the
+-- next run.
+DROP FUNCTION IF EXISTS public.reset_usage_if_needed();
+
+CREATE OR REPLACE FUNCTION public.reset_usage_if_needed()
+RETURNS INTEGER AS $$
+DECLARE
+  v_cs client_services%ROWTYPE;
+  v_start TIMESTAMPTZ;
+  v_end TIMESTAMPTZ;
+  v_closed INTEGER := 0;
+BEGIN
+  FOR v_cs IN
+    SELECT * FROM client_services
+    WHERE current_period_end IS NOT NULL
+      AND current_period_end <= NOW()
+      AND COALESCE(reset_period, 'monthly') <> 'never'
+    ORDER BY current_period_end
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    INSERT INTO usage_period_history (
+      client_service_id, client_id, service_id, reset_period, period_start, period_end,
+      usage_limit, usage_consumed, overage_consumed
+    ) VALUES (
+      v_cs.id, v_cs.client_id, v_cs.service_id, COALESCE(v_cs.reset_period, 'monthly'),
+      v_cs.current_period_start, v_cs.current_period_end,
+      v_cs.usage_limit, COALESCE(v_cs.usage_consumed, 0), v_cs.overage_consumed
+    )
+    ON CONFLICT (client_service_id, period_start) DO NOTHING;
+
+    SELECT b.period_start, b.period_end INTO v_start, v_end
+    FROM usage_period_bounds(COALESCE(v_cs.reset_period, 'monthly'), COALESCE(v_cs.assigned_at, v_cs.created_at), NOW()) b;
+
+    UPDATE client_services
+    SET usage_consumed = 0,
+        overage_consumed = 0,
+        last_reset_at = NOW(),
+        current_period_start = v_start,
+        current_period_end = v_end,
+        updated_at = NOW()
+    WHERE id = v_cs.id;
+
+    v_closed := v_closed + 1;
+  END LOOP;
+
+  RETURN v_closed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.reset_usage_if_needed() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reset_usage_if_needed() TO service_role;
@@ -0,0 +1,529 @@
+-- Plan upgrades and downgrades on client services. Upgrades apply at once and
+-- charge the difference for the rest of the month; downgrades wait for the
+-- end of the current usage period and credit the difference. Every change
+-- is kept in service_plan_changes with the invoice line it produced.
+
+-- 1. Admins decide whether a client may change plans themselves
+ALTER TABLE public.clients
+  ADD COLUMN IF NOT EXISTS self_serve_plan_changes BOOLEAN NOT NULL DEFAULT true;
+
+-- 2. Change history
+CREATE TABLE IF NOT EXISTS public.service_plan_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_service_id UUID NOT NULL REFERENCES public.client_services(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  service_id UUID NOT NULL REFERENCES public.services(id) ON DELETE CASCADE,
+  from_plan_id UUID REFERENCES public.service_plans(id) ON DELETE SET NULL,
+  to_plan_id UUID NOT NULL REFERENCES public.service_plans(id) ON DELETE CASCADE,
+  direction TEXT NOT NULL CHECK (direction IN ('upgrade', 'downgrade')),
+  status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'applied', 'cancelled')),
+  requested_by UUID,
+  requested_by_role TEXT NOT NULL CHECK (requested_by_role IN ('client', 'admin', 'super_admin')),
+  effective_at TIMESTAMPTZ NOT NULL,
+  applied_at TIMESTAMPTZ,
+  proration_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  invoice_item_id UUID REFERENCES public.invoice_items(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_service_plan_changes_client
+  ON public.service_plan_changes(client_id, created_at DESC);
+
+-- A service has at most one change waiting for its period to end
+CREATE UNIQUE INDEX IF NOT EXISTS idx_service_plan_changes_one_scheduled
+  ON public.service_plan_changes(client_service_id)
+  WHERE status = 'scheduled';
+
+ALTER TABLE public.service_plan_changes ENABLE ROW LEVEL SECURITY;
+
+-- Written only by change_service_plan and reset_usage_if_needed
+CREATE POLICY "Plan changes visible to owners"
+  ON public.service_plan_changes FOR SELECT TO authenticated
+  USING (
+    public.is_super_admin()
+    OR client_id = (SELECT id FROM public.clients WHERE user_id = auth.uid())
+    OR client_id IN (SELECT id FROM public.clients WHERE admin_id = public.get_admin_id_for_user())
+  );
+
+-- 3. The plan a client service was on at p_at: the starting plan of the
+-- first change applied after it, or the current plan when there is none
+CREATE OR REPLACE FUNCTION public.client_service_plan_at(p_client_service_id UUID, p_at TIMESTAMPTZ)
+RETURNS UUID AS $$
+  SELECT COALESCE(
+    (SELECT ARRAY[pc.from_plan_id] FROM service_plan_changes pc
+     WHERE pc.client_service_id = p_client_service_id AND pc.status = 'applied' AND pc.applied_at > p_at
+     ORDER BY pc.applied_at LIMIT 1),
+    (SELECT ARRAY[cs.plan_id] FROM client_services cs WHERE cs.id = p_client_service_id)
+  )[1];
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- 4. The monthly fee difference for what is left of the calendar month
+-- containing p_at. A change at the very start of a month is billed in full
+-- by the month-end run, so it needs no adjustment.
+-- Keep in sync with prorateMonthlyFee in src/lib/plan-changes.ts
+CREATE OR REPLACE FUNCTION public.prorate_monthly_fee(p_old_price NUMERIC, p_new_price NUMERIC, p_at TIMESTAMPTZ)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_month_start TIMESTAMPTZ := date_trunc('month', p_at);
+  v_month_end TIMESTAMPTZ := date_trunc('month', p_at) + INTERVAL '1 month';
+BEGIN
+  IF p_at = v_month_start THEN
+    RETURN 0;
+  END IF;
+  RETURN ROUND(
+    (COALESCE(p_new_price, 0) - COALESCE(p_old_price, 0))
+      * EXTRACT(EPOCH FROM v_month_end - p_at) / EXTRACT(EPOCH FROM v_month_end - v_month_start),
+    2);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+-- 5. Adds a proration line to the client's auto invoice for the month of
+-- p_at, opening that draft early if the month-end run has not created it
+-- yet. Months already reviewed get a separate manual draft instead.
+CREATE OR REPLACE FUNCTION public.add_proration_line(
+  p_client_id UUID,
+  p_service_id UUID,
+  p_description TEXT,
+  p_amount NUMERIC,
+  p_at TIMESTAMPTZ
+)
+RETURNS UUID AS $$
+DECLARE
+  v_start DATE := date_trunc('month', p_at)::DATE;
+  v_end DATE := (date_trunc('month', p_at) + INTERVAL '1 month')::DATE;
+  v_admin_id UUID;
+  v_invoice invoices%ROWTYPE;
+  v_item_id UUID;
+BEGIN
+  SELECT admin_id INTO v_admin_id FROM clients WHERE id = p_client_id;
+
+  SELECT * INTO v_invoice FROM invoices
+  WHERE client_id = p_client_id AND billing_period_start = v_start AND is_auto_generated
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO invoices (
+      admin_id, client_id, invoice_number, invoice_date, due_date, subtotal, tax_amount, total_amount,
+      status, notes, billing_period_start, billing_period_end, is_auto_generated
+    )
+    VALUES (
+      v_admin_id, p_client_id,
+      'AUTO-' || to_char(v_start, 'YYYYMM') || '-' || upper(substr(replace(p_client_id::TEXT, '-', ''), 1, 8)),
+      CURRENT_DATE, CURRENT_DATE + 30, 0, 0, 0, 'draft',
+      format('Usage for %s', to_char(v_start, 'FMMonth YYYY')),
+      v_start, (v_end - 1), true
+    )
+    RETURNING * INTO v_invoice;
+  ELSIF v_invoice.status IS DISTINCT FROM 'draft' THEN
+    INSERT INTO invoices (
+      admin_id, client_id, invoice_number, invoice_date, due_date, subtotal, tax_amount, total_amount,
+      status, notes
+    )
+    VALUES (
+      v_admin_id, p_client_id,
+      'DRAFT-' || to_char(NOW(), 'YYYYMMDDHH24MISS') || '-' || upper(substr(replace(p_client_id::TEXT, '-', ''), 1, 8)),
+      CURRENT_DATE, CURRENT_DATE + 30, 0, 0, 0, 'draft',
+      'Plan change adjustment'
+    )
+    RETURNING * INTO v_invoice;
+  END IF;
+
+  INSERT INTO invoice_items (invoice_id, service_id, description, quantity, unit_price, total_price, line_type)
+  VALUES (v_invoice.id, p_service_id, p_description, 1, p_amount, p_amount, 'proration')
+  RETURNING id INTO v_item_id;
+
+  RETURN v_item_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.add_proration_line(UUID, UUID, TEXT, NUMERIC, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- 6. Moves a client service onto the change's plan, recalculates its limit
+-- from the plan and bills the prorated difference
+CREATE OR REPLACE FUNCTION public.apply_service_plan_change(p_change_id UUID, p_at TIMESTAMPTZ DEFAULT NOW())
+RETURNS VOID AS $$
+DECLARE
+  v_change service_plan_changes%ROWTYPE;
+  v_from service_plans%ROWTYPE;
+  v_to service_plans%ROWTYPE;
+  v_amount NUMERIC;
+  v_item_id UUID;
+BEGIN
+  SELECT * INTO v_change FROM service_plan_changes WHERE id = p_change_id FOR UPDATE;
+  IF NOT FOUND OR v_change.status <> 'scheduled' THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_from FROM service_plans WHERE id = v_change.from_plan_id;
+  SELECT * INTO v_to FROM service_plans WHERE id = v_change.to_plan_id;
+
+  UPDATE client_services
+  SET plan_id = v_to.id,
+      usage_limit = COALESCE(v_to.usage_limit, 0),
+      updated_at = NOW()
+  WHERE id = v_change.client_service_id;
+
+  v_amount := public.prorate_monthly_fee(v_from.monthly_price, v_to.monthly_price, p_at);
+  IF v_amount <> 0 THEN
+    v_item_id := public.add_proration_line(
+      v_change.client_id, v_change.service_id,
+      format('%s %s → %s (prorated %s)',
+        CASE WHEN v_amount > 0 THEN 'Upgrade' ELSE 'Downgrade credit' END,
+        COALESCE(v_from.plan_name, 'no plan'), v_to.plan_name, to_char(p_at, 'FMMonth FMDD')),
+      v_amount, p_at);
+  END IF;
+
+  UPDATE service_plan_changes
+  SET status = 'applied',
+      applied_at = p_at,
+      proration_amount = COALESCE(v_amount, 0),
+      invoice_item_id = v_item_id
+  WHERE id = p_change_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.apply_service_plan_change(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- 7. Clients (when their admin allows it) and their admins change plans.
+-- A plan with a higher monthly price, or any plan for a service that had
+-- none, is an upgrade and applies now; anything else waits for the end of
+-- the current usage period, or the next month for services that never
+-- reset. Picking the current plan cancels a waiting downgrade.
+CREATE OR REPLACE FUNCTION public.change_service_plan(p_client_service_id UUID, p_plan_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_cs client_services%ROWTYPE;
+  v_client clients%ROWTYPE;
+  v_from service_plans%ROWTYPE;
+  v_to service_plans%ROWTYPE;
+  v_role TEXT;
+  v_direction TEXT;
+  v_effective_at TIMESTAMPTZ;
+  v_change_id UUID;
+  v_change service_plan_changes%ROWTYPE;
+BEGIN
+  SELECT * INTO v_cs FROM client_services WHERE id = p_client_service_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Service assignment not found';
+  END IF;
+  SELECT * INTO v_client FROM clients WHERE id = v_cs.client_id;
+
+  IF public.is_super_admin() THEN
+    v_role := 'super_admin';
+  ELSIF v_client.admin_id IS NOT NULL AND v_client.admin_id = public.get_admin_id_for_user() THEN
+    v_role := 'admin';
+  ELSIF v_client.user_id = auth.uid() THEN
+    IF NOT v_client.self_serve_plan_changes THEN
+      RAISE EXCEPTION 'Plan changes for your account are handled by your account manager';
+    END IF;
+    v_role := 'client';
+  ELSE
+    RAISE EXCEPTION 'Not authorized to change this plan';
+  END IF;
+
+  IF NOT COALESCE(v_cs.is_active, false) THEN
+    RAISE EXCEPTION 'This service is not active';
+  END IF;
+
+  SELECT * INTO v_to FROM service_plans WHERE id = p_plan_id;
+  IF NOT FOUND OR v_to.service_id <> v_cs.service_id THEN
+    RAISE EXCEPTION 'Plan does not belong to this service';
+  END IF;
+  IF NOT v_to.is_active THEN
+    RAISE EXCEPTION 'Plan % is no longer available', v_to.plan_name;
+  END IF;
+
+  UPDATE service_plan_changes SET status = 'cancelled'
+  WHERE client_service_id = v_cs.id AND status = 'scheduled';
+
+  IF v_cs.plan_id = p_plan_id THEN
+    RETURN jsonb_build_object('status', 'unchanged');
+  END IF;
+
+  SELECT * INTO v_from FROM service_plans WHERE id = v_cs.plan_id;
+  IF v_cs.plan_id IS NULL OR COALESCE(v_to.monthly_price, 0) > COALESCE(v_from.monthly_price, 0) THEN
+    v_direction := 'upgrade';
+    v_effective_at := NOW();
+  ELSE
+    v_direction := 'downgrade';
+    v_effective_at := COALESCE(v_cs.current_period_end, date_trunc('month', NOW()) + INTERVAL '1 month');
+  END IF;
+
+  INSERT INTO service_plan_changes (
+    client_service_id, client_id, service_id, from_plan_id, to_plan_id, direction,
+    requested_by, requested_by_role, effective_at
+  ) VALUES (
+    v_cs.id, v_cs.client_id, v_cs.service_id, v_cs.plan_id, v_to.id, v_direction,
+    auth.uid(), v_role, v_effective_at
+  )
+  RETURNING id INTO v_change_id;
+
+  IF v_direction = 'upgrade' THEN
+    PERFORM public.apply_service_plan_change(v_change_id, v_effective_at);
+  END IF;
+
+  SELECT * INTO v_change FROM service_plan_changes WHERE id = v_change_id;
+
+  INSERT INTO audit_logs (user_id, action, entity_type, entity_id, old_values, new_values)
+  VALUES (auth.uid(), 'service_plan_' || v_direction, 'client_service', v_cs.id,
+    jsonb_build_object('plan_id', v_cs.plan_id, 'usage_limit', v_cs.usage_limit),
+    jsonb_build_object('plan_id', v_to.id, 'status', v_change.status, 'effective_at', v_change.effective_at,
+      'proration_amount', v_change.proration_amount));
+
+  -- The other side hears about it: admins when a client changes, the
+  -- client when their admin does
+  IF v_role = 'client' THEN
+    INSERT INTO notifications (user_id, title, message, type, action_url)
+    SELECT a.user_id, 'Client Changed Plan',
+      format('%s %s to %s%s.', v_client.company_name,
+        CASE WHEN v_direction = 'upgrade' THEN 'upgraded' ELSE 'scheduled a downgrade' END, v_to.plan_name,
+        CASE WHEN v_direction = 'downgrade' THEN ' from ' || to_char(v_effective_at, 'FMMonth FMDD') ELSE '' END),
+      'info', '/admin/clients/' || v_client.id
+    FROM admins a WHERE a.id = v_client.admin_id;
+  ELSIF v_client.user_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, title, message, type, action_url)
+    VALUES (v_client.user_id, 'Plan Changed',
+      format('Your plan is %s %s%s.',
+        CASE WHEN v_direction = 'upgrade' THEN 'now' ELSE 'changing to' END, v_to.plan_name,
+        CASE WHEN v_direction = 'downgrade' THEN ' from ' || to_char(v_effective_at, 'FMMonth FMDD') ELSE '' END),
+      'info', '/client/services');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', v_change.status,
+    'change_id', v_change.id,
+    'direction', v_direction,
+    'effective_at', v_change.effective_at,
+    'proration_amount', v_change.proration_amount
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.change_service_plan(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.change_service_plan(UUID, UUID) TO authenticated;
+
+-- 8. Period resets also apply the downgrades that were waiting for them, so
+-- the new period starts with the new plan's limit
+CREATE OR REPLACE FUNCTION public.reset_usage_if_needed()
+RETURNS INTEGER AS $$
+DECLARE
+  v_cs client_services%ROWTYPE;
+  v_change service_plan_changes%ROWTYPE;
+  v_start TIMESTAMPTZ;
+  v_end TIMESTAMPTZ;
+  v_closed INTEGER := 0;
+BEGIN
+  FOR v_cs IN
+    SELECT * FROM client_services
+    WHERE current_period_end IS NOT NULL
+      AND current_period_end <= NOW()
+      AND COALESCE(reset_period, 'monthly') <> 'never'
+    ORDER BY current_period_end
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    INSERT INTO usage_period_history (
+      client_service_id, client_id, service_id, reset_period, period_start, period_end,
+      usage_limit, usage_consumed, overage_consumed
+    ) VALUES (
+      v_cs.id, v_cs.client_id, v_cs.service_id, COALESCE(v_cs.reset_period, 'monthly'),
+      v_cs.current_period_start, v_cs.current_period_end,
+      v_cs.usage_limit, COALESCE(v_cs.usage_consumed, 0), v_cs.overage_consumed
+    )
+    ON CONFLICT (client_service_id, period_start) DO NOTHING;
+
+    SELECT b.period_start, b.period_end INTO v_start, v_end
+    FROM usage_period_bounds(COALESCE(v_cs.reset_period, 'monthly'), COALESCE(v_cs.assigned_at, v_cs.created_at), NOW()) b;
+
+    UPDATE client_services
+    SET usage_consumed = 0,
+        overage_consumed = 0,
+        last_reset_at = NOW(),
+        current_period_start = v_start,
+        current_period_end = v_end,
+        updated_at = NOW()
+    WHERE id = v_cs.id;
+
+    v_closed := v_closed + 1;
+  END LOOP;
+
+  FOR v_change IN
+    SELECT * FROM service_plan_changes
+    WHERE status = 'scheduled' AND effective_at <= NOW()
+    ORDER BY effective_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    PERFORM public.apply_service_plan_change(v_change.id, v_change.effective_at);
+  END LOOP;
+
+  RETURN v_closed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.reset_usage_if_needed() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reset_usage_if_needed() TO service_role;
+
+-- 9. The month-end run keeps proration lines already on a draft and bills
+-- each plan fee at the plan the service started the month on
+CREATE OR REPLACE FUNCTION public.generate_period_invoices(p_period_start DATE DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_start DATE := date_trunc('month', COALESCE(p_period_start, (NOW() - INTERVAL '1 month')::DATE))::DATE;
+  v_end DATE;
+  v_scope_admin UUID;
+  v_client RECORD;
+  v_invoice invoices%ROWTYPE;
+  v_is_new BOOLEAN;
+  v_count INTEGER := 0;
+  v_created_for UUID[] := '{}';
+  v_direct_created INTEGER := 0;
+BEGIN
+  v_end := (v_start + INTERVAL '1 month')::DATE;
+
+  IF auth.uid() IS NOT NULL AND NOT public.is_super_admin() THEN
+    v_scope_admin := public.get_admin_id_for_user();
+    IF v_scope_admin IS NULL THEN
+      RAISE EXCEPTION 'Not authorized to run billing';
+    END IF;
+  END IF;
+
+  IF v_end > CURRENT_DATE THEN
+    RAISE EXCEPTION 'The billing period % has not ended yet', to_char(v_start, 'FMMonth YYYY');
+  END IF;
+
+  FOR v_client IN
+    SELECT c.id, c.admin_id FROM clients c
+    WHERE (v_scope_admin IS NULL OR c.admin_id = v_scope_admin)
+      AND (
+        EXISTS (SELECT 1 FROM usage_tracking ut
+                WHERE ut.client_id = c.id AND ut.recorded_at >= v_start AND ut.recorded_at < v_end)
+        OR EXISTS (SELECT 1 FROM client_services cs JOIN service_plans sp ON sp.id = cs.plan_id
+                   WHERE cs.client_id = c.id AND cs.is_active AND COALESCE(sp.monthly_price, 0) > 0
+                     AND cs.assigned_at < v_end)
+        OR EXISTS (SELECT 1 FROM invoices i
+                   WHERE i.client_id = c.id AND i.billing_period_start = v_start AND i.is_auto_generated
+                     AND i.status = 'draft')
+      )
+  LOOP
+    SELECT * INTO v_invoice FROM invoices
+    WHERE client_id = v_client.id AND billing_period_start = v_start AND is_auto_generated
+    FOR UPDATE;
+
+    IF FOUND THEN
+      -- Reviewed invoices are final; only drafts are rebuilt
+      CONTINUE WHEN v_invoice.status IS DISTINCT FROM 'draft';
+      -- A draft holding only plan change adjustments was opened early and
+      -- has not been through a run yet
+      v_is_new := NOT EXISTS (SELECT 1 FROM invoice_items
+                              WHERE invoice_id = v_invoice.id AND line_type IS DISTINCT FROM 'proration');
+      DELETE FROM invoice_items WHERE invoice_id = v_invoice.id AND line_type IS DISTINCT FROM 'proration';
+      IF v_is_new THEN
+        UPDATE invoices SET invoice_date = CURRENT_DATE, due_date = CURRENT_DATE + 30 WHERE id = v_invoice.id;
+      END IF;
+    ELSE
+      INSERT INTO invoices (
+        admin_id, client_id, invoice_number, invoice_date, due_date, subtotal, tax_amount, total_amount,
+        status, notes, billing_period_start, billing_period_end, is_auto_generated
+      )
+      VALUES (
+        v_client.admin_id, v_client.id,
+        'AUTO-' || to_char(v_start, 'YYYYMM') || '-' || upper(substr(replace(v_client.id::TEXT, '-', ''), 1, 8)),
+        CURRENT_DATE, CURRENT_DATE + 30, 0, 0, 0, 'draft',
+        format('Usage for %s', to_char(v_start, 'FMMonth YYYY')),
+        v_start, (v_end - 1), true
+      )
+      RETURNING * INTO v_invoice;
+      v_is_new := true;
+    END IF;
+
+    WITH usage AS (
+      SELECT ut.service_id, SUM(COALESCE(ut.quantity, 1))::INTEGER AS qty
+      FROM usage_tracking ut
+      WHERE ut.client_id = v_client.id AND ut.service_id IS NOT NULL
+        AND ut.recorded_at >= v_start AND ut.recorded_at < v_end
+        AND NOT EXISTS (SELECT 1 FROM wallet_transactions wt WHERE wt.usage_tracking_id = ut.id)
+      GROUP BY ut.service_id
+    ),
+    overage AS (
+      SELECT r.service_id, SUM(r.overage_units)::INTEGER AS qty
+      FROM usage_reservations r
+      WHERE r.client_id = v_client.id AND r.status = 'committed' AND r.overage_units > 0
+        AND r.settled_at >= v_start AND r.settled_at < v_end
+        AND NOT EXISTS (
+          SELECT 1 FROM usage_tracking ut JOIN wallet_transactions wt ON wt.usage_tracking_id = ut.id
+          WHERE ut.client_id = v_client.id AND ut.metadata ->> 'reservation_id' = r.id::TEXT
+        )
+      GROUP BY r.service_id
+    ),
+    lines AS (
+      SELECT u.service_id,
+        s.name || CASE WHEN s.base_pricing_model = 'per_minute' THEN ' usage (minutes)' ELSE ' usage' END AS description,
+        'usage' AS line_type,
+        GREATEST(u.qty - COALESCE(o.qty, 0), 0) AS quantity,
+        public.client_unit_price(v_client.id, u.service_id) AS unit_price
+      FROM usage u
+      JOIN services s ON s.id = u.service_id
+      LEFT JOIN overage o ON o.service_id = u.service_id
+      UNION ALL
+      SELECT o.service_id,
+        s.name || CASE WHEN s.base_pricing_model = 'per_minute' THEN ' overage (minutes)' ELSE ' overage' END,
+        'overage', o.qty,
+        COALESCE(
+          ROUND(sp.overage_price_per_unit * (1 + COALESCE(ap.markup_percentage, 0) / 100), 2),
+          public.client_unit_price(v_client.id, o.service_id)
+        )
+      FROM overage o
+      JOIN services s ON s.id = o.service_id
+      LEFT JOIN client_services cs ON cs.client_id = v_client.id AND cs.service_id = o.service_id
+      LEFT JOIN service_plans sp ON sp.id = cs.plan_id
+      LEFT JOIN admin_pricing ap ON ap.admin_id = v_client.admin_id AND ap.service_id = o.service_id
+      UNION ALL
+      SELECT cs.service_id, format('%s plan — %s', sp.plan_name, to_char(v_start, 'FMMonth YYYY')), 'plan_fee', 1,
+        ROUND(sp.monthly_price, 2)
+      FROM client_services cs
+      JOIN service_plans sp ON sp.id = public.client_service_plan_at(cs.id, v_start)
+      WHERE cs.client_id = v_client.id AND cs.is_active AND COALESCE(sp.monthly_price, 0) > 0
+        AND cs.assigned_at < v_end
+    )
+    INSERT INTO invoice_items (invoice_id, service_id, description, quantity, unit_price, total_price, line_type)
+    SELECT v_invoice.id, service_id, description, quantity, unit_price, ROUND(quantity * unit_price, 2), line_type
+    FROM lines
+    WHERE quantity > 0;
+
+    -- Nothing left to bill, e.g. a prepaid client whose usage came out of
+    -- their wallet
+    IF NOT EXISTS (SELECT 1 FROM invoice_items WHERE invoice_id = v_invoice.id) THEN
+      DELETE FROM invoices WHERE id = v_invoice.id;
+      CONTINUE;
+    END IF;
+
+    IF v_is_new AND v_client.admin_id IS NULL THEN
+      v_direct_created := v_direct_created + 1;
+    ELSIF v_is_new THEN
+      v_created_for := v_created_for || v_client.admin_id;
+    END IF;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  -- Admins review new drafts before they go out; direct clients are billed
+  -- by the platform
+  INSERT INTO notifications (user_id, title, message, type, action_url)
+  SELECT a.user_id, 'Invoices Ready for Review',
+    format('%s draft invoice%s for %s %s ready to review and send.', g.n,
+      CASE WHEN g.n = 1 THEN '' ELSE 's' END, to_char(v_start, 'FMMonth YYYY'),
+      CASE WHEN g.n = 1 THEN 'is' ELSE 'are' END),
+    'info', '/admin/billing'
+  FROM (SELECT admin_id, COUNT(*) AS n FROM unnest(v_created_for) AS admin_id GROUP BY admin_id) g
+  JOIN admins a ON a.id = g.admin_id;
+
+  IF v_direct_created > 0 THEN
+    INSERT INTO notifications (user_id, title, message, type, action_url)
+    SELECT user_id, 'Invoices Ready for Review',
+      format('%s draft invoice(s) for direct clients for %s are ready to review.', v_direct_created, to_char(v_start, 'FMMonth YYYY')),
+      'info', '/super-admin/clients'
+    FROM user_roles WHERE role = 'super_admin';
+  END IF;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
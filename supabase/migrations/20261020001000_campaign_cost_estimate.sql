@@ -0,0 +1,48 @@
+-- What a client pays for one more unit of a service, for the cost estimate
+-- shown before launching a campaign. Clients cannot read their admin's
+-- pricing, so the figures come from the same rules the billing run uses:
+-- client_unit_price for usage within the limit, the plan's overage rate
+-- (with the admin's markup) past it.
+CREATE OR REPLACE FUNCTION public.get_client_service_pricing(p_service_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_client clients%ROWTYPE;
+  v_service services%ROWTYPE;
+  v_cs client_services%ROWTYPE;
+  v_plan service_plans%ROWTYPE;
+  v_unit_price NUMERIC;
+  v_markup NUMERIC;
+BEGIN
+  SELECT * INTO v_client FROM clients WHERE user_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  SELECT * INTO v_service FROM services WHERE id = p_service_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Service not found';
+  END IF;
+
+  SELECT * INTO v_cs FROM client_services WHERE client_id = v_client.id AND service_id = p_service_id;
+  SELECT * INTO v_plan FROM service_plans WHERE id = v_cs.plan_id;
+  SELECT markup_percentage INTO v_markup FROM admin_pricing
+  WHERE admin_id = v_client.admin_id AND service_id = p_service_id;
+
+  v_unit_price := public.client_unit_price(v_client.id, p_service_id);
+
+  RETURN jsonb_build_object(
+    'service_id', v_service.id,
+    'pricing_model', v_service.base_pricing_model,
+    'unit_price', COALESCE(v_unit_price, 0),
+    'overage_unit_price', COALESCE(ROUND(v_plan.overage_price_per_unit * (1 + COALESCE(v_markup, 0) / 100), 2), v_unit_price, 0),
+    'overage_policy', COALESCE(v_plan.overage_policy::TEXT, 'block'),
+    'plan_name', v_plan.plan_name,
+    'usage_limit', COALESCE(v_cs.usage_limit, 0),
+    'usage_consumed', COALESCE(v_cs.usage_consumed, 0),
+    'usage_reserved', COALESCE(v_cs.usage_reserved, 0)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.get_client_service_pricing(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_client_service_pricing(UUID) TO authenticated;
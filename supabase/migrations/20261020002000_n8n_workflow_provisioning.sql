@@ -0,0 +1,25 @@
+-- Exported n8n workflow that clone-workflow-for-client copies for each
+-- client, with {{pixora.*}} placeholders for client values. Templates
+-- without it are copied from n8n_template_workflow_id on the n8n instance.
+ALTER TABLE public.workflow_templates
+  ADD COLUMN IF NOT EXISTS workflow_json JSONB;
+
+-- Set when the client's copy last synced to n8n
+ALTER TABLE public.client_workflow_instances
+  ADD COLUMN IF NOT EXISTS provisioned_at TIMESTAMPTZ;
+
+-- Deleting a client's workflow keeps its call and message history
+ALTER TABLE public.call_logs
+  DROP CONSTRAINT IF EXISTS call_logs_workflow_instance_id_fkey,
+  ADD CONSTRAINT call_logs_workflow_instance_id_fkey
+    FOREIGN KEY (workflow_instance_id) REFERENCES public.client_workflow_instances(id) ON DELETE SET NULL;
+
+ALTER TABLE public.whatsapp_messages
+  DROP CONSTRAINT IF EXISTS whatsapp_messages_workflow_instance_id_fkey,
+  ADD CONSTRAINT whatsapp_messages_workflow_instance_id_fkey
+    FOREIGN KEY (workflow_instance_id) REFERENCES public.client_workflow_instances(id) ON DELETE SET NULL;
+
+ALTER TABLE public.social_media_posts
+  DROP CONSTRAINT IF EXISTS social_media_posts_workflow_instance_id_fkey,
+  ADD CONSTRAINT social_media_posts_workflow_instance_id_fkey
+    FOREIGN KEY (workflow_instance_id) REFERENCES public.client_workflow_instances(id) ON DELETE SET NULL;
@@ -0,0 +1,211 @@
+-- Semantic versions for workflow templates. Every version a template has
+-- been saved at is kept in workflow_template_versions, and each client's
+-- workflow records the version it runs, so template fixes reach clients
+-- through a rollout (rollout-workflow-template) instead of never.
+
+-- ============================================================
+-- 1. Semver on templates
+-- ============================================================
+
+UPDATE public.workflow_templates
+SET version = CASE
+  WHEN version ~ '^\d+\.\d+\.\d+$' THEN version
+  WHEN version ~ '^\d+\.\d+$' THEN version || '.0'
+  WHEN version ~ '^\d+$' THEN version || '.0.0'
+  ELSE '1.0.0'
+END;
+
+ALTER TABLE public.workflow_templates
+  ALTER COLUMN version SET DEFAULT '1.0.0',
+  ALTER COLUMN version SET NOT NULL,
+  ADD CONSTRAINT workflow_templates_version_semver CHECK (version ~ '^\d+\.\d+\.\d+$'),
+  -- What changed in the current version
+  ADD COLUMN IF NOT EXISTS changelog TEXT;
+
+-- Semver ordering: -1, 0 or 1
+CREATE OR REPLACE FUNCTION public.compare_semver(a TEXT, b TEXT)
+RETURNS INTEGER AS $$
+  SELECT CASE
+    WHEN string_to_array(a, '.')::INT[] < string_to_array(b, '.')::INT[] THEN -1
+    WHEN string_to_array(a, '.')::INT[] > string_to_array(b, '.')::INT[] THEN 1
+    ELSE 0
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- ============================================================
+-- 2. Version snapshots
+-- ============================================================
+
+CREATE TABLE public.workflow_template_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID NOT NULL REFERENCES public.workflow_templates(id) ON DELETE CASCADE,
+  version TEXT NOT NULL CHECK (version ~ '^\d+\.\d+\.\d+$'),
+  changelog TEXT,
+  workflow_json JSONB,
+  n8n_template_workflow_id TEXT,
+  master_prompt TEXT,
+  default_config JSONB DEFAULT '{}'::jsonb,
+  required_credentials TEXT[] DEFAULT '{}',
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (template_id, version)
+);
+
+ALTER TABLE public.workflow_template_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins can view template versions"
+ON public.workflow_template_versions FOR SELECT TO authenticated
+USING (public.is_super_admin());
+
+-- The version each client workflow runs
+ALTER TABLE public.client_workflow_instances
+  ADD COLUMN IF NOT EXISTS template_version TEXT;
+
+UPDATE public.client_workflow_instances i
+SET template_version = t.version
+FROM public.workflow_templates t
+WHERE t.id = i.workflow_template_id AND i.template_version IS NULL;
+
+-- Versions only move forward, and a version clients already run cannot be
+-- edited in place: bump it and roll it out instead.
+CREATE OR REPLACE FUNCTION public.guard_workflow_template_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF public.compare_semver(NEW.version, OLD.version) < 0 THEN
+    RAISE EXCEPTION 'Version % is older than the current version %', NEW.version, OLD.version;
+  END IF;
+
+  IF NEW.version = OLD.version
+     AND (NEW.workflow_json IS DISTINCT FROM OLD.workflow_json
+       OR NEW.n8n_template_workflow_id IS DISTINCT FROM OLD.n8n_template_workflow_id
+       OR NEW.master_prompt IS DISTINCT FROM OLD.master_prompt
+       OR NEW.default_config IS DISTINCT FROM OLD.default_config
+       OR NEW.required_credentials IS DISTINCT FROM OLD.required_credentials)
+     AND EXISTS (
+       SELECT 1 FROM client_workflow_instances
+       WHERE workflow_template_id = NEW.id AND template_version = NEW.version
+     ) THEN
+    RAISE EXCEPTION 'Version % is in use by client workflows; bump the version to change it', NEW.version;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER guard_workflow_template_version
+BEFORE UPDATE ON public.workflow_templates
+FOR EACH ROW EXECUTE FUNCTION public.guard_workflow_template_version();
+
+CREATE OR REPLACE FUNCTION public.snapshot_workflow_template_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO workflow_template_versions (
+    template_id, version, changelog, workflow_json, n8n_template_workflow_id,
+    master_prompt, default_config, required_credentials, created_by
+  ) VALUES (
+    NEW.id, NEW.version, NEW.changelog, NEW.workflow_json, NEW.n8n_template_workflow_id,
+    NEW.master_prompt, NEW.default_config, NEW.required_credentials, auth.uid()
+  )
+  ON CONFLICT (template_id, version) DO UPDATE SET
+    changelog = EXCLUDED.changelog,
+    workflow_json = EXCLUDED.workflow_json,
+    n8n_template_workflow_id = EXCLUDED.n8n_template_workflow_id,
+    master_prompt = EXCLUDED.master_prompt,
+    default_config = EXCLUDED.default_config,
+    required_credentials = EXCLUDED.required_credentials,
+    updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER snapshot_workflow_template_version
+AFTER INSERT OR UPDATE ON public.workflow_templates
+FOR EACH ROW EXECUTE FUNCTION public.snapshot_workflow_template_version();
+
+INSERT INTO public.workflow_template_versions (
+  template_id, version, workflow_json, n8n_template_workflow_id,
+  master_prompt, default_config, required_credentials, created_by, created_at
+)
+SELECT id, version, workflow_json, n8n_template_workflow_id,
+       master_prompt, default_config, required_credentials, created_by, updated_at
+FROM public.workflow_templates
+ON CONFLICT (template_id, version) DO NOTHING;
+
+-- ============================================================
+-- 3. Rollouts
+-- ============================================================
+
+-- canary: the canaries run the new version and are being watched
+-- monitoring: every selected workflow runs it and is being watched
+CREATE TABLE public.workflow_rollouts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID NOT NULL REFERENCES public.workflow_templates(id) ON DELETE CASCADE,
+  to_version TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'canary'
+    CHECK (status IN ('canary', 'monitoring', 'completed', 'rolled_back')),
+  canary_count INTEGER NOT NULL DEFAULT 1 CHECK (canary_count > 0),
+  observation_minutes INTEGER NOT NULL DEFAULT 30 CHECK (observation_minutes > 0),
+  -- Roll back above this error rate, or 10 points above the baseline if higher
+  max_error_rate NUMERIC(5,4) NOT NULL DEFAULT 0.2 CHECK (max_error_rate > 0 AND max_error_rate <= 1),
+  -- Executions needed before the error rate is trusted
+  min_executions INTEGER NOT NULL DEFAULT 10 CHECK (min_executions > 0),
+  -- Executions of the selected workflows in the 24 hours before the rollout
+  baseline_executions INTEGER NOT NULL DEFAULT 0,
+  baseline_errors INTEGER NOT NULL DEFAULT 0,
+  phase_started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  status_reason TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+-- One rollout in flight per template
+CREATE UNIQUE INDEX workflow_rollouts_one_active
+ON public.workflow_rollouts(template_id) WHERE status IN ('canary', 'monitoring');
+
+CREATE TABLE public.workflow_rollout_instances (
+  rollout_id UUID NOT NULL REFERENCES public.workflow_rollouts(id) ON DELETE CASCADE,
+  workflow_instance_id UUID NOT NULL REFERENCES public.client_workflow_instances(id) ON DELETE CASCADE,
+  from_version TEXT NOT NULL,
+  is_canary BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'upgraded', 'rolled_back', 'failed')),
+  upgraded_at TIMESTAMPTZ,
+  error_message TEXT,
+  PRIMARY KEY (rollout_id, workflow_instance_id)
+);
+
+CREATE INDEX idx_workflow_rollout_instances_instance
+ON public.workflow_rollout_instances(workflow_instance_id);
+
+ALTER TABLE public.workflow_rollouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workflow_rollout_instances ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins can view rollouts"
+ON public.workflow_rollouts FOR SELECT TO authenticated
+USING (public.is_super_admin());
+
+CREATE POLICY "Super admins can view rollout instances"
+ON public.workflow_rollout_instances FOR SELECT TO authenticated
+USING (public.is_super_admin());
+
+-- Executions and failed executions of a set of workflows in a window
+CREATE OR REPLACE FUNCTION public.workflow_execution_stats(
+  p_instance_ids UUID[],
+  p_since TIMESTAMPTZ,
+  p_until TIMESTAMPTZ DEFAULT now()
+)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'executions', COUNT(*) FILTER (WHERE status IN ('success', 'error')),
+    'errors', COUNT(*) FILTER (WHERE status = 'error')
+  )
+  FROM workflow_executions
+  WHERE workflow_instance_id = ANY(p_instance_ids)
+    AND executed_at >= p_since
+    AND executed_at < p_until;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.workflow_execution_stats(UUID[], TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.workflow_execution_stats(UUID[], TIMESTAMPTZ, TIMESTAMPTZ) TO service_role;
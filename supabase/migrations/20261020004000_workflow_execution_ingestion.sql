@@ -0,0 +1,299 @@
+-- Structured execution records for client workflows. n8n reports start,
+-- finish and error (with per-node timings) to workflow-execution-callback,
+-- which records them here; failed executions are retried with backoff under
+-- their template's retry_policy by retry-workflow-executions.
+
+-- ============================================================
+-- 1. Retry policy per template
+-- ============================================================
+
+ALTER TABLE public.workflow_templates
+  ADD COLUMN IF NOT EXISTS retry_policy JSONB NOT NULL DEFAULT
+    '{"max_attempts": 3, "initial_delay_seconds": 60, "backoff_multiplier": 2, "max_delay_seconds": 3600}'::jsonb;
+
+-- ============================================================
+-- 2. Execution records
+-- ============================================================
+
+ALTER TABLE public.workflow_executions
+  -- [{ name, started_at, duration_ms, status, error }] as reported by n8n
+  ADD COLUMN IF NOT EXISTS node_timings JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- 1 for the first run, 2 for its first retry, ...
+  ADD COLUMN IF NOT EXISTS attempt INTEGER NOT NULL DEFAULT 1,
+  -- The first execution of the chain this one retries
+  ADD COLUMN IF NOT EXISTS retry_of UUID REFERENCES public.workflow_executions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS retry_status TEXT
+    CHECK (retry_status IN ('scheduled', 'dispatched', 'exhausted', 'skipped')),
+  ADD COLUMN IF NOT EXISTS next_retry_at TIMESTAMPTZ,
+  -- Set on executions a super admin replayed by hand
+  ADD COLUMN IF NOT EXISTS replayed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- n8n's execution id is the idempotency key for callbacks
+CREATE UNIQUE INDEX IF NOT EXISTS idx_workflow_executions_n8n_execution
+  ON public.workflow_executions(workflow_instance_id, n8n_execution_id)
+  WHERE n8n_execution_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_due_retries
+  ON public.workflow_executions(next_retry_at)
+  WHERE retry_status = 'scheduled';
+
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_retry_of
+  ON public.workflow_executions(retry_of)
+  WHERE retry_of IS NOT NULL;
+
+-- Seconds to wait before retrying after a failed attempt: the initial delay
+-- grown by the multiplier per attempt, capped at max_delay_seconds.
+-- Keep in sync with retryDelaySeconds in src/lib/workflow-executions.ts
+CREATE OR REPLACE FUNCTION public.workflow_retry_delay(p_policy JSONB, p_attempt INTEGER)
+RETURNS INTEGER AS $$
+  SELECT LEAST(
+    GREATEST(COALESCE((p_policy->>'initial_delay_seconds')::NUMERIC, 60), 0)
+      * POWER(GREATEST(COALESCE((p_policy->>'backoff_multiplier')::NUMERIC, 2), 1), GREATEST(p_attempt - 1, 0)),
+    COALESCE((p_policy->>'max_delay_seconds')::NUMERIC, 3600)
+  )::INTEGER;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- ============================================================
+-- 3. Ingestion
+-- ============================================================
+
+-- Records a start, finish or error event for a workflow instance. The
+-- execution is found by our execution_id (sent to n8n on retries and
+-- replays) or by n8n_execution_id, and created on its first event. Events
+-- for an execution that already finished are ignored. A failed execution is
+-- scheduled for retry while its template's policy allows it and there is an
+-- input payload to send again.
+CREATE OR REPLACE FUNCTION public.record_workflow_execution(
+  p_workflow_instance_id UUID,
+  p_event TEXT,
+  p_payload JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_instance client_workflow_instances%ROWTYPE;
+  v_exec workflow_executions%ROWTYPE;
+  v_policy JSONB;
+  v_execution_id UUID := NULLIF(p_payload->>'execution_id', '')::UUID;
+  v_n8n_id TEXT := NULLIF(p_payload->>'n8n_execution_id', '');
+  v_started TIMESTAMPTZ := COALESCE((p_payload->>'started_at')::TIMESTAMPTZ, now());
+  v_finished TIMESTAMPTZ := COALESCE((p_payload->>'finished_at')::TIMESTAMPTZ, now());
+  v_max_attempts INTEGER;
+BEGIN
+  IF p_event NOT IN ('start', 'finish', 'error') THEN
+    RAISE EXCEPTION 'Unknown execution event: %', p_event;
+  END IF;
+
+  SELECT * INTO v_instance FROM client_workflow_instances WHERE id = p_workflow_instance_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workflow instance not found';
+  END IF;
+
+  IF v_execution_id IS NOT NULL THEN
+    SELECT * INTO v_exec FROM workflow_executions
+    WHERE id = v_execution_id AND workflow_instance_id = p_workflow_instance_id
+    FOR UPDATE;
+  END IF;
+
+  IF v_exec.id IS NULL AND v_n8n_id IS NOT NULL THEN
+    SELECT * INTO v_exec FROM workflow_executions
+    WHERE workflow_instance_id = p_workflow_instance_id AND n8n_execution_id = v_n8n_id
+    FOR UPDATE;
+  END IF;
+
+  IF v_exec.id IS NULL THEN
+    INSERT INTO workflow_executions (
+      workflow_instance_id, n8n_execution_id, client_id, service_id,
+      status, execution_mode, input_data, executed_at
+    ) VALUES (
+      p_workflow_instance_id, v_n8n_id, v_instance.client_id, v_instance.service_id,
+      'running',
+      COALESCE(NULLIF(p_payload->>'mode', '')::execution_mode, 'webhook'),
+      COALESCE(p_payload->'input', '{}'::jsonb),
+      v_started
+    )
+    RETURNING * INTO v_exec;
+
+    UPDATE client_workflow_instances
+    SET execution_count = COALESCE(execution_count, 0) + 1,
+        last_executed_at = v_started
+    WHERE id = p_workflow_instance_id;
+  ELSIF v_exec.status = 'waiting' THEN
+    -- A retry or replay we dispatched has now reached n8n
+    UPDATE workflow_executions
+    SET status = 'running',
+        n8n_execution_id = COALESCE(n8n_execution_id, v_n8n_id),
+        executed_at = v_started
+    WHERE id = v_exec.id
+    RETURNING * INTO v_exec;
+
+    UPDATE client_workflow_instances
+    SET execution_count = COALESCE(execution_count, 0) + 1,
+        last_executed_at = v_started
+    WHERE id = p_workflow_instance_id;
+  ELSIF v_exec.status IN ('success', 'error', 'cancelled') THEN
+    RETURN jsonb_build_object('execution_id', v_exec.id, 'status', v_exec.status, 'duplicate', true);
+  END IF;
+
+  IF p_event = 'start' THEN
+    RETURN jsonb_build_object('execution_id', v_exec.id, 'status', v_exec.status, 'duplicate', false);
+  END IF;
+
+  UPDATE workflow_executions
+  SET status = CASE WHEN p_event = 'finish' THEN 'success' ELSE 'error' END::execution_status,
+      n8n_execution_id = COALESCE(n8n_execution_id, v_n8n_id),
+      input_data = CASE
+        WHEN input_data IS NULL OR input_data = '{}'::jsonb THEN COALESCE(p_payload->'input', input_data)
+        ELSE input_data
+      END,
+      output_data = COALESCE(p_payload->'output', output_data),
+      error_message = CASE WHEN p_event = 'error'
+        THEN COALESCE(p_payload->'error'->>'message', 'Workflow execution failed') END,
+      error_stack = CASE WHEN p_event = 'error' THEN p_payload->'error'->>'stack' END,
+      node_timings = COALESCE(p_payload->'nodes', node_timings),
+      completed_at = v_finished,
+      duration_ms = COALESCE(
+        (p_payload->>'duration_ms')::INTEGER,
+        GREATEST(EXTRACT(EPOCH FROM (v_finished - executed_at)) * 1000, 0)::INTEGER
+      )
+  WHERE id = v_exec.id
+  RETURNING * INTO v_exec;
+
+  IF p_event = 'error' THEN
+    SELECT COALESCE(t.retry_policy, '{}'::jsonb) INTO v_policy
+    FROM workflow_templates t
+    WHERE t.id = v_instance.workflow_template_id;
+    v_max_attempts := COALESCE((v_policy->>'max_attempts')::INTEGER, 1);
+
+    IF v_max_attempts > 1 THEN
+      IF v_exec.input_data IS NULL OR v_exec.input_data = '{}'::jsonb THEN
+        UPDATE workflow_executions SET retry_status = 'skipped' WHERE id = v_exec.id
+        RETURNING * INTO v_exec;
+      ELSIF v_exec.attempt < v_max_attempts THEN
+        UPDATE workflow_executions
+        SET retry_status = 'scheduled',
+            next_retry_at = now() + make_interval(secs => workflow_retry_delay(v_policy, v_exec.attempt))
+        WHERE id = v_exec.id
+        RETURNING * INTO v_exec;
+      ELSE
+        UPDATE workflow_executions SET retry_status = 'exhausted' WHERE id = v_exec.id
+        RETURNING * INTO v_exec;
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'execution_id', v_exec.id,
+    'status', v_exec.status,
+    'duplicate', false,
+    'retry_status', v_exec.retry_status,
+    'next_retry_at', v_exec.next_retry_at
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.record_workflow_execution(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_workflow_execution(UUID, TEXT, JSONB) TO service_role;
+
+-- ============================================================
+-- 4. Retries and replays
+-- ============================================================
+
+-- Claims retries that are due and creates the execution for each next
+-- attempt, waiting to be sent to the instance's webhook. Retries of
+-- workflows that are inactive or have no webhook are skipped. Safe to run
+-- concurrently; each retry is claimed once.
+CREATE OR REPLACE FUNCTION public.claim_workflow_retries(p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  execution_id UUID,
+  workflow_instance_id UUID,
+  webhook_url TEXT,
+  input_data JSONB,
+  attempt INTEGER,
+  retry_of UUID
+) AS $$
+#variable_conflict use_column
+DECLARE
+  v_due RECORD;
+  v_new_id UUID;
+BEGIN
+  FOR v_due IN
+    SELECT e.*, i.is_active AS instance_active, i.webhook_url AS instance_webhook_url
+    FROM workflow_executions e
+    JOIN client_workflow_instances i ON i.id = e.workflow_instance_id
+    WHERE e.retry_status = 'scheduled' AND e.next_retry_at <= now()
+    ORDER BY e.next_retry_at
+    LIMIT p_limit
+    FOR UPDATE OF e SKIP LOCKED
+  LOOP
+    IF NOT COALESCE(v_due.instance_active, false) OR v_due.instance_webhook_url IS NULL THEN
+      UPDATE workflow_executions SET retry_status = 'skipped', next_retry_at = NULL WHERE id = v_due.id;
+      CONTINUE;
+    END IF;
+
+    UPDATE workflow_executions SET retry_status = 'dispatched', next_retry_at = NULL WHERE id = v_due.id;
+
+    INSERT INTO workflow_executions (
+      workflow_instance_id, client_id, service_id, status, execution_mode,
+      input_data, attempt, retry_of, executed_at
+    ) VALUES (
+      v_due.workflow_instance_id, v_due.client_id, v_due.service_id, 'waiting', 'trigger',
+      v_due.input_data, v_due.attempt + 1, COALESCE(v_due.retry_of, v_due.id), now()
+    )
+    RETURNING id INTO v_new_id;
+
+    execution_id := v_new_id;
+    workflow_instance_id := v_due.workflow_instance_id;
+    webhook_url := v_due.instance_webhook_url;
+    input_data := v_due.input_data;
+    attempt := v_due.attempt + 1;
+    retry_of := COALESCE(v_due.retry_of, v_due.id);
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.claim_workflow_retries(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_workflow_retries(INTEGER) TO service_role;
+
+-- Creates a manual re-run of an execution with the same input, starting a
+-- new retry chain. The caller sends it to the instance's webhook.
+CREATE OR REPLACE FUNCTION public.replay_workflow_execution(p_execution_id UUID, p_user_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_exec workflow_executions%ROWTYPE;
+  v_instance client_workflow_instances%ROWTYPE;
+  v_new_id UUID;
+BEGIN
+  SELECT * INTO v_exec FROM workflow_executions WHERE id = p_execution_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Execution not found';
+  END IF;
+
+  SELECT * INTO v_instance FROM client_workflow_instances WHERE id = v_exec.workflow_instance_id;
+  IF v_instance.webhook_url IS NULL THEN
+    RAISE EXCEPTION 'The workflow has no webhook to replay into';
+  END IF;
+  IF NOT COALESCE(v_instance.is_active, false) THEN
+    RAISE EXCEPTION 'The workflow is not active';
+  END IF;
+
+  INSERT INTO workflow_executions (
+    workflow_instance_id, client_id, service_id, status, execution_mode,
+    input_data, replayed_by, executed_at
+  ) VALUES (
+    v_exec.workflow_instance_id, v_exec.client_id, v_exec.service_id, 'waiting', 'manual',
+    COALESCE(v_exec.input_data, '{}'::jsonb), p_user_id, now()
+  )
+  RETURNING id INTO v_new_id;
+
+  RETURN jsonb_build_object(
+    'execution_id', v_new_id,
+    'workflow_instance_id', v_exec.workflow_instance_id,
+    'webhook_url', v_instance.webhook_url,
+    'input_data', COALESCE(v_exec.input_data, '{}'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.replay_workflow_execution(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.replay_workflow_execution(UUID, UUID) TO service_role;
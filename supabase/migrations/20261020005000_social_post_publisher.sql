@@ -0,0 +1,103 @@
+-- First-party publisher for scheduled social posts. publish-social-posts
+-- claims due posts every minute, publishes them with the client's connected
+-- accounts and records each platform's result in platform_post_ids.
+
+ALTER TYPE public.social_post_status ADD VALUE IF NOT EXISTS 'partial';
+
+ALTER TABLE public.social_media_posts
+  ADD COLUMN IF NOT EXISTS attempt_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_attempt_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_social_media_posts_due
+  ON public.social_media_posts(scheduled_at, next_attempt_at)
+  WHERE status = 'scheduled';
+
+-- Metering: a post is charged one unit per platform it reached. Publishing
+-- holds a unit for every platform the post targets; a retry gives its hold
+-- back while it waits and reserves again when it is picked up. Once the post
+-- is posted or partial, only the platforms posted in platform_post_ids are
+-- committed. A post marked posted without per-platform results (published by
+-- the n8n workflow) reached all of its targets.
+CREATE OR REPLACE FUNCTION public.meter_social_media_post()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old TEXT := CASE WHEN TG_OP = 'UPDATE' THEN OLD.status::TEXT END;
+  -- 'all' stands for every other value of social_platform
+  v_targets INTEGER := CASE
+    WHEN NEW.platform = 'all' THEN array_length(enum_range(NULL::social_platform), 1) - 1
+    ELSE 1
+  END;
+  v_units INTEGER;
+  v_result JSONB;
+BEGIN
+  IF v_old IS NOT DISTINCT FROM NEW.status::TEXT THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'publishing' THEN
+    v_result := public.reserve_usage(NEW.client_id, 'social-media-automation', v_targets, 'social_post', NEW.id::TEXT, 3600);
+    IF (v_result ->> 'allowed')::BOOLEAN THEN
+      NEW.usage_reservation_id := (v_result ->> 'reservation_id')::UUID;
+    ELSE
+      NEW.status := 'failed';
+      NEW.error_message := v_result ->> 'reason';
+    END IF;
+  ELSIF NEW.status::TEXT IN ('posted', 'partial') THEN
+    SELECT COUNT(*) INTO v_units
+    FROM jsonb_each(COALESCE(NEW.platform_post_ids, '{}'::jsonb)) AS r(platform, state)
+    WHERE r.state ->> 'status' = 'posted';
+    IF v_units = 0 AND NEW.status = 'posted' THEN
+      v_units := v_targets;
+    END IF;
+
+    IF NEW.usage_reservation_id IS NOT NULL THEN
+      PERFORM public.commit_usage(NEW.usage_reservation_id, v_units);
+    ELSIF v_units > 0 THEN
+      INSERT INTO usage_tracking (client_id, service_id, usage_type, quantity, metadata)
+      SELECT NEW.client_id, s.id, 'social_post', v_units, jsonb_build_object('reference_id', NEW.id)
+      FROM services s WHERE s.slug = 'social-media-automation';
+      PERFORM public.increment_usage(NEW.client_id, 'social-media-automation', v_units);
+    END IF;
+  ELSIF NEW.status::TEXT IN ('failed', 'scheduled') AND NEW.usage_reservation_id IS NOT NULL THEN
+    PERFORM public.release_usage(NEW.usage_reservation_id);
+    NEW.usage_reservation_id := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Hands out scheduled posts that are due (no scheduled_at means "now") and
+-- whose retry wait is over, marking them publishing. Posts over a blocking
+-- usage limit come back already failed by the metering trigger. Posts stuck
+-- in publishing (the publisher crashed) are picked up again.
+CREATE OR REPLACE FUNCTION public.claim_social_posts(p_limit INTEGER DEFAULT 25)
+RETURNS SETOF public.social_media_posts AS $$
+BEGIN
+  UPDATE social_media_posts
+  SET status = 'scheduled', next_attempt_at = NOW()
+  WHERE status = 'publishing'
+    AND last_attempt_at < NOW() - INTERVAL '10 minutes';
+
+  RETURN QUERY
+  UPDATE social_media_posts p
+  SET status = 'publishing',
+      attempt_count = p.attempt_count + 1,
+      last_attempt_at = NOW(),
+      next_attempt_at = NULL
+  WHERE p.id IN (
+    SELECT q.id FROM social_media_posts q
+    WHERE q.status = 'scheduled'
+      AND (q.scheduled_at IS NULL OR q.scheduled_at <= NOW())
+      AND (q.next_attempt_at IS NULL OR q.next_attempt_at <= NOW())
+    ORDER BY COALESCE(q.next_attempt_at, q.scheduled_at, q.created_at), q.id
+    LIMIT p_limit
+    FOR UPDATE OF q SKIP LOCKED
+  )
+  RETURNING p.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.claim_social_posts(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_social_posts(INTEGER) TO service_role;
@@ -0,0 +1,113 @@
+-- Per-brand social platform connections made through OAuth. The tokens are
+-- sealed (AES-GCM) by the edge functions before they are stored, refreshed by
+-- refresh-social-tokens before they expire, and a connection that can no
+-- longer be refreshed is flagged reconnect_needed for the client.
+
+-- 1. Connections: one account per brand and platform. Readable by the client
+-- and their admin; the tokens live in social_connection_tokens.
+CREATE TABLE public.social_platform_connections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  brand_id UUID NOT NULL REFERENCES public.social_media_brands(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  platform social_platform NOT NULL CHECK (platform <> 'all'),
+  account_id TEXT NOT NULL,
+  account_name TEXT,
+  scopes TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'connected'
+    CHECK (status IN ('connected', 'reconnect_needed', 'revoked')),
+  token_expires_at TIMESTAMPTZ,
+  last_refreshed_at TIMESTAMPTZ,
+  last_error TEXT,
+  connected_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  connected_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (brand_id, platform)
+);
+
+CREATE INDEX idx_social_platform_connections_client ON public.social_platform_connections(client_id, status);
+CREATE INDEX idx_social_platform_connections_expiry
+  ON public.social_platform_connections(token_expires_at)
+  WHERE status = 'connected' AND token_expires_at IS NOT NULL;
+
+CREATE TRIGGER update_social_platform_connections_updated_at
+  BEFORE UPDATE ON public.social_platform_connections
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.social_platform_connections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super admins full access social connections" ON public.social_platform_connections FOR ALL TO authenticated USING (public.is_super_admin()) WITH CHECK (public.is_super_admin());
+CREATE POLICY "Admins view their clients social connections" ON public.social_platform_connections FOR SELECT TO authenticated USING (client_id IN (SELECT id FROM public.clients WHERE admin_id = public.get_admin_id_for_user()));
+CREATE POLICY "Clients view own social connections" ON public.social_platform_connections FOR SELECT TO authenticated USING (client_id = (SELECT id FROM public.clients WHERE user_id = auth.uid()));
+CREATE POLICY "Clients disconnect own social connections" ON public.social_platform_connections FOR DELETE TO authenticated USING (client_id = (SELECT id FROM public.clients WHERE user_id = auth.uid()));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE social_platform_connections;
+
+-- 2. Sealed tokens. Kept out of social_platform_connections so clients who
+-- can read their connections never see a token; no policies, so only the
+-- service role reaches them.
+CREATE TABLE public.social_connection_tokens (
+  connection_id UUID PRIMARY KEY REFERENCES public.social_platform_connections(id) ON DELETE CASCADE,
+  access_token_sealed TEXT NOT NULL,
+  refresh_token_sealed TEXT,
+  refresh_token_expires_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.social_connection_tokens ENABLE ROW LEVEL SECURITY;
+
+-- 3. Pending authorizations. social-oauth-authorize records who started the
+-- flow for which brand (and the PKCE verifier); social-oauth-callback
+-- consumes the row once.
+CREATE TABLE public.social_oauth_states (
+  state TEXT PRIMARY KEY,
+  brand_id UUID NOT NULL REFERENCES public.social_media_brands(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  platform social_platform NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code_verifier TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT now() + INTERVAL '15 minutes'
+);
+
+ALTER TABLE public.social_oauth_states ENABLE ROW LEVEL SECURITY;
+
+-- 4. Flags a connection for reconnecting and tells the client once, when it
+-- first stops working. Returns whether the status changed.
+CREATE OR REPLACE FUNCTION public.mark_social_connection_reconnect(p_connection_id UUID, p_error TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_conn RECORD;
+  v_user_id UUID;
+  v_brand TEXT;
+BEGIN
+  UPDATE social_platform_connections
+  SET status = 'reconnect_needed', last_error = p_error
+  WHERE id = p_connection_id AND status = 'connected'
+  RETURNING * INTO v_conn;
+
+  IF NOT FOUND THEN
+    UPDATE social_platform_connections SET last_error = p_error WHERE id = p_connection_id;
+    RETURN FALSE;
+  END IF;
+
+  SELECT user_id INTO v_user_id FROM clients WHERE id = v_conn.client_id;
+  SELECT name INTO v_brand FROM social_media_brands WHERE id = v_conn.brand_id;
+
+  IF v_user_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, title, message, type, action_url)
+    VALUES (
+      v_user_id,
+      'Reconnect ' || initcap(v_conn.platform::TEXT) || ' for ' || COALESCE(v_brand, 'your brand'),
+      'Scheduled posts to ' || COALESCE(v_conn.account_name, initcap(v_conn.platform::TEXT)) ||
+        ' will fail until the account is connected again.',
+      'warning',
+      '/client/social-media?view=brands'
+    );
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.mark_social_connection_reconnect(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_social_connection_reconnect(UUID, TEXT) TO service_role;
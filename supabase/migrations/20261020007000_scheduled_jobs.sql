@@ -0,0 +1,69 @@
+-- Scheduled jobs. Edge functions are called through pg_net with the service
+-- role key, which the scheduler-only functions expect as their bearer token.
+-- The project URL and the key are read from Vault on every run, so set them
+-- once per project:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+-- 1. Calls an edge function as the scheduler. Returns the pg_net request id.
+CREATE OR REPLACE FUNCTION public.invoke_scheduled_function(p_function TEXT, p_body JSONB DEFAULT '{}'::jsonb)
+RETURNS BIGINT AS $$
+DECLARE
+  v_url TEXT;
+  v_key TEXT;
+BEGIN
+  SELECT decrypted_secret INTO v_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO v_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF v_url IS NULL OR v_key IS NULL THEN
+    RAISE EXCEPTION 'Set the project_url and service_role_key Vault secrets to run %', p_function;
+  END IF;
+
+  RETURN net.http_post(
+    url := rtrim(v_url, '/') || '/functions/v1/' || p_function,
+    body := p_body,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_key
+    ),
+    timeout_milliseconds := 60000
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE ALL ON FUNCTION public.invoke_scheduled_function(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- 2. Edge function ticks. cron.schedule replaces a job with the same name,
+-- so re-running this migration does not add duplicates.
+SELECT cron.schedule('campaign-dialer', '* * * * *',
+  $$SELECT public.invoke_scheduled_function('campaign-dialer')$$);
+
+SELECT cron.schedule('whatsapp-campaign-sender', '* * * * *',
+  $$SELECT public.invoke_scheduled_function('whatsapp-campaign-sender')$$);
+
+SELECT cron.schedule('publish-social-posts', '* * * * *',
+  $$SELECT public.invoke_scheduled_function('publish-social-posts')$$);
+
+SELECT cron.schedule('retry-workflow-executions', '* * * * *',
+  $$SELECT public.invoke_scheduled_function('retry-workflow-executions')$$);
+
+SELECT cron.schedule('rollout-workflow-template', '*/5 * * * *',
+  $$SELECT public.invoke_scheduled_function('rollout-workflow-template', '{"action": "advance"}'::jsonb)$$);
+
+SELECT cron.schedule('refresh-social-tokens', '*/10 * * * *',
+  $$SELECT public.invoke_scheduled_function('refresh-social-tokens')$$);
+
+-- 03:30 UTC is 09:00 IST, so reminders arrive in the morning
+SELECT cron.schedule('invoice-dunning', '30 3 * * *',
+  $$SELECT public.invoke_scheduled_function('invoice-dunning')$$);
+
+-- 3. Database jobs. Usage periods close hourly (daily periods end at
+-- midnight UTC); the billing run invoices the month that just ended.
+SELECT cron.schedule('reset-usage-periods', '5 * * * *',
+  $$SELECT public.reset_usage_if_needed()$$);
+
+SELECT cron.schedule('generate-period-invoices', '30 0 1 * *',
+  $$SELECT public.generate_period_invoices()$$);